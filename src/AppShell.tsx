@@ -1,19 +1,30 @@
-import { useState, useRef } from 'react';
-import { useProject, MODULES, type ModuleId, exportAllToJSON, exportProjectToJSON, importFromJSON, mergeImportedProjects } from './project';
+import { useState, useRef, useEffect } from 'react';
+import { useProject, MODULES, type ModuleId, exportAllToJSON, exportProjectToJSON, importFromJSON, mergeImportedProjects, describeStorageError } from './project';
 import { SummaryModule } from './modules/summary';
+import { RevisionsModule } from './modules/revisions';
 import { PlaceholderModule } from './modules/placeholder';
 import { NozzlesModule } from './modules/nozzles';
 import { LongWeldsModule } from './modules/longwelds';
 import { CircWeldsModule } from './modules/circwelds';
 import { PipeJointsModule } from './modules/pipejoints';
+import { HeadsModule } from './modules/heads';
+import { InternalsModule } from './modules/internals';
+import { ExternalsModule } from './modules/externals';
+import { TubesheetsModule } from './modules/tubesheets';
+import { PwhtModule } from './modules/pwht';
+import { PressureTestModule } from './modules/pressuretest';
+import { CoatingsModule } from './modules/coatings';
+import { ShellModule } from './modules/shell';
 import { OfferModule } from './modules/offer';
+import { getEquipmentLabel } from './engine/equipment';
 import './AppShell.css';
 
-type ViewType = 'summary' | ModuleId | 'settings';
+type ViewType = 'summary' | 'revisions' | ModuleId | 'settings';
 
 export function AppShell() {
   const {
     currentProject,
+    currentEquipment,
     savedProjects,
     hasUnsavedChanges,
     settings,
@@ -23,17 +34,51 @@ export function AppShell() {
     deleteProjectById,
     updateJobNumber,
     updateVesselName,
+    addEquipment,
+    selectEquipment,
+    updateEquipment,
+    removeEquipment,
     updateSettings,
     saveCurrentSettings,
     refreshProjects,
+    storageWarning,
+    dismissStorageWarning,
+    history,
+    undo,
+    redo,
+    travelHistory,
   } = useProject();
 
   const [activeView, setActiveView] = useState<ViewType>('nozzles');
   const [showProjectMenu, setShowProjectMenu] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [showJobEdit, setShowJobEdit] = useState(false);
+  const [showEquipmentEdit, setShowEquipmentEdit] = useState(false);
   const [importMessage, setImportMessage] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Ctrl+Z undo, Ctrl+Shift+Z or Ctrl+Y redo (Cmd on a Mac) - fields keep their own text undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const lastChange = history.past[history.past.length - 1];
+  const nextChange = history.future[0];
+
   // Handle file import
   const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -41,7 +86,7 @@ export function AppShell() {
 
     try {
       const result = await importFromJSON(file);
-      const { projectsAdded, projectsUpdated } = mergeImportedProjects(result.projects, result.settings);
+      const { projectsAdded, projectsUpdated } = await mergeImportedProjects(result.projects, result.settings);
       
       setImportMessage(`✓ ${result.message} (${projectsAdded} added, ${projectsUpdated} updated)`);
       refreshProjects();
@@ -49,7 +94,7 @@ export function AppShell() {
       // Clear message after 3 seconds
       setTimeout(() => setImportMessage(null), 3000);
     } catch (err) {
-      setImportMessage(`✗ ${err instanceof Error ? err.message : 'Import failed'}`);
+      setImportMessage(`✗ ${describeStorageError(err, 'import')}`);
       setTimeout(() => setImportMessage(null), 3000);
     }
 
@@ -60,9 +105,14 @@ export function AppShell() {
   };
 
   // Export all projects
-  const handleExportAll = () => {
-    exportAllToJSON(settings);
+  const handleExportAll = async () => {
     setShowProjectMenu(false);
+    try {
+      await exportAllToJSON(settings);
+    } catch (err) {
+      setImportMessage(`✗ ${describeStorageError(err, 'export')}`);
+      setTimeout(() => setImportMessage(null), 3000);
+    }
   };
 
   // Export current project
@@ -77,6 +127,10 @@ export function AppShell() {
     if (activeView === 'summary') {
       return <SummaryModule />;
     }
+
+    if (activeView === 'revisions') {
+      return <RevisionsModule />;
+    }
     
     if (activeView === 'settings') {
       return (
@@ -95,6 +149,10 @@ export function AppShell() {
       return <NozzlesModule />;
     }
 
+    if (activeView === 'shell') {
+      return <ShellModule />;
+    }
+
     if (activeView === 'longwelds') {
       return <LongWeldsModule />;
     }
@@ -107,6 +165,34 @@ export function AppShell() {
       return <PipeJointsModule />;
     }
 
+    if (activeView === 'heads') {
+      return <HeadsModule />;
+    }
+
+    if (activeView === 'internals') {
+      return <InternalsModule />;
+    }
+
+    if (activeView === 'externals') {
+      return <ExternalsModule />;
+    }
+
+    if (activeView === 'tubesheets') {
+      return <TubesheetsModule />;
+    }
+
+    if (activeView === 'pwht') {
+      return <PwhtModule />;
+    }
+
+    if (activeView === 'pressuretest') {
+      return <PressureTestModule />;
+    }
+
+    if (activeView === 'coatings') {
+      return <CoatingsModule />;
+    }
+
     if (activeView === 'offer') {
       return <OfferModule />;
     }
@@ -127,6 +213,62 @@ export function AppShell() {
         </div>
 
         <div className="header-right">
+          <button
+            className="btn-history"
+            onClick={undo}
+            disabled={!lastChange}
+            title={lastChange ? `Undo ${lastChange.label} (Ctrl+Z)` : 'Nothing to undo'}
+          >
+            ↶
+          </button>
+          <button
+            className="btn-history"
+            onClick={redo}
+            disabled={!nextChange}
+            title={nextChange ? `Redo ${nextChange.label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+          >
+            ↷
+          </button>
+
+          <div className="project-menu-wrapper">
+            <button className="btn-projects" onClick={() => setShowHistory(!showHistory)}>
+              History ▾
+            </button>
+
+            {showHistory && (
+              <div className="project-dropdown history-dropdown">
+                {history.past.length === 0 && history.future.length === 0 ? (
+                  <div className="dropdown-empty">No changes yet</div>
+                ) : (
+                  <>
+                    {/* Undone changes, furthest first - click to redo up to one */}
+                    {[...history.future].reverse().map((entry, i) => (
+                      <button
+                        key={entry.id}
+                        className="dropdown-item history undone"
+                        onClick={() => travelHistory(history.future.length - i)}
+                      >
+                        <span>{entry.label}</span>
+                        <small>{new Date(entry.at).toLocaleTimeString()}</small>
+                      </button>
+                    ))}
+                    {/* Latest first - click to undo back to before one */}
+                    {[...history.past].reverse().map((entry, i) => (
+                      <button
+                        key={entry.id}
+                        className="dropdown-item history"
+                        onClick={() => travelHistory(-(i + 1))}
+                      >
+                        <span>{entry.label}</span>
+                        <small>{new Date(entry.at).toLocaleTimeString()}</small>
+                      </button>
+                    ))}
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+
           <button className="btn-save" onClick={save}>
             Save
             {hasUnsavedChanges && <span className="unsaved-dot">●</span>}
@@ -182,7 +324,11 @@ export function AppShell() {
                       >
                         <strong>{project.jobNumber || '(No job #)'}</strong>
                         <span>{project.vesselName || 'Untitled'}</span>
-                        <small>{new Date(project.modifiedAt).toLocaleDateString()}</small>
+                        <small>
+                          {new Date(project.modifiedAt).toLocaleDateString()}
+                          {project.equipmentCount > 1 && ` • ${project.equipmentCount} items`}
+                          {project.revision && ` • Rev ${project.revision}`}
+                        </small>
                       </div>
                       <button 
                         className="btn-delete-project"
@@ -214,6 +360,19 @@ export function AppShell() {
           <span className="job-value">{currentProject?.vesselName || 'Untitled'}</span>
         </div>
         <button className="btn-edit-job" onClick={() => setShowJobEdit(true)}>Edit</button>
+        <div className="job-display equipment">
+          <span className="job-label">EQUIPMENT:</span>
+          <select
+            className="equipment-select"
+            value={currentEquipment?.id ?? ''}
+            onChange={(e) => selectEquipment(e.target.value)}
+          >
+            {currentProject?.equipment.map(e => (
+              <option key={e.id} value={e.id}>{getEquipmentLabel(e)} × {e.quantity}</option>
+            ))}
+          </select>
+        </div>
+        <button className="btn-edit-job" onClick={() => setShowEquipmentEdit(true)}>Items</button>
         {hasUnsavedChanges && <span className="unsaved-indicator">● Unsaved</span>}
       </div>
 
@@ -245,6 +404,55 @@ export function AppShell() {
         </div>
       )}
 
+      {showEquipmentEdit && currentProject && (
+        <div className="job-edit-modal">
+          <div className="job-edit-content">
+            <h3>Equipment Items</h3>
+            <div className="equipment-edit-header">
+              <span>Tag</span>
+              <span>Name</span>
+              <span>Qty</span>
+              <span></span>
+            </div>
+            {currentProject.equipment.map(e => (
+              <div key={e.id} className={`equipment-edit-row ${e.id === currentEquipment?.id ? 'active' : ''}`}>
+                <input
+                  type="text"
+                  value={e.tag}
+                  onChange={(ev) => updateEquipment(e.id, { tag: ev.target.value })}
+                  placeholder="V-101"
+                />
+                <input
+                  type="text"
+                  value={e.name}
+                  onChange={(ev) => updateEquipment(e.id, { name: ev.target.value })}
+                  placeholder="Reboiler"
+                />
+                <input
+                  type="number"
+                  value={e.quantity}
+                  min={1}
+                  onChange={(ev) => updateEquipment(e.id, { quantity: Math.max(1, Number(ev.target.value) || 1) })}
+                />
+                <button
+                  className="btn-delete-project"
+                  disabled={currentProject.equipment.length <= 1}
+                  onClick={() => {
+                    if (confirm(`Remove "${getEquipmentLabel(e)}" and all its estimate data?`)) {
+                      removeEquipment(e.id);
+                    }
+                  }}
+                >
+                  🗑️
+                </button>
+              </div>
+            ))}
+            <button className="btn-edit-job btn-add-equipment" onClick={addEquipment}>+ Add Equipment</button>
+            <button className="btn-close-edit" onClick={() => setShowEquipmentEdit(false)}>Done</button>
+          </div>
+        </div>
+      )}
+
       <nav className="module-nav">
         <button 
           className={`nav-item summary ${activeView === 'summary' ? 'active' : ''}`}
@@ -252,6 +460,13 @@ export function AppShell() {
         >
           Summary
         </button>
+
+        <button
+          className={`nav-item ${activeView === 'revisions' ? 'active' : ''}`}
+          onClick={() => setActiveView('revisions')}
+        >
+          Revisions
+        </button>
         
         {MODULES.map(mod => (
           <button
@@ -271,13 +486,21 @@ export function AppShell() {
         </button>
       </nav>
 
+      {storageWarning && (
+        <div className="storage-warning">
+          <span>⚠ {storageWarning}</span>
+          <button onClick={dismissStorageWarning}>✕</button>
+        </div>
+      )}
+
       {importMessage && (
         <div className={`import-toast ${importMessage.startsWith('✓') ? 'success' : 'error'}`}>
           {importMessage}
         </div>
       )}
 
-      <main className="module-content">
+      {/* Remount the modules when switching equipment so none keeps another item's state */}
+      <main className="module-content" key={currentEquipment?.id}>
         {renderModule()}
       </main>
     </div>
@@ -285,15 +508,21 @@ export function AppShell() {
 }
 
 // Settings Panel Component
-import type { SharedSettings, BeadSizes, TravelSpeedsByThickness, OperatorFactorsByThickness, WeldProcess } from './shared/types';
-import { NumberInput } from './shared/components';
+import type { SharedSettings, BeadSizes, LabourRates, ConsumableSettings, ProcessConsumable, WeldProcedure, WeldProcess, PreheatSettings, PreheatMethod, PreheatMethodSettings, PwhtSettings, PwhtMethod, PwhtMethodSettings, NdeSettings, NdeMethod, PressureTestSettings, CoatingSettings } from './shared/types';
+import { NumberInput, ThicknessBandTable } from './shared/components';
 import type { PipeJointPreset, PipeJointSettings } from './modules/pipejoints/types';
 import { DEFAULT_PIPE_JOINT_PRESET } from './modules/pipejoints/types';
 import { getAllNPSSizes, getSchedulesForNPS, getPipeDimensions } from './modules/pipejoints/pipeData';
+import { DEFAULT_WELD_PROCEDURES } from './shared/settings';
+import { resolveBand } from './engine/bands';
+import { formatProcedureRange } from './engine/procedures';
+import { PREHEAT_METHOD_LABELS } from './engine/preheat';
+import { PWHT_METHOD_LABELS } from './modules/pwht/types';
+import { NDE_METHOD_LABELS } from './engine/nde';
 
 const PROCESSES = ['GTAW', 'SMAW', 'FCAW', 'GMAW', 'SAW'] as const;
 
-type SettingsTab = 'general' | 'pipejoints';
+type SettingsTab = 'general' | 'procedures' | 'pipejoints';
 
 interface SettingsPanelProps {
   settings: SharedSettings;
@@ -314,26 +543,82 @@ function SettingsPanel({ settings, onUpdate, onSave }: SettingsPanelProps) {
     });
   };
 
-  const updateTravelSpeed = (range: keyof TravelSpeedsByThickness, proc: string, value: number) => {
+  const updateLabourRates = (updates: Partial<LabourRates>) => {
     onUpdate({
       ...settings,
-      travelSpeeds: {
-        ...settings.travelSpeeds,
-        [range]: { ...settings.travelSpeeds[range], [proc]: value }
+      labourRates: { ...settings.labourRates, ...updates }
+    });
+  };
+
+  const updateConsumables = (updates: Partial<ConsumableSettings>) => {
+    onUpdate({
+      ...settings,
+      consumables: { ...settings.consumables, ...updates }
+    });
+  };
+
+  const updateProcessConsumable = (proc: keyof ConsumableSettings['processes'], updates: Partial<ProcessConsumable>) => {
+    updateConsumables({
+      processes: {
+        ...settings.consumables.processes,
+        [proc]: { ...settings.consumables.processes[proc], ...updates }
+      }
+    });
+  };
+
+  const updatePreheat = (updates: Partial<PreheatSettings>) => {
+    onUpdate({
+      ...settings,
+      preheat: { ...settings.preheat, ...updates }
+    });
+  };
+
+  const updatePreheatMethod = (method: PreheatMethod, updates: Partial<PreheatMethodSettings>) => {
+    updatePreheat({
+      methods: {
+        ...settings.preheat.methods,
+        [method]: { ...settings.preheat.methods[method], ...updates }
       }
     });
   };
 
-  const updateOpFactor = (range: keyof OperatorFactorsByThickness, field: 'inside' | 'outside', value: number) => {
+  const updatePwht = (updates: Partial<PwhtSettings>) => {
     onUpdate({
       ...settings,
-      operatorFactors: {
-        ...settings.operatorFactors,
-        [range]: { ...settings.operatorFactors[range], [field]: value }
+      pwht: { ...settings.pwht, ...updates }
+    });
+  };
+
+  const updatePwhtMethod = (method: PwhtMethod, updates: Partial<PwhtMethodSettings>) => {
+    updatePwht({
+      methods: {
+        ...settings.pwht.methods,
+        [method]: { ...settings.pwht.methods[method], ...updates }
       }
     });
   };
 
+  const updateNde = (updates: Partial<NdeSettings>) => {
+    onUpdate({
+      ...settings,
+      nde: { ...settings.nde, ...updates }
+    });
+  };
+
+  const updatePressureTest = (updates: Partial<PressureTestSettings>) => {
+    onUpdate({
+      ...settings,
+      pressureTest: { ...settings.pressureTest, ...updates }
+    });
+  };
+
+  const updateCoatings = (updates: Partial<CoatingSettings>) => {
+    onUpdate({
+      ...settings,
+      coatings: { ...settings.coatings, ...updates }
+    });
+  };
+
   return (
     <div className="settings-panel">
       <div className="settings-header">
@@ -345,6 +630,12 @@ function SettingsPanel({ settings, onUpdate, onSave }: SettingsPanelProps) {
           >
             General Settings
           </button>
+          <button 
+            className={activeTab === 'procedures' ? 'active' : ''} 
+            onClick={() => setActiveTab('procedures')}
+          >
+            📋 Weld Procedures
+          </button>
           <button 
             className={activeTab === 'pipejoints' ? 'active' : ''} 
             onClick={() => setActiveTab('pipejoints')}
@@ -383,54 +674,313 @@ function SettingsPanel({ settings, onUpdate, onSave }: SettingsPanelProps) {
             </div>
           </div>
 
-          <div className="settings-card">
+          <div className="settings-card wide">
             <h3>⚡ Travel Speeds (mm/min)</h3>
+            <p className="card-desc">Each band runs from the previous edge up to (not including) its own.</p>
+            <ThicknessBandTable
+              bands={settings.travelSpeeds}
+              columns={PROCESSES.map(proc => ({
+                key: proc,
+                label: <span className="process-tag" data-process={proc}>{proc}</span>,
+                step: 5,
+              }))}
+              onChange={(travelSpeeds) => onUpdate({ ...settings, travelSpeeds })}
+            />
+          </div>
+
+          <div className="settings-card">
+            <h3>👷 Operator Factors</h3>
+            <p className="card-desc">Time multiplier for setup, repositioning, etc.</p>
+            <ThicknessBandTable
+              bands={settings.operatorFactors}
+              columns={[
+                { key: 'inside', label: 'Inside', step: 0.1 },
+                { key: 'outside', label: 'Outside', step: 0.1 },
+              ]}
+              onChange={(operatorFactors) => onUpdate({ ...settings, operatorFactors })}
+            />
+          </div>
+
+          <div className="settings-card wide">
+            <h3>💲 Labour Rates ($/hr)</h3>
+            <p className="card-desc">Rate per activity code. Codes not listed use the default rate. Margin applies on labour + overhead.</p>
+            <div className="rates-summary">
+              <label>
+                Default Rate
+                <NumberInput value={settings.labourRates.defaultRate} min={0} step={5} onChange={(v) => updateLabourRates({ defaultRate: v })} />
+              </label>
+              <label>
+                Overhead %
+                <NumberInput value={settings.labourRates.overheadPct} min={0} step={1} onChange={(v) => updateLabourRates({ overheadPct: v })} />
+              </label>
+              <label>
+                Margin %
+                <NumberInput value={settings.labourRates.marginPct} min={0} step={1} onChange={(v) => updateLabourRates({ marginPct: v })} />
+              </label>
+            </div>
+            <div className="rates-grid">
+              {Object.entries(settings.labourRates.rates).map(([code, rate]) => (
+                <div key={code} className="table-row">
+                  <span className="code-name">{code}</span>
+                  <NumberInput value={rate} min={0} step={5} onChange={(v) => updateLabourRates({ rates: { ...settings.labourRates.rates, [code]: v } })} />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="settings-card wide">
+            <h3>🧪 Consumables</h3>
+            <p className="card-desc">Filler is deposited weight ÷ efficiency. Flux is kg per kg of SAW wire; gas is flow × arc time.</p>
+            <div className="rates-summary">
+              <label>
+                Weld Metal Density (g/cm³)
+                <NumberInput value={settings.consumables.density} min={0} step={0.01} onChange={(v) => updateConsumables({ density: v })} />
+              </label>
+            </div>
             <div className="settings-table">
-              <div className="table-header">
+              <div className="table-header consumables-row">
                 <span>Process</span>
-                <span>&lt;20mm</span>
-                <span>20-40mm</span>
-                <span>&gt;40mm</span>
+                <span>Filler</span>
+                <span>Efficiency %</span>
+                <span>Flux kg/kg</span>
+                <span>Shielding Gas</span>
+                <span>Flow L/min</span>
               </div>
               {PROCESSES.map(proc => (
-                <div key={proc} className="table-row">
+                <div key={proc} className="table-row consumables-row">
                   <span className="process-tag" data-process={proc}>{proc}</span>
-                  <NumberInput value={settings.travelSpeeds.thin[proc]} step={5} onChange={(v) => updateTravelSpeed('thin', proc, v)} />
-                  <NumberInput value={settings.travelSpeeds.medium[proc]} step={5} onChange={(v) => updateTravelSpeed('medium', proc, v)} />
-                  <NumberInput value={settings.travelSpeeds.thick[proc]} step={5} onChange={(v) => updateTravelSpeed('thick', proc, v)} />
+                  <input
+                    type="text"
+                    value={settings.consumables.processes[proc].filler}
+                    onChange={(e) => updateProcessConsumable(proc, { filler: e.target.value })}
+                  />
+                  <NumberInput value={settings.consumables.processes[proc].efficiency} min={1} max={100} step={1} onChange={(v) => updateProcessConsumable(proc, { efficiency: v })} />
+                  <NumberInput value={settings.consumables.processes[proc].fluxRatio} min={0} step={0.1} onChange={(v) => updateProcessConsumable(proc, { fluxRatio: v })} />
+                  <input
+                    type="text"
+                    value={settings.consumables.processes[proc].gas}
+                    placeholder="None"
+                    onChange={(e) => updateProcessConsumable(proc, { gas: e.target.value })}
+                  />
+                  <NumberInput value={settings.consumables.processes[proc].gasFlow} min={0} step={1} onChange={(v) => updateProcessConsumable(proc, { gasFlow: v })} />
                 </div>
               ))}
             </div>
           </div>
 
-          <div className="settings-card">
-            <h3>👷 Operator Factors</h3>
-            <p className="card-desc">Time multiplier for setup, repositioning, etc.</p>
+          <div className="settings-card wide">
+            <h3>🔥 Preheat</h3>
+            <p className="card-desc">Heat-up is the energy to raise a band either side of the weld to temperature ÷ the heat put into the plate, plus setup. Interpass adds a share of weld time.</p>
+            <div className="rates-summary">
+              <label>
+                Shop Ambient (°C)
+                <NumberInput value={settings.preheat.ambient} step={1} onChange={(v) => updatePreheat({ ambient: v })} />
+              </label>
+              <label>
+                Specific Heat (kJ/kg·K)
+                <NumberInput value={settings.preheat.specificHeat} min={0} step={0.01} onChange={(v) => updatePreheat({ specificHeat: v })} />
+              </label>
+              <label>
+                Band Each Side (mm)
+                <NumberInput value={settings.preheat.bandWidth} min={0} step={5} onChange={(v) => updatePreheat({ bandWidth: v })} />
+              </label>
+            </div>
             <div className="settings-table">
-              <div className="table-header">
-                <span>Thickness</span>
-                <span>Inside</span>
-                <span>Outside</span>
+              <div className="table-header preheat-row">
+                <span>Method</span>
+                <span>Power kW</span>
+                <span>Efficiency %</span>
+                <span>Setup hrs</span>
+                <span>Interpass %</span>
               </div>
-              {[
-                { key: 'range1' as const, label: '<12mm' },
-                { key: 'range2' as const, label: '12-18mm' },
-                { key: 'range3' as const, label: '18-25mm' },
-                { key: 'range4' as const, label: '25-35mm' },
-                { key: 'range5' as const, label: '35-50mm' },
-                { key: 'range6' as const, label: '>50mm' },
-              ].map(({ key, label }) => (
-                <div key={key} className="table-row">
-                  <span>{label}</span>
-                  <NumberInput value={settings.operatorFactors[key].inside} step={0.1} onChange={(v) => updateOpFactor(key, 'inside', v)} />
-                  <NumberInput value={settings.operatorFactors[key].outside} step={0.1} onChange={(v) => updateOpFactor(key, 'outside', v)} />
+              {(Object.keys(PREHEAT_METHOD_LABELS) as PreheatMethod[]).map(method => (
+                <div key={method} className="table-row preheat-row">
+                  <span>{PREHEAT_METHOD_LABELS[method]}</span>
+                  <NumberInput value={settings.preheat.methods[method].power} min={0} step={1} onChange={(v) => updatePreheatMethod(method, { power: v })} />
+                  <NumberInput value={settings.preheat.methods[method].efficiency} min={1} max={100} step={1} onChange={(v) => updatePreheatMethod(method, { efficiency: v })} />
+                  <NumberInput value={settings.preheat.methods[method].setupHours} min={0} step={0.25} onChange={(v) => updatePreheatMethod(method, { setupHours: v })} />
+                  <NumberInput value={settings.preheat.methods[method].interpassPct} min={0} max={100} step={1} onChange={(v) => updatePreheatMethod(method, { interpassPct: v })} />
                 </div>
               ))}
             </div>
           </div>
+
+          <div className="settings-card wide">
+            <h3>♨️ PWHT</h3>
+            <p className="card-desc">Heating draws full power and soaking a share of it. Furnace power and setup are per cycle; local band power is per metre of seam and setup per band.</p>
+            <div className="rates-summary">
+              <label>
+                Control Temp (°C)
+                <NumberInput value={settings.pwht.controlTemperature} min={0} step={5} onChange={(v) => updatePwht({ controlTemperature: v })} />
+              </label>
+              <label>
+                Free Heating (°C/h)
+                <NumberInput value={settings.pwht.freeHeatingRate} min={0} step={10} onChange={(v) => updatePwht({ freeHeatingRate: v })} />
+              </label>
+              <label>
+                Attendance %
+                <NumberInput value={settings.pwht.attendancePct} min={0} max={100} step={1} onChange={(v) => updatePwht({ attendancePct: v })} />
+              </label>
+              <label>
+                Electricity ($/kWh)
+                <NumberInput value={settings.pwht.electricityRate} min={0} step={0.01} onChange={(v) => updatePwht({ electricityRate: v })} />
+              </label>
+            </div>
+            <div className="settings-table">
+              <div className="table-header pwht-row">
+                <span>Method</span>
+                <span>Power kW (/m)</span>
+                <span>Soak Load %</span>
+                <span>Setup hrs</span>
+              </div>
+              {(Object.keys(PWHT_METHOD_LABELS) as PwhtMethod[]).map(method => (
+                <div key={method} className="table-row pwht-row">
+                  <span>{PWHT_METHOD_LABELS[method]}</span>
+                  <NumberInput value={settings.pwht.methods[method].power} min={0} step={1} onChange={(v) => updatePwhtMethod(method, { power: v })} />
+                  <NumberInput value={settings.pwht.methods[method].soakLoadPct} min={0} max={100} step={5} onChange={(v) => updatePwhtMethod(method, { soakLoadPct: v })} />
+                  <NumberInput value={settings.pwht.methods[method].setupHours} min={0} step={0.5} onChange={(v) => updatePwhtMethod(method, { setupHours: v })} />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="settings-card wide">
+            <h3>🔍 NDE</h3>
+            <p className="card-desc">Weld length × offer NDE coverage ÷ the rate for each method, plus setup per method on each item. RT is counted in exposures of one film length.</p>
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={settings.nde.calculate}
+                onChange={(e) => updateNde({ calculate: e.target.checked })}
+              />
+              Calculate NDE from offer coverage (replaces hand-entered NDE times)
+            </label>
+            <div className="rates-summary">
+              {(Object.keys(settings.nde.rates) as Exclude<NdeMethod, 'RT'>[]).map(method => (
+                <label key={method}>
+                  {NDE_METHOD_LABELS[method]} (m/h)
+                  <NumberInput value={settings.nde.rates[method]} min={0} step={1} onChange={(v) => updateNde({ rates: { ...settings.nde.rates, [method]: v } })} />
+                </label>
+              ))}
+              <label>
+                RT Film Length (mm)
+                <NumberInput value={settings.nde.rtFilmLength} min={1} step={10} onChange={(v) => updateNde({ rtFilmLength: v })} />
+              </label>
+              <label>
+                RT Hours / Shot
+                <NumberInput value={settings.nde.rtShotHours} min={0} step={0.05} onChange={(v) => updateNde({ rtShotHours: v })} />
+              </label>
+              <label>
+                Setup hrs / Method
+                <NumberInput value={settings.nde.setupHours} min={0} step={0.05} onChange={(v) => updateNde({ setupHours: v })} />
+              </label>
+            </div>
+          </div>
+
+          <div className="settings-card wide">
+            <h3>💧 Pressure Test</h3>
+            <p className="card-desc">Fill, drain and dry run from the vessel volume. The crew is charged for setup, blind flanges, pressurising and the hold, plus an attendance share of the rest.</p>
+            <div className="rates-summary">
+              <label>
+                Fill (L/min)
+                <NumberInput value={settings.pressureTest.fillRate} min={1} step={10} onChange={(v) => updatePressureTest({ fillRate: v })} />
+              </label>
+              <label>
+                Test Pump (L/min)
+                <NumberInput value={settings.pressureTest.pumpRate} min={1} step={1} onChange={(v) => updatePressureTest({ pumpRate: v })} />
+              </label>
+              <label>
+                Compressor (L/min)
+                <NumberInput value={settings.pressureTest.compressorRate} min={1} step={50} onChange={(v) => updatePressureTest({ compressorRate: v })} />
+              </label>
+              <label>
+                Drain (L/min)
+                <NumberInput value={settings.pressureTest.drainRate} min={1} step={10} onChange={(v) => updatePressureTest({ drainRate: v })} />
+              </label>
+              <label>
+                Hold (min)
+                <NumberInput value={settings.pressureTest.holdMinutes} min={0} step={5} onChange={(v) => updatePressureTest({ holdMinutes: v })} />
+              </label>
+              <label>
+                Dry (hrs/m³)
+                <NumberInput value={settings.pressureTest.dryHoursPerM3} min={0} step={0.05} onChange={(v) => updatePressureTest({ dryHoursPerM3: v })} />
+              </label>
+            </div>
+            <div className="rates-summary">
+              <label>
+                Setup hrs
+                <NumberInput value={settings.pressureTest.setupHours} min={0} step={0.25} onChange={(v) => updatePressureTest({ setupHours: v })} />
+              </label>
+              <label>
+                Blind Flange hrs
+                <NumberInput value={settings.pressureTest.flangeHours} min={0} step={0.05} onChange={(v) => updatePressureTest({ flangeHours: v })} />
+              </label>
+              <label>
+                Attendance %
+                <NumberInput value={settings.pressureTest.attendancePct} min={0} max={100} step={5} onChange={(v) => updatePressureTest({ attendancePct: v })} />
+              </label>
+              <label>
+                Gasket ($ each)
+                <NumberInput value={settings.pressureTest.gasketCost} min={0} step={1} onChange={(v) => updatePressureTest({ gasketCost: v })} />
+              </label>
+              <label>
+                Water ($/m³)
+                <NumberInput value={settings.pressureTest.waterCost} min={0} step={0.5} onChange={(v) => updatePressureTest({ waterCost: v })} />
+              </label>
+            </div>
+          </div>
+
+          <div className="settings-card wide">
+            <h3>🎨 Coatings</h3>
+            <p className="card-desc">Blast and paint hours run from the surface area, with a setup per coat. Paint litres come from the DFT and volume solids, grossed up for loss. Internal surfaces take longer by the internal factor.</p>
+            <div className="rates-summary">
+              <label>
+                Blast (m²/h)
+                <NumberInput value={settings.coatings.blastRate} min={0.1} step={1} onChange={(v) => updateCoatings({ blastRate: v })} />
+              </label>
+              <label>
+                Paint (m²/h per coat)
+                <NumberInput value={settings.coatings.paintRate} min={0.1} step={1} onChange={(v) => updateCoatings({ paintRate: v })} />
+              </label>
+              <label>
+                Setup (hrs/coat)
+                <NumberInput value={settings.coatings.coatSetupHours} min={0} step={0.25} onChange={(v) => updateCoatings({ coatSetupHours: v })} />
+              </label>
+              <label>
+                Internal Factor %
+                <NumberInput value={settings.coatings.internalFactor} min={0} step={10} onChange={(v) => updateCoatings({ internalFactor: v })} />
+              </label>
+            </div>
+            <div className="rates-summary">
+              <label>
+                Media (kg/m²)
+                <NumberInput value={settings.coatings.mediaKgPerM2} min={0} step={5} onChange={(v) => updateCoatings({ mediaKgPerM2: v })} />
+              </label>
+              <label>
+                Media ($/t)
+                <NumberInput value={settings.coatings.mediaCost} min={0} step={10} onChange={(v) => updateCoatings({ mediaCost: v })} />
+              </label>
+              <label>
+                Volume Solids %
+                <NumberInput value={settings.coatings.volumeSolids} min={1} max={100} step={5} onChange={(v) => updateCoatings({ volumeSolids: v })} />
+              </label>
+              <label>
+                Loss %
+                <NumberInput value={settings.coatings.lossPct} min={0} max={90} step={5} onChange={(v) => updateCoatings({ lossPct: v })} />
+              </label>
+              <label>
+                Paint ($/L)
+                <NumberInput value={settings.coatings.paintCost} min={0} step={1} onChange={(v) => updateCoatings({ paintCost: v })} />
+              </label>
+            </div>
+          </div>
         </div>
       )}
 
+      {activeTab === 'procedures' && (
+        <WeldProcedureSettingsPanel settings={settings} onUpdate={onUpdate} />
+      )}
+
       {activeTab === 'pipejoints' && (
         <PipeJointSettingsPanel />
       )}
@@ -779,3 +1329,296 @@ function PipeJointSettingsPanel() {
   );
 }
 
+
+// Weld Procedure Settings Panel - WPS library that weld items reference by number
+interface WeldProcedureSettingsPanelProps {
+  settings: SharedSettings;
+  onUpdate: (settings: SharedSettings) => void;
+}
+
+function WeldProcedureSettingsPanel({ settings, onUpdate }: WeldProcedureSettingsPanelProps) {
+  const procedures = settings.weldProcedures;
+  const [selectedId, setSelectedId] = useState<string | null>(procedures[0]?.id ?? null);
+  const selected = procedures.find(wps => wps.id === selectedId) ?? procedures[0];
+
+  const setProcedures = (weldProcedures: WeldProcedure[]) => {
+    onUpdate({ ...settings, weldProcedures });
+  };
+
+  const updateProcedure = (updates: Partial<WeldProcedure>) => {
+    if (!selected) return;
+    setProcedures(procedures.map(wps => (wps.id === selected.id ? { ...wps, ...updates } : wps)));
+  };
+
+  // New WPS starts as a copy of the selected one with the next free number
+  const addProcedure = () => {
+    const template = selected ?? DEFAULT_WELD_PROCEDURES[0];
+    let next = procedures.length + 1;
+    while (procedures.some(wps => wps.number === `WPS-${String(next).padStart(3, '0')}`)) next++;
+    const wps: WeldProcedure = {
+      ...template,
+      id: Math.random().toString(36).substr(2, 9),
+      number: `WPS-${String(next).padStart(3, '0')}`,
+      description: `${template.description} (copy)`,
+      layers: template.layers.map(layer => ({ ...layer })),
+      beadSizes: { ...template.beadSizes },
+      travelSpeeds: { ...template.travelSpeeds },
+    };
+    setProcedures([...procedures, wps]);
+    setSelectedId(wps.id);
+  };
+
+  const deleteProcedure = (id: string) => {
+    const remaining = procedures.filter(wps => wps.id !== id);
+    setProcedures(remaining);
+    if (selectedId === id) setSelectedId(remaining[0]?.id ?? null);
+  };
+
+  const updateLayer = (index: number, updates: Partial<WeldProcedure['layers'][number]>) => {
+    if (!selected) return;
+    updateProcedure({ layers: selected.layers.map((layer, i) => (i === index ? { ...layer, ...updates } : layer)) });
+  };
+
+  const addLayer = () => {
+    if (!selected) return;
+    const last = selected.layers[selected.layers.length - 1];
+    updateProcedure({ layers: [...selected.layers, { process: 'SAW', minWidth: last ? last.minWidth + 10 : 0 }] });
+  };
+
+  const removeLayer = (index: number) => {
+    if (!selected || selected.layers.length <= 1) return;
+    const layers = selected.layers.filter((_, i) => i !== index);
+    layers[0] = { ...layers[0], minWidth: 0 };
+    updateProcedure({ layers });
+  };
+
+  // Overrides start from the shared values at the bottom of the WPS range
+  const toggleOverride = (proc: Exclude<WeldProcess, 'Skip'>, enabled: boolean) => {
+    if (!selected) return;
+    const beadSizes = { ...selected.beadSizes };
+    const travelSpeeds = { ...selected.travelSpeeds };
+    if (enabled) {
+      beadSizes[proc] = { ...settings.beadSizes[proc] };
+      travelSpeeds[proc] = resolveBand(selected.minThickness, settings.travelSpeeds)[proc];
+    } else {
+      delete beadSizes[proc];
+      delete travelSpeeds[proc];
+    }
+    updateProcedure({ beadSizes, travelSpeeds });
+  };
+
+  return (
+    <div className="pipe-settings-panel">
+      <div className="pipe-settings-intro">
+        <h3>📋 Weld Procedures (WPS)</h3>
+        <p>Joint prep and process sequence for each qualified procedure. Weld items that reference a WPS take its values, so changes here recalculate every item using it.</p>
+      </div>
+
+      <div className="pipe-settings-layout">
+        <div className="pipe-selector-section">
+          <div className="configured-list">
+            <h4>Procedures ({procedures.length})</h4>
+            <div className="configured-items">
+              {procedures.length === 0 ? (
+                <p className="empty-message">No procedures yet. Click "+ New WPS" to add one.</p>
+              ) : (
+                procedures.map(wps => (
+                  <div
+                    key={wps.id}
+                    className={`configured-item ${wps.id === selected?.id ? 'selected' : ''}`}
+                    onClick={() => setSelectedId(wps.id)}
+                  >
+                    <span className="item-size">{wps.number}</span>
+                    <span className="item-dims">{formatProcedureRange(wps)}</span>
+                    <button
+                      className="btn-delete-preset"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        deleteProcedure(wps.id);
+                      }}
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))
+              )}
+            </div>
+            <button className="btn-add-band" onClick={addProcedure}>+ New WPS</button>
+          </div>
+        </div>
+
+        <div className="pipe-config-section">
+          {selected ? (
+            <div className="preset-editor">
+              <h4>{selected.number}</h4>
+
+              <div className="editor-section">
+                <h5>Procedure</h5>
+                <div className="editor-row">
+                  <div className="editor-field">
+                    <label>WPS Number</label>
+                    <input type="text" value={selected.number} onChange={(e) => updateProcedure({ number: e.target.value })} />
+                  </div>
+                  <div className="editor-field wps-description">
+                    <label>Description</label>
+                    <input type="text" value={selected.description} onChange={(e) => updateProcedure({ description: e.target.value })} />
+                  </div>
+                </div>
+                <div className="editor-row">
+                  <div className="editor-field">
+                    <label>Min Thickness (mm)</label>
+                    <NumberInput value={selected.minThickness} min={0} step={1} onChange={(v) => updateProcedure({ minThickness: v })} />
+                  </div>
+                  <div className="editor-field">
+                    <label>Max Thickness (mm)</label>
+                    <NumberInput
+                      value={selected.maxThickness ?? 0}
+                      min={0}
+                      step={1}
+                      disabled={selected.maxThickness === null}
+                      onChange={(v) => updateProcedure({ maxThickness: v })}
+                    />
+                  </div>
+                  <div className="editor-field">
+                    <label>&nbsp;</label>
+                    <label className="checkbox-label">
+                      <input
+                        type="checkbox"
+                        checked={selected.maxThickness === null}
+                        onChange={(e) => updateProcedure({ maxThickness: e.target.checked ? null : selected.minThickness + 25 })}
+                      />
+                      No upper limit
+                    </label>
+                  </div>
+                </div>
+              </div>
+
+              <div className="editor-section">
+                <h5>Joint Prep</h5>
+                <div className="editor-row">
+                  <div className="editor-field">
+                    <label>Joint</label>
+                    <select value={selected.doubleSided ? 'double' : 'single'} onChange={(e) => updateProcedure({ doubleSided: e.target.value === 'double' })}>
+                      <option value="single">Single-sided (vee / bevel)</option>
+                      <option value="double">Double-sided (double vee / bevel)</option>
+                    </select>
+                  </div>
+                  <div className="editor-field">
+                    <label>1st Side Angle (°)</label>
+                    <NumberInput value={selected.bevelAngle} min={0} max={60} step={2.5} onChange={(v) => updateProcedure({ bevelAngle: v })} />
+                  </div>
+                  <div className="editor-field">
+                    <label>2nd Side Angle (°)</label>
+                    <NumberInput value={selected.outsideBevelAngle} min={0} max={60} step={2.5} disabled={!selected.doubleSided} onChange={(v) => updateProcedure({ outsideBevelAngle: v })} />
+                  </div>
+                </div>
+                <div className="editor-row">
+                  <div className="editor-field">
+                    <label>Root Gap (mm)</label>
+                    <NumberInput value={selected.rootGap} min={0} step={0.5} onChange={(v) => updateProcedure({ rootGap: v })} />
+                  </div>
+                  <div className="editor-field">
+                    <label>Root Face (mm)</label>
+                    <NumberInput value={selected.rootFace} min={0} step={0.5} onChange={(v) => updateProcedure({ rootFace: v })} />
+                  </div>
+                  <div className="editor-field">
+                    <label>1st Side Split (%)</label>
+                    <NumberInput value={selected.splitRatio} min={40} max={80} step={5} disabled={!selected.doubleSided} onChange={(v) => updateProcedure({ splitRatio: v })} />
+                  </div>
+                </div>
+              </div>
+
+              <div className="editor-section">
+                <h5>Process Sequence</h5>
+                <div className="settings-table">
+                  <div className="table-header wps-layer-row">
+                    <span>1st Side</span>
+                    <span>Process</span>
+                    <span>Switch @ (mm)</span>
+                    <span></span>
+                  </div>
+                  {selected.layers.map((layer, index) => (
+                    <div key={index} className="table-row wps-layer-row">
+                      <span>{index === 0 ? 'Root' : `Layer ${index + 1}`}</span>
+                      <select value={layer.process} onChange={(e) => updateLayer(index, { process: e.target.value as Exclude<WeldProcess, 'Skip'> })}>
+                        {PROCESSES.map(p => <option key={p} value={p}>{p}</option>)}
+                      </select>
+                      <NumberInput value={layer.minWidth} min={0} step={1} disabled={index === 0} onChange={(v) => updateLayer(index, { minWidth: v })} />
+                      <button className="band-remove" onClick={() => removeLayer(index)} disabled={selected.layers.length <= 1} title="Remove layer">
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                  <button className="btn-add-band" onClick={addLayer}>+ Add Process</button>
+                </div>
+                <div className="editor-row">
+                  <div className="editor-field">
+                    <label>2nd Side / Back Weld</label>
+                    <select value={selected.backProcess} onChange={(e) => updateProcedure({ backProcess: e.target.value as Exclude<WeldProcess, 'Skip'> })}>
+                      {PROCESSES.map(p => <option key={p} value={p}>{p}</option>)}
+                    </select>
+                  </div>
+                  <div className="editor-field">
+                    <label>Fillets</label>
+                    <select value={selected.filletProcess} onChange={(e) => updateProcedure({ filletProcess: e.target.value as Exclude<WeldProcess, 'Skip'> })}>
+                      {PROCESSES.map(p => <option key={p} value={p}>{p}</option>)}
+                    </select>
+                  </div>
+                </div>
+              </div>
+
+              <div className="editor-section">
+                <h5>Bead Size & Travel Speed Overrides</h5>
+                <div className="settings-table">
+                  <div className="table-header wps-override-row">
+                    <span>Process</span>
+                    <span>Override</span>
+                    <span>Height</span>
+                    <span>Width</span>
+                    <span>Speed (mm/min)</span>
+                  </div>
+                  {PROCESSES.map(proc => {
+                    const bead = selected.beadSizes[proc];
+                    const speed = selected.travelSpeeds[proc];
+                    const overridden = bead !== undefined || speed !== undefined;
+                    return (
+                      <div key={proc} className="table-row wps-override-row">
+                        <span className="process-tag" data-process={proc}>{proc}</span>
+                        <input type="checkbox" checked={overridden} onChange={(e) => toggleOverride(proc, e.target.checked)} />
+                        <NumberInput
+                          value={(bead ?? settings.beadSizes[proc]).h}
+                          step={0.5}
+                          disabled={!overridden}
+                          onChange={(v) => updateProcedure({ beadSizes: { ...selected.beadSizes, [proc]: { ...(bead ?? settings.beadSizes[proc]), h: v } } })}
+                        />
+                        <NumberInput
+                          value={(bead ?? settings.beadSizes[proc]).w}
+                          step={0.5}
+                          disabled={!overridden}
+                          onChange={(v) => updateProcedure({ beadSizes: { ...selected.beadSizes, [proc]: { ...(bead ?? settings.beadSizes[proc]), w: v } } })}
+                        />
+                        {overridden ? (
+                          <NumberInput
+                            value={speed ?? 0}
+                            step={10}
+                            onChange={(v) => updateProcedure({ travelSpeeds: { ...selected.travelSpeeds, [proc]: v } })}
+                          />
+                        ) : (
+                          <span className="band-open">by thickness</span>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="preset-view">
+              <p>Add a WPS to start the library.</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  resolveBand,
+  findBandIndex,
+  getThicknessRates,
+  formatBandLabel,
+  addBand,
+  removeBand,
+} from './bands';
+import { DEFAULT_SETTINGS } from '../shared/settings/defaults';
+import type { ThicknessBand } from '../shared/types';
+
+const BANDS: ThicknessBand<{ name: string }>[] = [
+  { id: 'thin', upTo: 20, values: { name: 'thin' } },
+  { id: 'medium', upTo: 40, values: { name: 'medium' } },
+  { id: 'thick', upTo: null, values: { name: 'thick' } },
+];
+
+describe('Thickness Bands', () => {
+  describe('resolveBand', () => {
+    it('includes the lower edge and excludes the upper edge', () => {
+      expect(resolveBand(19.9, BANDS)).toEqual({ name: 'thin' });
+      expect(resolveBand(20, BANDS)).toEqual({ name: 'medium' });
+      expect(resolveBand(39.9, BANDS)).toEqual({ name: 'medium' });
+      expect(resolveBand(40, BANDS)).toEqual({ name: 'thick' });
+    });
+
+    it('does not depend on band order', () => {
+      const shuffled = [BANDS[2], BANDS[0], BANDS[1]];
+      expect(resolveBand(30, shuffled)).toEqual({ name: 'medium' });
+      expect(findBandIndex(30, shuffled)).toBe(2);
+    });
+
+    it('uses the thickest band past the last edge', () => {
+      expect(resolveBand(100, BANDS.slice(0, 2))).toEqual({ name: 'medium' });
+    });
+
+    it('throws with no bands', () => {
+      expect(() => resolveBand(10, [])).toThrow();
+    });
+  });
+
+  describe('getThicknessRates', () => {
+    it('resolves speeds and factors from the same thickness', () => {
+      const { speeds, factors } = getThicknessRates(40, DEFAULT_SETTINGS);
+
+      expect(speeds).toEqual(DEFAULT_SETTINGS.travelSpeeds[2].values);
+      expect(factors).toEqual(DEFAULT_SETTINGS.operatorFactors[4].values);
+    });
+  });
+
+  describe('formatBandLabel', () => {
+    it('labels first, middle and open bands', () => {
+      expect(formatBandLabel(BANDS, 0)).toBe('<20mm');
+      expect(formatBandLabel(BANDS, 1)).toBe('20-40mm');
+      expect(formatBandLabel(BANDS, 2)).toBe('≥40mm');
+    });
+  });
+
+  describe('addBand', () => {
+    it('splits the open band 10 mm above the last edge', () => {
+      const result = addBand(BANDS);
+
+      expect(result.map(b => b.upTo)).toEqual([20, 40, 50, null]);
+      expect(result[2].values).toEqual({ name: 'thick' });
+      expect(new Set(result.map(b => b.id)).size).toBe(4);
+    });
+  });
+
+  describe('removeBand', () => {
+    it('hands the range to the next thicker band', () => {
+      const result = removeBand(BANDS, 1);
+
+      expect(result.map(b => b.upTo)).toEqual([20, null]);
+      expect(resolveBand(30, result)).toEqual({ name: 'thick' });
+    });
+
+    it('makes the band below open-ended when the open band is removed', () => {
+      const result = removeBand(BANDS, 2);
+
+      expect(result.map(b => b.upTo)).toEqual([20, null]);
+      expect(resolveBand(60, result)).toEqual({ name: 'medium' });
+    });
+
+    it('keeps the last band', () => {
+      const single = [BANDS[2]];
+      expect(removeBand(single, 0)).toBe(single);
+    });
+  });
+});
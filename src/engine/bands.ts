@@ -0,0 +1,120 @@
+import type { ThicknessBand, SharedSettings, TravelSpeeds, OperatorFactors } from '../shared/types';
+
+/**
+ * Thickness Band Resolution
+ *
+ * Every thickness-dependent rate (travel speeds, operator factors) is looked up
+ * through here so a given thickness always lands in the same band. A band covers
+ * the previous band's edge inclusive up to its own edge exclusive - a 40 mm shell
+ * with edges 20 / 40 is in the third band everywhere.
+ */
+
+function generateId(): string {
+  return Math.random().toString(36).substr(2, 9);
+}
+
+/**
+ * Give bands saved before they carried an id one, so table rows stay put while edited
+ */
+export function withBandIds<T>(bands: (Omit<ThicknessBand<T>, 'id'> & { id?: string })[]): ThicknessBand<T>[] {
+  return bands.map(band => ({ ...band, id: band.id || generateId() }));
+}
+
+/**
+ * Bands ordered by upper edge, open-ended band last
+ */
+export function sortBands<T>(bands: ThicknessBand<T>[]): ThicknessBand<T>[] {
+  return [...bands].sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity));
+}
+
+/**
+ * Index of the band a thickness falls in (-1 when there are no bands)
+ */
+export function findBandIndex<T>(thickness: number, bands: ThicknessBand<T>[]): number {
+  const sorted = sortBands(bands);
+  if (sorted.length === 0) return -1;
+
+  const match = sorted.find(band => band.upTo === null || thickness < band.upTo);
+  return bands.indexOf(match ?? sorted[sorted.length - 1]);
+}
+
+/**
+ * Values for the band a thickness falls in
+ *
+ * Past the last edge with no open-ended band, the thickest band applies.
+ */
+export function resolveBand<T>(thickness: number, bands: ThicknessBand<T>[]): T {
+  const index = findBandIndex(thickness, bands);
+  if (index < 0) {
+    throw new Error('No thickness bands configured');
+  }
+  return bands[index].values;
+}
+
+/**
+ * Travel speeds and operator factors for a thickness
+ */
+export function getThicknessRates(
+  thickness: number,
+  settings: Pick<SharedSettings, 'travelSpeeds' | 'operatorFactors'>
+): { speeds: TravelSpeeds; factors: OperatorFactors } {
+  return {
+    speeds: resolveBand(thickness, settings.travelSpeeds),
+    factors: resolveBand(thickness, settings.operatorFactors),
+  };
+}
+
+/**
+ * Display label for a band, e.g. "<20mm", "20-40mm", "≥40mm"
+ */
+export function formatBandLabel<T>(bands: ThicknessBand<T>[], index: number): string {
+  const sorted = sortBands(bands);
+  const position = sorted.indexOf(bands[index]);
+  const band = sorted[position];
+  const from = position > 0 ? sorted[position - 1].upTo : null;
+
+  if (band.upTo === null) {
+    return from === null ? 'All' : `≥${from}mm`;
+  }
+  return from === null ? `<${band.upTo}mm` : `${from}-${band.upTo}mm`;
+}
+
+/**
+ * Split the thickest band in two - the new band takes the thickest values and
+ * ends 10 mm above the last edge.
+ */
+export function addBand<T>(bands: ThicknessBand<T>[]): ThicknessBand<T>[] {
+  const sorted = sortBands(bands);
+  const last = sorted[sorted.length - 1];
+  if (!last) return bands;
+
+  if (last.upTo !== null) {
+    // No open-ended band yet - the new band becomes the open one
+    return [...sorted, { id: generateId(), upTo: null, values: { ...last.values } }];
+  }
+
+  const lastEdge = sorted.reduce((edge, b) => (b.upTo !== null ? Math.max(edge, b.upTo) : edge), 0);
+  return [
+    ...sorted.slice(0, -1),
+    { id: generateId(), upTo: lastEdge + 10, values: { ...last.values } },
+    last,
+  ];
+}
+
+/**
+ * Remove a band - its range is taken over by the next thicker band.
+ * Removing the open-ended band makes the one below it open-ended.
+ * The last remaining band cannot be removed.
+ */
+export function removeBand<T>(bands: ThicknessBand<T>[], index: number): ThicknessBand<T>[] {
+  if (bands.length <= 1) return bands;
+
+  const removed = bands[index];
+  const sorted = sortBands(bands.filter((_, i) => i !== index));
+
+  if (removed.upTo === null) {
+    const last = sorted[sorted.length - 1];
+    return [...sorted.slice(0, -1), { ...last, upTo: null }];
+  }
+  return sorted;
+}
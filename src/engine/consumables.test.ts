@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { addDeposit, mergeDeposits, calculateConsumables } from './consumables';
+import { DEFAULT_SETTINGS } from '../shared/settings/defaults';
+
+describe('Consumables', () => {
+  describe('addDeposit', () => {
+    it('accumulates volume and converts arc minutes to hours', () => {
+      let deposits = addDeposit({}, 'GTAW', 1000, 30);
+      deposits = addDeposit(deposits, 'GTAW', 500, 30);
+
+      expect(deposits.GTAW).toEqual({ volume: 1500, arcTime: 1 });
+    });
+
+    it('ignores skipped layers', () => {
+      expect(addDeposit({}, 'Skip', 1000, 30)).toEqual({});
+    });
+  });
+
+  describe('mergeDeposits', () => {
+    it('multiplies each entry by its factor', () => {
+      const merged = mergeDeposits(
+        [{ SMAW: { volume: 100, arcTime: 0.5 } }, 2],
+        [{ SMAW: { volume: 50, arcTime: 0.25 }, SAW: { volume: 10, arcTime: 0.1 } }, 1],
+        [undefined, 4]
+      );
+
+      expect(merged.SMAW).toEqual({ volume: 250, arcTime: 1.25 });
+      expect(merged.SAW).toEqual({ volume: 10, arcTime: 0.1 });
+    });
+  });
+
+  describe('calculateConsumables', () => {
+    const settings = DEFAULT_SETTINGS.consumables;
+
+    it('converts volume to deposited mass and divides by efficiency', () => {
+      // 1,000,000 mm³ = 1000 cm³ × 7.85 g/cm³ = 7.85 kg
+      const report = calculateConsumables({ SMAW: { volume: 1e6, arcTime: 2 } }, settings);
+
+      expect(report.lines[0].depositedKg).toBeCloseTo(7.85, 4);
+      expect(report.lines[0].fillerKg).toBeCloseTo(7.85 / 0.6, 4);
+      expect(report.lines[0].gasLitres).toBe(0);
+    });
+
+    it('adds SAW flux by wire ratio and gas by flow × arc time', () => {
+      const report = calculateConsumables(
+        { SAW: { volume: 1e6, arcTime: 1 }, GTAW: { volume: 1e5, arcTime: 0.5 } },
+        settings
+      );
+      const saw = report.lines.find(l => l.process === 'SAW')!;
+
+      expect(saw.fluxKg).toBeCloseTo(saw.fillerKg * settings.processes.SAW.fluxRatio, 6);
+      expect(report.gasByType[settings.processes.GTAW.gas]).toBeCloseTo(settings.processes.GTAW.gasFlow * 30, 6);
+      expect(report.totalFillerKg).toBeCloseTo(report.lines.reduce((s, l) => s + l.fillerKg, 0), 6);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import type { ConsumableSettings, DepositByProcess, WeldProcess } from '../shared/types';
+import type { GrooveResult } from './groove';
+
+/**
+ * Consumables Estimate
+ *
+ * Engines report the weld metal each process deposits (mm³) and its arc-on time.
+ * Deposited mass is volume × density; filler bought is deposited mass divided by
+ * the process deposition efficiency. SAW flux is a ratio of wire consumed and
+ * shielding gas is flow rate × arc time.
+ */
+
+type FillerProcess = Exclude<WeldProcess, 'Skip'>;
+
+export interface ConsumableLine {
+  process: FillerProcess;
+  filler: string;
+  volume: number;          // mm³ deposited
+  depositedKg: number;
+  fillerKg: number;        // wire / rod / electrode to purchase
+  fluxKg: number;
+  gas: string;
+  gasLitres: number;
+  arcTime: number;         // hours
+}
+
+export interface ConsumableReport {
+  lines: ConsumableLine[];
+  totalDepositedKg: number;
+  totalFillerKg: number;
+  totalFluxKg: number;
+  gasByType: Record<string, number>;  // litres by gas
+}
+
+/**
+ * Add deposited volume and arc time (minutes) for one process
+ */
+export function addDeposit(
+  deposits: DepositByProcess,
+  process: WeldProcess,
+  volume: number,
+  arcMinutes: number
+): DepositByProcess {
+  if (process === 'Skip' || (volume <= 0 && arcMinutes <= 0)) return deposits;
+
+  const existing = deposits[process] ?? { volume: 0, arcTime: 0 };
+  return {
+    ...deposits,
+    [process]: {
+      volume: existing.volume + volume,
+      arcTime: existing.arcTime + arcMinutes / 60,
+    },
+  };
+}
+
+/**
+ * Deposits from each process layer of a groove
+ */
+export function grooveDeposits(groove: GrooveResult): DepositByProcess {
+  return groove.layers.reduce<DepositByProcess>(
+    (deposits, layer) => addDeposit(deposits, layer.process, layer.volume, layer.arcTime),
+    {}
+  );
+}
+
+/**
+ * Sum deposits, each multiplied by its factor (quantity, sides, etc.)
+ */
+export function mergeDeposits(...entries: [DepositByProcess | undefined, number][]): DepositByProcess {
+  const merged: DepositByProcess = {};
+  for (const [deposits, factor] of entries) {
+    if (!deposits) continue;
+    for (const [process, deposit] of Object.entries(deposits) as [FillerProcess, { volume: number; arcTime: number }][]) {
+      const existing = merged[process] ?? { volume: 0, arcTime: 0 };
+      merged[process] = {
+        volume: existing.volume + deposit.volume * factor,
+        arcTime: existing.arcTime + deposit.arcTime * factor,
+      };
+    }
+  }
+  return merged;
+}
+
+/**
+ * Consumables report grouped by process and filler classification
+ */
+export function calculateConsumables(
+  deposits: DepositByProcess,
+  settings: ConsumableSettings
+): ConsumableReport {
+  const lines: ConsumableLine[] = (Object.entries(deposits) as [FillerProcess, { volume: number; arcTime: number }][])
+    .filter(([, deposit]) => deposit.volume > 0)
+    .map(([process, deposit]) => {
+      const consumable = settings.processes[process];
+      const depositedKg = (deposit.volume / 1000) * settings.density / 1000; // mm³ → cm³ → kg
+      const fillerKg = consumable.efficiency > 0 ? depositedKg / (consumable.efficiency / 100) : 0;
+      return {
+        process,
+        filler: consumable.filler,
+        volume: deposit.volume,
+        depositedKg,
+        fillerKg,
+        fluxKg: fillerKg * consumable.fluxRatio,
+        gas: consumable.gas,
+        gasLitres: consumable.gas ? consumable.gasFlow * deposit.arcTime * 60 : 0,
+        arcTime: deposit.arcTime,
+      };
+    });
+
+  const gasByType: Record<string, number> = {};
+  lines.forEach(line => {
+    if (line.gas && line.gasLitres > 0) {
+      gasByType[line.gas] = (gasByType[line.gas] || 0) + line.gasLitres;
+    }
+  });
+
+  return {
+    lines,
+    totalDepositedKg: lines.reduce((sum, l) => sum + l.depositedKg, 0),
+    totalFillerKg: lines.reduce((sum, l) => sum + l.fillerKg, 0),
+    totalFluxKg: lines.reduce((sum, l) => sum + l.fluxKg, 0),
+    gasByType,
+  };
+}
+
+/**
+ * Module total - each item's deposits × its quantity
+ */
+export function sumItemDeposits(
+  items: { quantity: number; results?: { deposits: DepositByProcess } | null }[]
+): DepositByProcess {
+  return mergeDeposits(...items.map(item => [item.results?.deposits, item.quantity] as [DepositByProcess | undefined, number]));
+}
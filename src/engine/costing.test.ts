@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { calculateCost, getLabourRate } from './costing';
+import type { LabourRates } from '../shared/types';
+
+const RATES: LabourRates = {
+  defaultRate: 100,
+  rates: { WNOZZ: 120, NDE: 150 },
+  overheadPct: 10,
+  marginPct: 20,
+};
+
+describe('Labour Costing', () => {
+  describe('getLabourRate', () => {
+    it('uses the code rate when set', () => {
+      expect(getLabourRate('WNOZZ', RATES)).toBe(120);
+    });
+
+    it('falls back to the default rate', () => {
+      expect(getLabourRate('FNOZZ', RATES)).toBe(100);
+    });
+  });
+
+  describe('calculateCost', () => {
+    it('applies overhead on labour and margin on labour + overhead', () => {
+      const cost = calculateCost({ WNOZZ: 10, FNOZZ: 5 }, RATES);
+
+      expect(cost.hours).toBe(15);
+      expect(cost.labour).toBe(1700);
+      expect(cost.overhead).toBeCloseTo(170, 5);
+      expect(cost.margin).toBeCloseTo(374, 5);
+      expect(cost.total).toBeCloseTo(2244, 5);
+    });
+
+    it('costs each code separately', () => {
+      const cost = calculateCost({ WNOZZ: 2, NDE: 1 }, RATES);
+
+      expect(cost.byCode).toEqual([
+        { code: 'WNOZZ', hours: 2, rate: 120, labour: 240 },
+        { code: 'NDE', hours: 1, rate: 150, labour: 150 },
+      ]);
+    });
+
+    it('returns zero for no hours', () => {
+      expect(calculateCost({}, RATES).total).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import type { LabourRates } from '../shared/types';
+
+/**
+ * Labour Costing
+ *
+ * Turns activity-code hours into cost: hours × rate per code gives labour,
+ * overhead is a percentage of labour, and margin is a percentage of
+ * labour + overhead + direct costs (energy, materials bought for the job).
+ */
+
+export interface CodeCost {
+  code: string;
+  hours: number;
+  rate: number;            // $/hr
+  labour: number;          // $
+}
+
+export interface CostBreakdown {
+  hours: number;
+  labour: number;          // $
+  overhead: number;        // $
+  direct: number;          // $ - costs outside labour
+  margin: number;          // $
+  total: number;           // $ - sell price
+  byCode: CodeCost[];
+}
+
+/**
+ * Hourly rate for an activity code, falling back to the default rate
+ */
+export function getLabourRate(code: string, labourRates: LabourRates): number {
+  return labourRates.rates[code] ?? labourRates.defaultRate;
+}
+
+/**
+ * Cost an activity breakdown (hours by code) plus any direct costs
+ */
+export function calculateCost(
+  activityBreakdown: Record<string, number>,
+  labourRates: LabourRates,
+  direct = 0
+): CostBreakdown {
+  const byCode = Object.entries(activityBreakdown).map(([code, hours]) => {
+    const rate = getLabourRate(code, labourRates);
+    return { code, hours, rate, labour: hours * rate };
+  });
+
+  const hours = byCode.reduce((sum, c) => sum + c.hours, 0);
+  const labour = byCode.reduce((sum, c) => sum + c.labour, 0);
+  const overhead = labour * (labourRates.overheadPct / 100);
+  const margin = (labour + overhead + direct) * (labourRates.marginPct / 100);
+
+  return {
+    hours,
+    labour,
+    overhead,
+    direct,
+    margin,
+    total: labour + overhead + direct + margin,
+    byCode,
+  };
+}
+
+/**
+ * Format a dollar amount to whole dollars, e.g. "$12,345"
+ */
+export function formatMoney(value: number): string {
+  return `$${Math.round(value).toLocaleString()}`;
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { getEquipmentTotals, getJobTotals, getJobModuleSummary, getEquipmentLabel } from './equipment';
+import { createEmptyProject, createEquipment, migrateProject } from '../project/storage';
+import { DEFAULT_VESSEL } from '../project/types';
+import type { ModuleId, ProjectEquipment, VesselProject } from '../project/types';
+import type { ModuleSummary } from '../shared/types';
+
+const summary = (moduleId: ModuleId, hours: Record<string, number>): ModuleSummary => ({
+  moduleId,
+  moduleName: moduleId,
+  itemCount: 1,
+  totalHours: Object.values(hours).reduce((s, v) => s + v, 0),
+  activityBreakdown: hours,
+  deposits: { FCAW: { volume: 1000, arcTime: 1 } },
+  nde: [{ category: 'longWelds', method: 'UT', coverage: 100, length: 1000, shots: 0, hours: 0.5 }],
+});
+
+const equipment = (tag: string, quantity: number, summaries: ModuleSummary[]): ProjectEquipment => {
+  const item = createEquipment(tag);
+  return {
+    ...item,
+    quantity,
+    summaries: { ...item.summaries, ...Object.fromEntries(summaries.map(s => [s.moduleId, s])) },
+  };
+};
+
+describe('Equipment', () => {
+  const drum = equipment('D1', 2, [summary('longwelds', { WLONG: 10, NDE: 1 }), summary('nozzles', { WNOZZ: 5 })]);
+  const filter = equipment('F1', 1, [summary('nozzles', { WNOZZ: 3 })]);
+  const project: VesselProject = { ...createEmptyProject(), equipment: [drum, filter], activeEquipmentId: drum.id };
+
+  it('adds up one unit of an equipment item', () => {
+    const totals = getEquipmentTotals(drum);
+    expect(totals.totalHours).toBe(16);
+    expect(totals.activityBreakdown).toEqual({ WLONG: 10, NDE: 1, WNOZZ: 5 });
+    expect(totals.itemCount).toBe(2);
+  });
+
+  it('multiplies each item by its quantity for the job', () => {
+    const job = getJobTotals(project);
+    expect(job.totalHours).toBe(16 * 2 + 3);
+    expect(job.activityBreakdown.WNOZZ).toBe(5 * 2 + 3);
+    expect(job.deposits.FCAW).toEqual({ volume: 5000, arcTime: 5 });
+    expect(job.nde[0].hours).toBeCloseTo(2.5, 6);
+  });
+
+  it('sums one module across the job', () => {
+    expect(getJobModuleSummary(project, 'nozzles')).toMatchObject({ itemCount: 3, totalHours: 13 });
+    expect(getJobModuleSummary(project, 'heads')).toBeNull();
+  });
+
+  it('makes a single-vessel project its first equipment item', () => {
+    const legacy = {
+      ...createEmptyProject(),
+      vesselName: 'Reboiler',
+      vessel: { ...DEFAULT_VESSEL, insideDiameter: 1500 },
+      summaries: { longwelds: summary('longwelds', { WLONG: 4 }) },
+      modules: { longwelds: { welds: [] }, offer: { equipment: [] } },
+    } as unknown as VesselProject;
+    delete (legacy as Partial<VesselProject>).equipment;
+
+    const migrated = migrateProject(legacy);
+    expect(migrated.equipment).toHaveLength(1);
+    const [item] = migrated.equipment;
+    expect(migrated.activeEquipmentId).toBe(item.id);
+    expect(item).toMatchObject({ tag: 'V1', name: 'Reboiler', quantity: 1, modules: { longwelds: { welds: [] } } });
+    expect(item.vessel?.insideDiameter).toBe(1500);
+    expect(item.summaries.longwelds?.totalHours).toBe(4);
+    expect(item.summaries.nozzles).toBeNull();
+    // The offer stays with the job
+    expect(migrated.modules).toEqual({ offer: { equipment: [] } });
+    expect(migrated).not.toHaveProperty('vessel');
+    expect(migrateProject(migrated)).toEqual(migrated);
+  });
+
+  it('labels items by tag and name', () => {
+    expect(getEquipmentLabel({ tag: 'E-101', name: 'Reboiler' })).toBe('E-101 - Reboiler');
+    expect(getEquipmentLabel({ tag: '', name: '' })).toBe('Untitled');
+  });
+});
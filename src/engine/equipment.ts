@@ -0,0 +1,92 @@
+import type { DepositByProcess, ModuleSummary, NdeExam } from '../shared/types';
+import type { ModuleId, ProjectEquipment, VesselProject } from '../project/types';
+import { MODULES } from '../project/types';
+import { mergeDeposits } from './consumables';
+import { mergeNdeExams } from './nde';
+
+/**
+ * Equipment Roll-up
+ *
+ * Module summaries are cached per equipment item, per unit. An item's totals
+ * add up its modules; the job totals add up every item × its quantity.
+ */
+
+export interface EstimateTotals {
+  itemCount: number;
+  totalHours: number;
+  directCost: number;
+  activityBreakdown: Record<string, number>;
+  deposits: DepositByProcess;
+  nde: NdeExam[];
+}
+
+export function emptyTotals(): EstimateTotals {
+  return { itemCount: 0, totalHours: 0, directCost: 0, activityBreakdown: {}, deposits: {}, nde: [] };
+}
+
+function addSummary(totals: EstimateTotals, summary: ModuleSummary, factor: number): EstimateTotals {
+  const activityBreakdown = { ...totals.activityBreakdown };
+  Object.entries(summary.activityBreakdown).forEach(([code, hours]) => {
+    activityBreakdown[code] = (activityBreakdown[code] || 0) + hours * factor;
+  });
+  return {
+    itemCount: totals.itemCount + summary.itemCount * factor,
+    totalHours: totals.totalHours + summary.totalHours * factor,
+    directCost: totals.directCost + (summary.directCost ?? 0) * factor,
+    activityBreakdown,
+    deposits: mergeDeposits([totals.deposits, 1], [summary.deposits, factor]),
+    nde: mergeNdeExams([totals.nde, 1], [summary.nde, factor]),
+  };
+}
+
+/**
+ * One unit of an equipment item - all its module summaries
+ */
+export function getEquipmentTotals(equipment: ProjectEquipment): EstimateTotals {
+  return MODULES.reduce((totals, mod) => {
+    const summary = equipment.summaries[mod.id];
+    return summary ? addSummary(totals, summary, 1) : totals;
+  }, emptyTotals());
+}
+
+/**
+ * The whole job - every equipment item × its quantity
+ */
+export function getJobTotals(project: Pick<VesselProject, 'equipment'>): EstimateTotals {
+  return project.equipment.reduce((totals, equipment) => {
+    return MODULES.reduce((sum, mod) => {
+      const summary = equipment.summaries[mod.id];
+      return summary ? addSummary(sum, summary, equipment.quantity) : sum;
+    }, totals);
+  }, emptyTotals());
+}
+
+/**
+ * One module across the job - every equipment item × its quantity, or null
+ * when no item has data for it
+ */
+export function getJobModuleSummary(project: VesselProject, moduleId: ModuleId): ModuleSummary | null {
+  const entries = project.equipment
+    .map(e => [e.summaries[moduleId], e.quantity] as const)
+    .filter((entry): entry is readonly [ModuleSummary, number] => !!entry[0]);
+  if (entries.length === 0) return null;
+
+  const totals = entries.reduce((sum, [summary, quantity]) => addSummary(sum, summary, quantity), emptyTotals());
+  return {
+    moduleId,
+    moduleName: entries[0][0].moduleName,
+    itemCount: totals.itemCount,
+    totalHours: totals.totalHours,
+    activityBreakdown: totals.activityBreakdown,
+    deposits: totals.deposits,
+    directCost: totals.directCost,
+    nde: totals.nde,
+  };
+}
+
+/**
+ * Label for an equipment item - tag and name
+ */
+export function getEquipmentLabel(equipment: Pick<ProjectEquipment, 'tag' | 'name'>): string {
+  return [equipment.tag, equipment.name].filter(Boolean).join(' - ') || 'Untitled';
+}
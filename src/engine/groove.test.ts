@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import {
+  singleBevelSection,
+  veeSection,
+  filletSection,
+  calculateSideDepths,
+  calculateSectionArea,
+  splitLayerVolumes,
+  calculatePassCount,
+  calculateArcMinutes,
+  calculateWeldRun,
+  calculateGroove,
+} from './groove';
+import { DEFAULT_BEAD_SIZES, DEFAULT_TRAVEL_SPEEDS } from '../shared/settings/defaults';
+
+describe('Groove Engine', () => {
+  describe('sections', () => {
+    it('single bevel widens by one bevel width', () => {
+      const section = singleBevelSection(10, 45, 3, 2);
+
+      expect(section.rootWidth).toBe(3);
+      expect(section.topWidth).toBeCloseTo(13, 5);
+      expect(section.depth).toBe(10);
+    });
+
+    it('vee widens by two bevel widths', () => {
+      const section = veeSection(10, 45, 3, 2);
+
+      expect(section.topWidth).toBeCloseTo(23, 5);
+    });
+
+    it('clamps negative depth to zero', () => {
+      const section = veeSection(-4, 30, 3, 2);
+
+      expect(section.depth).toBe(0);
+      expect(section.topWidth).toBe(3);
+    });
+  });
+
+  describe('calculateSectionArea', () => {
+    it('adds the root face rectangle to the bevel trapezoid', () => {
+      // (13 + 3) / 2 × 10 + 3 × 2
+      expect(calculateSectionArea(singleBevelSection(10, 45, 3, 2))).toBeCloseTo(86, 5);
+    });
+
+    it('gives leg² / 2 for a fillet', () => {
+      expect(calculateSectionArea(filletSection(8))).toBe(32);
+    });
+  });
+
+  describe('calculateSideDepths', () => {
+    it('runs a single-sided bevel down to the root face', () => {
+      expect(calculateSideDepths(20, 2, false, 60)).toEqual({ insideDepth: 18, outsideDepth: 0 });
+    });
+
+    it('splits a double-sided bevel by ratio', () => {
+      const result = calculateSideDepths(20, 2, true, 60);
+
+      expect(result.insideDepth).toBeCloseTo(11, 5);
+      expect(result.outsideDepth).toBeCloseTo(7, 5);
+    });
+  });
+
+  describe('splitLayerVolumes', () => {
+    it('percentages sum to 100', () => {
+      const layers = splitLayerVolumes(
+        [
+          { process: 'GTAW', minWidth: 0 },
+          { process: 'SMAW', minWidth: 8 },
+          { process: 'SAW', minWidth: 15 },
+        ],
+        1000,
+        3,
+        25
+      );
+
+      expect(layers).toHaveLength(3);
+      expect(layers.reduce((sum, l) => sum + l.percentage, 0)).toBeCloseTo(100, 5);
+      expect(layers.reduce((sum, l) => sum + l.volume, 0)).toBeCloseTo(1000, 5);
+    });
+
+    it('gives a square groove to the first process', () => {
+      const layers = splitLayerVolumes(
+        [
+          { process: 'SAW', minWidth: 15 },
+          { process: 'GTAW', minWidth: 0 },
+        ],
+        500,
+        3,
+        3
+      );
+
+      expect(layers).toEqual([{ process: 'GTAW', volume: 500, percentage: 100 }]);
+    });
+
+    it('falls back to SMAW with no layers', () => {
+      expect(splitLayerVolumes([], 500, 3, 20)).toEqual([{ process: 'SMAW', volume: 500, percentage: 100 }]);
+    });
+  });
+
+  describe('calculatePassCount', () => {
+    it('rounds up to whole passes', () => {
+      // 1000 mm of 3 × 8 bead = 24000 mm³ per pass
+      expect(calculatePassCount(50000, { h: 3, w: 8 }, 1000)).toBe(3);
+    });
+
+    it('returns 0 when there is nothing to fill', () => {
+      expect(calculatePassCount(0, { h: 3, w: 8 }, 1000)).toBe(0);
+      expect(calculatePassCount(50000, { h: 0, w: 8 }, 1000)).toBe(0);
+      expect(calculatePassCount(50000, { h: 3, w: 8 }, 0)).toBe(0);
+    });
+  });
+
+  describe('calculateArcMinutes', () => {
+    it('is passes × length / speed', () => {
+      expect(calculateArcMinutes(3, 1000, 100)).toBe(30);
+    });
+
+    it('returns 0 for zero speed', () => {
+      expect(calculateArcMinutes(3, 1000, 0)).toBe(0);
+    });
+  });
+
+  describe('calculateWeldRun', () => {
+    const speeds = DEFAULT_TRAVEL_SPEEDS[0].values;
+
+    it('skips with no passes or time', () => {
+      expect(calculateWeldRun(50000, 1000, 'Skip', DEFAULT_BEAD_SIZES, speeds)).toEqual({ passes: 0, arcTime: 0 });
+    });
+
+    it('honours a minimum pass count', () => {
+      const run = calculateWeldRun(0, 1000, 'GTAW', DEFAULT_BEAD_SIZES, speeds, 1);
+
+      expect(run.passes).toBe(1);
+      expect(run.arcTime).toBeCloseTo(1000 / speeds.GTAW, 5);
+    });
+  });
+
+  describe('calculateGroove', () => {
+    it('totals passes and arc time across layers', () => {
+      const speeds = DEFAULT_TRAVEL_SPEEDS[1].values;
+      const result = calculateGroove(
+        veeSection(18, 30, 3, 2),
+        1000,
+        [
+          { process: 'GTAW', minWidth: 0 },
+          { process: 'SMAW', minWidth: 8 },
+        ],
+        DEFAULT_BEAD_SIZES,
+        speeds
+      );
+
+      expect(result.volume).toBeCloseTo(result.area * 1000, 5);
+      expect(result.passes).toBe(result.layers.reduce((sum, l) => sum + l.passes, 0));
+      expect(result.arcTime).toBeCloseTo(
+        result.layers.reduce((sum, l) => sum + (l.passes * 1000) / speeds[l.process as keyof typeof speeds], 0),
+        5
+      );
+    });
+  });
+});
@@ -0,0 +1,337 @@
+import type { BeadSize, BeadSizes, TravelSpeeds, WeldProcess } from '../shared/types';
+import { calculateBevelWidth, calculateTrapezoidArea } from './geometry';
+
+/**
+ * Shared Groove Engine
+ *
+ * One calculation core for every groove and fillet weld in the estimator.
+ * A weld is a cross-section swept along a weld path: the section gives the area,
+ * the path length gives the volume, and the process layers split that volume
+ * into passes and arc time.
+ */
+
+/**
+ * Generic groove cross-section
+ *
+ * Width grows linearly from rootWidth at the root to topWidth at the surface over
+ * depth, with a rectangular land of rootFaceHeight × rootWidth below it.
+ */
+export interface GrooveSection {
+  rootWidth: number;       // mm - width at the root (root gap)
+  topWidth: number;        // mm - width at the surface
+  depth: number;           // mm - bevel depth
+  rootFaceHeight: number;  // mm - land filled at root width
+}
+
+/**
+ * Process switch point - a layer starts once the groove is at least minWidth wide
+ */
+export interface GrooveLayer {
+  process: WeldProcess;
+  minWidth: number;        // mm
+}
+
+export interface LayerVolume {
+  process: WeldProcess;
+  volume: number;          // mm³
+  percentage: number;      // % of the groove volume
+}
+
+export interface WeldRun {
+  passes: number;
+  arcTime: number;         // minutes
+}
+
+export interface GrooveLayerResult extends LayerVolume, WeldRun {}
+
+export interface GrooveResult {
+  area: number;            // mm²
+  volume: number;          // mm³
+  layers: GrooveLayerResult[];
+  passes: number;
+  arcTime: number;         // minutes
+}
+
+/**
+ * Single bevel (J / half-V) section - one bevelled face, one square face
+ */
+export function singleBevelSection(
+  depth: number,
+  bevelAngle: number,
+  rootGap: number,
+  rootFaceHeight: number
+): GrooveSection {
+  const bevelDepth = Math.max(0, depth);
+  return {
+    rootWidth: rootGap,
+    topWidth: rootGap + calculateBevelWidth(bevelDepth, bevelAngle),
+    depth: bevelDepth,
+    rootFaceHeight,
+  };
+}
+
+/**
+ * V section - both faces bevelled at the same angle
+ */
+export function veeSection(
+  depth: number,
+  bevelAngle: number,
+  rootGap: number,
+  rootFaceHeight: number
+): GrooveSection {
+  const bevelDepth = Math.max(0, depth);
+  return {
+    rootWidth: rootGap,
+    topWidth: rootGap + 2 * calculateBevelWidth(bevelDepth, bevelAngle),
+    depth: bevelDepth,
+    rootFaceHeight,
+  };
+}
+
+/**
+ * Equal-leg fillet section - a triangle that widens from 0 to the leg size
+ */
+export function filletSection(legSize: number): GrooveSection {
+  return {
+    rootWidth: 0,
+    topWidth: legSize,
+    depth: legSize,
+    rootFaceHeight: 0,
+  };
+}
+
+/**
+ * Back weld after back-gouge on a single-sided groove
+ *
+ * Typically a 3-5mm deep sealing pass, slightly wider than the root gap - roughly triangular.
+ */
+export function backWeldSection(rootGap: number, rootFace: number): GrooveSection {
+  return {
+    rootWidth: 0,
+    topWidth: rootGap + 6,
+    depth: Math.min(5, rootFace + 2),
+    rootFaceHeight: 0,
+  };
+}
+
+/**
+ * Bevel depths for each side of a butt joint
+ *
+ * Single-sided: the bevel runs through the thickness down to the root face.
+ * Double-sided: the thickness is split by splitRatio (% from the 1st side) and
+ * half the root face is taken from each side.
+ */
+export function calculateSideDepths(
+  thickness: number,
+  rootFace: number,
+  doubleSided: boolean,
+  splitRatio: number
+): { insideDepth: number; outsideDepth: number } {
+  if (!doubleSided) {
+    return { insideDepth: Math.max(0, thickness - rootFace), outsideDepth: 0 };
+  }
+
+  const splitDecimal = splitRatio / 100;
+  return {
+    insideDepth: Math.max(0, thickness * splitDecimal - rootFace / 2),
+    outsideDepth: Math.max(0, thickness * (1 - splitDecimal) - rootFace / 2),
+  };
+}
+
+/**
+ * Cross-section area (mm²) - bevel trapezoid plus root face rectangle
+ */
+export function calculateSectionArea(section: GrooveSection): number {
+  return (
+    calculateTrapezoidArea(section.topWidth, section.rootWidth, section.depth) +
+    section.rootWidth * section.rootFaceHeight
+  );
+}
+
+/**
+ * Split a groove volume between process layers by width thresholds
+ *
+ * Width is linear with depth, so the slice between widths w1 and w2 has area
+ * proportional to (w1 + w2) / 2 × (w2 - w1). Each layer runs from its minWidth
+ * to the next layer's minWidth (or the top of the groove). Percentages are
+ * normalised so the layers always account for the whole volume.
+ */
+export function splitLayerVolumes(
+  layers: GrooveLayer[],
+  volume: number,
+  rootWidth: number,
+  topWidth: number
+): LayerVolume[] {
+  if (layers.length === 0) {
+    return [{ process: 'SMAW', volume, percentage: 100 }];
+  }
+
+  const sortedLayers = [...layers].sort((a, b) => a.minWidth - b.minWidth);
+  const totalWidthRange = topWidth - rootWidth;
+
+  // No bevel (square groove) - the first process fills it
+  if (totalWidthRange <= 0) {
+    return [{ process: sortedLayers[0].process, volume, percentage: 100 }];
+  }
+
+  const totalBevelArea = (rootWidth + topWidth) / 2;
+  const layerVolumes: LayerVolume[] = [];
+
+  for (let i = 0; i < sortedLayers.length; i++) {
+    const layer = sortedLayers[i];
+    const nextLayer = sortedLayers[i + 1];
+
+    const startWidth = Math.max(layer.minWidth, rootWidth);
+    const endWidth = nextLayer ? Math.min(nextLayer.minWidth, topWidth) : topWidth;
+
+    if (endWidth <= startWidth) continue;
+
+    const depthFraction = (endWidth - startWidth) / totalWidthRange;
+    const avgWidth = (startWidth + endWidth) / 2;
+    const percentage = ((avgWidth * depthFraction) / totalBevelArea) * 100;
+
+    layerVolumes.push({
+      process: layer.process,
+      volume: volume * (percentage / 100),
+      percentage,
+    });
+  }
+
+  // Normalise to ensure percentages sum to 100%
+  const totalPct = layerVolumes.reduce((sum, l) => sum + l.percentage, 0);
+  if (totalPct > 0 && Math.abs(totalPct - 100) > 0.01) {
+    layerVolumes.forEach(l => {
+      l.percentage = (l.percentage / totalPct) * 100;
+      l.volume = volume * (l.percentage / 100);
+    });
+  }
+
+  return layerVolumes;
+}
+
+/**
+ * Number of passes to fill a volume - rounded up, 0 when there is nothing to fill
+ */
+export function calculatePassCount(volume: number, bead: BeadSize, length: number): number {
+  if (volume <= 0 || bead.h <= 0 || bead.w <= 0 || length <= 0) {
+    return 0;
+  }
+  return Math.ceil(volume / (bead.h * bead.w * length));
+}
+
+/**
+ * Arc time in minutes for a number of passes along the weld path
+ */
+export function calculateArcMinutes(passes: number, length: number, speed: number): number {
+  if (speed <= 0 || passes <= 0) {
+    return 0;
+  }
+  return (passes * length) / speed;
+}
+
+/**
+ * Passes and arc time to deposit a volume with one process
+ *
+ * minPasses forces runs that always happen (e.g. a pipe root or cap pass)
+ * even when the volume alone would round to fewer passes.
+ */
+export function calculateWeldRun(
+  volume: number,
+  length: number,
+  process: WeldProcess,
+  beadSizes: BeadSizes,
+  speeds: TravelSpeeds,
+  minPasses = 0
+): WeldRun {
+  if (process === 'Skip') {
+    return { passes: 0, arcTime: 0 };
+  }
+
+  const passes = Math.max(minPasses, calculatePassCount(volume, beadSizes[process], length));
+  return {
+    passes,
+    arcTime: calculateArcMinutes(passes, length, speeds[process]),
+  };
+}
+
+/**
+ * Calculate a groove swept along a weld path
+ *
+ * @param section - Groove cross-section
+ * @param length - Weld path length in mm
+ * @param layers - Process switch points by groove width
+ * @param beadSizes - Bead sizes configuration
+ * @param speeds - Travel speeds for the thickness range
+ * @returns Area, volume, per-layer passes and arc time (minutes)
+ */
+export function calculateGroove(
+  section: GrooveSection,
+  length: number,
+  layers: GrooveLayer[],
+  beadSizes: BeadSizes,
+  speeds: TravelSpeeds
+): GrooveResult {
+  const area = calculateSectionArea(section);
+  const volume = area * length;
+
+  const layerResults = splitLayerVolumes(layers, volume, section.rootWidth, section.topWidth).map(layer => ({
+    ...layer,
+    ...calculateWeldRun(layer.volume, length, layer.process, beadSizes, speeds),
+  }));
+
+  return {
+    area,
+    volume,
+    layers: layerResults,
+    passes: layerResults.reduce((sum, l) => sum + l.passes, 0),
+    arcTime: layerResults.reduce((sum, l) => sum + l.arcTime, 0),
+  };
+}
+
+/**
+ * Length of weld path with its own cross-section
+ */
+export interface GrooveSegment {
+  section: GrooveSection;
+  length: number;          // mm
+}
+
+/**
+ * Calculate a groove whose section varies along the weld path
+ *
+ * Each segment's volume is split between the process layers at its own widths.
+ * Every layer then runs the whole path, so passes come from the layer's summed
+ * volume over the full length. The area is the mean over the path.
+ */
+export function calculateVaryingGroove(
+  segments: GrooveSegment[],
+  layers: GrooveLayer[],
+  beadSizes: BeadSizes,
+  speeds: TravelSpeeds
+): GrooveResult {
+  const length = segments.reduce((sum, s) => sum + s.length, 0);
+  const processVolumes = new Map<WeldProcess, number>();
+
+  for (const { section, length: segmentLength } of segments) {
+    const volume = calculateSectionArea(section) * segmentLength;
+    for (const layer of splitLayerVolumes(layers, volume, section.rootWidth, section.topWidth)) {
+      processVolumes.set(layer.process, (processVolumes.get(layer.process) ?? 0) + layer.volume);
+    }
+  }
+
+  const volume = [...processVolumes.values()].reduce((sum, v) => sum + v, 0);
+  const layerResults = [...processVolumes].map(([process, layerVolume]) => ({
+    process,
+    volume: layerVolume,
+    percentage: volume > 0 ? (layerVolume / volume) * 100 : 0,
+    ...calculateWeldRun(layerVolume, length, process, beadSizes, speeds),
+  }));
+
+  return {
+    area: length > 0 ? volume / length : 0,
+    volume,
+    layers: layerResults,
+    passes: layerResults.reduce((sum, l) => sum + l.passes, 0),
+    arcTime: layerResults.reduce((sum, l) => sum + l.arcTime, 0),
+  };
+}
@@ -28,6 +28,14 @@ import {
 export * from './geometry';
 export * from './passes';
 export * from './time';
+export * from './groove';
+export * from './bands';
+export * from './costing';
+export * from './consumables';
+export * from './procedures';
+export * from './preheat';
+export * from './nde';
+export * from './vessel';
 
 /**
  * Perform complete weld calculation
@@ -98,7 +106,3 @@ export function validateZoneDistribution(zoneDistribution: ZoneDistribution): bo
     zoneDistribution.zone1Pct + zoneDistribution.zone2Pct + zoneDistribution.zone3Pct;
   return Math.abs(total - 100) <= 0.1;
 }
-
-
-
-
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { getNdeExamHours, calculateNde, applyNde, mergeNdeExams } from './nde';
+import { getNdeCoverage } from '../modules/offer/types';
+import type { NdeSettings } from '../shared/types';
+
+const SETTINGS: NdeSettings = {
+  calculate: true,
+  rates: { VT: 20, UT: 5, MPI: 10, DPI: 4 },
+  rtFilmLength: 250,
+  rtShotHours: 0.5,
+  setupHours: 0.25,
+};
+
+describe('NDE', () => {
+  describe('getNdeExamHours', () => {
+    it('runs surface and UT methods at metres per hour', () => {
+      expect(getNdeExamHours('UT', 2000, SETTINGS)).toEqual({ shots: 0, hours: 0.4 });
+      expect(getNdeExamHours('MPI', 2000, SETTINGS)).toEqual({ shots: 0, hours: 0.2 });
+    });
+
+    it('counts RT in whole exposures', () => {
+      expect(getNdeExamHours('RT', 1000, SETTINGS)).toEqual({ shots: 4, hours: 2 });
+      expect(getNdeExamHours('RT', 1001, SETTINGS)).toEqual({ shots: 5, hours: 2.5 });
+    });
+  });
+
+  describe('calculateNde', () => {
+    it('examines the weld length at the offer coverage, plus setup per method', () => {
+      const coverage = getNdeCoverage();
+      coverage.longWelds = { VT: 100, UT: 50, MPI: 0 };
+
+      const result = calculateNde([{ category: 'longWelds', length: 4000 }], coverage, SETTINGS);
+
+      expect(result.exams.map(e => e.method)).toEqual(['VT', 'UT']);
+      expect(result.exams[1].length).toBe(2000);
+      // VT 0.2h + UT 0.4h + 2 × 0.25h setup
+      expect(result.hours).toBeCloseTo(1.1, 6);
+    });
+
+    it('maps the offer NDE lines onto joint categories', () => {
+      const coverage = getNdeCoverage({ nozzleFlangeRT: { description: '', coverage: 10 } });
+
+      expect(coverage.nozzleFlange).toEqual({ VT: 100, RT: 10 });
+      expect(coverage.circWelds.UT).toBe(100);
+      expect(coverage.tubeWelds.DPI).toBe(0);
+    });
+  });
+
+  describe('applyNde', () => {
+    it('keeps hand-entered NDE when calculation is off', () => {
+      const times = { nde: 1.5 };
+      const applied = applyNde(times, [{ category: 'circWelds', length: 3000 }], getNdeCoverage(), { ...SETTINGS, calculate: false });
+
+      expect(applied.nde).toBeNull();
+      expect(applied.activityTimes).toBe(times);
+    });
+
+    it('writes the calculated hours into the NDE time', () => {
+      const applied = applyNde({ nde: 1.5 }, [{ category: 'circWelds', length: 3000 }], getNdeCoverage(), SETTINGS);
+
+      expect(applied.activityTimes.nde).toBe(applied.nde!.hours);
+    });
+  });
+
+  it('merges exams by category and method × quantity', () => {
+    const { exams } = calculateNde([{ category: 'nozzleShell', length: 1000 }], getNdeCoverage(), SETTINGS);
+    const merged = mergeNdeExams([exams, 2], [exams, 3]);
+
+    expect(merged).toHaveLength(exams.length);
+    expect(merged[0].length).toBeCloseTo(exams[0].length * 5, 6);
+    expect(merged[0].hours).toBeCloseTo(exams[0].hours * 5, 6);
+  });
+});
@@ -0,0 +1,122 @@
+import type { NdeCategory, NdeExam, NdeMethod, NdeSettings } from '../shared/types';
+
+/**
+ * NDE Planner
+ *
+ * Each weld item examines its weld length per joint category at the coverage
+ * the offer sets for that category and method. Surface and UT methods run at
+ * metres of weld per hour; RT is counted in exposures, one per film length of
+ * examined weld. Every method used on an item adds a setup allowance.
+ */
+
+export const NDE_METHOD_LABELS: Record<NdeMethod, string> = {
+  VT: 'Visual',
+  RT: 'Radiography',
+  UT: 'Ultrasonic',
+  MPI: 'Magnetic particle',
+  DPI: 'Dye penetrant',
+};
+
+export const NDE_CATEGORY_LABELS: Record<NdeCategory, string> = {
+  longWelds: 'Long welds',
+  circWelds: 'Circ welds',
+  nozzleShell: 'Nozzle to shell',
+  nozzleFlange: 'Flange to neck',
+  liftingAttachments: 'Lifting attachments',
+  externalAttachments: 'External attachments',
+  internalAttachments: 'Internal attachments',
+  tubeWelds: 'Tube welds',
+};
+
+// Coverage % by method for each joint category - methods not listed are not done
+export type NdeCoverage = Record<NdeCategory, Partial<Record<NdeMethod, number>>>;
+
+// Weld length an item puts into one joint category
+export interface NdeWeld {
+  category: NdeCategory;
+  length: number;      // mm per item
+}
+
+export interface NdeResult {
+  exams: NdeExam[];
+  hours: number;       // Per item, including setup
+}
+
+// Item activity times with calculated NDE hours filled in
+export interface AppliedNde<T> {
+  activityTimes: T;
+  nde: NdeResult | null;   // null for hand-entered NDE
+}
+
+/**
+ * Hours to examine a length of weld by one method, excluding setup
+ */
+export function getNdeExamHours(method: NdeMethod, length: number, settings: NdeSettings): { shots: number; hours: number } {
+  if (length <= 0) return { shots: 0, hours: 0 };
+  if (method === 'RT') {
+    const shots = Math.ceil(length / settings.rtFilmLength);
+    return { shots, hours: shots * settings.rtShotHours };
+  }
+  const rate = settings.rates[method];
+  return { shots: 0, hours: rate > 0 ? length / 1000 / rate : 0 };
+}
+
+/**
+ * NDE for one item - every method with coverage on each of its welds
+ */
+export function calculateNde(welds: NdeWeld[], coverage: NdeCoverage, settings: NdeSettings): NdeResult {
+  const exams: NdeExam[] = [];
+  for (const weld of welds) {
+    for (const [method, pct = 0] of Object.entries(coverage[weld.category]) as [NdeMethod, number | undefined][]) {
+      const length = weld.length * (pct / 100);
+      if (length <= 0) continue;
+      exams.push({ category: weld.category, method, coverage: pct, length, ...getNdeExamHours(method, length, settings) });
+    }
+  }
+
+  const methods = new Set(exams.map(e => e.method));
+  const hours = exams.reduce((sum, e) => sum + e.hours, 0) + methods.size * settings.setupHours;
+  return { exams, hours };
+}
+
+/**
+ * Calculated NDE hours, or null when NDE is hand-entered
+ */
+export function applyNde<T extends { nde: number }>(
+  activityTimes: T,
+  welds: NdeWeld[],
+  coverage: NdeCoverage | null,
+  settings: NdeSettings
+): AppliedNde<T> {
+  if (!settings.calculate || !coverage) return { activityTimes, nde: null };
+  const nde = calculateNde(welds, coverage, settings);
+  return { activityTimes: { ...activityTimes, nde: nde.hours }, nde };
+}
+
+/**
+ * Sum exams by category and method, each multiplied by its factor (quantity)
+ */
+export function mergeNdeExams(...entries: [NdeExam[] | undefined, number][]): NdeExam[] {
+  const merged = new Map<string, NdeExam>();
+  for (const [exams, factor] of entries) {
+    if (!exams) continue;
+    for (const exam of exams) {
+      const key = `${exam.category}:${exam.method}`;
+      const existing = merged.get(key);
+      merged.set(key, {
+        ...exam,
+        length: (existing?.length ?? 0) + exam.length * factor,
+        shots: (existing?.shots ?? 0) + exam.shots * factor,
+        hours: (existing?.hours ?? 0) + exam.hours * factor,
+      });
+    }
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Total planned NDE for a module's items
+ */
+export function sumItemNde(items: { quantity: number; ndeResult?: NdeResult | null }[]): NdeExam[] {
+  return mergeNdeExams(...items.map(item => [item.ndeResult?.exams, item.quantity] as [NdeExam[] | undefined, number]));
+}
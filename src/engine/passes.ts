@@ -7,6 +7,7 @@ import type {
   PassResults,
   WeldProcess,
 } from '../types/weld.types';
+import { calculatePassCount } from './groove';
 
 /**
  * Calculate zone volumes based on inside volume and distribution percentages
@@ -39,10 +40,7 @@ export function calculatePasses(
   beadWidth: number,
   circumference: number
 ): number {
-  if (volume <= 0 || beadHeight <= 0 || beadWidth <= 0 || circumference <= 0) {
-    return 0;
-  }
-  return Math.ceil(volume / (beadHeight * beadWidth * circumference));
+  return calculatePassCount(volume, { h: beadHeight, w: beadWidth }, circumference);
 }
 
 /**
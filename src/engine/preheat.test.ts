@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { getPreheatTemperature, calculatePreheat, getPreheatHours } from './preheat';
+import { DEFAULT_PREHEAT, DEFAULT_PREHEAT_INPUT } from '../shared/settings/defaults';
+import type { PreheatSettings } from '../shared/types';
+
+const SETTINGS: PreheatSettings = {
+  ambient: 20,
+  specificHeat: 0.5,
+  bandWidth: 100,
+  methods: {
+    torch: { power: 10, efficiency: 50, setupHours: 0.5, interpassPct: 10 },
+    induction: DEFAULT_PREHEAT.methods.induction,
+  },
+};
+
+describe('Preheat', () => {
+  describe('getPreheatTemperature', () => {
+    it('raises carbon steel above 25mm or CE 0.45', () => {
+      expect(getPreheatTemperature('P1', 25, 0.4)).toBe(10);
+      expect(getPreheatTemperature('P1', 26, 0.4)).toBe(80);
+      expect(getPreheatTemperature('P1', 20, 0.5)).toBe(80);
+    });
+
+    it('uses the alloy base temperature at any thickness', () => {
+      expect(getPreheatTemperature('P5A', 10, 0.4)).toBe(150);
+      expect(getPreheatTemperature('P8', 100, 0.8)).toBe(10);
+    });
+  });
+
+  describe('calculatePreheat', () => {
+    it('needs no preheat at or below ambient', () => {
+      const preheat = calculatePreheat(DEFAULT_PREHEAT_INPUT, 20, 1000, SETTINGS);
+
+      expect(preheat.required).toBe(false);
+      expect(preheat.heatingTime).toBe(0);
+      expect(getPreheatHours(preheat, 4)).toBe(0);
+    });
+
+    it('heats a band either side of the weld from ambient', () => {
+      // 200mm band × 1000mm × 30mm × 7.85e-6 = 47.1kg; × 0.5 × 60K = 1413 kJ
+      const preheat = calculatePreheat({ ...DEFAULT_PREHEAT_INPUT, method: 'torch' }, 30, 1000, SETTINGS);
+
+      expect(preheat.temperature).toBe(80);
+      expect(preheat.heatedMass).toBeCloseTo(47.1, 6);
+      expect(preheat.energy).toBeCloseTo(1.413, 6);
+      // 1413 kJ ÷ 5 kW = 282.6 s, plus 0.5h setup
+      expect(preheat.heatingTime).toBeCloseTo(282.6 / 3600 + 0.5, 6);
+      // Interpass hold adds 10% of weld time
+      expect(getPreheatHours(preheat, 4)).toBeCloseTo(preheat.heatingTime + 0.4, 6);
+    });
+
+    it('widens the band to the plate thickness on heavy sections', () => {
+      const thin = calculatePreheat({ ...DEFAULT_PREHEAT_INPUT, pNumber: 'P5A' }, 50, 1000, SETTINGS);
+      const thick = calculatePreheat({ ...DEFAULT_PREHEAT_INPUT, pNumber: 'P5A' }, 150, 1000, SETTINGS);
+
+      expect(thin.heatedMass).toBeCloseTo(200 * 1000 * 50 * 7.85e-6, 6);
+      expect(thick.heatedMass).toBeCloseTo(300 * 1000 * 150 * 7.85e-6, 6);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import type { PNumber, PreheatInput, PreheatSettings } from '../shared/types';
+
+/**
+ * Preheat Model
+ *
+ * Required temperature comes from the base material group: each P-number has a
+ * base temperature, raised above a thickness or carbon equivalent limit
+ * (after ASME VIII Div 1 Appendix R). Heating time is the energy to bring a
+ * band either side of the weld from ambient up to temperature, divided by the
+ * heat the torch or induction mats put into the plate, plus setup. Holding
+ * interpass temperature adds a share of the weld time.
+ */
+
+const STEEL_DENSITY = 7.85e-6; // kg/mm³
+
+export interface PNumberGroup {
+  label: string;
+  baseTemp: number;             // °C
+  raisedTemp: number;           // °C - above the thickness or CE limit
+  thicknessOver: number | null; // mm
+  ceOver: number | null;        // CE (IIW)
+}
+
+export const P_NUMBER_GROUPS: Record<PNumber, PNumberGroup> = {
+  P1: { label: 'P1 - Carbon steel', baseTemp: 10, raisedTemp: 80, thicknessOver: 25, ceOver: 0.45 },
+  P3: { label: 'P3 - C-½Mo', baseTemp: 10, raisedTemp: 80, thicknessOver: 16, ceOver: 0.45 },
+  P4: { label: 'P4 - 1¼Cr-½Mo', baseTemp: 10, raisedTemp: 120, thicknessOver: 13, ceOver: 0.45 },
+  P5A: { label: 'P5A - 2¼Cr-1Mo', baseTemp: 150, raisedTemp: 200, thicknessOver: 13, ceOver: 0.45 },
+  P8: { label: 'P8 - Austenitic stainless', baseTemp: 10, raisedTemp: 10, thicknessOver: null, ceOver: null },
+};
+
+export const PREHEAT_METHOD_LABELS = {
+  torch: 'Gas torch',
+  induction: 'Induction / resistance mats',
+} as const;
+
+export interface PreheatResult {
+  temperature: number;       // °C - required preheat
+  required: boolean;         // Above shop ambient
+  heatedMass: number;        // kg
+  energy: number;            // MJ
+  heatingTime: number;       // hours - per heat-up, including setup
+  interpassPct: number;      // % of weld time holding interpass temperature
+  derivation: string[];      // Steps shown on the item
+}
+
+// Item activity times with calculated preheat hours filled in
+export interface AppliedPreheat<T> {
+  activityTimes: T;
+  preheat: PreheatResult | null;   // null for hand-entered preheat
+}
+
+/**
+ * Required preheat temperature for a material group, thickness and CE
+ */
+export function getPreheatTemperature(pNumber: PNumber, thickness: number, carbonEquivalent: number): number {
+  const group = P_NUMBER_GROUPS[pNumber];
+  const overThickness = group.thicknessOver !== null && thickness > group.thicknessOver;
+  const overCE = group.ceOver !== null && carbonEquivalent > group.ceOver;
+  return overThickness || overCE ? group.raisedTemp : group.baseTemp;
+}
+
+/**
+ * Preheat temperature and heating time for a weld of the given thickness and length
+ */
+export function calculatePreheat(
+  input: PreheatInput,
+  thickness: number,
+  length: number,
+  settings: PreheatSettings
+): PreheatResult {
+  const group = P_NUMBER_GROUPS[input.pNumber];
+  const method = settings.methods[input.method];
+  const temperature = getPreheatTemperature(input.pNumber, thickness, input.carbonEquivalent);
+  const rise = temperature - settings.ambient;
+  const limits = [
+    group.thicknessOver !== null && `${thickness}mm ${thickness > group.thicknessOver ? '>' : '≤'} ${group.thicknessOver}mm`,
+    group.ceOver !== null && `CE ${input.carbonEquivalent} ${input.carbonEquivalent > group.ceOver ? '>' : '≤'} ${group.ceOver}`,
+  ].filter(Boolean).join(', ');
+
+  const derivation = [`${group.label}${limits ? `, ${limits}` : ''} → ${temperature}°C`];
+
+  if (rise <= 0) {
+    derivation.push(`At or below ${settings.ambient}°C ambient - no preheat`);
+    return { temperature, required: false, heatedMass: 0, energy: 0, heatingTime: 0, interpassPct: 0, derivation };
+  }
+
+  // Band either side of the weld, at least the plate thickness wide
+  const bandWidth = 2 * Math.max(settings.bandWidth, thickness);
+  const heatedMass = bandWidth * length * thickness * STEEL_DENSITY;
+  const energy = (heatedMass * settings.specificHeat * rise) / 1000; // kJ → MJ
+  const heatInput = method.power * (method.efficiency / 100);        // kW into the plate
+  const heatingTime = (heatInput > 0 ? (energy * 1000) / heatInput / 3600 : 0) + method.setupHours;
+
+  derivation.push(
+    `${bandWidth}mm band × ${length.toFixed(0)}mm × ${thickness}mm = ${heatedMass.toFixed(1)}kg`,
+    `${heatedMass.toFixed(1)}kg × ${settings.specificHeat} kJ/kg·K × ${rise}K = ${energy.toFixed(2)}MJ`,
+    `${PREHEAT_METHOD_LABELS[input.method]} ${method.power}kW × ${method.efficiency}% → ${(heatingTime - method.setupHours).toFixed(2)}h + ${method.setupHours}h setup`,
+  );
+  if (method.interpassPct > 0) {
+    derivation.push(`Interpass hold ${method.interpassPct}% of weld time`);
+  }
+
+  return { temperature, required: true, heatedMass, energy, heatingTime, interpassPct: method.interpassPct, derivation };
+}
+
+/**
+ * Preheat hours for one heat-up followed by welding for weldHours
+ */
+export function getPreheatHours(preheat: PreheatResult, weldHours: number): number {
+  if (!preheat.required) return 0;
+  return preheat.heatingTime + weldHours * (preheat.interpassPct / 100);
+}
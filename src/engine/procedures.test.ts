@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findProcedure,
+  isInProcedureRange,
+  formatProcedureRange,
+  applyProcedureSettings,
+  resolveProcedure,
+} from './procedures';
+import { DEFAULT_SETTINGS } from '../shared/settings/defaults';
+import { applyLongWeldProcedure, calculateLongWeld } from '../modules/longwelds/engine';
+import {
+  DEFAULT_LONG_WELD_GEOMETRY,
+  DEFAULT_LONG_WELD_ACTIVITY_TIMES,
+  DEFAULT_LONG_WELD_LAYERS,
+} from '../modules/longwelds/types';
+import type { LongWeldItem } from '../modules/longwelds/types';
+import type { WeldProcedure } from '../shared/types';
+
+const WPS: WeldProcedure = {
+  ...DEFAULT_SETTINGS.weldProcedures[0],
+  number: 'WPS-TEST',
+  minThickness: 10,
+  maxThickness: 40,
+  doubleSided: false,
+  bevelAngle: 35,
+  rootGap: 2,
+  rootFace: 1,
+  layers: [{ process: 'GTAW', minWidth: 0 }, { process: 'FCAW', minWidth: 10 }],
+  backProcess: 'SMAW',
+  beadSizes: { FCAW: { h: 5, w: 12 } },
+  travelSpeeds: { FCAW: 300 },
+};
+
+const SETTINGS = { ...DEFAULT_SETTINGS, weldProcedures: [WPS] };
+
+const WELD: LongWeldItem = {
+  id: 'lw1',
+  tag: 'S1-LS',
+  quantity: 1,
+  wpsNumber: 'WPS-TEST',
+  geometry: { ...DEFAULT_LONG_WELD_GEOMETRY, shellThickness: 20 },
+  insideLayers: [...DEFAULT_LONG_WELD_LAYERS],
+  outsideProcess: 'SAW',
+  activityTimes: { ...DEFAULT_LONG_WELD_ACTIVITY_TIMES },
+};
+
+describe('Weld Procedures', () => {
+  describe('findProcedure', () => {
+    it('finds by number and ignores blank or unknown numbers', () => {
+      expect(findProcedure([WPS], 'WPS-TEST')).toBe(WPS);
+      expect(findProcedure([WPS], undefined)).toBeUndefined();
+      expect(findProcedure([WPS], 'WPS-999')).toBeUndefined();
+    });
+  });
+
+  describe('range', () => {
+    it('includes both range ends', () => {
+      expect(isInProcedureRange(WPS, 10)).toBe(true);
+      expect(isInProcedureRange(WPS, 40)).toBe(true);
+      expect(isInProcedureRange(WPS, 41)).toBe(false);
+      expect(isInProcedureRange({ ...WPS, maxThickness: null }, 200)).toBe(true);
+    });
+
+    it('labels closed and open ranges', () => {
+      expect(formatProcedureRange(WPS)).toBe('10-40mm');
+      expect(formatProcedureRange({ ...WPS, maxThickness: null })).toBe('≥10mm');
+    });
+  });
+
+  describe('applyProcedureSettings', () => {
+    it('overrides bead sizes and travel speeds in every band', () => {
+      const applied = applyProcedureSettings(DEFAULT_SETTINGS, WPS);
+
+      expect(applied.beadSizes.FCAW).toEqual({ h: 5, w: 12 });
+      expect(applied.beadSizes.SMAW).toEqual(DEFAULT_SETTINGS.beadSizes.SMAW);
+      applied.travelSpeeds.forEach((band, i) => {
+        expect(band.values.FCAW).toBe(300);
+        expect(band.values.SAW).toBe(DEFAULT_SETTINGS.travelSpeeds[i].values.SAW);
+      });
+    });
+  });
+
+  describe('resolveProcedure', () => {
+    it('applies the WPS prep and processes to the item', () => {
+      const { item, procedure } = resolveProcedure(WELD, SETTINGS, applyLongWeldProcedure);
+
+      expect(procedure).toBe(WPS);
+      expect(item.geometry.jointType).toBe('singlevee');
+      expect(item.geometry.insideBevelAngle).toBe(35);
+      expect(item.geometry.shellThickness).toBe(20);
+      expect(item.insideLayers).toEqual(WPS.layers);
+      expect(item.outsideProcess).toBe('SMAW');
+    });
+
+    it('leaves items without a library WPS unchanged', () => {
+      const manual = { ...WELD, wpsNumber: 'WPS-999' };
+      const resolved = resolveProcedure(manual, SETTINGS, applyLongWeldProcedure);
+
+      expect(resolved.item).toBe(manual);
+      expect(resolved.settings).toBe(SETTINGS);
+      expect(resolved.procedure).toBeUndefined();
+    });
+
+    it('recalculates the item when the WPS changes', () => {
+      const before = resolveProcedure(WELD, SETTINGS, applyLongWeldProcedure);
+      const wider = { ...SETTINGS, weldProcedures: [{ ...WPS, bevelAngle: 45 }] };
+      const after = resolveProcedure(WELD, wider, applyLongWeldProcedure);
+
+      expect(calculateLongWeld(after.item, after.settings).insideVolume)
+        .toBeGreaterThan(calculateLongWeld(before.item, before.settings).insideVolume);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import type { SharedSettings, WeldProcedure } from '../shared/types';
+
+/**
+ * Weld Procedures (WPS)
+ *
+ * Items reference a WPS by number. At calculation time the WPS joint prep and
+ * process sequence replace the item's own, and its bead size and travel speed
+ * overrides replace the shared settings - so editing a WPS recalculates every
+ * item that uses it.
+ */
+
+export interface ResolvedProcedure<T> {
+  item: T;                             // Item with the WPS prep and processes applied
+  settings: SharedSettings;            // Shared settings with the WPS overrides applied
+  procedure?: WeldProcedure;
+}
+
+/**
+ * Look up a WPS by number
+ */
+export function findProcedure(
+  procedures: WeldProcedure[],
+  number: string | undefined
+): WeldProcedure | undefined {
+  if (!number) return undefined;
+  return procedures.find(wps => wps.number === number);
+}
+
+/**
+ * Whether a thickness is inside the WPS qualified range
+ */
+export function isInProcedureRange(procedure: WeldProcedure, thickness: number): boolean {
+  return thickness >= procedure.minThickness
+    && (procedure.maxThickness === null || thickness <= procedure.maxThickness);
+}
+
+/**
+ * Qualified range label, e.g. "10-50mm" or "≥10mm"
+ */
+export function formatProcedureRange(procedure: WeldProcedure): string {
+  return procedure.maxThickness === null
+    ? `≥${procedure.minThickness}mm`
+    : `${procedure.minThickness}-${procedure.maxThickness}mm`;
+}
+
+/**
+ * Shared settings with the WPS bead sizes and travel speeds applied
+ *
+ * Travel speed overrides apply in every thickness band.
+ */
+export function applyProcedureSettings(
+  settings: SharedSettings,
+  procedure: WeldProcedure | undefined
+): SharedSettings {
+  if (!procedure) return settings;
+  return {
+    ...settings,
+    beadSizes: { ...settings.beadSizes, ...procedure.beadSizes },
+    travelSpeeds: settings.travelSpeeds.map(band => ({
+      ...band,
+      values: { ...band.values, ...procedure.travelSpeeds },
+    })),
+  };
+}
+
+/**
+ * Resolve the WPS an item references
+ *
+ * `apply` copies the WPS joint prep and processes onto the module's item shape.
+ * Items without a WPS, or referencing a number no longer in the library, are
+ * calculated from their own values.
+ */
+export function resolveProcedure<T extends { wpsNumber?: string }>(
+  item: T,
+  settings: SharedSettings,
+  apply: (item: T, procedure: WeldProcedure) => T
+): ResolvedProcedure<T> {
+  const procedure = findProcedure(settings.weldProcedures, item.wpsNumber);
+  if (!procedure) return { item, settings };
+  return {
+    item: apply(item, procedure),
+    settings: applyProcedureSettings(settings, procedure),
+    procedure,
+  };
+}
+
+/**
+ * Vee joint prep from a WPS, in the shape the seam and head modules use
+ */
+export function procedureVeePrep(procedure: WeldProcedure) {
+  return {
+    jointType: procedure.doubleSided ? 'doublevee' as const : 'singlevee' as const,
+    insideBevelAngle: procedure.bevelAngle,
+    outsideBevelAngle: procedure.outsideBevelAngle,
+    rootGap: procedure.rootGap,
+    rootFace: procedure.rootFace,
+    splitRatio: procedure.splitRatio,
+  };
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { compareRevisions } from './revisions';
+import { createEmptyProject, createEquipment, createRevision } from '../project/storage';
+import type { ModuleSummary } from '../shared/types';
+import type { ProjectEquipment, VesselProject } from '../project/types';
+
+const summary = (hours: Record<string, number>): ModuleSummary => ({
+  moduleId: 'longwelds',
+  moduleName: 'Long Welds',
+  itemCount: 1,
+  totalHours: Object.values(hours).reduce((s, v) => s + v, 0),
+  activityBreakdown: hours,
+  deposits: {},
+  nde: [],
+});
+
+const withWelds = (equipment: ProjectEquipment, welds: object[], hours: Record<string, number>): ProjectEquipment => ({
+  ...equipment,
+  modules: { ...equipment.modules, longwelds: { welds } },
+  summaries: { ...equipment.summaries, longwelds: summary(hours) },
+});
+
+describe('Revisions', () => {
+  const drum = createEquipment('D1', 'Drum');
+  const rev0: VesselProject = {
+    ...createEmptyProject(),
+    equipment: [withWelds(drum, [{ id: 'w1', tag: 'LW1', length: 1000 }, { id: 'w2', tag: 'LW2', length: 500 }], { WLONG: 10, NDE: 2 })],
+    activeEquipmentId: drum.id,
+  };
+
+  it('lists added, removed and changed items with the hours moved', () => {
+    const filter = createEquipment('F1', 'Filter');
+    const revA: VesselProject = {
+      ...rev0,
+      equipment: [
+        { ...withWelds(rev0.equipment[0], [{ id: 'w1', tag: 'LW1', length: 1200, results: {} }, { id: 'w3', tag: 'LW3', length: 300 }], { WLONG: 13, NDE: 2 }), quantity: 2 },
+        filter,
+      ],
+      modules: { offer: { notes: [] } },
+    };
+
+    const diff = compareRevisions(rev0, revA);
+    expect(diff.equipment).toEqual([
+      { kind: 'changed', id: drum.id, tag: 'D1 - Drum', fields: ['quantity'] },
+      { kind: 'added', id: filter.id, tag: 'F1 - Filter', fields: [] },
+    ]);
+
+    const [longWelds, offer] = diff.modules;
+    expect(longWelds).toMatchObject({ equipmentLabel: 'D1 - Drum', moduleId: 'longwelds', fromHours: 12, toHours: 30 });
+    expect(longWelds.items).toEqual([
+      { kind: 'changed', id: 'w1', tag: 'LW1', fields: ['length'] },
+      { kind: 'added', id: 'w3', tag: 'LW3', fields: [] },
+      { kind: 'removed', id: 'w2', tag: 'LW2', fields: [] },
+    ]);
+    expect(offer).toMatchObject({ equipmentId: null, moduleId: 'offer', items: [{ kind: 'added', tag: 'Offer Sheet' }] });
+    expect(diff.modules).toHaveLength(2);
+
+    // Per activity code, × quantity
+    expect(diff.activities).toEqual([
+      { code: 'NDE', fromHours: 2, toHours: 4, delta: 2 },
+      { code: 'WLONG', fromHours: 10, toHours: 26, delta: 16 },
+    ]);
+    expect(diff.toHours - diff.fromHours).toBe(18);
+  });
+
+  it('finds nothing between a revision and itself', () => {
+    const diff = compareRevisions(rev0, createRevision(rev0, '').snapshot);
+    expect(diff).toMatchObject({ equipment: [], modules: [], activities: [] });
+  });
+});
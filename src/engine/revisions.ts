@@ -0,0 +1,192 @@
+import type { ModuleId, ProjectEquipment, ProjectModules, ProjectSnapshot } from '../project/types';
+import { JOB_MODULES, MODULES } from '../project/types';
+import { getEquipmentLabel, getJobTotals } from './equipment';
+
+/**
+ * Revision Comparison
+ *
+ * Lines two snapshots of a project up - equipment by ID, module items by ID
+ * within each equipment item - and lists what was added, removed or changed,
+ * with the hours moved per module and per activity code (× quantity).
+ */
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export interface ItemChange {
+  kind: ChangeKind;
+  id: string;
+  tag: string;
+  fields: string[];            // Changed inputs - empty when added or removed
+}
+
+export interface ModuleChanges {
+  equipmentId: string | null;  // null for job modules
+  equipmentLabel: string;
+  moduleId: ModuleId;
+  moduleName: string;
+  items: ItemChange[];
+  fromHours: number;
+  toHours: number;
+}
+
+export interface ActivityDelta {
+  code: string;
+  fromHours: number;
+  toHours: number;
+  delta: number;
+}
+
+export interface RevisionComparison {
+  equipment: ItemChange[];
+  modules: ModuleChanges[];
+  activities: ActivityDelta[];
+  fromHours: number;
+  toHours: number;
+}
+
+interface ComparableItem {
+  id: string;
+  tag?: string;
+}
+
+// Calculated on every render - a change here follows from an input change
+const CALCULATED_FIELDS = ['results', 'activityCodes'];
+
+// Below this the hours are the same, give or take float noise
+const HOURS_TOLERANCE = 0.005;
+
+// List modules and the key of their item list - the rest hold one set of inputs
+const ITEM_LISTS: Partial<Record<ModuleId, string>> = {
+  nozzles: 'nozzles',
+  longwelds: 'welds',
+  circwelds: 'welds',
+  heads: 'items',
+  pipejoints: 'joints',
+  internals: 'items',
+  externals: 'items',
+  tubesheets: 'items',
+};
+
+function getModuleItems(moduleId: ModuleId, data: unknown): ComparableItem[] {
+  const key = ITEM_LISTS[moduleId];
+  const items = key && data ? (data as Record<string, unknown>)[key] : undefined;
+  return Array.isArray(items) ? items as ComparableItem[] : [];
+}
+
+function getChangedFields(from: object, to: object): string[] {
+  const a = from as Record<string, unknown>;
+  const b = to as Record<string, unknown>;
+  const keys = [...new Set([...Object.keys(a), ...Object.keys(b)])];
+  return keys.filter(key => !CALCULATED_FIELDS.includes(key) && JSON.stringify(a[key]) !== JSON.stringify(b[key]));
+}
+
+function compareItems(from: ComparableItem[], to: ComparableItem[]): ItemChange[] {
+  const tagOf = (item: ComparableItem) => item.tag || item.id;
+  const changes: ItemChange[] = [];
+  to.forEach(item => {
+    const before = from.find(f => f.id === item.id);
+    if (!before) {
+      changes.push({ kind: 'added', id: item.id, tag: tagOf(item), fields: [] });
+      return;
+    }
+    const fields = getChangedFields(before, item);
+    if (fields.length > 0) changes.push({ kind: 'changed', id: item.id, tag: tagOf(item), fields });
+  });
+  from.filter(item => !to.some(t => t.id === item.id)).forEach(item => {
+    changes.push({ kind: 'removed', id: item.id, tag: tagOf(item), fields: [] });
+  });
+  return changes;
+}
+
+/**
+ * Changes to one module's data. List modules compare item by item; the rest
+ * (vessel layout, PWHT, test, coatings, offer) report their inputs as one item.
+ */
+function compareModuleData(moduleId: ModuleId, moduleName: string, from: unknown, to: unknown): ItemChange[] {
+  if (ITEM_LISTS[moduleId]) return compareItems(getModuleItems(moduleId, from), getModuleItems(moduleId, to));
+
+  if (JSON.stringify(from) === JSON.stringify(to)) return [];
+  const kind: ChangeKind = from === undefined ? 'added' : to === undefined ? 'removed' : 'changed';
+  const fields = kind === 'changed' && typeof from === 'object' && typeof to === 'object' && from && to
+    ? getChangedFields(from, to)
+    : [];
+  return [{ kind, id: moduleId, tag: moduleName, fields }];
+}
+
+function getModuleHours(equipment: ProjectEquipment | undefined, moduleId: ModuleId): number {
+  if (!equipment) return 0;
+  return (equipment.summaries[moduleId]?.totalHours ?? 0) * equipment.quantity;
+}
+
+function compareEquipmentModules(
+  from: ProjectEquipment | undefined,
+  to: ProjectEquipment | undefined,
+): ModuleChanges[] {
+  const equipment = (to ?? from)!;
+  const fromModules: ProjectModules = from?.modules ?? {};
+  const toModules: ProjectModules = to?.modules ?? {};
+
+  return MODULES.filter(mod => !JOB_MODULES.includes(mod.id)).flatMap(mod => {
+    const items = compareModuleData(mod.id, mod.name, fromModules[mod.id], toModules[mod.id]);
+    // The vessel definition belongs with the vessel layout
+    if (mod.id === 'shell' && JSON.stringify(from?.vessel) !== JSON.stringify(to?.vessel) && from && to) {
+      items.unshift({ kind: 'changed', id: 'vessel', tag: 'Vessel definition', fields: getChangedFields(from.vessel ?? {}, to.vessel ?? {}) });
+    }
+    const fromHours = getModuleHours(from, mod.id);
+    const toHours = getModuleHours(to, mod.id);
+    if (items.length === 0 && Math.abs(toHours - fromHours) < HOURS_TOLERANCE) return [];
+    return [{
+      equipmentId: equipment.id,
+      equipmentLabel: getEquipmentLabel(equipment),
+      moduleId: mod.id,
+      moduleName: mod.name,
+      items,
+      fromHours,
+      toHours,
+    }];
+  });
+}
+
+/**
+ * Everything that moved between two snapshots of the same project
+ */
+export function compareRevisions(from: ProjectSnapshot, to: ProjectSnapshot): RevisionComparison {
+  const equipment = compareItems(from.equipment, to.equipment).map(change => {
+    const item = to.equipment.find(e => e.id === change.id) ?? from.equipment.find(e => e.id === change.id)!;
+    // Only the item's own details - its module data is compared below
+    const fields = change.fields.filter(field => ['tag', 'name', 'quantity'].includes(field));
+    return { ...change, tag: getEquipmentLabel(item), fields };
+  }).filter(change => change.kind !== 'changed' || change.fields.length > 0);
+
+  const ids = [...new Set([...to.equipment, ...from.equipment].map(e => e.id))];
+  const equipmentModules = ids.flatMap(id => compareEquipmentModules(
+    from.equipment.find(e => e.id === id),
+    to.equipment.find(e => e.id === id),
+  ));
+
+  const jobModules = MODULES.filter(mod => JOB_MODULES.includes(mod.id)).flatMap(mod => {
+    const items = compareModuleData(mod.id, mod.name, from.modules[mod.id], to.modules[mod.id]);
+    if (items.length === 0) return [];
+    return [{ equipmentId: null, equipmentLabel: 'Job', moduleId: mod.id, moduleName: mod.name, items, fromHours: 0, toHours: 0 }];
+  });
+
+  const fromTotals = getJobTotals(from);
+  const toTotals = getJobTotals(to);
+  const codes = [...new Set([...Object.keys(fromTotals.activityBreakdown), ...Object.keys(toTotals.activityBreakdown)])];
+  const activities = codes
+    .map(code => {
+      const fromHours = fromTotals.activityBreakdown[code] ?? 0;
+      const toHours = toTotals.activityBreakdown[code] ?? 0;
+      return { code, fromHours, toHours, delta: toHours - fromHours };
+    })
+    .filter(a => Math.abs(a.delta) >= HOURS_TOLERANCE)
+    .sort((a, b) => a.code.localeCompare(b.code));
+
+  return {
+    equipment,
+    modules: [...equipmentModules, ...jobModules],
+    activities,
+    fromHours: fromTotals.totalHours,
+    toHours: toTotals.totalHours,
+  };
+}
@@ -9,6 +9,8 @@ import type {
   TimeResults,
   WeldProcess,
 } from '../types/weld.types';
+import { calculateArcMinutes } from './groove';
+import { resolveBand } from './bands';
 
 /**
  * Get travel speeds based on shell thickness
@@ -20,13 +22,11 @@ export function getTravelSpeeds(
   thickness: number,
   speedsByThickness: TravelSpeedsByThickness
 ): TravelSpeeds {
-  if (thickness < 20) {
-    return speedsByThickness.thin;
-  }
-  if (thickness < 40) {
-    return speedsByThickness.medium;
-  }
-  return speedsByThickness.thick;
+  return resolveBand(thickness, [
+    { id: 'thin', upTo: 20, values: speedsByThickness.thin },
+    { id: 'medium', upTo: 40, values: speedsByThickness.medium },
+    { id: 'thick', upTo: null, values: speedsByThickness.thick },
+  ]);
 }
 
 /**
@@ -39,22 +39,14 @@ export function getOperatorFactors(
   thickness: number,
   factorsByThickness: OperatorFactorsByThickness
 ): OperatorFactors {
-  if (thickness < 12) {
-    return factorsByThickness.range1;
-  }
-  if (thickness < 18) {
-    return factorsByThickness.range2;
-  }
-  if (thickness < 25) {
-    return factorsByThickness.range3;
-  }
-  if (thickness < 35) {
-    return factorsByThickness.range4;
-  }
-  if (thickness < 50) {
-    return factorsByThickness.range5;
-  }
-  return factorsByThickness.range6;
+  return resolveBand(thickness, [
+    { id: 'range1', upTo: 12, values: factorsByThickness.range1 },
+    { id: 'range2', upTo: 18, values: factorsByThickness.range2 },
+    { id: 'range3', upTo: 25, values: factorsByThickness.range3 },
+    { id: 'range4', upTo: 35, values: factorsByThickness.range4 },
+    { id: 'range5', upTo: 50, values: factorsByThickness.range5 },
+    { id: 'range6', upTo: null, values: factorsByThickness.range6 },
+  ]);
 }
 
 /**
@@ -82,10 +74,7 @@ export function calculateArcTime(
   circumference: number,
   speed: number
 ): number {
-  if (speed <= 0 || passes <= 0) {
-    return 0;
-  }
-  return (passes * circumference) / speed;
+  return calculateArcMinutes(passes, circumference, speed);
 }
 
 /**
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { bindLongWeld, bindCircWeld, bindNozzle, applyVesselDefinition, summarizeBoundModules } from './vessel';
+import { getNdeCoverage } from '../modules/offer/types';
+import { DEFAULT_SETTINGS } from '../shared/settings/defaults';
+import { migrateEquipment, createEquipment } from '../project/storage';
+import { DEFAULT_VESSEL, DEFAULT_VESSEL_COURSE } from '../project/types';
+import type { VesselDefinition } from '../project/types';
+import { DEFAULT_LONG_WELD_GEOMETRY, DEFAULT_LONG_WELD_ACTIVITY_TIMES, DEFAULT_LONG_WELD_LAYERS } from '../modules/longwelds/types';
+import type { LongWeldItem } from '../modules/longwelds/types';
+import { DEFAULT_CIRC_WELD_GEOMETRY, DEFAULT_CIRC_WELD_ACTIVITY_TIMES, DEFAULT_CIRC_WELD_LAYERS } from '../modules/circwelds/types';
+import type { CircWeldItem } from '../modules/circwelds/types';
+import { DEFAULT_NOZZLE_GEOMETRY, DEFAULT_NOZZLE_ACTIVITY_TIMES, DEFAULT_PROCESS_LAYERS } from '../modules/nozzles/types';
+import type { NozzleItem } from '../modules/nozzles/types';
+
+const vessel: VesselDefinition = {
+  ...DEFAULT_VESSEL,
+  insideDiameter: 2400,
+  courses: [
+    { ...DEFAULT_VESSEL_COURSE, id: 'c1', tag: 'C1', thickness: 16 },
+    { ...DEFAULT_VESSEL_COURSE, id: 'c2', tag: 'C2', thickness: 22 },
+  ],
+};
+
+const longWeld = (courseId?: string, overrides?: LongWeldItem['overrides']): LongWeldItem => ({
+  id: 'lw',
+  tag: 'LW',
+  quantity: 1,
+  courseId,
+  overrides,
+  geometry: { ...DEFAULT_LONG_WELD_GEOMETRY, shellThickness: 10 },
+  insideLayers: [...DEFAULT_LONG_WELD_LAYERS],
+  outsideProcess: 'SAW',
+  activityTimes: { ...DEFAULT_LONG_WELD_ACTIVITY_TIMES },
+});
+
+const circWeld = (courseId?: string, overrides?: CircWeldItem['overrides']): CircWeldItem => ({
+  id: 'cw',
+  tag: 'CW',
+  quantity: 1,
+  courseId,
+  overrides,
+  geometry: { ...DEFAULT_CIRC_WELD_GEOMETRY, shellThickness: 10, insideDiameter: 1000 },
+  insideLayers: [...DEFAULT_CIRC_WELD_LAYERS],
+  outsideProcess: 'SAW',
+  activityTimes: { ...DEFAULT_CIRC_WELD_ACTIVITY_TIMES },
+});
+
+const nozzle = (courseId?: string): NozzleItem => ({
+  id: 'n1',
+  tag: 'N1',
+  quantity: 1,
+  courseId,
+  geometry: { ...DEFAULT_NOZZLE_GEOMETRY, shellThick: 10 },
+  insideLayers: [...DEFAULT_PROCESS_LAYERS],
+  outsideProcess: 'FCAW',
+  filletProcess: 'FCAW',
+  activityTimes: { ...DEFAULT_NOZZLE_ACTIVITY_TIMES },
+});
+
+describe('Vessel Binding', () => {
+  it('takes the course thickness unless overridden', () => {
+    expect(bindLongWeld(longWeld('c2'), vessel).geometry.shellThickness).toBe(22);
+    expect(bindLongWeld(longWeld('c2', { thickness: true }), vessel).geometry.shellThickness).toBe(10);
+    expect(bindLongWeld(longWeld(), vessel).geometry.shellThickness).toBe(10);
+    expect(bindNozzle(nozzle('c1'), vessel).geometry.shellThick).toBe(16);
+  });
+
+  it('keeps the last shell when the course has gone', () => {
+    expect(bindLongWeld(longWeld('c9'), vessel).geometry.shellThickness).toBe(10);
+    expect(bindNozzle(nozzle('c1'), undefined).geometry.shellThick).toBe(10);
+  });
+
+  it('governs circ seams by the thicker course and takes the vessel ID', () => {
+    expect(bindCircWeld(circWeld('c1'), vessel).geometry).toMatchObject({ shellThickness: 22, insideDiameter: 2400 });
+    expect(bindCircWeld(circWeld('c2'), vessel).geometry).toMatchObject({ shellThickness: 22, insideDiameter: 2400 });
+    expect(bindCircWeld(circWeld('c1', { diameter: true }), vessel).geometry).toMatchObject({ shellThickness: 22, insideDiameter: 1000 });
+  });
+
+  it('rebinds every module when the vessel changes', () => {
+    const modules = applyVesselDefinition({
+      longwelds: { welds: [longWeld('c1'), longWeld()] },
+      circwelds: { welds: [circWeld('c1', { thickness: true })] },
+    }, { ...vessel, insideDiameter: 3000 });
+
+    expect(modules.nozzles).toBeUndefined();
+    expect((modules.longwelds as { welds: LongWeldItem[] }).welds.map(w => w.geometry.shellThickness)).toEqual([16, 10]);
+    expect((modules.circwelds as { welds: CircWeldItem[] }).welds[0].geometry).toMatchObject({ shellThickness: 10, insideDiameter: 3000 });
+  });
+
+  it('resummarizes the bound modules from the rebound items', () => {
+    const coverage = getNdeCoverage();
+    const summarize = (modules: Parameters<typeof summarizeBoundModules>[0]) =>
+      summarizeBoundModules(modules, createEquipment('V1').summaries, DEFAULT_SETTINGS, coverage, { presets: [] });
+
+    const before = summarize({ longwelds: { welds: [longWeld('c1')] } });
+    const thicker = summarize(applyVesselDefinition(
+      { longwelds: { welds: [longWeld('c1')] } },
+      { ...vessel, courses: [{ ...vessel.courses[0], thickness: 40 }, vessel.courses[1]] }
+    ));
+
+    // Modules with no data keep their summary
+    expect(thicker.circwelds).toBeNull();
+    expect(thicker.nozzles).toBeNull();
+    expect(thicker.longwelds).toMatchObject({ moduleId: 'longwelds', itemCount: 1 });
+    expect(thicker.longwelds!.totalHours).toBeGreaterThan(before.longwelds!.totalHours);
+  });
+
+  it('moves an old shell layout onto the vessel', () => {
+    const equipment = createEquipment('V1');
+    const migrated = migrateEquipment({
+      ...equipment,
+      modules: { shell: { layout: { insideDiameter: 1800, tanTanLength: 5000, staggerMin: 100, courses: vessel.courses } } },
+    });
+    expect(migrated.vessel).toEqual({ ...DEFAULT_VESSEL, insideDiameter: 1800, tanTanLength: 5000, courses: vessel.courses });
+    expect(migrateEquipment({ ...equipment, vessel })).toEqual({ ...equipment, vessel });
+  });
+});
@@ -0,0 +1,133 @@
+import type { VesselDefinition, VesselCourse, VesselHead, ProjectModules, ProjectEquipment } from '../project/types';
+import type { SharedSettings } from '../shared/types';
+import type { NdeCoverage } from './nde';
+import type { LongWeldItem, LongWeldsModuleData } from '../modules/longwelds/types';
+import type { CircWeldItem, CircWeldsModuleData } from '../modules/circwelds/types';
+import type { NozzleItem, NozzlesModuleData } from '../modules/nozzles/types';
+import type { PipeJointSettings } from '../modules/pipejoints/types';
+import { calculateLongWelds, summarizeLongWelds, migrateLongWeld } from '../modules/longwelds/summary';
+import { calculateCircWelds, summarizeCircWelds, migrateCircWeld } from '../modules/circwelds/summary';
+import { calculateNozzles, summarizeNozzles } from '../modules/nozzles/summary';
+
+/**
+ * Vessel Binding
+ *
+ * Items bound to a vessel course copy its thickness, and circ welds and
+ * placed nozzles the vessel ID, into their own geometry. Head nozzles bind
+ * to a vessel head instead. Values the item
+ * overrides are left as entered. Binding writes through to the stored items
+ * so every module reading the geometry sees the same shell. Items whose
+ * course has gone keep their last values.
+ */
+
+export function findCourse(vessel: VesselDefinition | undefined, courseId: string | undefined): VesselCourse | undefined {
+  if (!vessel || !courseId) return undefined;
+  return vessel.courses.find(c => c.id === courseId);
+}
+
+export function bindLongWeld(item: LongWeldItem, vessel: VesselDefinition | undefined): LongWeldItem {
+  const course = findCourse(vessel, item.courseId);
+  if (!course || item.overrides?.thickness) return item;
+  return { ...item, geometry: { ...item.geometry, shellThickness: course.thickness } };
+}
+
+/**
+ * A circ seam joins its course to the next one - the thicker plate governs.
+ * The last course joins a head, so only its own thickness counts.
+ */
+export function bindCircWeld(item: CircWeldItem, vessel: VesselDefinition | undefined): CircWeldItem {
+  const course = findCourse(vessel, item.courseId);
+  if (!vessel || !course) return item;
+  const next = vessel.courses[vessel.courses.indexOf(course) + 1];
+  return {
+    ...item,
+    geometry: {
+      ...item.geometry,
+      shellThickness: item.overrides?.thickness
+        ? item.geometry.shellThickness
+        : Math.max(course.thickness, next?.thickness ?? 0),
+      insideDiameter: item.overrides?.diameter ? item.geometry.insideDiameter : vessel.insideDiameter,
+    },
+  };
+}
+
+export function findHead(vessel: VesselDefinition | undefined, headId: string | undefined): VesselHead | undefined {
+  if (!vessel || !headId) return undefined;
+  return vessel.heads.find(h => h.id === headId);
+}
+
+/**
+ * A placed nozzle also takes the vessel ID for its intersection with the shell.
+ * A head nozzle takes the head thickness and type, and the vessel ID.
+ */
+export function bindNozzle(item: NozzleItem, vessel: VesselDefinition | undefined): NozzleItem {
+  if (item.parent?.component === 'head') {
+    const head = findHead(vessel, item.parent.headId);
+    if (!vessel || !head) return item;
+    return {
+      ...item,
+      geometry: item.overrides?.thickness ? item.geometry : { ...item.geometry, shellThick: head.thickness },
+      parent: {
+        ...item.parent,
+        headType: head.headType,
+        headID: item.overrides?.diameter ? item.parent.headID : vessel.insideDiameter,
+      },
+    };
+  }
+
+  const course = findCourse(vessel, item.courseId);
+  if (!vessel || !course) return item;
+  return {
+    ...item,
+    geometry: item.overrides?.thickness ? item.geometry : { ...item.geometry, shellThick: course.thickness },
+    ...(item.placement && !item.overrides?.diameter && {
+      placement: { ...item.placement, shellID: vessel.insideDiameter },
+    }),
+  };
+}
+
+/**
+ * Module data with every bound item brought in line with the vessel
+ */
+export function applyVesselDefinition(
+  modules: ProjectModules,
+  vessel: VesselDefinition
+): ProjectModules {
+  const longwelds = modules.longwelds as LongWeldsModuleData | undefined;
+  const circwelds = modules.circwelds as CircWeldsModuleData | undefined;
+  const nozzles = modules.nozzles as NozzlesModuleData | undefined;
+  return {
+    ...modules,
+    ...(longwelds && { longwelds: { ...longwelds, welds: longwelds.welds.map(w => bindLongWeld(w, vessel)) } }),
+    ...(circwelds && { circwelds: { ...circwelds, welds: circwelds.welds.map(w => bindCircWeld(w, vessel)) } }),
+    ...(nozzles && { nozzles: { ...nozzles, nozzles: nozzles.nozzles.map(n => bindNozzle(n, vessel)) } }),
+  };
+}
+
+/**
+ * Summaries of the bound modules recalculated from their items, so a course or
+ * diameter change reaches the Summary and Offer totals before the modules open
+ */
+export function summarizeBoundModules(
+  modules: ProjectModules,
+  summaries: ProjectEquipment['summaries'],
+  settings: SharedSettings,
+  ndeCoverage: NdeCoverage,
+  pipeJointSettings: PipeJointSettings
+): ProjectEquipment['summaries'] {
+  const longwelds = modules.longwelds as LongWeldsModuleData | undefined;
+  const circwelds = modules.circwelds as CircWeldsModuleData | undefined;
+  const nozzles = modules.nozzles as NozzlesModuleData | undefined;
+  return {
+    ...summaries,
+    ...(longwelds && {
+      longwelds: summarizeLongWelds(calculateLongWelds(longwelds.welds.map(migrateLongWeld), settings, ndeCoverage)),
+    }),
+    ...(circwelds && {
+      circwelds: summarizeCircWelds(calculateCircWelds(circwelds.welds.map(migrateCircWeld), settings, ndeCoverage)),
+    }),
+    ...(nozzles && {
+      nozzles: summarizeNozzles(calculateNozzles(nozzles.nozzles, settings, pipeJointSettings, ndeCoverage)),
+    }),
+  };
+}
@@ -1,6 +1,7 @@
 import { useState, useMemo, useCallback, useEffect } from 'react';
-import type { WeldProcess } from '../../shared/types';
-import { NumberInput } from '../../shared/components';
+import type { WeldProcess, PreheatInput } from '../../shared/types';
+import { NumberInput, WpsSelector, PreheatPanel, CourseSelector } from '../../shared/components';
+import type { CourseBinding } from '../../shared/components/CourseSelector';
 import { useProject } from '../../project';
 import type { 
   CircWeldItem, 
@@ -14,8 +15,11 @@ import {
   DEFAULT_CIRC_WELD_ACTIVITY_TIMES,
   DEFAULT_CIRC_WELD_LAYERS,
 } from './types';
-import { calculateCircWeld, calculateCircWeldActivityCodes } from './engine';
+import { calculateCircWelds, summarizeCircWelds, migrateCircWeld } from './summary';
 import { CircWeldDiagram } from './components/CircWeldDiagram';
+import { getNdeCoverage } from '../offer/types';
+import type { OfferData } from '../offer/types';
+import { bindCircWeld, findCourse } from '../../engine/vessel';
 import './CircWeldsModule.css';
 
 const PROCESSES: Exclude<WeldProcess, 'Skip'>[] = ['GTAW', 'SMAW', 'FCAW', 'GMAW', 'SAW'];
@@ -38,23 +42,15 @@ function createNewCircWeld(tag: string): CircWeldItem {
   };
 }
 
-// Ensure weld has all required activity time fields (migration for older data)
-function migrateWeld(weld: CircWeldItem): CircWeldItem {
-  return {
-    ...weld,
-    activityTimes: {
-      ...DEFAULT_CIRC_WELD_ACTIVITY_TIMES,
-      ...weld.activityTimes,
-    },
-  };
-}
-
 export function CircWeldsModule() {
-  const { getModuleData, setModuleData, updateModuleSummary, settings } = useProject();
+  const { getModuleData, setModuleData, updateModuleSummary, settings, currentEquipment } = useProject();
+  const vessel = currentEquipment?.vessel;
   
   // Load module data from project and migrate if needed
   const moduleData = getModuleData<CircWeldsModuleData>('circwelds');
-  const welds = (moduleData?.welds || []).map(migrateWeld);
+  const welds = (moduleData?.welds || []).map(migrateCircWeld);
+  const offerNde = getModuleData<OfferData>('offer')?.nde;
+  const ndeCoverage = useMemo(() => getNdeCoverage(offerNde), [offerNde]);
 
   const [activeTab, setActiveTab] = useState<TabType>('list');
   const [selectedWeldId, setSelectedWeldId] = useState<string | null>(welds[0]?.id || null);
@@ -72,47 +68,17 @@ export function CircWeldsModule() {
     setModuleData<CircWeldsModuleData>('circwelds', { welds: newWelds });
   }, [welds, setModuleData]);
 
-  const weldsWithResults = useMemo(() => {
-    return welds.map(weld => {
-      const results = calculateCircWeld(weld, settings);
-      const activityCodes = calculateCircWeldActivityCodes(
-        weld.activityTimes, 
-        results, 
-        weld.outsideProcess,
-        weld.geometry.shellThickness
-      );
-      return { ...weld, results, activityCodes };
-    });
-  }, [welds, settings]);
+  const weldsWithResults = useMemo(() => calculateCircWelds(welds, settings, ndeCoverage), [welds, settings, ndeCoverage]);
 
   useEffect(() => {
-    const itemCount = weldsWithResults.reduce((sum, w) => sum + w.quantity, 0);
-    const totalHours = weldsWithResults.reduce((sum, w) => {
-      const codes = w.activityCodes;
-      return sum + (Object.values(codes).reduce((s, v) => s + v, 0) * w.quantity);
-    }, 0);
-    
-    const activityBreakdown: Record<string, number> = {};
-    weldsWithResults.forEach(w => {
-      const qty = w.quantity;
-      Object.entries(w.activityCodes).forEach(([code, hours]) => {
-        activityBreakdown[code] = (activityBreakdown[code] || 0) + hours * qty;
-      });
-    });
-    
-    updateModuleSummary('circwelds', { 
-      moduleId: 'circwelds',
-      moduleName: 'Circ Welds',
-      itemCount, 
-      totalHours,
-      activityBreakdown,
-    });
+    updateModuleSummary('circwelds', summarizeCircWelds(weldsWithResults));
   }, [weldsWithResults, updateModuleSummary]);
 
   const currentWeld = useMemo(() => 
     weldsWithResults.find(w => w.id === selectedWeldId) || weldsWithResults[0],
     [weldsWithResults, selectedWeldId]
   );
+  const courseBound = !!findCourse(vessel, currentWeld?.courseId);
 
   const moduleTotals = useMemo(() => {
     const totals: CircWeldActivityCodes = { CRANE: 0, FCIRC: 0, PREHEAT: 0, WECIRC: 0, BACMIL: 0, SUBCIRC: 0, MANCIR: 0, NDE: 0 };
@@ -145,6 +111,25 @@ export function CircWeldsModule() {
     });
   };
 
+  // Change WPS - the current prep is kept on the weld so it carries over when the WPS is removed
+  const setProcedure = (wpsNumber: string | undefined) => {
+    if (!currentWeld) return;
+    const { results, activityCodes, procedure, preheatResult, ndeResult, ...weld } = currentWeld;
+    updateWeld(currentWeld.id, { ...weld, wpsNumber });
+  };
+
+  // Bind to a vessel course - the shell is taken from the vessel straight away
+  const setCourse = (binding: CourseBinding) => {
+    if (!currentWeld) return;
+    const bound = bindCircWeld({ ...currentWeld, ...binding }, vessel);
+    updateWeld(currentWeld.id, { ...binding, geometry: bound.geometry });
+  };
+
+  const setPreheat = (preheat: PreheatInput) => {
+    if (!currentWeld) return;
+    updateWeld(currentWeld.id, { preheat });
+  };
+
   const updateActivity = (field: keyof CircWeldActivityTimes, value: number) => {
     if (!currentWeld) return;
     updateWeld(currentWeld.id, {
@@ -356,95 +341,133 @@ export function CircWeldsModule() {
               </select>
             </div>
 
+            <section className="section">
+              <h3>📋 Weld Procedure</h3>
+              <WpsSelector
+                value={currentWeld.wpsNumber}
+                procedures={settings.weldProcedures}
+                thickness={currentWeld.geometry.shellThickness}
+                onChange={setProcedure}
+              />
+            </section>
+
+            <section className="section">
+              <h3>📐 Vessel Course</h3>
+              <CourseSelector
+                value={{ courseId: currentWeld.courseId, overrides: currentWeld.overrides }}
+                courses={vessel?.courses ?? []}
+                diameter
+                onChange={setCourse}
+              />
+            </section>
+
+            <section className="section">
+              <h3>🔥 Preheat</h3>
+              <PreheatPanel value={currentWeld.preheat} result={currentWeld.preheatResult} onChange={setPreheat} />
+            </section>
+
             <section className="section">
               <h3>📏 Dimensions</h3>
               <div className="input-row">
                 <div className="input-group">
                   <label>Shell Thk (mm)</label>
-                  <NumberInput value={currentWeld.geometry.shellThickness} onChange={(val) => updateGeometry('shellThickness', val)} />
+                  <NumberInput
+                    value={currentWeld.geometry.shellThickness}
+                    disabled={courseBound && !currentWeld.overrides?.thickness}
+                    onChange={(val) => updateGeometry('shellThickness', val)}
+                  />
                 </div>
                 <div className="input-group">
                   <label>Inside Dia (mm)</label>
-                  <NumberInput value={currentWeld.geometry.insideDiameter} step={100} onChange={(val) => updateGeometry('insideDiameter', val)} />
+                  <NumberInput
+                    value={currentWeld.geometry.insideDiameter}
+                    step={100}
+                    disabled={courseBound && !currentWeld.overrides?.diameter}
+                    onChange={(val) => updateGeometry('insideDiameter', val)}
+                  />
                 </div>
               </div>
               <div className="circ-display">
                 Circumference: {((Math.PI * currentWeld.geometry.insideDiameter) / 1000).toFixed(2)}m
               </div>
-              <div className="input-row">
-                <div className="input-group">
-                  <label>Root Gap</label>
-                  <NumberInput value={currentWeld.geometry.rootGap} step={0.5} onChange={(val) => updateGeometry('rootGap', val)} />
-                </div>
-                <div className="input-group">
-                  <label>Root Face</label>
-                  <NumberInput value={currentWeld.geometry.rootFace} step={0.5} onChange={(val) => updateGeometry('rootFace', val)} />
+              <fieldset className="wps-locked" disabled={!!currentWeld.procedure}>
+                <div className="input-row">
+                  <div className="input-group">
+                    <label>Root Gap</label>
+                    <NumberInput value={currentWeld.geometry.rootGap} step={0.5} onChange={(val) => updateGeometry('rootGap', val)} />
+                  </div>
+                  <div className="input-group">
+                    <label>Root Face</label>
+                    <NumberInput value={currentWeld.geometry.rootFace} step={0.5} onChange={(val) => updateGeometry('rootFace', val)} />
+                  </div>
                 </div>
-              </div>
+              </fieldset>
             </section>
 
-            <section className="section">
-              <h3>🔧 Joint Configuration</h3>
-              <div className="input-group">
-                <label>Joint Type</label>
-                <select value={currentWeld.geometry.jointType} onChange={(e) => updateGeometry('jointType', e.target.value)}>
-                  <option value="singlevee">Single Vee</option>
-                  <option value="doublevee">Double Vee</option>
-                </select>
-              </div>
-              <div className="input-row">
+            <fieldset className="wps-locked" disabled={!!currentWeld.procedure}>
+              <section className="section">
+                <h3>🔧 Joint Configuration</h3>
                 <div className="input-group">
-                  <label>1st Side Angle (°)</label>
-                  <NumberInput value={currentWeld.geometry.insideBevelAngle} onChange={(val) => updateGeometry('insideBevelAngle', val)} />
+                  <label>Joint Type</label>
+                  <select value={currentWeld.geometry.jointType} onChange={(e) => updateGeometry('jointType', e.target.value)}>
+                    <option value="singlevee">Single Vee</option>
+                    <option value="doublevee">Double Vee</option>
+                  </select>
+                </div>
+                <div className="input-row">
+                  <div className="input-group">
+                    <label>1st Side Angle (°)</label>
+                    <NumberInput value={currentWeld.geometry.insideBevelAngle} onChange={(val) => updateGeometry('insideBevelAngle', val)} />
+                  </div>
+                  {currentWeld.geometry.jointType.includes('double') && (
+                    <div className="input-group">
+                      <label>2nd Side Angle (°)</label>
+                      <NumberInput value={currentWeld.geometry.outsideBevelAngle} onChange={(val) => updateGeometry('outsideBevelAngle', val)} />
+                    </div>
+                  )}
                 </div>
                 {currentWeld.geometry.jointType.includes('double') && (
                   <div className="input-group">
-                    <label>2nd Side Angle (°)</label>
-                    <NumberInput value={currentWeld.geometry.outsideBevelAngle} onChange={(val) => updateGeometry('outsideBevelAngle', val)} />
+                    <label>1st Side Split (%)</label>
+                    <NumberInput value={currentWeld.geometry.splitRatio} min={40} max={80} step={5} onChange={(val) => updateGeometry('splitRatio', val)} />
                   </div>
                 )}
-              </div>
-              {currentWeld.geometry.jointType.includes('double') && (
-                <div className="input-group">
-                  <label>1st Side Split (%)</label>
-                  <NumberInput value={currentWeld.geometry.splitRatio} min={40} max={80} step={5} onChange={(val) => updateGeometry('splitRatio', val)} />
-                </div>
-              )}
-            </section>
+              </section>
+
+              <section className="section">
+                <h3>🔥 1st Side Weld Processes</h3>
+                <div className="groove-info">Root: {grooveInfo.rootWidth.toFixed(0)}mm → Top: {grooveInfo.topWidth.toFixed(0)}mm</div>
+                <div className="layers-header"><span>Process</span><span>Switch @</span><span></span></div>
+                {currentWeld.insideLayers.map((layer, index) => (
+                  <div key={index} className="layer-row">
+                    <select value={layer.process} onChange={(e) => updateInsideLayer(index, 'process', e.target.value)}>
+                      {PROCESSES.map((p) => <option key={p} value={p}>{p}</option>)}
+                    </select>
+                    <div className="width-input">
+                      <NumberInput value={layer.minWidth} min={0} step={1} onChange={(val) => updateInsideLayer(index, 'minWidth', val)} disabled={index === 0} />
+                      <span className="unit-label">mm</span>
+                    </div>
+                    <button className="btn-remove" onClick={() => removeInsideLayer(index)} disabled={currentWeld.insideLayers.length <= 1}>×</button>
+                  </div>
+                ))}
+                <button className="btn-add-layer" onClick={addInsideLayer}>+ Add Process</button>
+              </section>
 
-            <section className="section">
-              <h3>🔥 1st Side Weld Processes</h3>
-              <div className="groove-info">Root: {grooveInfo.rootWidth.toFixed(0)}mm → Top: {grooveInfo.topWidth.toFixed(0)}mm</div>
-              <div className="layers-header"><span>Process</span><span>Switch @</span><span></span></div>
-              {currentWeld.insideLayers.map((layer, index) => (
-                <div key={index} className="layer-row">
-                  <select value={layer.process} onChange={(e) => updateInsideLayer(index, 'process', e.target.value)}>
+              <section className="section">
+                <h3>🔄 2nd Side Weld</h3>
+                <div className="input-group">
+                  <label>2nd Side Process</label>
+                  <select value={currentWeld.outsideProcess} onChange={(e) => updateWeld(currentWeld.id, { outsideProcess: e.target.value as Exclude<WeldProcess, 'Skip'> })}>
                     {PROCESSES.map((p) => <option key={p} value={p}>{p}</option>)}
                   </select>
-                  <div className="width-input">
-                    <NumberInput value={layer.minWidth} min={0} step={1} onChange={(val) => updateInsideLayer(index, 'minWidth', val)} disabled={index === 0} />
-                    <span className="unit-label">mm</span>
-                  </div>
-                  <button className="btn-remove" onClick={() => removeInsideLayer(index)} disabled={currentWeld.insideLayers.length <= 1}>×</button>
                 </div>
-              ))}
-              <button className="btn-add-layer" onClick={addInsideLayer}>+ Add Process</button>
-            </section>
-
-            <section className="section">
-              <h3>🔄 2nd Side Weld</h3>
-              <div className="input-group">
-                <label>2nd Side Process</label>
-                <select value={currentWeld.outsideProcess} onChange={(e) => updateWeld(currentWeld.id, { outsideProcess: e.target.value as Exclude<WeldProcess, 'Skip'> })}>
-                  {PROCESSES.map((p) => <option key={p} value={p}>{p}</option>)}
-                </select>
-              </div>
-              <p className="side-note">
-                {currentWeld.geometry.jointType === 'doublevee' 
-                  ? 'Full weld after back-gouge' 
-                  : 'Back weld / sealing pass after back-gouge'}
-              </p>
-            </section>
+                <p className="side-note">
+                  {currentWeld.geometry.jointType === 'doublevee' 
+                    ? 'Full weld after back-gouge' 
+                    : 'Back weld / sealing pass after back-gouge'}
+                </p>
+              </section>
+            </fieldset>
           </div>
 
           <div className="editor-panel center">
@@ -505,7 +528,7 @@ export function CircWeldsModule() {
                 </div>
                 <div className="act-row">
                   <label>Pre-heat 1st Side</label>
-                  <NumberInput step={0.25} value={currentWeld.activityTimes.preheat1stSide} onChange={(v) => updateActivity('preheat1stSide', v)} />
+                  <NumberInput step={0.25} value={currentWeld.activityTimes.preheat1stSide} disabled={!!currentWeld.preheatResult} onChange={(v) => updateActivity('preheat1stSide', v)} />
                 </div>
                 <div className="act-row calc">
                   <label>Weld 1st Side</label>
@@ -517,7 +540,7 @@ export function CircWeldsModule() {
                 </div>
                 <div className="act-row">
                   <label>Pre-heat 2nd Side</label>
-                  <NumberInput step={0.25} value={currentWeld.activityTimes.preheat2ndSide} onChange={(v) => updateActivity('preheat2ndSide', v)} />
+                  <NumberInput step={0.25} value={currentWeld.activityTimes.preheat2ndSide} disabled={!!currentWeld.preheatResult} onChange={(v) => updateActivity('preheat2ndSide', v)} />
                 </div>
                 <div className="act-row calc">
                   <label>Weld 2nd Side</label>
@@ -525,7 +548,7 @@ export function CircWeldsModule() {
                 </div>
                 <div className="act-row">
                   <label>NDE</label>
-                  <NumberInput step={0.25} value={currentWeld.activityTimes.nde} onChange={(v) => updateActivity('nde', v)} />
+                  <NumberInput step={0.25} value={currentWeld.activityTimes.nde} disabled={!!currentWeld.ndeResult} onChange={(v) => updateActivity('nde', v)} />
                 </div>
               </div>
             </section>
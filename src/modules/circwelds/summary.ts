@@ -0,0 +1,69 @@
+import type { ModuleSummary, SharedSettings } from '../../shared/types';
+import type { NdeCoverage } from '../../engine/nde';
+import { sumItemDeposits } from '../../engine/consumables';
+import { sumItemNde } from '../../engine/nde';
+import { resolveProcedure } from '../../engine/procedures';
+import { calculateCircWeld, calculateCircWeldActivityCodes, applyCircWeldProcedure, applyCircWeldPreheat, applyCircWeldNde } from './engine';
+import type { CircWeldItem } from './types';
+import { DEFAULT_CIRC_WELD_ACTIVITY_TIMES } from './types';
+
+// Ensure weld has all required activity time fields (migration for older data)
+export function migrateCircWeld(weld: CircWeldItem): CircWeldItem {
+  return {
+    ...weld,
+    activityTimes: {
+      ...DEFAULT_CIRC_WELD_ACTIVITY_TIMES,
+      ...weld.activityTimes,
+    },
+  };
+}
+
+/**
+ * Calculate every weld - WPS, results, preheat, NDE and activity codes
+ */
+export function calculateCircWelds(welds: CircWeldItem[], settings: SharedSettings, ndeCoverage: NdeCoverage) {
+  return welds.map(item => {
+    // WPS prep and processes replace the weld's own
+    const { item: weld, settings: weldSettings, procedure } = resolveProcedure(item, settings, applyCircWeldProcedure);
+    const results = calculateCircWeld(weld, weldSettings);
+    const { activityTimes: heated, preheat: preheatResult } = applyCircWeldPreheat(weld, results, weldSettings);
+    const { activityTimes, nde: ndeResult } = applyCircWeldNde(heated, results, ndeCoverage, weldSettings);
+    const activityCodes = calculateCircWeldActivityCodes(
+      activityTimes, 
+      results, 
+      weld.outsideProcess,
+      weld.geometry.shellThickness
+    );
+    return { ...weld, activityTimes, results, activityCodes, procedure, preheatResult, ndeResult };
+  });
+}
+
+/**
+ * Module summary for calculated welds - hours, codes, weld metal and NDE, all × quantity
+ */
+export function summarizeCircWelds(weldsWithResults: ReturnType<typeof calculateCircWelds>): ModuleSummary {
+  const itemCount = weldsWithResults.reduce((sum, w) => sum + w.quantity, 0);
+  const totalHours = weldsWithResults.reduce((sum, w) => {
+    const codes = w.activityCodes;
+    return sum + (Object.values(codes).reduce((s, v) => s + v, 0) * w.quantity);
+  }, 0);
+  
+  // Build activity breakdown
+  const activityBreakdown: Record<string, number> = {};
+  weldsWithResults.forEach(w => {
+    const qty = w.quantity;
+    Object.entries(w.activityCodes).forEach(([code, hours]) => {
+      activityBreakdown[code] = (activityBreakdown[code] || 0) + hours * qty;
+    });
+  });
+  
+  return { 
+    moduleId: 'circwelds',
+    moduleName: 'Circ Welds',
+    itemCount, 
+    totalHours,
+    activityBreakdown,
+    deposits: sumItemDeposits(weldsWithResults),
+    nde: sumItemNde(weldsWithResults),
+  };
+}
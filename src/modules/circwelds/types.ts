@@ -1,4 +1,5 @@
-import type { WeldProcess } from '../../shared/types';
+import type { WeldProcess, DepositByProcess, PreheatInput } from '../../shared/types';
+import type { VesselOverrides } from '../../project/types';
 
 /**
  * Circ Weld (Circumferential Seam) Types
@@ -27,6 +28,10 @@ export interface CircWeldItem {
   id: string;
   tag: string;                 // e.g., "S1-S2 Circ", "Course 1-2"
   quantity: number;            // Number of identical welds
+  wpsNumber?: string;          // WPS reference - prep and processes come from the library
+  preheat?: PreheatInput;      // Calculated preheat - hand-entered hours when absent
+  courseId?: string;           // Vessel course this seam follows - thickness and ID come from the vessel
+  overrides?: VesselOverrides; // Values kept as entered instead of from the vessel
   
   geometry: CircWeldGeometry;
   
@@ -80,6 +85,9 @@ export interface CircWeldResults {
     outsideTotalTime: number;
     totalWeldTime: number;
   };
+
+  // Weld metal by process (consumables)
+  deposits: DepositByProcess;
 }
 
 export interface CircWeldActivityCodes {
@@ -0,0 +1,178 @@
+import { useMemo, useEffect } from 'react';
+import { NumberInput } from '../../shared/components';
+import { useProject } from '../../project';
+import { formatMoney } from '../../engine/costing';
+import type { LongWeldsModuleData } from '../longwelds/types';
+import type { CircWeldsModuleData } from '../circwelds/types';
+import type { HeadsModuleData } from '../heads/types';
+import type { NozzlesModuleData } from '../nozzles/types';
+import type { OfferData } from '../offer/types';
+import type { CoatingsInput, CoatingSide, CoatingsModuleData } from './types';
+import { DEFAULT_COATINGS_INPUT } from './types';
+import { calculateCoatings, getCoatingAreas } from './engine';
+import { CoatingAreaTable } from './components/CoatingAreaTable';
+import './CoatingsModule.css';
+
+export function CoatingsModule() {
+  const { currentEquipment, getModuleData, setModuleData, updateModuleSummary, settings } = useProject();
+
+  const coatings: CoatingsInput = { ...DEFAULT_COATINGS_INPUT, ...getModuleData<CoatingsModuleData>('coatings')?.coatings };
+  const longWelds = getModuleData<LongWeldsModuleData>('longwelds')?.welds;
+  const circWelds = getModuleData<CircWeldsModuleData>('circwelds')?.welds;
+  const heads = getModuleData<HeadsModuleData>('heads')?.items;
+  const nozzles = getModuleData<NozzlesModuleData>('nozzles')?.nozzles;
+  const surfaceProtection = getModuleData<OfferData>('offer')?.surfaceProtection;
+
+  const updateSide = (side: 'external' | 'internal', updates: Partial<CoatingSide>) => {
+    setModuleData<CoatingsModuleData>('coatings', {
+      coatings: { ...coatings, [side]: { ...coatings[side], ...updates } },
+    });
+  };
+
+  // A blank system takes the paint spec from the offer
+  const offerSystems = useMemo(() => ({
+    external: surfaceProtection?.paintSpec ?? '',
+    internal: surfaceProtection?.internalProtection ?? '',
+  }), [surfaceProtection?.paintSpec, surfaceProtection?.internalProtection]);
+
+  // Shell and heads from the vessel definition, else guessed from the weld modules
+  const definition = currentEquipment?.vessel;
+  const areas = useMemo(
+    () => getCoatingAreas(longWelds || [], circWelds || [], heads || [], nozzles || [], coatings.nozzleProjection, definition),
+    [longWelds, circWelds, heads, nozzles, coatings.nozzleProjection, definition]
+  );
+
+  const result = useMemo(
+    () => calculateCoatings(coatings, areas, offerSystems, settings),
+    [coatings.external, coatings.internal, areas, offerSystems, settings]
+  );
+
+  // Update module summary - paint and blast media as a direct cost
+  useEffect(() => {
+    updateModuleSummary('coatings', {
+      moduleId: 'coatings',
+      moduleName: 'Coatings',
+      itemCount: result ? 1 : 0,
+      totalHours: result?.labourHours ?? 0,
+      activityBreakdown: result ? { BLAST: result.blastHours, PAINT: result.paintHours } : {},
+      directCost: result?.directCost ?? 0,
+    });
+  }, [result, updateModuleSummary]);
+
+  const renderSide = (side: 'external' | 'internal', title: string) => {
+    const input = coatings[side];
+    return (
+      <section className="section">
+        <h3>{title}</h3>
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={input.blast}
+            onChange={(e) => updateSide(side, { blast: e.target.checked })}
+          />
+          Abrasive blast
+        </label>
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={input.system !== null}
+            onChange={(e) => updateSide(side, { system: e.target.checked ? offerSystems[side] : null })}
+          />
+          Coating system
+        </label>
+        {input.system !== null ? (
+          <textarea
+            value={input.system}
+            placeholder="e.g. 1 coat IOZ Primer to 75um DFT & 1 coat Epoxy to 125um DFT"
+            onChange={(e) => updateSide(side, { system: e.target.value })}
+          />
+        ) : (
+          <p className="side-note">From offer: {offerSystems[side] || 'none'}</p>
+        )}
+      </section>
+    );
+  };
+
+  const totalArea = (result?.external?.area ?? 0) + (result?.internal?.area ?? 0);
+
+  return (
+    <div className="coatings-module">
+      <div className="module-toolbar">
+        <div className="toolbar-right">
+          <span className="stats">
+            {result ? `${totalArea.toFixed(1)} m² • ${result.labourHours.toFixed(1)} hrs` : 'No coating'}
+          </span>
+        </div>
+      </div>
+
+      <div className="editor-grid">
+        <div className="editor-panel">
+          {renderSide('external', '🎨 External')}
+          {renderSide('internal', '🛢 Internal')}
+
+          <section className="section">
+            <h3>📐 Nozzles</h3>
+            <div className="input-group">
+              <label>Neck Projection (mm)</label>
+              <NumberInput
+                value={coatings.nozzleProjection}
+                step={10}
+                min={0}
+                onChange={(v) => setModuleData<CoatingsModuleData>('coatings', { coatings: { ...coatings, nozzleProjection: v } })}
+              />
+            </div>
+          </section>
+        </div>
+
+        <div className="editor-panel center">
+          {areas.some(a => a.external > 0) ? (
+            <>
+              <CoatingAreaTable areas={areas} result={result} />
+              <p className="diagram-caption">Areas from the shell courses, heads and nozzle necks - openings are not deducted</p>
+            </>
+          ) : (
+            <p className="diagram-caption">Add long welds with circ welds or heads to measure the vessel surface</p>
+          )}
+        </div>
+
+        <div className="editor-panel">
+          {result && (
+            <>
+              <div className="result-card">
+                <h3>BLAST + PAINT</h3>
+                <div className="value">{result.labourHours.toFixed(1)}</div>
+                <div className="unit">hours</div>
+              </div>
+
+              <div className="results-summary">
+                <div className="result-row">
+                  <span>Blast</span>
+                  <span>{result.blastHours.toFixed(1)} hrs</span>
+                </div>
+                <div className="result-row">
+                  <span>Paint</span>
+                  <span>{result.paintHours.toFixed(1)} hrs</span>
+                </div>
+                <div className="result-row">
+                  <span>Paint Volume</span>
+                  <span>{((result.external?.litres ?? 0) + (result.internal?.litres ?? 0)).toFixed(0)} L</span>
+                </div>
+                <div className="result-row">
+                  <span>Blast Media</span>
+                  <span>{((result.external?.mediaTonnes ?? 0) + (result.internal?.mediaTonnes ?? 0)).toFixed(2)} t</span>
+                </div>
+                <div className="result-row highlight">
+                  <span>Paint + Media</span>
+                  <span>{formatMoney(result.directCost)}</span>
+                </div>
+              </div>
+            </>
+          )}
+          {result?.warnings.map((warning, i) => (
+            <p key={i} className="coatings-warning">⚠ {warning}</p>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import type { CoatingArea, CoatingsResult, CoatingSideResult } from '../types';
+
+interface CoatingAreaTableProps {
+  areas: CoatingArea[];
+  result: CoatingsResult | null;
+}
+
+/**
+ * Surface areas by part of the vessel, then the coats on each side
+ */
+export function CoatingAreaTable({ areas, result }: CoatingAreaTableProps) {
+  const sides = [
+    { label: 'External', side: result?.external },
+    { label: 'Internal', side: result?.internal },
+  ].filter((s): s is { label: string; side: CoatingSideResult } => !!s.side);
+
+  return (
+    <>
+      <table className="coatings-table">
+        <thead>
+          <tr>
+            <th>Surface</th>
+            <th>External m²</th>
+            <th>Internal m²</th>
+          </tr>
+        </thead>
+        <tbody>
+          {areas.map(area => (
+            <tr key={area.label}>
+              <td>{area.label}</td>
+              <td>{area.external.toFixed(2)}</td>
+              <td>{area.internal.toFixed(2)}</td>
+            </tr>
+          ))}
+          <tr className="total">
+            <td>Total</td>
+            <td>{areas.reduce((sum, a) => sum + a.external, 0).toFixed(2)}</td>
+            <td>{areas.reduce((sum, a) => sum + a.internal, 0).toFixed(2)}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      {sides.length > 0 && (
+        <table className="coatings-table">
+          <thead>
+            <tr>
+              <th>Coat</th>
+              <th>DFT µm</th>
+              <th>Litres</th>
+              <th>Hours</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sides.map(({ label, side }) => [
+              side.mediaTonnes > 0 && (
+                <tr key={`${label}-blast`}>
+                  <td>{label}: Blast ({side.mediaTonnes.toFixed(2)} t media)</td>
+                  <td>-</td>
+                  <td>-</td>
+                  <td>{side.blastHours.toFixed(1)}</td>
+                </tr>
+              ),
+              ...side.coats.map((coat, i) => (
+                <tr key={`${label}-${i}`}>
+                  <td>{label}: {coat.coats > 1 ? `${coat.coats} × ` : ''}{coat.product}</td>
+                  <td>{coat.dft}</td>
+                  <td>{coat.litres.toFixed(1)}</td>
+                  <td>{coat.hours.toFixed(1)}</td>
+                </tr>
+              )),
+            ])}
+          </tbody>
+        </table>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { parseCoatingSystem, calculateCoatings, getCoatingAreas } from './engine';
+import { DEFAULT_COATINGS_INPUT } from './types';
+import type { CoatingArea } from './types';
+import { DEFAULT_SETTINGS } from '../../shared/settings/defaults';
+import { DEFAULT_VESSEL, DEFAULT_VESSEL_COURSE } from '../../project/types';
+
+const SETTINGS = {
+  ...DEFAULT_SETTINGS,
+  coatings: {
+    blastRate: 10,
+    paintRate: 25,
+    coatSetupHours: 0.5,
+    internalFactor: 150,
+    mediaKgPerM2: 30,
+    mediaCost: 600,
+    volumeSolids: 50,
+    lossPct: 20,
+    paintCost: 40,
+  },
+};
+
+const AREAS: CoatingArea[] = [
+  { label: 'Shell courses', external: 80, internal: 75 },
+  { label: 'Heads', external: 20, internal: 19 },
+];
+
+const OFFER = { external: '1 coat IOZ Primer to 75um DFT & 1 coat Epoxy to 125um DFT', internal: '' };
+
+describe('Coatings', () => {
+  it('parses coats and DFT from a coating system', () => {
+    expect(parseCoatingSystem('1 coat IOZ Primer to 75um DFT & 2 coats Epoxy to 125µm DFT')).toEqual({
+      coats: [
+        { product: 'IOZ Primer', coats: 1, dft: 75 },
+        { product: 'Epoxy', coats: 2, dft: 125 },
+      ],
+      unread: [],
+    });
+    expect(parseCoatingSystem('Polyurethane 50 microns, then galvanised')).toEqual({
+      coats: [{ product: 'Polyurethane', coats: 1, dft: 50 }],
+      unread: ['galvanised'],
+    });
+  });
+
+  it('measures the shell courses and heads of the vessel definition', () => {
+    const definition = {
+      ...DEFAULT_VESSEL,
+      insideDiameter: 2000,
+      courses: [{ ...DEFAULT_VESSEL_COURSE, id: 'c1', tag: 'C1', width: 2000, thickness: 20 }],
+      heads: [{ id: 'h1', tag: 'H1', headType: 'hemispherical' as const, thickness: 20, straightFlange: 0 }],
+    };
+    const [shell, heads, nozzles] = getCoatingAreas([], [], [], [], 150, definition);
+
+    expect(shell.internal).toBeCloseTo(Math.PI * 2000 * 2000 / 1e6, 6);
+    expect(shell.external).toBeCloseTo(Math.PI * 2040 * 2000 / 1e6, 6);
+    expect(heads.internal).toBeCloseTo(2 * Math.PI * 1000 ** 2 / 1e6, 6);
+    expect(heads.external).toBeCloseTo(2 * Math.PI * 1020 ** 2 / 1e6, 6);
+    expect(nozzles.internal).toBe(0);
+  });
+
+  it('costs blast, paint and media on the external surface', () => {
+    const result = calculateCoatings(DEFAULT_COATINGS_INPUT, AREAS, OFFER, SETTINGS)!;
+    const spread = 50 * 10 * 0.8;
+
+    expect(result.internal).toBeNull();
+    expect(result.external!.area).toBe(100);
+    expect(result.external!.litres).toBeCloseTo(100 * 75 / spread + 100 * 125 / spread, 6);
+    expect(result.external!.mediaTonnes).toBe(3);
+    expect(result.blastHours).toBe(10);
+    expect(result.paintHours).toBeCloseTo(2 * (0.5 + 100 / 25), 6);
+    expect(result.directCost).toBeCloseTo(result.external!.litres * 40 + 3 * 600, 6);
+  });
+
+  it('slows internal work by the internal factor', () => {
+    const input = { ...DEFAULT_COATINGS_INPUT, internal: { blast: true, system: 'Phenolic Epoxy 300um' } };
+    const result = calculateCoatings(input, AREAS, OFFER, SETTINGS)!;
+
+    expect(result.internal!.area).toBe(94);
+    expect(result.internal!.blastHours).toBeCloseTo(94 / 10 * 1.5, 6);
+    expect(result.internal!.paintHours).toBeCloseTo(0.5 + 94 / 25 * 1.5, 6);
+  });
+
+  it('warns about unread coats and returns null with nothing to coat', () => {
+    const input = { ...DEFAULT_COATINGS_INPUT, external: { blast: false, system: 'Hot dip galvanise' } };
+    expect(calculateCoatings(input, AREAS, OFFER, SETTINGS)).toBeNull();
+    expect(calculateCoatings(DEFAULT_COATINGS_INPUT, [], OFFER, SETTINGS)).toBeNull();
+
+    const blasted = calculateCoatings({ ...input, external: { blast: true, system: 'Hot dip galvanise' } }, AREAS, OFFER, SETTINGS)!;
+    expect(blasted.warnings).toEqual(['External: no DFT in "Hot dip galvanise" - not costed']);
+    expect(blasted.paintHours).toBe(0);
+  });
+});
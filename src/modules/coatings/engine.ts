@@ -0,0 +1,180 @@
+import type { CoatingSettings, SharedSettings } from '../../shared/types';
+import type { LongWeldItem } from '../longwelds/types';
+import type { CircWeldItem } from '../circwelds/types';
+import type { HeadItem } from '../heads/types';
+import { DEFAULT_HEAD_GEOMETRY } from '../heads/types';
+import type { NozzleItem } from '../nozzles/types';
+import type { VesselDefinition } from '../../project/types';
+import { getHeadDimensions } from '../heads/engine';
+import type {
+  CoatingsInput,
+  CoatingCoat,
+  CoatingArea,
+  CoatingSideResult,
+  CoatingsResult,
+} from './types';
+
+// "2 coats Epoxy to 125um DFT", "Epoxy 125µm", "1 x IOZ Primer @ 75 microns"
+const COAT_PATTERN = /^(?:(\d+)\s*(?:x\s*)?(?:coats?\s+(?:of\s+)?)?)?(.+?)\s*(?:to|@|at)?\s*(\d+(?:\.\d+)?)\s*(?:um|µm|microns?)(?:\s*DFT)?$/i;
+const SEPARATORS = /\s*(?:&|\+|;|,|\bthen\b)\s*/i;
+
+/**
+ * Coats and DFT values from a coating system description
+ *
+ * Coats are separated by "&", "+", ",", ";" or "then". Each needs a DFT in µm;
+ * the coat count defaults to one. Segments without a DFT are returned unread.
+ */
+export function parseCoatingSystem(system: string): { coats: CoatingCoat[]; unread: string[] } {
+  const coats: CoatingCoat[] = [];
+  const unread: string[] = [];
+  for (const segment of system.split(SEPARATORS).map(s => s.trim()).filter(Boolean)) {
+    const match = COAT_PATTERN.exec(segment);
+    if (!match) {
+      unread.push(segment);
+      continue;
+    }
+    const [, count, product, dft] = match;
+    coats.push({ product: product.trim(), coats: count ? parseInt(count, 10) : 1, dft: parseFloat(dft) });
+  }
+  return { coats, unread };
+}
+
+/**
+ * Surface areas from the shell courses, heads and nozzles
+ *
+ * A vessel definition with courses gives each course's width and plate
+ * thickness around the vessel ID, and one of each defined head. Without one
+ * each long weld is taken as one course of its seam length around the largest
+ * circ weld or head ID - the seam quantity counts plates, not courses.
+ * Outside areas use the OD from the plate thickness. Nozzles count their neck
+ * standout, inside at the OD, and the cut-outs in the shell are not deducted.
+ */
+export function getCoatingAreas(
+  longWelds: LongWeldItem[],
+  circWelds: CircWeldItem[],
+  heads: HeadItem[],
+  nozzles: NozzleItem[],
+  nozzleProjection: number,
+  definition?: VesselDefinition
+): CoatingArea[] {
+  const fromVessel = !!definition && definition.courses.length > 0;
+  const diameters = [
+    ...circWelds.map(w => w.geometry.insideDiameter),
+    ...heads.map(h => h.geometry.insideDiameter),
+  ];
+  const insideDiameter = fromVessel
+    ? definition.insideDiameter
+    : diameters.length > 0 ? Math.max(...diameters) : 0;
+
+  // Shell courses as width × plate thickness
+  const courses = fromVessel
+    ? definition.courses.map(c => ({ width: c.width, thickness: c.thickness }))
+    : longWelds.map(w => ({ width: w.geometry.weldLength, thickness: w.geometry.shellThickness }));
+
+  const shell = courses.reduce((sum, { width, thickness }) => ({
+    internal: sum.internal + Math.PI * insideDiameter * width / 1e6,
+    external: sum.external + Math.PI * (insideDiameter + 2 * thickness) * width / 1e6,
+  }), { internal: 0, external: 0 });
+
+  const headGeometries = fromVessel
+    ? definition.heads.map(h => ({
+        geometry: { ...DEFAULT_HEAD_GEOMETRY, headType: h.headType, insideDiameter, thickness: h.thickness, straightFlange: h.straightFlange },
+        quantity: 1,
+      }))
+    : heads.map(h => ({ geometry: h.geometry, quantity: h.quantity }));
+
+  const headAreas = headGeometries.reduce((sum, h) => {
+    const { insideDiameter: id, thickness } = h.geometry;
+    const inside = getHeadDimensions(h.geometry).surfaceArea * h.quantity;
+    const scale = id > 0 ? ((id + 2 * thickness) / id) ** 2 : 1;
+    return { internal: sum.internal + inside, external: sum.external + inside * scale };
+  }, { internal: 0, external: 0 });
+
+  const nozzleArea = nozzles.reduce(
+    (sum, n) => sum + Math.PI * n.geometry.nozzleOD * nozzleProjection * n.quantity / 1e6,
+    0
+  );
+
+  return [
+    { label: 'Shell courses', ...shell },
+    { label: 'Heads', ...headAreas },
+    { label: 'Nozzles', internal: nozzleArea, external: nozzleArea },
+  ];
+}
+
+/**
+ * Blast and paint one side - internal surfaces take longer by the internal factor
+ */
+export function calculateCoatingSide(
+  area: number,
+  blast: boolean,
+  coats: CoatingCoat[],
+  settings: CoatingSettings,
+  internal: boolean
+): CoatingSideResult {
+  const factor = internal ? settings.internalFactor / 100 : 1;
+  const spread = settings.volumeSolids * 10 * (1 - settings.lossPct / 100);   // m²·µm per litre
+
+  const coatResults = coats.map(coat => ({
+    ...coat,
+    litres: spread > 0 ? (area * coat.dft * coat.coats) / spread : 0,
+    hours: coat.coats * (settings.coatSetupHours + (settings.paintRate > 0 ? area / settings.paintRate : 0) * factor),
+  }));
+  const litres = coatResults.reduce((sum, c) => sum + c.litres, 0);
+  const mediaTonnes = blast ? (area * settings.mediaKgPerM2) / 1000 : 0;
+  const blastHours = blast && settings.blastRate > 0 ? (area / settings.blastRate) * factor : 0;
+
+  return {
+    area,
+    coats: coatResults,
+    litres,
+    mediaTonnes,
+    blastHours,
+    paintHours: coatResults.reduce((sum, c) => sum + c.hours, 0),
+    materialCost: litres * settings.paintCost + mediaTonnes * settings.mediaCost,
+  };
+}
+
+/**
+ * Blast and paint hours, paint and media for the vessel
+ *
+ * A side with no blasting and no coats is not coated. Returns null when
+ * there is no area or nothing to coat.
+ */
+export function calculateCoatings(
+  input: CoatingsInput,
+  areas: CoatingArea[],
+  offerSystems: { external: string; internal: string },
+  settings: SharedSettings
+): CoatingsResult | null {
+  const warnings: string[] = [];
+
+  const side = (internal: boolean): CoatingSideResult | null => {
+    const { blast, system } = internal ? input.internal : input.external;
+    const label = internal ? 'Internal' : 'External';
+    const { coats, unread } = parseCoatingSystem(system ?? (internal ? offerSystems.internal : offerSystems.external));
+    unread.forEach(segment => warnings.push(`${label}: no DFT in "${segment}" - not costed`));
+
+    const area = areas.reduce((sum, a) => sum + (internal ? a.internal : a.external), 0);
+    if (area <= 0 || (!blast && coats.length === 0)) return null;
+    return calculateCoatingSide(area, blast, coats, settings.coatings, internal);
+  };
+
+  const external = side(false);
+  const internal = side(true);
+  if (!external && !internal) return null;
+
+  const blastHours = (external?.blastHours ?? 0) + (internal?.blastHours ?? 0);
+  const paintHours = (external?.paintHours ?? 0) + (internal?.paintHours ?? 0);
+
+  return {
+    areas,
+    external,
+    internal,
+    blastHours,
+    paintHours,
+    labourHours: blastHours + paintHours,
+    directCost: (external?.materialCost ?? 0) + (internal?.materialCost ?? 0),
+    warnings,
+  };
+}
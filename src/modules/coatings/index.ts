@@ -0,0 +1,3 @@
+export { CoatingsModule } from './CoatingsModule';
+export * from './types';
+export * from './engine';
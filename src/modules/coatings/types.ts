@@ -0,0 +1,70 @@
+/**
+ * Coatings (Surface Protection) Types
+ *
+ * External and internal surfaces are blasted and then painted with a coating
+ * system - a list of coats, each with a dry film thickness (DFT). Areas come
+ * from the shell courses, the heads and the nozzle ODs. A system left blank
+ * takes the paint spec from the offer.
+ */
+
+export interface CoatingSide {
+  blast: boolean;
+  system: string | null;     // e.g. "1 coat IOZ Primer to 75um DFT & 1 coat Epoxy to 125um DFT" - null uses the offer
+}
+
+export interface CoatingsInput {
+  external: CoatingSide;
+  internal: CoatingSide;
+  nozzleProjection: number;  // mm - nozzle neck standout painted outside and in
+}
+
+// One coat parsed from a coating system
+export interface CoatingCoat {
+  product: string;
+  coats: number;
+  dft: number;               // µm per coat
+}
+
+// Surface area by part of the vessel
+export interface CoatingArea {
+  label: string;
+  external: number;          // m²
+  internal: number;          // m²
+}
+
+export interface CoatingCoatResult extends CoatingCoat {
+  litres: number;
+  hours: number;             // PAINT
+}
+
+export interface CoatingSideResult {
+  area: number;              // m²
+  coats: CoatingCoatResult[];
+  litres: number;
+  mediaTonnes: number;
+  blastHours: number;        // BLAST
+  paintHours: number;        // PAINT
+  materialCost: number;      // $ - paint and blast media
+}
+
+export interface CoatingsResult {
+  areas: CoatingArea[];
+  external: CoatingSideResult | null;
+  internal: CoatingSideResult | null;
+  blastHours: number;
+  paintHours: number;
+  labourHours: number;
+  directCost: number;        // $
+  warnings: string[];
+}
+
+// Module data stored in project
+export interface CoatingsModuleData {
+  coatings: CoatingsInput;
+}
+
+export const DEFAULT_COATINGS_INPUT: CoatingsInput = {
+  external: { blast: true, system: null },
+  internal: { blast: false, system: null },
+  nozzleProjection: 200,
+};
@@ -0,0 +1,654 @@
+import { useState, useMemo, useCallback, useEffect } from 'react';
+import type { WeldProcess, PreheatInput } from '../../shared/types';
+import { NumberInput, WpsSelector, PreheatPanel } from '../../shared/components';
+import { useProject } from '../../project';
+import type {
+  ExternalItem,
+  ExternalTemplateType,
+  ExternalDimensions,
+  ExternalGroove,
+  ExternalActivityTimes,
+  ExternalsModuleData,
+  ExternalActivityCodes,
+} from './types';
+import {
+  DEFAULT_EXTERNAL_DIMENSIONS,
+  DEFAULT_EXTERNAL_GROOVE,
+  DEFAULT_EXTERNAL_ACTIVITY_TIMES,
+  DEFAULT_EXTERNAL_LAYERS,
+  EXTERNAL_TEMPLATES,
+} from './types';
+import { calculateExternal, calculateExternalActivityCodes, getExternalJoints, applyExternalProcedure, applyExternalPreheat, applyExternalNde } from './engine';
+import { ExternalWeldDiagram } from './components/ExternalWeldDiagram';
+import { sumItemDeposits } from '../../engine/consumables';
+import { sumItemNde } from '../../engine/nde';
+import { getNdeCoverage } from '../offer/types';
+import type { OfferData } from '../offer/types';
+import { resolveProcedure } from '../../engine/procedures';
+import './ExternalsModule.css';
+
+const PROCESSES: Exclude<WeldProcess, 'Skip'>[] = ['GTAW', 'SMAW', 'FCAW', 'GMAW', 'SAW'];
+
+const TEMPLATE_TYPES = Object.keys(EXTERNAL_TEMPLATES) as ExternalTemplateType[];
+
+// Attachment dimensions shown in the editor for each template
+const TEMPLATE_FIELDS: Record<ExternalTemplateType, { field: keyof ExternalDimensions; label: string }[]> = {
+  liftingLug: [
+    { field: 'attachmentThickness', label: 'Lug Thk (mm)' },
+    { field: 'attachmentLength', label: 'Lug Base (mm)' },
+    { field: 'padLength', label: 'Pad Length (mm)' },
+    { field: 'padWidth', label: 'Pad Width (mm)' },
+  ],
+  saddle: [
+    { field: 'attachmentThickness', label: 'Web Thk (mm)' },
+    { field: 'attachmentLength', label: 'Web Length (mm)' },
+    { field: 'padLength', label: 'Wear Plate L (mm)' },
+    { field: 'padWidth', label: 'Wear Plate W (mm)' },
+    { field: 'ribCount', label: 'Ribs' },
+    { field: 'ribLength', label: 'Rib Weld (mm)' },
+  ],
+  skirt: [
+    { field: 'attachmentThickness', label: 'Skirt Thk (mm)' },
+  ],
+  insulationRing: [
+    { field: 'attachmentThickness', label: 'Ring Thk (mm)' },
+    { field: 'intermittency', label: 'Welded (%)' },
+  ],
+  nameplate: [
+    { field: 'attachmentThickness', label: 'Bracket Thk (mm)' },
+    { field: 'attachmentLength', label: 'Weld Length (mm)' },
+  ],
+};
+
+type TabType = 'list' | 'editor';
+
+function generateId(): string {
+  return Math.random().toString(36).substr(2, 9);
+}
+
+function createNewExternal(tag: string, templateType: ExternalTemplateType): ExternalItem {
+  return {
+    id: generateId(),
+    tag,
+    templateType,
+    quantity: 1,
+    dimensions: { ...DEFAULT_EXTERNAL_DIMENSIONS, ...EXTERNAL_TEMPLATES[templateType].dimensions },
+    groove: { ...DEFAULT_EXTERNAL_GROOVE },
+    grooveLayers: [...DEFAULT_EXTERNAL_LAYERS],
+    filletProcess: 'FCAW',
+    activityTimes: { ...DEFAULT_EXTERNAL_ACTIVITY_TIMES },
+  };
+}
+
+// Ensure item has all required fields (migration for older data)
+function migrateItem(item: ExternalItem): ExternalItem {
+  return {
+    ...item,
+    dimensions: {
+      ...DEFAULT_EXTERNAL_DIMENSIONS,
+      ...item.dimensions,
+    },
+    groove: {
+      ...DEFAULT_EXTERNAL_GROOVE,
+      ...item.groove,
+    },
+    grooveLayers: item.grooveLayers || [...DEFAULT_EXTERNAL_LAYERS],
+    activityTimes: {
+      ...DEFAULT_EXTERNAL_ACTIVITY_TIMES,
+      ...item.activityTimes,
+    },
+  };
+}
+
+export function ExternalsModule() {
+  const { getModuleData, setModuleData, updateModuleSummary, settings } = useProject();
+
+  // Load module data from project and migrate if needed
+  const moduleData = getModuleData<ExternalsModuleData>('externals');
+  const items = (moduleData?.items || []).map(migrateItem);
+  const offerNde = getModuleData<OfferData>('offer')?.nde;
+  const ndeCoverage = useMemo(() => getNdeCoverage(offerNde), [offerNde]);
+
+  const [activeTab, setActiveTab] = useState<TabType>('list');
+  const [selectedItemId, setSelectedItemId] = useState<string | null>(items[0]?.id || null);
+  const [newTemplateType, setNewTemplateType] = useState<ExternalTemplateType>('liftingLug');
+  const [diagramJointIndex, setDiagramJointIndex] = useState(0);
+
+  // Update items helper
+  const updateItems = useCallback((updater: (prev: ExternalItem[]) => ExternalItem[]) => {
+    const newItems = updater(items);
+    setModuleData<ExternalsModuleData>('externals', { items: newItems });
+  }, [items, setModuleData]);
+
+  // Calculate results for all items
+  const itemsWithResults = useMemo(() => {
+    return items.map(stored => {
+      // WPS groove prep and processes replace the item's own
+      const { item, settings: itemSettings, procedure } = resolveProcedure(stored, settings, applyExternalProcedure);
+      const results = calculateExternal(item, itemSettings);
+      const { activityTimes: heated, preheat: preheatResult } = applyExternalPreheat(item, results, itemSettings);
+      const { activityTimes, nde: ndeResult } = applyExternalNde(item, heated, results, ndeCoverage, itemSettings);
+      const activityCodes = calculateExternalActivityCodes(activityTimes, results);
+      return { ...item, activityTimes, results, activityCodes, procedure, preheatResult, ndeResult };
+    });
+  }, [items, settings, ndeCoverage]);
+
+  // Update module summary whenever results change
+  useEffect(() => {
+    const itemCount = itemsWithResults.reduce((sum, i) => sum + i.quantity, 0);
+    const totalHours = itemsWithResults.reduce((sum, i) => {
+      const codes = i.activityCodes;
+      return sum + (Object.values(codes).reduce((s, v) => s + v, 0) * i.quantity);
+    }, 0);
+
+    // Build activity breakdown
+    const activityBreakdown: Record<string, number> = {};
+    itemsWithResults.forEach(i => {
+      const qty = i.quantity;
+      Object.entries(i.activityCodes).forEach(([code, hours]) => {
+        activityBreakdown[code] = (activityBreakdown[code] || 0) + hours * qty;
+      });
+    });
+
+    updateModuleSummary('externals', {
+      moduleId: 'externals',
+      moduleName: 'Externals',
+      itemCount,
+      totalHours,
+      activityBreakdown,
+      deposits: sumItemDeposits(itemsWithResults),
+      nde: sumItemNde(itemsWithResults),
+      itemCodes: Object.fromEntries(itemsWithResults.map(i => [i.id, { ...i.activityCodes }])),
+    });
+  }, [itemsWithResults, updateModuleSummary]);
+
+  // Get current item
+  const currentItem = useMemo(() =>
+    itemsWithResults.find(i => i.id === selectedItemId) || itemsWithResults[0],
+    [itemsWithResults, selectedItemId]
+  );
+
+  // Calculate totals
+  const moduleTotals = useMemo(() => {
+    const totals: ExternalActivityCodes = { MATCUT: 0, FEXT: 0, PREHEAT: 0, WEXT: 0, NDE: 0 };
+    let totalItems = 0;
+    let grandTotal = 0;
+
+    itemsWithResults.forEach(item => {
+      const qty = item.quantity;
+      totalItems += qty;
+      if (item.activityCodes) {
+        Object.keys(totals).forEach(key => {
+          const k = key as keyof ExternalActivityCodes;
+          totals[k] += item.activityCodes![k] * qty;
+        });
+        grandTotal += Object.values(item.activityCodes).reduce((sum, v) => sum + v, 0) * qty;
+      }
+    });
+
+    return { totals, totalItems, grandTotal };
+  }, [itemsWithResults]);
+
+  // Update single item
+  const updateItem = useCallback((id: string, updates: Partial<ExternalItem>) => {
+    updateItems(prev => prev.map(i => i.id === id ? { ...i, ...updates } : i));
+  }, [updateItems]);
+
+  // Update dimensions
+  const updateDimension = (field: keyof ExternalDimensions, value: number) => {
+    if (!currentItem) return;
+    updateItem(currentItem.id, {
+      dimensions: { ...currentItem.dimensions, [field]: value }
+    });
+  };
+
+  // Update groove preparation
+  const updateGroove = (field: keyof ExternalGroove, value: number) => {
+    if (!currentItem) return;
+    updateItem(currentItem.id, {
+      groove: { ...currentItem.groove, [field]: value }
+    });
+  };
+
+  // Update activity time
+  // Change WPS - the current prep is kept on the item so it carries over when the WPS is removed
+  const setProcedure = (wpsNumber: string | undefined) => {
+    if (!currentItem) return;
+    const { results, activityCodes, procedure, preheatResult, ndeResult, ...item } = currentItem;
+    updateItem(currentItem.id, { ...item, wpsNumber });
+  };
+
+  const setPreheat = (preheat: PreheatInput) => {
+    if (!currentItem) return;
+    updateItem(currentItem.id, { preheat });
+  };
+
+  const updateActivity = (field: keyof ExternalActivityTimes, value: number) => {
+    if (!currentItem) return;
+    updateItem(currentItem.id, {
+      activityTimes: { ...currentItem.activityTimes, [field]: value }
+    });
+  };
+
+  // Update groove layer
+  const updateLayer = (index: number, field: 'process' | 'minWidth', value: string | number) => {
+    if (!currentItem) return;
+    const newLayers = [...currentItem.grooveLayers];
+    if (field === 'process') {
+      newLayers[index] = { ...newLayers[index], process: value as Exclude<WeldProcess, 'Skip'> };
+    } else {
+      newLayers[index] = { ...newLayers[index], minWidth: value as number };
+    }
+    updateItem(currentItem.id, { grooveLayers: newLayers });
+  };
+
+  const addLayer = () => {
+    if (!currentItem) return;
+    const lastLayer = currentItem.grooveLayers[currentItem.grooveLayers.length - 1];
+    const newMinWidth = lastLayer ? lastLayer.minWidth + 8 : 0;
+    updateItem(currentItem.id, {
+      grooveLayers: [...currentItem.grooveLayers, { process: 'FCAW', minWidth: newMinWidth }]
+    });
+  };
+
+  const removeLayer = (index: number) => {
+    if (!currentItem || currentItem.grooveLayers.length <= 1) return;
+    const newLayers = currentItem.grooveLayers.filter((_, i) => i !== index);
+    // If we removed the first layer, reset the new first layer's minWidth to 0
+    if (index === 0 && newLayers.length > 0) {
+      newLayers[0] = { ...newLayers[0], minWidth: 0 };
+    }
+    updateItem(currentItem.id, { grooveLayers: newLayers });
+  };
+
+  // Change template - applies the template defaults for the new type
+  const changeTemplate = (templateType: ExternalTemplateType) => {
+    if (!currentItem) return;
+    updateItem(currentItem.id, {
+      templateType,
+      dimensions: { ...currentItem.dimensions, ...EXTERNAL_TEMPLATES[templateType].dimensions },
+    });
+    setDiagramJointIndex(0);
+  };
+
+  // Add new item
+  const addItem = () => {
+    const prefix = EXTERNAL_TEMPLATES[newTemplateType].tagPrefix;
+    const count = items.filter(i => i.templateType === newTemplateType).length;
+    const newItem = createNewExternal(`${prefix}${count + 1}`, newTemplateType);
+    updateItems(prev => [...prev, newItem]);
+    setSelectedItemId(newItem.id);
+    setActiveTab('list');
+    setTimeout(() => {
+      const input = document.querySelector(`input[data-id="${newItem.id}"]`) as HTMLInputElement;
+      if (input) {
+        input.focus();
+        input.select();
+      }
+    }, 0);
+  };
+
+  // Duplicate item
+  const duplicateItem = (item: ExternalItem) => {
+    const newItem: ExternalItem = {
+      ...item,
+      id: generateId(),
+      tag: `${item.tag}-copy`,
+      dimensions: { ...item.dimensions },
+      groove: { ...item.groove },
+      grooveLayers: [...item.grooveLayers],
+      activityTimes: { ...item.activityTimes },
+    };
+    updateItems(prev => [...prev, newItem]);
+  };
+
+  // Delete item
+  const deleteItem = (id: string) => {
+    updateItems(prev => prev.filter(i => i.id !== id));
+    if (selectedItemId === id) {
+      const remaining = items.filter(i => i.id !== id);
+      setSelectedItemId(remaining.length > 0 ? remaining[0].id : null);
+    }
+  };
+
+  const selectItem = (id: string) => {
+    setSelectedItemId(id);
+    setDiagramJointIndex(0);
+  };
+
+  const joints = currentItem
+    ? getExternalJoints(currentItem.templateType, currentItem.dimensions, currentItem.groove)
+    : [];
+  const hasGroove = joints.some(j => j.kind === 'groove');
+  const diagramJoint = joints[Math.min(diagramJointIndex, joints.length - 1)];
+
+  return (
+    <div className="externals-module">
+      <div className="module-toolbar">
+        <div className="toolbar-left">
+          <button className={activeTab === 'list' ? 'active' : ''} onClick={() => setActiveTab('list')}>
+            List
+          </button>
+          <button className={activeTab === 'editor' ? 'active' : ''} onClick={() => setActiveTab('editor')} disabled={!currentItem}>
+            Editor
+          </button>
+        </div>
+        <div className="toolbar-center">
+          <select className="type-select" value={newTemplateType} onChange={(e) => setNewTemplateType(e.target.value as ExternalTemplateType)}>
+            {TEMPLATE_TYPES.map(t => <option key={t} value={t}>{EXTERNAL_TEMPLATES[t].label}</option>)}
+          </select>
+          <button className="btn-add" onClick={addItem}>+ Add External</button>
+        </div>
+        <div className="toolbar-right">
+          <span className="stats">{moduleTotals.totalItems} items • {moduleTotals.grandTotal.toFixed(1)} hrs</span>
+        </div>
+      </div>
+
+      {/* LIST TAB */}
+      {activeTab === 'list' && (
+        <div className="weld-table-container">
+          {itemsWithResults.length === 0 ? (
+            <p className="empty-message">No external attachments yet. Pick a template and click "+ Add External".</p>
+          ) : (
+            <table className="weld-table">
+              <thead>
+                <tr>
+                  <th>Tag</th>
+                  <th>Template</th>
+                  <th>Qty</th>
+                  <th>Joints</th>
+                  <th>Volume</th>
+                  <th>MATCUT</th>
+                  <th>FEXT</th>
+                  <th>PREHEAT</th>
+                  <th>WEXT</th>
+                  <th>NDE</th>
+                  <th>Total/ea</th>
+                  <th>Total</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {itemsWithResults.map((item) => {
+                  const codes = item.activityCodes!;
+                  const totalPer = Object.values(codes).reduce((s, v) => s + v, 0);
+                  const totalQty = totalPer * item.quantity;
+                  return (
+                    <tr key={item.id} className={item.id === selectedItemId ? 'selected' : ''}>
+                      <td>
+                        <input
+                          type="text"
+                          className="tag-input"
+                          value={item.tag}
+                          onChange={(e) => updateItem(item.id, { tag: e.target.value })}
+                          data-id={item.id}
+                        />
+                      </td>
+                      <td>{EXTERNAL_TEMPLATES[item.templateType].label}</td>
+                      <td>
+                        <NumberInput
+                          value={item.quantity}
+                          onChange={(val) => updateItem(item.id, { quantity: val })}
+                          min={1}
+                          className="qty-input"
+                        />
+                      </td>
+                      <td>{item.results.joints.length}</td>
+                      <td>{(item.results.totalVolume / 1000).toFixed(0)} cm³</td>
+                      <td>{codes.MATCUT.toFixed(2)}</td>
+                      <td>{codes.FEXT.toFixed(2)}</td>
+                      <td>{codes.PREHEAT.toFixed(2)}</td>
+                      <td className="weld-time">{codes.WEXT.toFixed(2)}</td>
+                      <td>{codes.NDE.toFixed(2)}</td>
+                      <td className="total-cell">{totalPer.toFixed(2)}</td>
+                      <td className="total-cell">{totalQty.toFixed(2)}</td>
+                      <td className="actions-cell">
+                        <button className="btn-action" onClick={() => { selectItem(item.id); setActiveTab('editor'); }}>Edit</button>
+                        <button className="btn-action" onClick={() => duplicateItem(item)}>Duplicate</button>
+                        <button className="btn-action btn-delete" onClick={() => deleteItem(item.id)}>Delete</button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+              <tfoot>
+                <tr className="totals-row">
+                  <td><strong>TOTALS</strong></td>
+                  <td></td>
+                  <td><strong>{moduleTotals.totalItems}</strong></td>
+                  <td colSpan={2}></td>
+                  <td><strong>{moduleTotals.totals.MATCUT.toFixed(2)}</strong></td>
+                  <td><strong>{moduleTotals.totals.FEXT.toFixed(2)}</strong></td>
+                  <td><strong>{moduleTotals.totals.PREHEAT.toFixed(2)}</strong></td>
+                  <td className="weld-time"><strong>{moduleTotals.totals.WEXT.toFixed(2)}</strong></td>
+                  <td><strong>{moduleTotals.totals.NDE.toFixed(2)}</strong></td>
+                  <td></td>
+                  <td className="grand-total"><strong>{moduleTotals.grandTotal.toFixed(2)}</strong></td>
+                  <td></td>
+                </tr>
+              </tfoot>
+            </table>
+          )}
+        </div>
+      )}
+
+      {/* EDITOR TAB */}
+      {activeTab === 'editor' && currentItem && (
+        <div className="editor-grid">
+          <div className="editor-panel">
+            <div className="weld-selector">
+              <select value={selectedItemId || ''} onChange={(e) => selectItem(e.target.value)}>
+                {items.map(i => (
+                  <option key={i.id} value={i.id}>
+                    {i.tag} ({EXTERNAL_TEMPLATES[i.templateType].label})
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <section className="section">
+              <h3>🏗️ Attachment</h3>
+              <div className="input-group">
+                <label>Template</label>
+                <select value={currentItem.templateType} onChange={(e) => changeTemplate(e.target.value as ExternalTemplateType)}>
+                  {TEMPLATE_TYPES.map(t => <option key={t} value={t}>{EXTERNAL_TEMPLATES[t].label}</option>)}
+                </select>
+              </div>
+              <div className="input-row">
+                <div className="input-group">
+                  <label>Shell Thk (mm)</label>
+                  <NumberInput value={currentItem.dimensions.shellThickness} onChange={(val) => updateDimension('shellThickness', val)} />
+                </div>
+                <div className="input-group">
+                  <label>Shell OD (mm)</label>
+                  <NumberInput value={currentItem.dimensions.shellOD} onChange={(val) => updateDimension('shellOD', val)} />
+                </div>
+              </div>
+              {/* Template fields, two per row */}
+              {TEMPLATE_FIELDS[currentItem.templateType]
+                .filter((_, i) => i % 2 === 0)
+                .map((_, row) => (
+                  <div key={row} className="input-row">
+                    {TEMPLATE_FIELDS[currentItem.templateType].slice(row * 2, row * 2 + 2).map(({ field, label }) => (
+                      <div key={field} className="input-group">
+                        <label>{label}</label>
+                        <NumberInput value={currentItem.dimensions[field]} min={0} onChange={(val) => updateDimension(field, val)} />
+                      </div>
+                    ))}
+                  </div>
+                ))}
+            </section>
+
+            <section className="section">
+              <h3>📋 Weld Procedure</h3>
+              <WpsSelector
+                value={currentItem.wpsNumber}
+                procedures={settings.weldProcedures}
+                thickness={currentItem.dimensions.shellThickness}
+                onChange={setProcedure}
+              />
+            </section>
+
+            <section className="section">
+              <h3>🔥 Preheat</h3>
+              <PreheatPanel value={currentItem.preheat} result={currentItem.preheatResult} onChange={setPreheat} />
+            </section>
+
+            <section className="section">
+              <h3>🔧 Fillet Welds</h3>
+              <div className="input-row">
+                <div className="input-group">
+                  <label>Leg Size (mm)</label>
+                  <NumberInput value={currentItem.dimensions.filletLeg} step={0.5} min={0} onChange={(val) => updateDimension('filletLeg', val)} />
+                </div>
+                <div className="input-group">
+                  <label>Process</label>
+                  <select value={currentItem.filletProcess} disabled={!!currentItem.procedure} onChange={(e) => updateItem(currentItem.id, { filletProcess: e.target.value as Exclude<WeldProcess, 'Skip'> })}>
+                    {PROCESSES.map((p) => <option key={p} value={p}>{p}</option>)}
+                  </select>
+                </div>
+              </div>
+            </section>
+
+            {hasGroove && (
+              <fieldset className="wps-locked" disabled={!!currentItem.procedure}>
+                <section className="section">
+                  <h3>📐 Groove Prep</h3>
+                  <div className="input-row">
+                    <div className="input-group">
+                      <label>Bevel Angle (°)</label>
+                      <NumberInput value={currentItem.groove.bevelAngle} step={2.5} min={0} max={60} onChange={(val) => updateGroove('bevelAngle', val)} />
+                    </div>
+                    <div className="input-group">
+                      <label>Root Gap (mm)</label>
+                      <NumberInput value={currentItem.groove.rootGap} step={0.5} min={0} onChange={(val) => updateGroove('rootGap', val)} />
+                    </div>
+                  </div>
+                  <div className="input-group">
+                    <label>Root Face (mm)</label>
+                    <NumberInput value={currentItem.groove.rootFace} step={0.5} min={0} onChange={(val) => updateGroove('rootFace', val)} />
+                  </div>
+                </section>
+
+                <section className="section">
+                  <h3>🔥 Groove Weld Processes</h3>
+                  <div className="layers-header"><span>Process</span><span>Switch @</span><span></span></div>
+                  {currentItem.grooveLayers.map((layer, index) => (
+                    <div key={index} className="layer-row">
+                      <select value={layer.process} onChange={(e) => updateLayer(index, 'process', e.target.value)}>
+                        {PROCESSES.map((p) => <option key={p} value={p}>{p}</option>)}
+                      </select>
+                      <div className="width-input">
+                        <NumberInput value={layer.minWidth} min={0} step={1} onChange={(val) => updateLayer(index, 'minWidth', val)} disabled={index === 0} />
+                        <span className="unit-label">mm</span>
+                      </div>
+                      <button className="btn-remove" onClick={() => removeLayer(index)} disabled={currentItem.grooveLayers.length <= 1}>×</button>
+                    </div>
+                  ))}
+                  <button className="btn-add-layer" onClick={addLayer}>+ Add Process</button>
+                </section>
+              </fieldset>
+            )}
+          </div>
+
+          <div className="editor-panel center">
+            {joints.length > 1 && (
+              <select className="joint-select" value={Math.min(diagramJointIndex, joints.length - 1)} onChange={(e) => setDiagramJointIndex(Number(e.target.value))}>
+                {joints.map((j, i) => <option key={i} value={i}>{j.label}</option>)}
+              </select>
+            )}
+            {diagramJoint && (
+              <ExternalWeldDiagram
+                joint={diagramJoint}
+                groove={currentItem.groove}
+                attachmentThickness={currentItem.dimensions.attachmentThickness}
+                grooveLayers={currentItem.grooveLayers}
+                filletProcess={currentItem.filletProcess}
+              />
+            )}
+            {diagramJoint && (
+              <p className="diagram-caption">
+                Weld Length: {diagramJoint.length.toFixed(0)}mm × {diagramJoint.sides} side{diagramJoint.sides === 2 ? 's' : ''}
+              </p>
+            )}
+          </div>
+
+          <div className="editor-panel">
+            <div className="result-card">
+              <h3>TOTAL TIME</h3>
+              <div className="value">
+                {Object.values(currentItem.activityCodes).reduce((s, v) => s + v, 0).toFixed(1)}
+              </div>
+              <div className="unit">hours/item</div>
+            </div>
+
+            <div className="results-summary">
+              {currentItem.results.joints.map((j, i) => (
+                <div key={i} className="joint-row">
+                  <span>{j.label}</span>
+                  <span>{j.passes}p</span>
+                  <span>{j.weldTime.toFixed(2)}h</span>
+                </div>
+              ))}
+              <div className="result-row">
+                <span>Weld Volume</span>
+                <span>{(currentItem.results.totalVolume / 1000).toFixed(0)} cm³</span>
+              </div>
+              <div className="result-row">
+                <span>Total Passes</span>
+                <span>{currentItem.results.totalPasses}</span>
+              </div>
+              <div className="result-row highlight">
+                <span>Weld Time</span>
+                <span>{currentItem.results.times.totalWeldTime.toFixed(2)} hrs</span>
+              </div>
+            </div>
+
+            <section className="section">
+              <h3>⏱️ Activity Times</h3>
+              <div className="activity-list">
+                <div className="act-row">
+                  <label>Cut Parts</label>
+                  <NumberInput step={0.25} value={currentItem.activityTimes.cutParts} onChange={(v) => updateActivity('cutParts', v)} />
+                </div>
+                <div className="act-row">
+                  <label>Mark Out</label>
+                  <NumberInput step={0.25} value={currentItem.activityTimes.markOut} onChange={(v) => updateActivity('markOut', v)} />
+                </div>
+                <div className="act-row">
+                  <label>Fit & Tack</label>
+                  <NumberInput step={0.25} value={currentItem.activityTimes.fitUp} onChange={(v) => updateActivity('fitUp', v)} />
+                </div>
+                <div className="act-row">
+                  <label>Pre-heat</label>
+                  <NumberInput step={0.25} value={currentItem.activityTimes.preheat} disabled={!!currentItem.preheatResult} onChange={(v) => updateActivity('preheat', v)} />
+                </div>
+                <div className="act-row calc">
+                  <label>Weld</label>
+                  <span>{currentItem.results.times.totalWeldTime.toFixed(2)}h</span>
+                </div>
+                <div className="act-row">
+                  <label>Grind / Dress</label>
+                  <NumberInput step={0.25} value={currentItem.activityTimes.grind} onChange={(v) => updateActivity('grind', v)} />
+                </div>
+                <div className="act-row">
+                  <label>NDE</label>
+                  <NumberInput step={0.25} value={currentItem.activityTimes.nde} disabled={!!currentItem.ndeResult} onChange={(v) => updateActivity('nde', v)} />
+                </div>
+              </div>
+            </section>
+
+            <section className="section">
+              <h3>Activity Codes</h3>
+              <div className="codes-grid">
+                {Object.entries(currentItem.activityCodes).map(([code, hours]) => (
+                  <div key={code} className="code-box"><span className="code">{code}</span><span>{hours.toFixed(2)}h</span></div>
+                ))}
+              </div>
+            </section>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+import type { WeldProcess } from '../../../shared/types';
+import type { ExternalJoint, ExternalGroove, ProcessLayer } from '../types';
+
+interface ExternalWeldDiagramProps {
+  joint: ExternalJoint;
+  groove: ExternalGroove;
+  attachmentThickness: number;
+  grooveLayers: ProcessLayer[];
+  filletProcess: Exclude<WeldProcess, 'Skip'>;
+}
+
+const PROCESS_COLORS: Record<string, { fill: string; text: string }> = {
+  GTAW: { fill: '#ff6b6b', text: '#c92a2a' },
+  SMAW: { fill: '#ffd93d', text: '#e67700' },
+  FCAW: { fill: '#4dabf7', text: '#1971c2' },
+  GMAW: { fill: '#69db7c', text: '#2f9e44' },
+  SAW: { fill: '#da77f2', text: '#9c36b5' },
+};
+
+interface LayerBoundary {
+  process: string;
+  startDepth: number;
+  endDepth: number;
+}
+
+/**
+ * Cross-section of an attachment plate (right) welded to the shell or pad (left).
+ * Groove joints are single bevel on the attachment edge - one side, or both sides
+ * when the joint is welded from both faces. Fillet joints sit in the corners.
+ */
+export function ExternalWeldDiagram({ joint, groove, attachmentThickness, grooveLayers, filletProcess }: ExternalWeldDiagramProps) {
+  const { kind, sides, depth, legSize, label } = joint;
+  const { bevelAngle, rootGap, rootFace } = groove;
+
+  const isGroove = kind === 'groove';
+  const isDoubleSided = sides === 2;
+
+  const bevelWidth = isGroove ? depth * Math.tan((bevelAngle * Math.PI) / 180) : 0;
+  const topWidth = rootGap + bevelWidth;
+
+  // SVG dimensions
+  const viewBoxWidth = 400;
+  const viewBoxHeight = 300;
+  const marginTop = 60;
+  const marginBottom = 60;
+  const wallX = 150;       // Shell / pad face
+  const wallThickness = 50; // Drawn width of the shell / pad (not to scale)
+
+  const availableHeight = viewBoxHeight - marginTop - marginBottom;
+  const availableWidth = viewBoxWidth - wallX - 80;
+  const spanMm = isGroove ? topWidth : legSize;
+  const scale = Math.min(availableHeight / attachmentThickness, availableWidth / Math.max(spanMm, 1));
+
+  const topY = marginTop;
+  const bottomY = topY + attachmentThickness * scale;
+  const rightX = viewBoxWidth - 20;
+
+  // Sort layers by minWidth
+  const sortedLayers = [...grooveLayers].sort((a, b) => a.minWidth - b.minWidth);
+
+  // Depth (from root) at which the groove reaches a given width
+  const getDepthForWidth = (width: number): number => {
+    if (width <= rootGap) return 0;
+    if (bevelWidth <= 0) return depth;
+    return Math.min(depth, Math.max(0, (width - rootGap) * depth / bevelWidth));
+  };
+
+  const layerBoundaries: LayerBoundary[] = [];
+  if (isGroove) {
+    for (let i = 0; i < sortedLayers.length; i++) {
+      const layer = sortedLayers[i];
+      const nextLayer = sortedLayers[i + 1];
+      const startDepth = getDepthForWidth(layer.minWidth);
+      const endDepth = nextLayer ? getDepthForWidth(nextLayer.minWidth) : depth;
+      if (endDepth > startDepth) {
+        layerBoundaries.push({ process: layer.process, startDepth, endDepth });
+      }
+    }
+  }
+
+  // Root face position - at the far face for one side, centred for both sides
+  const rootFaceTop = isDoubleSided ? (topY + bottomY) / 2 - (rootFace * scale) / 2 : bottomY - rootFace * scale;
+  const rootFaceBottom = isDoubleSided ? rootFaceTop + rootFace * scale : bottomY;
+
+  // Bevel edge x at a given depth from the root (upper groove goes up, lower groove goes down)
+  const bevelX = (depthMm: number) => wallX + (rootGap + (bevelWidth * depthMm) / Math.max(depth, 0.001)) * scale;
+
+  const upperY = (depthMm: number) => rootFaceTop - depthMm * scale;
+  const lowerY = (depthMm: number) => rootFaceBottom + depthMm * scale;
+
+  const dimX = wallX + topWidth * scale + 25;
+
+  // Attachment outline
+  const attachmentPath = isGroove
+    ? `
+      M ${bevelX(depth)} ${topY}
+      L ${rightX} ${topY}
+      L ${rightX} ${bottomY}
+      L ${isDoubleSided ? bevelX(depth) : wallX + rootGap * scale} ${bottomY}
+      ${isDoubleSided ? `L ${wallX + rootGap * scale} ${rootFaceBottom}` : ''}
+      L ${wallX + rootGap * scale} ${rootFaceTop}
+      Z
+    `
+    : `
+      M ${wallX} ${topY}
+      L ${rightX} ${topY}
+      L ${rightX} ${bottomY}
+      L ${wallX} ${bottomY}
+      Z
+    `;
+
+  const filletColors = PROCESS_COLORS[filletProcess] || { fill: '#ccc', text: '#666' };
+  const leg = legSize * scale;
+
+  const renderGrooveLayers = (getY: (d: number) => number) =>
+    layerBoundaries.map((layer, i) => {
+      const colors = PROCESS_COLORS[layer.process] || { fill: '#ccc', text: '#666' };
+      const y1 = getY(layer.startDepth);
+      const y2 = getY(layer.endDepth);
+      return (
+        <g key={i}>
+          <path
+            d={`
+              M ${wallX} ${y1}
+              L ${bevelX(layer.startDepth)} ${y1}
+              L ${bevelX(layer.endDepth)} ${y2}
+              L ${wallX} ${y2}
+              Z
+            `}
+            fill={colors.fill} fillOpacity="0.4"
+          />
+          {/* Process label on the left side */}
+          <text x={wallX - wallThickness - 5} y={(y1 + y2) / 2 + 3} fill={colors.text} fontWeight="bold" fontSize="9" textAnchor="end">{layer.process}</text>
+          {/* Height dimension */}
+          <line x1={dimX} y1={y1} x2={dimX} y2={y2} stroke={colors.text} strokeWidth="0.5" />
+          <line x1={dimX - 3} y1={y1} x2={dimX + 3} y2={y1} stroke={colors.text} strokeWidth="0.5" />
+          <line x1={dimX - 3} y1={y2} x2={dimX + 3} y2={y2} stroke={colors.text} strokeWidth="0.5" />
+          <text x={dimX + 5} y={(y1 + y2) / 2 + 3} fill={colors.text} fontSize="8">{(layer.endDepth - layer.startDepth).toFixed(1)}</text>
+        </g>
+      );
+    });
+
+  return (
+    <svg viewBox={`0 0 ${viewBoxWidth} ${viewBoxHeight}`} className="weld-diagram" preserveAspectRatio="xMidYMid meet">
+      {/* Shell / pad */}
+      <rect
+        x={wallX - wallThickness} y={topY - 40}
+        width={wallThickness} height={bottomY - topY + 80}
+        fill="#cfd8dc" stroke="#37474f" strokeWidth="1.5"
+      />
+
+      {/* Attachment plate */}
+      <path d={attachmentPath} fill="#eceff1" stroke="#37474f" strokeWidth="1.5" />
+
+      {isGroove && (
+        <g>
+          {/* Root face area */}
+          {rootFace > 0 && sortedLayers.length > 0 && (
+            <rect
+              x={wallX} y={rootFaceTop}
+              width={rootGap * scale} height={rootFaceBottom - rootFaceTop}
+              fill={PROCESS_COLORS[sortedLayers[0].process]?.fill || '#ccc'} fillOpacity="0.4"
+            />
+          )}
+
+          {/* Groove layers - 1st side (top), 2nd side mirrored below */}
+          {renderGrooveLayers(upperY)}
+          {isDoubleSided && renderGrooveLayers(lowerY)}
+
+          {/* Top width dimension */}
+          <line x1={wallX} y1={topY - 20} x2={bevelX(depth)} y2={topY - 20} stroke="#2196F3" strokeWidth="0.75" />
+          <line x1={wallX} y1={topY - 23} x2={wallX} y2={topY - 17} stroke="#2196F3" strokeWidth="0.75" />
+          <line x1={bevelX(depth)} y1={topY - 23} x2={bevelX(depth)} y2={topY - 17} stroke="#2196F3" strokeWidth="0.75" />
+          <text x={(wallX + bevelX(depth)) / 2} y={topY - 25} fill="#2196F3" fontWeight="bold" fontSize="8" textAnchor="middle">{topWidth.toFixed(1)}mm</text>
+
+          {/* Angle label */}
+          <text x={bevelX(depth) + 6} y={(topY + rootFaceTop) / 2 + 3} fill="#9C27B0" fontWeight="bold" fontSize="8">{bevelAngle}°</text>
+        </g>
+      )}
+
+      {!isGroove && (
+        <g>
+          {/* Fillet in the top corner, mirrored to the bottom corner when welded both sides */}
+          <path
+            d={`M ${wallX} ${topY} L ${wallX + leg} ${topY} L ${wallX} ${topY - leg} Z`}
+            fill={filletColors.fill} fillOpacity="0.6" stroke={filletColors.text} strokeWidth="1"
+          />
+          {isDoubleSided && (
+            <path
+              d={`M ${wallX} ${bottomY} L ${wallX + leg} ${bottomY} L ${wallX} ${bottomY + leg} Z`}
+              fill={filletColors.fill} fillOpacity="0.6" stroke={filletColors.text} strokeWidth="1"
+            />
+          )}
+          <text x={wallX + leg + 6} y={topY - leg / 2} fill={filletColors.text} fontWeight="bold" fontSize="9">{filletProcess}</text>
+          <text x={wallX + leg + 6} y={topY - leg / 2 + 12} fill="#2196F3" fontWeight="bold" fontSize="8">{legSize}mm leg</text>
+        </g>
+      )}
+
+      {/* Attachment thickness dimension */}
+      <line x1={rightX - 10} y1={topY} x2={rightX - 10} y2={bottomY} stroke="#FF6B6B" strokeWidth="0.75" />
+      <text x={rightX - 14} y={(topY + bottomY) / 2 + 3} fill="#FF6B6B" fontWeight="bold" fontSize="9" textAnchor="end">{attachmentThickness}mm</text>
+
+      {/* Joint label */}
+      <text x={viewBoxWidth / 2} y={viewBoxHeight - 12} fill="#37474f" fontWeight="bold" fontSize="10" textAnchor="middle">{label}</text>
+
+      {/* Side labels */}
+      <text x={viewBoxWidth - 5} y={topY - 5} fill="#4ade80" fontWeight="bold" fontSize="9" textAnchor="end">1ST SIDE</text>
+      {isDoubleSided && (
+        <text x={viewBoxWidth - 5} y={bottomY + 14} fill="#64b5f6" fontWeight="bold" fontSize="9" textAnchor="end">2ND SIDE</text>
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { calculateExternal, getExternalJoints } from './engine';
+import {
+  DEFAULT_EXTERNAL_DIMENSIONS,
+  DEFAULT_EXTERNAL_GROOVE,
+  DEFAULT_EXTERNAL_ACTIVITY_TIMES,
+} from './types';
+import type { ExternalDimensions, ExternalItem, ExternalTemplateType } from './types';
+import { DEFAULT_SETTINGS } from '../../shared/settings/defaults';
+
+// 10 mm shell - SMAW 120 and FCAW 200 mm/min, outside operator factor 1.2.
+// One groove process keeps the passes easy to follow: a 3 × 8 SMAW bead, a 3.5 × 10 FCAW fillet bead.
+const item = (templateType: ExternalTemplateType, dimensions: Partial<ExternalDimensions>): ExternalItem => ({
+  id: templateType,
+  tag: templateType,
+  templateType,
+  quantity: 1,
+  dimensions: { ...DEFAULT_EXTERNAL_DIMENSIONS, shellThickness: 10, ...dimensions },
+  groove: { ...DEFAULT_EXTERNAL_GROOVE, bevelAngle: 45, rootGap: 3, rootFace: 2 },
+  grooveLayers: [{ process: 'SMAW', minWidth: 0 }],
+  filletProcess: 'FCAW',
+  activityTimes: DEFAULT_EXTERNAL_ACTIVITY_TIMES,
+});
+
+const weldHours = (arcMinutes: number) => (arcMinutes * 1.2) / 60;
+
+describe('Externals', () => {
+  it('welds a lifting lug through from both sides and fillets the pad all round', () => {
+    const lug = item('liftingLug', {
+      attachmentThickness: 30,
+      attachmentLength: 300,
+      padLength: 450,
+      padWidth: 250,
+      filletLeg: 10,
+    });
+    const { joints, totalVolume, totalPasses, times } = calculateExternal(lug, DEFAULT_SETTINGS);
+    const [lugToPad, padToShell] = joints;
+
+    // (30 - 2) / 2 = 14 deep each side, half the root face below it:
+    // (3 + 17) / 2 × 14 + 3 × 1 = 143 mm²
+    expect(lugToPad).toMatchObject({ kind: 'groove', length: 300, sides: 2, depth: 14 });
+    expect(lugToPad.area).toBeCloseTo(143, 6);
+    expect(lugToPad.volume).toBeCloseTo(143 * 300 * 2, 3);
+    expect(lugToPad.passes).toBe(12); // ⌈143 / 24⌉ per side
+
+    // Pad perimeter 2 × (450 + 250), 10 mm fillet
+    expect(padToShell).toMatchObject({ kind: 'fillet', length: 1400, sides: 1, legSize: 10 });
+    expect(padToShell.volume).toBeCloseTo(50 * 1400, 3);
+    expect(padToShell.passes).toBe(2);
+
+    expect(totalVolume).toBeCloseTo(143 * 600 + 50 * 1400, 3);
+    expect(totalPasses).toBe(14);
+    expect(times.totalWeldTime).toBeCloseTo(weldHours((12 * 300) / 120 + (2 * 1400) / 200), 6);
+  });
+
+  it('fillets a saddle wear plate, web and ribs', () => {
+    const saddle = item('saddle', {
+      attachmentLength: 2500,
+      padLength: 2700,
+      padWidth: 350,
+      ribCount: 4,
+      ribLength: 400,
+      filletLeg: 8,
+    });
+    const { joints, totalVolume, totalPasses, times } = calculateExternal(saddle, DEFAULT_SETTINGS);
+
+    expect(joints.map(j => [j.label, j.length, j.sides])).toEqual([
+      ['Wear plate to shell', 6100, 1],
+      ['Web to wear plate', 2500, 2],
+      ['Ribs to wear plate', 1600, 2],
+    ]);
+
+    // 8 mm fillet = 32 mm², one pass a side
+    const welded = 6100 + 2500 * 2 + 1600 * 2;
+    expect(totalVolume).toBeCloseTo(32 * welded, 3);
+    expect(totalPasses).toBe(5);
+    expect(times.arcTime).toBeCloseTo(welded / 200 / 60, 6);
+    expect(times.totalWeldTime).toBeCloseTo(weldHours(welded / 200), 6);
+  });
+
+  it('welds a skirt to the head around the shell outside diameter', () => {
+    const skirt = item('skirt', { shellOD: 2040, attachmentThickness: 16, filletLeg: 10 });
+    const circumference = Math.PI * 2040;
+    const { joints, totalVolume, totalPasses, times } = calculateExternal(skirt, DEFAULT_SETTINGS);
+    const [groove, cover] = joints;
+
+    // 16 - 2 = 14 deep from outside over the whole root face: (3 + 17) / 2 × 14 + 3 × 2 = 146 mm²
+    expect(groove).toMatchObject({ kind: 'groove', sides: 1, depth: 14 });
+    expect(groove.length).toBeCloseTo(circumference, 6);
+    expect(groove.area).toBeCloseTo(146, 6);
+    expect(groove.passes).toBe(7);
+    expect(cover.length).toBeCloseTo(circumference, 6);
+    expect(cover.passes).toBe(2);
+
+    expect(totalVolume).toBeCloseTo((146 + 50) * circumference, 3);
+    expect(totalPasses).toBe(9);
+    expect(times.totalWeldTime).toBeCloseTo(weldHours((7 * circumference) / 120 + (2 * circumference) / 200), 6);
+  });
+
+  it('welds only the intermittent share of an insulation ring', () => {
+    const dimensions = { ...DEFAULT_EXTERNAL_DIMENSIONS, shellThickness: 10, shellOD: 2040, intermittency: 50, filletLeg: 5 };
+    const welded = Math.PI * 2040 * 0.5;
+
+    const [joint] = getExternalJoints('insulationRing', dimensions, DEFAULT_EXTERNAL_GROOVE);
+    expect(joint).toMatchObject({ kind: 'fillet', sides: 2, legSize: 5 });
+    expect(joint.length).toBeCloseTo(welded, 6);
+
+    const { totalVolume, totalPasses, times } = calculateExternal(item('insulationRing', dimensions), DEFAULT_SETTINGS);
+    expect(totalVolume).toBeCloseTo(12.5 * welded * 2, 3);
+    expect(totalPasses).toBe(2);
+    expect(times.totalWeldTime).toBeCloseTo(weldHours((2 * welded) / 200), 6);
+
+    // Fully welded doubles it
+    const full = calculateExternal(item('insulationRing', { ...dimensions, intermittency: 100 }), DEFAULT_SETTINGS);
+    expect(full.totalVolume).toBeCloseTo(totalVolume * 2, 3);
+  });
+});
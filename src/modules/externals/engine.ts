@@ -0,0 +1,220 @@
+import type { SharedSettings, DepositByProcess, WeldProcedure } from '../../shared/types';
+import type {
+  ExternalItem,
+  ExternalTemplateType,
+  ExternalDimensions,
+  ExternalGroove,
+  ExternalJoint,
+  ExternalJointResult,
+  ExternalResults,
+  ExternalActivityCodes,
+  ExternalActivityTimes,
+} from './types';
+import { calculateGroove, filletSection, singleBevelSection } from '../../engine/groove';
+import { getThicknessRates } from '../../engine/bands';
+import { grooveDeposits, mergeDeposits } from '../../engine/consumables';
+import { calculatePreheat, getPreheatHours } from '../../engine/preheat';
+import type { AppliedPreheat } from '../../engine/preheat';
+import { applyNde } from '../../engine/nde';
+import type { AppliedNde, NdeCoverage } from '../../engine/nde';
+
+/**
+ * Expand a template into the weld joints it needs
+ *
+ * - Lifting lug: lug-to-pad full pen (welded both sides) + pad-to-shell perimeter fillet
+ * - Saddle: wear plate perimeter fillet + web and rib fillets (both sides)
+ * - Skirt: skirt-to-head full pen from outside + inside cover fillet, around π × OD
+ * - Insulation ring: intermittent fillet both sides around π × OD
+ * - Nameplate bracket: bracket-to-shell fillet both sides
+ */
+export function getExternalJoints(
+  templateType: ExternalTemplateType,
+  dimensions: ExternalDimensions,
+  groove: ExternalGroove
+): ExternalJoint[] {
+  const {
+    shellOD,
+    attachmentThickness,
+    attachmentLength,
+    padLength,
+    padWidth,
+    ribCount,
+    ribLength,
+    intermittency,
+    filletLeg,
+  } = dimensions;
+
+  const circumference = Math.PI * shellOD;
+  const padPerimeter = 2 * (padLength + padWidth);
+
+  switch (templateType) {
+    case 'liftingLug':
+      return [
+        { label: 'Lug to pad', kind: 'groove', length: attachmentLength, sides: 2, depth: Math.max(0, (attachmentThickness - groove.rootFace) / 2), legSize: 0 },
+        { label: 'Pad to shell', kind: 'fillet', length: padPerimeter, sides: 1, depth: 0, legSize: filletLeg },
+      ];
+    case 'saddle':
+      return [
+        { label: 'Wear plate to shell', kind: 'fillet', length: padPerimeter, sides: 1, depth: 0, legSize: filletLeg },
+        { label: 'Web to wear plate', kind: 'fillet', length: attachmentLength, sides: 2, depth: 0, legSize: filletLeg },
+        { label: 'Ribs to wear plate', kind: 'fillet', length: ribCount * ribLength, sides: 2, depth: 0, legSize: filletLeg },
+      ];
+    case 'skirt':
+      return [
+        { label: 'Skirt to head', kind: 'groove', length: circumference, sides: 1, depth: Math.max(0, attachmentThickness - groove.rootFace), legSize: 0 },
+        { label: 'Inside cover fillet', kind: 'fillet', length: circumference, sides: 1, depth: 0, legSize: filletLeg },
+      ];
+    case 'insulationRing':
+      return [
+        { label: 'Ring to shell', kind: 'fillet', length: circumference * (intermittency / 100), sides: 2, depth: 0, legSize: filletLeg },
+      ];
+    case 'nameplate':
+      return [
+        { label: 'Bracket to shell', kind: 'fillet', length: attachmentLength, sides: 2, depth: 0, legSize: filletLeg },
+      ];
+  }
+}
+
+/**
+ * External attachment with the WPS groove prep and processes applied
+ */
+export function applyExternalProcedure(item: ExternalItem, procedure: WeldProcedure): ExternalItem {
+  return {
+    ...item,
+    groove: {
+      bevelAngle: procedure.bevelAngle,
+      rootGap: procedure.rootGap,
+      rootFace: procedure.rootFace,
+    },
+    grooveLayers: procedure.layers.map(layer => ({ ...layer })),
+    filletProcess: procedure.filletProcess,
+  };
+}
+
+/**
+ * Main calculation function for external attachments
+ */
+export function calculateExternal(
+  item: ExternalItem,
+  settings: SharedSettings
+): ExternalResults {
+  const { templateType, dimensions, groove, grooveLayers, filletProcess } = item;
+  const { beadSizes } = settings;
+  const { shellThickness } = dimensions;
+  const { rootGap, rootFace, bevelAngle } = groove;
+
+  // Speeds and operator factors for the thickness band
+  const { speeds, factors } = getThicknessRates(shellThickness, settings);
+
+  const joints: ExternalJointResult[] = getExternalJoints(templateType, dimensions, groove).map(joint => {
+    const { kind, length, sides, depth, legSize } = joint;
+
+    // Single bevel + root face - half the root face goes to each side when welded both sides.
+    // Fillets are a plain triangle with a single process.
+    const side = kind === 'groove'
+      ? calculateGroove(
+          singleBevelSection(depth, bevelAngle, rootGap, sides === 2 ? rootFace / 2 : rootFace),
+          length,
+          grooveLayers,
+          beadSizes,
+          speeds
+        )
+      : calculateGroove(
+          filletSection(legSize),
+          length,
+          [{ process: filletProcess, minWidth: 0 }],
+          beadSizes,
+          speeds
+        );
+
+    const { area, passes: passesPerSide, arcTime: arcMinutesPerSide } = side;
+
+    const arcMinutes = arcMinutesPerSide * sides;
+
+    return {
+      ...joint,
+      area,
+      volume: area * length * sides,
+      passes: passesPerSide * sides,
+      arcTime: arcMinutes / 60, // convert to hours
+      weldTime: (arcMinutes * factors.outside) / 60, // externals are welded from outside
+      deposits: mergeDeposits([grooveDeposits(side), sides]),
+    };
+  });
+
+  const arcTime = joints.reduce((sum, j) => sum + j.arcTime, 0);
+  const totalWeldTime = joints.reduce((sum, j) => sum + j.weldTime, 0);
+
+  return {
+    joints,
+    totalVolume: joints.reduce((sum, j) => sum + j.volume, 0),
+    totalPasses: joints.reduce((sum, j) => sum + j.passes, 0),
+    times: {
+      arcTime,
+      totalWeldTime,
+    },
+    deposits: mergeDeposits(...joints.map(j => [j.deposits, 1] as [DepositByProcess, number])),
+  };
+}
+
+/**
+ * Calculated preheat along every joint of the attachment, heated once
+ */
+export function applyExternalPreheat(
+  item: ExternalItem,
+  results: ExternalResults,
+  settings: SharedSettings
+): AppliedPreheat<ExternalActivityTimes> {
+  if (!item.preheat?.calculate) return { activityTimes: item.activityTimes, preheat: null };
+
+  const jointLength = results.joints.reduce((sum, joint) => sum + joint.length, 0);
+  const preheat = calculatePreheat(item.preheat, item.dimensions.shellThickness, jointLength, settings.preheat);
+  return {
+    activityTimes: {
+      ...item.activityTimes,
+      preheat: getPreheatHours(preheat, results.times.totalWeldTime),
+    },
+    preheat,
+  };
+}
+
+/**
+ * Calculated NDE along every joint of the attachment - lifting lugs take the
+ * lifting attachment coverage
+ */
+export function applyExternalNde(
+  item: ExternalItem,
+  activityTimes: ExternalActivityTimes,
+  results: ExternalResults,
+  coverage: NdeCoverage | null,
+  settings: SharedSettings
+): AppliedNde<ExternalActivityTimes> {
+  const length = results.joints.reduce((sum, joint) => sum + joint.length * joint.sides, 0);
+  const category = item.templateType === 'liftingLug' ? 'liftingAttachments' : 'externalAttachments';
+  return applyNde(activityTimes, [{ category, length }], coverage, settings.nde);
+}
+
+/**
+ * Calculate activity codes from activity times and weld results
+ *
+ * Activity flow:
+ * 1. Cut parts - MATCUT
+ * 2. Mark out position - FEXT
+ * 3. Fit and tack - FEXT
+ * 4. Pre-heat - PREHEAT
+ * 5. Weld - WEXT
+ * 6. Grind / dress - MATCUT
+ * 7. NDE
+ */
+export function calculateExternalActivityCodes(
+  activityTimes: ExternalActivityTimes,
+  results: ExternalResults
+): ExternalActivityCodes {
+  return {
+    MATCUT: activityTimes.cutParts + activityTimes.grind,
+    FEXT: activityTimes.markOut + activityTimes.fitUp,
+    PREHEAT: activityTimes.preheat,
+    WEXT: results.times.totalWeldTime,
+    NDE: activityTimes.nde,
+  };
+}
@@ -0,0 +1,3 @@
+export { ExternalsModule } from './ExternalsModule';
+export * from './types';
+export * from './engine';
@@ -0,0 +1,209 @@
+import type { WeldProcess, DepositByProcess, PreheatInput } from '../../shared/types';
+
+/**
+ * Externals (External Attachments) Types
+ *
+ * Externals are the attachments welded to the outside of the vessel - lifting lugs,
+ * saddles, skirts, insulation rings and nameplate brackets. Each attachment is built
+ * from a parametric template that expands into the individual weld joints it needs.
+ */
+
+export type ExternalTemplateType = 'liftingLug' | 'saddle' | 'skirt' | 'insulationRing' | 'nameplate';
+
+export interface ProcessLayer {
+  process: Exclude<WeldProcess, 'Skip'>;
+  minWidth: number;  // mm - groove width threshold to switch process
+}
+
+/**
+ * Template dimensions - each template only uses the fields it needs
+ */
+export interface ExternalDimensions {
+  // Parent shell
+  shellThickness: number;      // mm - used for travel speed / operator factor range
+  shellOD: number;             // mm - outside diameter of shell or head
+
+  // Attachment plate (lug, saddle web, skirt, ring or bracket)
+  attachmentThickness: number; // mm
+  attachmentLength: number;    // mm - lug base, saddle web arc or bracket length
+
+  // Reinforcing pad / wear plate / bracket base
+  padLength: number;           // mm
+  padWidth: number;            // mm
+
+  // Saddle ribs
+  ribCount: number;
+  ribLength: number;           // mm - weld length per rib
+
+  // Insulation rings
+  intermittency: number;       // % - welded portion of the ring circumference
+
+  // Fillet welds
+  filletLeg: number;           // mm
+}
+
+/**
+ * Groove preparation for full penetration attachment welds
+ */
+export interface ExternalGroove {
+  bevelAngle: number;          // degrees
+  rootGap: number;             // mm
+  rootFace: number;            // mm (land)
+}
+
+export interface ExternalItem {
+  id: string;
+  tag: string;                 // e.g., "LL1", "Saddle A"
+  templateType: ExternalTemplateType;
+  quantity: number;            // Number of identical attachments
+  wpsNumber?: string;          // WPS reference - prep and processes come from the library
+  preheat?: PreheatInput;      // Calculated preheat - hand-entered hours when absent
+
+  dimensions: ExternalDimensions;
+  groove: ExternalGroove;
+
+  // Process strategy
+  grooveLayers: ProcessLayer[];
+  filletProcess: Exclude<WeldProcess, 'Skip'>;
+
+  // Activity times (hours)
+  activityTimes: ExternalActivityTimes;
+
+  // Calculated results
+  results?: ExternalResults;
+  activityCodes?: ExternalActivityCodes;
+}
+
+/**
+ * A single weld joint generated by a template
+ */
+export interface ExternalJoint {
+  label: string;               // e.g., "Lug to pad"
+  kind: 'groove' | 'fillet';
+  length: number;              // mm - per side
+  sides: 1 | 2;
+  depth: number;               // mm - groove depth per side (0 for fillets)
+  legSize: number;             // mm - fillet leg (0 for grooves)
+}
+
+export interface ExternalJointResult extends ExternalJoint {
+  area: number;                // mm² - per side
+  volume: number;              // mm³ - all sides
+  passes: number;              // all sides
+  arcTime: number;             // hours
+  weldTime: number;            // hours - with operator factor
+  deposits: DepositByProcess;  // all sides
+}
+
+export interface ExternalActivityTimes {
+  cutParts: number;        // Cut / prepare attachment parts - MATCUT
+  markOut: number;         // Mark out position on shell - FEXT
+  fitUp: number;           // Fit and tack attachment - FEXT
+  preheat: number;         // Pre-heat - PREHEAT
+  weld: number;            // Weld - WEXT (calculated)
+  grind: number;           // Grind / dress welds - MATCUT
+  nde: number;             // NDE inspection - NDE
+}
+
+export interface ExternalResults {
+  joints: ExternalJointResult[];
+
+  // Totals
+  totalVolume: number;     // mm³
+  totalPasses: number;
+
+  // Times (hours)
+  times: {
+    arcTime: number;
+    totalWeldTime: number; // With operator factor
+  };
+
+  // Weld metal by process (consumables)
+  deposits: DepositByProcess;
+}
+
+export interface ExternalActivityCodes {
+  MATCUT: number;     // Cut parts + grind
+  FEXT: number;       // Mark out + fit external
+  PREHEAT: number;    // Pre-heat
+  WEXT: number;       // Weld external
+  NDE: number;        // NDE inspection
+}
+
+// Module data stored in project
+export interface ExternalsModuleData {
+  items: ExternalItem[];
+}
+
+/**
+ * Template metadata - label and the dimensions applied when a new item is created
+ */
+export interface ExternalTemplate {
+  label: string;
+  tagPrefix: string;
+  dimensions: Partial<ExternalDimensions>;
+}
+
+export const EXTERNAL_TEMPLATES: Record<ExternalTemplateType, ExternalTemplate> = {
+  liftingLug: {
+    label: 'Lifting Lug + Pad',
+    tagPrefix: 'LL',
+    dimensions: { attachmentThickness: 30, attachmentLength: 300, padLength: 450, padWidth: 250, filletLeg: 10 },
+  },
+  saddle: {
+    label: 'Saddle + Wear Plate',
+    tagPrefix: 'SAD',
+    dimensions: { attachmentThickness: 16, attachmentLength: 2500, padLength: 2700, padWidth: 350, ribCount: 4, ribLength: 400, filletLeg: 8 },
+  },
+  skirt: {
+    label: 'Skirt to Head',
+    tagPrefix: 'SK',
+    dimensions: { attachmentThickness: 16, filletLeg: 10 },
+  },
+  insulationRing: {
+    label: 'Insulation Ring',
+    tagPrefix: 'IR',
+    dimensions: { attachmentThickness: 6, intermittency: 50, filletLeg: 5 },
+  },
+  nameplate: {
+    label: 'Nameplate Bracket',
+    tagPrefix: 'NP',
+    dimensions: { attachmentThickness: 6, attachmentLength: 200, padWidth: 100, filletLeg: 5 },
+  },
+};
+
+// Default values
+export const DEFAULT_EXTERNAL_DIMENSIONS: ExternalDimensions = {
+  shellThickness: 20,
+  shellOD: 2040,
+  attachmentThickness: 20,
+  attachmentLength: 300,
+  padLength: 400,
+  padWidth: 250,
+  ribCount: 0,
+  ribLength: 0,
+  intermittency: 100,
+  filletLeg: 8,
+};
+
+export const DEFAULT_EXTERNAL_GROOVE: ExternalGroove = {
+  bevelAngle: 45,
+  rootGap: 3,
+  rootFace: 2,
+};
+
+export const DEFAULT_EXTERNAL_ACTIVITY_TIMES: ExternalActivityTimes = {
+  cutParts: 0.5,       // Cut parts
+  markOut: 0.25,       // Mark out position
+  fitUp: 0.75,         // Fit and tack
+  preheat: 0.25,       // Pre-heat
+  weld: 0,             // Calculated
+  grind: 0.5,          // Grind / dress
+  nde: 0.5,            // NDE
+};
+
+export const DEFAULT_EXTERNAL_LAYERS: ProcessLayer[] = [
+  { process: 'GTAW', minWidth: 0 },
+  { process: 'SMAW', minWidth: 8 },
+  { process: 'FCAW', minWidth: 16 },
+];
@@ -0,0 +1,689 @@
+import { useState, useMemo, useCallback, useEffect } from 'react';
+import type { WeldProcess, PreheatInput } from '../../shared/types';
+import { NumberInput, WpsSelector, PreheatPanel } from '../../shared/components';
+import { useProject } from '../../project';
+import { CircWeldDiagram } from '../circwelds/components/CircWeldDiagram';
+import type {
+  HeadItem,
+  HeadType,
+  HeadGeometry,
+  HeadWeldPrep,
+  HeadForming,
+  HeadFormingSource,
+  HeadActivityTimes,
+  HeadsModuleData,
+  HeadActivityCodes,
+} from './types';
+import {
+  DEFAULT_HEAD_GEOMETRY,
+  DEFAULT_HEAD_WELD_PREP,
+  DEFAULT_HEAD_FORMING,
+  DEFAULT_HEAD_ACTIVITY_TIMES,
+  DEFAULT_HEAD_LAYERS,
+  HEAD_TYPE_LABELS,
+} from './types';
+import { calculateHead, calculateHeadActivityCodes, applyHeadProcedure, applyHeadPreheat, applyHeadNde } from './engine';
+import { sumItemDeposits } from '../../engine/consumables';
+import { sumItemNde } from '../../engine/nde';
+import { getNdeCoverage } from '../offer/types';
+import type { OfferData } from '../offer/types';
+import { resolveProcedure } from '../../engine/procedures';
+import './HeadsModule.css';
+
+const PROCESSES: Exclude<WeldProcess, 'Skip'>[] = ['GTAW', 'SMAW', 'FCAW', 'GMAW', 'SAW'];
+
+const HEAD_TYPES = Object.keys(HEAD_TYPE_LABELS) as HeadType[];
+
+type TabType = 'list' | 'editor';
+
+function generateId(): string {
+  return Math.random().toString(36).substr(2, 9);
+}
+
+function createNewHead(tag: string): HeadItem {
+  return {
+    id: generateId(),
+    tag,
+    quantity: 1,
+    geometry: { ...DEFAULT_HEAD_GEOMETRY },
+    weldPrep: { ...DEFAULT_HEAD_WELD_PREP },
+    forming: { ...DEFAULT_HEAD_FORMING },
+    insideLayers: [...DEFAULT_HEAD_LAYERS],
+    outsideProcess: 'SAW',
+    activityTimes: { ...DEFAULT_HEAD_ACTIVITY_TIMES },
+  };
+}
+
+// Ensure item has all required fields (migration for older data)
+function migrateItem(item: HeadItem): HeadItem {
+  return {
+    ...item,
+    geometry: {
+      ...DEFAULT_HEAD_GEOMETRY,
+      ...item.geometry,
+    },
+    weldPrep: {
+      ...DEFAULT_HEAD_WELD_PREP,
+      ...item.weldPrep,
+    },
+    forming: {
+      ...DEFAULT_HEAD_FORMING,
+      ...item.forming,
+    },
+    activityTimes: {
+      ...DEFAULT_HEAD_ACTIVITY_TIMES,
+      ...item.activityTimes,
+    },
+  };
+}
+
+export function HeadsModule() {
+  const { getModuleData, setModuleData, updateModuleSummary, settings } = useProject();
+
+  // Load module data from project and migrate if needed
+  const moduleData = getModuleData<HeadsModuleData>('heads');
+  const items = (moduleData?.items || []).map(migrateItem);
+  const offerNde = getModuleData<OfferData>('offer')?.nde;
+  const ndeCoverage = useMemo(() => getNdeCoverage(offerNde), [offerNde]);
+
+  const [activeTab, setActiveTab] = useState<TabType>('list');
+  const [selectedItemId, setSelectedItemId] = useState<string | null>(items[0]?.id || null);
+
+  // Update items helper
+  const updateItems = useCallback((updater: (prev: HeadItem[]) => HeadItem[]) => {
+    const newItems = updater(items);
+    setModuleData<HeadsModuleData>('heads', { items: newItems });
+  }, [items, setModuleData]);
+
+  // Calculate results for all items
+  const itemsWithResults = useMemo(() => {
+    return items.map(stored => {
+      // WPS prep and processes replace the head's own
+      const { item, settings: itemSettings, procedure } = resolveProcedure(stored, settings, applyHeadProcedure);
+      const results = calculateHead(item, itemSettings);
+      const { activityTimes: heated, preheat: preheatResult } = applyHeadPreheat(item, results, itemSettings);
+      const { activityTimes, nde: ndeResult } = applyHeadNde(item, heated, results, ndeCoverage, itemSettings);
+      const activityCodes = calculateHeadActivityCodes(
+        activityTimes,
+        results,
+        item.forming,
+        item.geometry.petalCount
+      );
+      return { ...item, activityTimes, results, activityCodes, procedure, preheatResult, ndeResult };
+    });
+  }, [items, settings, ndeCoverage]);
+
+  // Update module summary whenever results change
+  useEffect(() => {
+    const itemCount = itemsWithResults.reduce((sum, i) => sum + i.quantity, 0);
+    const totalHours = itemsWithResults.reduce((sum, i) => {
+      const codes = i.activityCodes;
+      return sum + (Object.values(codes).reduce((s, v) => s + v, 0) * i.quantity);
+    }, 0);
+
+    // Build activity breakdown
+    const activityBreakdown: Record<string, number> = {};
+    itemsWithResults.forEach(i => {
+      const qty = i.quantity;
+      Object.entries(i.activityCodes).forEach(([code, hours]) => {
+        activityBreakdown[code] = (activityBreakdown[code] || 0) + hours * qty;
+      });
+    });
+
+    updateModuleSummary('heads', {
+      moduleId: 'heads',
+      moduleName: 'Heads',
+      itemCount,
+      totalHours,
+      activityBreakdown,
+      deposits: sumItemDeposits(itemsWithResults),
+      nde: sumItemNde(itemsWithResults),
+      itemCodes: Object.fromEntries(itemsWithResults.map(i => [i.id, { ...i.activityCodes }])),
+    });
+  }, [itemsWithResults, updateModuleSummary]);
+
+  // Get current item
+  const currentItem = useMemo(() =>
+    itemsWithResults.find(i => i.id === selectedItemId) || itemsWithResults[0],
+    [itemsWithResults, selectedItemId]
+  );
+
+  // Calculate totals
+  const moduleTotals = useMemo(() => {
+    const totals: HeadActivityCodes = { MATCUT: 0, FORMHD: 0, FHEAD: 0, PREHEAT: 0, WSEG: 0, WHEAD: 0, BACGRI: 0, NDE: 0 };
+    let totalItems = 0;
+    let grandTotal = 0;
+
+    itemsWithResults.forEach(item => {
+      const qty = item.quantity;
+      totalItems += qty;
+      if (item.activityCodes) {
+        Object.keys(totals).forEach(key => {
+          const k = key as keyof HeadActivityCodes;
+          totals[k] += item.activityCodes![k] * qty;
+        });
+        grandTotal += Object.values(item.activityCodes).reduce((sum, v) => sum + v, 0) * qty;
+      }
+    });
+
+    return { totals, totalItems, grandTotal };
+  }, [itemsWithResults]);
+
+  // Update single item
+  const updateItem = useCallback((id: string, updates: Partial<HeadItem>) => {
+    updateItems(prev => prev.map(i => i.id === id ? { ...i, ...updates } : i));
+  }, [updateItems]);
+
+  const updateGeometry = (field: keyof HeadGeometry, value: number | string) => {
+    if (!currentItem) return;
+    updateItem(currentItem.id, {
+      geometry: { ...currentItem.geometry, [field]: value }
+    });
+  };
+
+  const updateWeldPrep = (field: keyof HeadWeldPrep, value: number | string) => {
+    if (!currentItem) return;
+    updateItem(currentItem.id, {
+      weldPrep: { ...currentItem.weldPrep, [field]: value }
+    });
+  };
+
+  const updateForming = (field: keyof HeadForming, value: number | string) => {
+    if (!currentItem) return;
+    updateItem(currentItem.id, {
+      forming: { ...currentItem.forming, [field]: value }
+    });
+  };
+
+  // Change WPS - the current prep is kept on the head so it carries over when the WPS is removed
+  const setProcedure = (wpsNumber: string | undefined) => {
+    if (!currentItem) return;
+    const { results, activityCodes, procedure, preheatResult, ndeResult, ...item } = currentItem;
+    updateItem(currentItem.id, { ...item, wpsNumber });
+  };
+
+  const setPreheat = (preheat: PreheatInput) => {
+    if (!currentItem) return;
+    updateItem(currentItem.id, { preheat });
+  };
+
+  const updateActivity = (field: keyof HeadActivityTimes, value: number) => {
+    if (!currentItem) return;
+    updateItem(currentItem.id, {
+      activityTimes: { ...currentItem.activityTimes, [field]: value }
+    });
+  };
+
+  const updateInsideLayer = (index: number, field: 'process' | 'minWidth', value: string | number) => {
+    if (!currentItem) return;
+    const newLayers = [...currentItem.insideLayers];
+    if (field === 'process') {
+      newLayers[index] = { ...newLayers[index], process: value as Exclude<WeldProcess, 'Skip'> };
+    } else {
+      newLayers[index] = { ...newLayers[index], minWidth: value as number };
+    }
+    updateItem(currentItem.id, { insideLayers: newLayers });
+  };
+
+  const addInsideLayer = () => {
+    if (!currentItem) return;
+    const lastLayer = currentItem.insideLayers[currentItem.insideLayers.length - 1];
+    const newMinWidth = lastLayer ? lastLayer.minWidth + 10 : 0;
+    updateItem(currentItem.id, {
+      insideLayers: [...currentItem.insideLayers, { process: 'SAW', minWidth: newMinWidth }]
+    });
+  };
+
+  const removeInsideLayer = (index: number) => {
+    if (!currentItem || currentItem.insideLayers.length <= 1) return;
+    const newLayers = currentItem.insideLayers.filter((_, i) => i !== index);
+    if (index === 0 && newLayers.length > 0) {
+      newLayers[0] = { ...newLayers[0], minWidth: 0 };
+    }
+    updateItem(currentItem.id, { insideLayers: newLayers });
+  };
+
+  // Add new item
+  const addItem = () => {
+    const newItem = createNewHead(`H${items.length + 1}`);
+    updateItems(prev => [...prev, newItem]);
+    setSelectedItemId(newItem.id);
+    setActiveTab('list');
+    setTimeout(() => {
+      const input = document.querySelector(`input[data-id="${newItem.id}"]`) as HTMLInputElement;
+      if (input) {
+        input.focus();
+        input.select();
+      }
+    }, 0);
+  };
+
+  // Duplicate item
+  const duplicateItem = (item: HeadItem) => {
+    const newItem: HeadItem = {
+      ...item,
+      id: generateId(),
+      tag: `${item.tag}-copy`,
+      geometry: { ...item.geometry },
+      weldPrep: { ...item.weldPrep },
+      forming: { ...item.forming },
+      insideLayers: [...item.insideLayers],
+      activityTimes: { ...item.activityTimes },
+    };
+    updateItems(prev => [...prev, newItem]);
+  };
+
+  // Delete item
+  const deleteItem = (id: string) => {
+    updateItems(prev => prev.filter(i => i.id !== id));
+    if (selectedItemId === id) {
+      const remaining = items.filter(i => i.id !== id);
+      setSelectedItemId(remaining.length > 0 ? remaining[0].id : null);
+    }
+  };
+
+  const isInHouse = currentItem?.forming.source === 'inHouse';
+  const isSegmented = isInHouse && (currentItem?.geometry.petalCount || 0) > 0;
+
+  return (
+    <div className="heads-module">
+      <div className="module-toolbar">
+        <div className="toolbar-left">
+          <button className={activeTab === 'list' ? 'active' : ''} onClick={() => setActiveTab('list')}>
+            List
+          </button>
+          <button className={activeTab === 'editor' ? 'active' : ''} onClick={() => setActiveTab('editor')} disabled={!currentItem}>
+            Editor
+          </button>
+        </div>
+        <div className="toolbar-center">
+          <button className="btn-add" onClick={addItem}>+ Add Head</button>
+        </div>
+        <div className="toolbar-right">
+          <span className="stats">{moduleTotals.totalItems} heads • {moduleTotals.grandTotal.toFixed(1)} hrs</span>
+        </div>
+      </div>
+
+      {/* LIST TAB */}
+      {activeTab === 'list' && (
+        <div className="weld-table-container">
+          {itemsWithResults.length === 0 ? (
+            <p className="empty-message">No heads yet. Click "+ Add Head" to add one.</p>
+          ) : (
+            <table className="weld-table">
+              <thead>
+                <tr>
+                  <th>Tag</th>
+                  <th>Qty</th>
+                  <th>Type</th>
+                  <th>ID</th>
+                  <th>Thk</th>
+                  <th>Supply</th>
+                  <th>MATCUT</th>
+                  <th>FORMHD</th>
+                  <th>FHEAD</th>
+                  <th>PREHEAT</th>
+                  <th>WSEG</th>
+                  <th>WHEAD</th>
+                  <th>BACGRI</th>
+                  <th>NDE</th>
+                  <th>Total/ea</th>
+                  <th>Total</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {itemsWithResults.map((item) => {
+                  const codes = item.activityCodes!;
+                  const totalPer = Object.values(codes).reduce((s, v) => s + v, 0);
+                  const totalQty = totalPer * item.quantity;
+                  return (
+                    <tr key={item.id} className={item.id === selectedItemId ? 'selected' : ''}>
+                      <td>
+                        <input
+                          type="text"
+                          className="tag-input"
+                          value={item.tag}
+                          onChange={(e) => updateItem(item.id, { tag: e.target.value })}
+                          data-id={item.id}
+                        />
+                      </td>
+                      <td>
+                        <NumberInput
+                          value={item.quantity}
+                          onChange={(val) => updateItem(item.id, { quantity: val })}
+                          min={1}
+                          className="qty-input"
+                        />
+                      </td>
+                      <td>{HEAD_TYPE_LABELS[item.geometry.headType]}</td>
+                      <td>{item.geometry.insideDiameter}</td>
+                      <td>{item.geometry.thickness}</td>
+                      <td>{item.forming.source === 'inHouse' ? 'In-house' : 'Bought-in'}</td>
+                      <td>{codes.MATCUT.toFixed(2)}</td>
+                      <td>{codes.FORMHD.toFixed(2)}</td>
+                      <td>{codes.FHEAD.toFixed(2)}</td>
+                      <td>{codes.PREHEAT.toFixed(2)}</td>
+                      <td className="weld-time">{codes.WSEG > 0 ? codes.WSEG.toFixed(2) : '-'}</td>
+                      <td className="weld-time">{codes.WHEAD.toFixed(2)}</td>
+                      <td>{codes.BACGRI.toFixed(2)}</td>
+                      <td>{codes.NDE.toFixed(2)}</td>
+                      <td className="total-cell">{totalPer.toFixed(2)}</td>
+                      <td className="total-cell">{totalQty.toFixed(2)}</td>
+                      <td className="actions-cell">
+                        <button className="btn-action" onClick={() => { setSelectedItemId(item.id); setActiveTab('editor'); }}>Edit</button>
+                        <button className="btn-action" onClick={() => duplicateItem(item)}>Duplicate</button>
+                        <button className="btn-action btn-delete" onClick={() => deleteItem(item.id)}>Delete</button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+              <tfoot>
+                <tr className="totals-row">
+                  <td><strong>TOTALS</strong></td>
+                  <td><strong>{moduleTotals.totalItems}</strong></td>
+                  <td colSpan={4}></td>
+                  <td><strong>{moduleTotals.totals.MATCUT.toFixed(2)}</strong></td>
+                  <td><strong>{moduleTotals.totals.FORMHD.toFixed(2)}</strong></td>
+                  <td><strong>{moduleTotals.totals.FHEAD.toFixed(2)}</strong></td>
+                  <td><strong>{moduleTotals.totals.PREHEAT.toFixed(2)}</strong></td>
+                  <td className="weld-time"><strong>{moduleTotals.totals.WSEG.toFixed(2)}</strong></td>
+                  <td className="weld-time"><strong>{moduleTotals.totals.WHEAD.toFixed(2)}</strong></td>
+                  <td><strong>{moduleTotals.totals.BACGRI.toFixed(2)}</strong></td>
+                  <td><strong>{moduleTotals.totals.NDE.toFixed(2)}</strong></td>
+                  <td></td>
+                  <td className="grand-total"><strong>{moduleTotals.grandTotal.toFixed(2)}</strong></td>
+                  <td></td>
+                </tr>
+              </tfoot>
+            </table>
+          )}
+        </div>
+      )}
+
+      {/* EDITOR TAB */}
+      {activeTab === 'editor' && currentItem && (
+        <div className="editor-grid">
+          <div className="editor-panel">
+            <div className="weld-selector">
+              <select value={selectedItemId || ''} onChange={(e) => setSelectedItemId(e.target.value)}>
+                {items.map(i => (
+                  <option key={i.id} value={i.id}>
+                    {i.tag} ({i.geometry.thickness}mm × ⌀{i.geometry.insideDiameter})
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <section className="section">
+              <h3>🥣 Head</h3>
+              <div className="input-group">
+                <label>Head Type</label>
+                <select value={currentItem.geometry.headType} onChange={(e) => updateGeometry('headType', e.target.value)}>
+                  {HEAD_TYPES.map(t => <option key={t} value={t}>{HEAD_TYPE_LABELS[t]}</option>)}
+                </select>
+              </div>
+              <div className="input-row">
+                <div className="input-group">
+                  <label>Thickness (mm)</label>
+                  <NumberInput value={currentItem.geometry.thickness} onChange={(val) => updateGeometry('thickness', val)} />
+                </div>
+                <div className="input-group">
+                  <label>Inside Dia (mm)</label>
+                  <NumberInput value={currentItem.geometry.insideDiameter} step={100} onChange={(val) => updateGeometry('insideDiameter', val)} />
+                </div>
+              </div>
+              <div className="input-group">
+                <label>Straight Flange (mm)</label>
+                <NumberInput value={currentItem.geometry.straightFlange} step={5} min={0} onChange={(val) => updateGeometry('straightFlange', val)} />
+              </div>
+              <div className="circ-display">
+                Depth: {currentItem.results.depth.toFixed(0)}mm • Area: {currentItem.results.surfaceArea.toFixed(2)}m²
+              </div>
+            </section>
+
+            <section className="section">
+              <h3>🏭 Forming</h3>
+              <div className="input-group">
+                <label>Supply</label>
+                <select value={currentItem.forming.source} onChange={(e) => updateForming('source', e.target.value as HeadFormingSource)}>
+                  <option value="boughtIn">Bought-in (formed by supplier)</option>
+                  <option value="inHouse">Formed in-house</option>
+                </select>
+              </div>
+              {isInHouse && (
+                <>
+                  <div className="input-row">
+                    <div className="input-group">
+                      <label>Setup (hrs)</label>
+                      <NumberInput value={currentItem.forming.setupHours} step={0.5} min={0} onChange={(val) => updateForming('setupHours', val)} />
+                    </div>
+                    <div className="input-group">
+                      <label>hrs / m²·mm</label>
+                      <NumberInput value={currentItem.forming.hoursPerM2mm} step={0.01} min={0} onChange={(val) => updateForming('hoursPerM2mm', val)} />
+                    </div>
+                  </div>
+                  <div className="input-row">
+                    <div className="input-group">
+                      <label>Petals (0 = one piece)</label>
+                      <NumberInput value={currentItem.geometry.petalCount} min={0} onChange={(val) => updateGeometry('petalCount', val)} />
+                    </div>
+                    {isSegmented && (
+                      <div className="input-group">
+                        <label>Crown Dia (mm)</label>
+                        <NumberInput value={currentItem.geometry.crownDiameter} step={100} min={0} onChange={(val) => updateGeometry('crownDiameter', val)} />
+                      </div>
+                    )}
+                  </div>
+                  {isSegmented && (
+                    <div className="circ-display">
+                      Petal seam: {currentItem.results.petalSeamLength.toFixed(0)}mm × {currentItem.geometry.petalCount}
+                    </div>
+                  )}
+                </>
+              )}
+            </section>
+
+            <section className="section">
+              <h3>📋 Weld Procedure</h3>
+              <WpsSelector
+                value={currentItem.wpsNumber}
+                procedures={settings.weldProcedures}
+                thickness={currentItem.geometry.thickness}
+                onChange={setProcedure}
+              />
+            </section>
+
+            <section className="section">
+              <h3>🔥 Preheat</h3>
+              <PreheatPanel value={currentItem.preheat} result={currentItem.preheatResult} onChange={setPreheat} />
+            </section>
+
+            <fieldset className="wps-locked" disabled={!!currentItem.procedure}>
+              <section className="section">
+                <h3>🔧 Head-to-Shell Joint</h3>
+                <div className="input-group">
+                  <label>Joint Type</label>
+                  <select value={currentItem.weldPrep.jointType} onChange={(e) => updateWeldPrep('jointType', e.target.value)}>
+                    <option value="singlevee">Single Vee</option>
+                    <option value="doublevee">Double Vee</option>
+                  </select>
+                </div>
+                <div className="input-row">
+                  <div className="input-group">
+                    <label>1st Side Angle (°)</label>
+                    <NumberInput value={currentItem.weldPrep.insideBevelAngle} onChange={(val) => updateWeldPrep('insideBevelAngle', val)} />
+                  </div>
+                  {currentItem.weldPrep.jointType === 'doublevee' && (
+                    <div className="input-group">
+                      <label>2nd Side Angle (°)</label>
+                      <NumberInput value={currentItem.weldPrep.outsideBevelAngle} onChange={(val) => updateWeldPrep('outsideBevelAngle', val)} />
+                    </div>
+                  )}
+                </div>
+                <div className="input-row">
+                  <div className="input-group">
+                    <label>Root Gap</label>
+                    <NumberInput value={currentItem.weldPrep.rootGap} step={0.5} onChange={(val) => updateWeldPrep('rootGap', val)} />
+                  </div>
+                  <div className="input-group">
+                    <label>Root Face</label>
+                    <NumberInput value={currentItem.weldPrep.rootFace} step={0.5} onChange={(val) => updateWeldPrep('rootFace', val)} />
+                  </div>
+                </div>
+                {currentItem.weldPrep.jointType === 'doublevee' && (
+                  <div className="input-group">
+                    <label>1st Side Split (%)</label>
+                    <NumberInput value={currentItem.weldPrep.splitRatio} min={40} max={80} step={5} onChange={(val) => updateWeldPrep('splitRatio', val)} />
+                  </div>
+                )}
+              </section>
+
+              <section className="section">
+                <h3>🔥 Weld Processes</h3>
+                <div className="layers-header"><span>Process</span><span>Switch @</span><span></span></div>
+                {currentItem.insideLayers.map((layer, index) => (
+                  <div key={index} className="layer-row">
+                    <select value={layer.process} onChange={(e) => updateInsideLayer(index, 'process', e.target.value)}>
+                      {PROCESSES.map((p) => <option key={p} value={p}>{p}</option>)}
+                    </select>
+                    <div className="width-input">
+                      <NumberInput value={layer.minWidth} min={0} step={1} onChange={(val) => updateInsideLayer(index, 'minWidth', val)} disabled={index === 0} />
+                      <span className="unit-label">mm</span>
+                    </div>
+                    <button className="btn-remove" onClick={() => removeInsideLayer(index)} disabled={currentItem.insideLayers.length <= 1}>×</button>
+                  </div>
+                ))}
+                <button className="btn-add-layer" onClick={addInsideLayer}>+ Add Process</button>
+                <div className="input-group">
+                  <label>2nd Side Process</label>
+                  <select value={currentItem.outsideProcess} onChange={(e) => updateItem(currentItem.id, { outsideProcess: e.target.value as Exclude<WeldProcess, 'Skip'> })}>
+                    {PROCESSES.map((p) => <option key={p} value={p}>{p}</option>)}
+                  </select>
+                </div>
+                {isSegmented && (
+                  <p className="side-note">Crown and petal seams use the same prep and processes</p>
+                )}
+              </section>
+            </fieldset>
+          </div>
+
+          <div className="editor-panel center">
+            <CircWeldDiagram
+              geometry={{ ...currentItem.weldPrep, shellThickness: currentItem.geometry.thickness, insideDiameter: currentItem.geometry.insideDiameter }}
+              insideLayers={currentItem.insideLayers}
+              outsideProcess={currentItem.outsideProcess}
+            />
+            <p className="diagram-caption">
+              Head to shell • ID: {currentItem.geometry.insideDiameter}mm • Circ: {(currentItem.results.headToShell.circumference / 1000).toFixed(2)}m
+            </p>
+          </div>
+
+          <div className="editor-panel">
+            <div className="result-card">
+              <h3>TOTAL TIME</h3>
+              <div className="value">
+                {Object.values(currentItem.activityCodes).reduce((s, v) => s + v, 0).toFixed(1)}
+              </div>
+              <div className="unit">hours/head</div>
+            </div>
+
+            <div className="results-summary">
+              <div className="result-row">
+                <span>Head-to-Shell Volume</span>
+                <span>{(currentItem.results.headToShell.totalVolume / 1000).toFixed(0)} cm³</span>
+              </div>
+              <div className="result-row">
+                <span>Head-to-Shell Passes</span>
+                <span>{currentItem.results.headToShell.totalPasses}</span>
+              </div>
+              {currentItem.results.crownSeam && (
+                <div className="result-row">
+                  <span>Crown Seam</span>
+                  <span>{currentItem.results.crownSeam.times.totalWeldTime.toFixed(2)} hrs</span>
+                </div>
+              )}
+              {currentItem.results.petalSeams && (
+                <div className="result-row">
+                  <span>Petal Seams (×{currentItem.geometry.petalCount})</span>
+                  <span>{(currentItem.results.petalSeams.times.totalWeldTime * currentItem.geometry.petalCount).toFixed(2)} hrs</span>
+                </div>
+              )}
+              <div className="result-row highlight">
+                <span>Weld Time</span>
+                <span>{currentItem.results.times.totalWeldTime.toFixed(2)} hrs</span>
+              </div>
+            </div>
+
+            <section className="section">
+              <h3>⏱️ Activity Times</h3>
+              <div className="activity-list">
+                {isInHouse && (
+                  <div className="act-row">
+                    <label>Cut Blank</label>
+                    <NumberInput step={0.25} value={currentItem.activityTimes.cutBlank} onChange={(v) => updateActivity('cutBlank', v)} />
+                  </div>
+                )}
+                {isSegmented && (
+                  <div className="act-row">
+                    <label>Fit Crown & Petals</label>
+                    <NumberInput step={0.25} value={currentItem.activityTimes.fitSegments} onChange={(v) => updateActivity('fitSegments', v)} />
+                  </div>
+                )}
+                {isSegmented && (
+                  <div className="act-row calc">
+                    <label>Weld Segments</label>
+                    <span>{currentItem.results.times.segmentWeldTime.toFixed(2)}h</span>
+                  </div>
+                )}
+                {isInHouse ? (
+                  <div className="act-row calc">
+                    <label>Form Head</label>
+                    <span>{currentItem.results.times.formingTime.toFixed(2)}h</span>
+                  </div>
+                ) : (
+                  <div className="act-row">
+                    <label>Receive & Inspect</label>
+                    <NumberInput step={0.25} value={currentItem.activityTimes.receiveInspect} onChange={(v) => updateActivity('receiveInspect', v)} />
+                  </div>
+                )}
+                <div className="act-row">
+                  <label>Fit Head to Shell</label>
+                  <NumberInput step={0.25} value={currentItem.activityTimes.fitUp} onChange={(v) => updateActivity('fitUp', v)} />
+                </div>
+                <div className="act-row">
+                  <label>Pre-heat</label>
+                  <NumberInput step={0.25} value={currentItem.activityTimes.preheat} disabled={!!currentItem.preheatResult} onChange={(v) => updateActivity('preheat', v)} />
+                </div>
+                <div className="act-row calc">
+                  <label>Weld Head to Shell</label>
+                  <span>{currentItem.results.times.headWeldTime.toFixed(2)}h</span>
+                </div>
+                <div className="act-row">
+                  <label>Back Gouge</label>
+                  <NumberInput step={0.25} value={currentItem.activityTimes.backGouge} onChange={(v) => updateActivity('backGouge', v)} />
+                </div>
+                <div className="act-row">
+                  <label>NDE</label>
+                  <NumberInput step={0.25} value={currentItem.activityTimes.nde} disabled={!!currentItem.ndeResult} onChange={(v) => updateActivity('nde', v)} />
+                </div>
+              </div>
+            </section>
+
+            <section className="section">
+              <h3>Activity Codes</h3>
+              <div className="codes-grid">
+                {Object.entries(currentItem.activityCodes)
+                  .filter(([, hours]) => hours > 0)
+                  .map(([code, hours]) => (
+                    <div key={code} className="code-box"><span className="code">{code}</span><span>{hours.toFixed(2)}h</span></div>
+                  ))}
+              </div>
+            </section>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getHeadDimensions,
+  getMeridianArcLength,
+  calculateHead,
+  calculateHeadActivityCodes,
+} from './engine';
+import {
+  DEFAULT_HEAD_GEOMETRY,
+  DEFAULT_HEAD_WELD_PREP,
+  DEFAULT_HEAD_FORMING,
+  DEFAULT_HEAD_ACTIVITY_TIMES,
+  DEFAULT_HEAD_LAYERS,
+} from './types';
+import type { HeadForming, HeadGeometry, HeadItem } from './types';
+import { DEFAULT_SETTINGS } from '../../shared/settings/defaults';
+
+const head = (geometry: Partial<HeadGeometry>, forming: Partial<HeadForming> = {}): HeadItem => ({
+  id: 'h1',
+  tag: 'H1',
+  quantity: 1,
+  geometry: { ...DEFAULT_HEAD_GEOMETRY, ...geometry },
+  weldPrep: DEFAULT_HEAD_WELD_PREP,
+  forming: { ...DEFAULT_HEAD_FORMING, ...forming },
+  insideLayers: DEFAULT_HEAD_LAYERS,
+  outsideProcess: 'SAW',
+  activityTimes: DEFAULT_HEAD_ACTIVITY_TIMES,
+});
+
+// Hemispherical ID 2000 - R = 1000
+const HEMI = { headType: 'hemispherical' as const, insideDiameter: 2000, straightFlange: 0 };
+
+describe('Heads', () => {
+  describe('geometry', () => {
+    it('gives a hemisphere 2πR² and a quarter circle meridian', () => {
+      const { depth, meridianLength, surfaceArea } = getHeadDimensions({ ...DEFAULT_HEAD_GEOMETRY, ...HEMI });
+
+      expect(depth).toBe(1000);
+      expect(meridianLength).toBeCloseTo((Math.PI / 2) * 1000, 6);
+      expect(surfaceArea).toBeCloseTo((2 * Math.PI * 1000 ** 2) / 1e6, 6);
+
+      // The straight flange adds a cylinder π × ID × SF
+      const flanged = getHeadDimensions({ ...DEFAULT_HEAD_GEOMETRY, ...HEMI, straightFlange: 50 });
+      expect(flanged.surfaceArea - surfaceArea).toBeCloseTo((Math.PI * 2000 * 50) / 1e6, 6);
+    });
+
+    it('measures the meridian arc out to a radius', () => {
+      // x = R sin θ, so x = R/2 is 30° from the pole
+      expect(getMeridianArcLength('hemispherical', 2000, 500)).toBeCloseTo((Math.PI / 6) * 1000, 3);
+      // Past the tangent line it stops at the full meridian
+      expect(getMeridianArcLength('hemispherical', 2000, 5000)).toBeCloseTo((Math.PI / 2) * 1000, 3);
+    });
+
+    it('makes a 2:1 ellipsoidal head ID/4 deep', () => {
+      const { depth, surfaceArea } = getHeadDimensions({
+        ...DEFAULT_HEAD_GEOMETRY,
+        headType: 'ellipsoidal',
+        insideDiameter: 2000,
+        straightFlange: 0,
+      });
+      expect(depth).toBe(2000 / 4);
+
+      // Half an oblate spheroid: πa² + (πb² / 2e) ln((1 + e) / (1 - e))
+      const a = 1000;
+      const b = 500;
+      const e = Math.sqrt(1 - (b / a) ** 2);
+      const area = Math.PI * a ** 2 + ((Math.PI * b ** 2) / (2 * e)) * Math.log((1 + e) / (1 - e));
+      expect(surfaceArea).toBeCloseTo(area / 1e6, 3);
+    });
+  });
+
+  describe('forming', () => {
+    it('receives a bought-in head formed and welded', () => {
+      const item = head({ ...HEMI, thickness: 20, petalCount: 6 }, { source: 'boughtIn' });
+      const results = calculateHead(item, DEFAULT_SETTINGS);
+
+      // Petals are the supplier's - only the head-to-shell seam is welded here
+      expect(results.crownSeam).toBeNull();
+      expect(results.petalSeams).toBeNull();
+      expect(results.times.formingTime).toBe(0);
+      expect(results.times.segmentWeldTime).toBe(0);
+      expect(results.headToShell.circumference).toBeCloseTo(Math.PI * 2000, 6);
+
+      const codes = calculateHeadActivityCodes(item.activityTimes, results, item.forming, 6);
+      expect(codes).toMatchObject({
+        MATCUT: 0,
+        FORMHD: DEFAULT_HEAD_ACTIVITY_TIMES.receiveInspect,
+        FHEAD: DEFAULT_HEAD_ACTIVITY_TIMES.fitUp,
+        WSEG: 0,
+        WHEAD: results.times.headWeldTime,
+      });
+    });
+
+    it('forms an in-house head from setup plus blank area × thickness', () => {
+      const item = head({ ...HEMI, thickness: 20, petalCount: 0 }, { source: 'inHouse', setupHours: 4, hoursPerM2mm: 0.15 });
+      const results = calculateHead(item, DEFAULT_SETTINGS);
+
+      expect(results.times.formingTime).toBeCloseTo(4 + results.surfaceArea * 20 * 0.15, 6);
+      // A one-piece blank has no segment seams
+      expect(results.crownSeam).toBeNull();
+      expect(results.petalSeams).toBeNull();
+
+      const codes = calculateHeadActivityCodes(item.activityTimes, results, item.forming, 0);
+      expect(codes.MATCUT).toBe(DEFAULT_HEAD_ACTIVITY_TIMES.cutBlank);
+      expect(codes.FORMHD).toBe(results.times.formingTime);
+      expect(codes.FHEAD).toBe(DEFAULT_HEAD_ACTIVITY_TIMES.fitUp);
+    });
+  });
+
+  describe('petal seams', () => {
+    it('welds a crown and one meridional seam per petal', () => {
+      const item = head({ ...HEMI, straightFlange: 50, thickness: 20, petalCount: 6, crownDiameter: 1000 }, { source: 'inHouse' });
+      const results = calculateHead(item, DEFAULT_SETTINGS);
+
+      // Crown edge at 30° - petals run the remaining 60° of meridian plus the straight flange
+      expect(results.petalSeamLength).toBeCloseTo((Math.PI / 3) * 1000 + 50, 3);
+      expect(results.crownSeam?.circumference).toBeCloseTo(Math.PI * 1000, 6);
+
+      const { crownSeam, petalSeams, times } = results;
+      expect(times.segmentWeldTime).toBeCloseTo(crownSeam!.times.totalWeldTime + 6 * petalSeams!.times.totalWeldTime, 6);
+      expect(times.totalWeldTime).toBeCloseTo(times.headWeldTime + times.segmentWeldTime, 6);
+
+      const codes = calculateHeadActivityCodes(item.activityTimes, results, item.forming, 6);
+      expect(codes.WSEG).toBe(times.segmentWeldTime);
+      expect(codes.FHEAD).toBe(DEFAULT_HEAD_ACTIVITY_TIMES.fitUp + DEFAULT_HEAD_ACTIVITY_TIMES.fitSegments);
+    });
+
+    it('runs petals from the pole when there is no crown', () => {
+      const results = calculateHead(
+        head({ ...HEMI, straightFlange: 50, petalCount: 4, crownDiameter: 0 }, { source: 'inHouse' }),
+        DEFAULT_SETTINGS
+      );
+
+      expect(results.crownSeam).toBeNull();
+      expect(results.petalSeamLength).toBeCloseTo(results.meridianLength + 50, 3);
+      expect(results.times.segmentWeldTime).toBeCloseTo(4 * results.petalSeams!.times.totalWeldTime, 6);
+    });
+  });
+});
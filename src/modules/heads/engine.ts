@@ -0,0 +1,324 @@
+import type { SharedSettings, WeldProcedure } from '../../shared/types';
+import { calculateCircWeld } from '../circwelds/engine';
+import { calculateLongWeld } from '../longwelds/engine';
+import { mergeDeposits } from '../../engine/consumables';
+import { procedureVeePrep } from '../../engine/procedures';
+import { calculatePreheat, getPreheatHours } from '../../engine/preheat';
+import type { AppliedPreheat } from '../../engine/preheat';
+import { applyNde } from '../../engine/nde';
+import type { AppliedNde, NdeCoverage } from '../../engine/nde';
+import { DEFAULT_CIRC_WELD_ACTIVITY_TIMES } from '../circwelds/types';
+import type { CircWeldResults } from '../circwelds/types';
+import { DEFAULT_LONG_WELD_ACTIVITY_TIMES } from '../longwelds/types';
+import type { LongWeldResults } from '../longwelds/types';
+import type {
+  HeadItem,
+  HeadType,
+  HeadGeometry,
+  HeadResults,
+  HeadActivityCodes,
+  HeadActivityTimes,
+  HeadForming,
+} from './types';
+
+const SIMPSON_STEPS = 64;
+
+/**
+ * Meridian profile of a head as a function of a parameter t (0 at the pole).
+ * Returns the radial position x, the arc length rate ds/dt and the angle of
+ * the surface normal from the vessel axis.
+ *
+ * - Hemispherical: sphere of radius R = ID/2
+ * - Ellipsoidal 2:1: semi-axes a = R, b = R/2
+ * - Torispherical (ASME F&D): crown radius = ID, knuckle radius = 0.1 × ID
+ */
+function getProfile(headType: HeadType, insideDiameter: number) {
+  const R = insideDiameter / 2;
+
+  switch (headType) {
+    case 'hemispherical':
+      return {
+        tMax: Math.PI / 2,
+        x: (t: number) => R * Math.sin(t),
+        ds: () => R,
+        normal: (t: number) => t,
+        depth: R,
+      };
+    case 'ellipsoidal': {
+      const a = R;
+      const b = R / 2;
+      return {
+        tMax: Math.PI / 2,
+        x: (t: number) => a * Math.sin(t),
+        ds: (t: number) => Math.sqrt((a * Math.cos(t)) ** 2 + (b * Math.sin(t)) ** 2),
+        normal: (t: number) => Math.atan((b / a) * Math.tan(t)),
+        depth: b,
+      };
+    }
+    case 'torispherical': {
+      const crownRadius = insideDiameter;
+      const knuckleRadius = 0.1 * insideDiameter;
+      // Angle from the axis where the crown meets the knuckle
+      const alpha = Math.asin((R - knuckleRadius) / (crownRadius - knuckleRadius));
+      return {
+        tMax: Math.PI / 2,
+        x: (t: number) => t <= alpha
+          ? crownRadius * Math.sin(t)
+          : (R - knuckleRadius) + knuckleRadius * Math.sin(t),
+        ds: (t: number) => t <= alpha ? crownRadius : knuckleRadius,
+        normal: (t: number) => t,
+        depth: crownRadius * (1 - Math.cos(alpha)) + knuckleRadius * Math.cos(alpha),
+      };
+    }
+  }
+}
+
+/**
+ * Integrate f over [0, tEnd] with Simpson's rule
+ */
+function integrate(f: (t: number) => number, tEnd: number): number {
+  if (tEnd <= 0) return 0;
+  const h = tEnd / SIMPSON_STEPS;
+  let sum = f(0) + f(tEnd);
+  for (let i = 1; i < SIMPSON_STEPS; i++) {
+    sum += f(i * h) * (i % 2 === 0 ? 2 : 4);
+  }
+  return (sum * h) / 3;
+}
+
+/**
+ * Find the profile parameter where the radial position reaches x (bisection)
+ */
+function parameterAtRadius(profile: ReturnType<typeof getProfile>, x: number): number {
+  let lo = 0;
+  let hi = profile.tMax;
+  for (let i = 0; i < 50; i++) {
+    const mid = (lo + hi) / 2;
+    if (profile.x(mid) < x) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * Meridian arc length from the pole out to radial position x
+ */
+export function getMeridianArcLength(headType: HeadType, insideDiameter: number, x: number): number {
+  const profile = getProfile(headType, insideDiameter);
+  const tEnd = parameterAtRadius(profile, Math.min(x, insideDiameter / 2));
+  return integrate(profile.ds, tEnd);
+}
+
+/**
+ * Angle (radians) of the head surface normal from the vessel axis at radial
+ * position x - the slope of the dished surface there
+ */
+export function getSurfaceAngle(headType: HeadType, insideDiameter: number, x: number): number {
+  const profile = getProfile(headType, insideDiameter);
+  return profile.normal(parameterAtRadius(profile, Math.min(Math.abs(x), insideDiameter / 2)));
+}
+
+/**
+ * Head depth, meridian length and surface area (m², including straight flange)
+ *
+ * Area is the surface of revolution 2π ∫ x ds along the meridian.
+ */
+export function getHeadDimensions(geometry: HeadGeometry) {
+  const { headType, insideDiameter, straightFlange } = geometry;
+  const profile = getProfile(headType, insideDiameter);
+
+  const meridianLength = integrate(profile.ds, profile.tMax);
+  const dishedArea = 2 * Math.PI * integrate(t => profile.x(t) * profile.ds(t), profile.tMax);
+  const flangeArea = Math.PI * insideDiameter * straightFlange;
+
+  return {
+    depth: profile.depth,
+    meridianLength,
+    surfaceArea: (dishedArea + flangeArea) / 1e6,
+  };
+}
+
+/**
+ * Forming time for in-house heads - setup plus blank area × thickness.
+ * Bought-in heads arrive formed, so there is nothing to form.
+ */
+export function calculateFormingTime(forming: HeadForming, surfaceArea: number, thickness: number): number {
+  if (forming.source === 'boughtIn') return 0;
+  return forming.setupHours + surfaceArea * thickness * forming.hoursPerM2mm;
+}
+
+/**
+ * Head with the WPS joint prep and processes applied to its head-to-shell and segment seams
+ */
+export function applyHeadProcedure(item: HeadItem, procedure: WeldProcedure): HeadItem {
+  return {
+    ...item,
+    weldPrep: { ...item.weldPrep, ...procedureVeePrep(procedure) },
+    insideLayers: procedure.layers.map(layer => ({ ...layer })),
+    outsideProcess: procedure.backProcess,
+  };
+}
+
+/**
+ * Main calculation function for heads
+ *
+ * - Head-to-shell seam: a circ weld around π × ID (calculateCircWeld)
+ * - Crown-to-petal seam: a circ weld around the crown diameter (calculateCircWeld)
+ * - Petal seams: one meridional seam per petal from the crown to the tangent line (calculateLongWeld)
+ *
+ * Segment seams only apply to in-house heads with petals - bought-in heads arrive welded.
+ */
+export function calculateHead(
+  item: HeadItem,
+  settings: SharedSettings
+): HeadResults {
+  const { geometry, weldPrep, forming, insideLayers, outsideProcess } = item;
+  const { insideDiameter, thickness, petalCount, crownDiameter, straightFlange, headType } = geometry;
+
+  const { depth, meridianLength, surfaceArea } = getHeadDimensions(geometry);
+
+  const headToShell = calculateCircWeld({
+    id: item.id,
+    tag: item.tag,
+    quantity: 1,
+    geometry: { ...weldPrep, shellThickness: thickness, insideDiameter },
+    insideLayers,
+    outsideProcess,
+    activityTimes: DEFAULT_CIRC_WELD_ACTIVITY_TIMES,
+  }, settings);
+
+  const isSegmented = forming.source === 'inHouse' && petalCount > 0;
+  const crownDia = Math.min(crownDiameter, insideDiameter);
+
+  let crownSeam: CircWeldResults | null = null;
+  let petalSeams: LongWeldResults | null = null;
+  let petalSeamLength = 0;
+
+  if (isSegmented) {
+    petalSeamLength = Math.max(0,
+      meridianLength - getMeridianArcLength(headType, insideDiameter, crownDia / 2) + straightFlange
+    );
+
+    if (crownDia > 0) {
+      crownSeam = calculateCircWeld({
+        id: item.id,
+        tag: item.tag,
+        quantity: 1,
+        geometry: { ...weldPrep, shellThickness: thickness, insideDiameter: crownDia },
+        insideLayers,
+        outsideProcess,
+        activityTimes: DEFAULT_CIRC_WELD_ACTIVITY_TIMES,
+      }, settings);
+    }
+
+    petalSeams = calculateLongWeld({
+      id: item.id,
+      tag: item.tag,
+      quantity: 1,
+      geometry: { ...weldPrep, shellThickness: thickness, weldLength: petalSeamLength },
+      insideLayers,
+      outsideProcess,
+      activityTimes: DEFAULT_LONG_WELD_ACTIVITY_TIMES,
+    }, settings);
+  }
+
+  const headWeldTime = headToShell.times.totalWeldTime;
+  const segmentWeldTime =
+    (crownSeam?.times.totalWeldTime || 0) +
+    (petalSeams ? petalSeams.times.totalWeldTime * petalCount : 0);
+
+  return {
+    depth,
+    meridianLength,
+    surfaceArea,
+    headToShell,
+    crownSeam,
+    petalSeams,
+    petalSeamLength,
+    times: {
+      formingTime: calculateFormingTime(forming, surfaceArea, thickness),
+      headWeldTime,
+      segmentWeldTime,
+      totalWeldTime: headWeldTime + segmentWeldTime,
+    },
+    deposits: mergeDeposits(
+      [headToShell.deposits, 1],
+      [crownSeam?.deposits, 1],
+      [petalSeams?.deposits, petalCount]
+    ),
+  };
+}
+
+/**
+ * Calculated preheat over the head-to-shell seam and any segment seams
+ */
+export function applyHeadPreheat(
+  item: HeadItem,
+  results: HeadResults,
+  settings: SharedSettings
+): AppliedPreheat<HeadActivityTimes> {
+  if (!item.preheat?.calculate) return { activityTimes: item.activityTimes, preheat: null };
+
+  const seamLength = results.headToShell.circumference
+    + (results.crownSeam?.circumference ?? 0)
+    + (results.petalSeams ? results.petalSeamLength * item.geometry.petalCount : 0);
+  const preheat = calculatePreheat(item.preheat, item.geometry.thickness, seamLength, settings.preheat);
+  return {
+    activityTimes: {
+      ...item.activityTimes,
+      preheat: getPreheatHours(preheat, results.times.totalWeldTime),
+    },
+    preheat,
+  };
+}
+
+/**
+ * Calculated NDE - the head-to-shell and crown seams are circ welds, the
+ * petal seams long welds
+ */
+export function applyHeadNde(
+  item: HeadItem,
+  activityTimes: HeadActivityTimes,
+  results: HeadResults,
+  coverage: NdeCoverage | null,
+  settings: SharedSettings
+): AppliedNde<HeadActivityTimes> {
+  return applyNde(activityTimes, [
+    { category: 'circWelds', length: results.headToShell.circumference + (results.crownSeam?.circumference ?? 0) },
+    { category: 'longWelds', length: results.petalSeams ? results.petalSeamLength * item.geometry.petalCount : 0 },
+  ], coverage, settings.nde);
+}
+
+/**
+ * Calculate activity codes from activity times and head results
+ *
+ * Activity flow:
+ * 1. Cut blank / segments - MATCUT (in-house only)
+ * 2. Fit and weld crown + petals - FHEAD / WSEG (segmented in-house heads)
+ * 3. Form head - FORMHD (in-house), or receive and inspect - FORMHD (bought-in)
+ * 4. Fit head to shell - FHEAD
+ * 5. Pre-heat - PREHEAT
+ * 6. Weld head to shell - WHEAD
+ * 7. Back gouge - BACGRI
+ * 8. NDE
+ */
+export function calculateHeadActivityCodes(
+  activityTimes: HeadActivityTimes,
+  results: HeadResults,
+  forming: HeadForming,
+  petalCount: number
+): HeadActivityCodes {
+  const isInHouse = forming.source === 'inHouse';
+  const isSegmented = isInHouse && petalCount > 0;
+
+  return {
+    MATCUT: isInHouse ? activityTimes.cutBlank : 0,
+    FORMHD: isInHouse ? results.times.formingTime : activityTimes.receiveInspect,
+    FHEAD: activityTimes.fitUp + (isSegmented ? activityTimes.fitSegments : 0),
+    PREHEAT: activityTimes.preheat,
+    WSEG: results.times.segmentWeldTime,
+    WHEAD: results.times.headWeldTime,
+    BACGRI: activityTimes.backGouge,
+    NDE: activityTimes.nde,
+  };
+}
@@ -0,0 +1,3 @@
+export { HeadsModule } from './HeadsModule';
+export * from './types';
+export * from './engine';
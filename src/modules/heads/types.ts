@@ -0,0 +1,160 @@
+import type { WeldProcess, DepositByProcess, PreheatInput } from '../../shared/types';
+import type { CircWeldGeometry, CircWeldResults, ProcessLayer } from '../circwelds/types';
+import type { LongWeldResults } from '../longwelds/types';
+
+export type { ProcessLayer } from '../circwelds/types';
+
+/**
+ * Heads (Dished Ends) Types
+ *
+ * Heads close off each end of the shell. Each head is welded to the shell with a
+ * circ seam, and large heads are fabricated from a crown plus petals - the petal
+ * seams and the crown-to-petal seam are welded before forming is finished.
+ */
+
+export type HeadType = 'torispherical' | 'ellipsoidal' | 'hemispherical';
+
+export type HeadFormingSource = 'boughtIn' | 'inHouse';
+
+export interface HeadGeometry {
+  headType: HeadType;
+  insideDiameter: number;      // mm - matches the shell ID
+  thickness: number;           // mm - head thickness after forming
+  straightFlange: number;      // mm
+
+  // Segmented heads (petalCount 0 = one-piece head)
+  petalCount: number;
+  crownDiameter: number;       // mm - diameter of the crown-to-petal seam
+}
+
+/**
+ * Weld prep for the head-to-shell seam - the segment seams use the same prep.
+ * Thickness and diameter come from the head geometry.
+ */
+export type HeadWeldPrep = Omit<CircWeldGeometry, 'shellThickness' | 'insideDiameter'>;
+
+export interface HeadForming {
+  source: HeadFormingSource;
+  setupHours: number;          // Die / spinning setup per head
+  hoursPerM2mm: number;        // Forming hours per m² of blank per mm of thickness
+}
+
+export interface HeadItem {
+  id: string;
+  tag: string;                 // e.g., "Top Head", "H1"
+  quantity: number;            // Number of identical heads
+  wpsNumber?: string;          // WPS reference - prep and processes come from the library
+  preheat?: PreheatInput;      // Calculated preheat - hand-entered hours when absent
+
+  geometry: HeadGeometry;
+  weldPrep: HeadWeldPrep;
+  forming: HeadForming;
+
+  // Process strategy
+  insideLayers: ProcessLayer[];
+  outsideProcess: Exclude<WeldProcess, 'Skip'>;
+
+  // Activity times (hours)
+  activityTimes: HeadActivityTimes;
+
+  // Calculated results
+  results?: HeadResults;
+  activityCodes?: HeadActivityCodes;
+}
+
+export interface HeadActivityTimes {
+  cutBlank: number;        // Cut blank / crown and petals - MATCUT
+  receiveInspect: number;  // Receive and inspect bought-in head - FORMHD
+  fitSegments: number;     // Fit crown and petals - FHEAD
+  fitUp: number;           // Fit head to shell - FHEAD
+  preheat: number;         // Pre-heat - PREHEAT
+  backGouge: number;       // Back gouge / grind - BACGRI
+  nde: number;             // NDE inspection - NDE
+}
+
+export interface HeadResults {
+  // Head geometry
+  depth: number;             // mm - inside depth excluding straight flange
+  meridianLength: number;    // mm - pole to tangent line
+  surfaceArea: number;       // m² - including straight flange
+
+  // Welds
+  headToShell: CircWeldResults;
+  crownSeam: CircWeldResults | null;
+  petalSeams: LongWeldResults | null;  // Per petal seam
+  petalSeamLength: number;             // mm - per petal seam
+
+  // Times (hours)
+  times: {
+    formingTime: number;
+    headWeldTime: number;
+    segmentWeldTime: number;
+    totalWeldTime: number;
+  };
+
+  // Weld metal by process (consumables)
+  deposits: DepositByProcess;
+}
+
+export interface HeadActivityCodes {
+  MATCUT: number;     // Cut blank / segments
+  FORMHD: number;     // Form head in-house, or receive bought-in head
+  FHEAD: number;      // Fit segments + fit head to shell
+  PREHEAT: number;    // Pre-heat
+  WSEG: number;       // Weld crown and petal seams
+  WHEAD: number;      // Weld head to shell
+  BACGRI: number;     // Back gouge
+  NDE: number;        // NDE inspection
+}
+
+// Module data stored in project
+export interface HeadsModuleData {
+  items: HeadItem[];
+}
+
+export const HEAD_TYPE_LABELS: Record<HeadType, string> = {
+  torispherical: 'Torispherical (F&D)',
+  ellipsoidal: 'Ellipsoidal 2:1',
+  hemispherical: 'Hemispherical',
+};
+
+// Default values
+export const DEFAULT_HEAD_GEOMETRY: HeadGeometry = {
+  headType: 'torispherical',
+  insideDiameter: 3000,
+  thickness: 22,
+  straightFlange: 50,
+  petalCount: 0,
+  crownDiameter: 1500,
+};
+
+export const DEFAULT_HEAD_WELD_PREP: HeadWeldPrep = {
+  jointType: 'doublevee',
+  insideBevelAngle: 30,
+  outsideBevelAngle: 30,
+  rootGap: 3,
+  rootFace: 2,
+  splitRatio: 60,
+};
+
+export const DEFAULT_HEAD_FORMING: HeadForming = {
+  source: 'boughtIn',
+  setupHours: 4,
+  hoursPerM2mm: 0.15,
+};
+
+export const DEFAULT_HEAD_ACTIVITY_TIMES: HeadActivityTimes = {
+  cutBlank: 1.0,       // Cut blank
+  receiveInspect: 0.5, // Receive and inspect
+  fitSegments: 2.0,    // Fit crown and petals
+  fitUp: 1.5,          // Fit head to shell
+  preheat: 0.5,        // Pre-heat
+  backGouge: 0.75,     // Back gouge
+  nde: 0.5,            // NDE
+};
+
+export const DEFAULT_HEAD_LAYERS: ProcessLayer[] = [
+  { process: 'GTAW', minWidth: 0 },
+  { process: 'SMAW', minWidth: 8 },
+  { process: 'SAW', minWidth: 15 },
+];
@@ -0,0 +1,532 @@
+import { useState, useMemo, useCallback, useEffect } from 'react';
+import type { WeldProcess, PreheatInput } from '../../shared/types';
+import { NumberInput, WpsSelector, PreheatPanel } from '../../shared/components';
+import { useProject } from '../../project';
+import type {
+  InternalItem,
+  InternalItemType,
+  InternalGeometry,
+  InternalActivityTimes,
+  InternalsModuleData,
+  InternalActivityCodes,
+} from './types';
+import {
+  DEFAULT_INTERNAL_GEOMETRY,
+  DEFAULT_INTERNAL_ACTIVITY_TIMES,
+  INTERNAL_ITEM_TEMPLATES,
+} from './types';
+import { calculateInternal, calculateInternalActivityCodes, applyInternalProcedure, applyInternalPreheat, applyInternalNde } from './engine';
+import { InternalWeldDiagram } from './components/InternalWeldDiagram';
+import { sumItemDeposits } from '../../engine/consumables';
+import { sumItemNde } from '../../engine/nde';
+import { getNdeCoverage } from '../offer/types';
+import type { OfferData } from '../offer/types';
+import { resolveProcedure } from '../../engine/procedures';
+import './InternalsModule.css';
+
+const PROCESSES: Exclude<WeldProcess, 'Skip'>[] = ['GTAW', 'SMAW', 'FCAW', 'GMAW', 'SAW'];
+
+const ITEM_TYPES = Object.keys(INTERNAL_ITEM_TEMPLATES) as InternalItemType[];
+
+type TabType = 'list' | 'editor';
+
+function generateId(): string {
+  return Math.random().toString(36).substr(2, 9);
+}
+
+function createNewInternal(tag: string, itemType: InternalItemType): InternalItem {
+  return {
+    id: generateId(),
+    tag,
+    itemType,
+    quantity: 1,
+    geometry: { ...DEFAULT_INTERNAL_GEOMETRY, ...INTERNAL_ITEM_TEMPLATES[itemType].geometry },
+    weldProcess: 'FCAW',
+    activityTimes: { ...DEFAULT_INTERNAL_ACTIVITY_TIMES },
+  };
+}
+
+// Ensure item has all required fields (migration for older data)
+function migrateItem(item: InternalItem): InternalItem {
+  return {
+    ...item,
+    geometry: {
+      ...DEFAULT_INTERNAL_GEOMETRY,
+      ...item.geometry,
+    },
+    activityTimes: {
+      ...DEFAULT_INTERNAL_ACTIVITY_TIMES,
+      ...item.activityTimes,
+    },
+  };
+}
+
+export function InternalsModule() {
+  const { getModuleData, setModuleData, updateModuleSummary, settings } = useProject();
+
+  // Load module data from project and migrate if needed
+  const moduleData = getModuleData<InternalsModuleData>('internals');
+  const items = (moduleData?.items || []).map(migrateItem);
+  const offerNde = getModuleData<OfferData>('offer')?.nde;
+  const ndeCoverage = useMemo(() => getNdeCoverage(offerNde), [offerNde]);
+
+  const [activeTab, setActiveTab] = useState<TabType>('list');
+  const [selectedItemId, setSelectedItemId] = useState<string | null>(items[0]?.id || null);
+  const [newItemType, setNewItemType] = useState<InternalItemType>('baffle');
+
+  // Update items helper
+  const updateItems = useCallback((updater: (prev: InternalItem[]) => InternalItem[]) => {
+    const newItems = updater(items);
+    setModuleData<InternalsModuleData>('internals', { items: newItems });
+  }, [items, setModuleData]);
+
+  // Calculate results for all items
+  const itemsWithResults = useMemo(() => {
+    return items.map(stored => {
+      // WPS process replaces the item's own
+      const { item, settings: itemSettings, procedure } = resolveProcedure(stored, settings, applyInternalProcedure);
+      const results = calculateInternal(item, itemSettings);
+      const { activityTimes: heated, preheat: preheatResult } = applyInternalPreheat(item, results, itemSettings);
+      const { activityTimes, nde: ndeResult } = applyInternalNde(item, heated, results, ndeCoverage, itemSettings);
+      const activityCodes = calculateInternalActivityCodes(activityTimes, results);
+      return { ...item, activityTimes, results, activityCodes, procedure, preheatResult, ndeResult };
+    });
+  }, [items, settings, ndeCoverage]);
+
+  // Update module summary whenever results change
+  useEffect(() => {
+    const itemCount = itemsWithResults.reduce((sum, i) => sum + i.quantity, 0);
+    const totalHours = itemsWithResults.reduce((sum, i) => {
+      const codes = i.activityCodes;
+      return sum + (Object.values(codes).reduce((s, v) => s + v, 0) * i.quantity);
+    }, 0);
+
+    // Build activity breakdown
+    const activityBreakdown: Record<string, number> = {};
+    itemsWithResults.forEach(i => {
+      const qty = i.quantity;
+      Object.entries(i.activityCodes).forEach(([code, hours]) => {
+        activityBreakdown[code] = (activityBreakdown[code] || 0) + hours * qty;
+      });
+    });
+
+    updateModuleSummary('internals', {
+      moduleId: 'internals',
+      moduleName: 'Internals',
+      itemCount,
+      totalHours,
+      activityBreakdown,
+      deposits: sumItemDeposits(itemsWithResults),
+      nde: sumItemNde(itemsWithResults),
+      itemCodes: Object.fromEntries(itemsWithResults.map(i => [i.id, { ...i.activityCodes }])),
+    });
+  }, [itemsWithResults, updateModuleSummary]);
+
+  // Get current item
+  const currentItem = useMemo(() =>
+    itemsWithResults.find(i => i.id === selectedItemId) || itemsWithResults[0],
+    [itemsWithResults, selectedItemId]
+  );
+
+  // Calculate totals
+  const moduleTotals = useMemo(() => {
+    const totals: InternalActivityCodes = { MATCUT: 0, FINT: 0, PREHEAT: 0, WINT: 0, NDE: 0 };
+    let totalItems = 0;
+    let grandTotal = 0;
+
+    itemsWithResults.forEach(item => {
+      const qty = item.quantity;
+      totalItems += qty;
+      if (item.activityCodes) {
+        Object.keys(totals).forEach(key => {
+          const k = key as keyof InternalActivityCodes;
+          totals[k] += item.activityCodes![k] * qty;
+        });
+        grandTotal += Object.values(item.activityCodes).reduce((sum, v) => sum + v, 0) * qty;
+      }
+    });
+
+    return { totals, totalItems, grandTotal };
+  }, [itemsWithResults]);
+
+  // Update single item
+  const updateItem = useCallback((id: string, updates: Partial<InternalItem>) => {
+    updateItems(prev => prev.map(i => i.id === id ? { ...i, ...updates } : i));
+  }, [updateItems]);
+
+  // Update geometry
+  const updateGeometry = (field: keyof InternalGeometry, value: number | string) => {
+    if (!currentItem) return;
+    updateItem(currentItem.id, {
+      geometry: { ...currentItem.geometry, [field]: value }
+    });
+  };
+
+  // Update activity time
+  // Change WPS - the current process is kept on the item so it carries over when the WPS is removed
+  const setProcedure = (wpsNumber: string | undefined) => {
+    if (!currentItem) return;
+    const { results, activityCodes, procedure, preheatResult, ndeResult, ...item } = currentItem;
+    updateItem(currentItem.id, { ...item, wpsNumber });
+  };
+
+  const setPreheat = (preheat: PreheatInput) => {
+    if (!currentItem) return;
+    updateItem(currentItem.id, { preheat });
+  };
+
+  const updateActivity = (field: keyof InternalActivityTimes, value: number) => {
+    if (!currentItem) return;
+    updateItem(currentItem.id, {
+      activityTimes: { ...currentItem.activityTimes, [field]: value }
+    });
+  };
+
+  // Change item type - applies the template defaults for the new type
+  const changeItemType = (itemType: InternalItemType) => {
+    if (!currentItem) return;
+    updateItem(currentItem.id, {
+      itemType,
+      geometry: { ...currentItem.geometry, ...INTERNAL_ITEM_TEMPLATES[itemType].geometry },
+    });
+  };
+
+  // Add new item
+  const addItem = () => {
+    const label = INTERNAL_ITEM_TEMPLATES[newItemType].label;
+    const count = items.filter(i => i.itemType === newItemType).length;
+    const newItem = createNewInternal(`${label} ${count + 1}`, newItemType);
+    updateItems(prev => [...prev, newItem]);
+    setSelectedItemId(newItem.id);
+    setActiveTab('list');
+    setTimeout(() => {
+      const input = document.querySelector(`input[data-id="${newItem.id}"]`) as HTMLInputElement;
+      if (input) {
+        input.focus();
+        input.select();
+      }
+    }, 0);
+  };
+
+  // Duplicate item
+  const duplicateItem = (item: InternalItem) => {
+    const newItem: InternalItem = {
+      ...item,
+      id: generateId(),
+      tag: `${item.tag}-copy`,
+      geometry: { ...item.geometry },
+      activityTimes: { ...item.activityTimes },
+    };
+    updateItems(prev => [...prev, newItem]);
+  };
+
+  // Delete item
+  const deleteItem = (id: string) => {
+    updateItems(prev => prev.filter(i => i.id !== id));
+    if (selectedItemId === id) {
+      const remaining = items.filter(i => i.id !== id);
+      setSelectedItemId(remaining.length > 0 ? remaining[0].id : null);
+    }
+  };
+
+  const isRing = currentItem ? INTERNAL_ITEM_TEMPLATES[currentItem.itemType].isRing : false;
+
+  return (
+    <div className="internals-module">
+      <div className="module-toolbar">
+        <div className="toolbar-left">
+          <button className={activeTab === 'list' ? 'active' : ''} onClick={() => setActiveTab('list')}>
+            List
+          </button>
+          <button className={activeTab === 'editor' ? 'active' : ''} onClick={() => setActiveTab('editor')} disabled={!currentItem}>
+            Editor
+          </button>
+        </div>
+        <div className="toolbar-center">
+          <select className="type-select" value={newItemType} onChange={(e) => setNewItemType(e.target.value as InternalItemType)}>
+            {ITEM_TYPES.map(t => <option key={t} value={t}>{INTERNAL_ITEM_TEMPLATES[t].label}</option>)}
+          </select>
+          <button className="btn-add" onClick={addItem}>+ Add Internal</button>
+        </div>
+        <div className="toolbar-right">
+          <span className="stats">{moduleTotals.totalItems} items • {moduleTotals.grandTotal.toFixed(1)} hrs</span>
+        </div>
+      </div>
+
+      {/* LIST TAB */}
+      {activeTab === 'list' && (
+        <div className="weld-table-container">
+          {itemsWithResults.length === 0 ? (
+            <p className="empty-message">No internal attachments yet. Pick a type and click "+ Add Internal".</p>
+          ) : (
+            <table className="weld-table">
+              <thead>
+                <tr>
+                  <th>Tag</th>
+                  <th>Type</th>
+                  <th>Qty</th>
+                  <th>Weld</th>
+                  <th>Leg</th>
+                  <th>Length</th>
+                  <th>MATCUT</th>
+                  <th>FINT</th>
+                  <th>PREHEAT</th>
+                  <th>WINT</th>
+                  <th>NDE</th>
+                  <th>Total/ea</th>
+                  <th>Total</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {itemsWithResults.map((item) => {
+                  const codes = item.activityCodes!;
+                  const totalPer = Object.values(codes).reduce((s, v) => s + v, 0);
+                  const totalQty = totalPer * item.quantity;
+                  return (
+                    <tr key={item.id} className={item.id === selectedItemId ? 'selected' : ''}>
+                      <td>
+                        <input
+                          type="text"
+                          className="tag-input"
+                          value={item.tag}
+                          onChange={(e) => updateItem(item.id, { tag: e.target.value })}
+                          data-id={item.id}
+                        />
+                      </td>
+                      <td>{INTERNAL_ITEM_TEMPLATES[item.itemType].label}</td>
+                      <td>
+                        <NumberInput
+                          value={item.quantity}
+                          onChange={(val) => updateItem(item.id, { quantity: val })}
+                          min={1}
+                          className="qty-input"
+                        />
+                      </td>
+                      <td>{item.geometry.weldType === 'fillet' ? 'FW' : 'PP'}{item.geometry.sides === 2 ? '×2' : ''}</td>
+                      <td>{item.geometry.legSize}</td>
+                      <td>{item.results.weldLength.toFixed(0)}</td>
+                      <td>{codes.MATCUT.toFixed(2)}</td>
+                      <td>{codes.FINT.toFixed(2)}</td>
+                      <td>{codes.PREHEAT.toFixed(2)}</td>
+                      <td className="weld-time">{codes.WINT.toFixed(2)}</td>
+                      <td>{codes.NDE.toFixed(2)}</td>
+                      <td className="total-cell">{totalPer.toFixed(2)}</td>
+                      <td className="total-cell">{totalQty.toFixed(2)}</td>
+                      <td className="actions-cell">
+                        <button className="btn-action" onClick={() => { setSelectedItemId(item.id); setActiveTab('editor'); }}>Edit</button>
+                        <button className="btn-action" onClick={() => duplicateItem(item)}>Duplicate</button>
+                        <button className="btn-action btn-delete" onClick={() => deleteItem(item.id)}>Delete</button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+              <tfoot>
+                <tr className="totals-row">
+                  <td><strong>TOTALS</strong></td>
+                  <td></td>
+                  <td><strong>{moduleTotals.totalItems}</strong></td>
+                  <td colSpan={3}></td>
+                  <td><strong>{moduleTotals.totals.MATCUT.toFixed(2)}</strong></td>
+                  <td><strong>{moduleTotals.totals.FINT.toFixed(2)}</strong></td>
+                  <td><strong>{moduleTotals.totals.PREHEAT.toFixed(2)}</strong></td>
+                  <td className="weld-time"><strong>{moduleTotals.totals.WINT.toFixed(2)}</strong></td>
+                  <td><strong>{moduleTotals.totals.NDE.toFixed(2)}</strong></td>
+                  <td></td>
+                  <td className="grand-total"><strong>{moduleTotals.grandTotal.toFixed(2)}</strong></td>
+                  <td></td>
+                </tr>
+              </tfoot>
+            </table>
+          )}
+        </div>
+      )}
+
+      {/* EDITOR TAB */}
+      {activeTab === 'editor' && currentItem && (
+        <div className="editor-grid">
+          <div className="editor-panel">
+            <div className="weld-selector">
+              <select value={selectedItemId || ''} onChange={(e) => setSelectedItemId(e.target.value)}>
+                {items.map(i => (
+                  <option key={i.id} value={i.id}>
+                    {i.tag} ({INTERNAL_ITEM_TEMPLATES[i.itemType].label})
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <section className="section">
+              <h3>🧩 Attachment</h3>
+              <div className="input-group">
+                <label>Item Type</label>
+                <select value={currentItem.itemType} onChange={(e) => changeItemType(e.target.value as InternalItemType)}>
+                  {ITEM_TYPES.map(t => <option key={t} value={t}>{INTERNAL_ITEM_TEMPLATES[t].label}</option>)}
+                </select>
+              </div>
+              <div className="input-row">
+                <div className="input-group">
+                  <label>Shell Thk (mm)</label>
+                  <NumberInput value={currentItem.geometry.shellThickness} onChange={(val) => updateGeometry('shellThickness', val)} />
+                </div>
+                {isRing ? (
+                  <div className="input-group">
+                    <label>Shell ID (mm)</label>
+                    <NumberInput value={currentItem.geometry.insideDiameter} onChange={(val) => updateGeometry('insideDiameter', val)} />
+                  </div>
+                ) : (
+                  <div className="input-group">
+                    <label>Weld Length (mm)</label>
+                    <NumberInput value={currentItem.geometry.weldLength} onChange={(val) => updateGeometry('weldLength', val)} />
+                  </div>
+                )}
+              </div>
+              {isRing && (
+                <div className="circ-display">
+                  Circumference: {currentItem.results.weldLength.toFixed(0)}mm
+                </div>
+              )}
+            </section>
+
+            <section className="section">
+              <h3>📋 Weld Procedure</h3>
+              <WpsSelector
+                value={currentItem.wpsNumber}
+                procedures={settings.weldProcedures}
+                thickness={currentItem.geometry.shellThickness}
+                onChange={setProcedure}
+              />
+            </section>
+
+            <section className="section">
+              <h3>🔥 Preheat</h3>
+              <PreheatPanel value={currentItem.preheat} result={currentItem.preheatResult} onChange={setPreheat} />
+            </section>
+
+            <section className="section">
+              <h3>🔧 Weld</h3>
+              <div className="input-row">
+                <div className="input-group">
+                  <label>Weld Type</label>
+                  <select value={currentItem.geometry.weldType} onChange={(e) => updateGeometry('weldType', e.target.value)}>
+                    <option value="fillet">Fillet</option>
+                    <option value="partialpen">Partial Penetration</option>
+                  </select>
+                </div>
+                <div className="input-group">
+                  <label>Sides</label>
+                  <select value={currentItem.geometry.sides} onChange={(e) => updateGeometry('sides', Number(e.target.value))}>
+                    <option value={1}>One side</option>
+                    <option value={2}>Both sides</option>
+                  </select>
+                </div>
+              </div>
+              <div className="input-group">
+                <label>Leg Size (mm)</label>
+                <NumberInput value={currentItem.geometry.legSize} step={0.5} min={0} onChange={(val) => updateGeometry('legSize', val)} />
+              </div>
+              {currentItem.geometry.weldType === 'partialpen' && (
+                <div className="input-row">
+                  <div className="input-group">
+                    <label>Pen. Depth (mm)</label>
+                    <NumberInput value={currentItem.geometry.penetrationDepth} step={0.5} min={0} onChange={(val) => updateGeometry('penetrationDepth', val)} />
+                  </div>
+                  <div className="input-group">
+                    <label>Bevel Angle (°)</label>
+                    <NumberInput value={currentItem.geometry.bevelAngle} step={2.5} min={0} max={60} onChange={(val) => updateGeometry('bevelAngle', val)} disabled={!!currentItem.procedure} />
+                  </div>
+                </div>
+              )}
+              <div className="input-group">
+                <label>Process</label>
+                <select value={currentItem.weldProcess} disabled={!!currentItem.procedure} onChange={(e) => updateItem(currentItem.id, { weldProcess: e.target.value as Exclude<WeldProcess, 'Skip'> })}>
+                  {PROCESSES.map((p) => <option key={p} value={p}>{p}</option>)}
+                </select>
+              </div>
+            </section>
+          </div>
+
+          <div className="editor-panel center">
+            <InternalWeldDiagram geometry={currentItem.geometry} weldProcess={currentItem.weldProcess} />
+            <p className="diagram-caption">
+              Weld Length: {currentItem.results.weldLength.toFixed(0)}mm × {currentItem.geometry.sides} side{currentItem.geometry.sides === 2 ? 's' : ''}
+            </p>
+          </div>
+
+          <div className="editor-panel">
+            <div className="result-card">
+              <h3>TOTAL TIME</h3>
+              <div className="value">
+                {Object.values(currentItem.activityCodes).reduce((s, v) => s + v, 0).toFixed(1)}
+              </div>
+              <div className="unit">hours/item</div>
+            </div>
+
+            <div className="results-summary">
+              <div className="result-row">
+                <span>Section Area</span>
+                <span>{currentItem.results.crossSectionArea.toFixed(1)} mm²</span>
+              </div>
+              <div className="result-row">
+                <span>Weld Volume</span>
+                <span>{(currentItem.results.totalVolume / 1000).toFixed(0)} cm³</span>
+              </div>
+              <div className="result-row">
+                <span>Total Passes</span>
+                <span>{currentItem.results.totalPasses}</span>
+              </div>
+              <div className="result-row highlight">
+                <span>Weld Time</span>
+                <span>{currentItem.results.times.totalWeldTime.toFixed(2)} hrs</span>
+              </div>
+            </div>
+
+            <section className="section">
+              <h3>⏱️ Activity Times</h3>
+              <div className="activity-list">
+                <div className="act-row">
+                  <label>Cut Parts</label>
+                  <NumberInput step={0.25} value={currentItem.activityTimes.cutParts} onChange={(v) => updateActivity('cutParts', v)} />
+                </div>
+                <div className="act-row">
+                  <label>Mark Out</label>
+                  <NumberInput step={0.25} value={currentItem.activityTimes.markOut} onChange={(v) => updateActivity('markOut', v)} />
+                </div>
+                <div className="act-row">
+                  <label>Fit & Tack</label>
+                  <NumberInput step={0.25} value={currentItem.activityTimes.fitUp} onChange={(v) => updateActivity('fitUp', v)} />
+                </div>
+                <div className="act-row">
+                  <label>Pre-heat</label>
+                  <NumberInput step={0.25} value={currentItem.activityTimes.preheat} disabled={!!currentItem.preheatResult} onChange={(v) => updateActivity('preheat', v)} />
+                </div>
+                <div className="act-row calc">
+                  <label>Weld</label>
+                  <span>{currentItem.results.times.totalWeldTime.toFixed(2)}h</span>
+                </div>
+                <div className="act-row">
+                  <label>Grind / Dress</label>
+                  <NumberInput step={0.25} value={currentItem.activityTimes.grind} onChange={(v) => updateActivity('grind', v)} />
+                </div>
+                <div className="act-row">
+                  <label>NDE</label>
+                  <NumberInput step={0.25} value={currentItem.activityTimes.nde} disabled={!!currentItem.ndeResult} onChange={(v) => updateActivity('nde', v)} />
+                </div>
+              </div>
+            </section>
+
+            <section className="section">
+              <h3>Activity Codes</h3>
+              <div className="codes-grid">
+                {Object.entries(currentItem.activityCodes).map(([code, hours]) => (
+                  <div key={code} className="code-box"><span className="code">{code}</span><span>{hours.toFixed(2)}h</span></div>
+                ))}
+              </div>
+            </section>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
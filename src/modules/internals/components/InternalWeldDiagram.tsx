@@ -0,0 +1,125 @@
+import type { WeldProcess } from '../../../shared/types';
+import type { InternalGeometry } from '../types';
+
+interface InternalWeldDiagramProps {
+  geometry: InternalGeometry;
+  weldProcess: Exclude<WeldProcess, 'Skip'>;
+}
+
+const PROCESS_COLORS: Record<string, { fill: string; text: string }> = {
+  GTAW: { fill: '#ff6b6b', text: '#c92a2a' },
+  SMAW: { fill: '#ffd93d', text: '#e67700' },
+  FCAW: { fill: '#4dabf7', text: '#1971c2' },
+  GMAW: { fill: '#69db7c', text: '#2f9e44' },
+  SAW: { fill: '#da77f2', text: '#9c36b5' },
+};
+
+/**
+ * T-joint cross-section of an attachment standing on the shell inside surface
+ */
+export function InternalWeldDiagram({ geometry, weldProcess }: InternalWeldDiagramProps) {
+  const { shellThickness, weldType, legSize, penetrationDepth, bevelAngle, sides } = geometry;
+
+  const isPartialPen = weldType === 'partialpen';
+  const attachmentThickness = Math.max(10, penetrationDepth * 2 + 2);
+  const grooveWidth = isPartialPen ? penetrationDepth * Math.tan((bevelAngle * Math.PI) / 180) : 0;
+
+  // SVG dimensions
+  const viewBoxWidth = 400;
+  const viewBoxHeight = 300;
+  const margin = 60;
+
+  // Scale so the joint region (attachment + legs + shell) fills the view
+  const spanMm = attachmentThickness + 2 * (legSize + grooveWidth) + 20;
+  const heightMm = shellThickness + legSize * 3 + 20;
+  const scale = Math.min((viewBoxWidth - 2 * margin) / spanMm, (viewBoxHeight - 2 * margin) / heightMm);
+
+  const centerX = viewBoxWidth / 2;
+  const shellTopY = viewBoxHeight - margin - shellThickness * scale;
+  const shellBottomY = viewBoxHeight - margin;
+  const halfAttach = (attachmentThickness * scale) / 2;
+  const attachTopY = margin;
+  const leg = legSize * scale;
+  const groove = grooveWidth * scale;
+  const depth = penetrationDepth * scale;
+
+  const colors = PROCESS_COLORS[weldProcess] || { fill: '#ccc', text: '#666' };
+
+  // Weld profile for one side (mirrored for the second side)
+  const sidePath = (dir: 1 | -1) => {
+    const faceX = centerX + dir * halfAttach;
+    if (!isPartialPen) {
+      return `M ${faceX} ${shellTopY} L ${faceX + dir * leg} ${shellTopY} L ${faceX} ${shellTopY - leg} Z`;
+    }
+    // Bevel cut into the attachment face, then the cover fillet outside it
+    const grooveRootX = faceX - dir * groove;
+    return `
+      M ${grooveRootX} ${shellTopY}
+      L ${faceX + dir * leg} ${shellTopY}
+      L ${faceX} ${shellTopY - Math.max(leg, depth)}
+      L ${faceX} ${shellTopY - depth}
+      Z
+    `;
+  };
+
+  // Attachment outline (with bevels removed for partial pen)
+  const attachmentPath = isPartialPen
+    ? `
+      M ${centerX - halfAttach} ${attachTopY}
+      L ${centerX + halfAttach} ${attachTopY}
+      L ${centerX + halfAttach} ${shellTopY - depth}
+      L ${centerX + halfAttach - groove} ${shellTopY}
+      L ${centerX - halfAttach + (sides === 2 ? groove : 0)} ${shellTopY}
+      L ${centerX - halfAttach} ${sides === 2 ? shellTopY - depth : shellTopY}
+      Z
+    `
+    : `
+      M ${centerX - halfAttach} ${attachTopY}
+      L ${centerX + halfAttach} ${attachTopY}
+      L ${centerX + halfAttach} ${shellTopY}
+      L ${centerX - halfAttach} ${shellTopY}
+      Z
+    `;
+
+  return (
+    <svg viewBox={`0 0 ${viewBoxWidth} ${viewBoxHeight}`} className="weld-diagram" preserveAspectRatio="xMidYMid meet">
+      {/* Shell plate */}
+      <rect
+        x={margin / 2} y={shellTopY}
+        width={viewBoxWidth - margin} height={shellBottomY - shellTopY}
+        fill="#cfd8dc" stroke="#37474f" strokeWidth="1.5"
+      />
+
+      {/* Attachment plate */}
+      <path d={attachmentPath} fill="#eceff1" stroke="#37474f" strokeWidth="1.5" />
+
+      {/* Welds - first side is always on the right */}
+      <path d={sidePath(1)} fill={colors.fill} fillOpacity="0.6" stroke={colors.text} strokeWidth="1" />
+      {sides === 2 && (
+        <path d={sidePath(-1)} fill={colors.fill} fillOpacity="0.6" stroke={colors.text} strokeWidth="1" />
+      )}
+
+      {/* Leg dimension */}
+      <line x1={centerX + halfAttach} y1={shellTopY + 12} x2={centerX + halfAttach + leg} y2={shellTopY + 12} stroke="#2196F3" strokeWidth="0.75" />
+      <text x={centerX + halfAttach + leg / 2} y={shellTopY + 24} fill="#2196F3" fontWeight="bold" fontSize="8" textAnchor="middle">{legSize}mm leg</text>
+
+      {/* Partial pen depth */}
+      {isPartialPen && (
+        <text x={centerX + halfAttach + leg + 8} y={shellTopY - depth / 2} fill="#9C27B0" fontWeight="bold" fontSize="8">
+          {penetrationDepth}mm @ {bevelAngle}°
+        </text>
+      )}
+
+      {/* Process label */}
+      <text x={centerX + halfAttach + leg + 8} y={shellTopY - leg - 8} fill={colors.text} fontWeight="bold" fontSize="9">{weldProcess}</text>
+
+      {/* Shell thickness */}
+      <text x={margin / 2 + 4} y={shellBottomY + 14} fill="#FF6B6B" fontWeight="bold" fontSize="9">Shell {shellThickness}mm</text>
+
+      {/* Side label */}
+      <text x={viewBoxWidth - 5} y={margin} fill="#4ade80" fontWeight="bold" fontSize="9" textAnchor="end">
+        {sides === 2 ? 'BOTH SIDES' : 'ONE SIDE'}
+      </text>
+    </svg>
+  );
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getInternalWeldLength,
+  calculateInternalCrossSection,
+  calculateInternal,
+  calculateInternalActivityCodes,
+} from './engine';
+import { DEFAULT_INTERNAL_GEOMETRY, DEFAULT_INTERNAL_ACTIVITY_TIMES } from './types';
+import type { InternalGeometry, InternalItem, InternalItemType } from './types';
+import { DEFAULT_SETTINGS } from '../../shared/settings/defaults';
+
+// 10 mm shell - FCAW at 200 mm/min, inside operator factor 1.3
+const item = (itemType: InternalItemType, quantity: number, geometry: Partial<InternalGeometry>): InternalItem => ({
+  id: itemType,
+  tag: itemType,
+  itemType,
+  quantity,
+  geometry: { ...DEFAULT_INTERNAL_GEOMETRY, shellThickness: 10, ...geometry },
+  weldProcess: 'FCAW',
+  activityTimes: DEFAULT_INTERNAL_ACTIVITY_TIMES,
+});
+
+describe('Internals', () => {
+  it('welds a fillet attachment on both sides', () => {
+    const baffle = item('baffle', 3, { weldType: 'fillet', legSize: 6, weldLength: 1000, sides: 2 });
+    const results = calculateInternal(baffle, DEFAULT_SETTINGS);
+
+    expect(results.weldLength).toBe(1000);
+    expect(results.crossSectionArea).toBeCloseTo(18, 6); // 6² / 2
+    expect(results.totalVolume).toBeCloseTo(18 * 1000 * 2, 3);
+
+    // 18 000 mm³ per side against a 3.5 × 10 bead - one pass each side
+    expect(results.passesPerSide).toBe(1);
+    expect(results.totalPasses).toBe(2);
+    expect(results.times.arcTime).toBeCloseTo((2 * 1000 / 200) / 60, 6);
+    expect(results.times.totalWeldTime).toBeCloseTo((2 * 1000 / 200) * 1.3 / 60, 6);
+
+    // Welding one side only halves the arc time
+    const oneSide = calculateInternal({ ...baffle, geometry: { ...baffle.geometry, sides: 1 } }, DEFAULT_SETTINGS);
+    expect(oneSide.totalPasses).toBe(1);
+    expect(oneSide.times.arcTime).toBeCloseTo(results.times.arcTime / 2, 6);
+  });
+
+  it('adds the bevel groove to the cover fillet on a partial penetration weld', () => {
+    const geometry = { weldType: 'partialpen' as const, legSize: 6, penetrationDepth: 6, bevelAngle: 45, weldLength: 1000, sides: 1 as const };
+    // Groove 6 × 6·tan45 / 2 = 18, cover fillet 18
+    expect(calculateInternalCrossSection({ ...DEFAULT_INTERNAL_GEOMETRY, ...geometry })).toBeCloseTo(36, 6);
+
+    const results = calculateInternal(item('wearPlate', 1, geometry), DEFAULT_SETTINGS);
+    expect(results.totalVolume).toBeCloseTo(36 * 1000, 3);
+    expect(results.passesPerSide).toBe(2);
+    expect(results.totalPasses).toBe(2);
+    expect(results.times.totalWeldTime).toBeCloseTo((2 * 1000 / 200) * 1.3 / 60, 6);
+  });
+
+  it('runs ring attachments around the shell circumference', () => {
+    const geometry = { weldType: 'fillet' as const, legSize: 8, insideDiameter: 2000, weldLength: 500, sides: 2 as const };
+    const circumference = Math.PI * 2000;
+
+    // Entered length is ignored for rings
+    expect(getInternalWeldLength('supportRing', { ...DEFAULT_INTERNAL_GEOMETRY, ...geometry })).toBeCloseTo(circumference, 6);
+    expect(getInternalWeldLength('baffle', { ...DEFAULT_INTERNAL_GEOMETRY, ...geometry })).toBe(500);
+
+    const ring = item('supportRing', 4, geometry);
+    const results = calculateInternal(ring, DEFAULT_SETTINGS);
+    expect(results.weldLength).toBeCloseTo(circumference, 6);
+    expect(results.totalVolume).toBeCloseTo(32 * circumference * 2, 3);
+    expect(results.totalPasses).toBe(2);
+    expect(results.times.totalWeldTime).toBeCloseTo((2 * circumference / 200) * 1.3 / 60, 6);
+
+    // Results are per attachment - the quantity multiplies the item's hours
+    expect(calculateInternal({ ...ring, quantity: 1 }, DEFAULT_SETTINGS)).toEqual(results);
+    const codes = calculateInternalActivityCodes(ring.activityTimes, results);
+    const perRing = Object.values(codes).reduce((sum, hours) => sum + hours, 0);
+    expect(perRing * ring.quantity).toBeCloseTo(4 * (1.75 + results.times.totalWeldTime), 6);
+  });
+
+  it('books activity times to their codes', () => {
+    const results = calculateInternal(item('clip', 2, { weldLength: 200 }), DEFAULT_SETTINGS);
+    const codes = calculateInternalActivityCodes({ ...DEFAULT_INTERNAL_ACTIVITY_TIMES, preheat: 0.4 }, results);
+
+    expect(codes).toEqual({
+      MATCUT: 0.5 + 0.25,   // Cut parts + grind
+      FINT: 0.25 + 0.5,     // Mark out + fit up
+      PREHEAT: 0.4,
+      WINT: results.times.totalWeldTime,
+      NDE: 0.25,
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import type { SharedSettings, WeldProcedure } from '../../shared/types';
+import type {
+  InternalGeometry,
+  InternalItem,
+  InternalItemType,
+  InternalResults,
+  InternalActivityCodes,
+  InternalActivityTimes,
+} from './types';
+import { INTERNAL_ITEM_TEMPLATES } from './types';
+import { calculateSectionArea, calculateWeldRun, filletSection, singleBevelSection } from '../../engine/groove';
+import { getThicknessRates } from '../../engine/bands';
+import { addDeposit } from '../../engine/consumables';
+import { calculatePreheat, getPreheatHours } from '../../engine/preheat';
+import type { AppliedPreheat } from '../../engine/preheat';
+import { applyNde } from '../../engine/nde';
+import type { AppliedNde, NdeCoverage } from '../../engine/nde';
+
+/**
+ * Get the weld length per side for an internal attachment
+ *
+ * Ring-type items (support rings, tray rings) run around the full shell
+ * circumference, so their length is π × ID. Everything else uses the entered length.
+ */
+export function getInternalWeldLength(itemType: InternalItemType, geometry: InternalGeometry): number {
+  if (INTERNAL_ITEM_TEMPLATES[itemType].isRing) {
+    return Math.PI * geometry.insideDiameter;
+  }
+  return geometry.weldLength;
+}
+
+/**
+ * Calculate the weld cross-section area for one side of the attachment
+ *
+ * Fillet: right-angle triangle = leg² / 2
+ * Partial pen: single bevel groove (depth × depth·tan(angle) / 2) plus the cover fillet
+ */
+export function calculateInternalCrossSection(geometry: InternalGeometry): number {
+  const { weldType, legSize, penetrationDepth, bevelAngle } = geometry;
+
+  const filletArea = calculateSectionArea(filletSection(legSize));
+
+  if (weldType === 'fillet') {
+    return filletArea;
+  }
+
+  const grooveArea = calculateSectionArea(singleBevelSection(penetrationDepth, bevelAngle, 0, 0));
+
+  return grooveArea + filletArea;
+}
+
+/**
+ * Internal attachment with the WPS processes applied
+ *
+ * Fillets use the WPS fillet process; partial penetration grooves take the
+ * bevel angle and the WPS root process.
+ */
+export function applyInternalProcedure(item: InternalItem, procedure: WeldProcedure): InternalItem {
+  const isFillet = item.geometry.weldType === 'fillet';
+  return {
+    ...item,
+    geometry: isFillet ? item.geometry : { ...item.geometry, bevelAngle: procedure.bevelAngle },
+    weldProcess: isFillet ? procedure.filletProcess : procedure.layers[0]?.process ?? procedure.filletProcess,
+  };
+}
+
+/**
+ * Main calculation function for internal attachments
+ */
+export function calculateInternal(
+  item: InternalItem,
+  settings: SharedSettings
+): InternalResults {
+  const { geometry, itemType, weldProcess } = item;
+  const { beadSizes } = settings;
+  const { shellThickness, sides } = geometry;
+
+  const weldLength = getInternalWeldLength(itemType, geometry);
+  const crossSectionArea = calculateInternalCrossSection(geometry);
+  const totalVolume = crossSectionArea * weldLength * sides;
+
+  // Speeds and operator factors for the thickness band
+  const { speeds, factors } = getThicknessRates(shellThickness, settings);
+
+  // Passes per side - every side is welded to the same profile
+  const run = calculateWeldRun(crossSectionArea * weldLength, weldLength, weldProcess, beadSizes, speeds);
+  const passesPerSide = run.passes;
+  const arcTime = run.arcTime * sides; // in minutes
+
+  // Internals are welded from inside the vessel
+  const totalWeldTime = (arcTime * factors.inside) / 60; // convert to hours
+
+  return {
+    weldLength,
+    crossSectionArea,
+    totalVolume,
+    passesPerSide,
+    totalPasses: passesPerSide * sides,
+    times: {
+      arcTime: arcTime / 60, // convert to hours
+      totalWeldTime,
+    },
+    deposits: addDeposit({}, weldProcess, totalVolume, arcTime),
+  };
+}
+
+/**
+ * Calculated preheat along the attachment weld, heated once for all sides
+ */
+export function applyInternalPreheat(
+  item: InternalItem,
+  results: InternalResults,
+  settings: SharedSettings
+): AppliedPreheat<InternalActivityTimes> {
+  if (!item.preheat?.calculate) return { activityTimes: item.activityTimes, preheat: null };
+
+  const preheat = calculatePreheat(item.preheat, item.geometry.shellThickness, results.weldLength, settings.preheat);
+  return {
+    activityTimes: {
+      ...item.activityTimes,
+      preheat: getPreheatHours(preheat, results.times.totalWeldTime),
+    },
+    preheat,
+  };
+}
+
+/**
+ * Calculated NDE along the attachment weld on every side
+ */
+export function applyInternalNde(
+  item: InternalItem,
+  activityTimes: InternalActivityTimes,
+  results: InternalResults,
+  coverage: NdeCoverage | null,
+  settings: SharedSettings
+): AppliedNde<InternalActivityTimes> {
+  const length = results.weldLength * item.geometry.sides;
+  return applyNde(activityTimes, [{ category: 'internalAttachments', length }], coverage, settings.nde);
+}
+
+/**
+ * Calculate activity codes from activity times and weld results
+ *
+ * Activity flow:
+ * 1. Cut parts - MATCUT
+ * 2. Mark out position - FINT
+ * 3. Fit and tack - FINT
+ * 4. Pre-heat - PREHEAT
+ * 5. Weld - WINT
+ * 6. Grind / dress - MATCUT
+ * 7. NDE
+ */
+export function calculateInternalActivityCodes(
+  activityTimes: InternalActivityTimes,
+  results: InternalResults
+): InternalActivityCodes {
+  return {
+    MATCUT: activityTimes.cutParts + activityTimes.grind,
+    FINT: activityTimes.markOut + activityTimes.fitUp,
+    PREHEAT: activityTimes.preheat,
+    WINT: results.times.totalWeldTime,
+    NDE: activityTimes.nde,
+  };
+}
@@ -0,0 +1,3 @@
+export { InternalsModule } from './InternalsModule';
+export * from './types';
+export * from './engine';
@@ -0,0 +1,149 @@
+import type { WeldProcess, DepositByProcess, PreheatInput } from '../../shared/types';
+
+/**
+ * Internals (Internal Attachments) Types
+ *
+ * Internals are the attachments welded inside the shell - baffles, support rings,
+ * trays, wear plates and clips. They are joined with fillet or partial penetration
+ * welds, so the weld size is driven by leg size rather than plate thickness.
+ */
+
+export type InternalItemType = 'baffle' | 'supportRing' | 'tray' | 'wearPlate' | 'clip';
+
+export type InternalWeldType = 'fillet' | 'partialpen';
+
+export interface InternalGeometry {
+  // Parent shell
+  shellThickness: number;      // mm - used for travel speed / operator factor range
+  insideDiameter: number;      // mm - ring-type items weld around the full circumference
+
+  // Weld configuration
+  weldType: InternalWeldType;
+  legSize: number;             // mm - fillet leg (or cover fillet leg on a partial pen)
+  penetrationDepth: number;    // mm - groove depth for partial penetration
+  bevelAngle: number;          // degrees - groove angle for partial penetration
+  weldLength: number;          // mm - per side, ignored for ring-type items
+  sides: 1 | 2;                // Welded one side or both sides of the attachment
+}
+
+export interface InternalItem {
+  id: string;
+  tag: string;                 // e.g., "Baffle 1", "Tray Ring 3"
+  itemType: InternalItemType;
+  quantity: number;            // Number of identical attachments
+  wpsNumber?: string;          // WPS reference - prep and processes come from the library
+  preheat?: PreheatInput;      // Calculated preheat - hand-entered hours when absent
+
+  geometry: InternalGeometry;
+  weldProcess: Exclude<WeldProcess, 'Skip'>;
+
+  // Activity times (hours)
+  activityTimes: InternalActivityTimes;
+
+  // Calculated results
+  results?: InternalResults;
+  activityCodes?: InternalActivityCodes;
+}
+
+export interface InternalActivityTimes {
+  cutParts: number;        // Cut / prepare attachment parts - MATCUT
+  markOut: number;         // Mark out position inside shell - FINT
+  fitUp: number;           // Fit and tack attachment - FINT
+  preheat: number;         // Pre-heat - PREHEAT
+  weld: number;            // Weld - WINT (calculated)
+  grind: number;           // Grind / dress welds - MATCUT
+  nde: number;             // NDE inspection - NDE
+}
+
+export interface InternalResults {
+  weldLength: number;      // mm - per side
+  crossSectionArea: number;// mm² - per side
+
+  // Volumes
+  totalVolume: number;     // mm³ - all sides
+
+  // Passes
+  passesPerSide: number;
+  totalPasses: number;
+
+  // Times (hours)
+  times: {
+    arcTime: number;
+    totalWeldTime: number; // With operator factor
+  };
+
+  // Weld metal by process (consumables)
+  deposits: DepositByProcess;
+}
+
+export interface InternalActivityCodes {
+  MATCUT: number;     // Cut parts + grind
+  FINT: number;       // Mark out + fit internal
+  PREHEAT: number;    // Pre-heat
+  WINT: number;       // Weld internal
+  NDE: number;        // NDE inspection
+}
+
+// Module data stored in project
+export interface InternalsModuleData {
+  items: InternalItem[];
+}
+
+/**
+ * Item type templates - label and the defaults applied when a new item is created
+ */
+export interface InternalItemTemplate {
+  label: string;
+  isRing: boolean;             // Weld length follows the shell circumference
+  geometry: Partial<InternalGeometry>;
+}
+
+export const INTERNAL_ITEM_TEMPLATES: Record<InternalItemType, InternalItemTemplate> = {
+  baffle: {
+    label: 'Baffle',
+    isRing: false,
+    geometry: { weldType: 'fillet', legSize: 6, weldLength: 1500, sides: 2 },
+  },
+  supportRing: {
+    label: 'Support Ring',
+    isRing: true,
+    geometry: { weldType: 'fillet', legSize: 8, sides: 2 },
+  },
+  tray: {
+    label: 'Tray Ring',
+    isRing: true,
+    geometry: { weldType: 'fillet', legSize: 6, sides: 1 },
+  },
+  wearPlate: {
+    label: 'Wear Plate',
+    isRing: false,
+    geometry: { weldType: 'fillet', legSize: 6, weldLength: 2000, sides: 1 },
+  },
+  clip: {
+    label: 'Clip',
+    isRing: false,
+    geometry: { weldType: 'fillet', legSize: 5, weldLength: 200, sides: 2 },
+  },
+};
+
+// Default values
+export const DEFAULT_INTERNAL_GEOMETRY: InternalGeometry = {
+  shellThickness: 20,
+  insideDiameter: 2000,
+  weldType: 'fillet',
+  legSize: 6,
+  penetrationDepth: 6,
+  bevelAngle: 45,
+  weldLength: 1000,
+  sides: 2,
+};
+
+export const DEFAULT_INTERNAL_ACTIVITY_TIMES: InternalActivityTimes = {
+  cutParts: 0.5,       // Cut parts
+  markOut: 0.25,       // Mark out position
+  fitUp: 0.5,          // Fit and tack
+  preheat: 0,          // Pre-heat (usually not required for fillets)
+  weld: 0,             // Calculated
+  grind: 0.25,         // Grind / dress
+  nde: 0.25,           // NDE
+};
@@ -1,6 +1,7 @@
 import { useState, useMemo, useCallback, useEffect } from 'react';
-import type { WeldProcess } from '../../shared/types';
-import { NumberInput } from '../../shared/components';
+import type { WeldProcess, PreheatInput } from '../../shared/types';
+import { NumberInput, WpsSelector, PreheatPanel, CourseSelector } from '../../shared/components';
+import type { CourseBinding } from '../../shared/components/CourseSelector';
 import { useProject } from '../../project';
 import type { 
   LongWeldItem, 
@@ -14,8 +15,11 @@ import {
   DEFAULT_LONG_WELD_ACTIVITY_TIMES,
   DEFAULT_LONG_WELD_LAYERS,
 } from './types';
-import { calculateLongWeld, calculateLongWeldActivityCodes } from './engine';
+import { calculateLongWelds, summarizeLongWelds, migrateLongWeld } from './summary';
 import { LongWeldDiagram } from './components/LongWeldDiagram';
+import { getNdeCoverage } from '../offer/types';
+import type { OfferData } from '../offer/types';
+import { bindLongWeld, findCourse } from '../../engine/vessel';
 import './LongWeldsModule.css';
 
 const PROCESSES: Exclude<WeldProcess, 'Skip'>[] = ['GTAW', 'SMAW', 'FCAW', 'GMAW', 'SAW'];
@@ -38,23 +42,15 @@ function createNewLongWeld(tag: string): LongWeldItem {
   };
 }
 
-// Ensure weld has all required activity time fields (migration for older data)
-function migrateWeld(weld: LongWeldItem): LongWeldItem {
-  return {
-    ...weld,
-    activityTimes: {
-      ...DEFAULT_LONG_WELD_ACTIVITY_TIMES,
-      ...weld.activityTimes,
-    },
-  };
-}
-
 export function LongWeldsModule() {
-  const { getModuleData, setModuleData, updateModuleSummary, settings } = useProject();
+  const { getModuleData, setModuleData, updateModuleSummary, settings, currentEquipment } = useProject();
+  const vessel = currentEquipment?.vessel;
   
   // Load module data from project and migrate if needed
   const moduleData = getModuleData<LongWeldsModuleData>('longwelds');
-  const welds = (moduleData?.welds || []).map(migrateWeld);
+  const welds = (moduleData?.welds || []).map(migrateLongWeld);
+  const offerNde = getModuleData<OfferData>('offer')?.nde;
+  const ndeCoverage = useMemo(() => getNdeCoverage(offerNde), [offerNde]);
 
   const [activeTab, setActiveTab] = useState<TabType>('list');
   const [selectedWeldId, setSelectedWeldId] = useState<string | null>(welds[0]?.id || null);
@@ -75,43 +71,11 @@ export function LongWeldsModule() {
   }, [welds, setModuleData]);
 
   // Calculate results for all welds
-  const weldsWithResults = useMemo(() => {
-    return welds.map(weld => {
-      const results = calculateLongWeld(weld, settings);
-      const activityCodes = calculateLongWeldActivityCodes(
-        weld.activityTimes, 
-        results, 
-        weld.outsideProcess,
-        weld.geometry.shellThickness
-      );
-      return { ...weld, results, activityCodes };
-    });
-  }, [welds, settings]);
+  const weldsWithResults = useMemo(() => calculateLongWelds(welds, settings, ndeCoverage), [welds, settings, ndeCoverage]);
 
   // Update module summary whenever results change
   useEffect(() => {
-    const itemCount = weldsWithResults.reduce((sum, w) => sum + w.quantity, 0);
-    const totalHours = weldsWithResults.reduce((sum, w) => {
-      const codes = w.activityCodes;
-      return sum + (Object.values(codes).reduce((s, v) => s + v, 0) * w.quantity);
-    }, 0);
-    
-    // Build activity breakdown
-    const activityBreakdown: Record<string, number> = {};
-    weldsWithResults.forEach(w => {
-      const qty = w.quantity;
-      Object.entries(w.activityCodes).forEach(([code, hours]) => {
-        activityBreakdown[code] = (activityBreakdown[code] || 0) + hours * qty;
-      });
-    });
-    
-    updateModuleSummary('longwelds', { 
-      moduleId: 'longwelds',
-      moduleName: 'Long Welds',
-      itemCount, 
-      totalHours,
-      activityBreakdown,
-    });
+    updateModuleSummary('longwelds', summarizeLongWelds(weldsWithResults));
   }, [weldsWithResults, updateModuleSummary]);
 
   // Get current weld
@@ -154,6 +118,25 @@ export function LongWeldsModule() {
     });
   };
 
+  // Change WPS - the current prep is kept on the weld so it carries over when the WPS is removed
+  const setProcedure = (wpsNumber: string | undefined) => {
+    if (!currentWeld) return;
+    const { results, activityCodes, procedure, preheatResult, ndeResult, ...weld } = currentWeld;
+    updateWeld(currentWeld.id, { ...weld, wpsNumber });
+  };
+
+  // Bind to a vessel course - the shell is taken from the vessel straight away
+  const setCourse = (binding: CourseBinding) => {
+    if (!currentWeld) return;
+    const bound = bindLongWeld({ ...currentWeld, ...binding }, vessel);
+    updateWeld(currentWeld.id, { ...binding, geometry: bound.geometry });
+  };
+
+  const setPreheat = (preheat: PreheatInput) => {
+    if (!currentWeld) return;
+    updateWeld(currentWeld.id, { preheat });
+  };
+
   // Update activity time
   const updateActivity = (field: keyof LongWeldActivityTimes, value: number) => {
     if (!currentWeld) return;
@@ -375,92 +358,124 @@ export function LongWeldsModule() {
               </select>
             </div>
 
+            <section className="section">
+              <h3>📋 Weld Procedure</h3>
+              <WpsSelector
+                value={currentWeld.wpsNumber}
+                procedures={settings.weldProcedures}
+                thickness={currentWeld.geometry.shellThickness}
+                onChange={setProcedure}
+              />
+            </section>
+
+            <section className="section">
+              <h3>📐 Vessel Course</h3>
+              <CourseSelector
+                value={{ courseId: currentWeld.courseId, overrides: currentWeld.overrides }}
+                courses={vessel?.courses ?? []}
+                onChange={setCourse}
+              />
+            </section>
+
+            <section className="section">
+              <h3>🔥 Preheat</h3>
+              <PreheatPanel value={currentWeld.preheat} result={currentWeld.preheatResult} onChange={setPreheat} />
+            </section>
+
             <section className="section">
               <h3>📏 Dimensions</h3>
               <div className="input-row">
                 <div className="input-group">
                   <label>Shell Thk (mm)</label>
-                  <NumberInput value={currentWeld.geometry.shellThickness} onChange={(val) => updateGeometry('shellThickness', val)} />
+                  <NumberInput
+                    value={currentWeld.geometry.shellThickness}
+                    disabled={!!findCourse(vessel, currentWeld.courseId) && !currentWeld.overrides?.thickness}
+                    onChange={(val) => updateGeometry('shellThickness', val)}
+                  />
                 </div>
                 <div className="input-group">
                   <label>Weld Length (mm)</label>
                   <NumberInput value={currentWeld.geometry.weldLength} onChange={(val) => updateGeometry('weldLength', val)} />
                 </div>
               </div>
-              <div className="input-row">
-                <div className="input-group">
-                  <label>Root Gap</label>
-                  <NumberInput value={currentWeld.geometry.rootGap} step={0.5} onChange={(val) => updateGeometry('rootGap', val)} />
-                </div>
-                <div className="input-group">
-                  <label>Root Face</label>
-                  <NumberInput value={currentWeld.geometry.rootFace} step={0.5} onChange={(val) => updateGeometry('rootFace', val)} />
+              <fieldset className="wps-locked" disabled={!!currentWeld.procedure}>
+                <div className="input-row">
+                  <div className="input-group">
+                    <label>Root Gap</label>
+                    <NumberInput value={currentWeld.geometry.rootGap} step={0.5} onChange={(val) => updateGeometry('rootGap', val)} />
+                  </div>
+                  <div className="input-group">
+                    <label>Root Face</label>
+                    <NumberInput value={currentWeld.geometry.rootFace} step={0.5} onChange={(val) => updateGeometry('rootFace', val)} />
+                  </div>
                 </div>
-              </div>
+              </fieldset>
             </section>
 
-            <section className="section">
-              <h3>🔧 Joint Configuration</h3>
-              <div className="input-group">
-                <label>Joint Type</label>
-                <select value={currentWeld.geometry.jointType} onChange={(e) => updateGeometry('jointType', e.target.value)}>
-                  <option value="singlevee">Single Vee</option>
-                  <option value="doublevee">Double Vee</option>
-                </select>
-              </div>
-              <div className="input-row">
+            <fieldset className="wps-locked" disabled={!!currentWeld.procedure}>
+              <section className="section">
+                <h3>🔧 Joint Configuration</h3>
                 <div className="input-group">
-                  <label>1st Side Angle (°)</label>
-                  <NumberInput value={currentWeld.geometry.insideBevelAngle} onChange={(val) => updateGeometry('insideBevelAngle', val)} />
+                  <label>Joint Type</label>
+                  <select value={currentWeld.geometry.jointType} onChange={(e) => updateGeometry('jointType', e.target.value)}>
+                    <option value="singlevee">Single Vee</option>
+                    <option value="doublevee">Double Vee</option>
+                  </select>
+                </div>
+                <div className="input-row">
+                  <div className="input-group">
+                    <label>1st Side Angle (°)</label>
+                    <NumberInput value={currentWeld.geometry.insideBevelAngle} onChange={(val) => updateGeometry('insideBevelAngle', val)} />
+                  </div>
+                  {currentWeld.geometry.jointType.includes('double') && (
+                    <div className="input-group">
+                      <label>2nd Side Angle (°)</label>
+                      <NumberInput value={currentWeld.geometry.outsideBevelAngle} onChange={(val) => updateGeometry('outsideBevelAngle', val)} />
+                    </div>
+                  )}
                 </div>
                 {currentWeld.geometry.jointType.includes('double') && (
                   <div className="input-group">
-                    <label>2nd Side Angle (°)</label>
-                    <NumberInput value={currentWeld.geometry.outsideBevelAngle} onChange={(val) => updateGeometry('outsideBevelAngle', val)} />
+                    <label>1st Side Split (%)</label>
+                    <NumberInput value={currentWeld.geometry.splitRatio} min={40} max={80} step={5} onChange={(val) => updateGeometry('splitRatio', val)} />
                   </div>
                 )}
-              </div>
-              {currentWeld.geometry.jointType.includes('double') && (
-                <div className="input-group">
-                  <label>1st Side Split (%)</label>
-                  <NumberInput value={currentWeld.geometry.splitRatio} min={40} max={80} step={5} onChange={(val) => updateGeometry('splitRatio', val)} />
-                </div>
-              )}
-            </section>
+              </section>
+
+              <section className="section">
+                <h3>🔥 1st Side Weld Processes</h3>
+                <div className="groove-info">Root: {grooveInfo.rootWidth.toFixed(0)}mm → Top: {grooveInfo.topWidth.toFixed(0)}mm</div>
+                <div className="layers-header"><span>Process</span><span>Switch @</span><span></span></div>
+                {currentWeld.insideLayers.map((layer, index) => (
+                  <div key={index} className="layer-row">
+                    <select value={layer.process} onChange={(e) => updateInsideLayer(index, 'process', e.target.value)}>
+                      {PROCESSES.map((p) => <option key={p} value={p}>{p}</option>)}
+                    </select>
+                    <div className="width-input">
+                      <NumberInput value={layer.minWidth} min={0} step={1} onChange={(val) => updateInsideLayer(index, 'minWidth', val)} disabled={index === 0} />
+                      <span className="unit-label">mm</span>
+                    </div>
+                    <button className="btn-remove" onClick={() => removeInsideLayer(index)} disabled={currentWeld.insideLayers.length <= 1}>×</button>
+                  </div>
+                ))}
+                <button className="btn-add-layer" onClick={addInsideLayer}>+ Add Process</button>
+              </section>
 
-            <section className="section">
-              <h3>🔥 1st Side Weld Processes</h3>
-              <div className="groove-info">Root: {grooveInfo.rootWidth.toFixed(0)}mm → Top: {grooveInfo.topWidth.toFixed(0)}mm</div>
-              <div className="layers-header"><span>Process</span><span>Switch @</span><span></span></div>
-              {currentWeld.insideLayers.map((layer, index) => (
-                <div key={index} className="layer-row">
-                  <select value={layer.process} onChange={(e) => updateInsideLayer(index, 'process', e.target.value)}>
+              <section className="section">
+                <h3>🔄 2nd Side Weld</h3>
+                <div className="input-group">
+                  <label>2nd Side Process</label>
+                  <select value={currentWeld.outsideProcess} onChange={(e) => updateWeld(currentWeld.id, { outsideProcess: e.target.value as Exclude<WeldProcess, 'Skip'> })}>
                     {PROCESSES.map((p) => <option key={p} value={p}>{p}</option>)}
                   </select>
-                  <div className="width-input">
-                    <NumberInput value={layer.minWidth} min={0} step={1} onChange={(val) => updateInsideLayer(index, 'minWidth', val)} disabled={index === 0} />
-                    <span className="unit-label">mm</span>
-                  </div>
-                  <button className="btn-remove" onClick={() => removeInsideLayer(index)} disabled={currentWeld.insideLayers.length <= 1}>×</button>
                 </div>
-              ))}
-              <button className="btn-add-layer" onClick={addInsideLayer}>+ Add Process</button>
-            </section>
-
-            <section className="section">
-              <h3>🔄 2nd Side Weld</h3>
-              <div className="input-group">
-                <label>2nd Side Process</label>
-                <select value={currentWeld.outsideProcess} onChange={(e) => updateWeld(currentWeld.id, { outsideProcess: e.target.value as Exclude<WeldProcess, 'Skip'> })}>
-                  {PROCESSES.map((p) => <option key={p} value={p}>{p}</option>)}
-                </select>
-              </div>
-              <p className="side-note">
-                {currentWeld.geometry.jointType === 'doublevee' 
-                  ? 'Full weld after back-gouge' 
-                  : 'Back weld / sealing pass after back-gouge'}
-              </p>
-            </section>
+                <p className="side-note">
+                  {currentWeld.geometry.jointType === 'doublevee' 
+                    ? 'Full weld after back-gouge' 
+                    : 'Back weld / sealing pass after back-gouge'}
+                </p>
+              </section>
+            </fieldset>
           </div>
 
           <div className="editor-panel center">
@@ -533,7 +548,7 @@ export function LongWeldsModule() {
                 </div>
                 <div className="act-row">
                   <label>Pre-heat 1st Side</label>
-                  <NumberInput step={0.25} value={currentWeld.activityTimes.preheat1stSide} onChange={(v) => updateActivity('preheat1stSide', v)} />
+                  <NumberInput step={0.25} value={currentWeld.activityTimes.preheat1stSide} disabled={!!currentWeld.preheatResult} onChange={(v) => updateActivity('preheat1stSide', v)} />
                 </div>
                 <div className="act-row calc">
                   <label>Weld 1st Side</label>
@@ -553,7 +568,7 @@ export function LongWeldsModule() {
                 </div>
                 <div className="act-row">
                   <label>Pre-heat 2nd Side</label>
-                  <NumberInput step={0.25} value={currentWeld.activityTimes.preheat2ndSide} onChange={(v) => updateActivity('preheat2ndSide', v)} />
+                  <NumberInput step={0.25} value={currentWeld.activityTimes.preheat2ndSide} disabled={!!currentWeld.preheatResult} onChange={(v) => updateActivity('preheat2ndSide', v)} />
                 </div>
                 <div className="act-row calc">
                   <label>Weld 2nd Side</label>
@@ -569,7 +584,7 @@ export function LongWeldsModule() {
                 </div>
                 <div className="act-row">
                   <label>NDE</label>
-                  <NumberInput step={0.25} value={currentWeld.activityTimes.nde} onChange={(v) => updateActivity('nde', v)} />
+                  <NumberInput step={0.25} value={currentWeld.activityTimes.nde} disabled={!!currentWeld.ndeResult} onChange={(v) => updateActivity('nde', v)} />
                 </div>
               </div>
             </section>
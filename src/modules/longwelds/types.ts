@@ -1,4 +1,5 @@
-import type { WeldProcess } from '../../shared/types';
+import type { WeldProcess, DepositByProcess, PreheatInput } from '../../shared/types';
+import type { VesselOverrides } from '../../project/types';
 
 /**
  * Long Weld (Longitudinal Seam) Types
@@ -27,6 +28,10 @@ export interface LongWeldItem {
   id: string;
   tag: string;                 // e.g., "Shell 1 Long", "S1-LS"
   quantity: number;            // Number of identical welds
+  wpsNumber?: string;          // WPS reference - prep and processes come from the library
+  preheat?: PreheatInput;      // Calculated preheat - hand-entered hours when absent
+  courseId?: string;           // Vessel course - shell thickness comes from the course
+  overrides?: VesselOverrides; // Values kept as entered instead of from the course
   
   geometry: LongWeldGeometry;
   
@@ -85,6 +90,9 @@ export interface LongWeldResults {
     outsideTotalTime: number;
     totalWeldTime: number;
   };
+
+  // Weld metal by process (consumables)
+  deposits: DepositByProcess;
 }
 
 export interface LongWeldActivityCodes {
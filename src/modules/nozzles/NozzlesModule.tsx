@@ -1,11 +1,45 @@
 import { useState, useMemo, useCallback, useEffect } from 'react';
 import { useProject } from '../../project';
-import { NumberInput } from '../../shared/components';
-import type { WeldProcess } from '../../shared/types';
-import type { NozzleItem, NozzlesModuleData, NozzleActivityCodes } from './types';
-import { DEFAULT_NOZZLE_GEOMETRY, DEFAULT_NOZZLE_ACTIVITY_TIMES, DEFAULT_PROCESS_LAYERS } from './types';
+import { NumberInput, WpsSelector, PreheatPanel, CourseSelector, HeadSelector } from '../../shared/components';
+import type { CourseBinding } from '../../shared/components/CourseSelector';
+import type { HeadBinding } from '../../shared/components/HeadSelector';
+import type { WeldProcess, PreheatInput } from '../../shared/types';
+import type {
+  NozzleItem,
+  NozzleRepad,
+  NozzleManway,
+  NozzleFlange,
+  NozzleFlangeType,
+  FlangeRating,
+  NozzlePlacement,
+  NozzlePlacementType,
+  NozzleParent,
+  NozzleParentComponent,
+  NozzlesModuleData,
+  NozzleActivityCodes,
+} from './types';
+import {
+  DEFAULT_NOZZLE_GEOMETRY,
+  DEFAULT_NOZZLE_ACTIVITY_TIMES,
+  DEFAULT_PROCESS_LAYERS,
+  DEFAULT_NOZZLE_REPAD,
+  FLANGE_TYPE_LABELS,
+  FLANGE_RATINGS,
+  PLACEMENT_LABELS,
+  PARENT_LABELS,
+  MANWAY_PRESETS,
+} from './types';
+import { HEAD_TYPE_LABELS } from '../heads/types';
+import type { HeadType } from '../heads/types';
 import { WeldDiagram } from './components/WeldDiagram';
-import { calculateNozzle, calculateActivityCodes } from './engine';
+import { applyManwayPreset } from './engine';
+import { calculateNozzles, summarizeNozzles } from './summary';
+import { getNdeCoverage } from '../offer/types';
+import type { OfferData } from '../offer/types';
+import { bindNozzle, findCourse, findHead } from '../../engine/vessel';
+import { getPipeJointSettings } from '../pipejoints/settings';
+import { getAllNPSSizes, getSchedulesForNPS, getPipeDimensions, getNearestNPS } from '../pipejoints/pipeData';
+import type { PipeJointSettings } from '../pipejoints/types';
 import './NozzlesModule.css';
 
 const PROCESSES: Exclude<WeldProcess, 'Skip'>[] = ['GTAW', 'SMAW', 'FCAW', 'GMAW', 'SAW'];
@@ -30,7 +64,8 @@ function createNewNozzle(tag: string): NozzleItem {
 }
 
 export function NozzlesModule() {
-  const { getModuleData, setModuleData, updateModuleSummary, settings, currentProject } = useProject();
+  const { getModuleData, setModuleData, updateModuleSummary, settings, currentEquipment, historyVersion } = useProject();
+  const vessel = currentEquipment?.vessel;
   
   const [view, setView] = useState<NozzleView>('list');
   const [selectedId, setSelectedId] = useState<string | null>(null);
@@ -41,7 +76,7 @@ export function NozzlesModule() {
     moduleData?.nozzles || [createNewNozzle('N1')]
   );
 
-  // Sync with project when it changes
+  // Sync with project when the equipment item changes or an edit is undone
   useEffect(() => {
     const data = getModuleData<NozzlesModuleData>('nozzles');
     if (data?.nozzles) {
@@ -50,46 +85,28 @@ export function NozzlesModule() {
         setSelectedId(data.nozzles[0].id);
       }
     }
-  }, [currentProject?.id]);
+  }, [currentEquipment?.id, historyVersion]);
 
   // Save to project whenever nozzles change
   useEffect(() => {
     setModuleData<NozzlesModuleData>('nozzles', { nozzles });
   }, [nozzles, setModuleData]);
 
+  // Flange-to-neck welds are priced from the pipe joint presets
+  const [pipeJointSettings] = useState<PipeJointSettings>(getPipeJointSettings);
+
+  const offerNde = getModuleData<OfferData>('offer')?.nde;
+  const ndeCoverage = useMemo(() => getNdeCoverage(offerNde), [offerNde]);
+
   // Calculate results for all nozzles
-  const nozzlesWithResults = useMemo(() => {
-    return nozzles.map(nozzle => {
-      const results = calculateNozzle(nozzle, settings);
-      const activityCodes = calculateActivityCodes(nozzle.activityTimes, results.times);
-      return { ...nozzle, results, activityCodes };
-    });
-  }, [nozzles, settings]);
+  const nozzlesWithResults = useMemo(
+    () => calculateNozzles(nozzles, settings, pipeJointSettings, ndeCoverage),
+    [nozzles, settings, pipeJointSettings, ndeCoverage]
+  );
 
   // Update module summary
   useEffect(() => {
-    const totalHours = nozzlesWithResults.reduce((sum, n) => {
-      const codes = n.activityCodes || {} as NozzleActivityCodes;
-      const perNozzle = Object.values(codes).reduce((s, v) => s + v, 0);
-      return sum + perNozzle * n.quantity;
-    }, 0);
-
-    const activityBreakdown: Record<string, number> = {};
-    nozzlesWithResults.forEach(n => {
-      if (n.activityCodes) {
-        Object.entries(n.activityCodes).forEach(([code, hours]) => {
-          activityBreakdown[code] = (activityBreakdown[code] || 0) + hours * n.quantity;
-        });
-      }
-    });
-
-    updateModuleSummary('nozzles', {
-      moduleId: 'nozzles',
-      moduleName: 'Nozzles',
-      itemCount: nozzles.reduce((sum, n) => sum + n.quantity, 0),
-      totalHours,
-      activityBreakdown,
-    });
+    updateModuleSummary('nozzles', summarizeNozzles(nozzlesWithResults));
   }, [nozzlesWithResults, updateModuleSummary]);
 
   // Get selected nozzle
@@ -98,9 +115,14 @@ export function NozzlesModule() {
     [nozzlesWithResults, selectedId]
   );
 
+  // Bound to a vessel course or head - the shell comes from the vessel
+  const isBound = !!selectedNozzle && (selectedNozzle.parent?.component === 'head'
+    ? !!findHead(vessel, selectedNozzle.parent.headId)
+    : !!findCourse(vessel, selectedNozzle.courseId));
+
   // Calculate job totals
   const jobTotals = useMemo(() => {
-    const totals: NozzleActivityCodes = { CUTNOZZ: 0, FNOZZ: 0, PREHEAT: 0, WNOZZ: 0, BACGRI: 0, MATCUT: 0, NDE: 0 };
+    const totals: NozzleActivityCodes = { CUTNOZZ: 0, FNOZZ: 0, PREHEAT: 0, WNOZZ: 0, BACGRI: 0, MATCUT: 0, NDE: 0, CUTPAD: 0, FORMPAD: 0, WPAD: 0, FPIPE: 0, WPIPE: 0, WDAVIT: 0, MACHMW: 0, BOLTMW: 0 };
     let totalNozzles = 0;
     let grandTotal = 0;
 
@@ -136,6 +158,14 @@ export function NozzlesModule() {
     }, 50);
   };
 
+  // Add manway - starts from the first standard size
+  const addManway = () => {
+    const newTag = `MW${nozzles.filter(n => n.manway).length + 1}`;
+    const newManway = applyManwayPreset(createNewNozzle(newTag), MANWAY_PRESETS[0]);
+    setNozzles(prev => [...prev, newManway]);
+    setSelectedId(newManway.id);
+  };
+
   // Duplicate nozzle
   const duplicateNozzle = (nozzle: NozzleItem) => {
     const newNozzle: NozzleItem = {
@@ -179,6 +209,121 @@ export function NozzlesModule() {
     });
   };
 
+  // Change WPS - the current prep is kept on the nozzle so it carries over when the WPS is removed
+  const setProcedure = (wpsNumber: string | undefined) => {
+    if (!selectedNozzle) return;
+    const { results, activityCodes, procedure, preheatResult, ndeResult, ...nozzle } = selectedNozzle;
+    updateNozzle(selectedNozzle.id, { ...nozzle, wpsNumber });
+  };
+
+  // Bind to a vessel course - the shell is taken from the vessel straight away
+  const setCourse = (binding: CourseBinding) => {
+    if (!selectedNozzle) return;
+    const bound = bindNozzle({ ...selectedNozzle, ...binding }, vessel);
+    updateNozzle(selectedNozzle.id, { ...binding, geometry: bound.geometry, placement: bound.placement });
+  };
+
+  // Set into the shell or a head - a head nozzle drops its course and shell placement
+  const setParent = (component: NozzleParentComponent) => {
+    if (!selectedNozzle) return;
+    const parent: NozzleParent | undefined = component === 'head'
+      ? { headType: 'ellipsoidal', headID: vessel?.insideDiameter ?? 2000, position: 0, ...selectedNozzle.parent, component }
+      : undefined;
+    const bound = bindNozzle({ ...selectedNozzle, parent, courseId: undefined, overrides: undefined, placement: undefined }, vessel);
+    updateNozzle(selectedNozzle.id, {
+      parent: bound.parent,
+      courseId: undefined,
+      overrides: undefined,
+      placement: undefined,
+      geometry: bound.geometry,
+    });
+  };
+
+  // Head position and binding - a bound nozzle takes the head straight away
+  const updateParent = (updates: Partial<NozzleParent>, overrides = selectedNozzle?.overrides) => {
+    if (!selectedNozzle?.parent) return;
+    const bound = bindNozzle({ ...selectedNozzle, overrides, parent: { ...selectedNozzle.parent, ...updates } }, vessel);
+    updateNozzle(selectedNozzle.id, { overrides, parent: bound.parent, geometry: bound.geometry });
+  };
+
+  const setHead = (binding: HeadBinding) => updateParent({ headId: binding.headId }, binding.overrides);
+
+  // Fit or remove the reinforcing pad - a new pad starts at twice the nozzle OD
+  const toggleRepad = (fitted: boolean) => {
+    if (!selectedNozzle) return;
+    updateNozzle(selectedNozzle.id, {
+      repad: fitted ? { ...DEFAULT_NOZZLE_REPAD, padOD: selectedNozzle.geometry.nozzleOD * 2 } : undefined,
+    });
+  };
+
+  const updateRepad = (field: keyof NozzleRepad, value: number | boolean) => {
+    if (!selectedNozzle?.repad) return;
+    updateNozzle(selectedNozzle.id, { repad: { ...selectedNozzle.repad, [field]: value } });
+  };
+
+  // Placement on the shell - a bound nozzle takes the vessel ID straight away
+  const updatePlacement = (updates: Partial<NozzlePlacement> | null) => {
+    if (!selectedNozzle) return;
+    const placement: NozzlePlacement | undefined = updates
+      ? {
+          type: 'radial',
+          offset: 0,
+          shellID: vessel?.insideDiameter ?? 2000,
+          neckThickness: 10,
+          ...selectedNozzle.placement,
+          ...updates,
+        }
+      : undefined;
+    updateNozzle(selectedNozzle.id, { placement: bindNozzle({ ...selectedNozzle, placement }, vessel).placement });
+  };
+
+  // Neck flange - a welded flange sets the nozzle OD to its neck pipe
+  const updateFlange = (updates: Partial<NozzleFlange> | null) => {
+    if (!selectedNozzle) return;
+    if (!updates) {
+      updateNozzle(selectedNozzle.id, { flange: undefined });
+      return;
+    }
+    const nps = updates.nps ?? selectedNozzle.flange?.nps ?? getNearestNPS(selectedNozzle.geometry.nozzleOD);
+    const schedules = getSchedulesForNPS(nps);
+    const current = updates.schedule ?? selectedNozzle.flange?.schedule ?? 'SCH 40';
+    const flange: NozzleFlange = {
+      type: 'WN',
+      rating: 150,
+      ...selectedNozzle.flange,
+      ...updates,
+      nps,
+      schedule: schedules.includes(current) ? current : schedules[0],
+    };
+    const dims = flange.type !== 'LWN' ? getPipeDimensions(flange.nps, flange.schedule) : null;
+    updateNozzle(selectedNozzle.id, {
+      flange,
+      ...(dims && { geometry: { ...selectedNozzle.geometry, nozzleOD: dims.od } }),
+    });
+  };
+
+  // Manway - a standard size sets the neck, flange, pad and bolting together
+  const setManway = (isManway: boolean) => {
+    if (!selectedNozzle) return;
+    updateNozzle(selectedNozzle.id, { manway: isManway ? { ...MANWAY_PRESETS[0].manway } : undefined });
+  };
+
+  const applyPreset = (index: number) => {
+    if (!selectedNozzle || !MANWAY_PRESETS[index]) return;
+    const { geometry, flange, repad, manway } = applyManwayPreset(selectedNozzle, MANWAY_PRESETS[index]);
+    updateNozzle(selectedNozzle.id, { geometry, flange, repad, manway });
+  };
+
+  const updateManway = (field: keyof NozzleManway, value: number) => {
+    if (!selectedNozzle?.manway) return;
+    updateNozzle(selectedNozzle.id, { manway: { ...selectedNozzle.manway, [field]: value } });
+  };
+
+  const setPreheat = (preheat: PreheatInput) => {
+    if (!selectedNozzle) return;
+    updateNozzle(selectedNozzle.id, { preheat });
+  };
+
   // Update activity
   const updateActivity = (field: string, value: number) => {
     if (!selectedNozzle) return;
@@ -227,6 +372,7 @@ export function NozzlesModule() {
         </div>
         <div className="toolbar-center">
           <button className="btn-add" onClick={addNozzle}>+ Add Nozzle</button>
+          <button className="btn-add" onClick={addManway}>+ Add Manway</button>
         </div>
         <div className="toolbar-right">
           <span className="stats">{jobTotals.totalNozzles} nozzles • {jobTotals.grandTotal.toFixed(1)} hrs</span>
@@ -250,6 +396,14 @@ export function NozzlesModule() {
                 <th>BACGRI</th>
                 <th>MATCUT</th>
                 <th>NDE</th>
+                <th>CUTPAD</th>
+                <th>FORMPAD</th>
+                <th>WPAD</th>
+                <th>FPIPE</th>
+                <th>WPIPE</th>
+                <th>WDAVIT</th>
+                <th>MACHMW</th>
+                <th>BOLTMW</th>
                 <th>Total/ea</th>
                 <th>Total</th>
                 <th>Actions</th>
@@ -278,6 +432,14 @@ export function NozzlesModule() {
                     <td>{codes.BACGRI.toFixed(2)}</td>
                     <td>{codes.MATCUT.toFixed(2)}</td>
                     <td>{codes.NDE.toFixed(2)}</td>
+                    <td>{codes.CUTPAD.toFixed(2)}</td>
+                    <td>{codes.FORMPAD.toFixed(2)}</td>
+                    <td className="weld-time">{codes.WPAD.toFixed(2)}</td>
+                    <td>{codes.FPIPE.toFixed(2)}</td>
+                    <td className="weld-time">{codes.WPIPE.toFixed(2)}</td>
+                    <td className="weld-time">{codes.WDAVIT.toFixed(2)}</td>
+                    <td>{codes.MACHMW.toFixed(2)}</td>
+                    <td>{codes.BOLTMW.toFixed(2)}</td>
                     <td className="total-cell">{totalPer.toFixed(2)}</td>
                     <td className="total-cell">{totalQty.toFixed(2)}</td>
                     <td className="actions-cell">
@@ -301,6 +463,14 @@ export function NozzlesModule() {
                 <td><strong>{jobTotals.totals.BACGRI.toFixed(2)}</strong></td>
                 <td><strong>{jobTotals.totals.MATCUT.toFixed(2)}</strong></td>
                 <td><strong>{jobTotals.totals.NDE.toFixed(2)}</strong></td>
+                <td><strong>{jobTotals.totals.CUTPAD.toFixed(2)}</strong></td>
+                <td><strong>{jobTotals.totals.FORMPAD.toFixed(2)}</strong></td>
+                <td className="weld-time"><strong>{jobTotals.totals.WPAD.toFixed(2)}</strong></td>
+                <td><strong>{jobTotals.totals.FPIPE.toFixed(2)}</strong></td>
+                <td className="weld-time"><strong>{jobTotals.totals.WPIPE.toFixed(2)}</strong></td>
+                <td className="weld-time"><strong>{jobTotals.totals.WDAVIT.toFixed(2)}</strong></td>
+                <td><strong>{jobTotals.totals.MACHMW.toFixed(2)}</strong></td>
+                <td><strong>{jobTotals.totals.BOLTMW.toFixed(2)}</strong></td>
                 <td></td>
                 <td className="grand-total"><strong>{jobTotals.grandTotal.toFixed(2)}</strong></td>
                 <td></td>
@@ -319,82 +489,339 @@ export function NozzlesModule() {
               </select>
             </div>
 
+            <section className="section">
+              <h3>📋 Weld Procedure</h3>
+              <WpsSelector
+                value={selectedNozzle.wpsNumber}
+                procedures={settings.weldProcedures}
+                thickness={selectedNozzle.geometry.shellThick}
+                onChange={setProcedure}
+              />
+            </section>
+
+            <section className="section">
+              <h3>📐 Vessel Component</h3>
+              <div className="input-group">
+                <label>Set Into</label>
+                <select
+                  value={selectedNozzle.parent?.component ?? 'shell'}
+                  onChange={(e) => setParent(e.target.value as NozzleParentComponent)}
+                >
+                  {(Object.keys(PARENT_LABELS) as NozzleParentComponent[]).map(c => (
+                    <option key={c} value={c}>{PARENT_LABELS[c]}</option>
+                  ))}
+                </select>
+              </div>
+              {selectedNozzle.parent?.component === 'head' ? (
+                <HeadSelector
+                  value={{ headId: selectedNozzle.parent.headId, overrides: selectedNozzle.overrides }}
+                  heads={vessel?.heads ?? []}
+                  onChange={setHead}
+                />
+              ) : (
+                <CourseSelector
+                  value={{ courseId: selectedNozzle.courseId, overrides: selectedNozzle.overrides }}
+                  courses={vessel?.courses ?? []}
+                  diameter={!!selectedNozzle.placement}
+                  onChange={setCourse}
+                />
+              )}
+            </section>
+
+            <section className="section">
+              <h3>🔥 Preheat</h3>
+              <PreheatPanel value={selectedNozzle.preheat} result={selectedNozzle.preheatResult} onChange={setPreheat} />
+            </section>
+
             <section className="section">
               <h3>📏 Dimensions</h3>
               <div className="input-row">
                 <div className="input-group"><label>Nozzle OD</label><NumberInput value={selectedNozzle.geometry.nozzleOD} onChange={(v) => updateGeometry('nozzleOD', v)} /></div>
-                <div className="input-group"><label>Shell Thk</label><NumberInput value={selectedNozzle.geometry.shellThick} onChange={(v) => updateGeometry('shellThick', v)} /></div>
-              </div>
-              <div className="input-row">
-                <div className="input-group"><label>Root Gap</label><NumberInput value={selectedNozzle.geometry.rootGap} step={0.5} onChange={(v) => updateGeometry('rootGap', v)} /></div>
-                <div className="input-group"><label>Root Face</label><NumberInput value={selectedNozzle.geometry.rootFace} step={0.5} onChange={(v) => updateGeometry('rootFace', v)} /></div>
+                <div className="input-group"><label>{selectedNozzle.parent?.component === 'head' ? 'Head Thk' : 'Shell Thk'}</label><NumberInput value={selectedNozzle.geometry.shellThick} disabled={isBound && !selectedNozzle.overrides?.thickness} onChange={(v) => updateGeometry('shellThick', v)} /></div>
               </div>
+              <fieldset className="wps-locked" disabled={!!selectedNozzle.procedure}>
+                <div className="input-row">
+                  <div className="input-group"><label>Root Gap</label><NumberInput value={selectedNozzle.geometry.rootGap} step={0.5} onChange={(v) => updateGeometry('rootGap', v)} /></div>
+                  <div className="input-group"><label>Root Face</label><NumberInput value={selectedNozzle.geometry.rootFace} step={0.5} onChange={(v) => updateGeometry('rootFace', v)} /></div>
+                </div>
+              </fieldset>
               <div className="input-group"><label>Fillet Throat</label><NumberInput value={selectedNozzle.geometry.filletThroat} step={0.5} onChange={(v) => updateGeometry('filletThroat', v)} /></div>
             </section>
 
             <section className="section">
-              <h3>🔧 Bevel</h3>
-              <div className="input-group">
-                <label>Joint Type</label>
-                <select value={selectedNozzle.geometry.jointType} onChange={(e) => updateGeometry('jointType', e.target.value)}>
-                  <option value="singlebevel">Single Bevel</option>
-                  <option value="doublebevel">Double Bevel</option>
-                </select>
-              </div>
-              {selectedNozzle.geometry.jointType === 'singlebevel' ? (
-                <div className="input-group"><label>Bevel Angle (°)</label><NumberInput value={selectedNozzle.geometry.singleBevelAngle} onChange={(v) => updateGeometry('singleBevelAngle', v)} /></div>
-              ) : (
+              <h3>🚪 Manway</h3>
+              <label className="checkbox-label">
+                <input type="checkbox" checked={!!selectedNozzle.manway} onChange={(e) => setManway(e.target.checked)} />
+                Manway - davit, cover and bolting
+              </label>
+              {selectedNozzle.manway && (
                 <>
+                  <div className="input-group">
+                    <label>Standard Size</label>
+                    <select value="" onChange={(e) => applyPreset(Number(e.target.value))}>
+                      <option value="">Apply a standard manway...</option>
+                      {MANWAY_PRESETS.map((p, i) => <option key={p.label} value={i}>{p.label}</option>)}
+                    </select>
+                  </div>
                   <div className="input-row">
-                    <div className="input-group"><label>1st Side (°)</label><NumberInput value={selectedNozzle.geometry.insideBevelAngle} onChange={(v) => updateGeometry('insideBevelAngle', v)} /></div>
-                    <div className="input-group"><label>2nd Side (°)</label><NumberInput value={selectedNozzle.geometry.outsideBevelAngle} onChange={(v) => updateGeometry('outsideBevelAngle', v)} /></div>
+                    <div className="input-group"><label>Davit Brackets</label><NumberInput value={selectedNozzle.manway.davitBrackets} onChange={(v) => updateManway('davitBrackets', v)} /></div>
+                    <div className="input-group"><label>Fillet / Bracket</label><NumberInput value={selectedNozzle.manway.bracketFilletLength} step={10} onChange={(v) => updateManway('bracketFilletLength', v)} /></div>
+                    <div className="input-group"><label>Fillet Throat</label><NumberInput value={selectedNozzle.manway.bracketThroat} step={0.5} onChange={(v) => updateManway('bracketThroat', v)} /></div>
                   </div>
-                  <div className="input-group"><label>1st Side Split (%)</label><NumberInput value={selectedNozzle.geometry.splitRatio} min={40} max={80} step={5} onChange={(v) => updateGeometry('splitRatio', v)} /></div>
+                  <div className="input-group"><label>Studs</label><NumberInput value={selectedNozzle.manway.studCount} step={4} onChange={(v) => updateManway('studCount', v)} /></div>
+                  <p className="wps-note">A standard size also sets the neck OD, weld neck flange and pad.</p>
                 </>
               )}
             </section>
 
             <section className="section">
-              <h3>🔥 1st Side Weld</h3>
-              <div className="groove-info">Root: {grooveInfo.rootWidth.toFixed(0)}mm → Top: {grooveInfo.topWidth.toFixed(0)}mm</div>
-              <div className="layers-header"><span>Process</span><span>Switch @</span><span></span></div>
-              {selectedNozzle.insideLayers.map((layer, index) => (
-                <div key={index} className="layer-row">
-                  <select value={layer.process} onChange={(e) => updateInsideLayer(index, 'process', e.target.value)}>
-                    {PROCESSES.map((p) => <option key={p} value={p}>{p}</option>)}
-                  </select>
-                  <div className="width-input">
-                    <NumberInput value={layer.minWidth} min={0} step={1} onChange={(v) => updateInsideLayer(index, 'minWidth', v)} disabled={index === 0} />
-                    <span>mm</span>
+              <h3>🛡️ Reinforcing Pad</h3>
+              <label className="checkbox-label">
+                <input type="checkbox" checked={!!selectedNozzle.repad} onChange={(e) => toggleRepad(e.target.checked)} />
+                Fit repad
+              </label>
+              {selectedNozzle.repad && (
+                <>
+                  <div className="input-row">
+                    <div className="input-group"><label>Pad OD</label><NumberInput value={selectedNozzle.repad.padOD} step={10} onChange={(v) => updateRepad('padOD', v)} /></div>
+                    <div className="input-group"><label>Pad Thk</label><NumberInput value={selectedNozzle.repad.thickness} onChange={(v) => updateRepad('thickness', v)} /></div>
                   </div>
-                  <button className="btn-remove" onClick={() => removeInsideLayer(index)} disabled={selectedNozzle.insideLayers.length <= 1}>×</button>
-                </div>
-              ))}
-              <button className="btn-add-layer" onClick={addInsideLayer}>+ Add Process</button>
+                  <div className="input-row">
+                    <div className="input-group"><label>Neck Fillet Throat</label><NumberInput value={selectedNozzle.repad.neckThroat} step={0.5} onChange={(v) => updateRepad('neckThroat', v)} /></div>
+                    <div className="input-group"><label>Shell Fillet Throat</label><NumberInput value={selectedNozzle.repad.shellThroat} step={0.5} onChange={(v) => updateRepad('shellThroat', v)} /></div>
+                  </div>
+                  <label className="checkbox-label">
+                    <input type="checkbox" checked={selectedNozzle.repad.tellTale} onChange={(e) => updateRepad('tellTale', e.target.checked)} />
+                    Tell-tale hole
+                  </label>
+                  {selectedNozzle.repad.padOD <= selectedNozzle.geometry.nozzleOD && (
+                    <p className="wps-warning">⚠ Pad OD must be larger than the nozzle OD</p>
+                  )}
+                </>
+              )}
             </section>
 
-            <section className="section">
-              <h3>🔄 2nd Side & Fillet</h3>
-              {selectedNozzle.geometry.jointType === 'doublebevel' && (
+            {selectedNozzle.parent?.component === 'head' ? (
+              <section className="section">
+                <h3>📍 Head Position</h3>
+                <div className="input-row">
+                  <div className="input-group">
+                    <label>Head Type</label>
+                    <select
+                      value={selectedNozzle.parent.headType}
+                      disabled={isBound}
+                      onChange={(e) => updateParent({ headType: e.target.value as HeadType })}
+                    >
+                      {(Object.keys(HEAD_TYPE_LABELS) as HeadType[]).map(t => (
+                        <option key={t} value={t}>{HEAD_TYPE_LABELS[t]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="input-group">
+                    <label>Head ID</label>
+                    <NumberInput
+                      value={selectedNozzle.parent.headID}
+                      step={100}
+                      disabled={isBound && !selectedNozzle.overrides?.diameter}
+                      onChange={(v) => updateParent({ headID: v })}
+                    />
+                  </div>
+                  <div className="input-group"><label>From Centre</label><NumberInput value={selectedNozzle.parent.position} step={10} onChange={(v) => updateParent({ position: v })} /></div>
+                </div>
+                {selectedNozzle.results?.intersection ? (
+                  <>
+                    <p className="wps-note">
+                      Weld path {selectedNozzle.results.intersection.length.toFixed(0)}mm - head tilt
+                      {' '}{selectedNozzle.results.intersection.minTilt.toFixed(1)}° to {selectedNozzle.results.intersection.maxTilt.toFixed(1)}°
+                      {' '}• effective thickness {selectedNozzle.results.effectiveThickness.toFixed(1)}mm
+                    </p>
+                    {Math.abs(selectedNozzle.parent.position) + selectedNozzle.geometry.nozzleOD / 2 > 0.4 * selectedNozzle.parent.headID && (
+                      <p className="wps-warning">⚠ The nozzle reaches outside the central 80% of the head into the knuckle</p>
+                    )}
+                  </>
+                ) : (
+                  <p className="wps-warning">⚠ The nozzle runs off the edge of the head - flat weld path used</p>
+                )}
+              </section>
+            ) : (
+              <section className="section">
+                <h3>📍 Placement</h3>
                 <div className="input-group">
-                  <label>2nd Side (after gouge)</label>
-                  <select value={selectedNozzle.outsideProcess} onChange={(e) => updateNozzle(selectedNozzle.id, { outsideProcess: e.target.value as Exclude<WeldProcess, 'Skip'> })}>
-                    {PROCESSES.map((p) => <option key={p} value={p}>{p}</option>)}
+                  <label>Position</label>
+                  <select
+                    value={selectedNozzle.placement?.type ?? ''}
+                    onChange={(e) => updatePlacement(e.target.value ? { type: e.target.value as NozzlePlacementType } : null)}
+                  >
+                    <option value="">Flat - π × OD weld path</option>
+                    {(Object.keys(PLACEMENT_LABELS) as NozzlePlacementType[]).map(t => (
+                      <option key={t} value={t}>{PLACEMENT_LABELS[t]}</option>
+                    ))}
                   </select>
                 </div>
-              )}
+                {selectedNozzle.placement && (
+                  <>
+                    <div className="input-row">
+                      <div className="input-group">
+                        <label>Shell ID</label>
+                        <NumberInput
+                          value={selectedNozzle.placement.shellID}
+                          step={100}
+                          disabled={isBound && !selectedNozzle.overrides?.diameter}
+                          onChange={(v) => updatePlacement({ shellID: v })}
+                        />
+                      </div>
+                      {selectedNozzle.placement.type === 'hillside' && (
+                        <div className="input-group"><label>Offset</label><NumberInput value={selectedNozzle.placement.offset} step={10} onChange={(v) => updatePlacement({ offset: v })} /></div>
+                      )}
+                      {selectedNozzle.placement.type === 'setOn' && (
+                        <div className="input-group"><label>Neck Thk</label><NumberInput value={selectedNozzle.placement.neckThickness} onChange={(v) => updatePlacement({ neckThickness: v })} /></div>
+                      )}
+                    </div>
+                    {selectedNozzle.results?.intersection ? (
+                      <p className="wps-note">
+                        Weld path {selectedNozzle.results.intersection.length.toFixed(0)}mm - shell tilt
+                        {' '}{selectedNozzle.results.intersection.minTilt.toFixed(1)}° to {selectedNozzle.results.intersection.maxTilt.toFixed(1)}°
+                        {' '}• effective thickness {selectedNozzle.results.effectiveThickness.toFixed(1)}mm
+                      </p>
+                    ) : (
+                      <p className="wps-warning">⚠ The nozzle runs off the side of the shell - flat weld path used</p>
+                    )}
+                  </>
+                )}
+              </section>
+            )}
+
+            <section className="section">
+              <h3>🔩 Flange</h3>
               <div className="input-group">
-                <label>Fillet Weld</label>
-                <select value={selectedNozzle.filletProcess} onChange={(e) => updateNozzle(selectedNozzle.id, { filletProcess: e.target.value as Exclude<WeldProcess, 'Skip'> })}>
-                  {PROCESSES.map((p) => <option key={p} value={p}>{p}</option>)}
+                <label>Flange Type</label>
+                <select
+                  value={selectedNozzle.flange?.type ?? ''}
+                  onChange={(e) => updateFlange(e.target.value ? { type: e.target.value as NozzleFlangeType } : null)}
+                >
+                  <option value="">None - nozzle only</option>
+                  {(Object.keys(FLANGE_TYPE_LABELS) as NozzleFlangeType[]).map(t => (
+                    <option key={t} value={t}>{t} - {FLANGE_TYPE_LABELS[t]}</option>
+                  ))}
                 </select>
               </div>
+              {selectedNozzle.flange && (
+                <>
+                  <div className="input-row">
+                    <div className="input-group">
+                      <label>Rating</label>
+                      <select value={selectedNozzle.flange.rating} onChange={(e) => updateFlange({ rating: Number(e.target.value) as FlangeRating })}>
+                        {FLANGE_RATINGS.map(r => <option key={r} value={r}>{r}#</option>)}
+                      </select>
+                    </div>
+                    <div className="input-group">
+                      <label>Neck Size</label>
+                      <select value={selectedNozzle.flange.nps} onChange={(e) => updateFlange({ nps: e.target.value })}>
+                        {getAllNPSSizes().map(nps => <option key={nps} value={nps}>{nps}</option>)}
+                      </select>
+                    </div>
+                  </div>
+                  <div className="input-group">
+                    <label>Neck Schedule</label>
+                    <select value={selectedNozzle.flange.schedule} onChange={(e) => updateFlange({ schedule: e.target.value })}>
+                      {getSchedulesForNPS(selectedNozzle.flange.nps).map(sch => <option key={sch} value={sch}>{sch}</option>)}
+                    </select>
+                  </div>
+                  {selectedNozzle.flange.type === 'LWN' ? (
+                    <p className="wps-note">Forged long weld neck - no flange-to-neck weld</p>
+                  ) : selectedNozzle.results?.flange ? (
+                    <p className="wps-note">
+                      {selectedNozzle.flange.type === 'WN' ? 'Butt weld' : 'Hub and bore fillets'} on {selectedNozzle.results.flange.wallThickness}mm wall
+                      {' '}- {selectedNozzle.results.flange.passes} passes
+                    </p>
+                  ) : (
+                    <p className="wps-warning">⚠ Neck size is not in the pipe data - flange weld not priced</p>
+                  )}
+                </>
+              )}
             </section>
+
+            <fieldset className="wps-locked" disabled={!!selectedNozzle.procedure}>
+              <section className="section">
+                <h3>🔧 Bevel</h3>
+                <div className="input-group">
+                  <label>Joint Type</label>
+                  <select value={selectedNozzle.geometry.jointType} onChange={(e) => updateGeometry('jointType', e.target.value)}>
+                    <option value="singlebevel">Single Bevel</option>
+                    <option value="doublebevel">Double Bevel</option>
+                  </select>
+                </div>
+                {selectedNozzle.geometry.jointType === 'singlebevel' ? (
+                  <div className="input-group"><label>Bevel Angle (°)</label><NumberInput value={selectedNozzle.geometry.singleBevelAngle} onChange={(v) => updateGeometry('singleBevelAngle', v)} /></div>
+                ) : (
+                  <>
+                    <div className="input-row">
+                      <div className="input-group"><label>1st Side (°)</label><NumberInput value={selectedNozzle.geometry.insideBevelAngle} onChange={(v) => updateGeometry('insideBevelAngle', v)} /></div>
+                      <div className="input-group"><label>2nd Side (°)</label><NumberInput value={selectedNozzle.geometry.outsideBevelAngle} onChange={(v) => updateGeometry('outsideBevelAngle', v)} /></div>
+                    </div>
+                    <div className="input-group"><label>1st Side Split (%)</label><NumberInput value={selectedNozzle.geometry.splitRatio} min={40} max={80} step={5} onChange={(v) => updateGeometry('splitRatio', v)} /></div>
+                  </>
+                )}
+              </section>
+
+              <section className="section">
+                <h3>🔥 1st Side Weld</h3>
+                <div className="groove-info">Root: {grooveInfo.rootWidth.toFixed(0)}mm → Top: {grooveInfo.topWidth.toFixed(0)}mm</div>
+                <div className="layers-header"><span>Process</span><span>Switch @</span><span></span></div>
+                {selectedNozzle.insideLayers.map((layer, index) => (
+                  <div key={index} className="layer-row">
+                    <select value={layer.process} onChange={(e) => updateInsideLayer(index, 'process', e.target.value)}>
+                      {PROCESSES.map((p) => <option key={p} value={p}>{p}</option>)}
+                    </select>
+                    <div className="width-input">
+                      <NumberInput value={layer.minWidth} min={0} step={1} onChange={(v) => updateInsideLayer(index, 'minWidth', v)} disabled={index === 0} />
+                      <span>mm</span>
+                    </div>
+                    <button className="btn-remove" onClick={() => removeInsideLayer(index)} disabled={selectedNozzle.insideLayers.length <= 1}>×</button>
+                  </div>
+                ))}
+                <button className="btn-add-layer" onClick={addInsideLayer}>+ Add Process</button>
+              </section>
+
+              <section className="section">
+                <h3>🔄 2nd Side & Fillet</h3>
+                {selectedNozzle.geometry.jointType === 'doublebevel' && (
+                  <div className="input-group">
+                    <label>2nd Side (after gouge)</label>
+                    <select value={selectedNozzle.outsideProcess} onChange={(e) => updateNozzle(selectedNozzle.id, { outsideProcess: e.target.value as Exclude<WeldProcess, 'Skip'> })}>
+                      {PROCESSES.map((p) => <option key={p} value={p}>{p}</option>)}
+                    </select>
+                  </div>
+                )}
+                <div className="input-group">
+                  <label>Fillet Weld</label>
+                  <select value={selectedNozzle.filletProcess} onChange={(e) => updateNozzle(selectedNozzle.id, { filletProcess: e.target.value as Exclude<WeldProcess, 'Skip'> })}>
+                    {PROCESSES.map((p) => <option key={p} value={p}>{p}</option>)}
+                  </select>
+                </div>
+              </section>
+            </fieldset>
           </div>
 
           <div className="editor-panel center">
-            <WeldDiagram geometry={selectedNozzle.geometry} insideLayers={selectedNozzle.insideLayers} outsideProcess={selectedNozzle.outsideProcess} filletProcess={selectedNozzle.filletProcess} />
-            <p className="diagram-caption">Circumference: {selectedNozzle.results?.circumference.toFixed(0) || 0}mm</p>
+            <WeldDiagram
+              geometry={selectedNozzle.geometry}
+              repad={selectedNozzle.repad}
+              tilt={selectedNozzle.results?.intersection
+                ? { min: selectedNozzle.results.intersection.minTilt, max: selectedNozzle.results.intersection.maxTilt }
+                : undefined}
+              insideLayers={selectedNozzle.insideLayers}
+              outsideProcess={selectedNozzle.outsideProcess}
+              filletProcess={selectedNozzle.filletProcess}
+            />
+            <p className="diagram-caption">
+              {selectedNozzle.results?.intersection ? 'Weld path' : 'Circumference'}: {selectedNozzle.results?.circumference.toFixed(0) || 0}mm
+            </p>
+            {selectedNozzle.results?.pad && (
+              <p className="diagram-caption">
+                Pad edge: {selectedNozzle.results.pad.shellLength.toFixed(0)}mm · Pad mass: {selectedNozzle.results.pad.mass.toFixed(1)}kg
+              </p>
+            )}
           </div>
 
           <div className="editor-panel right">
@@ -411,15 +838,43 @@ export function NozzlesModule() {
                 <div className="act-row"><label>Cut & Bevel</label><NumberInput step={0.25} value={selectedNozzle.activityTimes.cutAndBevel} onChange={(v) => updateActivity('cutAndBevel', v)} /></div>
                 <div className="act-row"><label>Clean Bevel</label><NumberInput step={0.25} value={selectedNozzle.activityTimes.grindBevelClean} onChange={(v) => updateActivity('grindBevelClean', v)} /></div>
                 <div className="act-row"><label>Fit Nozzle</label><NumberInput step={0.25} value={selectedNozzle.activityTimes.fitNozzle} onChange={(v) => updateActivity('fitNozzle', v)} /></div>
-                <div className="act-row"><label>Pre-heat 1st Side</label><NumberInput step={0.25} value={selectedNozzle.activityTimes.preheat1} onChange={(v) => updateActivity('preheat1', v)} /></div>
+                <div className="act-row"><label>Pre-heat 1st Side</label><NumberInput step={0.25} value={selectedNozzle.activityTimes.preheat1} disabled={!!selectedNozzle.preheatResult} onChange={(v) => updateActivity('preheat1', v)} /></div>
                 <div className="act-row calc"><label>Weld 1st Side</label><span>{selectedNozzle.results?.times.insideTime.toFixed(2) || 0}h</span></div>
                 <div className="act-row"><label>Grind 1st Side Flush</label><NumberInput step={0.25} value={selectedNozzle.activityTimes.grind1stSide} onChange={(v) => updateActivity('grind1stSide', v)} /></div>
                 <div className="act-row"><label>Backgrind</label><NumberInput step={0.25} value={selectedNozzle.activityTimes.backGouge} onChange={(v) => updateActivity('backGouge', v)} /></div>
-                <div className="act-row"><label>Pre-heat 2nd Side</label><NumberInput step={0.25} value={selectedNozzle.activityTimes.preheat2} onChange={(v) => updateActivity('preheat2', v)} /></div>
+                <div className="act-row"><label>Pre-heat 2nd Side</label><NumberInput step={0.25} value={selectedNozzle.activityTimes.preheat2} disabled={!!selectedNozzle.preheatResult} onChange={(v) => updateActivity('preheat2', v)} /></div>
                 <div className="act-row calc"><label>Weld 2nd Side</label><span>{selectedNozzle.results?.times.outsideTime.toFixed(2) || 0}h</span></div>
                 <div className="act-row"><label>Grind 2nd Side Flush</label><NumberInput step={0.25} value={selectedNozzle.activityTimes.grind2ndSide} onChange={(v) => updateActivity('grind2ndSide', v)} /></div>
                 <div className="act-row calc"><label>Fillet</label><span>{selectedNozzle.results?.times.filletTime.toFixed(2) || 0}h</span></div>
-                <div className="act-row"><label>NDE</label><NumberInput step={0.25} value={selectedNozzle.activityTimes.nde} onChange={(v) => updateActivity('nde', v)} /></div>
+                {selectedNozzle.repad && (
+                  <>
+                    <div className="act-row"><label>Cut Pad</label><NumberInput step={0.25} value={selectedNozzle.repad.cutHours} onChange={(v) => updateRepad('cutHours', v)} /></div>
+                    <div className="act-row"><label>Form Pad</label><NumberInput step={0.25} value={selectedNozzle.repad.formHours} onChange={(v) => updateRepad('formHours', v)} /></div>
+                    <div className="act-row"><label>Fit Pad</label><NumberInput step={0.25} value={selectedNozzle.repad.fitHours} onChange={(v) => updateRepad('fitHours', v)} /></div>
+                    {selectedNozzle.repad.tellTale && (
+                      <div className="act-row"><label>Drill Tell-Tale</label><NumberInput step={0.25} value={selectedNozzle.repad.drillHours} onChange={(v) => updateRepad('drillHours', v)} /></div>
+                    )}
+                    <div className="act-row calc"><label>Pad-to-Neck Fillet</label><span>{selectedNozzle.results?.times.padNeckTime.toFixed(2) || 0}h</span></div>
+                    <div className="act-row calc"><label>Pad-to-Shell Fillet</label><span>{selectedNozzle.results?.times.padShellTime.toFixed(2) || 0}h</span></div>
+                  </>
+                )}
+                {selectedNozzle.results?.flange && (
+                  <>
+                    <div className="act-row calc"><label>Fit Flange</label><span>{selectedNozzle.results.flange.fitTime.toFixed(2)}h</span></div>
+                    <div className="act-row calc"><label>Pre-heat Flange</label><span>{selectedNozzle.results.flange.preheatTime.toFixed(2)}h</span></div>
+                    <div className="act-row calc"><label>Weld Flange</label><span>{selectedNozzle.results.flange.weldTime.toFixed(2)}h</span></div>
+                  </>
+                )}
+                {selectedNozzle.manway && (
+                  <>
+                    <div className="act-row"><label>Fit Davit</label><NumberInput step={0.25} value={selectedNozzle.manway.davitFitHours} onChange={(v) => updateManway('davitFitHours', v)} /></div>
+                    <div className="act-row calc"><label>Davit Bracket Fillets</label><span>{selectedNozzle.results?.times.davitTime.toFixed(2) || 0}h</span></div>
+                    <div className="act-row"><label>Machine Flange & Cover</label><NumberInput step={0.25} value={selectedNozzle.manway.machiningHours} onChange={(v) => updateManway('machiningHours', v)} /></div>
+                    <div className="act-row"><label>Hang Cover</label><NumberInput step={0.25} value={selectedNozzle.manway.coverHangHours} onChange={(v) => updateManway('coverHangHours', v)} /></div>
+                    <div className="act-row"><label>Bolt-up per Stud</label><NumberInput step={0.05} value={selectedNozzle.manway.boltUpHoursPerStud} onChange={(v) => updateManway('boltUpHoursPerStud', v)} /></div>
+                  </>
+                )}
+                <div className="act-row"><label>NDE</label><NumberInput step={0.25} value={selectedNozzle.activityTimes.nde} disabled={!!selectedNozzle.ndeResult} onChange={(v) => updateActivity('nde', v)} /></div>
               </div>
             </section>
 
@@ -1,8 +1,10 @@
 import type { WeldProcess } from '../../../shared/types';
-import type { NozzleGeometry, ProcessLayer } from '../types';
+import type { NozzleGeometry, NozzleRepad, ProcessLayer } from '../types';
 
 interface WeldDiagramProps {
   geometry: NozzleGeometry;
+  repad?: NozzleRepad;
+  tilt?: { min: number; max: number };   // Shell tilt round a saddle weld path (degrees)
   insideLayers: ProcessLayer[];
   outsideProcess: Exclude<WeldProcess, 'Skip'>;
   filletProcess: Exclude<WeldProcess, 'Skip'>;
@@ -23,7 +25,58 @@ interface LayerBoundary {
   heightMm: number;
 }
 
-export function WeldDiagram({ geometry, insideLayers, outsideProcess, filletProcess }: WeldDiagramProps) {
+interface RepadDetailProps {
+  repad: NozzleRepad;
+  nozzleX: number;
+  topY: number;
+  padEndX: number;
+  scale: number;
+  filletLeg: number;
+  filletProcess: string;
+}
+
+/**
+ * Pad on the shell outside with its neck and edge fillets. The pad width is
+ * broken - only the thickness and fillets are to scale.
+ */
+function RepadDetail({ repad, nozzleX, topY, padEndX, scale, filletLeg, filletProcess }: RepadDetailProps) {
+  const padTop = topY - repad.thickness * scale;
+  const chamfer = Math.min(filletLeg, repad.thickness) * scale; // Bore clears the nozzle fillet
+  const neckLeg = repad.neckThroat * Math.sqrt(2) * scale;
+  const shellLeg = repad.shellThroat * Math.sqrt(2) * scale;
+  const breakX = (nozzleX + padEndX) / 2 + 10;
+
+  return (
+    <g>
+      <path d={`M ${nozzleX} ${padTop} L ${padEndX} ${padTop} L ${padEndX} ${topY} L ${nozzleX + chamfer} ${topY} L ${nozzleX} ${topY - chamfer} Z`} fill="#90a4ae" fillOpacity="0.5" stroke="#455a64" strokeWidth="0.75" />
+      <line x1={breakX - 3} y1={padTop - 3} x2={breakX + 3} y2={topY + 3} stroke="#455a64" strokeWidth="0.75" />
+      <line x1={breakX + 1} y1={padTop - 3} x2={breakX + 7} y2={topY + 3} stroke="#455a64" strokeWidth="0.75" />
+      {repad.tellTale && (
+        <line x1={breakX + 16} y1={padTop} x2={breakX + 16} y2={topY} stroke="#455a64" strokeWidth="1.5" strokeDasharray="2,1" />
+      )}
+      <text x={breakX - 6} y={padTop - 4} fill="#455a64" fontWeight="bold" fontSize="8" textAnchor="end">PAD {repad.thickness}mm</text>
+      {repad.tellTale && <text x={breakX + 16} y={padTop - 4} fill="#455a64" fontSize="7" textAnchor="middle">TT</text>}
+
+      <path d={`M ${nozzleX} ${padTop} L ${nozzleX} ${padTop - neckLeg} L ${nozzleX + neckLeg} ${padTop} Z`} fill="#4CAF50" fillOpacity="0.6" stroke="#2E7D32" strokeWidth="0.75" />
+      <text x={nozzleX - 5} y={padTop - neckLeg / 2 + 3} fill="#1B5E20" fontWeight="bold" fontSize="9" textAnchor="end">{filletProcess}</text>
+      <path d={`M ${padEndX} ${topY} L ${padEndX} ${topY - shellLeg} L ${padEndX + shellLeg} ${topY} Z`} fill="#4CAF50" fillOpacity="0.6" stroke="#2E7D32" strokeWidth="0.75" />
+      <text x={padEndX + shellLeg + 3} y={topY - 3} fill="#1B5E20" fontSize="8">{repad.shellThroat.toFixed(1)}</text>
+    </g>
+  );
+}
+
+/**
+ * Bevel angle label - a range round a saddle, where the bevel opens (sign +1)
+ * or closes (sign -1) with the shell tilt
+ */
+function bevelLabel(angle: number, sign: 1 | -1, tilt?: { min: number; max: number }): string {
+  if (!tilt) return `${angle}°`;
+  const clamp = (a: number) => Math.min(80, Math.max(0, a));
+  const [low, high] = [clamp(angle + sign * tilt.min), clamp(angle + sign * tilt.max)].sort((a, b) => a - b);
+  return `${low.toFixed(0)}–${high.toFixed(0)}°`;
+}
+
+export function WeldDiagram({ geometry, repad, tilt, insideLayers, outsideProcess, filletProcess }: WeldDiagramProps) {
   const { shellThick, rootGap, rootFace, jointType, insideBevelAngle, outsideBevelAngle, splitRatio, singleBevelAngle, filletThroat } = geometry;
 
   let outsideBevelWidth = 0, insideBevelWidth = 0, insideDepth = 0, outsideDepth = 0;
@@ -42,17 +95,19 @@ export function WeldDiagram({ geometry, insideLayers, outsideProcess, filletProc
   const maxBevelWidth = Math.max(outsideBevelWidth, insideBevelWidth);
   const totalWidth = rootGap + maxBevelWidth;
   const filletLeg = filletThroat * Math.sqrt(2);
+  // Height above the shell - the nozzle fillet, or the pad and its neck fillet
+  const aboveShell = repad ? Math.max(filletLeg, repad.thickness + repad.neckThroat * Math.sqrt(2)) : filletLeg;
 
   const viewBoxWidth = 400, viewBoxHeight = 300;
   const marginLeft = 70, marginRight = 90, marginTop = 60, marginBottom = 50;
   const availableWidth = viewBoxWidth - marginLeft - marginRight;
   const availableHeight = viewBoxHeight - marginTop - marginBottom;
   const scaleX = availableWidth / (totalWidth + filletLeg);
-  const scaleY = availableHeight / (shellThick + filletLeg);
+  const scaleY = availableHeight / (shellThick + aboveShell);
   const scale = Math.min(scaleX, scaleY);
 
   const nozzleX = marginLeft;
-  const topY = marginTop + filletLeg * scale;
+  const topY = marginTop + aboveShell * scale;
   const bottomY = topY + shellThick * scale;
   const shellEdgeX = nozzleX + rootGap * scale;
   const sortedLayers = [...insideLayers].sort((a, b) => a.minWidth - b.minWidth);
@@ -65,6 +120,22 @@ export function WeldDiagram({ geometry, insideLayers, outsideProcess, filletProc
 
   const dimX2 = nozzleX + totalWidth * scale + 45;
   const dimX1 = nozzleX + totalWidth * scale + 100;
+  const tiltNote = tilt && (
+    <text x={5} y={viewBoxHeight - 8} fill="#9C27B0" fontSize="8">
+      Saddle - surface tilts {tilt.min.toFixed(1)}° to {tilt.max.toFixed(1)}° round the nozzle
+    </text>
+  );
+  const repadDetail = repad && (
+    <RepadDetail
+      repad={repad}
+      nozzleX={nozzleX}
+      topY={topY}
+      padEndX={nozzleX + totalWidth * scale + 25}
+      scale={scale}
+      filletLeg={filletLeg}
+      filletProcess={filletProcess}
+    />
+  );
 
   if (jointType === 'doublebevel') {
     const splitRatioDecimal = splitRatio / 100;
@@ -101,7 +172,7 @@ export function WeldDiagram({ geometry, insideLayers, outsideProcess, filletProc
       <svg viewBox={`0 0 ${viewBoxWidth} ${viewBoxHeight}`} className="weld-diagram" preserveAspectRatio="xMidYMid meet">
         <line x1={nozzleX} y1={topY} x2={dimX1 + 20} y2={topY} stroke="#888" strokeWidth="0.5" strokeDasharray="4,3" />
         <line x1={nozzleX} y1={bottomY} x2={dimX1 + 20} y2={bottomY} stroke="#888" strokeWidth="0.5" strokeDasharray="4,3" />
-        <line x1={nozzleX} y1={topY - filletLeg * scale - 10} x2={nozzleX} y2={bottomY + 15} stroke="#37474f" strokeWidth="2" />
+        <line x1={nozzleX} y1={topY - aboveShell * scale - 10} x2={nozzleX} y2={bottomY + 15} stroke="#37474f" strokeWidth="2" />
         <path d={`M ${nozzleX} ${topY} L ${outsideStartX} ${topY} L ${shellEdgeX} ${rootFaceTop} L ${shellEdgeX} ${rootFaceBottom} L ${insideStartX} ${bottomY} L ${nozzleX} ${bottomY} Z`} fill="#ffccbc" fillOpacity="0.2" stroke="#ff5722" strokeWidth="1" />
 
         {outsideDepth > 0 && (
@@ -161,8 +232,8 @@ export function WeldDiagram({ geometry, insideLayers, outsideProcess, filletProc
         <text x={dimX1 + 5} y={(topY + bottomY) / 2 - 5} fill="#FF6B6B" fontWeight="bold" fontSize="8">Shell Thickness</text>
         <text x={dimX1 + 5} y={(topY + bottomY) / 2 + 7} fill="#FF6B6B" fontWeight="bold" fontSize="9">{shellThick}mm</text>
 
-        <text x={outsideStartX + 4} y={topY + 10} fill="#9C27B0" fontWeight="bold" fontSize="8">{outsideBevelAngle}°</text>
-        <text x={insideStartX + 4} y={bottomY - 4} fill="#9C27B0" fontWeight="bold" fontSize="8">{insideBevelAngle}°</text>
+        <text x={outsideStartX + 4} y={topY + 10} fill="#9C27B0" fontWeight="bold" fontSize="8">{bevelLabel(outsideBevelAngle, 1, tilt)}</text>
+        <text x={insideStartX + 4} y={bottomY - 4} fill="#9C27B0" fontWeight="bold" fontSize="8">{bevelLabel(insideBevelAngle, -1, tilt)}</text>
 
         {/* Side labels - positioned at far right */}
         <text x={viewBoxWidth - 5} y={topY + 15} fill="#64b5f6" fontWeight="bold" fontSize="9" textAnchor="end">2ND SIDE</text>
@@ -174,6 +245,8 @@ export function WeldDiagram({ geometry, insideLayers, outsideProcess, filletProc
         <line x1={dimX2-3} y1={topY - filletLeg * scale} x2={dimX2+3} y2={topY - filletLeg * scale} stroke="#1B5E20" strokeWidth="0.5" />
         <line x1={dimX2-3} y1={topY} x2={dimX2+3} y2={topY} stroke="#1B5E20" strokeWidth="0.5" />
         <text x={dimX2+5} y={topY - filletLeg * scale / 2 + 3} fill="#1B5E20" fontSize="8">{filletThroat.toFixed(1)}</text>
+        {repadDetail}
+        {tiltNote}
       </svg>
     );
   } else {
@@ -223,7 +296,7 @@ export function WeldDiagram({ geometry, insideLayers, outsideProcess, filletProc
         <line x1={nozzleX} y1={bottomY} x2={dimX1 + 20} y2={bottomY} stroke="#888" strokeWidth="0.5" strokeDasharray="4,3" />
         
         {/* Nozzle wall */}
-        <line x1={nozzleX} y1={topY - filletLeg * scale - 10} x2={nozzleX} y2={bottomY + 15} stroke="#37474f" strokeWidth="2" />
+        <line x1={nozzleX} y1={topY - aboveShell * scale - 10} x2={nozzleX} y2={bottomY + 15} stroke="#37474f" strokeWidth="2" />
         
         {/* Groove outline */}
         <path d={`M ${nozzleX} ${topY} L ${bevelStartX} ${topY} L ${shellEdgeX} ${rootFaceY} L ${shellEdgeX} ${bottomY} L ${nozzleX} ${bottomY} Z`} fill="#ffccbc" fillOpacity="0.2" stroke="#ff5722" strokeWidth="1" />
@@ -280,7 +353,7 @@ export function WeldDiagram({ geometry, insideLayers, outsideProcess, filletProc
         <text x={dimX1 + 5} y={(topY + bottomY) / 2 + 7} fill="#FF6B6B" fontWeight="bold" fontSize="9">{shellThick}mm</text>
 
         {/* Bevel angle */}
-        <text x={bevelStartX + 4} y={topY + 10} fill="#9C27B0" fontWeight="bold" fontSize="8">{singleBevelAngle}°</text>
+        <text x={bevelStartX + 4} y={topY + 10} fill="#9C27B0" fontWeight="bold" fontSize="8">{bevelLabel(singleBevelAngle, 1, tilt)}</text>
 
         {/* Side labels - positioned at far right */}
         <text x={viewBoxWidth - 5} y={(topY + bottomY) / 2} fill="#4ade80" fontWeight="bold" fontSize="9" textAnchor="end">1ST SIDE</text>
@@ -293,6 +366,8 @@ export function WeldDiagram({ geometry, insideLayers, outsideProcess, filletProc
         <line x1={dimX2-3} y1={topY - filletLeg * scale} x2={dimX2+3} y2={topY - filletLeg * scale} stroke="#1B5E20" strokeWidth="0.5" />
         <line x1={dimX2-3} y1={topY} x2={dimX2+3} y2={topY} stroke="#1B5E20" strokeWidth="0.5" />
         <text x={dimX2+5} y={topY - filletLeg * scale / 2 + 3} fill="#1B5E20" fontSize="8">{filletThroat.toFixed(1)}</text>
+        {repadDetail}
+        {tiltNote}
       </svg>
     );
   }
@@ -1,192 +1,302 @@
-import type { SharedSettings } from '../../shared/types';
-import type { NozzleItem, NozzleCalculationResults, NozzleActivityTimes, NozzleActivityCodes, ProcessLayer } from './types';
+import type { SharedSettings, WeldProcedure, DepositByProcess } from '../../shared/types';
+import { calculateGroove, calculateVaryingGroove, singleBevelSection, filletSection } from '../../engine/groove';
+import type { GrooveLayer } from '../../engine/groove';
+import { getThicknessRates } from '../../engine/bands';
+import { grooveDeposits, mergeDeposits } from '../../engine/consumables';
+import { calculatePreheat, getPreheatHours } from '../../engine/preheat';
+import type { AppliedPreheat } from '../../engine/preheat';
+import { applyNde } from '../../engine/nde';
+import type { AppliedNde, NdeCoverage } from '../../engine/nde';
+import { calculatePipeJoint, getEffectiveSettings } from '../pipejoints/engine';
+import type { PipeJointItem, PipeJointSettings } from '../pipejoints/types';
+import { getSurfaceAngle } from '../heads/engine';
+import type { HeadType } from '../heads/types';
+import type {
+  NozzleItem,
+  NozzleRepad,
+  NozzleManway,
+  ManwayPreset,
+  NozzleFlangeResults,
+  NozzleIntersection,
+  NozzlePlacement,
+  NozzleCalculationResults,
+  NozzleActivityTimes,
+  NozzleActivityCodes,
+} from './types';
+import { DEFAULT_NOZZLE_REPAD } from './types';
+
+const STEEL_DENSITY = 7.85e-6; // kg/mm³
 
 /**
- * Calculate layer volumes based on width thresholds for nozzle bevel
- * 
- * For a single bevel (J-groove), width goes from rootGap at bottom to rootGap+bevelWidth at top
- * For a double bevel, same applies to each side
+ * Nozzle with the WPS joint prep and processes applied
  */
-function calculateLayerVolumes(
-  insideLayers: ProcessLayer[],
-  insideVolume: number,
-  rootGap: number,
-  insideBevelWidth: number
-): { process: string; volume: number; percentage: number }[] {
-  if (insideLayers.length === 0) {
-    return [{ process: 'SMAW', volume: insideVolume, percentage: 100 }];
-  }
+export function applyNozzleProcedure(nozzle: NozzleItem, procedure: WeldProcedure): NozzleItem {
+  return {
+    ...nozzle,
+    geometry: {
+      ...nozzle.geometry,
+      jointType: procedure.doubleSided ? 'doublebevel' : 'singlebevel',
+      insideBevelAngle: procedure.bevelAngle,
+      outsideBevelAngle: procedure.outsideBevelAngle,
+      singleBevelAngle: procedure.bevelAngle,
+      rootGap: procedure.rootGap,
+      rootFace: procedure.rootFace,
+      splitRatio: procedure.splitRatio,
+    },
+    insideLayers: procedure.layers.map(layer => ({ ...layer })),
+    outsideProcess: procedure.backProcess,
+    filletProcess: procedure.filletProcess,
+  };
+}
 
-  const insideTopWidth = rootGap + insideBevelWidth;
-  const sortedLayers = [...insideLayers].sort((a, b) => a.minWidth - b.minWidth);
-  const layerVolumes: { process: string; volume: number; percentage: number }[] = [];
+const clampBevel = (angle: number) => Math.min(80, Math.max(0, angle));
 
-  const totalWidthRange = insideTopWidth - rootGap;
-  
-  // Handle edge case: no bevel (rectangular groove)
-  if (totalWidthRange <= 0) {
-    return [{ process: sortedLayers[0].process, volume: insideVolume, percentage: 100 }];
+/**
+ * Nozzle axis offset from the vessel centreline. A tangential nozzle's
+ * outside lines up with the shell inside.
+ */
+export function getPlacementOffset(placement: NozzlePlacement, nozzleOD: number): number {
+  switch (placement.type) {
+    case 'hillside': return placement.offset;
+    case 'tangential': return placement.shellID / 2 - nozzleOD / 2;
+    default: return 0;
   }
+}
 
-  // For each layer, calculate the actual trapezoidal volume it covers
-  for (let i = 0; i < sortedLayers.length; i++) {
-    const layer = sortedLayers[i];
-    const nextLayer = sortedLayers[i + 1];
-    
-    // Layer starts at its minWidth, ends at next layer's minWidth (or top)
-    const startWidth = Math.max(layer.minWidth, rootGap);
-    const endWidth = nextLayer ? Math.min(nextLayer.minWidth, insideTopWidth) : insideTopWidth;
-    
-    if (endWidth <= startWidth) continue;
-    
-    // Calculate the trapezoidal area for this layer slice
-    const depthFraction = (endWidth - startWidth) / totalWidthRange;
-    const avgWidth = (startWidth + endWidth) / 2;
-    
-    // The layer's area relative to total bevel area
-    const layerArea = avgWidth * depthFraction;
-    const totalBevelArea = (rootGap + insideTopWidth) / 2;
-    
-    const percentage = (layerArea / totalBevelArea) * 100;
-    
-    layerVolumes.push({
-      process: layer.process,
-      volume: insideVolume * (percentage / 100),
-      percentage,
-    });
-  }
-  
-  // Normalize to ensure percentages sum to 100%
-  const totalPct = layerVolumes.reduce((sum, l) => sum + l.percentage, 0);
-  if (totalPct > 0 && Math.abs(totalPct - 100) > 0.01) {
-    layerVolumes.forEach(l => {
-      l.percentage = (l.percentage / totalPct) * 100;
-      l.volume = insideVolume * (l.percentage / 100);
-    });
+/**
+ * Intersection of the nozzle OD with a shell of the given radius, traced
+ * numerically round the nozzle. The nozzle axis is parallel to a vessel
+ * radius and offset from it, so the shell surface is y = √(R² - x²) under a
+ * nozzle point (x, z). Each point carries the shell tilt seen from the nozzle
+ * wall. Null when the nozzle runs off the side of the shell.
+ */
+export function calculateIntersection(
+  nozzleOD: number,
+  shellRadius: number,
+  offset: number,
+  samples = 360
+): NozzleIntersection | null {
+  const r = nozzleOD / 2;
+  if (r <= 0 || Math.abs(offset) + r >= shellRadius) return null;
+
+  const pointAt = (theta: number) => {
+    const x = offset + r * Math.cos(theta);
+    return { x, y: Math.sqrt(shellRadius ** 2 - x ** 2), z: r * Math.sin(theta) };
+  };
+
+  const points = Array.from({ length: samples }, (_, i) => {
+    const a = pointAt((2 * Math.PI * i) / samples);
+    const b = pointAt((2 * Math.PI * (i + 1)) / samples);
+    const theta = (2 * Math.PI * (i + 0.5)) / samples;
+    const mid = pointAt(theta);
+    // Shell slope moving out from the nozzle wall - positive falls away
+    const tilt = (Math.atan((mid.x * Math.cos(theta)) / mid.y) * 180) / Math.PI;
+    return { angle: (theta * 180) / Math.PI, tilt, length: Math.hypot(b.x - a.x, b.y - a.y, b.z - a.z) };
+  });
+
+  const tilts = points.map(p => p.tilt);
+  return {
+    length: points.reduce((sum, p) => sum + p.length, 0),
+    points,
+    minTilt: Math.min(...tilts),
+    maxTilt: Math.max(...tilts),
+  };
+}
+
+/**
+ * Intersection of the nozzle OD with a dished head. The nozzle axis is
+ * parallel to the vessel axis at the given distance from the head centre.
+ * The surface height only changes with the radial position ρ, dropping
+ * at tan(φ) per mm where φ is the normal angle from the axis, so each step
+ * round the nozzle climbs tan(φ) × Δρ. The tilt seen from the nozzle wall
+ * is the slope along the wall's outward normal. Null when the nozzle runs
+ * off the head.
+ */
+export function calculateHeadIntersection(
+  nozzleOD: number,
+  headType: HeadType,
+  headDiameter: number,
+  position: number,
+  samples = 360
+): NozzleIntersection | null {
+  const r = nozzleOD / 2;
+  if (r <= 0 || Math.abs(position) + r >= headDiameter / 2) return null;
+
+  const pointAt = (theta: number) => {
+    const x = position + r * Math.cos(theta);
+    const y = r * Math.sin(theta);
+    return { x, y, rho: Math.hypot(x, y) };
+  };
+
+  const points = Array.from({ length: samples }, (_, i) => {
+    const a = pointAt((2 * Math.PI * i) / samples);
+    const b = pointAt((2 * Math.PI * (i + 1)) / samples);
+    const theta = (2 * Math.PI * (i + 0.5)) / samples;
+    const mid = pointAt(theta);
+    const slope = Math.tan(getSurfaceAngle(headType, headDiameter, mid.rho));
+    // Share of the radial fall along the wall normal - positive falls away
+    const outward = mid.rho > 0 ? (mid.x * Math.cos(theta) + mid.y * Math.sin(theta)) / mid.rho : 1;
+    const tilt = (Math.atan(slope * outward) * 180) / Math.PI;
+    return {
+      angle: (theta * 180) / Math.PI,
+      tilt,
+      length: Math.hypot(b.x - a.x, b.y - a.y, slope * (b.rho - a.rho)),
+    };
+  });
+
+  const tilts = points.map(p => p.tilt);
+  return {
+    length: points.reduce((sum, p) => sum + p.length, 0),
+    points,
+    minTilt: Math.min(...tilts),
+    maxTilt: Math.max(...tilts),
+  };
+}
+
+export function isHeadNozzle(nozzle: NozzleItem): boolean {
+  return nozzle.parent?.component === 'head';
+}
+
+/**
+ * Weld path for a placed nozzle - mid-wall of the shell or head for set-in
+ * nozzles, the shell outside for set-on. Head nozzles are always set in.
+ * Null for an unplaced shell nozzle.
+ */
+export function getNozzleIntersection(nozzle: NozzleItem): NozzleIntersection | null {
+  const { placement, parent, geometry } = nozzle;
+  if (parent && isHeadNozzle(nozzle)) {
+    return calculateHeadIntersection(geometry.nozzleOD, parent.headType, parent.headID + geometry.shellThick, parent.position);
   }
-  
-  return layerVolumes;
+  if (!placement) return null;
+  const shellRadius = placement.shellID / 2 + (placement.type === 'setOn' ? geometry.shellThick : geometry.shellThick / 2);
+  return calculateIntersection(geometry.nozzleOD, shellRadius, getPlacementOffset(placement, geometry.nozzleOD));
 }
 
 /**
  * Calculate nozzle weld results
  */
-export function calculateNozzle(nozzle: NozzleItem, settings: SharedSettings): NozzleCalculationResults {
-  const { geometry, insideLayers, outsideProcess, filletProcess } = nozzle;
-  const { beadSizes, travelSpeeds, operatorFactors } = settings;
-
-  // Calculate circumference
-  const circumference = Math.PI * geometry.nozzleOD;
-
-  // Determine thickness range for speeds
-  const thickness = geometry.shellThick;
-  const speedRange = thickness < 20 ? 'thin' : thickness <= 40 ? 'medium' : 'thick';
-  const speeds = travelSpeeds[speedRange];
-
-  // Determine operator factor range
-  const opRange = 
-    thickness < 12 ? 'range1' :
-    thickness < 18 ? 'range2' :
-    thickness < 25 ? 'range3' :
-    thickness < 35 ? 'range4' :
-    thickness < 50 ? 'range5' : 'range6';
-  const factors = operatorFactors[opRange];
-
-  // Calculate depths
-  let insideDepth: number;
-  let outsideDepth: number;
-
-  if (geometry.jointType === 'doublebevel') {
-    const splitRatioDecimal = geometry.splitRatio / 100;
-    insideDepth = Math.max(0, geometry.shellThick * splitRatioDecimal - geometry.rootFace / 2);
-    outsideDepth = Math.max(0, geometry.shellThick * (1 - splitRatioDecimal) - geometry.rootFace / 2);
-  } else {
-    insideDepth = Math.max(0, geometry.shellThick - geometry.rootFace);
-    outsideDepth = 0;
-  }
+export function calculateNozzle(
+  nozzle: NozzleItem,
+  settings: SharedSettings,
+  pipeJointSettings: PipeJointSettings = { presets: [] }
+): NozzleCalculationResults {
+  const { geometry, repad, manway, insideLayers, outsideProcess, filletProcess } = nozzle;
+  const { beadSizes } = settings;
 
-  // Calculate bevel widths
-  const insideBevelAngle = geometry.jointType === 'doublebevel' ? geometry.insideBevelAngle : geometry.singleBevelAngle;
-  const insideBevelWidth = insideDepth * Math.tan((insideBevelAngle * Math.PI) / 180);
-  const outsideBevelWidth = outsideDepth * Math.tan((geometry.outsideBevelAngle * Math.PI) / 180);
+  // Weld path - the curve on the shell or head when placed, else flat round the OD
+  const intersection = getNozzleIntersection(nozzle);
+  const circumference = intersection?.length ?? Math.PI * geometry.nozzleOD;
 
-  // Calculate volumes (mm³)
+  // A set-on nozzle is welded through its neck, a set-in one through the shell
+  const setOn = !isHeadNozzle(nozzle) && nozzle.placement?.type === 'setOn';
+  const grooveThick = setOn ? nozzle.placement!.neckThickness : geometry.shellThick;
+
+  // Speeds and operator factors for the thickness band
+  const { speeds, factors } = getThicknessRates(grooveThick, settings);
+
+  const isDoubleBevel = geometry.jointType === 'doublebevel';
+  const rootFaceHeight = isDoubleBevel ? geometry.rootFace / 2 : geometry.rootFace;
+
+  // Groove sections where the shell leans away from the nozzle wall by tilt.
+  // The wall is thicker along the nozzle axis, and the bevel opens by the tilt
+  // on the outside and closes by it on the inside.
   // For single bevel (J-groove): trapezoid with bottom=rootGap, top=rootGap+bevelWidth
-  // For double bevel: same logic for each side
-  // Cross-section area = (bottom + top) / 2 * height + root face rectangle
-  
-  // Inside bevel cross-section (trapezoid)
-  const insideBevelArea = 0.5 * (geometry.rootGap + (geometry.rootGap + insideBevelWidth)) * insideDepth;
-  // Root face area (rectangle) - half goes to each side for double bevel
-  const insideRootFaceArea = geometry.jointType === 'doublebevel' 
-    ? geometry.rootGap * (geometry.rootFace / 2) 
-    : geometry.rootGap * geometry.rootFace;
-  const insideVolume = (insideBevelArea + insideRootFaceArea) * circumference;
-  
+  // For double bevel: same logic for each side, half the root face goes to each side
+  const thicknessAt = (tilt: number) => setOn ? grooveThick : grooveThick / Math.cos((tilt * Math.PI) / 180);
+  const effectiveThickness = intersection
+    ? intersection.points.reduce((sum, p) => sum + thicknessAt(p.tilt) * p.length, 0) / intersection.length
+    : grooveThick;
+
+  const sectionsAt = (tilt: number) => {
+    const thick = thicknessAt(tilt);
+    let insideDepth: number;
+    let outsideDepth: number;
+
+    if (isDoubleBevel) {
+      const splitRatioDecimal = geometry.splitRatio / 100;
+      insideDepth = Math.max(0, thick * splitRatioDecimal - geometry.rootFace / 2);
+      outsideDepth = Math.max(0, thick * (1 - splitRatioDecimal) - geometry.rootFace / 2);
+    } else {
+      insideDepth = Math.max(0, thick - geometry.rootFace);
+      outsideDepth = 0;
+    }
+
+    const insideBevelAngle = isDoubleBevel
+      ? geometry.insideBevelAngle - tilt
+      : geometry.singleBevelAngle + tilt;
+    return {
+      inside: singleBevelSection(insideDepth, clampBevel(insideBevelAngle), geometry.rootGap, rootFaceHeight),
+      outside: singleBevelSection(outsideDepth, clampBevel(geometry.outsideBevelAngle + tilt), geometry.rootGap, rootFaceHeight),
+    };
+  };
+
+  const grooveAlongPath = (side: 'inside' | 'outside', layers: GrooveLayer[]) => intersection
+    ? calculateVaryingGroove(
+        intersection.points.map(p => ({ section: sectionsAt(p.tilt)[side], length: p.length })),
+        layers,
+        beadSizes,
+        speeds
+      )
+    : calculateGroove(sectionsAt(0)[side], circumference, layers, beadSizes, speeds);
+
+  const inside = grooveAlongPath('inside', insideLayers);
+
   // Outside bevel (only for double bevel)
-  let outsideVolume = 0;
-  if (geometry.jointType === 'doublebevel') {
-    const outsideBevelArea = 0.5 * (geometry.rootGap + (geometry.rootGap + outsideBevelWidth)) * outsideDepth;
-    const outsideRootFaceArea = geometry.rootGap * (geometry.rootFace / 2);
-    outsideVolume = (outsideBevelArea + outsideRootFaceArea) * circumference;
-  }
-  
+  const outside = isDoubleBevel
+    ? grooveAlongPath('outside', [{ process: outsideProcess, minWidth: 0 }])
+    : null;
+
   // Fillet weld (triangle)
   const filletLeg = geometry.filletThroat * Math.sqrt(2);
-  const filletVolume = 0.5 * filletLeg * filletLeg * circumference;
-  
-  const totalVolume = insideVolume + outsideVolume + filletVolume;
-
-  // Calculate layer volumes based on width thresholds
-  const layerVolumes = calculateLayerVolumes(
-    insideLayers,
-    insideVolume,
-    geometry.rootGap,
-    insideBevelWidth
+  const fillet = calculateGroove(
+    filletSection(filletLeg),
+    circumference,
+    [{ process: filletProcess, minWidth: 0 }],
+    beadSizes,
+    speeds
+  );
+
+  // Reinforcing pad - fillets round the neck and round the pad edge
+  const padFillet = (throat: number, length: number) => calculateGroove(
+    filletSection(throat * Math.sqrt(2)),
+    length,
+    [{ process: filletProcess, minWidth: 0 }],
+    beadSizes,
+    speeds
   );
+  const padNeck = repad ? padFillet(repad.neckThroat, circumference) : null;
+  const padShell = repad ? padFillet(repad.shellThroat, Math.PI * repad.padOD) : null;
 
-  // Calculate passes and time for each inside layer
-  let totalInsidePasses = 0;
-  let totalInsideArcTime = 0;
-  const zonePasses: number[] = [];
+  // Manway davit brackets - fillets round each bracket on the shell
+  const bracketLength = manway ? manway.davitBrackets * manway.bracketFilletLength : 0;
+  const davit = manway ? padFillet(manway.bracketThroat, bracketLength) : null;
 
-  for (const layer of layerVolumes) {
-    const bead = beadSizes[layer.process as keyof typeof beadSizes];
-    if (!bead || layer.volume <= 0) {
-      zonePasses.push(0);
-      continue;
-    }
-    
-    const beadArea = bead.h * bead.w;
-    const volumePerPass = beadArea * circumference;
-    const passes = Math.max(1, Math.ceil(layer.volume / volumePerPass));
-    
-    const speed = speeds[layer.process as keyof typeof speeds] || 150;
-    const arcTime = (circumference * passes) / speed; // in minutes
-    
-    totalInsidePasses += passes;
-    totalInsideArcTime += arcTime;
-    zonePasses.push(passes);
-  }
+  const insideVolume = inside.volume;
+  const outsideVolume = outside?.volume || 0;
+  const filletVolume = fillet.volume;
+  const padNeckVolume = padNeck?.volume || 0;
+  const padShellVolume = padShell?.volume || 0;
+  const davitVolume = davit?.volume || 0;
+  const totalVolume = insideVolume + outsideVolume + filletVolume + padNeckVolume + padShellVolume + davitVolume;
 
-  // Calculate inside total time with operator factor
-  const insideTime = (totalInsideArcTime * factors.inside) / 60; // convert to hours
+  const totalInsidePasses = inside.passes;
+  const outsidePasses = outside?.passes || 0;
+  const filletPasses = fillet.passes;
+  const padNeckPasses = padNeck?.passes || 0;
+  const padShellPasses = padShell?.passes || 0;
+  const davitPasses = davit?.passes || 0;
 
-  // Calculate outside passes and time
-  const beadOut = beadSizes[outsideProcess];
-  const outsidePasses = outsideVolume > 0 ? Math.max(1, Math.ceil(outsideVolume / (beadOut.h * beadOut.w * circumference))) : 0;
-  const speedOut = speeds[outsideProcess];
-  const outsideArc = outsidePasses > 0 ? (circumference * outsidePasses) / speedOut : 0;
-  const outsideTime = (outsideArc * factors.outside) / 60;
+  // Convert arc minutes to hours with operator factor
+  const insideTime = (inside.arcTime * factors.inside) / 60;
+  const outsideTime = ((outside?.arcTime || 0) * factors.outside) / 60;
+  const filletTime = (fillet.arcTime * factors.inside) / 60;
+  const padNeckTime = ((padNeck?.arcTime || 0) * factors.outside) / 60;
+  const padShellTime = ((padShell?.arcTime || 0) * factors.outside) / 60;
+  const davitTime = ((davit?.arcTime || 0) * factors.outside) / 60;
 
-  // Calculate fillet passes and time
-  const beadFillet = beadSizes[filletProcess];
-  const filletPasses = Math.max(1, Math.ceil(filletVolume / (beadFillet.h * beadFillet.w * circumference)));
-  const speedFillet = speeds[filletProcess];
-  const filletArc = (circumference * filletPasses) / speedFillet;
-  const filletTime = (filletArc * factors.inside) / 60;
+  const totalTime = insideTime + outsideTime + filletTime + padNeckTime + padShellTime + davitTime;
 
-  const totalTime = insideTime + outsideTime + filletTime;
+  const flange = calculateNozzleFlange(nozzle, pipeJointSettings, settings);
 
   return {
     circumference,
@@ -194,41 +304,218 @@ export function calculateNozzle(nozzle: NozzleItem, settings: SharedSettings): N
       insideVolume,
       outsideVolume,
       filletVolume,
+      padNeckVolume,
+      padShellVolume,
+      davitVolume,
       totalVolume,
     },
     passes: {
-      zone1Passes: zonePasses[0] || 0,
-      zone2Passes: zonePasses[1] || 0,
-      zone3Passes: zonePasses[2] || 0,
+      zone1Passes: inside.layers[0]?.passes || 0,
+      zone2Passes: inside.layers[1]?.passes || 0,
+      zone3Passes: inside.layers[2]?.passes || 0,
       insidePasses: totalInsidePasses,
       outsidePasses,
       filletPasses,
-      totalPasses: totalInsidePasses + outsidePasses + filletPasses,
+      padNeckPasses,
+      padShellPasses,
+      davitPasses,
+      totalPasses: totalInsidePasses + outsidePasses + filletPasses + padNeckPasses + padShellPasses + davitPasses,
     },
     times: {
       insideTime,
       outsideTime,
       filletTime,
+      padNeckTime,
+      padShellTime,
+      davitTime,
       totalTime,
     },
+    pad: repad
+      ? {
+          neckLength: circumference,
+          shellLength: Math.PI * repad.padOD,
+          mass: getRepadMass(repad, geometry.nozzleOD),
+        }
+      : null,
+    manway: manway ? { bracketLength } : null,
+    flange: flange?.results ?? null,
+    intersection,
+    effectiveThickness,
+    deposits: mergeDeposits(
+      [grooveDeposits(inside), 1],
+      [outside ? grooveDeposits(outside) : undefined, 1],
+      [grooveDeposits(fillet), 1],
+      [padNeck ? grooveDeposits(padNeck) : undefined, 1],
+      [padShell ? grooveDeposits(padShell) : undefined, 1],
+      [davit ? grooveDeposits(davit) : undefined, 1],
+      [flange?.deposits, 1]
+    ),
+  };
+}
+
+/**
+ * Neck pipe the flange is welded to, as a pipe joint - the presets give its
+ * prep, processes and fit-up. A long weld neck has no flange weld.
+ */
+export function getFlangeJoint(nozzle: NozzleItem): PipeJointItem | null {
+  if (!nozzle.flange || nozzle.flange.type === 'LWN') return null;
+  return {
+    id: nozzle.id,
+    tag: `${nozzle.tag} Flange`,
+    nps: nozzle.flange.nps,
+    schedule: nozzle.flange.schedule,
+    quantity: 1,
+    useCustomSettings: false,
+  };
+}
+
+/**
+ * Flange-to-neck weld. A weld neck is the pipe-joint butt weld; a slip-on
+ * has a 1.4t fillet at the hub and a t fillet in the bore. Null without a
+ * welded flange or for a size missing from the pipe data.
+ */
+export function calculateNozzleFlange(
+  nozzle: NozzleItem,
+  pipeJointSettings: PipeJointSettings,
+  settings: SharedSettings
+): { results: NozzleFlangeResults; deposits: DepositByProcess } | null {
+  const joint = getFlangeJoint(nozzle);
+  const preset = joint && getEffectiveSettings(joint, pipeJointSettings);
+  if (!joint || !preset) return null;
+
+  const { od, wallThickness } = preset;
+  const circumference = Math.PI * od;
+  let weldVolume: number, passes: number, weldTime: number, deposits: DepositByProcess;
+
+  if (nozzle.flange!.type === 'WN') {
+    const butt = calculatePipeJoint(joint, pipeJointSettings, settings)!;
+    weldVolume = butt.weldVolume;
+    passes = butt.totalPasses;
+    weldTime = butt.totalWeldTime;
+    deposits = butt.deposits;
+  } else {
+    const { speeds, factors } = getThicknessRates(wallThickness, settings);
+    const fillet = (leg: number) => calculateGroove(
+      filletSection(leg),
+      circumference,
+      [{ process: nozzle.filletProcess, minWidth: 0 }],
+      settings.beadSizes,
+      speeds
+    );
+    const hub = fillet(1.4 * wallThickness);
+    const bore = fillet(wallThickness);
+    weldVolume = hub.volume + bore.volume;
+    passes = hub.passes + bore.passes;
+    weldTime = ((hub.arcTime + bore.arcTime) * factors.inside) / 60;
+    deposits = mergeDeposits([grooveDeposits(hub), 1], [grooveDeposits(bore), 1]);
+  }
+
+  // Calculated preheat at the neck wall, or the preset time
+  const preheatTime = nozzle.preheat?.calculate
+    ? getPreheatHours(calculatePreheat(nozzle.preheat, wallThickness, circumference, settings.preheat), weldTime)
+    : preset.preheatTime;
+
+  return {
+    results: { circumference, wallThickness, weldVolume, passes, fitTime: preset.fitUpTime, preheatTime, weldTime },
+    deposits,
   };
 }
 
 /**
- * Calculate activity codes from activity times and weld results
+ * Flat pad ring - pad OD less the bore for the nozzle
+ */
+export function getRepadMass(repad: NozzleRepad, nozzleOD: number): number {
+  const area = (Math.PI / 4) * (repad.padOD ** 2 - nozzleOD ** 2);
+  return Math.max(0, area) * repad.thickness * STEEL_DENSITY;
+}
+
+/**
+ * Manway from a standard preset - the neck OD, weld neck flange, pad and
+ * davit/bolting allowances are all taken from the preset
+ */
+export function applyManwayPreset(nozzle: NozzleItem, preset: ManwayPreset): NozzleItem {
+  return {
+    ...nozzle,
+    geometry: { ...nozzle.geometry, nozzleOD: preset.nozzleOD },
+    flange: { ...preset.flange },
+    repad: { ...DEFAULT_NOZZLE_REPAD, ...nozzle.repad, padOD: preset.padOD },
+    manway: { ...preset.manway },
+  };
+}
+
+/**
+ * Calculated preheat - heated before the groove side, and again before the
+ * back side and fillet
+ */
+export function applyNozzlePreheat(
+  nozzle: NozzleItem,
+  results: NozzleCalculationResults,
+  settings: SharedSettings
+): AppliedPreheat<NozzleActivityTimes> {
+  if (!nozzle.preheat?.calculate) return { activityTimes: nozzle.activityTimes, preheat: null };
+
+  const preheat = calculatePreheat(nozzle.preheat, nozzle.geometry.shellThick, results.circumference, settings.preheat);
+  return {
+    activityTimes: {
+      ...nozzle.activityTimes,
+      preheat1: getPreheatHours(preheat, results.times.insideTime),
+      preheat2: getPreheatHours(
+        preheat,
+        results.times.outsideTime + results.times.filletTime + results.times.padNeckTime + results.times.padShellTime
+          + results.times.davitTime
+      ),
+    },
+    preheat,
+  };
+}
+
+/**
+ * Calculated NDE around the nozzle-to-shell weld and the flange-to-neck weld.
+ * Manway davit brackets are examined as external attachments.
+ */
+export function applyNozzleNde(
+  activityTimes: NozzleActivityTimes,
+  results: NozzleCalculationResults,
+  coverage: NdeCoverage | null,
+  settings: SharedSettings
+): AppliedNde<NozzleActivityTimes> {
+  return applyNde(activityTimes, [
+    { category: 'nozzleShell', length: results.circumference },
+    ...(results.flange ? [{ category: 'nozzleFlange' as const, length: results.flange.circumference }] : []),
+    ...(results.manway ? [{ category: 'externalAttachments' as const, length: results.manway.bracketLength }] : []),
+  ], coverage, settings.nde);
+}
+
+/**
+ * Calculate activity codes from activity times and weld results.
+ * The pad is cut (with its tell-tale), formed, fitted with the nozzle and
+ * fillet welded - all zero without one. The flange is fitted and welded to
+ * the neck as a pipe joint. A manway adds the davit fit and bracket fillets,
+ * flange and cover machining, and hanging and studding up the cover.
  */
 export function calculateActivityCodes(
   activityTimes: NozzleActivityTimes,
-  weldTimes: { insideTime: number; outsideTime: number; filletTime: number }
+  weldTimes: { insideTime: number; outsideTime: number; filletTime: number; padNeckTime: number; padShellTime: number; davitTime: number },
+  repad?: NozzleRepad,
+  flange?: NozzleFlangeResults | null,
+  manway?: NozzleManway
 ): NozzleActivityCodes {
   return {
     CUTNOZZ: activityTimes.markPosition + activityTimes.cutAndBevel,
-    FNOZZ: activityTimes.fitNozzle,
-    PREHEAT: activityTimes.preheat1 + activityTimes.preheat2,
+    FNOZZ: activityTimes.fitNozzle + (repad?.fitHours || 0),
+    PREHEAT: activityTimes.preheat1 + activityTimes.preheat2 + (flange?.preheatTime || 0),
     WNOZZ: weldTimes.insideTime + weldTimes.outsideTime + weldTimes.filletTime,
     BACGRI: activityTimes.backGouge,
     MATCUT: activityTimes.grindBevelClean + activityTimes.grind1stSide + activityTimes.grind2ndSide,
     NDE: activityTimes.nde,
+    CUTPAD: repad ? repad.cutHours + (repad.tellTale ? repad.drillHours : 0) : 0,
+    FORMPAD: repad?.formHours || 0,
+    WPAD: weldTimes.padNeckTime + weldTimes.padShellTime,
+    FPIPE: flange?.fitTime || 0,
+    WPIPE: flange?.weldTime || 0,
+    WDAVIT: manway ? manway.davitFitHours + weldTimes.davitTime : 0,
+    MACHMW: manway?.machiningHours || 0,
+    BOLTMW: manway ? manway.studCount * manway.boltUpHoursPerStud + manway.coverHangHours : 0,
   };
 }
 
@@ -1,12 +1,14 @@
 import type { NozzleItem, NozzleActivityCodes } from './types';
+import { PARENT_LABELS } from './types';
+import { isHeadNozzle } from './engine';
 
 /**
  * Export nozzles to CSV for Excel
  */
 export function exportNozzlesToCSV(nozzles: NozzleItem[], jobNumber: string): void {
-  const headers = ['Tag', 'Qty', 'Nozzle OD', 'Shell Thk', 'Joint Type', 'CUTNOZZ', 'FNOZZ', 'PREHEAT', 'WNOZZ', 'BACGRI', 'MATCUT', 'NDE', 'Total/Nozzle', 'Total (Qty)'];
+  const headers = ['Tag', 'Qty', 'Nozzle OD', 'Shell Thk', 'Joint Type', 'Flange', 'CUTNOZZ', 'FNOZZ', 'PREHEAT', 'WNOZZ', 'BACGRI', 'MATCUT', 'NDE', 'CUTPAD', 'FORMPAD', 'WPAD', 'FPIPE', 'WPIPE', 'WDAVIT', 'MACHMW', 'BOLTMW', 'Total/Nozzle', 'Total (Qty)'];
 
-  const rows = nozzles.map((nozzle) => {
+  const toRow = (nozzle: NozzleItem) => {
     const codes = nozzle.activityCodes || getEmptyActivityCodes();
     const totalPerNozzle = Object.values(codes).reduce((sum, val) => sum + val, 0);
     const totalWithQty = totalPerNozzle * nozzle.quantity;
@@ -17,6 +19,7 @@ export function exportNozzlesToCSV(nozzles: NozzleItem[], jobNumber: string): vo
       nozzle.geometry.nozzleOD,
       nozzle.geometry.shellThick,
       nozzle.geometry.jointType === 'doublebevel' ? 'Double' : 'Single',
+      getFlangeLabel(nozzle),
       codes.CUTNOZZ.toFixed(2),
       codes.FNOZZ.toFixed(2),
       codes.PREHEAT.toFixed(2),
@@ -24,42 +27,66 @@ export function exportNozzlesToCSV(nozzles: NozzleItem[], jobNumber: string): vo
       codes.BACGRI.toFixed(2),
       codes.MATCUT.toFixed(2),
       codes.NDE.toFixed(2),
+      (codes.CUTPAD || 0).toFixed(2),
+      (codes.FORMPAD || 0).toFixed(2),
+      (codes.WPAD || 0).toFixed(2),
+      (codes.FPIPE || 0).toFixed(2),
+      (codes.WPIPE || 0).toFixed(2),
+      (codes.WDAVIT || 0).toFixed(2),
+      (codes.MACHMW || 0).toFixed(2),
+      (codes.BOLTMW || 0).toFixed(2),
       totalPerNozzle.toFixed(2),
       totalWithQty.toFixed(2),
     ];
-  });
+  };
 
   // Calculate totals
-  const totals = [
-    'TOTALS',
-    nozzles.reduce((sum, n) => sum + n.quantity, 0),
+  const toTotals = (label: string, items: NozzleItem[]) => [
+    label,
+    items.reduce((sum, n) => sum + n.quantity, 0),
     '',
     '',
     '',
-    nozzles.reduce((sum, n) => sum + (n.activityCodes?.CUTNOZZ || 0) * n.quantity, 0).toFixed(2),
-    nozzles.reduce((sum, n) => sum + (n.activityCodes?.FNOZZ || 0) * n.quantity, 0).toFixed(2),
-    nozzles.reduce((sum, n) => sum + (n.activityCodes?.PREHEAT || 0) * n.quantity, 0).toFixed(2),
-    nozzles.reduce((sum, n) => sum + (n.activityCodes?.WNOZZ || 0) * n.quantity, 0).toFixed(2),
-    nozzles.reduce((sum, n) => sum + (n.activityCodes?.BACGRI || 0) * n.quantity, 0).toFixed(2),
-    nozzles.reduce((sum, n) => sum + (n.activityCodes?.MATCUT || 0) * n.quantity, 0).toFixed(2),
-    nozzles.reduce((sum, n) => sum + (n.activityCodes?.NDE || 0) * n.quantity, 0).toFixed(2),
     '',
-    nozzles.reduce((sum, n) => {
+    items.reduce((sum, n) => sum + (n.activityCodes?.CUTNOZZ || 0) * n.quantity, 0).toFixed(2),
+    items.reduce((sum, n) => sum + (n.activityCodes?.FNOZZ || 0) * n.quantity, 0).toFixed(2),
+    items.reduce((sum, n) => sum + (n.activityCodes?.PREHEAT || 0) * n.quantity, 0).toFixed(2),
+    items.reduce((sum, n) => sum + (n.activityCodes?.WNOZZ || 0) * n.quantity, 0).toFixed(2),
+    items.reduce((sum, n) => sum + (n.activityCodes?.BACGRI || 0) * n.quantity, 0).toFixed(2),
+    items.reduce((sum, n) => sum + (n.activityCodes?.MATCUT || 0) * n.quantity, 0).toFixed(2),
+    items.reduce((sum, n) => sum + (n.activityCodes?.NDE || 0) * n.quantity, 0).toFixed(2),
+    items.reduce((sum, n) => sum + (n.activityCodes?.CUTPAD || 0) * n.quantity, 0).toFixed(2),
+    items.reduce((sum, n) => sum + (n.activityCodes?.FORMPAD || 0) * n.quantity, 0).toFixed(2),
+    items.reduce((sum, n) => sum + (n.activityCodes?.WPAD || 0) * n.quantity, 0).toFixed(2),
+    items.reduce((sum, n) => sum + (n.activityCodes?.FPIPE || 0) * n.quantity, 0).toFixed(2),
+    items.reduce((sum, n) => sum + (n.activityCodes?.WPIPE || 0) * n.quantity, 0).toFixed(2),
+    items.reduce((sum, n) => sum + (n.activityCodes?.WDAVIT || 0) * n.quantity, 0).toFixed(2),
+    items.reduce((sum, n) => sum + (n.activityCodes?.MACHMW || 0) * n.quantity, 0).toFixed(2),
+    items.reduce((sum, n) => sum + (n.activityCodes?.BOLTMW || 0) * n.quantity, 0).toFixed(2),
+    '',
+    items.reduce((sum, n) => {
       const codes = n.activityCodes || getEmptyActivityCodes();
       const total = Object.values(codes).reduce((s, v) => s + v, 0);
       return sum + total * n.quantity;
     }, 0).toFixed(2),
   ];
 
+  // Shell and head nozzles in their own groups, each with a subtotal
+  const groups = getNozzleGroups(nozzles).flatMap(({ label, items }) => [
+    `${label} Nozzles`,
+    ...items.map(n => toRow(n).join(',')),
+    toTotals(`${label} Subtotal`, items).join(','),
+    '',
+  ]);
+
   // Build CSV
   const csvRows = [
     `Job: ${jobNumber}`,
     `Exported: ${new Date().toLocaleString()}`,
     '',
     headers.join(','),
-    ...rows.map(row => row.join(',')),
-    '',
-    totals.join(','),
+    ...groups,
+    toTotals('TOTALS', nozzles).join(','),
   ];
 
   const csvContent = csvRows.join('\n');
@@ -76,10 +103,24 @@ export function exportNozzlesToCSV(nozzles: NozzleItem[], jobNumber: string): vo
   document.body.removeChild(link);
 }
 
-function getEmptyActivityCodes(): NozzleActivityCodes {
-  return { CUTNOZZ: 0, FNOZZ: 0, PREHEAT: 0, WNOZZ: 0, BACGRI: 0, MATCUT: 0, NDE: 0 };
+/**
+ * Flange description, e.g. "WN 300# 4\" SCH 40" - blank for a bare nozzle
+ */
+export function getFlangeLabel(nozzle: NozzleItem): string {
+  const { flange } = nozzle;
+  return flange ? `${flange.type} ${flange.rating}# ${flange.nps} ${flange.schedule}` : '';
 }
 
+/**
+ * Nozzles split into shell and head groups - empty groups are left out
+ */
+export function getNozzleGroups(nozzles: NozzleItem[]): { label: string; items: NozzleItem[] }[] {
+  return [
+    { label: PARENT_LABELS.shell, items: nozzles.filter(n => !isHeadNozzle(n)) },
+    { label: PARENT_LABELS.head, items: nozzles.filter(n => isHeadNozzle(n)) },
+  ].filter(g => g.items.length > 0);
+}
 
-
-
+function getEmptyActivityCodes(): NozzleActivityCodes {
+  return { CUTNOZZ: 0, FNOZZ: 0, PREHEAT: 0, WNOZZ: 0, BACGRI: 0, MATCUT: 0, NDE: 0, CUTPAD: 0, FORMPAD: 0, WPAD: 0, FPIPE: 0, WPIPE: 0, WDAVIT: 0, MACHMW: 0, BOLTMW: 0 };
+}
@@ -0,0 +1,21 @@
+import { DEFAULT_NOZZLE_GEOMETRY, DEFAULT_NOZZLE_ACTIVITY_TIMES, DEFAULT_PROCESS_LAYERS } from './types';
+import type { NozzleGeometry, NozzleItem } from './types';
+
+/**
+ * A default FCAW nozzle for the engine tests - geometry merges over the defaults
+ */
+export function testNozzle(
+  { geometry, ...item }: Omit<Partial<NozzleItem>, 'geometry'> & { geometry?: Partial<NozzleGeometry> } = {}
+): NozzleItem {
+  return {
+    id: 'n1',
+    tag: 'N1',
+    quantity: 1,
+    geometry: { ...DEFAULT_NOZZLE_GEOMETRY, ...geometry },
+    insideLayers: [...DEFAULT_PROCESS_LAYERS],
+    outsideProcess: 'FCAW',
+    filletProcess: 'FCAW',
+    activityTimes: { ...DEFAULT_NOZZLE_ACTIVITY_TIMES },
+    ...item,
+  };
+}
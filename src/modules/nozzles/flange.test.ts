@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { calculateNozzle, calculateNozzleFlange, calculateActivityCodes, applyNozzleNde, getFlangeJoint } from './engine';
+import { DEFAULT_NOZZLE_ACTIVITY_TIMES } from './types';
+import type { NozzleFlange } from './types';
+import { testNozzle } from './fixtures';
+import { calculatePipeJoint } from '../pipejoints/engine';
+import { getNearestNPS } from '../pipejoints/pipeData';
+import { getNdeCoverage } from '../offer/types';
+import { DEFAULT_SETTINGS } from '../../shared/settings/defaults';
+
+const NO_PRESETS = { presets: [] };
+
+const nozzle = (flange?: Partial<NozzleFlange>) => testNozzle({
+  geometry: { nozzleOD: 114.3 },
+  flange: flange && { type: 'WN', rating: 300, nps: '4"', schedule: 'SCH 40', ...flange },
+});
+
+describe('Nozzle Flange', () => {
+  it('prices a weld neck as the pipe-joint butt weld', () => {
+    const item = nozzle({});
+    const butt = calculatePipeJoint(getFlangeJoint(item)!, NO_PRESETS, DEFAULT_SETTINGS)!;
+    const flange = calculateNozzleFlange(item, NO_PRESETS, DEFAULT_SETTINGS)!;
+
+    expect(flange.results).toMatchObject({
+      circumference: Math.PI * 114.3,
+      wallThickness: 6.02,
+      weldVolume: butt.weldVolume,
+      passes: butt.totalPasses,
+      weldTime: butt.totalWeldTime,
+      fitTime: 0.5,
+      preheatTime: 0.25,
+    });
+    expect(flange.deposits).toEqual(butt.deposits);
+  });
+
+  it('fillet welds a slip-on at the hub and bore', () => {
+    const flange = calculateNozzleFlange(nozzle({ type: 'SO' }), NO_PRESETS, DEFAULT_SETTINGS)!;
+    const t = 6.02;
+    const hub = 1.4 * t;
+    expect(flange.results.weldVolume).toBeCloseTo((hub * hub / 2 + t * t / 2) * Math.PI * 114.3, 3);
+    expect(flange.deposits.FCAW!.volume).toBeCloseTo(flange.results.weldVolume, 3);
+  });
+
+  it('has no flange weld for a long weld neck, a bare nozzle or an unknown size', () => {
+    expect(calculateNozzleFlange(nozzle({ type: 'LWN' }), NO_PRESETS, DEFAULT_SETTINGS)).toBeNull();
+    expect(calculateNozzleFlange(nozzle(), NO_PRESETS, DEFAULT_SETTINGS)).toBeNull();
+    expect(calculateNozzleFlange(nozzle({ schedule: 'SCH 999' }), NO_PRESETS, DEFAULT_SETTINGS)).toBeNull();
+    expect(calculateNozzle(nozzle({ type: 'LWN' }), DEFAULT_SETTINGS).flange).toBeNull();
+  });
+
+  it('books the flange fit, preheat, weld and NDE on the nozzle', () => {
+    const settings = { ...DEFAULT_SETTINGS, nde: { ...DEFAULT_SETTINGS.nde, calculate: true } };
+    const results = calculateNozzle(nozzle({}), settings);
+    const codes = calculateActivityCodes(DEFAULT_NOZZLE_ACTIVITY_TIMES, results.times, undefined, results.flange);
+    const bare = calculateActivityCodes(DEFAULT_NOZZLE_ACTIVITY_TIMES, results.times);
+
+    expect(codes.FPIPE).toBe(0.5);
+    expect(codes.WPIPE).toBe(results.flange!.weldTime);
+    expect(codes.PREHEAT).toBeCloseTo(bare.PREHEAT + 0.25, 6);
+
+    const { nde } = applyNozzleNde(DEFAULT_NOZZLE_ACTIVITY_TIMES, results, getNdeCoverage(), settings);
+    expect(nde!.exams.filter(e => e.category === 'nozzleFlange').map(e => e.method)).toContain('RT');
+  });
+
+  it('matches a nozzle OD to the nearest pipe size', () => {
+    expect(getNearestNPS(114)).toBe('4"');
+    expect(getNearestNPS(300)).toBe('12"');
+  });
+});
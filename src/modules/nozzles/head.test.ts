@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { bindNozzle } from '../../engine/vessel';
+import { calculateHeadIntersection, calculateNozzle } from './engine';
+import { getNozzleGroups } from './export';
+import { getSurfaceAngle } from '../heads/engine';
+import type { NozzleParent } from './types';
+import { testNozzle } from './fixtures';
+import { DEFAULT_VESSEL } from '../../project/types';
+import { DEFAULT_SETTINGS } from '../../shared/settings/defaults';
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+const nozzle = (parent?: Partial<NozzleParent>) => testNozzle({
+  geometry: { shellThick: 20 },
+  parent: parent && { component: 'head', headType: 'ellipsoidal', headID: 2000, position: 0, ...parent },
+});
+
+describe('Head Nozzles', () => {
+  it('follows the head slope', () => {
+    expect(getSurfaceAngle('hemispherical', 2000, 500)).toBeCloseTo(Math.asin(0.5), 6);
+    expect(getSurfaceAngle('torispherical', 2000, 500)).toBeCloseTo(Math.asin(500 / 2000), 6);
+    // 2:1 ellipse - flat at the pole, steepening to the tangent line
+    expect(getSurfaceAngle('ellipsoidal', 2000, 0)).toBeCloseTo(0, 6);
+    expect(getSurfaceAngle('ellipsoidal', 2000, 800)).toBeGreaterThan(getSurfaceAngle('ellipsoidal', 2000, 400));
+  });
+
+  it('welds a central nozzle round a flat circle at one tilt', () => {
+    const curve = calculateHeadIntersection(300, 'hemispherical', 2000, 0)!;
+    expect(curve.length).toBeCloseTo(Math.PI * 300, 1);
+    expect(curve.minTilt).toBeCloseTo(toDegrees(Math.asin(150 / 1000)), 3);
+    expect(curve.maxTilt).toBeCloseTo(curve.minTilt, 3);
+  });
+
+  it('climbs the head and tilts both ways off-centre', () => {
+    const centre = calculateHeadIntersection(300, 'ellipsoidal', 2020, 0)!;
+    const offset = calculateHeadIntersection(300, 'ellipsoidal', 2020, 500)!;
+    expect(offset.length).toBeGreaterThan(centre.length);
+    expect(offset.minTilt).toBeLessThan(0);
+    expect(offset.maxTilt).toBeGreaterThan(centre.maxTilt);
+    expect(calculateHeadIntersection(300, 'ellipsoidal', 2020, 900)).toBeNull();
+  });
+
+  it('welds through the thicker wall along the nozzle axis', () => {
+    const flat = calculateNozzle(nozzle(), DEFAULT_SETTINGS);
+    const head = calculateNozzle(nozzle({ position: 500 }), DEFAULT_SETTINGS);
+
+    expect(flat.effectiveThickness).toBe(20);
+    expect(head.circumference).toBe(head.intersection!.length);
+    expect(head.effectiveThickness).toBeGreaterThan(20);
+    expect(head.volumes.totalVolume).toBeGreaterThan(flat.volumes.totalVolume);
+
+    // Shell placement does not apply on a head
+    const placed = { ...nozzle({ position: 500 }), placement: { type: 'setOn' as const, offset: 0, shellID: 2000, neckThickness: 10 } };
+    expect(calculateNozzle(placed, DEFAULT_SETTINGS).circumference).toBe(head.circumference);
+  });
+
+  it('takes the type and thickness from a vessel head', () => {
+    const vessel = {
+      ...DEFAULT_VESSEL,
+      insideDiameter: 2400,
+      heads: [{ id: 'h1', tag: 'H1', headType: 'torispherical' as const, thickness: 28, straightFlange: 50 }],
+    };
+    const bound = bindNozzle(nozzle({ headId: 'h1' }), vessel);
+    expect(bound.geometry.shellThick).toBe(28);
+    expect(bound.parent).toMatchObject({ headType: 'torispherical', headID: 2400 });
+
+    const kept = bindNozzle({ ...nozzle({ headId: 'h1' }), overrides: { thickness: true, diameter: true } }, vessel);
+    expect(kept.geometry.shellThick).toBe(20);
+    expect(kept.parent).toMatchObject({ headType: 'torispherical', headID: 2000 });
+    expect(bindNozzle(nozzle({ headId: 'h9' }), vessel).geometry.shellThick).toBe(20);
+  });
+
+  it('groups shell and head nozzles apart', () => {
+    const groups = getNozzleGroups([nozzle(), { ...nozzle({}), id: 'n2' }, { ...nozzle(), id: 'n3' }]);
+    expect(groups.map(g => [g.label, g.items.map(n => n.id)])).toEqual([['Shell', ['n1', 'n3']], ['Head', ['n2']]]);
+    expect(getNozzleGroups([nozzle()]).map(g => g.label)).toEqual(['Shell']);
+  });
+});
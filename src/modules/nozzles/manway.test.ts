@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { calculateNozzle, calculateActivityCodes, applyNozzleNde, applyManwayPreset } from './engine';
+import { DEFAULT_NOZZLE_ACTIVITY_TIMES, MANWAY_PRESETS } from './types';
+import { testNozzle } from './fixtures';
+import { getPipeDimensions } from '../pipejoints/pipeData';
+import { getNdeCoverage } from '../offer/types';
+import { DEFAULT_SETTINGS } from '../../shared/settings/defaults';
+
+const nozzle = testNozzle({ id: 'mw1', tag: 'MW1' });
+
+const manway = applyManwayPreset(nozzle, MANWAY_PRESETS.find(p => p.label === '20" 300#')!);
+
+describe('Manways', () => {
+  it('bundles the neck, flange, pad and bolting from a standard size', () => {
+    expect(manway.geometry.nozzleOD).toBe(508);
+    expect(manway.flange).toEqual({ type: 'WN', rating: 300, nps: '20"', schedule: 'SCH 30' });
+    expect(manway.repad?.padOD).toBe(1015);
+    expect(manway.manway?.studCount).toBe(24);
+  });
+
+  it('lists only sizes the pipe tables know', () => {
+    MANWAY_PRESETS.forEach(p => {
+      expect(getPipeDimensions(p.flange.nps, p.flange.schedule)?.od).toBe(p.nozzleOD);
+    });
+  });
+
+  it('fillet welds the davit brackets to the shell', () => {
+    const plain = calculateNozzle(nozzle, DEFAULT_SETTINGS);
+    const results = calculateNozzle(manway, DEFAULT_SETTINGS);
+    const leg = 6 * Math.sqrt(2);
+
+    expect(plain.manway).toBeNull();
+    expect(plain.volumes.davitVolume).toBe(0);
+    expect(results.manway).toEqual({ bracketLength: 800 });
+    expect(results.volumes.davitVolume).toBeCloseTo((leg * leg / 2) * 800, 3);
+    expect(results.times.davitTime).toBeGreaterThan(0);
+    expect(results.flange).not.toBeNull();
+    expect(results.pad).not.toBeNull();
+  });
+
+  it('books the davit, machining and bolt-up on their own codes', () => {
+    const results = calculateNozzle(manway, DEFAULT_SETTINGS);
+    const codes = calculateActivityCodes(DEFAULT_NOZZLE_ACTIVITY_TIMES, results.times, manway.repad, results.flange, manway.manway);
+    const extras = manway.manway!;
+
+    expect(codes.WDAVIT).toBeCloseTo(extras.davitFitHours + results.times.davitTime, 6);
+    expect(codes.MACHMW).toBe(extras.machiningHours);
+    expect(codes.BOLTMW).toBeCloseTo(24 * extras.boltUpHoursPerStud + extras.coverHangHours, 6);
+    expect(codes.WPIPE).toBeGreaterThan(0);
+    expect(codes.WPAD).toBeGreaterThan(0);
+
+    const plain = calculateActivityCodes(DEFAULT_NOZZLE_ACTIVITY_TIMES, calculateNozzle(nozzle, DEFAULT_SETTINGS).times);
+    expect(plain).toMatchObject({ WDAVIT: 0, MACHMW: 0, BOLTMW: 0 });
+  });
+
+  it('examines the davit brackets as external attachments', () => {
+    const settings = { ...DEFAULT_SETTINGS, nde: { ...DEFAULT_SETTINGS.nde, calculate: true } };
+    const results = calculateNozzle(manway, settings);
+    const { nde } = applyNozzleNde(DEFAULT_NOZZLE_ACTIVITY_TIMES, results, getNdeCoverage(), settings);
+    expect(nde!.exams.some(e => e.category === 'externalAttachments')).toBe(true);
+  });
+});
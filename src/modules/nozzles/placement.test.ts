@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { calculateGroove, calculateVaryingGroove, singleBevelSection } from '../../engine/groove';
+import { calculateIntersection, calculateNozzle, getPlacementOffset } from './engine';
+import type { NozzlePlacement } from './types';
+import { testNozzle } from './fixtures';
+import { DEFAULT_SETTINGS } from '../../shared/settings/defaults';
+
+const { beadSizes } = DEFAULT_SETTINGS;
+const speeds = DEFAULT_SETTINGS.travelSpeeds[0].values;
+
+const nozzle = (placement?: Partial<NozzlePlacement>) => testNozzle({
+  placement: placement && { type: 'radial', offset: 0, shellID: 2000, neckThickness: 10, ...placement },
+});
+
+describe('Nozzle Placement', () => {
+  it('sums a varying groove segment by segment', () => {
+    const section = singleBevelSection(20, 35, 3, 2);
+    const layers = [{ process: 'GTAW' as const, minWidth: 0 }, { process: 'SMAW' as const, minWidth: 6 }];
+    const uniform = calculateGroove(section, 1000, layers, beadSizes, speeds);
+    const split = calculateVaryingGroove([{ section, length: 400 }, { section, length: 600 }], layers, beadSizes, speeds);
+    expect(split.volume).toBeCloseTo(uniform.volume, 6);
+    expect(split.passes).toBe(uniform.passes);
+    expect(split.arcTime).toBeCloseTo(uniform.arcTime, 6);
+
+    const wide = singleBevelSection(20, 45, 3, 2);
+    const mixed = calculateVaryingGroove([{ section, length: 500 }, { section: wide, length: 500 }], layers, beadSizes, speeds);
+    expect(mixed.area).toBeCloseTo((uniform.area + calculateGroove(wide, 1, layers, beadSizes, speeds).area) / 2, 6);
+  });
+
+  it('traces a radial saddle a little longer than π × OD', () => {
+    const curve = calculateIntersection(300, 1012.5, 0)!;
+    expect(curve.length).toBeGreaterThan(Math.PI * 300);
+    expect(curve.length).toBeLessThan(Math.PI * 300 * 1.01);
+    expect(curve.minTilt).toBeCloseTo(0, 1);
+    expect(curve.maxTilt).toBeCloseTo(Math.asin(150 / 1012.5) * 180 / Math.PI, 1);
+
+    // A small nozzle on a large shell is nearly flat
+    expect(calculateIntersection(50, 1e6, 0)!.length).toBeCloseTo(Math.PI * 50, 2);
+  });
+
+  it('lengthens the path and tilts the shell both ways off-centre', () => {
+    const radial = calculateIntersection(300, 1012.5, 0)!;
+    const hillside = calculateIntersection(300, 1012.5, 600)!;
+    expect(hillside.length).toBeGreaterThan(radial.length);
+    expect(hillside.minTilt).toBeLessThan(0);
+    expect(hillside.maxTilt).toBeGreaterThan(radial.maxTilt);
+
+    expect(getPlacementOffset({ type: 'tangential', offset: 0, shellID: 2000, neckThickness: 10 }, 300)).toBe(850);
+    expect(calculateIntersection(300, 1012.5, 900)).toBeNull();
+  });
+
+  it('welds a placed nozzle along the saddle', () => {
+    const flat = calculateNozzle(nozzle(), DEFAULT_SETTINGS);
+    const radial = calculateNozzle(nozzle({}), DEFAULT_SETTINGS);
+    const hillside = calculateNozzle(nozzle({ type: 'hillside', offset: 600 }), DEFAULT_SETTINGS);
+
+    expect(flat.intersection).toBeNull();
+    expect(radial.circumference).toBe(radial.intersection!.length);
+    // The outside bevel opens where the shell falls away; the inside closes
+    expect(radial.volumes.outsideVolume).toBeGreaterThan(flat.volumes.outsideVolume);
+    expect(radial.volumes.insideVolume).toBeLessThan(flat.volumes.insideVolume);
+    expect(hillside.volumes.totalVolume).toBeGreaterThan(radial.volumes.totalVolume);
+
+    // Off the shell - back to the flat path
+    expect(calculateNozzle(nozzle({ type: 'hillside', offset: 950 }), DEFAULT_SETTINGS).circumference).toBe(Math.PI * 300);
+  });
+
+  it('welds a set-on nozzle through its neck', () => {
+    const setIn = calculateNozzle(nozzle({}), DEFAULT_SETTINGS);
+    const setOn = calculateNozzle(nozzle({ type: 'setOn', neckThickness: 10 }), DEFAULT_SETTINGS);
+    // On the shell outside - a flatter, shorter saddle than mid-wall
+    expect(setOn.intersection!.length).toBeLessThan(setIn.intersection!.length);
+    expect(setOn.volumes.insideVolume).toBeLessThan(setIn.volumes.insideVolume);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { calculateNozzle, calculateActivityCodes, getRepadMass } from './engine';
+import { DEFAULT_NOZZLE_ACTIVITY_TIMES, DEFAULT_NOZZLE_REPAD } from './types';
+import type { NozzleRepad } from './types';
+import { testNozzle } from './fixtures';
+import { DEFAULT_SETTINGS } from '../../shared/settings/defaults';
+
+const REPAD: NozzleRepad = { ...DEFAULT_NOZZLE_REPAD, padOD: 600 };
+
+const nozzle = (repad?: NozzleRepad) => testNozzle({ repad });
+
+describe('Nozzle Reinforcing Pad', () => {
+  it('adds nothing without a pad', () => {
+    const results = calculateNozzle(nozzle(), DEFAULT_SETTINGS);
+    expect(results.pad).toBeNull();
+    expect(results.volumes.padNeckVolume).toBe(0);
+    expect(results.times.padShellTime).toBe(0);
+
+    const codes = calculateActivityCodes(DEFAULT_NOZZLE_ACTIVITY_TIMES, results.times);
+    expect(codes).toMatchObject({ CUTPAD: 0, FORMPAD: 0, WPAD: 0, FNOZZ: DEFAULT_NOZZLE_ACTIVITY_TIMES.fitNozzle });
+  });
+
+  it('welds the pad round the neck and round its edge', () => {
+    const bare = calculateNozzle(nozzle(), DEFAULT_SETTINGS);
+    const padded = calculateNozzle(nozzle(REPAD), DEFAULT_SETTINGS);
+    const leg = 8 * Math.sqrt(2);
+
+    expect(padded.pad).toMatchObject({ neckLength: Math.PI * 300, shellLength: Math.PI * 600 });
+    expect(padded.volumes.padNeckVolume).toBeCloseTo((leg * leg / 2) * Math.PI * 300, 3);
+    expect(padded.volumes.padShellVolume).toBeCloseTo(2 * padded.volumes.padNeckVolume, 3);
+    expect(padded.volumes.totalVolume).toBeCloseTo(
+      bare.volumes.totalVolume + padded.volumes.padNeckVolume + padded.volumes.padShellVolume, 3
+    );
+    expect(padded.times.padShellTime).toBeGreaterThan(padded.times.padNeckTime);
+    expect(padded.deposits.FCAW!.volume).toBeGreaterThan(bare.deposits.FCAW!.volume);
+  });
+
+  it('books cutting, forming, fitting and pad welding', () => {
+    const results = calculateNozzle(nozzle(REPAD), DEFAULT_SETTINGS);
+    const codes = calculateActivityCodes(DEFAULT_NOZZLE_ACTIVITY_TIMES, results.times, REPAD);
+
+    expect(codes.CUTPAD).toBe(REPAD.cutHours + REPAD.drillHours);
+    expect(codes.FORMPAD).toBe(REPAD.formHours);
+    expect(codes.FNOZZ).toBe(DEFAULT_NOZZLE_ACTIVITY_TIMES.fitNozzle + REPAD.fitHours);
+    expect(codes.WPAD).toBeCloseTo(results.times.padNeckTime + results.times.padShellTime, 6);
+    expect(calculateActivityCodes(DEFAULT_NOZZLE_ACTIVITY_TIMES, results.times, { ...REPAD, tellTale: false }).CUTPAD)
+      .toBe(REPAD.cutHours);
+  });
+
+  it('weighs the pad ring less the bore', () => {
+    expect(getRepadMass(REPAD, 300)).toBeCloseTo((Math.PI / 4) * (600 ** 2 - 300 ** 2) * 20 * 7.85e-6, 6);
+    expect(getRepadMass({ ...REPAD, padOD: 200 }, 300)).toBe(0);
+  });
+});
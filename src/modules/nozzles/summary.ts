@@ -0,0 +1,62 @@
+import type { ModuleSummary, SharedSettings } from '../../shared/types';
+import type { NdeCoverage } from '../../engine/nde';
+import { sumItemDeposits } from '../../engine/consumables';
+import { sumItemNde } from '../../engine/nde';
+import { resolveProcedure } from '../../engine/procedures';
+import type { PipeJointSettings } from '../pipejoints/types';
+import { calculateNozzle, calculateActivityCodes, applyNozzleProcedure, applyNozzlePreheat, applyNozzleNde } from './engine';
+import { getNozzleGroups } from './export';
+import type { NozzleItem, NozzleActivityCodes } from './types';
+
+/**
+ * Calculate every nozzle - WPS, results, preheat, NDE and activity codes
+ */
+export function calculateNozzles(
+  nozzles: NozzleItem[],
+  settings: SharedSettings,
+  pipeJointSettings: PipeJointSettings,
+  ndeCoverage: NdeCoverage
+) {
+  return nozzles.map(item => {
+    // WPS prep and processes replace the nozzle's own
+    const { item: nozzle, settings: nozzleSettings, procedure } = resolveProcedure(item, settings, applyNozzleProcedure);
+    const results = calculateNozzle(nozzle, nozzleSettings, pipeJointSettings);
+    const { activityTimes: heated, preheat: preheatResult } = applyNozzlePreheat(nozzle, results, nozzleSettings);
+    const { activityTimes, nde: ndeResult } = applyNozzleNde(heated, results, ndeCoverage, nozzleSettings);
+    const activityCodes = calculateActivityCodes(activityTimes, results.times, nozzle.repad, results.flange, nozzle.manway);
+    return { ...nozzle, activityTimes, results, activityCodes, procedure, preheatResult, ndeResult };
+  });
+}
+
+/**
+ * Module summary for calculated nozzles - hours, codes, weld metal and NDE, all × quantity
+ */
+export function summarizeNozzles(nozzlesWithResults: ReturnType<typeof calculateNozzles>): ModuleSummary {
+  const hoursOf = (items: NozzleItem[]) => items.reduce((sum, n) => {
+    const codes = n.activityCodes || {} as NozzleActivityCodes;
+    const perNozzle = Object.values(codes).reduce((s, v) => s + v, 0);
+    return sum + perNozzle * n.quantity;
+  }, 0);
+  const totalHours = hoursOf(nozzlesWithResults);
+
+  const activityBreakdown: Record<string, number> = {};
+  nozzlesWithResults.forEach(n => {
+    if (n.activityCodes) {
+      Object.entries(n.activityCodes).forEach(([code, hours]) => {
+        activityBreakdown[code] = (activityBreakdown[code] || 0) + hours * n.quantity;
+      });
+    }
+  });
+
+  return {
+    moduleId: 'nozzles',
+    moduleName: 'Nozzles',
+    itemCount: nozzlesWithResults.reduce((sum, n) => sum + n.quantity, 0),
+    totalHours,
+    activityBreakdown,
+    deposits: sumItemDeposits(nozzlesWithResults),
+    nde: sumItemNde(nozzlesWithResults),
+    // Shell and head nozzles - stored nozzles carry no codes, so the summary keeps the split
+    groups: getNozzleGroups(nozzlesWithResults).map(({ label, items }) => ({ label, hours: hoursOf(items) })),
+  };
+}
@@ -1,4 +1,6 @@
-import type { WeldProcess, JointType } from '../../shared/types';
+import type { WeldProcess, JointType, DepositByProcess, PreheatInput } from '../../shared/types';
+import type { VesselOverrides } from '../../project/types';
+import type { HeadType } from '../heads/types';
 
 /**
  * Process layer - defines a process and the min groove width to use it
@@ -24,6 +26,120 @@ export interface NozzleGeometry {
   singleBevelAngle: number;
 }
 
+/**
+ * Where the nozzle sits on the shell. Set-in nozzles pass through the shell
+ * and are welded through the shell wall; a set-on nozzle sits on the shell
+ * and is welded through its own neck. Radial nozzles point at the vessel
+ * axis; hillside nozzles are offset from it, and tangential ones so far that
+ * the neck lines up with the shell inside.
+ */
+export type NozzlePlacementType = 'radial' | 'hillside' | 'tangential' | 'setOn';
+
+export interface NozzlePlacement {
+  type: NozzlePlacementType;
+  offset: number;              // mm - nozzle axis from the vessel centreline (hillside)
+  shellID: number;             // mm - vessel inside diameter
+  neckThickness: number;       // mm - set-on groove depth
+}
+
+/**
+ * Component the nozzle is set into. A head nozzle stands parallel to the
+ * vessel axis at a radial position from the head centre, so its weld path
+ * follows the dished surface - shell placement does not apply.
+ */
+export type NozzleParentComponent = 'shell' | 'head';
+
+export interface NozzleParent {
+  component: NozzleParentComponent;
+  headId?: string;             // Vessel head - type and thickness come from the head
+  headType: HeadType;
+  headID: number;              // mm - head inside diameter
+  position: number;            // mm - nozzle axis from the head centre
+}
+
+// Intersection of the nozzle with the shell or head - the weld path
+export interface NozzleIntersectionPoint {
+  angle: number;               // degrees round the nozzle from the offset side
+  tilt: number;                // degrees the shell leans away from the nozzle wall
+  length: number;              // mm of weld path at this point
+}
+
+export interface NozzleIntersection {
+  length: number;              // mm
+  points: NozzleIntersectionPoint[];
+  minTilt: number;             // degrees
+  maxTilt: number;             // degrees
+}
+
+/**
+ * Reinforcing pad around the nozzle - cut from plate, formed to the shell and
+ * fillet welded to the neck and the shell
+ */
+export interface NozzleRepad {
+  padOD: number;               // mm
+  thickness: number;           // mm
+  neckThroat: number;          // mm - pad-to-neck fillet
+  shellThroat: number;         // mm - pad-to-shell fillet
+  tellTale: boolean;           // Drilled and tapped test hole
+  cutHours: number;            // Cut the pad and bore
+  formHours: number;           // Roll to the shell radius
+  fitHours: number;            // Fit and tack over the nozzle
+  drillHours: number;          // Drill and tap the tell-tale
+}
+
+/**
+ * Flange on the nozzle neck. A weld neck is butt welded to the neck pipe, a
+ * slip-on is fillet welded at the hub and the bore, and a long weld neck is
+ * forged as the neck so has no flange weld.
+ */
+export type NozzleFlangeType = 'WN' | 'SO' | 'LWN';
+export type FlangeRating = 150 | 300 | 600 | 900 | 1500 | 2500;
+
+export interface NozzleFlange {
+  type: NozzleFlangeType;
+  rating: FlangeRating;
+  nps: string;                 // Neck pipe size - see pipeData
+  schedule: string;            // Neck schedule
+}
+
+// Flange-to-neck weld - times per nozzle (hours)
+export interface NozzleFlangeResults {
+  circumference: number;       // mm - around the neck OD
+  wallThickness: number;       // mm - neck wall
+  weldVolume: number;          // mm³
+  passes: number;
+  fitTime: number;
+  preheatTime: number;
+  weldTime: number;
+}
+
+/**
+ * Manway extras on top of the nozzle - the davit arm that carries the blind
+ * cover is fitted on brackets fillet welded to the shell, the flange face and
+ * cover are machined, and the cover is studded up for test
+ */
+export interface NozzleManway {
+  davitBrackets: number;       // Brackets welded to the shell
+  bracketFilletLength: number; // mm - fillet run round each bracket
+  bracketThroat: number;       // mm
+  davitFitHours: number;       // Fit the davit arm and brackets
+  machiningHours: number;      // Face the flange and cover
+  studCount: number;
+  boltUpHoursPerStud: number;  // Fit and torque each stud
+  coverHangHours: number;      // Hang and align the cover on the davit
+}
+
+/**
+ * Standard manway - the neck, pad, flange and bolting applied when picked
+ */
+export interface ManwayPreset {
+  label: string;
+  nozzleOD: number;            // mm - neck pipe OD
+  flange: NozzleFlange;
+  padOD: number;               // mm
+  manway: NozzleManway;
+}
+
 /**
  * Activity times for nozzle installation workflow (in hours)
  */
@@ -54,6 +170,14 @@ export interface NozzleActivityCodes {
   BACGRI: number;
   MATCUT: number;
   NDE: number;
+  CUTPAD: number;
+  FORMPAD: number;
+  WPAD: number;
+  FPIPE: number;
+  WPIPE: number;
+  WDAVIT: number;
+  MACHMW: number;
+  BOLTMW: number;
 }
 
 /**
@@ -65,6 +189,9 @@ export interface NozzleCalculationResults {
     insideVolume: number;
     outsideVolume: number;
     filletVolume: number;
+    padNeckVolume: number;
+    padShellVolume: number;
+    davitVolume: number;
     totalVolume: number;
   };
   passes: {
@@ -74,14 +201,45 @@ export interface NozzleCalculationResults {
     insidePasses: number;
     outsidePasses: number;
     filletPasses: number;
+    padNeckPasses: number;
+    padShellPasses: number;
+    davitPasses: number;
     totalPasses: number;
   };
   times: {
     insideTime: number;
     outsideTime: number;
     filletTime: number;
+    padNeckTime: number;
+    padShellTime: number;
+    davitTime: number;
     totalTime: number;
   };
+
+  // Reinforcing pad - null without one
+  pad: {
+    neckLength: number;        // mm - pad-to-neck fillet
+    shellLength: number;       // mm - pad-to-shell fillet
+    mass: number;              // kg
+  } | null;
+
+  // Davit bracket fillets - null for a plain nozzle
+  manway: {
+    bracketLength: number;     // mm - all brackets
+  } | null;
+
+  // Flange-to-neck weld - null without a welded flange
+  flange: NozzleFlangeResults | null;
+
+  // Saddle weld path - null for the flat π × OD path
+  intersection: NozzleIntersection | null;
+
+  // mm - groove depth averaged along the path; the wall is thicker where the
+  // shell or head leans away from the nozzle
+  effectiveThickness: number;
+
+  // Weld metal by process (consumables)
+  deposits: DepositByProcess;
 }
 
 /**
@@ -91,7 +249,16 @@ export interface NozzleItem {
   id: string;
   tag: string;
   quantity: number;
+  wpsNumber?: string; // WPS reference - prep and processes come from the library
+  preheat?: PreheatInput; // Calculated preheat - hand-entered hours when absent
+  courseId?: string; // Vessel course the nozzle sits in - shell thickness comes from the course
+  overrides?: VesselOverrides; // Values kept as entered instead of from the course
   geometry: NozzleGeometry;
+  repad?: NozzleRepad; // Reinforcing pad - none when absent
+  flange?: NozzleFlange; // Neck flange - the nozzle alone when absent
+  manway?: NozzleManway; // Davit, cover and bolting - a plain nozzle when absent
+  placement?: NozzlePlacement; // Position on the shell - a flat π × OD path when absent
+  parent?: NozzleParent; // Shell or head the nozzle is set into - the shell when absent
   insideLayers: ProcessLayer[];
   outsideProcess: Exclude<WeldProcess, 'Skip'>;
   filletProcess: Exclude<WeldProcess, 'Skip'>;
@@ -123,6 +290,100 @@ export const DEFAULT_NOZZLE_GEOMETRY: NozzleGeometry = {
   singleBevelAngle: 35,
 };
 
+/**
+ * Default pad for a nozzle that gains one
+ */
+export const DEFAULT_NOZZLE_REPAD: Omit<NozzleRepad, 'padOD'> = {
+  thickness: 20,
+  neckThroat: 8,
+  shellThroat: 8,
+  tellTale: true,
+  cutHours: 1.0,
+  formHours: 1.5,
+  fitHours: 1.0,
+  drillHours: 0.5,
+};
+
+/**
+ * Standard manways - weld neck flanges on standard-wall neck pipe, studs per
+ * ASME B16.5, pads at twice the neck OD
+ */
+const manwayExtras = (studCount: number, machiningHours: number): NozzleManway => ({
+  davitBrackets: 2,
+  bracketFilletLength: 400,
+  bracketThroat: 6,
+  davitFitHours: 3.0,
+  machiningHours,
+  studCount,
+  boltUpHoursPerStud: 0.15,
+  coverHangHours: 1.5,
+});
+
+export const MANWAY_PRESETS: ManwayPreset[] = [
+  {
+    label: '18" 150#',
+    nozzleOD: 457.2,
+    flange: { type: 'WN', rating: 150, nps: '18"', schedule: 'SCH 20' },
+    padOD: 915,
+    manway: manwayExtras(16, 4.0),
+  },
+  {
+    label: '18" 300#',
+    nozzleOD: 457.2,
+    flange: { type: 'WN', rating: 300, nps: '18"', schedule: 'SCH 30' },
+    padOD: 915,
+    manway: manwayExtras(24, 5.0),
+  },
+  {
+    label: '20" 150#',
+    nozzleOD: 508.0,
+    flange: { type: 'WN', rating: 150, nps: '20"', schedule: 'SCH 20' },
+    padOD: 1015,
+    manway: manwayExtras(20, 4.5),
+  },
+  {
+    label: '20" 300#',
+    nozzleOD: 508.0,
+    flange: { type: 'WN', rating: 300, nps: '20"', schedule: 'SCH 30' },
+    padOD: 1015,
+    manway: manwayExtras(24, 5.5),
+  },
+  {
+    label: '24" 150#',
+    nozzleOD: 609.6,
+    flange: { type: 'WN', rating: 150, nps: '24"', schedule: 'SCH 20' },
+    padOD: 1220,
+    manway: manwayExtras(20, 5.0),
+  },
+  {
+    label: '24" 300#',
+    nozzleOD: 609.6,
+    flange: { type: 'WN', rating: 300, nps: '24"', schedule: 'SCH 30' },
+    padOD: 1220,
+    manway: manwayExtras(24, 6.5),
+  },
+];
+
+export const PLACEMENT_LABELS: Record<NozzlePlacementType, string> = {
+  radial: 'Radial (set-in)',
+  hillside: 'Hillside (set-in)',
+  tangential: 'Tangential (set-in)',
+  setOn: 'Set-on',
+};
+
+export const PARENT_LABELS: Record<NozzleParentComponent, string> = {
+  shell: 'Shell',
+  head: 'Head',
+};
+
+export const FLANGE_TYPE_LABELS: Record<NozzleFlangeType, string> = {
+  WN: 'Weld Neck',
+  SO: 'Slip-On',
+  LWN: 'Long Weld Neck',
+};
+
+export const FLANGE_RATINGS: FlangeRating[] = [150, 300, 600, 900, 1500, 2500];
+
 /**
  * Default activity times
  */
@@ -1,12 +1,28 @@
 import { useState, useEffect } from 'react';
 import { useProject } from '../../project';
+import type { ProjectModules, VesselDefinition } from '../../project/types';
+import { calculateCost } from '../../engine/costing';
+import { getEquipmentTotals, getEquipmentLabel } from '../../engine/equipment';
+import type { LongWeldsModuleData } from '../longwelds/types';
+import type { CircWeldsModuleData } from '../circwelds/types';
+import { DEFAULT_PWHT_INPUT, calculatePwht, describePwht, getPwhtSeams } from '../pwht';
+import type { PwhtModuleData } from '../pwht';
+import type { HeadsModuleData } from '../heads/types';
+import type { NozzlesModuleData } from '../nozzles/types';
+import { DEFAULT_PRESSURE_TEST_INPUT, calculatePressureTest, describePressureTest, getPressureTestVessel } from '../pressuretest';
+import type { PressureTestModuleData } from '../pressuretest';
+import { DEFAULT_SHELL_LAYOUT, calculateShellLayout, getShellPlateMaterials } from '../shell';
+import type { ShellModuleData } from '../shell';
 import {
   type OfferData,
   type OfferNote,
   type OfferMaterialItem,
   type OfferMilestoneItem,
+  type OfferPricing,
   type OfferPricingItem,
   createDefaultOfferData,
+  isEstimateLine,
+  keepIncluded,
 } from './types';
 import { generateOfferPDF } from './pdfGenerator';
 import './OfferModule.css';
@@ -45,7 +61,7 @@ const SECTIONS: { id: SectionId; label: string }[] = [
 ];
 
 export function OfferModule() {
-  const { currentProject, save } = useProject();
+  const { currentProject, save, settings } = useProject();
   const [expandedSections, setExpandedSections] = useState<Set<SectionId>>(new Set(['project']));
   
   // Simple text state for equipment description (avoids parsing on every keystroke)
@@ -87,6 +103,20 @@ export function OfferModule() {
     }
   }, []);
 
+  // Issue from the working copy ('') or an earlier revision of the estimate
+  const [issueFrom, setIssueFrom] = useState('');
+  const revisions = currentProject?.revisions ?? [];
+
+  const generateIssuedPDF = () => {
+    const revision = revisions.find(r => r.id === issueFrom);
+    if (!revision) {
+      generateOfferPDF(offerData, currentProject);
+      return;
+    }
+    const issued = revision.snapshot.modules.offer as OfferData;
+    generateOfferPDF({ ...issued, projectDetails: { ...issued.projectDetails, revision: revision.label } }, revision.snapshot);
+  };
+
   // Save offer data to project
   const saveOfferData = () => {
     if (!currentProject) return;
@@ -118,32 +148,26 @@ export function OfferModule() {
     }));
   };
 
-  // Get equipment items from estimate
+  // Equipment items from the estimate, with hours per unit
   const getEstimateEquipment = () => {
     if (!currentProject) return [];
-    const items: { tag: string; module: string; count: number }[] = [];
-    
-    const nozzles = currentProject.modules?.nozzles as { tag: string; quantity?: number }[] | undefined;
-    if (nozzles?.length) {
-      items.push({ tag: 'Nozzles', module: 'nozzles', count: nozzles.length });
-    }
-    
-    const longWelds = currentProject.modules?.longwelds as { tag: string }[] | undefined;
-    if (longWelds?.length) {
-      items.push({ tag: 'Long Welds', module: 'longwelds', count: longWelds.length });
-    }
-    
-    const circWelds = currentProject.modules?.circwelds as { tag: string }[] | undefined;
-    if (circWelds?.length) {
-      items.push({ tag: 'Circ Welds', module: 'circwelds', count: circWelds.length });
-    }
-    
-    const pipeJoints = currentProject.modules?.pipejoints as { tag: string }[] | undefined;
-    if (pipeJoints?.length) {
-      items.push({ tag: 'Pipe Joints', module: 'pipejoints', count: pipeJoints.length });
-    }
-    
-    return items;
+    return currentProject.equipment.map(equipment => ({
+      equipment,
+      hours: getEquipmentTotals(equipment).totalHours,
+    }));
+  };
+
+  // Offer equipment lines from the estimate equipment
+  const applyEstimateEquipment = () => {
+    if (!currentProject) return;
+    const items = currentProject.equipment.map(e => ({
+      tag: `Quantity ${e.quantity}, ${getEquipmentLabel(e)}`,
+      description: e.name,
+      quantity: e.quantity,
+      included: true,
+    }));
+    setEquipmentText(items.map(i => i.tag).join('\n'));
+    setOfferData(prev => ({ ...prev, equipment: items }));
   };
 
   // Handle NDE coverage change
@@ -227,6 +251,126 @@ export function OfferModule() {
   };
 
   // Pricing management
+  const withPricingTotals = (pricing: OfferPricing, items: OfferPricingItem[]): OfferPricing => {
+    const subtotal = items.filter(i => i.included).reduce((sum, i) => sum + i.total, 0);
+    return { ...pricing, items, subtotal, total: subtotal - pricing.discount };
+  };
+
+  // One line per equipment item with hours, priced per unit at labour rates plus overhead and margin
+  const getEstimateLines = (): OfferPricingItem[] => {
+    if (!currentProject) return [];
+    return currentProject.equipment.flatMap(equipment => {
+      const totals = getEquipmentTotals(equipment);
+      if (totals.totalHours <= 0) return [];
+      const price = Math.round(calculateCost(totals.activityBreakdown, settings.labourRates, totals.directCost).total);
+      return [{
+        description: `${getEquipmentLabel(equipment)} - fabrication (${totals.totalHours.toFixed(1)} hrs each)`,
+        quantity: equipment.quantity,
+        unitPrice: price,
+        total: price * equipment.quantity,
+        included: true,
+        equipmentId: equipment.id,
+      }];
+    });
+  };
+
+  // Keep estimate lines in step with the estimate - manual lines are left alone
+  useEffect(() => {
+    if (!offerData.pricing.autoFromEstimate) return;
+    setOfferData(prev => ({
+      ...prev,
+      pricing: withPricingTotals(prev.pricing, [
+        ...keepIncluded(getEstimateLines(), prev.pricing.items),
+        ...prev.pricing.items.filter(i => !isEstimateLine(i)),
+      ]),
+    }));
+  }, [offerData.pricing.autoFromEstimate, currentProject?.equipment, settings.labourRates]);
+
+  // PWHT wording from the heat treatment estimate, blank when no PWHT is estimated
+  const getPwhtDetail = (modules: ProjectModules): string => {
+    const stored = (modules.pwht as PwhtModuleData | undefined)?.pwht;
+    if (!stored) return '';
+    const input = { ...DEFAULT_PWHT_INPUT, ...stored };
+    const seams = getPwhtSeams(
+      (modules.longwelds as LongWeldsModuleData | undefined)?.welds || [],
+      (modules.circwelds as CircWeldsModuleData | undefined)?.welds || []
+    );
+    const result = calculatePwht(input, seams, settings);
+    return result ? describePwht(input, result) : '';
+  };
+
+  // Test wording from the pressure test estimate, blank when no test is estimated
+  const getTestDetail = (modules: ProjectModules, definition?: VesselDefinition): string => {
+    const stored = (modules.pressuretest as PressureTestModuleData | undefined)?.test;
+    if (!stored) return '';
+    const input = { ...DEFAULT_PRESSURE_TEST_INPUT, ...stored };
+    const vessel = getPressureTestVessel(
+      (modules.longwelds as LongWeldsModuleData | undefined)?.welds || [],
+      (modules.circwelds as CircWeldsModuleData | undefined)?.welds || [],
+      (modules.heads as HeadsModuleData | undefined)?.items || [],
+      (modules.nozzles as NozzlesModuleData | undefined)?.nozzles || [],
+      definition
+    );
+    const result = calculatePressureTest(input, vessel, settings);
+    return result ? describePressureTest(input, result) : '';
+  };
+
+  // Wording for each equipment item, tagged when the job has more than one
+  const describeEquipment = (describe: (modules: ProjectModules, definition?: VesselDefinition) => string): string => {
+    const equipment = currentProject?.equipment ?? [];
+    return equipment
+      .map(e => [e, describe(e.modules, e.vessel)] as const)
+      .filter(([, detail]) => detail)
+      .map(([e, detail]) => equipment.length > 1 ? `${e.tag}: ${detail}` : detail)
+      .join('; ');
+  };
+
+  useEffect(() => {
+    const pwhtDetail = describeEquipment(getPwhtDetail);
+    const testDetail = describeEquipment(getTestDetail);
+    setOfferData(prev => {
+      const pwhtChanged = (prev.heatTreatment.pwhtDetail ?? '') !== pwhtDetail;
+      const testChanged = (prev.pressureTesting.testDetail ?? '') !== testDetail;
+      if (!pwhtChanged && !testChanged) return prev;
+      return {
+        ...prev,
+        heatTreatment: { ...prev.heatTreatment, pwhtDetail },
+        pressureTesting: { ...prev.pressureTesting, testDetail },
+      };
+    });
+  }, [currentProject?.equipment, settings]);
+
+  // Nested shell plates from each equipment item's courses, empty when there are none
+  const getShellPlates = () => {
+    return (currentProject?.equipment ?? []).flatMap(e => {
+      if (!e.vessel) return [];
+      const stored = (e.modules.shell as ShellModuleData | undefined)?.layout;
+      const result = calculateShellLayout(e.vessel, { ...DEFAULT_SHELL_LAYOUT, ...stored });
+      return result ? getShellPlateMaterials(result.nest) : [];
+    });
+  };
+
+  const addShellPlates = () => {
+    const plates = getShellPlates().filter(p => !offerData.materials.items.some(i => i.component === p.component));
+    setOfferData(prev => ({
+      ...prev,
+      materials: {
+        ...prev.materials,
+        items: [...prev.materials.items, ...plates.map(p => ({ ...p, origin: 'Australian', included: true }))],
+      },
+    }));
+  };
+
+  const setAutoFromEstimate = (autoFromEstimate: boolean) => {
+    setOfferData(prev => ({
+      ...prev,
+      pricing: withPricingTotals(
+        { ...prev.pricing, autoFromEstimate },
+        autoFromEstimate ? prev.pricing.items : prev.pricing.items.filter(i => !isEstimateLine(i))
+      ),
+    }));
+  };
+
   const addPricingItem = () => {
     const newItem: OfferPricingItem = {
       description: '',
@@ -252,24 +396,14 @@ export function OfferModule() {
         updated.total = updated.quantity * updated.unitPrice;
         return updated;
       });
-      const subtotal = items.filter(i => i.included).reduce((sum, i) => sum + i.total, 0);
-      const total = subtotal - prev.pricing.discount;
-      return {
-        ...prev,
-        pricing: { ...prev.pricing, items, subtotal, total },
-      };
+      return { ...prev, pricing: withPricingTotals(prev.pricing, items) };
     });
   };
 
   const removePricingItem = (index: number) => {
     setOfferData(prev => {
       const items = prev.pricing.items.filter((_, i) => i !== index);
-      const subtotal = items.filter(i => i.included).reduce((sum, i) => sum + i.total, 0);
-      const total = subtotal - prev.pricing.discount;
-      return {
-        ...prev,
-        pricing: { ...prev.pricing, items, subtotal, total },
-      };
+      return { ...prev, pricing: withPricingTotals(prev.pricing, items) };
     });
   };
 
@@ -287,6 +421,7 @@ export function OfferModule() {
   };
 
   const estimateEquipment = getEstimateEquipment();
+  const shellPlates = getShellPlates();
 
   // Render section content
   const renderSectionContent = (sectionId: SectionId) => {
@@ -363,12 +498,13 @@ export function OfferModule() {
               <div className="equipment-auto-list">
                 <h4>Auto-detected from Estimate</h4>
                 <div className="equipment-chips">
-                  {estimateEquipment.map((item, i) => (
-                    <span key={i} className="equipment-chip">
-                      {item.tag} ({item.count})
+                  {estimateEquipment.map(({ equipment, hours }) => (
+                    <span key={equipment.id} className="equipment-chip">
+                      {getEquipmentLabel(equipment)} × {equipment.quantity} ({hours.toFixed(1)} hrs each)
                     </span>
                   ))}
                 </div>
+                <button className="btn-add-material" onClick={applyEstimateEquipment}>Use Estimate Equipment</button>
               </div>
             )}
             <div className="form-row">
@@ -541,6 +677,21 @@ export function OfferModule() {
               </div>
             </div>
 
+            {shellPlates.length > 0 && (
+              <div className="subsection">
+                <h4>Shell Plates (From Vessel)</h4>
+                <div className="materials-list">
+                  {shellPlates.map(plate => (
+                    <div key={plate.component} className="material-item">
+                      <input type="text" value={plate.component} readOnly />
+                      <input type="text" value={plate.specification} readOnly />
+                    </div>
+                  ))}
+                  <button className="btn-add-material" onClick={addShellPlates}>+ Add to Material Items</button>
+                </div>
+              </div>
+            )}
+
             <div className="subsection">
               <h4>Material Items</h4>
               <div className="materials-list">
@@ -794,6 +945,12 @@ export function OfferModule() {
                 <label>PWHT - Tubeside</label>
               </div>
             </div>
+            {offerData.heatTreatment.pwhtDetail && (
+              <div className="form-group" style={{ marginTop: '1rem' }}>
+                <label>From PWHT Estimate{!offerData.heatTreatment.pwhtShellside && ' - tick shellside PWHT to include'}</label>
+                <input type="text" value={offerData.heatTreatment.pwhtDetail} readOnly />
+              </div>
+            )}
             <div className="form-group" style={{ marginTop: '1rem' }}>
               <label>Other Heat Treatment</label>
               <input
@@ -839,6 +996,12 @@ export function OfferModule() {
                 <label>Air test of tubeside</label>
               </div>
             </div>
+            {offerData.pressureTesting.testDetail && (
+              <div className="form-group" style={{ marginTop: '1rem' }}>
+                <label>From Pressure Test Estimate</label>
+                <input type="text" value={offerData.pressureTesting.testDetail} readOnly />
+              </div>
+            )}
             <div className="form-row" style={{ marginTop: '1rem' }}>
               <div className="form-group">
                 <label>Test Pressure</label>
@@ -1012,6 +1175,14 @@ export function OfferModule() {
       case 'pricing':
         return (
           <div className="section-content">
+            <div
+              className={`checkbox-item ${offerData.pricing.autoFromEstimate ? 'checked' : ''}`}
+              style={{ marginBottom: '1rem' }}
+              onClick={() => setAutoFromEstimate(!offerData.pricing.autoFromEstimate)}
+            >
+              <input type="checkbox" checked={!!offerData.pricing.autoFromEstimate} onChange={() => {}} />
+              <label>Generate line items from estimate (module hours × labour rates + overhead + margin)</label>
+            </div>
             <table className="pricing-table">
               <thead>
                 <tr>
@@ -1024,7 +1195,7 @@ export function OfferModule() {
               </thead>
               <tbody>
                 {offerData.pricing.items.map((item, index) => (
-                  <tr key={index}>
+                  <tr key={index} className={isEstimateLine(item) ? 'estimate-line' : ''}>
                     <td>
                       <input
                         type="text"
@@ -1040,6 +1211,7 @@ export function OfferModule() {
                         value={item.quantity}
                         onChange={(e) => updatePricingItem(index, { quantity: Number(e.target.value) })}
                         min={1}
+                        readOnly={isEstimateLine(item)}
                       />
                     </td>
                     <td>
@@ -1049,6 +1221,7 @@ export function OfferModule() {
                         value={item.unitPrice}
                         onChange={(e) => updatePricingItem(index, { unitPrice: Number(e.target.value) })}
                         step={100}
+                        readOnly={isEstimateLine(item)}
                       />
                     </td>
                     <td className="amount">${item.total.toLocaleString()}</td>
@@ -1225,7 +1398,18 @@ export function OfferModule() {
           <button className="btn-preview" onClick={saveOfferData}>
             Save Draft
           </button>
-          <button className="btn-generate" onClick={() => generateOfferPDF(offerData, currentProject)}>
+          {revisions.length > 0 && (
+            <select className="issue-select" value={issueFrom} onChange={(e) => setIssueFrom(e.target.value)}>
+              <option value="">Working copy</option>
+              {[...revisions].reverse().map(r => (
+                // A revision taken before the offer was saved has none to issue
+                <option key={r.id} value={r.id} disabled={!r.snapshot.modules.offer}>
+                  Rev {r.label} - {r.reason}
+                </option>
+              ))}
+            </select>
+          )}
+          <button className="btn-generate" onClick={generateIssuedPDF}>
             Generate PDF
           </button>
         </div>
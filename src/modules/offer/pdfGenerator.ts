@@ -428,7 +428,7 @@ export function generateOfferPDF(offerData: OfferData, _project?: unknown) {
       <div class="checklist">
         <div class="checklist-item ${heatTreatment.pwhtShellside ? 'included' : 'excluded'}">
           <span class="check">${checkbox(heatTreatment.pwhtShellside)}</span>
-          <span>PWHT - Shellside</span>
+          <span>PWHT - Shellside${heatTreatment.pwhtShellside && heatTreatment.pwhtDetail ? ` - ${heatTreatment.pwhtDetail}` : ''}</span>
         </div>
         <div class="checklist-item ${heatTreatment.pwhtTubeside ? 'included' : 'excluded'}">
           <span class="check">${checkbox(heatTreatment.pwhtTubeside)}</span>
@@ -458,6 +458,7 @@ export function generateOfferPDF(offerData: OfferData, _project?: unknown) {
           <span>Air test of tubeside</span>
         </div>
       </div>
+      ${pressureTesting.testDetail && (pressureTesting.hydroShellside || pressureTesting.airTestShellside) ? `<p style="font-size: 10pt;">${pressureTesting.testDetail}</p>` : ''}
     </div>
 
     <div class="subsection">
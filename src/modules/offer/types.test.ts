@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { isEstimateLine, keepIncluded } from './types';
+import type { OfferPricingItem } from './types';
+
+const line = (description: string, total: number, equipmentId?: string): OfferPricingItem => ({
+  description,
+  quantity: 1,
+  unitPrice: total,
+  total,
+  included: true,
+  equipmentId,
+});
+
+// The same regeneration the offer runs when the estimate changes
+const regenerate = (lines: OfferPricingItem[], previous: OfferPricingItem[]) => [
+  ...keepIncluded(lines, previous),
+  ...previous.filter(i => !isEstimateLine(i)),
+];
+
+describe('Offer pricing lines', () => {
+  it('keeps the included flags set by hand when the estimate lines are regenerated', () => {
+    const previous = [
+      { ...line('E-101 - fabrication', 1000, 'e1'), included: false },
+      line('E-102 - fabrication', 2000, 'e2'),
+      { ...line('Freight', 500), included: false },
+    ];
+
+    const items = regenerate([
+      line('E-101 - fabrication', 1200, 'e1'),
+      line('E-102 - fabrication', 2100, 'e2'),
+      line('E-103 - fabrication', 3000, 'e3'),
+    ], previous);
+
+    expect(items.map(i => [i.description, i.total, i.included])).toEqual([
+      ['E-101 - fabrication', 1200, false],
+      ['E-102 - fabrication', 2100, true],
+      ['E-103 - fabrication', 3000, true],
+      ['Freight', 500, false],
+    ]);
+  });
+
+  it('does not match estimate lines to lines entered by hand', () => {
+    const items = keepIncluded([line('E-101 - fabrication', 1000, 'e1')], [{ ...line('Freight', 500), included: false }]);
+    expect(items[0].included).toBe(true);
+  });
+});
@@ -5,6 +5,8 @@
  * that auto-populates from estimate data.
  */
 
+import type { NdeCoverage } from '../../engine/nde';
+
 export interface OfferProjectDetails {
   projectName: string;
   client: string;
@@ -99,6 +101,7 @@ export interface OfferHeatTreatment {
   pwhtShellside: boolean;
   pwhtTubeside: boolean;
   pwhtOther: string;
+  pwhtDetail?: string;      // Cycle wording from the PWHT estimate
 }
 
 export interface OfferPressureTesting {
@@ -108,6 +111,7 @@ export interface OfferPressureTesting {
   airTestTubeside: boolean;
   testPressure: string;
   testMedium: string;
+  testDetail?: string;      // Test wording from the pressure test estimate
 }
 
 export interface OfferSurfaceProtection {
@@ -163,10 +167,29 @@ export interface OfferPricingItem {
   unitPrice: number;
   total: number;
   included: boolean;
+  equipmentId?: string; // Set on lines generated from the estimate - one per equipment item
+}
+
+/**
+ * Lines the estimate regenerates - anything else was entered by hand
+ */
+export function isEstimateLine(item: OfferPricingItem): boolean {
+  return !!item.equipmentId;
+}
+
+/**
+ * Regenerated estimate lines keep the included flag of the line they replace
+ */
+export function keepIncluded(lines: OfferPricingItem[], previous: OfferPricingItem[]): OfferPricingItem[] {
+  return lines.map(line => {
+    const match = previous.find(p => isEstimateLine(p) && p.equipmentId === line.equipmentId);
+    return match ? { ...line, included: match.included } : line;
+  });
 }
 
 export interface OfferPricing {
   items: OfferPricingItem[];
+  autoFromEstimate: boolean; // Regenerate estimate lines from module hours and labour rates
   discount: number;
   discountDescription: string;
   subtotal: number;
@@ -269,6 +292,27 @@ export const DEFAULT_NDE: OfferNDE = {
   tubeWeldsDPI: { description: 'DPI of tube welds', coverage: 0 },
 };
 
+/**
+ * Offer NDE coverage by joint category and method, for the NDE planner
+ *
+ * Visual examination applies to every category. MPI/DPI lines are planned as
+ * MPI; tube welds as DPI.
+ */
+export function getNdeCoverage(stored?: Partial<OfferNDE>): NdeCoverage {
+  const nde = { ...DEFAULT_NDE, ...stored };
+  const VT = nde.visualExamination.coverage;
+  return {
+    longWelds: { VT, UT: nde.longWeldsUT.coverage, MPI: nde.longWeldsMPI.coverage },
+    circWelds: { VT, UT: nde.circWeldsUT.coverage, MPI: nde.circWeldsMPI.coverage },
+    nozzleShell: { VT, UT: nde.nozzleShellUT.coverage, MPI: nde.nozzleShellMPI.coverage },
+    nozzleFlange: { VT, RT: nde.nozzleFlangeRT.coverage },
+    liftingAttachments: { VT, MPI: nde.liftingAttachmentsMPI.coverage },
+    externalAttachments: { VT, MPI: nde.externalAttachmentsMPI.coverage },
+    internalAttachments: { VT, MPI: nde.internalAttachmentsMPI.coverage },
+    tubeWelds: { VT, DPI: nde.tubeWeldsDPI.coverage },
+  };
+}
+
 export const DEFAULT_HEAT_TREATMENT: OfferHeatTreatment = {
   pwhtShellside: false,
   pwhtTubeside: false,
@@ -334,6 +378,7 @@ export const DEFAULT_MATERIALS: OfferMaterials = {
 
 export const DEFAULT_PRICING: OfferPricing = {
   items: [],
+  autoFromEstimate: false,
   discount: 0,
   discountDescription: '',
   subtotal: 0,
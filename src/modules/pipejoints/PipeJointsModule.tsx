@@ -1,5 +1,5 @@
 import { useState, useMemo, useCallback, useEffect } from 'react';
-import { NumberInput } from '../../shared/components';
+import { NumberInput, WpsSelector, PreheatPanel } from '../../shared/components';
 import { useProject } from '../../project';
 import type { 
   PipeJointItem, 
@@ -8,32 +8,34 @@ import type {
   PipeJointSettings,
 } from './types';
 import { createNewPipeJoint } from './types';
-import { calculatePipeJoint, calculatePipeJointActivityCodes, getEffectiveSettings } from './engine';
+import {
+  calculatePipeJoint,
+  calculatePipeJointActivityCodes,
+  getEffectiveSettings,
+  applyPipeJointProcedure,
+  applyPipeJointPreheat,
+  applyPipeJointNde,
+} from './engine';
 import { getAllNPSSizes, getSchedulesForNPS, getPipeDimensions } from './pipeData';
+import { getPipeJointSettings } from './settings';
 import { PipeJointDiagram } from './components/PipeJointDiagram';
+import { sumItemDeposits } from '../../engine/consumables';
+import { sumItemNde } from '../../engine/nde';
+import { getNdeCoverage } from '../offer/types';
+import type { OfferData } from '../offer/types';
+import { resolveProcedure } from '../../engine/procedures';
 import './PipeJointsModule.css';
 
 type TabType = 'list' | 'editor';
 
-// Get pipe joint settings from localStorage (admin configured)
-function getPipeJointSettings(): PipeJointSettings {
-  try {
-    const stored = localStorage.getItem('pipeJointSettings');
-    if (stored) {
-      return JSON.parse(stored);
-    }
-  } catch {
-    // ignore
-  }
-  return { presets: [] };
-}
-
 export function PipeJointsModule() {
   const { getModuleData, setModuleData, updateModuleSummary, settings } = useProject();
   
   // Load module data from project
   const moduleData = getModuleData<PipeJointsModuleData>('pipejoints');
   const joints = moduleData?.joints || [];
+  const offerNde = getModuleData<OfferData>('offer')?.nde;
+  const ndeCoverage = useMemo(() => getNdeCoverage(offerNde), [offerNde]);
   
   // Load pipe joint settings (admin configured presets)
   const [pipeJointSettings, setPipeJointSettings] = useState<PipeJointSettings>(getPipeJointSettings);
@@ -65,13 +67,23 @@ export function PipeJointsModule() {
   // Calculate results for all joints
   const jointsWithResults = useMemo(() => {
     return joints.map(joint => {
-      const results = calculatePipeJoint(joint, pipeJointSettings, settings);
+      // WPS prep and processes override the preset; the stored joint keeps its own settings
+      const { item: resolved, settings: jointSettings, procedure } = resolveProcedure(joint, settings, applyPipeJointProcedure);
+      const calculated = calculatePipeJoint(resolved, pipeJointSettings, jointSettings);
+      // Calculated preheat and NDE go in as custom times, so the totals are recalculated with them
+      const { item: heated, preheat: preheatResult } = calculated
+        ? applyPipeJointPreheat(resolved, calculated, pipeJointSettings, jointSettings)
+        : { item: resolved, preheat: null };
+      const { item: inspected, nde: ndeResult } = calculated
+        ? applyPipeJointNde(heated, calculated, pipeJointSettings, ndeCoverage, jointSettings)
+        : { item: heated, nde: null };
+      const results = preheatResult || ndeResult ? calculatePipeJoint(inspected, pipeJointSettings, jointSettings) : calculated;
       const activityCodes = results 
-        ? calculatePipeJointActivityCodes(joint, results, pipeJointSettings)
+        ? calculatePipeJointActivityCodes(inspected, results, pipeJointSettings)
         : undefined;
-      return { ...joint, results: results || undefined, activityCodes };
+      return { ...joint, results: results || undefined, activityCodes, procedure, preheatResult, ndeResult };
     });
-  }, [joints, pipeJointSettings, settings]);
+  }, [joints, pipeJointSettings, settings, ndeCoverage]);
 
   // Update module summary
   useEffect(() => {
@@ -97,6 +109,8 @@ export function PipeJointsModule() {
       itemCount, 
       totalHours,
       activityBreakdown,
+      deposits: sumItemDeposits(jointsWithResults),
+      nde: sumItemNde(jointsWithResults),
     });
   }, [jointsWithResults, updateModuleSummary]);
 
@@ -175,7 +189,12 @@ export function PipeJointsModule() {
   );
   
   // Get effective settings for display
-  const effectiveSettings = currentJoint ? getEffectiveSettings(currentJoint, pipeJointSettings) : null;
+  const effectiveSettings = currentJoint
+    ? getEffectiveSettings(
+        currentJoint.procedure ? applyPipeJointProcedure(currentJoint, currentJoint.procedure) : currentJoint,
+        pipeJointSettings
+      )
+    : null;
 
   return (
     <div className="pipejoints-module">
@@ -378,6 +397,25 @@ export function PipeJointsModule() {
               </div>
             </section>
 
+            <section className="section">
+              <h3>📋 Weld Procedure</h3>
+              <WpsSelector
+                value={currentJoint.wpsNumber}
+                procedures={settings.weldProcedures}
+                thickness={currentDims?.wallThickness ?? 0}
+                onChange={(wpsNumber) => updateJoint(currentJoint.id, { wpsNumber })}
+              />
+            </section>
+
+            <section className="section">
+              <h3>🔥 Preheat</h3>
+              <PreheatPanel
+                value={currentJoint.preheat}
+                result={currentJoint.preheatResult}
+                onChange={(preheat) => updateJoint(currentJoint.id, { preheat })}
+              />
+            </section>
+
             {effectiveSettings && (
               <section className="section">
                 <h3>📐 Weld Configuration</h3>
@@ -410,7 +448,9 @@ export function PipeJointsModule() {
                   <input type="text" value={effectiveSettings.capProcess} disabled />
                 </div>
                 <p style={{ fontSize: '10px', color: '#8892b0', textAlign: 'center', marginTop: '8px' }}>
-                  Configure in Settings → Pipe Joint Settings
+                  {currentJoint.procedure
+                    ? `From ${currentJoint.procedure.number} - configure in Settings → Weld Procedures`
+                    : 'Configure in Settings → Pipe Joint Settings'}
                 </p>
               </section>
             )}
@@ -471,7 +511,7 @@ export function PipeJointsModule() {
                 </div>
                 <div className="act-row">
                   <label>Preheat</label>
-                  <span>{effectiveSettings?.preheatTime.toFixed(2) || 0}h</span>
+                  <span>{currentJoint.activityCodes?.PREHEAT.toFixed(2) || 0}h</span>
                 </div>
                 <div className="act-row calc">
                   <label>Root Pass</label>
@@ -485,9 +525,9 @@ export function PipeJointsModule() {
                   <label>Cap Pass</label>
                   <span>{currentJoint.results?.capTime.toFixed(2) || 0}h</span>
                 </div>
-                <div className="act-row">
+                <div className={`act-row ${currentJoint.ndeResult ? 'calc' : ''}`}>
                   <label>NDE</label>
-                  <span>{effectiveSettings?.ndeTime.toFixed(2) || 0}h</span>
+                  <span>{currentJoint.activityCodes?.NDE.toFixed(2) || 0}h</span>
                 </div>
               </div>
             </section>
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { calculatePipeJoint } from './engine';
+import { createNewPipeJoint } from './types';
+import { DEFAULT_SETTINGS } from '../../shared/settings/defaults';
+
+const NO_PRESETS = { presets: [] };
+
+describe('Pipe joints', () => {
+  it('always runs a root, a fill and a cap pass', () => {
+    // 1/2" SCH 40 - 2.77 mm wall: root and cap alone cover the groove
+    const results = calculatePipeJoint(createNewPipeJoint('PJ1', '1/2"', 'SCH 40'), NO_PRESETS, DEFAULT_SETTINGS);
+    const circumference = Math.PI * 21.3;
+
+    expect(results).not.toBeNull();
+    expect(results!.rootPasses).toBe(1);
+    expect(results!.fillPasses).toBe(1);
+    expect(results!.capPasses).toBe(1);
+    expect(results!.totalPasses).toBe(3);
+
+    // One SMAW fill pass at 120 mm/min, inside operator factor 1.3
+    expect(results!.fillTime).toBeCloseTo((circumference / 120) * 1.3 / 60, 6);
+  });
+
+  it('fills a heavy wall by volume', () => {
+    const results = calculatePipeJoint(createNewPipeJoint('PJ2', '2"', 'SCH 160'), NO_PRESETS, DEFAULT_SETTINGS);
+    expect(results!.fillPasses).toBeGreaterThan(1);
+    expect(results!.totalPasses).toBe(results!.rootPasses + results!.fillPasses + results!.capPasses);
+  });
+
+  it('skips the fill when no fill process is set', () => {
+    const item = { ...createNewPipeJoint('PJ3', '1/2"', 'SCH 40'), useCustomSettings: true, customSettings: { fillProcess: 'Skip' as const } };
+    const results = calculatePipeJoint(item, NO_PRESETS, DEFAULT_SETTINGS);
+    expect(results!.fillPasses).toBe(0);
+    expect(results!.fillTime).toBe(0);
+  });
+});
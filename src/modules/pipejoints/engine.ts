@@ -1,4 +1,4 @@
-import type { SharedSettings } from '../../shared/types';
+import type { SharedSettings, WeldProcedure } from '../../shared/types';
 import type { 
   PipeJointItem, 
   PipeJointResults, 
@@ -8,6 +8,17 @@ import type {
 } from './types';
 import { DEFAULT_PIPE_JOINT_PRESET } from './types';
 import { getPipeDimensions } from './pipeData';
+import {
+  calculateSectionArea,
+  calculateWeldRun,
+  veeSection,
+} from '../../engine/groove';
+import { getThicknessRates } from '../../engine/bands';
+import { addDeposit } from '../../engine/consumables';
+import { calculatePreheat, getPreheatHours } from '../../engine/preheat';
+import type { PreheatResult } from '../../engine/preheat';
+import { calculateNde } from '../../engine/nde';
+import type { NdeCoverage, NdeResult } from '../../engine/nde';
 
 /**
  * Get the effective settings for a pipe joint
@@ -54,69 +65,34 @@ export function getEffectiveSettings(
 }
 
 /**
- * Calculate weld volume for a single-V butt joint on pipe
- * 
- * Cross-section is a trapezoid:
- * - Bottom width = root gap
- * - Top width = root gap + 2 * (depth * tan(bevelAngle))
- * - Depth = wall thickness - root face
- * 
- * Plus root face rectangular area
+ * Pipe joint with the WPS prep and processes applied as custom settings
+ *
+ * Root, fill and cap follow the WPS layer sequence: the first layer roots,
+ * the second fills and the last caps. Activity times keep their own values.
  */
-function calculateWeldVolume(
-  od: number,
-  wallThickness: number,
-  rootGap: number,
-  rootFace: number,
-  bevelAngle: number
-): number {
-  const circumference = Math.PI * od;
-  
-  // Bevel depth (excluding root face)
-  const bevelDepth = wallThickness - rootFace;
-  
-  // Width at top of bevel
-  const bevelWidth = bevelDepth * Math.tan((bevelAngle * Math.PI) / 180);
-  const topWidth = rootGap + 2 * bevelWidth;
-  
-  // Trapezoidal area for bevel
-  const bevelArea = ((topWidth + rootGap) / 2) * bevelDepth;
-  
-  // Root face rectangular area
-  const rootFaceArea = rootGap * rootFace;
-  
-  // Total cross-sectional area
-  const totalArea = bevelArea + rootFaceArea;
-  
-  // Volume = area × circumference
-  return totalArea * circumference;
-}
-
-/**
- * Calculate number of passes for a given volume and process
- */
-function calculatePasses(
-  volume: number,
-  circumference: number,
-  beadH: number,
-  beadW: number
-): number {
-  const beadArea = beadH * beadW;
-  const volumePerPass = beadArea * circumference;
-  return Math.max(1, Math.ceil(volume / volumePerPass));
+export function applyPipeJointProcedure(item: PipeJointItem, procedure: WeldProcedure): PipeJointItem {
+  const { layers } = procedure;
+  const processAt = (index: number) => layers[Math.min(index, layers.length - 1)]?.process ?? procedure.backProcess;
+  return {
+    ...item,
+    useCustomSettings: true,
+    customSettings: {
+      ...(item.useCustomSettings ? item.customSettings : {}),
+      rootGap: procedure.rootGap,
+      rootFace: procedure.rootFace,
+      bevelAngle: procedure.bevelAngle,
+      rootProcess: processAt(0),
+      fillProcess: processAt(1),
+      capProcess: processAt(layers.length - 1),
+    },
+  };
 }
 
 /**
- * Calculate weld time for given passes and process
+ * Calculate weld time in hours from arc minutes and operator factor
  */
-function calculateWeldTime(
-  passes: number,
-  circumference: number,
-  travelSpeed: number,
-  operatorFactor: number
-): number {
-  const arcTimeMinutes = (circumference * passes) / travelSpeed;
-  return (arcTimeMinutes * operatorFactor) / 60; // Convert to hours
+function toWeldHours(arcMinutes: number, operatorFactor: number): number {
+  return (arcMinutes * operatorFactor) / 60;
 }
 
 /**
@@ -144,53 +120,49 @@ export function calculatePipeJoint(
     ndeTime,
   } = effectiveSettings;
   
-  const { beadSizes, travelSpeeds, operatorFactors } = sharedSettings;
+  const { beadSizes } = sharedSettings;
   
   const circumference = Math.PI * od;
-  const weldVolume = calculateWeldVolume(od, wallThickness, rootGap, rootFace, bevelAngle);
+  // Single-V butt joint: bevel runs from the root face to the outside surface
+  const weldVolume = calculateSectionArea(
+    veeSection(wallThickness - rootFace, bevelAngle, rootGap, rootFace)
+  ) * circumference;
   
-  // Determine thickness category for speeds
-  const speedCategory = wallThickness < 20 ? 'thin' : wallThickness <= 40 ? 'medium' : 'thick';
-  const speeds = travelSpeeds[speedCategory];
-  
-  // Determine operator factor range
-  const opRange = 
-    wallThickness < 12 ? 'range1' :
-    wallThickness < 18 ? 'range2' :
-    wallThickness < 25 ? 'range3' :
-    wallThickness < 35 ? 'range4' :
-    wallThickness < 50 ? 'range5' : 'range6';
+  // Speeds and operator factor for the wall thickness band
+  const { speeds, factors } = getThicknessRates(wallThickness, sharedSettings);
   
   // Use inside factor for pipe welding (similar to inside of vessel)
-  const opFactor = operatorFactors[opRange].inside;
+  const opFactor = factors.inside;
   
-  // Calculate root pass (first pass at root)
-  const rootBead = beadSizes[rootProcess as keyof typeof beadSizes];
-  const rootBeadArea = rootBead.h * rootBead.w;
+  // Calculate root pass (first pass at root) - always at least one pass
   const rootVolume = rootGap * rootFace * circumference; // Approximate root volume
-  const rootPasses = Math.max(1, Math.ceil(rootVolume / (rootBeadArea * circumference)));
-  const rootSpeed = speeds[rootProcess as keyof typeof speeds] || 80;
-  const rootTime = calculateWeldTime(rootPasses, circumference, rootSpeed, opFactor);
+  const root = calculateWeldRun(rootVolume, circumference, rootProcess, beadSizes, speeds, 1);
+  const rootPasses = root.passes;
+  const rootTime = toWeldHours(root.arcTime, opFactor);
   
-  // Calculate fill passes (bulk of the weld)
-  const fillBead = beadSizes[fillProcess as keyof typeof beadSizes];
+  // Calculate fill passes (bulk of the weld) - always at least one pass
+  const fillBead = fillProcess === 'Skip' ? { h: 0, w: 0 } : beadSizes[fillProcess];
   const remainingVolume = weldVolume - rootVolume;
   const capVolume = fillBead.h * fillBead.w * circumference; // One pass worth for cap
   const fillVolume = Math.max(0, remainingVolume - capVolume);
-  const fillPasses = calculatePasses(fillVolume, circumference, fillBead.h, fillBead.w);
-  const fillSpeed = speeds[fillProcess as keyof typeof speeds] || 100;
-  const fillTime = calculateWeldTime(fillPasses, circumference, fillSpeed, opFactor);
+  const fill = calculateWeldRun(fillVolume, circumference, fillProcess, beadSizes, speeds, 1);
+  const fillPasses = fill.passes;
+  const fillTime = toWeldHours(fill.arcTime, opFactor);
   
-  // Calculate cap pass
-  const capBead = beadSizes[capProcess as keyof typeof beadSizes];
-  const capPasses = Math.max(1, Math.ceil(capVolume / (capBead.h * capBead.w * circumference)));
-  const capSpeed = speeds[capProcess as keyof typeof speeds] || 100;
-  const capTime = calculateWeldTime(capPasses, circumference, capSpeed, opFactor);
+  // Calculate cap pass - always at least one pass
+  const cap = calculateWeldRun(capVolume, circumference, capProcess, beadSizes, speeds, 1);
+  const capPasses = cap.passes;
+  const capTime = toWeldHours(cap.arcTime, opFactor);
   
   const totalPasses = rootPasses + fillPasses + capPasses;
   const totalWeldTime = rootTime + fillTime + capTime;
   const totalTime = fitUpTime + preheatTime + totalWeldTime + ndeTime;
   
+  // Weld metal by process - the cap deposits whatever the fill leaves
+  let deposits = addDeposit({}, rootProcess, rootVolume, root.arcTime);
+  deposits = addDeposit(deposits, fillProcess, fillVolume, fill.arcTime);
+  deposits = addDeposit(deposits, capProcess, Math.max(0, remainingVolume - fillVolume), cap.arcTime);
+  
   return {
     circumference,
     weldVolume,
@@ -203,6 +175,68 @@ export function calculatePipeJoint(
     capTime,
     totalWeldTime,
     totalTime,
+    deposits,
+  };
+}
+
+/**
+ * Pipe joint with the calculated preheat time applied as a custom setting
+ *
+ * The joint is heated once around the full circumference before welding.
+ * Results must be recalculated from the returned item.
+ */
+export function applyPipeJointPreheat(
+  item: PipeJointItem,
+  results: PipeJointResults,
+  pipeJointSettings: PipeJointSettings,
+  sharedSettings: SharedSettings
+): { item: PipeJointItem; preheat: PreheatResult | null } {
+  const effectiveSettings = getEffectiveSettings(item, pipeJointSettings);
+  if (!item.preheat?.calculate || !effectiveSettings) return { item, preheat: null };
+
+  const preheat = calculatePreheat(
+    item.preheat, effectiveSettings.wallThickness, results.circumference, sharedSettings.preheat
+  );
+  return {
+    item: {
+      ...item,
+      useCustomSettings: true,
+      customSettings: {
+        ...(item.useCustomSettings ? item.customSettings : {}),
+        preheatTime: getPreheatHours(preheat, results.totalWeldTime),
+      },
+    },
+    preheat,
+  };
+}
+
+/**
+ * Pipe joint with the calculated NDE time applied as a custom setting
+ *
+ * Pipe joints are planned as flange-to-neck welds around the full
+ * circumference. Results must be recalculated from the returned item.
+ */
+export function applyPipeJointNde(
+  item: PipeJointItem,
+  results: PipeJointResults,
+  pipeJointSettings: PipeJointSettings,
+  coverage: NdeCoverage | null,
+  sharedSettings: SharedSettings
+): { item: PipeJointItem; nde: NdeResult | null } {
+  const effectiveSettings = getEffectiveSettings(item, pipeJointSettings);
+  if (!sharedSettings.nde.calculate || !coverage || !effectiveSettings) return { item, nde: null };
+
+  const nde = calculateNde([{ category: 'nozzleFlange', length: results.circumference }], coverage, sharedSettings.nde);
+  return {
+    item: {
+      ...item,
+      useCustomSettings: true,
+      customSettings: {
+        ...(item.useCustomSettings ? item.customSettings : {}),
+        ndeTime: nde.hours,
+      },
+    },
+    nde,
   };
 }
 
@@ -218,9 +252,9 @@ export function calculatePipeJointActivityCodes(
   
   return {
     FPIPE: effectiveSettings?.fitUpTime || 0.5,
-    PREHEAT: effectiveSettings?.preheatTime || 0.25,
+    PREHEAT: effectiveSettings?.preheatTime ?? 0.25,
     WPIPE: results.totalWeldTime,
-    NDE: effectiveSettings?.ndeTime || 0.5,
+    NDE: effectiveSettings?.ndeTime ?? 0.5,
   };
 }
 
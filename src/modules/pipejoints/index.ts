@@ -2,6 +2,7 @@ export { PipeJointsModule } from './PipeJointsModule';
 export * from './types';
 export * from './engine';
 export * from './pipeData';
+export * from './settings';
 
 
 
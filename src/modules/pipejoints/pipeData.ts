@@ -394,6 +394,13 @@ export function getAllNPSSizes(): string[] {
   return PIPE_DATA.map(p => p.nps);
 }
 
+/**
+ * NPS with the OD closest to a given diameter
+ */
+export function getNearestNPS(od: number): string {
+  return PIPE_DATA.reduce((best, p) => Math.abs(p.od - od) < Math.abs(best.od - od) ? p : best).nps;
+}
+
 /**
  * Get available schedules for a given NPS
  */
@@ -0,0 +1,16 @@
+import type { PipeJointSettings } from './types';
+
+/**
+ * Pipe joint presets from localStorage (admin configured)
+ */
+export function getPipeJointSettings(): PipeJointSettings {
+  try {
+    const stored = localStorage.getItem('pipeJointSettings');
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch {
+    // ignore
+  }
+  return { presets: [] };
+}
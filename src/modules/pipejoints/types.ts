@@ -1,4 +1,4 @@
-import type { WeldProcess } from '../../shared/types';
+import type { WeldProcess, DepositByProcess, PreheatInput } from '../../shared/types';
 
 /**
  * Pipe Joint Types
@@ -50,6 +50,8 @@ export interface PipeJointItem {
   nps: string;              // Selected pipe size
   schedule: string;         // Selected schedule
   quantity: number;         // Number of identical joints
+  wpsNumber?: string;       // WPS reference - prep and processes come from the library
+  preheat?: PreheatInput;   // Calculated preheat - hand-entered hours when absent
   
   // Override flag - if true, user has customized values
   useCustomSettings: boolean;
@@ -82,6 +84,9 @@ export interface PipeJointResults {
   capTime: number;
   totalWeldTime: number;
   totalTime: number;        // Including fit-up, preheat, NDE
+
+  // Weld metal by process (consumables)
+  deposits: DepositByProcess;
 }
 
 /**
@@ -0,0 +1,219 @@
+import { useMemo, useEffect } from 'react';
+import type { PressureTestMethod } from '../../shared/types';
+import { NumberInput } from '../../shared/components';
+import { useProject } from '../../project';
+import { formatMoney } from '../../engine/costing';
+import type { LongWeldsModuleData } from '../longwelds/types';
+import type { CircWeldsModuleData } from '../circwelds/types';
+import type { HeadsModuleData } from '../heads/types';
+import type { NozzlesModuleData } from '../nozzles/types';
+import type { PressureTestInput, PressureTestModuleData } from './types';
+import { DEFAULT_PRESSURE_TEST_INPUT, PRESSURE_TEST_METHOD_LABELS } from './types';
+import { calculatePressureTest, getPressureTestVessel } from './engine';
+import { PressureTestChart } from './components/PressureTestChart';
+import './PressureTestModule.css';
+
+export function PressureTestModule() {
+  const { currentEquipment, getModuleData, setModuleData, updateModuleSummary, settings } = useProject();
+
+  const test: PressureTestInput = { ...DEFAULT_PRESSURE_TEST_INPUT, ...getModuleData<PressureTestModuleData>('pressuretest')?.test };
+  const longWelds = getModuleData<LongWeldsModuleData>('longwelds')?.welds;
+  const circWelds = getModuleData<CircWeldsModuleData>('circwelds')?.welds;
+  const heads = getModuleData<HeadsModuleData>('heads')?.items;
+  const nozzles = getModuleData<NozzlesModuleData>('nozzles')?.nozzles;
+
+  const updateTest = (updates: Partial<PressureTestInput>) => {
+    setModuleData<PressureTestModuleData>('pressuretest', { test: { ...test, ...updates } });
+  };
+
+  // Shell and heads come from the vessel definition, else the weld modules; nozzles from the nozzles module
+  const definition = currentEquipment?.vessel;
+  const vessel = useMemo(
+    () => getPressureTestVessel(longWelds || [], circWelds || [], heads || [], nozzles || [], definition),
+    [longWelds, circWelds, heads, nozzles, definition]
+  );
+  const fromVessel = vessel.source === 'vessel';
+
+  const result = useMemo(
+    () => calculatePressureTest(test, vessel, settings),
+    [test.required, test.method, test.pressure, test.insideDiameter, test.shellLength, vessel, settings]
+  );
+
+  // Update module summary - one test, gaskets and water as a direct cost
+  useEffect(() => {
+    updateModuleSummary('pressuretest', {
+      moduleId: 'pressuretest',
+      moduleName: 'Pressure Test',
+      itemCount: result ? 1 : 0,
+      totalHours: result?.labourHours ?? 0,
+      activityBreakdown: result ? { TEST: result.labourHours } : {},
+      directCost: result?.directCost ?? 0,
+    });
+  }, [result, updateModuleSummary]);
+
+  return (
+    <div className="pressure-test-module">
+      <div className="module-toolbar">
+        <div className="toolbar-left">
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={test.required}
+              onChange={(e) => updateTest({ required: e.target.checked })}
+            />
+            Pressure test required
+          </label>
+        </div>
+        <div className="toolbar-right">
+          <span className="stats">
+            {result ? `${(result.volume / 1000).toFixed(1)} m³ • ${result.durationHours.toFixed(1)} hr test • ${result.labourHours.toFixed(1)} hrs` : 'No test'}
+          </span>
+        </div>
+      </div>
+
+      <div className="editor-grid">
+        <div className="editor-panel">
+          <section className="section">
+            <h3>💧 Test</h3>
+            <div className="input-group">
+              <label>Method</label>
+              <select value={test.method} onChange={(e) => updateTest({ method: e.target.value as PressureTestMethod })}>
+                {(Object.keys(PRESSURE_TEST_METHOD_LABELS) as PressureTestMethod[]).map(m => (
+                  <option key={m} value={m}>{PRESSURE_TEST_METHOD_LABELS[m]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="input-group">
+              <label>Test Pressure (kPa g)</label>
+              <NumberInput value={test.pressure} step={50} min={0} onChange={(v) => updateTest({ pressure: v })} />
+            </div>
+          </section>
+
+          <section className="section">
+            <h3>📐 Vessel</h3>
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={test.insideDiameter !== null}
+                onChange={(e) => updateTest({ insideDiameter: e.target.checked ? vessel.insideDiameter || 1000 : null })}
+              />
+              Inside diameter
+            </label>
+            {test.insideDiameter !== null ? (
+              <div className="input-group">
+                <NumberInput value={test.insideDiameter} step={10} min={0} onChange={(v) => updateTest({ insideDiameter: v })} />
+              </div>
+            ) : (
+              <p className="side-note">{fromVessel ? 'From the vessel definition' : 'From circ welds and heads'}: {vessel.insideDiameter > 0 ? `${vessel.insideDiameter}mm` : 'none'}</p>
+            )}
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={test.shellLength !== null}
+                onChange={(e) => updateTest({ shellLength: e.target.checked ? vessel.shellLength || 1000 : null })}
+              />
+              Shell length
+            </label>
+            {test.shellLength !== null ? (
+              <div className="input-group">
+                <NumberInput value={test.shellLength} step={50} min={0} onChange={(v) => updateTest({ shellLength: v })} />
+              </div>
+            ) : (
+              <p className="side-note">{fromVessel ? 'From the shell courses' : 'From long seams'}: {vessel.shellLength > 0 ? `${vessel.shellLength}mm` : 'none'}</p>
+            )}
+          </section>
+
+          <section className="section">
+            <h3>🔩 Blind Flanges</h3>
+            {result && result.flangeSizes.length > 0 ? (
+              <div className="activity-list">
+                {result.flangeSizes.map(size => (
+                  <div key={size.nozzleOD} className="act-row">
+                    <label>{size.nozzleOD}mm OD nozzle</label>
+                    <span>{size.count} flange{size.count === 1 ? '' : 's'} + gasket{size.count === 1 ? '' : 's'}</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="side-note">Blind flanges are counted from the nozzle list.</p>
+            )}
+          </section>
+        </div>
+
+        <div className="editor-panel center">
+          {result ? (
+            <>
+              <PressureTestChart phases={result.phases} pressure={test.pressure} />
+              <p className="diagram-caption">
+                {PRESSURE_TEST_METHOD_LABELS[test.method]} - {(result.volume / 1000).toFixed(2)} m³ at {test.pressure} kPa(g)
+              </p>
+            </>
+          ) : (
+            <p className="diagram-caption">
+              {!test.required
+                ? 'No pressure test - tick "Pressure test required" to estimate one'
+                : 'Add circ welds or heads and long welds, or enter the inside diameter and shell length'}
+            </p>
+          )}
+        </div>
+
+        <div className="editor-panel">
+          {result && (
+            <>
+              <div className="result-card">
+                <h3>TEST LABOUR</h3>
+                <div className="value">{result.labourHours.toFixed(1)}</div>
+                <div className="unit">hours</div>
+              </div>
+
+              <div className="results-summary">
+                <div className="result-row">
+                  <span>Fill</span>
+                  <span>{result.phases.fill.toFixed(2)} hrs</span>
+                </div>
+                <div className="result-row">
+                  <span>Pressurise</span>
+                  <span>{result.phases.pressurise.toFixed(2)} hrs</span>
+                </div>
+                <div className="result-row">
+                  <span>Hold</span>
+                  <span>{result.phases.hold.toFixed(2)} hrs</span>
+                </div>
+                <div className="result-row">
+                  <span>{test.method === 'hydro' ? 'Drain' : 'Vent'}</span>
+                  <span>{result.phases.drain.toFixed(2)} hrs</span>
+                </div>
+                <div className="result-row">
+                  <span>Dry</span>
+                  <span>{result.phases.dry.toFixed(2)} hrs</span>
+                </div>
+                <div className="result-row highlight">
+                  <span>Duration</span>
+                  <span>{result.durationHours.toFixed(2)} hrs</span>
+                </div>
+                <div className="result-row">
+                  <span>Blind Flanges / Gaskets</span>
+                  <span>{result.blindFlanges} / {result.gaskets}</span>
+                </div>
+                <div className="result-row highlight">
+                  <span>Gaskets + Water</span>
+                  <span>{formatMoney(result.directCost)}</span>
+                </div>
+              </div>
+
+              <section className="section">
+                <h3>📐 Derivation</h3>
+                <ul className="pressure-test-derivation">
+                  {result.derivation.map((step, i) => <li key={i}>{step}</li>)}
+                </ul>
+                {result.warnings.map((warning, i) => (
+                  <p key={i} className="pressure-test-warning">⚠ {warning}</p>
+                ))}
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
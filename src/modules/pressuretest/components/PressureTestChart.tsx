@@ -0,0 +1,81 @@
+import type { PressureTestPhases } from '../types';
+
+interface PressureTestChartProps {
+  phases: PressureTestPhases;
+  pressure: number;
+}
+
+/**
+ * Pressure-time chart of the fill, pressurise, hold, drain and dry phases
+ */
+export function PressureTestChart({ phases, pressure }: PressureTestChartProps) {
+  const { fill, pressurise, hold, drain, dry } = phases;
+  const totalHours = fill + pressurise + hold + drain + dry;
+
+  // SVG dimensions
+  const viewBoxWidth = 400;
+  const viewBoxHeight = 260;
+  const margin = { top: 24, right: 20, bottom: 36, left: 52 };
+  const plotWidth = viewBoxWidth - margin.left - margin.right;
+  const plotHeight = viewBoxHeight - margin.top - margin.bottom;
+
+  const maxPressure = pressure > 0 ? pressure * 1.2 : 1;
+  const x = (hours: number) => margin.left + (totalHours > 0 ? (hours / totalHours) * plotWidth : 0);
+  const y = (kPa: number) => margin.top + plotHeight - (kPa / maxPressure) * plotHeight;
+
+  const points = [
+    [0, 0],
+    [fill, 0],
+    [fill + pressurise, pressure],
+    [fill + pressurise + hold, pressure],
+    [fill + pressurise + hold + drain, 0],
+    [totalHours, 0],
+  ].map(([h, p]) => `${x(h)},${y(p)}`).join(' ');
+
+  // Phase bands along the time axis
+  const bands = [
+    { label: 'Fill', start: 0, hours: fill, color: '#4dabf7' },
+    { label: 'Pressurise', start: fill, hours: pressurise, color: '#ff6b35' },
+    { label: 'Hold', start: fill + pressurise, hours: hold, color: '#e67700' },
+    { label: 'Drain', start: fill + pressurise + hold, hours: drain, color: '#74c0fc' },
+    { label: 'Dry', start: fill + pressurise + hold + drain, hours: dry, color: '#adb5bd' },
+  ].filter(b => b.hours > 0);
+
+  return (
+    <svg viewBox={`0 0 ${viewBoxWidth} ${viewBoxHeight}`} className="pressure-test-chart">
+      {bands.map(band => (
+        <g key={band.label}>
+          <rect
+            x={x(band.start)} y={margin.top}
+            width={x(band.start + band.hours) - x(band.start)} height={plotHeight}
+            fill={band.color} opacity={0.12}
+          />
+          <text x={(x(band.start) + x(band.start + band.hours)) / 2} y={margin.top - 8} fontSize={9} textAnchor="middle" fill="#333">
+            {band.label} {band.hours.toFixed(1)}h
+          </text>
+        </g>
+      ))}
+
+      {/* Test pressure */}
+      <line
+        x1={margin.left} x2={viewBoxWidth - margin.right}
+        y1={y(pressure)} y2={y(pressure)}
+        stroke="#e67700" strokeWidth={1} strokeDasharray="4 3"
+      />
+      <text x={margin.left - 6} y={y(pressure) + 3} fontSize={9} textAnchor="end" fill="#e67700">{pressure}</text>
+
+      <polyline points={points} fill="none" stroke="#ff6b35" strokeWidth={2.5} />
+
+      {/* Axes */}
+      <line x1={margin.left} x2={margin.left} y1={margin.top} y2={margin.top + plotHeight} stroke="#333" />
+      <line x1={margin.left} x2={viewBoxWidth - margin.right} y1={margin.top + plotHeight} y2={margin.top + plotHeight} stroke="#333" />
+      <text x={margin.left - 6} y={y(0) + 3} fontSize={9} textAnchor="end" fill="#666">0</text>
+      <text x={margin.left + plotWidth / 2} y={viewBoxHeight - 8} fontSize={10} textAnchor="middle" fill="#333">
+        {totalHours.toFixed(1)} hours
+      </text>
+      <text x={12} y={margin.top + plotHeight / 2} fontSize={10} textAnchor="middle" fill="#333" transform={`rotate(-90 12 ${margin.top + plotHeight / 2})`}>
+        kPa(g)
+      </text>
+    </svg>
+  );
+}
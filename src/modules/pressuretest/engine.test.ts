@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { getHeadVolume, getFlangeSizes, calculatePressureTest, getPressureTestVessel } from './engine';
+import { DEFAULT_PRESSURE_TEST_INPUT } from './types';
+import type { PressureTestVessel } from './types';
+import { DEFAULT_SETTINGS } from '../../shared/settings/defaults';
+import { DEFAULT_VESSEL, DEFAULT_VESSEL_COURSE } from '../../project/types';
+
+const SETTINGS = {
+  ...DEFAULT_SETTINGS,
+  pressureTest: {
+    fillRate: 100,
+    pumpRate: 10,
+    compressorRate: 1000,
+    drainRate: 200,
+    holdMinutes: 30,
+    dryHoursPerM3: 0.5,
+    setupHours: 2,
+    flangeHours: 0.5,
+    attendancePct: 20,
+    gasketCost: 10,
+    waterCost: 2,
+  },
+};
+
+// 2m ID × 5m shell with two 2:1 heads, no straight flange
+const VESSEL: PressureTestVessel = {
+  source: 'welds',
+  insideDiameter: 2000,
+  shellLength: 5000,
+  heads: [{ tag: 'H1', headType: 'ellipsoidal', insideDiameter: 2000, straightFlange: 0, quantity: 2 }],
+  nozzles: [
+    { nozzleOD: 168, quantity: 2 },
+    { nozzleOD: 610, quantity: 1 },
+    { nozzleOD: 168, quantity: 1 },
+  ],
+};
+
+describe('Pressure Test', () => {
+  it('calculates head volumes from the head type', () => {
+    expect(getHeadVolume({ headType: 'ellipsoidal', insideDiameter: 2000, straightFlange: 0 })).toBeCloseTo(Math.PI / 3 * 1000, 6);
+    expect(getHeadVolume({ headType: 'hemispherical', insideDiameter: 2000, straightFlange: 0 })).toBeCloseTo(Math.PI * 2000 / 3, 6);
+    expect(getHeadVolume({ headType: 'ellipsoidal', insideDiameter: 2000, straightFlange: 50 }))
+      .toBeCloseTo(Math.PI / 3 * 1000 + Math.PI * 50, 6);
+  });
+
+  it('counts blind flanges by nozzle size', () => {
+    expect(getFlangeSizes(VESSEL.nozzles)).toEqual([
+      { nozzleOD: 610, count: 1 },
+      { nozzleOD: 168, count: 3 },
+    ]);
+  });
+
+  it('times a hydrotest from the vessel volume', () => {
+    const result = calculatePressureTest(DEFAULT_PRESSURE_TEST_INPUT, VESSEL, SETTINGS)!;
+    const volume = Math.PI * 5000 + 2 * Math.PI / 3 * 1000;   // L
+
+    expect(result.volume).toBeCloseTo(volume, 6);
+    expect(result.phases.fill).toBeCloseTo(volume / 100 / 60, 6);
+    expect(result.phases.pressurise).toBe(0.25);
+    expect(result.phases.hold).toBe(0.5);
+    expect(result.phases.drain).toBeCloseTo(volume / 200 / 60, 6);
+    expect(result.phases.dry).toBeCloseTo(volume / 1000 * 0.5, 6);
+    expect(result.blindFlanges).toBe(4);
+    expect(result.labourHours).toBeCloseTo(
+      2 + 4 * 0.5 + 0.25 + 0.5 + (result.phases.fill + result.phases.drain + result.phases.dry) * 0.2, 6
+    );
+    expect(result.directCost).toBeCloseTo(4 * 10 + volume / 1000 * 2, 6);
+  });
+
+  it('pressurises a pneumatic test with free air and skips fill, drain and dry', () => {
+    const result = calculatePressureTest({ ...DEFAULT_PRESSURE_TEST_INPUT, method: 'pneumatic' }, VESSEL, SETTINGS)!;
+    const freeAir = result.volume * 1500 / 101.325;
+
+    expect(result.phases.fill).toBe(0);
+    expect(result.phases.dry).toBe(0);
+    expect(result.phases.pressurise).toBeCloseTo(freeAir / 1000 / 60, 6);
+    expect(result.phases.drain).toBeCloseTo(result.phases.pressurise / 2, 6);
+    expect(result.directCost).toBe(40);
+  });
+
+  it('takes the shell and heads from the vessel definition', () => {
+    const definition = {
+      ...DEFAULT_VESSEL,
+      insideDiameter: 1800,
+      courses: [
+        { ...DEFAULT_VESSEL_COURSE, id: 'c1', tag: 'C1', width: 2000 },
+        { ...DEFAULT_VESSEL_COURSE, id: 'c2', tag: 'C2', width: 1500 },
+      ],
+      heads: [
+        { id: 'h1', tag: 'H1', headType: 'ellipsoidal' as const, thickness: 20, straightFlange: 50 },
+        { id: 'h2', tag: 'H2', headType: 'ellipsoidal' as const, thickness: 20, straightFlange: 50 },
+      ],
+    };
+    expect(getPressureTestVessel([], [], [], [], definition)).toEqual({
+      source: 'vessel',
+      insideDiameter: 1800,
+      shellLength: 3500,
+      heads: [
+        { tag: 'H1', headType: 'ellipsoidal', insideDiameter: 1800, straightFlange: 50, quantity: 1 },
+        { tag: 'H2', headType: 'ellipsoidal', insideDiameter: 1800, straightFlange: 50, quantity: 1 },
+      ],
+      nozzles: [],
+    });
+
+    // A definition without courses leaves the shell to the weld modules
+    expect(getPressureTestVessel([], [], [], [], DEFAULT_VESSEL)).toMatchObject({ source: 'welds', shellLength: 0 });
+  });
+
+  it('returns null when not required or the shell is unknown', () => {
+    expect(calculatePressureTest({ ...DEFAULT_PRESSURE_TEST_INPUT, required: false }, VESSEL, SETTINGS)).toBeNull();
+    expect(calculatePressureTest(DEFAULT_PRESSURE_TEST_INPUT, { ...VESSEL, shellLength: 0 }, SETTINGS)).toBeNull();
+    expect(calculatePressureTest({ ...DEFAULT_PRESSURE_TEST_INPUT, shellLength: 3000 }, { ...VESSEL, shellLength: 0 }, SETTINGS)?.shellLength).toBe(3000);
+  });
+});
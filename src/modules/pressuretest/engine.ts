@@ -0,0 +1,204 @@
+import type { SharedSettings } from '../../shared/types';
+import type { LongWeldItem } from '../longwelds/types';
+import type { CircWeldItem } from '../circwelds/types';
+import type { HeadItem, HeadType } from '../heads/types';
+import { HEAD_TYPE_LABELS } from '../heads/types';
+import type { NozzleItem } from '../nozzles/types';
+import type { VesselDefinition } from '../../project/types';
+import type {
+  PressureTestInput,
+  PressureTestHead,
+  PressureTestVessel,
+  PressureTestFlangeSize,
+  PressureTestResult,
+} from './types';
+
+/**
+ * Dished volume of one head as a multiple of ID³, excluding the straight flange
+ *
+ * - Ellipsoidal 2:1: π/24
+ * - Hemispherical: π/12
+ * - Torispherical (F&D, crown radius = ID, 6% knuckle): ≈ 0.0809
+ */
+export const HEAD_VOLUME_FACTORS: Record<HeadType, number> = {
+  ellipsoidal: Math.PI / 24,
+  hemispherical: Math.PI / 12,
+  torispherical: 0.0809,
+};
+
+// Water bulk modulus less an allowance for the shell stretching under pressure
+const EFFECTIVE_BULK_MODULUS = 2000;   // MPa
+const ATMOSPHERE = 101.325;            // kPa
+const MIN_PRESSURISE = 0.25;           // hours - staged up to test pressure
+
+/**
+ * Internal volume of one head in litres, including the straight flange
+ */
+export function getHeadVolume(head: Pick<PressureTestHead, 'headType' | 'insideDiameter' | 'straightFlange'>): number {
+  const { headType, insideDiameter: d, straightFlange } = head;
+  return (HEAD_VOLUME_FACTORS[headType] * d ** 3 + (Math.PI / 4) * d ** 2 * straightFlange) / 1e6;
+}
+
+/**
+ * Shell ID and length, heads and nozzles for the test
+ *
+ * A vessel definition with courses gives the ID, the shell length as the sum
+ * of the course widths and one head per defined head. Without one the shell is
+ * guessed from the weld modules: the largest circ weld or head ID, and one
+ * seam length per long weld - a course welded from several plates has its seam
+ * quantity above one but is still one course. Nozzles always come from the
+ * nozzles module.
+ */
+export function getPressureTestVessel(
+  longWelds: LongWeldItem[],
+  circWelds: CircWeldItem[],
+  heads: HeadItem[],
+  nozzles: NozzleItem[],
+  definition?: VesselDefinition
+): PressureTestVessel {
+  const testNozzles = nozzles.map(n => ({ nozzleOD: n.geometry.nozzleOD, quantity: n.quantity }));
+
+  if (definition && definition.courses.length > 0) {
+    const { insideDiameter } = definition;
+    return {
+      source: 'vessel',
+      insideDiameter,
+      shellLength: definition.courses.reduce((sum, c) => sum + c.width, 0),
+      heads: definition.heads.map(h => ({
+        tag: h.tag,
+        headType: h.headType,
+        insideDiameter,
+        straightFlange: h.straightFlange,
+        quantity: 1,
+      })),
+      nozzles: testNozzles,
+    };
+  }
+
+  const diameters = [
+    ...circWelds.map(w => w.geometry.insideDiameter),
+    ...heads.map(h => h.geometry.insideDiameter),
+  ];
+  return {
+    source: 'welds',
+    insideDiameter: diameters.length > 0 ? Math.max(...diameters) : 0,
+    shellLength: longWelds.reduce((sum, w) => sum + w.geometry.weldLength, 0),
+    heads: heads.map(h => ({
+      tag: h.tag,
+      headType: h.geometry.headType,
+      insideDiameter: h.geometry.insideDiameter,
+      straightFlange: h.geometry.straightFlange,
+      quantity: h.quantity,
+    })),
+    nozzles: testNozzles,
+  };
+}
+
+/**
+ * Blind flanges needed per nozzle size, largest first
+ */
+export function getFlangeSizes(nozzles: PressureTestVessel['nozzles']): PressureTestFlangeSize[] {
+  const counts = new Map<number, number>();
+  nozzles.forEach(n => counts.set(n.nozzleOD, (counts.get(n.nozzleOD) ?? 0) + n.quantity));
+  return [...counts.entries()]
+    .map(([nozzleOD, count]) => ({ nozzleOD, count }))
+    .sort((a, b) => b.nozzleOD - a.nozzleOD);
+}
+
+/**
+ * Pressure test duration, labour and costs for the vessel
+ *
+ * A hydrotest pumps in the water the vessel takes up under pressure; a
+ * pneumatic test compresses the free air volume and vents at about twice the
+ * compressor rate. The crew is charged for setup, blind flanges, pressurising
+ * and the hold, and a share of the fill, drain and dry time.
+ * Returns null when no test is required or the volume is unknown.
+ */
+export function calculatePressureTest(
+  input: PressureTestInput,
+  vessel: PressureTestVessel,
+  settings: SharedSettings
+): PressureTestResult | null {
+  if (!input.required) return null;
+
+  const { pressureTest: rates } = settings;
+  const insideDiameter = input.insideDiameter ?? vessel.insideDiameter;
+  const shellLength = input.shellLength ?? vessel.shellLength;
+  if (insideDiameter <= 0 || shellLength <= 0) return null;
+
+  const shellVolume = ((Math.PI / 4) * insideDiameter ** 2 * shellLength) / 1e6;
+  const headVolume = vessel.heads.reduce((sum, h) => sum + getHeadVolume(h) * h.quantity, 0);
+  const volume = shellVolume + headVolume;
+  const isHydro = input.method === 'hydro';
+
+  const pumped = isHydro
+    ? volume * (input.pressure / 1000) / EFFECTIVE_BULK_MODULUS   // L of water
+    : volume * (input.pressure / ATMOSPHERE);                     // L of free air
+  const pressurise = Math.max(MIN_PRESSURISE, pumped / (isHydro ? rates.pumpRate : rates.compressorRate) / 60);
+  const phases = {
+    fill: isHydro ? volume / rates.fillRate / 60 : 0,
+    pressurise,
+    hold: rates.holdMinutes / 60,
+    drain: isHydro ? volume / rates.drainRate / 60 : pressurise / 2,
+    dry: isHydro ? (volume / 1000) * rates.dryHoursPerM3 : 0,
+  };
+  const durationHours = phases.fill + phases.pressurise + phases.hold + phases.drain + phases.dry;
+
+  const flangeSizes = getFlangeSizes(vessel.nozzles);
+  const blindFlanges = flangeSizes.reduce((sum, f) => sum + f.count, 0);
+  const gaskets = blindFlanges;
+
+  const unattended = phases.fill + phases.drain + phases.dry;
+  const labourHours = rates.setupHours + blindFlanges * rates.flangeHours
+    + phases.pressurise + phases.hold + unattended * (rates.attendancePct / 100);
+  const waterCost = isHydro ? (volume / 1000) * rates.waterCost : 0;
+  const directCost = gaskets * rates.gasketCost + waterCost;
+
+  const derivation = [
+    `Shell ${insideDiameter}mm ID × ${shellLength}mm${input.shellLength === null ? (vessel.source === 'vessel' ? ' (courses)' : ' (long seams)') : ''} = ${shellVolume.toFixed(0)}L`,
+    ...vessel.heads.map(h => `${h.tag}: ${HEAD_TYPE_LABELS[h.headType]} × ${h.quantity} = ${(getHeadVolume(h) * h.quantity).toFixed(0)}L`),
+    `Volume ${(volume / 1000).toFixed(2)}m³`,
+    isHydro
+      ? `Fill at ${rates.fillRate}L/min = ${phases.fill.toFixed(2)}h`
+      : `No fill - tested with air`,
+    isHydro
+      ? `Pump ${pumped.toFixed(1)}L to ${input.pressure}kPa at ${rates.pumpRate}L/min = ${phases.pressurise.toFixed(2)}h`
+      : `Compress ${(pumped / 1000).toFixed(1)}m³ free air at ${rates.compressorRate}L/min = ${phases.pressurise.toFixed(2)}h`,
+    `Hold ${rates.holdMinutes}min`,
+    isHydro
+      ? `Drain at ${rates.drainRate}L/min = ${phases.drain.toFixed(2)}h, dry ${phases.dry.toFixed(2)}h`
+      : `Vent ${phases.drain.toFixed(2)}h`,
+    `${blindFlanges} blind flanges × ${rates.flangeHours}h + ${rates.setupHours}h setup`,
+    `Labour ${labourHours.toFixed(2)}h - pressurise and hold attended, ${rates.attendancePct}% of fill, drain and dry`,
+  ];
+
+  const warnings: string[] = [];
+  if (vessel.heads.length === 0) warnings.push('No heads in this project - shell volume only');
+  if (blindFlanges === 0) warnings.push('No nozzles in this project - no blind flanges counted');
+  if (!isHydro) warnings.push('Pneumatic tests need an exclusion zone and approval of the stored energy');
+
+  return {
+    insideDiameter,
+    shellLength,
+    shellVolume,
+    headVolume,
+    volume,
+    phases,
+    durationHours,
+    blindFlanges,
+    gaskets,
+    flangeSizes,
+    labourHours,
+    directCost,
+    derivation,
+    warnings,
+  };
+}
+
+/**
+ * Pressure test wording for the offer
+ */
+export function describePressureTest(input: PressureTestInput, result: PressureTestResult): string {
+  return `${input.method === 'hydro' ? 'Hydrostatic' : 'Pneumatic'} test at ${input.pressure}kPa(g), ` +
+    `${(result.volume / 1000).toFixed(1)}m³, ${result.blindFlanges} blind flanges and test gaskets`;
+}
@@ -0,0 +1,3 @@
+export { PressureTestModule } from './PressureTestModule';
+export * from './types';
+export * from './engine';
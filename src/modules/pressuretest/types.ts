@@ -0,0 +1,86 @@
+import type { PressureTestMethod } from '../../shared/types';
+import type { HeadType } from '../heads/types';
+
+/**
+ * Pressure Test Types
+ *
+ * One test per vessel. The internal volume comes from the shell ID and length
+ * plus the heads, and every nozzle is closed with a blind flange and a test
+ * gasket. A hydrotest fills, pressurises, holds, drains and dries the vessel;
+ * a pneumatic test pressurises with air, holds and vents.
+ */
+
+export interface PressureTestInput {
+  required: boolean;
+  method: PressureTestMethod;
+  pressure: number;                   // kPa(g) - test pressure
+  insideDiameter: number | null;      // mm - null uses the vessel definition, else the largest circ weld or head ID
+  shellLength: number | null;         // mm - null uses the vessel courses, else the long seam lengths
+}
+
+// Heads closing the shell, from the vessel definition or the heads module
+export interface PressureTestHead {
+  tag: string;
+  headType: HeadType;
+  insideDiameter: number;    // mm
+  straightFlange: number;    // mm
+  quantity: number;
+}
+
+// Vessel dimensions and nozzles gathered from the other modules
+export interface PressureTestVessel {
+  source: 'vessel' | 'welds';// Shell and heads from the vessel definition, or guessed from the weld modules
+  insideDiameter: number;    // mm - vessel ID, or the largest circ weld or head ID, 0 if none
+  shellLength: number;       // mm - sum of the courses or of the long seams, 0 if none
+  heads: PressureTestHead[];
+  nozzles: { nozzleOD: number; quantity: number }[];
+}
+
+// Blind flanges and test gaskets needed for one nozzle size
+export interface PressureTestFlangeSize {
+  nozzleOD: number;          // mm
+  count: number;
+}
+
+export interface PressureTestPhases {
+  fill: number;              // hours
+  pressurise: number;
+  hold: number;
+  drain: number;             // Drain, or vent for a pneumatic test
+  dry: number;
+}
+
+export interface PressureTestResult {
+  insideDiameter: number;    // mm
+  shellLength: number;       // mm
+  shellVolume: number;       // L
+  headVolume: number;        // L
+  volume: number;            // L
+  phases: PressureTestPhases;
+  durationHours: number;     // All phases end to end
+  blindFlanges: number;
+  gaskets: number;
+  flangeSizes: PressureTestFlangeSize[];
+  labourHours: number;       // TEST
+  directCost: number;        // $ - gaskets and water
+  derivation: string[];
+  warnings: string[];
+}
+
+// Module data stored in project
+export interface PressureTestModuleData {
+  test: PressureTestInput;
+}
+
+export const PRESSURE_TEST_METHOD_LABELS: Record<PressureTestMethod, string> = {
+  hydro: 'Hydrostatic - water',
+  pneumatic: 'Pneumatic - air',
+};
+
+export const DEFAULT_PRESSURE_TEST_INPUT: PressureTestInput = {
+  required: true,
+  method: 'hydro',
+  pressure: 1500,
+  insideDiameter: null,
+  shellLength: null,
+};
@@ -0,0 +1,211 @@
+import { useMemo, useEffect } from 'react';
+import type { PNumber, PwhtMethod } from '../../shared/types';
+import { NumberInput } from '../../shared/components';
+import { useProject } from '../../project';
+import { formatMoney } from '../../engine/costing';
+import { P_NUMBER_GROUPS } from '../../engine/preheat';
+import type { LongWeldsModuleData } from '../longwelds/types';
+import type { CircWeldsModuleData } from '../circwelds/types';
+import type { PwhtInput, PwhtModuleData } from './types';
+import { DEFAULT_PWHT_INPUT, PWHT_METHOD_LABELS } from './types';
+import { calculatePwht, getPwhtSeams, PWHT_RULES } from './engine';
+import { PwhtCycleChart } from './components/PwhtCycleChart';
+import './PwhtModule.css';
+
+export function PwhtModule() {
+  const { getModuleData, setModuleData, updateModuleSummary, settings } = useProject();
+
+  const pwht: PwhtInput = { ...DEFAULT_PWHT_INPUT, ...getModuleData<PwhtModuleData>('pwht')?.pwht };
+  const longWelds = getModuleData<LongWeldsModuleData>('longwelds')?.welds;
+  const circWelds = getModuleData<CircWeldsModuleData>('circwelds')?.welds;
+
+  const updatePwht = (updates: Partial<PwhtInput>) => {
+    setModuleData<PwhtModuleData>('pwht', { pwht: { ...pwht, ...updates } });
+  };
+
+  // Seams come from the long and circ weld modules
+  const seams = useMemo(() => getPwhtSeams(longWelds || [], circWelds || []), [longWelds, circWelds]);
+
+  const result = useMemo(
+    () => calculatePwht(pwht, seams, settings),
+    [pwht.required, pwht.method, pwht.pNumber, pwht.soakTemperature, pwht.thicknessOverride, seams, settings]
+  );
+
+  // Update module summary - one heat treatment cycle, energy as a direct cost
+  useEffect(() => {
+    updateModuleSummary('pwht', {
+      moduleId: 'pwht',
+      moduleName: 'PWHT',
+      itemCount: result ? 1 : 0,
+      totalHours: result?.labourHours ?? 0,
+      activityBreakdown: result ? { PWHT: result.labourHours } : {},
+      directCost: result?.energyCost ?? 0,
+    });
+  }, [result, updateModuleSummary]);
+
+  const minTemperature = PWHT_RULES[pwht.pNumber].minTemperature;
+
+  return (
+    <div className="pwht-module">
+      <div className="module-toolbar">
+        <div className="toolbar-left">
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={pwht.required}
+              onChange={(e) => updatePwht({ required: e.target.checked })}
+            />
+            PWHT required
+          </label>
+        </div>
+        <div className="toolbar-right">
+          <span className="stats">
+            {result ? `${result.cycle.cycleHours.toFixed(1)} hr cycle • ${result.labourHours.toFixed(1)} hrs • ${formatMoney(result.energyCost)} energy` : 'No PWHT'}
+          </span>
+        </div>
+      </div>
+
+      <div className="editor-grid">
+        <div className="editor-panel">
+          <section className="section">
+            <h3>🔥 Heat Treatment</h3>
+            <div className="input-group">
+              <label>Method</label>
+              <select value={pwht.method} onChange={(e) => updatePwht({ method: e.target.value as PwhtMethod })}>
+                {(Object.keys(PWHT_METHOD_LABELS) as PwhtMethod[]).map(m => (
+                  <option key={m} value={m}>{PWHT_METHOD_LABELS[m]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="input-group">
+              <label>Material</label>
+              <select value={pwht.pNumber} onChange={(e) => updatePwht({ pNumber: e.target.value as PNumber })}>
+                {(Object.keys(P_NUMBER_GROUPS) as PNumber[]).map(p => (
+                  <option key={p} value={p}>{P_NUMBER_GROUPS[p].label}</option>
+                ))}
+              </select>
+            </div>
+          </section>
+
+          <section className="section">
+            <h3>🌡️ Overrides</h3>
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={pwht.soakTemperature !== null}
+                onChange={(e) => updatePwht({ soakTemperature: e.target.checked ? minTemperature ?? 600 : null })}
+              />
+              Soak temperature
+            </label>
+            {pwht.soakTemperature !== null ? (
+              <div className="input-group">
+                <NumberInput value={pwht.soakTemperature} step={5} min={0} onChange={(v) => updatePwht({ soakTemperature: v })} />
+              </div>
+            ) : (
+              <p className="side-note">Code minimum: {minTemperature !== null ? `${minTemperature}°C` : 'none'}</p>
+            )}
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={pwht.thicknessOverride !== null}
+                onChange={(e) => updatePwht({ thicknessOverride: e.target.checked ? result?.thickness ?? 25 : null })}
+              />
+              Governing thickness
+            </label>
+            {pwht.thicknessOverride !== null ? (
+              <div className="input-group">
+                <NumberInput value={pwht.thicknessOverride} step={1} min={0} onChange={(v) => updatePwht({ thicknessOverride: v })} />
+              </div>
+            ) : (
+              <p className="side-note">From the thickest seam</p>
+            )}
+          </section>
+
+          <section className="section">
+            <h3>📏 Seams</h3>
+            {seams.length === 0 ? (
+              <p className="side-note">No long or circ welds in this project.</p>
+            ) : (
+              <div className="activity-list">
+                {seams.map((seam, i) => (
+                  <div key={i} className={`act-row ${result && seam.thickness === result.thickness ? 'calc' : ''}`}>
+                    <label>{seam.tag} ({seam.kind}) × {seam.quantity}</label>
+                    <span>{seam.thickness}mm</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+        </div>
+
+        <div className="editor-panel center">
+          {result ? (
+            <>
+              <PwhtCycleChart cycle={result.cycle} ambient={settings.preheat.ambient} />
+              <p className="diagram-caption">
+                {PWHT_METHOD_LABELS[pwht.method]} - governing thickness {result.thickness}mm
+              </p>
+            </>
+          ) : (
+            <p className="diagram-caption">
+              {!pwht.required
+                ? 'PWHT not required - tick "PWHT required" to estimate a cycle'
+                : minTemperature === null && pwht.soakTemperature === null
+                  ? `${pwht.pNumber} has no code soak temperature - enter one to estimate a cycle`
+                  : 'Add long or circ welds, or enter a governing thickness'}
+            </p>
+          )}
+        </div>
+
+        <div className="editor-panel">
+          {result && (
+            <>
+              <div className="result-card">
+                <h3>PWHT LABOUR</h3>
+                <div className="value">{result.labourHours.toFixed(1)}</div>
+                <div className="unit">hours</div>
+              </div>
+
+              <div className="results-summary">
+                <div className="result-row">
+                  <span>Heat</span>
+                  <span>{result.cycle.heatHours.toFixed(2)} hrs</span>
+                </div>
+                <div className="result-row">
+                  <span>Soak</span>
+                  <span>{result.cycle.soakHours.toFixed(2)} hrs</span>
+                </div>
+                <div className="result-row">
+                  <span>Cool</span>
+                  <span>{result.cycle.coolHours.toFixed(2)} hrs</span>
+                </div>
+                <div className="result-row highlight">
+                  <span>Cycle</span>
+                  <span>{result.cycle.cycleHours.toFixed(2)} hrs</span>
+                </div>
+                <div className="result-row">
+                  <span>Energy</span>
+                  <span>{result.energy.toFixed(0)} kWh</span>
+                </div>
+                <div className="result-row highlight">
+                  <span>Energy Cost</span>
+                  <span>{formatMoney(result.energyCost)}</span>
+                </div>
+              </div>
+
+              <section className="section">
+                <h3>📐 Derivation</h3>
+                <ul className="pwht-derivation">
+                  {result.derivation.map((step, i) => <li key={i}>{step}</li>)}
+                </ul>
+                {result.warnings.map((warning, i) => (
+                  <p key={i} className="pwht-warning">⚠ {warning}</p>
+                ))}
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
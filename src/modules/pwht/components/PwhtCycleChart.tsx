@@ -0,0 +1,76 @@
+import type { PwhtCycle } from '../types';
+
+interface PwhtCycleChartProps {
+  cycle: PwhtCycle;
+  ambient: number;
+}
+
+/**
+ * Time-temperature chart of the heat, soak and cool cycle
+ */
+export function PwhtCycleChart({ cycle, ambient }: PwhtCycleChartProps) {
+  const { soakTemperature, controlTemperature, heatHours, soakHours, coolHours, cycleHours } = cycle;
+
+  // SVG dimensions
+  const viewBoxWidth = 400;
+  const viewBoxHeight = 260;
+  const margin = { top: 20, right: 20, bottom: 36, left: 48 };
+  const plotWidth = viewBoxWidth - margin.left - margin.right;
+  const plotHeight = viewBoxHeight - margin.top - margin.bottom;
+
+  const maxTemp = Math.ceil((soakTemperature + 50) / 100) * 100;
+  const x = (hours: number) => margin.left + (cycleHours > 0 ? (hours / cycleHours) * plotWidth : 0);
+  const y = (temp: number) => margin.top + plotHeight - (temp / maxTemp) * plotHeight;
+
+  const points = [
+    [0, ambient],
+    [heatHours, soakTemperature],
+    [heatHours + soakHours, soakTemperature],
+    [cycleHours, Math.max(controlTemperature, ambient)],
+  ].map(([h, t]) => `${x(h)},${y(t)}`).join(' ');
+
+  const gridTemps = Array.from({ length: maxTemp / 100 + 1 }, (_, i) => i * 100);
+
+  return (
+    <svg viewBox={`0 0 ${viewBoxWidth} ${viewBoxHeight}`} className="pwht-chart">
+      {gridTemps.map(t => (
+        <g key={t}>
+          <line x1={margin.left} x2={viewBoxWidth - margin.right} y1={y(t)} y2={y(t)} stroke="#ddd" strokeWidth={1} />
+          <text x={margin.left - 6} y={y(t) + 3} fontSize={9} textAnchor="end" fill="#666">{t}</text>
+        </g>
+      ))}
+
+      {/* Control temperature - rates limited above */}
+      <line
+        x1={margin.left} x2={viewBoxWidth - margin.right}
+        y1={y(controlTemperature)} y2={y(controlTemperature)}
+        stroke="#e67700" strokeWidth={1} strokeDasharray="4 3"
+      />
+      <text x={viewBoxWidth - margin.right} y={y(controlTemperature) - 4} fontSize={9} textAnchor="end" fill="#e67700">
+        {controlTemperature}°C control
+      </text>
+
+      <polyline points={points} fill="none" stroke="#ff6b35" strokeWidth={2.5} />
+
+      <text x={x(heatHours / 2)} y={y(soakTemperature) - 8} fontSize={10} textAnchor="middle" fill="#333">
+        Heat {heatHours.toFixed(1)}h
+      </text>
+      <text x={x(heatHours + soakHours / 2)} y={y(soakTemperature) - 8} fontSize={10} textAnchor="middle" fill="#333" fontWeight={600}>
+        Soak {soakTemperature}°C × {soakHours.toFixed(1)}h
+      </text>
+      <text x={x(heatHours + soakHours + coolHours / 2)} y={y(soakTemperature) + 16} fontSize={10} textAnchor="middle" fill="#333">
+        Cool {coolHours.toFixed(1)}h
+      </text>
+
+      {/* Axes */}
+      <line x1={margin.left} x2={margin.left} y1={margin.top} y2={margin.top + plotHeight} stroke="#333" />
+      <line x1={margin.left} x2={viewBoxWidth - margin.right} y1={margin.top + plotHeight} y2={margin.top + plotHeight} stroke="#333" />
+      <text x={margin.left + plotWidth / 2} y={viewBoxHeight - 8} fontSize={10} textAnchor="middle" fill="#333">
+        {cycleHours.toFixed(1)} hours
+      </text>
+      <text x={12} y={margin.top + plotHeight / 2} fontSize={10} textAnchor="middle" fill="#333" transform={`rotate(-90 12 ${margin.top + plotHeight / 2})`}>
+        °C
+      </text>
+    </svg>
+  );
+}
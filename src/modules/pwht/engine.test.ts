@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getSoakHours,
+  getHeatingRate,
+  getCoolingRate,
+  calculatePwhtCycle,
+  calculatePwht,
+} from './engine';
+import { DEFAULT_PWHT_INPUT } from './types';
+import type { PwhtSeam } from './types';
+import { DEFAULT_SETTINGS } from '../../shared/settings/defaults';
+
+const SETTINGS = {
+  ...DEFAULT_SETTINGS,
+  preheat: { ...DEFAULT_SETTINGS.preheat, ambient: 25 },
+  pwht: {
+    controlTemperature: 425,
+    freeHeatingRate: 200,
+    attendancePct: 10,
+    electricityRate: 0.5,
+    methods: {
+      furnace: { power: 100, soakLoadPct: 50, setupHours: 4 },
+      localBand: { power: 10, soakLoadPct: 50, setupHours: 2 },
+    },
+  },
+};
+
+const SEAMS: PwhtSeam[] = [
+  { tag: 'LS1', kind: 'long', thickness: 40, length: 3000, quantity: 2 },
+  { tag: 'CS1', kind: 'circ', thickness: 30, length: 1000 * Math.PI, quantity: 3 },
+];
+
+const REQUIRED = { ...DEFAULT_PWHT_INPUT, required: true };
+
+describe('PWHT', () => {
+  describe('code rules', () => {
+    it('holds 1h per 25mm up to the break, then 15min per 25mm', () => {
+      expect(getSoakHours('P1', 5)).toBe(0.25);
+      expect(getSoakHours('P1', 50)).toBe(2);
+      expect(getSoakHours('P1', 100)).toBe(2.5);
+      expect(getSoakHours('P4', 100)).toBe(4);
+    });
+
+    it('limits heating and cooling rates by thickness', () => {
+      expect(getHeatingRate(10)).toBe(222);
+      expect(getHeatingRate(50)).toBe(110);
+      expect(getHeatingRate(200)).toBe(56);
+      expect(getCoolingRate(50)).toBe(140);
+    });
+  });
+
+  describe('calculatePwhtCycle', () => {
+    it('heats freely to the control temperature, then at the limited rate', () => {
+      const cycle = calculatePwhtCycle('P1', 625, 50, SETTINGS.pwht, 25);
+
+      // 400°C at 200°C/h + 200°C at 110°C/h
+      expect(cycle.heatHours).toBeCloseTo(2 + 200 / 110, 6);
+      expect(cycle.soakHours).toBe(2);
+      expect(cycle.coolHours).toBeCloseTo(200 / 140, 6);
+      expect(cycle.cycleHours).toBeCloseTo(cycle.heatHours + 2 + cycle.coolHours, 6);
+    });
+  });
+
+  describe('calculatePwht', () => {
+    it('uses the thickest seam in a furnace', () => {
+      const result = calculatePwht(REQUIRED, SEAMS, SETTINGS)!;
+
+      expect(result.thickness).toBe(40);
+      expect(result.cycle.soakTemperature).toBe(595);
+      expect(result.energy).toBeCloseTo(100 * (result.cycle.heatHours + result.cycle.soakHours * 0.5), 6);
+      expect(result.energyCost).toBeCloseTo(result.energy * 0.5, 6);
+      expect(result.labourHours).toBeCloseTo(4 + result.cycle.cycleHours * 0.1, 6);
+    });
+
+    it('sizes local bands on the circ seams only', () => {
+      const result = calculatePwht({ ...REQUIRED, method: 'localBand' }, SEAMS, SETTINGS)!;
+
+      expect(result.thickness).toBe(30);
+      expect(result.bands).toBe(3);
+      expect(result.power).toBeCloseTo(10 * Math.PI * 3, 6);
+      expect(result.labourHours).toBeCloseTo(2 * 3 + result.cycle.cycleHours * 0.1, 6);
+      expect(result.warnings).toHaveLength(1);
+    });
+
+    it('returns null when not required or without a thickness or soak temperature', () => {
+      expect(calculatePwht(DEFAULT_PWHT_INPUT, SEAMS, SETTINGS)).toBeNull();
+      expect(calculatePwht(REQUIRED, [], SETTINGS)).toBeNull();
+      expect(calculatePwht({ ...REQUIRED, pNumber: 'P8' }, SEAMS, SETTINGS)).toBeNull();
+      expect(calculatePwht({ ...REQUIRED, thicknessOverride: 20 }, [], SETTINGS)?.thickness).toBe(20);
+    });
+  });
+});
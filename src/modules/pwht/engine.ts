@@ -0,0 +1,191 @@
+import type { PNumber, PwhtSettings, SharedSettings } from '../../shared/types';
+import type { LongWeldItem } from '../longwelds/types';
+import type { CircWeldItem } from '../circwelds/types';
+import type { PwhtInput, PwhtSeam, PwhtCycle, PwhtResult } from './types';
+import { PWHT_METHOD_LABELS } from './types';
+
+/**
+ * PWHT code rules (after ASME VIII Div 1 UCS-56)
+ *
+ * - Minimum soak temperature by material group - P8 does not normally need PWHT
+ * - Hold 1h per 25mm up to the break thickness (15 min minimum), then the break
+ *   hold plus 15 min per additional 25mm
+ * - Above the control temperature, heating is limited to 5500/t °C/h (222 max)
+ *   and cooling to 7000/t °C/h (278 max), neither required below 56 °C/h
+ */
+export const PWHT_RULES: Record<PNumber, { minTemperature: number | null; holdBreak: number }> = {
+  P1: { minTemperature: 595, holdBreak: 50 },
+  P3: { minTemperature: 595, holdBreak: 125 },
+  P4: { minTemperature: 650, holdBreak: 125 },
+  P5A: { minTemperature: 675, holdBreak: 125 },
+  P8: { minTemperature: null, holdBreak: 125 },
+};
+
+const MIN_RATE = 56;        // °C/h
+const MIN_HOLD = 0.25;      // hours
+
+/**
+ * Soak hold time for a material group and governing thickness
+ */
+export function getSoakHours(pNumber: PNumber, thickness: number): number {
+  const { holdBreak } = PWHT_RULES[pNumber];
+  if (thickness <= holdBreak) return Math.max(MIN_HOLD, thickness / 25);
+  return holdBreak / 25 + 0.25 * ((thickness - holdBreak) / 25);
+}
+
+/**
+ * Heating rate limit above the control temperature
+ */
+export function getHeatingRate(thickness: number): number {
+  return Math.min(222, Math.max(MIN_RATE, 5500 / thickness));
+}
+
+/**
+ * Cooling rate limit above the control temperature
+ */
+export function getCoolingRate(thickness: number): number {
+  return Math.min(278, Math.max(MIN_RATE, 7000 / thickness));
+}
+
+/**
+ * Heat, soak and cool times for one cycle
+ *
+ * Below the control temperature the vessel heats at the free rate and cools
+ * in still air, which is not counted.
+ */
+export function calculatePwhtCycle(
+  pNumber: PNumber,
+  soakTemperature: number,
+  thickness: number,
+  settings: PwhtSettings,
+  ambient: number
+): PwhtCycle {
+  const { controlTemperature, freeHeatingRate } = settings;
+  const heatingRate = getHeatingRate(thickness);
+  const coolingRate = getCoolingRate(thickness);
+  const controlled = Math.max(0, soakTemperature - Math.max(controlTemperature, ambient));
+  const free = Math.max(0, Math.min(controlTemperature, soakTemperature) - ambient);
+
+  const heatHours = (freeHeatingRate > 0 ? free / freeHeatingRate : 0) + controlled / heatingRate;
+  const soakHours = getSoakHours(pNumber, thickness);
+  const coolHours = controlled / coolingRate;
+
+  return {
+    soakTemperature,
+    controlTemperature,
+    heatingRate,
+    coolingRate,
+    heatHours,
+    soakHours,
+    coolHours,
+    cycleHours: heatHours + soakHours + coolHours,
+  };
+}
+
+/**
+ * Seams from the long and circ weld items - circ seam length is π × ID
+ */
+export function getPwhtSeams(longWelds: LongWeldItem[], circWelds: CircWeldItem[]): PwhtSeam[] {
+  return [
+    ...longWelds.map(w => ({
+      tag: w.tag,
+      kind: 'long' as const,
+      thickness: w.geometry.shellThickness,
+      length: w.geometry.weldLength,
+      quantity: w.quantity,
+    })),
+    ...circWelds.map(w => ({
+      tag: w.tag,
+      kind: 'circ' as const,
+      thickness: w.geometry.shellThickness,
+      length: Math.PI * w.geometry.insideDiameter,
+      quantity: w.quantity,
+    })),
+  ];
+}
+
+/**
+ * PWHT cycle, energy and labour for the vessel
+ *
+ * A furnace heats the whole vessel at its installed power. Local heaters run
+ * one band per circ seam at the same time, sized per metre of seam. Heating
+ * draws full power and soaking a share of it; the furnace is off while cooling.
+ * Returns null when PWHT is not required, there are no seams, or no soak
+ * temperature applies.
+ */
+export function calculatePwht(
+  input: PwhtInput,
+  seams: PwhtSeam[],
+  settings: SharedSettings
+): PwhtResult | null {
+  if (!input.required) return null;
+
+  const { pwht } = settings;
+  const isLocal = input.method === 'localBand';
+  const treated = isLocal ? seams.filter(s => s.kind === 'circ') : seams;
+  const thickest = treated.reduce<PwhtSeam | null>((max, s) => (!max || s.thickness > max.thickness ? s : max), null);
+  const thickness = input.thicknessOverride ?? thickest?.thickness ?? 0;
+  const soakTemperature = input.soakTemperature ?? PWHT_RULES[input.pNumber].minTemperature;
+  if (thickness <= 0 || soakTemperature === null) return null;
+
+  const cycle = calculatePwhtCycle(input.pNumber, soakTemperature, thickness, pwht, settings.preheat.ambient);
+  const method = pwht.methods[input.method];
+
+  const bands = isLocal ? treated.reduce((sum, s) => sum + s.quantity, 0) : 0;
+  const bandLength = treated.reduce((sum, s) => sum + (s.length / 1000) * s.quantity, 0); // m
+  const power = isLocal ? method.power * bandLength : method.power;
+  const energy = power * (cycle.heatHours + cycle.soakHours * (method.soakLoadPct / 100));
+  const setupHours = isLocal ? method.setupHours * bands : method.setupHours;
+  const labourHours = setupHours + cycle.cycleHours * (pwht.attendancePct / 100);
+
+  const { holdBreak } = PWHT_RULES[input.pNumber];
+  const derivation = [
+    input.thicknessOverride !== null
+      ? `Governing thickness ${thickness}mm (entered)`
+      : `Governing thickness ${thickness}mm (${thickest?.tag})`,
+    `${input.pNumber} soak ${soakTemperature}°C for ${cycle.soakHours.toFixed(2)}h - ${
+      thickness <= holdBreak ? '1h per 25mm' : `${holdBreak / 25}h + 15min per 25mm over ${holdBreak}mm`
+    }`,
+    `Heat to ${pwht.controlTemperature}°C at ${pwht.freeHeatingRate}°C/h, then ${cycle.heatingRate.toFixed(0)}°C/h = ${cycle.heatHours.toFixed(2)}h`,
+    `Cool to ${pwht.controlTemperature}°C at ${cycle.coolingRate.toFixed(0)}°C/h = ${cycle.coolHours.toFixed(2)}h, still air below`,
+    isLocal
+      ? `${bands} bands, ${bandLength.toFixed(1)}m × ${method.power}kW/m = ${power.toFixed(0)}kW`
+      : `Furnace ${power}kW`,
+    `${energy.toFixed(0)}kWh × $${pwht.electricityRate}/kWh = $${(energy * pwht.electricityRate).toFixed(0)}`,
+    `Labour ${setupHours.toFixed(2)}h setup + ${pwht.attendancePct}% attendance = ${labourHours.toFixed(2)}h`,
+  ];
+
+  const warnings: string[] = [];
+  const longSeams = seams.filter(s => s.kind === 'long');
+  if (isLocal && longSeams.length > 0) {
+    warnings.push(`Local bands treat circ seams only - ${longSeams.length} long seam item(s) need a furnace`);
+  }
+  const minTemperature = PWHT_RULES[input.pNumber].minTemperature;
+  if (minTemperature === null) {
+    warnings.push(`${input.pNumber} does not normally need PWHT`);
+  } else if (soakTemperature < minTemperature) {
+    warnings.push(`${soakTemperature}°C is below the ${minTemperature}°C minimum for ${input.pNumber}`);
+  }
+
+  return {
+    thickness,
+    cycle,
+    bands,
+    power,
+    energy,
+    energyCost: energy * pwht.electricityRate,
+    labourHours,
+    derivation,
+    warnings,
+  };
+}
+
+/**
+ * Heat treatment wording for the offer
+ */
+export function describePwht(input: PwhtInput, result: PwhtResult): string {
+  const { cycle } = result;
+  return `${PWHT_METHOD_LABELS[input.method]}: soak at ${cycle.soakTemperature}°C for ${cycle.soakHours.toFixed(2)}h ` +
+    `(governing thickness ${result.thickness}mm), heating ≤${cycle.heatingRate.toFixed(0)}°C/h and ` +
+    `cooling ≤${cycle.coolingRate.toFixed(0)}°C/h above ${cycle.controlTemperature}°C`;
+}
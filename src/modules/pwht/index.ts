@@ -0,0 +1,3 @@
+export { PwhtModule } from './PwhtModule';
+export * from './types';
+export * from './engine';
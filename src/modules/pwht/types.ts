@@ -0,0 +1,70 @@
+import type { PNumber, PwhtMethod } from '../../shared/types';
+
+/**
+ * Post-Weld Heat Treatment (PWHT) Types
+ *
+ * One heat treatment cycle per vessel. The governing thickness comes from the
+ * thickest long or circ seam unless it is overridden. The cycle is heat to
+ * soak temperature, hold, and cool back to the control temperature - rates
+ * above the control temperature are limited by the thickness.
+ */
+
+export interface PwhtInput {
+  required: boolean;
+  method: PwhtMethod;
+  pNumber: PNumber;
+  soakTemperature: number | null;     // °C - null uses the code minimum for the material
+  thicknessOverride: number | null;   // mm - null uses the thickest seam
+}
+
+/**
+ * Seams from the long and circ weld modules
+ */
+export interface PwhtSeam {
+  tag: string;
+  kind: 'long' | 'circ';
+  thickness: number;         // mm
+  length: number;            // mm - weld length, or circumference for circ seams
+  quantity: number;
+}
+
+export interface PwhtCycle {
+  soakTemperature: number;   // °C
+  controlTemperature: number; // °C - rates are limited above this
+  heatingRate: number;       // °C/h - above the control temperature
+  coolingRate: number;       // °C/h - above the control temperature
+  heatHours: number;
+  soakHours: number;
+  coolHours: number;
+  cycleHours: number;
+}
+
+export interface PwhtResult {
+  thickness: number;         // mm - governing thickness
+  cycle: PwhtCycle;
+  bands: number;             // Local bands, 0 in a furnace
+  power: number;             // kW
+  energy: number;            // kWh
+  energyCost: number;        // $
+  labourHours: number;       // Setup plus attendance - PWHT
+  derivation: string[];
+  warnings: string[];
+}
+
+// Module data stored in project
+export interface PwhtModuleData {
+  pwht: PwhtInput;
+}
+
+export const PWHT_METHOD_LABELS: Record<PwhtMethod, string> = {
+  furnace: 'Furnace - whole vessel',
+  localBand: 'Local band - circ seams',
+};
+
+export const DEFAULT_PWHT_INPUT: PwhtInput = {
+  required: false,
+  method: 'furnace',
+  pNumber: 'P1',
+  soakTemperature: null,
+  thicknessOverride: null,
+};
@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import { useProject } from '../../project';
+import { nextRevisionLabel } from '../../project/storage';
+import type { ProjectSnapshot } from '../../project/types';
+import { calculateCost, formatMoney } from '../../engine/costing';
+import { getJobTotals } from '../../engine/equipment';
+import { compareRevisions } from '../../engine/revisions';
+import type { ChangeKind } from '../../engine/revisions';
+import './RevisionsModule.css';
+
+// The project as it stands now, unsaved edits included
+const WORKING_COPY = 'current';
+
+const CHANGE_LABELS: Record<ChangeKind, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+};
+
+const formatDelta = (value: number, digits = 1) => `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+export function RevisionsModule() {
+  const { currentProject, settings, addRevision } = useProject();
+  const revisions = currentProject?.revisions ?? [];
+
+  const [reason, setReason] = useState('');
+  const [fromId, setFromId] = useState(() => revisions[revisions.length - 1]?.id ?? WORKING_COPY);
+  const [toId, setToId] = useState(WORKING_COPY);
+
+  if (!currentProject) return null;
+
+  const getSnapshot = (id: string): ProjectSnapshot =>
+    revisions.find(r => r.id === id)?.snapshot ?? currentProject;
+  const getName = (id: string) => {
+    const revision = revisions.find(r => r.id === id);
+    return revision ? `Rev ${revision.label}` : 'Working copy';
+  };
+  const getSell = (snapshot: ProjectSnapshot) => {
+    const totals = getJobTotals(snapshot);
+    return calculateCost(totals.activityBreakdown, settings.labourRates, totals.directCost).total;
+  };
+
+  const handleAddRevision = () => {
+    addRevision(reason.trim());
+    setReason('');
+  };
+
+  const from = getSnapshot(fromId);
+  const to = getSnapshot(toId);
+  const comparison = compareRevisions(from, to);
+  const sellDelta = getSell(to) - getSell(from);
+  const hasChanges = comparison.equipment.length > 0 || comparison.modules.length > 0 || comparison.activities.length > 0;
+
+  return (
+    <div className="revisions-module">
+      <div className="revisions-header">
+        <div>
+          <h2>Revisions</h2>
+          <p>Issued copies of the estimate - each one is kept as it stood</p>
+        </div>
+      </div>
+
+      <section className="revisions-panel">
+        <h3>Issue Revision</h3>
+        <div className="revision-form">
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder={revisions.length === 0 ? 'e.g. Issued for tender' : 'e.g. Client added N7, nozzle schedule rev 2'}
+          />
+          <button className="btn-revision" onClick={handleAddRevision} disabled={!reason.trim()}>
+            Issue Rev {nextRevisionLabel(revisions)}
+          </button>
+        </div>
+        <p className="revision-hint">Saves the project and keeps a copy of it as it stands now.</p>
+
+        {revisions.length === 0 ? (
+          <div className="revisions-empty">No revisions issued yet</div>
+        ) : (
+          <table className="revisions-table">
+            <thead>
+              <tr>
+                <th>Rev</th>
+                <th>Issued</th>
+                <th>Reason</th>
+                <th>Hours</th>
+                <th>Sell</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...revisions].reverse().map(revision => (
+                <tr key={revision.id}>
+                  <td className="emphasis">{revision.label}</td>
+                  <td>{new Date(revision.createdAt).toLocaleDateString()}</td>
+                  <td>{revision.reason}</td>
+                  <td>{getJobTotals(revision.snapshot).totalHours.toFixed(1)}</td>
+                  <td>{formatMoney(getSell(revision.snapshot))}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className="revisions-panel">
+        <h3>Compare</h3>
+        <div className="compare-select">
+          <select value={fromId} onChange={(e) => setFromId(e.target.value)}>
+            {revisions.map(r => <option key={r.id} value={r.id}>Rev {r.label}</option>)}
+            <option value={WORKING_COPY}>Working copy</option>
+          </select>
+          <span>→</span>
+          <select value={toId} onChange={(e) => setToId(e.target.value)}>
+            {revisions.map(r => <option key={r.id} value={r.id}>Rev {r.label}</option>)}
+            <option value={WORKING_COPY}>Working copy</option>
+          </select>
+        </div>
+
+        <div className="compare-totals">
+          <div>
+            <span className="label">{getName(fromId)}</span>
+            <span className="value">{comparison.fromHours.toFixed(1)} hrs</span>
+          </div>
+          <div>
+            <span className="label">{getName(toId)}</span>
+            <span className="value">{comparison.toHours.toFixed(1)} hrs</span>
+          </div>
+          <div>
+            <span className="label">Change</span>
+            <span className="value">
+              {formatDelta(comparison.toHours - comparison.fromHours)} hrs • {sellDelta < 0 ? '-' : '+'}{formatMoney(Math.abs(sellDelta))}
+            </span>
+          </div>
+        </div>
+
+        {!hasChanges && <div className="revisions-empty">No differences</div>}
+
+        {comparison.equipment.length > 0 && (
+          <div className="change-group">
+            <h4>Equipment</h4>
+            {comparison.equipment.map(change => (
+              <div key={change.id} className="change-row">
+                <span className={`change-kind ${change.kind}`}>{CHANGE_LABELS[change.kind]}</span>
+                <span className="change-tag">{change.tag}</span>
+                <span className="change-fields">{change.fields.join(', ')}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {comparison.modules.map(mod => (
+          <div key={`${mod.equipmentId}-${mod.moduleId}`} className="change-group">
+            <h4>
+              {mod.equipmentLabel} • {mod.moduleName}
+              {mod.equipmentId && (
+                <span className="change-hours">{formatDelta(mod.toHours - mod.fromHours)} hrs</span>
+              )}
+            </h4>
+            {mod.items.length === 0 && (
+              <div className="change-row">
+                <span className="change-kind changed">Hours</span>
+                <span className="change-tag">Recalculated - no input changes</span>
+              </div>
+            )}
+            {mod.items.map(change => (
+              <div key={change.id} className="change-row">
+                <span className={`change-kind ${change.kind}`}>{CHANGE_LABELS[change.kind]}</span>
+                <span className="change-tag">{change.tag}</span>
+                <span className="change-fields">{change.fields.join(', ')}</span>
+              </div>
+            ))}
+          </div>
+        ))}
+
+        {comparison.activities.length > 0 && (
+          <table className="revisions-table">
+            <thead>
+              <tr>
+                <th>Code</th>
+                <th>{getName(fromId)}</th>
+                <th>{getName(toId)}</th>
+                <th>Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.activities.map(a => (
+                <tr key={a.code}>
+                  <td className="emphasis">{a.code}</td>
+                  <td>{a.fromHours.toFixed(1)}</td>
+                  <td>{a.toHours.toFixed(1)}</td>
+                  <td className={a.delta > 0 ? 'increase' : 'decrease'}>{formatDelta(a.delta)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { RevisionsModule } from './RevisionsModule';
@@ -0,0 +1,322 @@
+import { useMemo, useEffect } from 'react';
+import { NumberInput } from '../../shared/components';
+import { useProject, DEFAULT_VESSEL, DEFAULT_VESSEL_COURSE } from '../../project';
+import type { VesselCourse, VesselDefinition, VesselHead } from '../../project';
+import type { LongWeldsModuleData } from '../longwelds/types';
+import type { CircWeldsModuleData } from '../circwelds/types';
+import type { NozzlesModuleData } from '../nozzles/types';
+import type { HeadType } from '../heads/types';
+import { HEAD_TYPE_LABELS } from '../heads/types';
+import type { ShellLayoutInput, ShellModuleData } from './types';
+import { DEFAULT_SHELL_LAYOUT } from './types';
+import { calculateShellLayout, generateShellWelds, getHeadStraightFlanges, layoutShellCourses } from './engine';
+import { ShellDevelopment } from './components/ShellDevelopment';
+import './ShellModule.css';
+
+function generateId(): string {
+  return Math.random().toString(36).substr(2, 9);
+}
+
+export function ShellModule() {
+  const { currentEquipment, getModuleData, setModuleData, setModulesData, updateModuleSummary, updateVessel } = useProject();
+
+  const vessel: VesselDefinition = { ...DEFAULT_VESSEL, ...currentEquipment?.vessel };
+  const layout: ShellLayoutInput = { ...DEFAULT_SHELL_LAYOUT, ...getModuleData<ShellModuleData>('shell')?.layout };
+  const longWelds = getModuleData<LongWeldsModuleData>('longwelds')?.welds || [];
+  const circWelds = getModuleData<CircWeldsModuleData>('circwelds')?.welds || [];
+  const nozzles = getModuleData<NozzlesModuleData>('nozzles')?.nozzles || [];
+
+  const update = (updates: Partial<VesselDefinition>) => {
+    updateVessel({ ...vessel, ...updates });
+  };
+
+  const updateCourse = (id: string, updates: Partial<VesselCourse>) => {
+    update({ courses: vessel.courses.map(c => (c.id === id ? { ...c, ...updates } : c)) });
+  };
+
+  const updateHead = (id: string, updates: Partial<VesselHead>) => {
+    update({ heads: vessel.heads.map(h => (h.id === id ? { ...h, ...updates } : h)) });
+  };
+
+  const result = useMemo(
+    () => calculateShellLayout(vessel, layout),
+    [currentEquipment?.vessel, layout.staggerMin]
+  );
+
+  // Update module summary - the courses carry no hours or items, the weld modules count them
+  useEffect(() => {
+    updateModuleSummary('shell', {
+      moduleId: 'shell',
+      moduleName: 'Vessel',
+      itemCount: 0,
+      totalHours: 0,
+      activityBreakdown: {},
+    });
+  }, [updateModuleSummary]);
+
+  const addCourse = () => {
+    const last = vessel.courses[vessel.courses.length - 1];
+    const template = last ? { ...last } : { ...DEFAULT_VESSEL_COURSE, material: vessel.material };
+    update({
+      courses: [...vessel.courses, { ...template, id: generateId(), tag: `C${vessel.courses.length + 1}` }],
+    });
+  };
+
+  const fillCourses = () => {
+    const template = vessel.courses[0] ?? { ...DEFAULT_VESSEL_COURSE, material: vessel.material };
+    update({ courses: layoutShellCourses(vessel.tanTanLength - getHeadStraightFlanges(vessel.heads), template) });
+  };
+
+  const addHead = () => {
+    const thickness = vessel.courses[0]?.thickness ?? DEFAULT_VESSEL_COURSE.thickness;
+    update({
+      heads: [...vessel.heads, { id: generateId(), tag: `H${vessel.heads.length + 1}`, headType: 'ellipsoidal', thickness, straightFlange: 50 }],
+    });
+  };
+
+  const generateWelds = () => {
+    if (!result) return;
+    const generated = generateShellWelds(result, vessel.insideDiameter, longWelds, circWelds);
+    const longwelds: LongWeldsModuleData = { welds: generated.longWelds };
+    const circwelds: CircWeldsModuleData = { welds: generated.circWelds };
+    setModulesData({ longwelds, circwelds }, 'Generated welds');
+  };
+
+  const manualLong = longWelds.filter(w => !w.courseId).length;
+  const manualCirc = circWelds.filter(w => !w.courseId).length;
+  const boundCount = [...longWelds, ...circWelds, ...nozzles].filter(i => i.courseId).length;
+
+  return (
+    <div className="shell-module">
+      <div className="module-toolbar">
+        <div className="toolbar-left">
+          <button className="btn-add" onClick={addCourse}>+ Add Course</button>
+          <button className="btn-export" onClick={fillCourses}>Lay Out From Tan-Tan</button>
+        </div>
+        <div className="toolbar-right">
+          <span className="stats">
+            {result ? `${result.courses.length} courses • ${(result.shellMass / 1000).toFixed(2)} t shell • ${(result.stockMass / 1000).toFixed(2)} t plate` : 'No courses'}
+          </span>
+          <button className="btn-add" onClick={generateWelds} disabled={!result}>Generate Welds</button>
+        </div>
+      </div>
+
+      <div className="editor-grid">
+        <div className="editor-panel">
+          <section className="section">
+            <h3>📐 Vessel</h3>
+            <div className="input-row">
+              <div className="input-group">
+                <label>Inside Diameter (mm)</label>
+                <NumberInput value={vessel.insideDiameter} step={10} min={0} onChange={(v) => update({ insideDiameter: v })} />
+              </div>
+              <div className="input-group">
+                <label>Tan-Tan (mm)</label>
+                <NumberInput value={vessel.tanTanLength} step={50} min={0} onChange={(v) => update({ tanTanLength: v })} />
+              </div>
+            </div>
+            <div className="input-row">
+              <div className="input-group">
+                <label>Design Pressure (kPa g)</label>
+                <NumberInput value={vessel.designPressure} step={50} min={0} onChange={(v) => update({ designPressure: v })} />
+              </div>
+              <div className="input-group">
+                <label>Design Temp (°C)</label>
+                <NumberInput value={vessel.designTemperature} step={5} onChange={(v) => update({ designTemperature: v })} />
+              </div>
+            </div>
+            <div className="input-row">
+              <div className="input-group">
+                <label>Material</label>
+                <input type="text" value={vessel.material} onChange={(e) => update({ material: e.target.value })} />
+              </div>
+              <div className="input-group">
+                <label>Corrosion Allow. (mm)</label>
+                <NumberInput value={vessel.corrosionAllowance} step={0.5} min={0} onChange={(v) => update({ corrosionAllowance: v })} />
+              </div>
+            </div>
+            <div className="input-group">
+              <label>Min Long Seam Stagger (mm)</label>
+              <NumberInput
+                value={layout.staggerMin}
+                step={10}
+                min={0}
+                onChange={(v) => setModuleData<ShellModuleData>('shell', { layout: { ...layout, staggerMin: v } })}
+              />
+            </div>
+            <p className="side-note">
+              {boundCount > 0 ? `${boundCount} nozzles and welds take their shell from this vessel` : 'Bind nozzles and welds to a course to share its thickness'}
+            </p>
+          </section>
+
+          <section className="section">
+            <h3>🥣 Heads</h3>
+            {vessel.heads.map(head => (
+              <div key={head.id} className="head-row">
+                <div className="course-header">
+                  <input type="text" value={head.tag} onChange={(e) => updateHead(head.id, { tag: e.target.value })} />
+                  <button className="btn-remove" onClick={() => update({ heads: vessel.heads.filter(h => h.id !== head.id) })}>×</button>
+                </div>
+                <div className="input-row">
+                  <div className="input-group">
+                    <label>Type</label>
+                    <select value={head.headType} onChange={(e) => updateHead(head.id, { headType: e.target.value as HeadType })}>
+                      {(Object.keys(HEAD_TYPE_LABELS) as HeadType[]).map(t => (
+                        <option key={t} value={t}>{HEAD_TYPE_LABELS[t]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="input-group">
+                    <label>Thk</label>
+                    <NumberInput value={head.thickness} step={1} min={1} onChange={(v) => updateHead(head.id, { thickness: v })} />
+                  </div>
+                  <div className="input-group">
+                    <label>SF</label>
+                    <NumberInput value={head.straightFlange} step={5} min={0} onChange={(v) => updateHead(head.id, { straightFlange: v })} />
+                  </div>
+                </div>
+              </div>
+            ))}
+            <button className="btn-add-layer" onClick={addHead} disabled={vessel.heads.length >= 2}>+ Add Head</button>
+          </section>
+
+          {vessel.courses.map((course, index) => (
+            <section key={course.id} className="section">
+              <div className="course-header">
+                <input
+                  type="text"
+                  value={course.tag}
+                  onChange={(e) => updateCourse(course.id, { tag: e.target.value })}
+                />
+                <button
+                  className="btn-remove"
+                  onClick={() => update({ courses: vessel.courses.filter(c => c.id !== course.id) })}
+                >×</button>
+              </div>
+              <div className="input-row">
+                <div className="input-group">
+                  <label>Width</label>
+                  <NumberInput value={course.width} step={50} min={0} onChange={(v) => updateCourse(course.id, { width: v })} />
+                </div>
+                <div className="input-group">
+                  <label>Thk</label>
+                  <NumberInput value={course.thickness} step={1} min={1} onChange={(v) => updateCourse(course.id, { thickness: v })} />
+                </div>
+              </div>
+              <div className="input-group">
+                <label>Material</label>
+                <input
+                  type="text"
+                  value={course.material}
+                  onChange={(e) => updateCourse(course.id, { material: e.target.value })}
+                />
+              </div>
+              <div className="input-row">
+                <div className="input-group">
+                  <label>Plate Length</label>
+                  <NumberInput value={course.plateLength} step={100} min={0} onChange={(v) => updateCourse(course.id, { plateLength: v })} />
+                </div>
+                <div className="input-group">
+                  <label>Plate Width</label>
+                  <NumberInput value={course.plateWidth} step={100} min={0} onChange={(v) => updateCourse(course.id, { plateWidth: v })} />
+                </div>
+              </div>
+              {result?.courses[index] && (
+                <p className="side-note">
+                  {result.courses[index].plates} plate{result.courses[index].plates === 1 ? '' : 's'} of {result.courses[index].pieceLength.toFixed(0)}mm developed length
+                </p>
+              )}
+            </section>
+          ))}
+        </div>
+
+        <div className="editor-panel center">
+          {result ? (
+            <>
+              <ShellDevelopment courses={result.courses} />
+              <p className="diagram-caption">
+                Shell developed - long seams in orange, circ seams in blue
+              </p>
+            </>
+          ) : (
+            <p className="diagram-caption">Add courses, or lay them out from the tan-tan length</p>
+          )}
+        </div>
+
+        <div className="editor-panel">
+          {result && (
+            <>
+              <div className="result-card">
+                <h3>PLATE</h3>
+                <div className="value">{(result.stockMass / 1000).toFixed(2)}</div>
+                <div className="unit">tonnes</div>
+              </div>
+
+              <div className="results-summary">
+                <div className="result-row">
+                  <span>Shell Length</span>
+                  <span>{result.shellLength.toFixed(0)} mm</span>
+                </div>
+                <div className="result-row">
+                  <span>Long / Circ Seams</span>
+                  <span>{result.courses.reduce((sum, c) => sum + c.plates, 0)} / {result.courses.length - 1}</span>
+                </div>
+                <div className="result-row highlight">
+                  <span>Shell Mass</span>
+                  <span>{(result.shellMass / 1000).toFixed(2)} t</span>
+                </div>
+              </div>
+
+              <section className="section">
+                <h3>↔ Seam Stagger</h3>
+                <div className="activity-list">
+                  {result.stagger.map(check => (
+                    <div key={check.courses.join('-')} className={`act-row ${check.ok ? '' : 'fail'}`}>
+                      <label>{check.courses[0]} / {check.courses[1]}</label>
+                      <span>{check.offset.toFixed(0)}mm {check.ok ? '✓' : `< ${check.required.toFixed(0)}`}</span>
+                    </div>
+                  ))}
+                </div>
+              </section>
+
+              <section className="section">
+                <h3>🧩 Plate Nesting</h3>
+                {result.nest.map(group => (
+                  <div key={`${group.thickness}-${group.material}-${group.plateLength}-${group.plateWidth}`} className="nest-group">
+                    <div className="act-row calc">
+                      <label>{group.thickness}mm {group.material}</label>
+                      <span>{group.plates.length} × {group.plateWidth}×{group.plateLength}</span>
+                    </div>
+                    {group.plates.map((plate, i) => (
+                      <div key={i} className="act-row">
+                        <label>Plate {i + 1}: {plate.pieces.map(p => p.courseTag).join(', ')}</label>
+                        <span>{plate.utilisation.toFixed(0)}%</span>
+                      </div>
+                    ))}
+                    <ul className="shell-offcuts">
+                      {group.plates.flatMap((plate, i) => plate.offcuts.map((offcut, j) => (
+                        <li key={`${i}-${j}`}>Plate {i + 1} off-cut {offcut.width.toFixed(0)} × {offcut.length.toFixed(0)}</li>
+                      )))}
+                    </ul>
+                    <p className="side-note">{group.utilisation.toFixed(0)}% used • {(group.stockMass / 1000).toFixed(2)} t bought</p>
+                  </div>
+                ))}
+              </section>
+
+              <section className="section">
+                <h3>🔗 Welds</h3>
+                <p className="side-note">
+                  Generate Welds writes one long weld per course and a circ weld between courses.
+                  {manualLong + manualCirc > 0 && ` ${manualLong} hand-entered long and ${manualCirc} circ welds are kept.`}
+                </p>
+              </section>
+            </>
+          )}
+          {result?.warnings.map((warning, i) => (
+            <p key={i} className="shell-warning">⚠ {warning}</p>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import type { ShellCourseResult } from '../types';
+
+interface ShellDevelopmentProps {
+  courses: ShellCourseResult[];
+}
+
+/**
+ * Shell unrolled flat - courses left to right, 0-360° top to bottom, with the
+ * long seams of each course and the circ seams between them
+ */
+export function ShellDevelopment({ courses }: ShellDevelopmentProps) {
+  const shellLength = courses.reduce((sum, c) => sum + c.width, 0);
+
+  // SVG dimensions
+  const viewBoxWidth = 440;
+  const viewBoxHeight = 280;
+  const margin = { top: 28, right: 16, bottom: 30, left: 40 };
+  const plotWidth = viewBoxWidth - margin.left - margin.right;
+  const plotHeight = viewBoxHeight - margin.top - margin.bottom;
+
+  const x = (mm: number) => margin.left + (shellLength > 0 ? (mm / shellLength) * plotWidth : 0);
+  const y = (degrees: number) => margin.top + (degrees / 360) * plotHeight;
+
+  return (
+    <svg viewBox={`0 0 ${viewBoxWidth} ${viewBoxHeight}`} className="shell-development">
+      {courses.map((course, i) => (
+        <g key={course.id}>
+          <rect
+            x={x(course.start)} y={y(0)}
+            width={x(course.start + course.width) - x(course.start)} height={plotHeight}
+            fill={i % 2 === 0 ? '#dbe4ff' : '#e7f5ff'} stroke="#333" strokeWidth={1}
+          />
+          <text x={(x(course.start) + x(course.start + course.width)) / 2} y={margin.top - 14} fontSize={10} textAnchor="middle" fill="#333">
+            {course.tag}
+          </text>
+          <text x={(x(course.start) + x(course.start + course.width)) / 2} y={margin.top - 4} fontSize={8} textAnchor="middle" fill="#666">
+            {course.width} × {course.thickness}t
+          </text>
+
+          {/* Long seams */}
+          {course.seamAngles.map(angle => (
+            <g key={angle}>
+              <line
+                x1={x(course.start)} x2={x(course.start + course.width)}
+                y1={y(angle)} y2={y(angle)}
+                stroke="#ff6b35" strokeWidth={2.5}
+              />
+              <text x={x(course.start) + 3} y={y(angle) - 3} fontSize={8} fill="#e55a2b">
+                {angle.toFixed(0)}°
+              </text>
+            </g>
+          ))}
+        </g>
+      ))}
+
+      {/* Circ seams */}
+      {courses.slice(1).map(course => (
+        <line
+          key={course.id}
+          x1={x(course.start)} x2={x(course.start)}
+          y1={y(0)} y2={y(360)}
+          stroke="#4dabf7" strokeWidth={2.5}
+        />
+      ))}
+
+      {/* Angle axis */}
+      {[0, 90, 180, 270, 360].map(angle => (
+        <text key={angle} x={margin.left - 6} y={y(angle) + 3} fontSize={9} textAnchor="end" fill="#666">
+          {angle}°
+        </text>
+      ))}
+      <text x={margin.left + plotWidth / 2} y={viewBoxHeight - 8} fontSize={10} textAnchor="middle" fill="#333">
+        {shellLength.toFixed(0)} mm
+      </text>
+    </svg>
+  );
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import {
+  layoutShellCourses,
+  getSeamAngles,
+  nestShellPlates,
+  calculateShellLayout,
+  generateShellWelds,
+} from './engine';
+import { DEFAULT_SHELL_LAYOUT } from './types';
+import { DEFAULT_VESSEL, DEFAULT_VESSEL_COURSE } from '../../project/types';
+import type { VesselCourse, VesselHead } from '../../project/types';
+import { DEFAULT_LONG_WELD_GEOMETRY, DEFAULT_LONG_WELD_ACTIVITY_TIMES, DEFAULT_LONG_WELD_LAYERS } from '../longwelds/types';
+import type { LongWeldItem } from '../longwelds/types';
+import { calculatePressureTest, getPressureTestVessel } from '../pressuretest/engine';
+import { DEFAULT_PRESSURE_TEST_INPUT } from '../pressuretest/types';
+import { getCoatingAreas } from '../coatings/engine';
+import { DEFAULT_SETTINGS } from '../../shared/settings/defaults';
+
+const course = (id: string, overrides: Partial<VesselCourse> = {}): VesselCourse => ({
+  ...DEFAULT_VESSEL_COURSE,
+  id,
+  tag: id.toUpperCase(),
+  ...overrides,
+});
+
+describe('Shell Layout', () => {
+  it('splits the shell length into equal courses no wider than the plate', () => {
+    const courses = layoutShellCourses(6000, DEFAULT_VESSEL_COURSE);
+    expect(courses.map(c => c.width)).toEqual([2000, 2000, 2000]);
+    expect(courses.map(c => c.tag)).toEqual(['C1', 'C2', 'C3']);
+    expect(layoutShellCourses(5001, DEFAULT_VESSEL_COURSE).map(c => c.width)).toEqual([1667, 1667, 1667]);
+  });
+
+  it('turns each course to clear the seams of the last', () => {
+    expect(getSeamAngles(1, [])).toEqual([0]);
+    expect(getSeamAngles(1, [0])).toEqual([180]);
+    expect(getSeamAngles(3, [0, 120, 240])).toEqual([60, 180, 300]);
+  });
+
+  it('nests pieces in shelves and reports the off-cuts', () => {
+    const plates = nestShellPlates([
+      { courseTag: 'C1', length: 4000, width: 1200 },
+      { courseTag: 'C2', length: 4000, width: 1000 },
+      { courseTag: 'C3', length: 4000, width: 1200 },
+    ], 9000, 2500);
+
+    expect(plates).toHaveLength(1);
+    expect(plates[0].pieces.map(p => p.courseTag)).toEqual(['C1', 'C3', 'C2']);
+    expect(plates[0].offcuts).toEqual([
+      { length: 1000, width: 1200 },
+      { length: 5000, width: 1000 },
+      { length: 9000, width: 300 },
+    ]);
+    expect(plates[0].utilisation).toBeCloseTo((2 * 4000 * 1200 + 4000 * 1000) / (9000 * 2500) * 100, 6);
+  });
+
+  it('counts plates, checks the stagger and nests each course', () => {
+    const heads: VesselHead[] = ['h1', 'h2'].map(id => ({ id, tag: id, headType: 'ellipsoidal', thickness: 20, straightFlange: 50 }));
+    const vessel = { ...DEFAULT_VESSEL, tanTanLength: 4100, heads, courses: [course('c1'), course('c2')] };
+    const result = calculateShellLayout(vessel, DEFAULT_SHELL_LAYOUT)!;
+    const circumference = Math.PI * 2020;
+
+    expect(result.courses[0].plates).toBe(1);
+    expect(result.courses[1].seamAngles).toEqual([180]);
+    expect(result.stagger[0].offset).toBeCloseTo(Math.PI * 2040 / 2, 6);
+    expect(result.stagger[0].ok).toBe(true);
+    expect(result.shellMass).toBeCloseTo(2 * circumference * 2000 * 20 * 7.85e-6, 6);
+    expect(result.nest).toHaveLength(1);
+    expect(result.nest[0].plates).toHaveLength(2);
+    expect(result.warnings).toEqual([]);
+
+    // Four plates around leave seams 45° apart - short of 5 × 60mm on a small shell
+    const small = calculateShellLayout({
+      ...vessel,
+      insideDiameter: 300,
+      courses: [course('c1', { thickness: 60, plateLength: 300 }), course('c2', { thickness: 60, plateLength: 300 })],
+    }, DEFAULT_SHELL_LAYOUT)!;
+    expect(small.stagger[0].offset).toBeCloseTo(Math.PI * 420 / 8, 6);
+    expect(small.stagger[0].ok).toBe(false);
+    expect(small.stagger[0].required).toBe(300);
+  });
+
+  it('warns when the courses miss the tan-tan length or overhang the plate', () => {
+    const result = calculateShellLayout({
+      ...DEFAULT_VESSEL,
+      courses: [course('c1', { width: 3000 })],
+    }, DEFAULT_SHELL_LAYOUT)!;
+    expect(result.nest).toEqual([]);
+    expect(result.warnings).toEqual([
+      'C1: 3000mm course is wider than the 2500mm plate - not nested',
+      'Courses total 3000mm - tan-tan less head straight flanges is 6000mm',
+    ]);
+  });
+
+  it('regenerates layout welds and keeps hand-entered ones', () => {
+    const weld = (id: string, courseId?: string): LongWeldItem => ({
+      id,
+      tag: id,
+      quantity: 1,
+      courseId,
+      geometry: { ...DEFAULT_LONG_WELD_GEOMETRY, rootGap: 5 },
+      insideLayers: [...DEFAULT_LONG_WELD_LAYERS],
+      outsideProcess: 'SAW',
+      activityTimes: { ...DEFAULT_LONG_WELD_ACTIVITY_TIMES },
+    });
+    const result = calculateShellLayout({
+      ...DEFAULT_VESSEL,
+      courses: [course('c1', { plateLength: 3000 }), course('c2', { thickness: 25 })],
+    }, DEFAULT_SHELL_LAYOUT)!;
+    const { longWelds, circWelds } = generateShellWelds(result, 2000, [weld('manual'), weld('old', 'c1'), weld('gone', 'c9')], []);
+
+    expect(longWelds.map(w => w.id)).toEqual(['manual', 'old', longWelds[2].id]);
+    expect(longWelds[1]).toMatchObject({ tag: 'C1 Long', quantity: 3, geometry: { shellThickness: 20, weldLength: 2000, rootGap: 5 } });
+    expect(longWelds[2]).toMatchObject({ courseId: 'c2', tag: 'C2 Long', quantity: 1 });
+    expect(circWelds).toHaveLength(1);
+    expect(circWelds[0]).toMatchObject({ courseId: 'c1', tag: 'C1-C2 Circ', geometry: { shellThickness: 25, insideDiameter: 2000 } });
+  });
+
+  it('counts a course welded from several plates once in the test volume and coated area', () => {
+    const result = calculateShellLayout({
+      ...DEFAULT_VESSEL,
+      courses: [course('c1', { plateLength: 3000 }), course('c2')],
+    }, DEFAULT_SHELL_LAYOUT)!;
+    const { longWelds, circWelds } = generateShellWelds(result, 2000, [], []);
+    expect(longWelds.map(w => w.quantity)).toEqual([3, 1]);
+
+    const vessel = getPressureTestVessel(longWelds, circWelds, [], []);
+    expect(vessel.shellLength).toBe(4000);
+    const test = calculatePressureTest(DEFAULT_PRESSURE_TEST_INPUT, vessel, DEFAULT_SETTINGS)!;
+    expect(test.volume).toBeCloseTo((Math.PI / 4) * 2000 ** 2 * 4000 / 1e6, 6);
+
+    const [shell] = getCoatingAreas(longWelds, circWelds, [], [], 0);
+    expect(shell.internal).toBeCloseTo(Math.PI * 2000 * 4000 / 1e6, 6);
+  });
+});
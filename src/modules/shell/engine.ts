@@ -0,0 +1,280 @@
+import type { LongWeldItem } from '../longwelds/types';
+import { DEFAULT_LONG_WELD_GEOMETRY, DEFAULT_LONG_WELD_ACTIVITY_TIMES, DEFAULT_LONG_WELD_LAYERS } from '../longwelds/types';
+import type { CircWeldItem } from '../circwelds/types';
+import { DEFAULT_CIRC_WELD_GEOMETRY, DEFAULT_CIRC_WELD_ACTIVITY_TIMES, DEFAULT_CIRC_WELD_LAYERS } from '../circwelds/types';
+import type { VesselCourse, VesselDefinition, VesselHead } from '../../project/types';
+import type {
+  ShellLayoutInput,
+  ShellCourseResult,
+  ShellStaggerCheck,
+  ShellNestPiece,
+  ShellNestPlate,
+  ShellNestGroup,
+  ShellLayoutResult,
+} from './types';
+
+const STEEL_DENSITY = 7.85e-6;   // kg/mm³
+const STAGGER_THICKNESS_FACTOR = 5;
+
+function generateId(): string {
+  return Math.random().toString(36).substr(2, 9);
+}
+
+/**
+ * Split a shell length into courses no wider than the template plate
+ *
+ * Courses are equal widths to the mm, the last one taking the rounding.
+ */
+export function layoutShellCourses(shellLength: number, template: Omit<VesselCourse, 'id' | 'tag'>): VesselCourse[] {
+  if (shellLength <= 0 || template.plateWidth <= 0) return [];
+  const count = Math.ceil(shellLength / template.plateWidth);
+  const width = Math.round(shellLength / count);
+  return Array.from({ length: count }, (_, i) => ({
+    ...template,
+    id: generateId(),
+    tag: `C${i + 1}`,
+    width: i === count - 1 ? shellLength - width * (count - 1) : width,
+  }));
+}
+
+/**
+ * Straight flange length taken up by the heads - one at each end of the shell
+ */
+export function getHeadStraightFlanges(heads: VesselHead[]): number {
+  return heads.slice(0, 2).reduce((sum, h) => sum + h.straightFlange, 0);
+}
+
+// Smallest angle between two seams, 0-180°
+function angleBetween(a: number, b: number): number {
+  const diff = Math.abs(a - b) % 360;
+  return Math.min(diff, 360 - diff);
+}
+
+/**
+ * Seam angles for a course, turned to clear the previous course's seams
+ *
+ * Tries each whole degree across one plate pitch and keeps the turn that
+ * leaves the largest gap to the nearest seam. The first course starts at 0°.
+ */
+export function getSeamAngles(plates: number, previous: number[]): number[] {
+  const pitch = 360 / plates;
+  const anglesAt = (turn: number) => Array.from({ length: plates }, (_, k) => turn + k * pitch);
+  if (previous.length === 0) return anglesAt(0);
+
+  let best = { turn: 0, gap: -1 };
+  for (let turn = 0; turn < pitch; turn++) {
+    const gap = Math.min(...anglesAt(turn).flatMap(a => previous.map(p => angleBetween(a, p))));
+    if (gap > best.gap) best = { turn, gap };
+  }
+  return anglesAt(best.turn);
+}
+
+/**
+ * Nest course plates on stock plates, first fit by decreasing width
+ *
+ * Pieces are laid in shelves across the plate width, rolling direction along
+ * the plate length. Off-cuts are the ends of each shelf, the strip beside a
+ * narrower piece and the strip left above the last shelf.
+ */
+export function nestShellPlates(
+  pieces: ShellNestPiece[],
+  plateLength: number,
+  plateWidth: number
+): ShellNestPlate[] {
+  type Shelf = { height: number; used: number; pieces: ShellNestPiece[] };
+  const stock: Shelf[][] = [];
+
+  const sorted = [...pieces].sort((a, b) => b.width - a.width || b.length - a.length);
+  for (const piece of sorted) {
+    const shelf = stock.flat().find(s => s.height >= piece.width && s.used + piece.length <= plateLength);
+    if (shelf) {
+      shelf.pieces.push(piece);
+      shelf.used += piece.length;
+      continue;
+    }
+    const newShelf = { height: piece.width, used: piece.length, pieces: [piece] };
+    const plate = stock.find(shelves => shelves.reduce((sum, s) => sum + s.height, 0) + piece.width <= plateWidth);
+    if (plate) plate.push(newShelf);
+    else stock.push([newShelf]);
+  }
+
+  return stock.map(shelves => {
+    const placed = shelves.flatMap(s => s.pieces);
+    const height = shelves.reduce((sum, s) => sum + s.height, 0);
+    const offcuts = [
+      ...shelves.flatMap(s => [
+        ...(plateLength - s.used > 0 ? [{ length: plateLength - s.used, width: s.height }] : []),
+        ...s.pieces.filter(p => p.width < s.height).map(p => ({ length: p.length, width: s.height - p.width })),
+      ]),
+      ...(plateWidth - height > 0 ? [{ length: plateLength, width: plateWidth - height }] : []),
+    ];
+    const usedArea = placed.reduce((sum, p) => sum + p.length * p.width, 0);
+    return { pieces: placed, offcuts, utilisation: (usedArea / (plateLength * plateWidth)) * 100 };
+  });
+}
+
+/**
+ * Courses, seam stagger and plate nesting for a shell layout
+ *
+ * Plates are rolled on the mean diameter, so the developed length of a
+ * course is π × (ID + t) split equally between its plates. Long seams in
+ * adjacent courses must be offset by the greater of the minimum stagger and
+ * five times the thicker plate. The courses should fill the tan-tan length
+ * less the straight flanges of the vessel heads. Returns null when there are
+ * no courses.
+ */
+export function calculateShellLayout(vessel: VesselDefinition, input: ShellLayoutInput): ShellLayoutResult | null {
+  const { insideDiameter, courses } = vessel;
+  if (courses.length === 0 || insideDiameter <= 0) return null;
+  const warnings: string[] = [];
+
+  let start = 0;
+  let previous: number[] = [];
+  const courseResults: ShellCourseResult[] = courses.map(course => {
+    const circumference = Math.PI * (insideDiameter + course.thickness);
+    const plates = course.plateLength > 0 ? Math.max(1, Math.ceil(circumference / course.plateLength)) : 1;
+    const seamAngles = getSeamAngles(plates, previous);
+    previous = seamAngles;
+    const result = {
+      id: course.id,
+      tag: course.tag,
+      start,
+      width: course.width,
+      thickness: course.thickness,
+      circumference,
+      plates,
+      pieceLength: circumference / plates,
+      seamAngles,
+      mass: circumference * course.width * course.thickness * STEEL_DENSITY,
+    };
+    start += course.width;
+    if (course.width > course.plateWidth) {
+      warnings.push(`${course.tag}: ${course.width}mm course is wider than the ${course.plateWidth}mm plate - not nested`);
+    }
+    return result;
+  });
+
+  const stagger: ShellStaggerCheck[] = courseResults.slice(1).map((course, i) => {
+    const prev = courseResults[i];
+    const thicker = Math.max(prev.thickness, course.thickness);
+    const gap = Math.min(...course.seamAngles.flatMap(a => prev.seamAngles.map(p => angleBetween(a, p))));
+    const offset = (gap / 360) * Math.PI * (insideDiameter + 2 * thicker);
+    const required = Math.max(input.staggerMin, STAGGER_THICKNESS_FACTOR * thicker);
+    if (offset < required) {
+      warnings.push(`${prev.tag}/${course.tag}: long seams only ${offset.toFixed(0)}mm apart - ${required.toFixed(0)}mm required`);
+    }
+    return { courses: [prev.tag, course.tag], offset, required, ok: offset >= required };
+  });
+
+  // One nest per thickness, material and stock size
+  const groups = new Map<string, { course: VesselCourse; pieces: ShellNestPiece[] }>();
+  courses.forEach((course, i) => {
+    if (course.width > course.plateWidth) return;
+    const key = [course.thickness, course.material, course.plateLength, course.plateWidth].join('|');
+    const group = groups.get(key) ?? { course, pieces: [] };
+    for (let p = 0; p < courseResults[i].plates; p++) {
+      group.pieces.push({ courseTag: course.tag, length: courseResults[i].pieceLength, width: course.width });
+    }
+    groups.set(key, group);
+  });
+  const nest: ShellNestGroup[] = [...groups.values()].map(({ course, pieces }) => {
+    const { thickness, material, plateLength, plateWidth } = course;
+    const plates = nestShellPlates(pieces, plateLength, plateWidth);
+    const stockMass = plates.length * plateLength * plateWidth * thickness * STEEL_DENSITY;
+    const usedMass = pieces.reduce((sum, p) => sum + p.length * p.width, 0) * thickness * STEEL_DENSITY;
+    return {
+      thickness,
+      material,
+      plateLength,
+      plateWidth,
+      plates,
+      stockMass,
+      usedMass,
+      utilisation: stockMass > 0 ? (usedMass / stockMass) * 100 : 0,
+    };
+  });
+
+  const shellLength = start;
+  const required = vessel.tanTanLength - getHeadStraightFlanges(vessel.heads);
+  if (vessel.tanTanLength > 0 && Math.abs(shellLength - required) > 1) {
+    warnings.push(`Courses total ${shellLength.toFixed(0)}mm - tan-tan less head straight flanges is ${required.toFixed(0)}mm`);
+  }
+
+  return {
+    courses: courseResults,
+    stagger,
+    nest,
+    shellLength,
+    shellMass: courseResults.reduce((sum, c) => sum + c.mass, 0),
+    stockMass: nest.reduce((sum, g) => sum + g.stockMass, 0),
+    warnings,
+  };
+}
+
+/**
+ * Long and circ weld items for the layout
+ *
+ * One long weld per course with a quantity of its plates, and one circ weld
+ * between each pair of courses. Items generated before keep their id, prep,
+ * WPS and activity times; hand-entered items are left as they are.
+ */
+export function generateShellWelds(
+  result: ShellLayoutResult,
+  insideDiameter: number,
+  longWelds: LongWeldItem[],
+  circWelds: CircWeldItem[]
+): { longWelds: LongWeldItem[]; circWelds: CircWeldItem[] } {
+  const generatedLong = result.courses.map((course): LongWeldItem => {
+    const base = longWelds.find(w => w.courseId === course.id) ?? {
+      id: generateId(),
+      tag: '',
+      quantity: 1,
+      geometry: { ...DEFAULT_LONG_WELD_GEOMETRY },
+      insideLayers: [...DEFAULT_LONG_WELD_LAYERS],
+      outsideProcess: 'SAW',
+      activityTimes: { ...DEFAULT_LONG_WELD_ACTIVITY_TIMES },
+    };
+    return {
+      ...base,
+      courseId: course.id,
+      tag: `${course.tag} Long`,
+      quantity: course.plates,
+      geometry: { ...base.geometry, shellThickness: course.thickness, weldLength: course.width },
+    };
+  });
+
+  const generatedCirc = result.courses.slice(0, -1).map((course, i): CircWeldItem => {
+    const next = result.courses[i + 1];
+    const base = circWelds.find(w => w.courseId === course.id) ?? {
+      id: generateId(),
+      tag: '',
+      quantity: 1,
+      geometry: { ...DEFAULT_CIRC_WELD_GEOMETRY },
+      insideLayers: [...DEFAULT_CIRC_WELD_LAYERS],
+      outsideProcess: 'SAW',
+      activityTimes: { ...DEFAULT_CIRC_WELD_ACTIVITY_TIMES },
+    };
+    return {
+      ...base,
+      courseId: course.id,
+      tag: `${course.tag}-${next.tag} Circ`,
+      quantity: 1,
+      geometry: { ...base.geometry, shellThickness: Math.max(course.thickness, next.thickness), insideDiameter },
+    };
+  });
+
+  return {
+    longWelds: [...longWelds.filter(w => !w.courseId), ...generatedLong],
+    circWelds: [...circWelds.filter(w => !w.courseId), ...generatedCirc],
+  };
+}
+
+/**
+ * Material list lines for the nested shell plates
+ */
+export function getShellPlateMaterials(nest: ShellNestGroup[]): { component: string; specification: string }[] {
+  return nest.map(group => ({
+    component: `Shell plate ${group.thickness}mm - ${group.plates.length} off ${group.plateWidth} × ${group.plateLength} (${(group.stockMass / 1000).toFixed(2)} t)`,
+    specification: group.material,
+  }));
+}
@@ -0,0 +1,3 @@
+export { ShellModule } from './ShellModule';
+export * from './types';
+export * from './engine';
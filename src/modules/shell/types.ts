@@ -0,0 +1,82 @@
+/**
+ * Shell Layout Types
+ *
+ * The shell is the run of courses on the vessel definition, each rolled from
+ * one or more plates. Every plate adds a long seam and every course joint adds
+ * a circ seam, so the layout generates the long and circ weld items. Long
+ * seams in adjacent courses are staggered, and the plates are nested on stock
+ * sizes for the material list.
+ */
+
+export interface ShellLayoutInput {
+  staggerMin: number;          // mm - least offset between long seams in adjacent courses
+}
+
+export interface ShellCourseResult {
+  id: string;
+  tag: string;
+  start: number;               // mm from the first course edge
+  width: number;               // mm
+  thickness: number;           // mm
+  circumference: number;       // mm - at the mean diameter
+  plates: number;              // plates around = long seams
+  pieceLength: number;         // mm - developed length of each plate
+  seamAngles: number[];        // degrees
+  mass: number;                // kg
+}
+
+// Long seam offset between adjacent courses
+export interface ShellStaggerCheck {
+  courses: [string, string];   // Course tags
+  offset: number;              // mm - around the OD
+  required: number;            // mm
+  ok: boolean;
+}
+
+export interface ShellNestPiece {
+  courseTag: string;
+  length: number;              // mm
+  width: number;               // mm
+}
+
+export interface ShellOffcut {
+  length: number;              // mm
+  width: number;               // mm
+}
+
+export interface ShellNestPlate {
+  pieces: ShellNestPiece[];
+  offcuts: ShellOffcut[];
+  utilisation: number;         // %
+}
+
+// Plates of one thickness, material and stock size
+export interface ShellNestGroup {
+  thickness: number;
+  material: string;
+  plateLength: number;
+  plateWidth: number;
+  plates: ShellNestPlate[];
+  stockMass: number;           // kg
+  usedMass: number;            // kg
+  utilisation: number;         // %
+}
+
+export interface ShellLayoutResult {
+  courses: ShellCourseResult[];
+  stagger: ShellStaggerCheck[];
+  nest: ShellNestGroup[];
+  shellLength: number;         // mm - sum of the course widths
+  shellMass: number;           // kg
+  stockMass: number;           // kg
+  warnings: string[];
+}
+
+// Module data stored in project
+export interface ShellModuleData {
+  layout: ShellLayoutInput;
+}
+
+export const DEFAULT_SHELL_LAYOUT: ShellLayoutInput = {
+  staggerMin: 100,
+};
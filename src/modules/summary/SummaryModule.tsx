@@ -1,43 +1,62 @@
 import { useProject } from '../../project';
 import { MODULES } from '../../project/types';
-import { exportSummaryToCSV } from './export';
+import { calculateCost, formatMoney } from '../../engine/costing';
+import { calculateConsumables } from '../../engine/consumables';
+import { NDE_CATEGORY_LABELS, NDE_METHOD_LABELS } from '../../engine/nde';
+import { emptyTotals, getEquipmentTotals, getJobTotals, getJobModuleSummary } from '../../engine/equipment';
+import { exportSummaryToCSV, exportConsumablesToCSV, getProjectDeposits } from './export';
+import { PARENT_LABELS } from '../nozzles/types';
 import './SummaryModule.css';
 
 export function SummaryModule() {
-  const { currentProject } = useProject();
+  const { currentProject, settings } = useProject();
 
   const handleExport = () => {
     if (currentProject) {
-      exportSummaryToCSV(currentProject);
+      exportSummaryToCSV(currentProject, settings.labourRates);
     }
   };
 
-  // Calculate totals from all module summaries
-  const totals = {
-    itemCount: 0,
-    totalHours: 0,
-    activityBreakdown: {} as Record<string, number>,
+  const handleExportConsumables = () => {
+    if (currentProject) {
+      exportConsumablesToCSV(currentProject, settings.consumables);
+    }
   };
 
-  if (currentProject) {
-    MODULES.forEach(mod => {
-      const summary = currentProject.summaries[mod.id];
-      if (summary) {
-        totals.itemCount += summary.itemCount;
-        totals.totalHours += summary.totalHours;
-        Object.entries(summary.activityBreakdown).forEach(([code, hours]) => {
-          totals.activityBreakdown[code] = (totals.activityBreakdown[code] || 0) + hours;
-        });
-      }
-    });
-  }
+  // Job totals - every equipment item × its quantity
+  const job = currentProject ? getJobTotals(currentProject) : emptyTotals();
+  const equipmentRows = (currentProject?.equipment ?? []).map(equipment => {
+    const unit = getEquipmentTotals(equipment);
+    return {
+      equipment,
+      hours: unit.totalHours,
+      price: calculateCost(unit.activityBreakdown, settings.labourRates, unit.directCost).total,
+    };
+  });
+
+  const cost = calculateCost(job.activityBreakdown, settings.labourRates, job.directCost);
+  const costByCode = Object.fromEntries(cost.byCode.map(c => [c.code, c.labour]));
+  const ndeHours = job.activityBreakdown.NDE || 0;
+  const ndeExamHours = job.nde.reduce((sum, e) => sum + e.hours, 0);
+  // Shell and head nozzle hours across the equipment - shown under the nozzles card
+  const nozzleGroups = (currentProject?.equipment ?? [])
+    .flatMap(e => (e.summaries.nozzles?.groups ?? []).map(({ label, hours }) => ({ label, hours: hours * e.quantity })))
+    .reduce<{ label: string; hours: number }[]>((groups, { label, hours }) => {
+      const group = groups.find(g => g.label === label);
+      return group
+        ? groups.map(g => g === group ? { ...g, hours: g.hours + hours } : g)
+        : [...groups, { label, hours }];
+    }, []);
+  const consumables = currentProject
+    ? calculateConsumables(getProjectDeposits(currentProject), settings.consumables)
+    : null;
 
   return (
     <div className="summary-module">
       <div className="summary-header">
         <div className="vessel-info">
-          <h2>{currentProject?.vesselName || 'Untitled Vessel'}</h2>
-          <p className="job-number">Job: {currentProject?.jobNumber || '—'}</p>
+          <h2>{currentProject?.vesselName || 'Untitled Job'}</h2>
+          <p className="job-number">Job: {currentProject?.jobNumber || '—'} • {equipmentRows.length} equipment item{equipmentRows.length === 1 ? '' : 's'}</p>
         </div>
         <button className="btn-export" onClick={handleExport} disabled={!currentProject}>
           📥 Export to CSV
@@ -47,20 +66,72 @@ export function SummaryModule() {
       <div className="summary-cards">
         <div className="summary-card">
           <h3>Total Items</h3>
-          <div className="big-number">{totals.itemCount}</div>
+          <div className="big-number">{job.itemCount}</div>
         </div>
         <div className="summary-card primary">
           <h3>Grand Total</h3>
-          <div className="big-number">{totals.totalHours.toFixed(1)}</div>
+          <div className="big-number">{job.totalHours.toFixed(1)}</div>
           <div className="unit">hours</div>
         </div>
+        <div className="summary-card">
+          <h3>Sell Price</h3>
+          <div className="big-number">{formatMoney(cost.total)}</div>
+          <div className="cost-split">
+            labour {formatMoney(cost.labour)} + overhead {formatMoney(cost.overhead)}
+            {cost.direct > 0 && <> + direct {formatMoney(cost.direct)}</>} + margin {formatMoney(cost.margin)}
+          </div>
+        </div>
+        <div className="summary-card">
+          <h3>NDE</h3>
+          <div className="big-number">{ndeHours.toFixed(1)}</div>
+          <div className="unit">hours</div>
+          <div className="cost-split">
+            {formatMoney(costByCode.NDE || 0)} labour{settings.nde.calculate ? ' • from offer coverage' : ' • hand-entered'}
+          </div>
+        </div>
+      </div>
+
+      <div className="equipment-breakdown">
+        <h3>Equipment</h3>
+        <table className="equipment-table">
+          <thead>
+            <tr>
+              <th>Equipment</th>
+              <th>Qty</th>
+              <th>Hours/ea</th>
+              <th>Hours</th>
+              <th>Sell Price/ea</th>
+              <th>Sell Price</th>
+            </tr>
+          </thead>
+          <tbody>
+            {equipmentRows.map(({ equipment, hours, price }) => (
+              <tr key={equipment.id}>
+                <td><span className="code-name">{equipment.tag || '—'}</span> {equipment.name}</td>
+                <td>{equipment.quantity}</td>
+                <td>{hours.toFixed(1)}</td>
+                <td className="emphasis">{(hours * equipment.quantity).toFixed(1)}</td>
+                <td>{formatMoney(price)}</td>
+                <td className="emphasis">{formatMoney(price * equipment.quantity)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr>
+              <td colSpan={3}>Whole Job</td>
+              <td className="emphasis">{job.totalHours.toFixed(1)} hrs</td>
+              <td></td>
+              <td className="emphasis">{formatMoney(cost.total)}</td>
+            </tr>
+          </tfoot>
+        </table>
       </div>
 
       <div className="modules-breakdown">
         <h3>Module Breakdown</h3>
         <div className="module-cards">
           {MODULES.map(mod => {
-            const summary = currentProject?.summaries[mod.id];
+            const summary = currentProject ? getJobModuleSummary(currentProject, mod.id) : null;
             return (
               <div key={mod.id} className={`module-card ${summary ? 'has-data' : ''}`}>
                 <div className="module-info">
@@ -69,6 +140,12 @@ export function SummaryModule() {
                     <>
                       <p className="item-count">{summary.itemCount} items</p>
                       <p className="hours">{summary.totalHours.toFixed(1)} hrs</p>
+                      <p className="cost">{formatMoney(calculateCost(summary.activityBreakdown, settings.labourRates, summary.directCost).total)}</p>
+                      {mod.id === 'nozzles' && nozzleGroups.some(g => g.label === PARENT_LABELS.head) && (
+                        <p className="item-split">
+                          {nozzleGroups.map(g => `${g.label} ${g.hours.toFixed(1)}`).join(' • ')} hrs
+                        </p>
+                      )}
                     </>
                   ) : (
                     <p className="no-data">No data</p>
@@ -80,11 +157,11 @@ export function SummaryModule() {
         </div>
       </div>
 
-      {Object.keys(totals.activityBreakdown).length > 0 && (
+      {Object.keys(job.activityBreakdown).length > 0 && (
         <div className="activity-breakdown">
           <h3>Activity Code Totals</h3>
           <div className="activity-bars">
-            {Object.entries(totals.activityBreakdown)
+            {Object.entries(job.activityBreakdown)
               .sort((a, b) => b[1] - a[1])
               .map(([code, hours]) => (
                 <div key={code} className="activity-bar-row">
@@ -92,16 +169,103 @@ export function SummaryModule() {
                   <div className="bar-container">
                     <div 
                       className="bar-fill" 
-                      style={{ width: `${Math.min(100, (hours / totals.totalHours) * 100)}%` }}
+                      style={{ width: `${Math.min(100, (hours / job.totalHours) * 100)}%` }}
                     />
                   </div>
                   <span className="hours">{hours.toFixed(1)} hrs</span>
-                  <span className="pct">{((hours / totals.totalHours) * 100).toFixed(0)}%</span>
+                  <span className="cost">{formatMoney(costByCode[code] || 0)}</span>
+                  <span className="pct">{((hours / job.totalHours) * 100).toFixed(0)}%</span>
                 </div>
               ))}
           </div>
         </div>
       )}
+
+      {job.nde.length > 0 && (
+        <div className="nde-breakdown">
+          <h3>NDE Plan</h3>
+          <table className="nde-table">
+            <thead>
+              <tr>
+                <th>Joints</th>
+                <th>Method</th>
+                <th>Coverage</th>
+                <th>Examined</th>
+                <th>Hours</th>
+              </tr>
+            </thead>
+            <tbody>
+              {job.nde.map(exam => (
+                <tr key={`${exam.category}:${exam.method}`}>
+                  <td>{NDE_CATEGORY_LABELS[exam.category]}</td>
+                  <td><span className="code-name">{exam.method}</span> {NDE_METHOD_LABELS[exam.method]}</td>
+                  <td>{exam.coverage}%</td>
+                  <td>{(exam.length / 1000).toFixed(1)} m{exam.shots > 0 && ` • ${exam.shots} shots`}</td>
+                  <td className="emphasis">{exam.hours.toFixed(1)}</td>
+                </tr>
+              ))}
+              <tr>
+                <td colSpan={4}>Setup</td>
+                <td>{Math.max(0, ndeHours - ndeExamHours).toFixed(1)}</td>
+              </tr>
+            </tbody>
+            <tfoot>
+              <tr>
+                <td colSpan={4}>Total NDE</td>
+                <td className="emphasis">{ndeHours.toFixed(1)} hrs</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+
+      {consumables && consumables.lines.length > 0 && (
+        <div className="consumables-breakdown">
+          <div className="section-header">
+            <h3>Consumables</h3>
+            <button className="btn-export secondary" onClick={handleExportConsumables}>
+              📥 Export Consumables
+            </button>
+          </div>
+          <table className="consumables-table">
+            <thead>
+              <tr>
+                <th>Process</th>
+                <th>Classification</th>
+                <th>Deposited</th>
+                <th>Filler to Buy</th>
+                <th>Flux</th>
+                <th>Shielding Gas</th>
+              </tr>
+            </thead>
+            <tbody>
+              {consumables.lines.map(line => (
+                <tr key={line.process}>
+                  <td><span className="code-name">{line.process}</span></td>
+                  <td>{line.filler}</td>
+                  <td>{line.depositedKg.toFixed(1)} kg</td>
+                  <td className="emphasis">{line.fillerKg.toFixed(1)} kg</td>
+                  <td>{line.fluxKg > 0 ? `${line.fluxKg.toFixed(1)} kg` : '—'}</td>
+                  <td>{line.gas ? `${line.gas} ${(line.gasLitres / 1000).toFixed(2)} m³` : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr>
+                <td colSpan={2}>Total</td>
+                <td>{consumables.totalDepositedKg.toFixed(1)} kg</td>
+                <td className="emphasis">{consumables.totalFillerKg.toFixed(1)} kg</td>
+                <td>{consumables.totalFluxKg > 0 ? `${consumables.totalFluxKg.toFixed(1)} kg` : '—'}</td>
+                <td>
+                  {Object.entries(consumables.gasByType)
+                    .map(([gas, litres]) => `${gas} ${(litres / 1000).toFixed(2)} m³`)
+                    .join(', ') || '—'}
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
     </div>
   );
 }
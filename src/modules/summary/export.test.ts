@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { getSummaryLines } from './export';
+import { calculateHead, calculateHeadActivityCodes } from '../heads/engine';
+import {
+  DEFAULT_HEAD_GEOMETRY,
+  DEFAULT_HEAD_WELD_PREP,
+  DEFAULT_HEAD_FORMING,
+  DEFAULT_HEAD_ACTIVITY_TIMES,
+  DEFAULT_HEAD_LAYERS,
+} from '../heads/types';
+import type { HeadItem } from '../heads/types';
+import { calculateInternal, calculateInternalActivityCodes } from '../internals/engine';
+import { DEFAULT_INTERNAL_GEOMETRY, DEFAULT_INTERNAL_ACTIVITY_TIMES } from '../internals/types';
+import type { InternalItem } from '../internals/types';
+import { createEmptyProject } from '../../project/storage';
+import { DEFAULT_SETTINGS } from '../../shared/settings/defaults';
+import type { ModuleSummary } from '../../shared/types';
+
+const head: HeadItem = {
+  id: 'h1',
+  tag: 'H1',
+  quantity: 2,
+  geometry: DEFAULT_HEAD_GEOMETRY,
+  weldPrep: DEFAULT_HEAD_WELD_PREP,
+  forming: DEFAULT_HEAD_FORMING,
+  insideLayers: DEFAULT_HEAD_LAYERS,
+  outsideProcess: 'SAW',
+  activityTimes: DEFAULT_HEAD_ACTIVITY_TIMES,
+};
+
+const baffle: InternalItem = {
+  id: 'i1',
+  tag: 'B1',
+  itemType: 'baffle',
+  quantity: 3,
+  geometry: DEFAULT_INTERNAL_GEOMETRY,
+  weldProcess: 'FCAW',
+  activityTimes: DEFAULT_INTERNAL_ACTIVITY_TIMES,
+};
+
+const summary = (moduleId: string, itemCodes: Record<string, Record<string, number>>): ModuleSummary => ({
+  moduleId,
+  moduleName: moduleId,
+  itemCount: 1,
+  totalHours: 0,
+  activityBreakdown: {},
+  itemCodes,
+});
+
+const total = (codes: object) => Object.values(codes).reduce((sum: number, hours: number) => sum + hours, 0);
+
+// The detail row for a tag, split into cells
+const row = (lines: string[], tag: string) => lines.find(line => line.startsWith(`${tag},`))!.split(',');
+
+describe('Summary export', () => {
+  it('fills item detail hours from the codes each module published', () => {
+    const headCodes = calculateHeadActivityCodes(head.activityTimes, calculateHead(head, DEFAULT_SETTINGS), head.forming, 0);
+    const baffleCodes = calculateInternalActivityCodes(baffle.activityTimes, calculateInternal(baffle, DEFAULT_SETTINGS));
+
+    const project = createEmptyProject();
+    const [equipment] = project.equipment;
+    equipment.modules = { heads: { items: [head] }, internals: { items: [baffle] } };
+    equipment.summaries = {
+      ...equipment.summaries,
+      heads: summary('heads', { h1: { ...headCodes } }),
+      internals: summary('internals', { i1: { ...baffleCodes } }),
+    };
+
+    const lines = getSummaryLines(project, DEFAULT_SETTINGS.labourRates);
+
+    // Tag,Qty,Type,ID,Thk,Supply,MATCUT,FORMHD,FHEAD,PREHEAT,WSEG,WHEAD,BACGRI,NDE,Total/ea,Total
+    const headRow = row(lines, 'H1');
+    expect(Number(headRow[8])).toBeCloseTo(headCodes.FHEAD, 2);
+    expect(Number(headRow[11])).toBeCloseTo(headCodes.WHEAD, 2);
+    expect(Number(headRow[14])).toBeGreaterThan(0);
+    expect(Number(headRow[14])).toBeCloseTo(total(headCodes), 2);
+    expect(Number(headRow[15])).toBeCloseTo(total(headCodes) * 2, 2);
+
+    // Tag,Type,Qty,Weld,Leg,Length,MATCUT,FINT,PREHEAT,WINT,NDE,Total/ea,Total
+    const baffleRow = row(lines, 'B1');
+    expect(Number(baffleRow[9])).toBeCloseTo(baffleCodes.WINT, 2);
+    expect(Number(baffleRow[11])).toBeGreaterThan(0);
+    expect(Number(baffleRow[12])).toBeCloseTo(total(baffleCodes) * 3, 2);
+  });
+});
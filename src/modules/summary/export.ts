@@ -1,95 +1,206 @@
-import type { VesselProject } from '../../project/types';
+import type { VesselProject, ProjectEquipment, ProjectModules } from '../../project/types';
 import { MODULES } from '../../project/types';
+import type { ConsumableSettings, DepositByProcess, LabourRates } from '../../shared/types';
+import { calculateCost } from '../../engine/costing';
+import { calculateConsumables } from '../../engine/consumables';
+import { getEquipmentTotals, getJobTotals, getJobModuleSummary, getEquipmentLabel } from '../../engine/equipment';
+import { getFlangeLabel, getNozzleGroups } from '../nozzles/export';
 
 /**
  * Export full project summary to CSV for Excel
  */
-export function exportSummaryToCSV(project: VesselProject): void {
+export function exportSummaryToCSV(project: VesselProject, labourRates: LabourRates): void {
+  downloadCSV(getSummaryLines(project, labourRates), `${project.jobNumber || 'estimate'}_summary_${new Date().toISOString().split('T')[0]}.csv`);
+}
+
+/**
+ * CSV rows of the project summary - totals, cost roll-up and item detail
+ */
+export function getSummaryLines(project: VesselProject, labourRates: LabourRates): string[] {
   const lines: string[] = [];
   
   // Header info
   lines.push(`Welding Estimate Summary`);
   lines.push(`Job Number: ${project.jobNumber || '—'}`);
-  lines.push(`Vessel: ${project.vesselName || 'Untitled'}`);
+  lines.push(`Description: ${project.vesselName || 'Untitled'}`);
   lines.push(`Exported: ${new Date().toLocaleString()}`);
   lines.push('');
 
-  // Calculate grand totals
-  let grandTotalItems = 0;
-  let grandTotalHours = 0;
-  const allActivityCodes: Record<string, number> = {};
+  // Calculate grand totals - every equipment item × its quantity
+  const job = getJobTotals(project);
+  const grandTotalItems = job.itemCount;
+  const grandTotalHours = job.totalHours;
 
-  MODULES.forEach(mod => {
-    const summary = project.summaries[mod.id];
-    if (summary) {
-      grandTotalItems += summary.itemCount;
-      grandTotalHours += summary.totalHours;
-      Object.entries(summary.activityBreakdown).forEach(([code, hours]) => {
-        allActivityCodes[code] = (allActivityCodes[code] || 0) + (hours as number);
-      });
-    }
+  // Equipment section
+  lines.push('=== EQUIPMENT ===');
+  lines.push('Tag,Name,Qty,Hours/ea,Hours,Sell Price/ea,Sell Price');
+
+  project.equipment.forEach(equipment => {
+    const totals = getEquipmentTotals(equipment);
+    const unitCost = calculateCost(totals.activityBreakdown, labourRates, totals.directCost);
+    lines.push([
+      equipment.tag,
+      equipment.name,
+      equipment.quantity,
+      totals.totalHours.toFixed(2),
+      (totals.totalHours * equipment.quantity).toFixed(2),
+      unitCost.total.toFixed(2),
+      (unitCost.total * equipment.quantity).toFixed(2),
+    ].join(','));
   });
+  lines.push('');
 
   // Module breakdown section
   lines.push('=== MODULE BREAKDOWN ===');
-  lines.push('Module,Items,Hours');
+  lines.push('Module,Items,Hours,Sell Price');
   
   MODULES.forEach(mod => {
-    const summary = project.summaries[mod.id];
+    const summary = getJobModuleSummary(project, mod.id);
     if (summary && summary.itemCount > 0) {
-      lines.push(`${mod.name},${summary.itemCount},${summary.totalHours.toFixed(2)}`);
+      const moduleCost = calculateCost(summary.activityBreakdown, labourRates, summary.directCost);
+      lines.push(`${mod.name},${summary.itemCount},${summary.totalHours.toFixed(2)},${moduleCost.total.toFixed(2)}`);
     }
   });
   
-  lines.push(`TOTAL,${grandTotalItems},${grandTotalHours.toFixed(2)}`);
+  const cost = calculateCost(job.activityBreakdown, labourRates, job.directCost);
+  lines.push(`TOTAL,${grandTotalItems},${grandTotalHours.toFixed(2)},${cost.total.toFixed(2)}`);
   lines.push('');
 
   // Activity code breakdown
   lines.push('=== ACTIVITY CODE TOTALS ===');
-  lines.push('Code,Hours,Percentage');
+  lines.push('Code,Hours,Percentage,Rate,Labour');
   
-  Object.entries(allActivityCodes)
-    .sort((a, b) => b[1] - a[1])
-    .forEach(([code, hours]) => {
+  [...cost.byCode]
+    .sort((a, b) => b.hours - a.hours)
+    .forEach(({ code, hours, rate, labour }) => {
       const pct = grandTotalHours > 0 ? ((hours / grandTotalHours) * 100).toFixed(1) : '0';
-      lines.push(`${code},${hours.toFixed(2)},${pct}%`);
+      lines.push(`${code},${hours.toFixed(2)},${pct}%,${rate.toFixed(2)},${labour.toFixed(2)}`);
     });
   
-  lines.push(`TOTAL,${grandTotalHours.toFixed(2)},100%`);
+  lines.push(`TOTAL,${grandTotalHours.toFixed(2)},100%,,${cost.labour.toFixed(2)}`);
+  lines.push('');
+
+  // Cost roll-up
+  lines.push('=== COST ===');
+  lines.push(`Labour,${cost.labour.toFixed(2)}`);
+  lines.push(`Overhead (${labourRates.overheadPct}%),${cost.overhead.toFixed(2)}`);
+  if (cost.direct > 0) {
+    lines.push(`Direct Costs,${cost.direct.toFixed(2)}`);
+  }
+  lines.push(`Margin (${labourRates.marginPct}%),${cost.margin.toFixed(2)}`);
+  lines.push(`Sell Price,${cost.total.toFixed(2)}`);
+  lines.push('');
+
+  // Detailed module data, per equipment item
+  project.equipment.forEach(equipment => {
+    lines.push(`##### ${getEquipmentLabel(equipment)} - Qty ${equipment.quantity} #####`);
+    lines.push('');
+    pushModuleDetail(lines, equipment.modules, equipment.summaries);
+  });
+
+  return lines;
+}
+
+/**
+ * Export the consumables report to CSV for purchasing
+ */
+export function exportConsumablesToCSV(project: VesselProject, consumables: ConsumableSettings): void {
+  const lines: string[] = [];
+
+  lines.push(`Consumables Estimate`);
+  lines.push(`Job Number: ${project.jobNumber || '—'}`);
+  lines.push(`Description: ${project.vesselName || 'Untitled'}`);
+  lines.push(`Exported: ${new Date().toLocaleString()}`);
+  lines.push(`Weld metal density: ${consumables.density} g/cm³`);
   lines.push('');
 
-  // Detailed module data
+  const report = calculateConsumables(getProjectDeposits(project), consumables);
+
+  lines.push('=== FILLER METAL ===');
+  lines.push('Process,Filler,Deposited (kg),Efficiency (%),Filler (kg),Flux (kg),Gas,Gas (L),Arc Time (hrs)');
+  report.lines.forEach(l => {
+    lines.push([
+      l.process,
+      l.filler,
+      l.depositedKg.toFixed(2),
+      consumables.processes[l.process].efficiency,
+      l.fillerKg.toFixed(2),
+      l.fluxKg.toFixed(2),
+      l.gas || '-',
+      l.gasLitres.toFixed(0),
+      l.arcTime.toFixed(2),
+    ].join(','));
+  });
+  lines.push(`TOTAL,,${report.totalDepositedKg.toFixed(2)},,${report.totalFillerKg.toFixed(2)},${report.totalFluxKg.toFixed(2)},,,`);
+  lines.push('');
+
+  lines.push('=== SHIELDING GAS ===');
+  lines.push('Gas,Litres,m³');
+  Object.entries(report.gasByType).forEach(([gas, litres]) => {
+    lines.push(`${gas},${litres.toFixed(0)},${(litres / 1000).toFixed(2)}`);
+  });
+
+  downloadCSV(lines, `${project.jobNumber || 'estimate'}_consumables_${new Date().toISOString().split('T')[0]}.csv`);
+}
+
+/**
+ * Weld metal by process across the job - every equipment item × its quantity
+ */
+export function getProjectDeposits(project: VesselProject): DepositByProcess {
+  return getJobTotals(project).deposits;
+}
+
+/**
+ * Item detail sections for one equipment item's modules
+ */
+function pushModuleDetail(lines: string[], modules: ProjectModules, summaries: ProjectEquipment['summaries']): void {
   // Nozzles
-  const nozzlesData = project.modules.nozzles as { nozzles?: any[] } | undefined;
+  const nozzlesData = modules.nozzles as { nozzles?: any[] } | undefined;
   if (nozzlesData?.nozzles && nozzlesData.nozzles.length > 0) {
     lines.push('=== NOZZLES DETAIL ===');
-    lines.push('Tag,Qty,OD,Thk,Type,CUTNOZZ,FNOZZ,PREHEAT,WNOZZ,BACGRI,MATCUT,NDE,Total/ea,Total');
+    lines.push('Tag,Qty,OD,Thk,Type,Flange,CUTNOZZ,FNOZZ,PREHEAT,WNOZZ,BACGRI,MATCUT,NDE,CUTPAD,FORMPAD,WPAD,FPIPE,WPIPE,WDAVIT,MACHMW,BOLTMW,Total/ea,Total');
     
-    nozzlesData.nozzles.forEach((n: any) => {
-      const codes = n.activityCodes || {};
-      const perItem = Object.values(codes).reduce((s: number, v: any) => s + (v || 0), 0) as number;
-      lines.push([
-        n.tag,
-        n.quantity,
-        n.geometry?.nozzleOD || '',
-        n.geometry?.shellThick || '',
-        n.geometry?.jointType === 'doublebevel' ? 'DB' : 'SB',
-        (codes.CUTNOZZ || 0).toFixed(2),
-        (codes.FNOZZ || 0).toFixed(2),
-        (codes.PREHEAT || 0).toFixed(2),
-        (codes.WNOZZ || 0).toFixed(2),
-        (codes.BACGRI || 0).toFixed(2),
-        (codes.MATCUT || 0).toFixed(2),
-        (codes.NDE || 0).toFixed(2),
-        perItem.toFixed(2),
-        (perItem * n.quantity).toFixed(2),
-      ].join(','));
+    // Shell and head nozzles grouped separately
+    getNozzleGroups(nozzlesData.nozzles).forEach(({ label, items }) => {
+      lines.push(`${label} Nozzles`);
+      // Group hours from the nozzles summary - stored nozzles carry no calculated codes
+      const groupHours = summaries.nozzles?.groups?.find(g => g.label === label)?.hours ?? 0;
+      items.forEach((n: any) => {
+        const codes = n.activityCodes || {};
+        const perItem = Object.values(codes).reduce((s: number, v: any) => s + (v || 0), 0) as number;
+        lines.push([
+          n.tag,
+          n.quantity,
+          n.geometry?.nozzleOD || '',
+          n.geometry?.shellThick || '',
+          n.geometry?.jointType === 'doublebevel' ? 'DB' : 'SB',
+          getFlangeLabel(n),
+          (codes.CUTNOZZ || 0).toFixed(2),
+          (codes.FNOZZ || 0).toFixed(2),
+          (codes.PREHEAT || 0).toFixed(2),
+          (codes.WNOZZ || 0).toFixed(2),
+          (codes.BACGRI || 0).toFixed(2),
+          (codes.MATCUT || 0).toFixed(2),
+          (codes.NDE || 0).toFixed(2),
+          (codes.CUTPAD || 0).toFixed(2),
+          (codes.FORMPAD || 0).toFixed(2),
+          (codes.WPAD || 0).toFixed(2),
+          (codes.FPIPE || 0).toFixed(2),
+          (codes.WPIPE || 0).toFixed(2),
+          (codes.WDAVIT || 0).toFixed(2),
+          (codes.MACHMW || 0).toFixed(2),
+          (codes.BOLTMW || 0).toFixed(2),
+          perItem.toFixed(2),
+          (perItem * n.quantity).toFixed(2),
+        ].join(','));
+      });
+      lines.push(`${label} Subtotal,${items.reduce((sum, n) => sum + n.quantity, 0)},${','.repeat(20)}${groupHours.toFixed(2)}`);
     });
     lines.push('');
   }
 
   // Long Welds
-  const longWeldsData = project.modules.longwelds as { welds?: any[] } | undefined;
+  const longWeldsData = modules.longwelds as { welds?: any[] } | undefined;
   if (longWeldsData?.welds && longWeldsData.welds.length > 0) {
     lines.push('=== LONG WELDS DETAIL ===');
     lines.push('Tag,Qty,Thk,Length,Type,MATCUT,ROLL,FLON,WELON,BACMIL,SUBLON,MANLON,NDE,Total/ea,Total');
@@ -119,7 +230,7 @@ export function exportSummaryToCSV(project: VesselProject): void {
   }
 
   // Circ Welds
-  const circWeldsData = project.modules.circwelds as { welds?: any[] } | undefined;
+  const circWeldsData = modules.circwelds as { welds?: any[] } | undefined;
   if (circWeldsData?.welds && circWeldsData.welds.length > 0) {
     lines.push('=== CIRC WELDS DETAIL ===');
     lines.push('Tag,Qty,Thk,ID,Circ,Type,CRANE,FCIRC,PREHEAT,WECIRC,BACMIL,SUBCIRC,MANCIR,NDE,Total/ea,Total');
@@ -150,8 +261,40 @@ export function exportSummaryToCSV(project: VesselProject): void {
     lines.push('');
   }
 
+  // Heads
+  const headsData = modules.heads as { items?: any[] } | undefined;
+  if (headsData?.items && headsData.items.length > 0) {
+    lines.push('=== HEADS DETAIL ===');
+    lines.push('Tag,Qty,Type,ID,Thk,Supply,MATCUT,FORMHD,FHEAD,PREHEAT,WSEG,WHEAD,BACGRI,NDE,Total/ea,Total');
+    
+    headsData.items.forEach((h: any) => {
+      // Codes as the Heads module published them - stored items carry none
+      const codes = summaries.heads?.itemCodes?.[h.id] ?? {};
+      const perItem = Object.values(codes).reduce((s: number, v: any) => s + (v || 0), 0) as number;
+      lines.push([
+        h.tag,
+        h.quantity,
+        h.geometry?.headType || '',
+        h.geometry?.insideDiameter || '',
+        h.geometry?.thickness || '',
+        h.forming?.source === 'inHouse' ? 'In-house' : 'Bought-in',
+        (codes.MATCUT || 0).toFixed(2),
+        (codes.FORMHD || 0).toFixed(2),
+        (codes.FHEAD || 0).toFixed(2),
+        (codes.PREHEAT || 0).toFixed(2),
+        (codes.WSEG || 0).toFixed(2),
+        (codes.WHEAD || 0).toFixed(2),
+        (codes.BACGRI || 0).toFixed(2),
+        (codes.NDE || 0).toFixed(2),
+        perItem.toFixed(2),
+        (perItem * h.quantity).toFixed(2),
+      ].join(','));
+    });
+    lines.push('');
+  }
+
   // Pipe Joints
-  const pipeJointsData = project.modules.pipejoints as { joints?: any[] } | undefined;
+  const pipeJointsData = modules.pipejoints as { joints?: any[] } | undefined;
   if (pipeJointsData?.joints && pipeJointsData.joints.length > 0) {
     lines.push('=== PIPE JOINTS DETAIL ===');
     lines.push('Tag,Qty,NPS,Schedule,OD,Wall,FPIPE,PREHEAT,WPIPE,NDE,Total/ea,Total');
@@ -180,13 +323,98 @@ export function exportSummaryToCSV(project: VesselProject): void {
     lines.push('');
   }
 
-  // Build and download CSV
+  // Internals
+  const internalsData = modules.internals as { items?: any[] } | undefined;
+  if (internalsData?.items && internalsData.items.length > 0) {
+    lines.push('=== INTERNALS DETAIL ===');
+    lines.push('Tag,Type,Qty,Weld,Leg,Length,MATCUT,FINT,PREHEAT,WINT,NDE,Total/ea,Total');
+    
+    internalsData.items.forEach((i: any) => {
+      const codes = summaries.internals?.itemCodes?.[i.id] ?? {};
+      const perItem = Object.values(codes).reduce((s: number, v: any) => s + (v || 0), 0) as number;
+      lines.push([
+        i.tag,
+        i.itemType || '',
+        i.quantity,
+        i.geometry?.weldType === 'partialpen' ? 'PP' : 'FW',
+        i.geometry?.legSize || '',
+        i.results?.weldLength ? i.results.weldLength.toFixed(0) : (i.geometry?.weldLength || ''),
+        (codes.MATCUT || 0).toFixed(2),
+        (codes.FINT || 0).toFixed(2),
+        (codes.PREHEAT || 0).toFixed(2),
+        (codes.WINT || 0).toFixed(2),
+        (codes.NDE || 0).toFixed(2),
+        perItem.toFixed(2),
+        (perItem * i.quantity).toFixed(2),
+      ].join(','));
+    });
+    lines.push('');
+  }
+
+  // Externals
+  const externalsData = modules.externals as { items?: any[] } | undefined;
+  if (externalsData?.items && externalsData.items.length > 0) {
+    lines.push('=== EXTERNALS DETAIL ===');
+    lines.push('Tag,Template,Qty,MATCUT,FEXT,PREHEAT,WEXT,NDE,Total/ea,Total');
+    
+    externalsData.items.forEach((e: any) => {
+      const codes = summaries.externals?.itemCodes?.[e.id] ?? {};
+      const perItem = Object.values(codes).reduce((s: number, v: any) => s + (v || 0), 0) as number;
+      lines.push([
+        e.tag,
+        e.templateType || '',
+        e.quantity,
+        (codes.MATCUT || 0).toFixed(2),
+        (codes.FEXT || 0).toFixed(2),
+        (codes.PREHEAT || 0).toFixed(2),
+        (codes.WEXT || 0).toFixed(2),
+        (codes.NDE || 0).toFixed(2),
+        perItem.toFixed(2),
+        (perItem * e.quantity).toFixed(2),
+      ].join(','));
+    });
+    lines.push('');
+  }
+
+  // Tubesheets
+  const tubesheetsData = modules.tubesheets as { items?: any[] } | undefined;
+  if (tubesheetsData?.items && tubesheetsData.items.length > 0) {
+    lines.push('=== TUBESHEETS DETAIL ===');
+    lines.push('Tag,Qty,Tubes,Tube OD,BWG,Joint,Expanded,DRILTS,MATCUT,FTUBE,PREHEAT,WTUBE,EXPTUB,NDE,Total/ea,Total');
+    
+    tubesheetsData.items.forEach((t: any) => {
+      const codes = summaries.tubesheets?.itemCodes?.[t.id] ?? {};
+      const perItem = Object.values(codes).reduce((s: number, v: any) => s + (v || 0), 0) as number;
+      lines.push([
+        t.tag,
+        t.quantity,
+        t.geometry?.tubeCount ?? '',
+        t.geometry?.tubeOD ?? '',
+        t.geometry?.gauge ?? '',
+        t.joint?.weldType || '',
+        t.joint?.expanded ? 'Yes' : 'No',
+        (codes.DRILTS || 0).toFixed(2),
+        (codes.MATCUT || 0).toFixed(2),
+        (codes.FTUBE || 0).toFixed(2),
+        (codes.PREHEAT || 0).toFixed(2),
+        (codes.WTUBE || 0).toFixed(2),
+        (codes.EXPTUB || 0).toFixed(2),
+        (codes.NDE || 0).toFixed(2),
+        perItem.toFixed(2),
+        (perItem * t.quantity).toFixed(2),
+      ].join(','));
+    });
+    lines.push('');
+  }
+}
+
+function downloadCSV(lines: string[], filename: string): void {
   const csvContent = lines.join('\n');
   const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
   const link = document.createElement('a');
   const url = URL.createObjectURL(blob);
   link.setAttribute('href', url);
-  link.setAttribute('download', `${project.jobNumber || 'estimate'}_summary_${new Date().toISOString().split('T')[0]}.csv`);
+  link.setAttribute('download', filename);
   link.style.visibility = 'hidden';
   document.body.appendChild(link);
   link.click();
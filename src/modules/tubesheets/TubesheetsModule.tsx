@@ -0,0 +1,601 @@
+import { useState, useMemo, useCallback, useEffect } from 'react';
+import type { PreheatInput } from '../../shared/types';
+import { NumberInput, PreheatPanel } from '../../shared/components';
+import { useProject } from '../../project';
+import type {
+  TubesheetItem,
+  TubesheetGeometry,
+  TubeJoint,
+  TubesheetRates,
+  TubesheetActivityTimes,
+  TubesheetsModuleData,
+  TubesheetActivityCodes,
+  TubeLayout,
+  TubeWeldType,
+} from './types';
+import {
+  DEFAULT_TUBESHEET_GEOMETRY,
+  DEFAULT_TUBE_JOINT,
+  DEFAULT_TUBESHEET_RATES,
+  DEFAULT_TUBESHEET_ACTIVITY_TIMES,
+  TUBE_LAYOUT_LABELS,
+  TUBE_WELD_TYPE_LABELS,
+} from './types';
+import { calculateTubesheet, calculateTubesheetActivityCodes, applyTubesheetPreheat, applyTubesheetNde } from './engine';
+import { getAllGauges, getTubeWall, TUBE_ODS } from './tubeData';
+import { TubeLayoutDiagram } from './components/TubeLayoutDiagram';
+import { sumItemDeposits } from '../../engine/consumables';
+import { sumItemNde } from '../../engine/nde';
+import { getNdeCoverage } from '../offer/types';
+import type { OfferData } from '../offer/types';
+import './TubesheetsModule.css';
+
+const LAYOUTS = Object.keys(TUBE_LAYOUT_LABELS) as TubeLayout[];
+const WELD_TYPES = Object.keys(TUBE_WELD_TYPE_LABELS) as TubeWeldType[];
+const GAUGES = getAllGauges();
+
+type TabType = 'list' | 'editor';
+
+function generateId(): string {
+  return Math.random().toString(36).substr(2, 9);
+}
+
+function createNewTubesheet(tag: string): TubesheetItem {
+  return {
+    id: generateId(),
+    tag,
+    quantity: 1,
+    dpiCoverage: 100,
+    geometry: { ...DEFAULT_TUBESHEET_GEOMETRY },
+    joint: { ...DEFAULT_TUBE_JOINT },
+    rates: { ...DEFAULT_TUBESHEET_RATES },
+    activityTimes: { ...DEFAULT_TUBESHEET_ACTIVITY_TIMES },
+  };
+}
+
+// Ensure item has all required fields (migration for older data)
+function migrateItem(item: TubesheetItem): TubesheetItem {
+  return {
+    ...item,
+    dpiCoverage: item.dpiCoverage ?? 100,
+    geometry: {
+      ...DEFAULT_TUBESHEET_GEOMETRY,
+      ...item.geometry,
+    },
+    joint: {
+      ...DEFAULT_TUBE_JOINT,
+      ...item.joint,
+    },
+    rates: {
+      ...DEFAULT_TUBESHEET_RATES,
+      ...item.rates,
+    },
+    activityTimes: {
+      ...DEFAULT_TUBESHEET_ACTIVITY_TIMES,
+      ...item.activityTimes,
+    },
+  };
+}
+
+export function TubesheetsModule() {
+  const { getModuleData, setModuleData, updateModuleSummary, settings } = useProject();
+
+  // Load module data from project and migrate if needed
+  const moduleData = getModuleData<TubesheetsModuleData>('tubesheets');
+  const items = (moduleData?.items || []).map(migrateItem);
+  const offerNde = getModuleData<OfferData>('offer')?.nde;
+  const ndeCoverage = useMemo(() => getNdeCoverage(offerNde), [offerNde]);
+
+  const [activeTab, setActiveTab] = useState<TabType>('list');
+  const [selectedItemId, setSelectedItemId] = useState<string | null>(items[0]?.id || null);
+
+  // Update items helper
+  const updateItems = useCallback((updater: (prev: TubesheetItem[]) => TubesheetItem[]) => {
+    const newItems = updater(items);
+    setModuleData<TubesheetsModuleData>('tubesheets', { items: newItems });
+  }, [items, setModuleData]);
+
+  // Calculate results for all items
+  const itemsWithResults = useMemo(() => {
+    return items.map(item => {
+      const results = calculateTubesheet(item);
+      const { activityTimes: heated, preheat: preheatResult } = applyTubesheetPreheat(item, results, settings);
+      const { activityTimes, nde: ndeResult } = applyTubesheetNde(item, heated, results, ndeCoverage, settings);
+      const activityCodes = calculateTubesheetActivityCodes(activityTimes, results);
+      return { ...item, activityTimes, results, activityCodes, preheatResult, ndeResult };
+    });
+  }, [items, settings, ndeCoverage]);
+
+  // Update module summary whenever results change
+  useEffect(() => {
+    const itemCount = itemsWithResults.reduce((sum, i) => sum + i.quantity, 0);
+    const totalHours = itemsWithResults.reduce((sum, i) => {
+      const codes = i.activityCodes;
+      return sum + (Object.values(codes).reduce((s, v) => s + v, 0) * i.quantity);
+    }, 0);
+
+    // Build activity breakdown
+    const activityBreakdown: Record<string, number> = {};
+    itemsWithResults.forEach(i => {
+      const qty = i.quantity;
+      Object.entries(i.activityCodes).forEach(([code, hours]) => {
+        activityBreakdown[code] = (activityBreakdown[code] || 0) + hours * qty;
+      });
+    });
+
+    updateModuleSummary('tubesheets', {
+      moduleId: 'tubesheets',
+      moduleName: 'Tubesheets',
+      itemCount,
+      totalHours,
+      activityBreakdown,
+      deposits: sumItemDeposits(itemsWithResults),
+      nde: sumItemNde(itemsWithResults),
+      itemCodes: Object.fromEntries(itemsWithResults.map(i => [i.id, { ...i.activityCodes }])),
+    });
+  }, [itemsWithResults, updateModuleSummary]);
+
+  // Get current item
+  const currentItem = useMemo(() =>
+    itemsWithResults.find(i => i.id === selectedItemId) || itemsWithResults[0],
+    [itemsWithResults, selectedItemId]
+  );
+
+  // Calculate totals
+  const moduleTotals = useMemo(() => {
+    const totals: TubesheetActivityCodes = { DRILTS: 0, MATCUT: 0, FTUBE: 0, PREHEAT: 0, WTUBE: 0, EXPTUB: 0, NDE: 0 };
+    let totalItems = 0;
+    let totalTubes = 0;
+    let grandTotal = 0;
+
+    itemsWithResults.forEach(item => {
+      const qty = item.quantity;
+      totalItems += qty;
+      totalTubes += item.geometry.tubeCount * qty;
+      if (item.activityCodes) {
+        Object.keys(totals).forEach(key => {
+          const k = key as keyof TubesheetActivityCodes;
+          totals[k] += item.activityCodes![k] * qty;
+        });
+        grandTotal += Object.values(item.activityCodes).reduce((sum, v) => sum + v, 0) * qty;
+      }
+    });
+
+    return { totals, totalItems, totalTubes, grandTotal };
+  }, [itemsWithResults]);
+
+  // Update single item
+  const updateItem = useCallback((id: string, updates: Partial<TubesheetItem>) => {
+    updateItems(prev => prev.map(i => i.id === id ? { ...i, ...updates } : i));
+  }, [updateItems]);
+
+  const updateGeometry = <K extends keyof TubesheetGeometry>(field: K, value: TubesheetGeometry[K]) => {
+    if (!currentItem) return;
+    updateItem(currentItem.id, {
+      geometry: { ...currentItem.geometry, [field]: value }
+    });
+  };
+
+  const updateJoint = <K extends keyof TubeJoint>(field: K, value: TubeJoint[K]) => {
+    if (!currentItem) return;
+    updateItem(currentItem.id, {
+      joint: { ...currentItem.joint, [field]: value }
+    });
+  };
+
+  const updateRate = (field: keyof TubesheetRates, value: number) => {
+    if (!currentItem) return;
+    updateItem(currentItem.id, {
+      rates: { ...currentItem.rates, [field]: value }
+    });
+  };
+
+  const setPreheat = (preheat: PreheatInput) => {
+    if (!currentItem) return;
+    updateItem(currentItem.id, { preheat });
+  };
+
+  const updateActivity = (field: keyof TubesheetActivityTimes, value: number) => {
+    if (!currentItem) return;
+    updateItem(currentItem.id, {
+      activityTimes: { ...currentItem.activityTimes, [field]: value }
+    });
+  };
+
+  // Add new item
+  const addItem = () => {
+    const newItem = createNewTubesheet(`TS${items.length + 1}`);
+    updateItems(prev => [...prev, newItem]);
+    setSelectedItemId(newItem.id);
+    setActiveTab('list');
+    setTimeout(() => {
+      const input = document.querySelector(`input[data-id="${newItem.id}"]`) as HTMLInputElement;
+      if (input) {
+        input.focus();
+        input.select();
+      }
+    }, 0);
+  };
+
+  // Duplicate item
+  const duplicateItem = (item: TubesheetItem) => {
+    const newItem: TubesheetItem = {
+      ...item,
+      id: generateId(),
+      tag: `${item.tag}-copy`,
+      geometry: { ...item.geometry },
+      joint: { ...item.joint },
+      rates: { ...item.rates },
+      activityTimes: { ...item.activityTimes },
+    };
+    updateItems(prev => [...prev, newItem]);
+  };
+
+  // Delete item
+  const deleteItem = (id: string) => {
+    updateItems(prev => prev.filter(i => i.id !== id));
+    if (selectedItemId === id) {
+      const remaining = items.filter(i => i.id !== id);
+      setSelectedItemId(remaining.length > 0 ? remaining[0].id : null);
+    }
+  };
+
+  return (
+    <div className="tubesheets-module">
+      <div className="module-toolbar">
+        <div className="toolbar-left">
+          <button className={activeTab === 'list' ? 'active' : ''} onClick={() => setActiveTab('list')}>
+            List
+          </button>
+          <button className={activeTab === 'editor' ? 'active' : ''} onClick={() => setActiveTab('editor')} disabled={!currentItem}>
+            Editor
+          </button>
+        </div>
+        <div className="toolbar-center">
+          <button className="btn-add" onClick={addItem}>+ Add Tubesheet</button>
+        </div>
+        <div className="toolbar-right">
+          <span className="stats">{moduleTotals.totalItems} tubesheets • {moduleTotals.totalTubes} tubes • {moduleTotals.grandTotal.toFixed(1)} hrs</span>
+        </div>
+      </div>
+
+      {/* LIST TAB */}
+      {activeTab === 'list' && (
+        <div className="weld-table-container">
+          {itemsWithResults.length === 0 ? (
+            <p className="empty-message">No tubesheets yet. Click "+ Add Tubesheet" to start.</p>
+          ) : (
+            <table className="weld-table">
+              <thead>
+                <tr>
+                  <th>Tag</th>
+                  <th>Qty</th>
+                  <th>Tubes</th>
+                  <th>Tube</th>
+                  <th>Joint</th>
+                  <th>DRILTS</th>
+                  <th>MATCUT</th>
+                  <th>FTUBE</th>
+                  <th>PREHEAT</th>
+                  <th>WTUBE</th>
+                  <th>EXPTUB</th>
+                  <th>NDE</th>
+                  <th>Total/ea</th>
+                  <th>Total</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {itemsWithResults.map((item) => {
+                  const codes = item.activityCodes!;
+                  const totalPer = Object.values(codes).reduce((s, v) => s + v, 0);
+                  const totalQty = totalPer * item.quantity;
+                  return (
+                    <tr key={item.id} className={item.id === selectedItemId ? 'selected' : ''}>
+                      <td>
+                        <input
+                          type="text"
+                          className="tag-input"
+                          value={item.tag}
+                          onChange={(e) => updateItem(item.id, { tag: e.target.value })}
+                          data-id={item.id}
+                        />
+                      </td>
+                      <td>
+                        <NumberInput
+                          value={item.quantity}
+                          onChange={(val) => updateItem(item.id, { quantity: val })}
+                          min={1}
+                          className="qty-input"
+                        />
+                      </td>
+                      <td>{item.geometry.tubeCount}</td>
+                      <td>{item.geometry.tubeOD} × {item.geometry.gauge} BWG</td>
+                      <td>{TUBE_WELD_TYPE_LABELS[item.joint.weldType]}{item.joint.expanded ? ' + exp' : ''}</td>
+                      <td>{codes.DRILTS.toFixed(2)}</td>
+                      <td>{codes.MATCUT.toFixed(2)}</td>
+                      <td>{codes.FTUBE.toFixed(2)}</td>
+                      <td>{codes.PREHEAT.toFixed(2)}</td>
+                      <td className="weld-time">{codes.WTUBE.toFixed(2)}</td>
+                      <td>{codes.EXPTUB.toFixed(2)}</td>
+                      <td>{codes.NDE.toFixed(2)}</td>
+                      <td className="total-cell">{totalPer.toFixed(2)}</td>
+                      <td className="total-cell">{totalQty.toFixed(2)}</td>
+                      <td className="actions-cell">
+                        <button className="btn-action" onClick={() => { setSelectedItemId(item.id); setActiveTab('editor'); }}>Edit</button>
+                        <button className="btn-action" onClick={() => duplicateItem(item)}>Duplicate</button>
+                        <button className="btn-action btn-delete" onClick={() => deleteItem(item.id)}>Delete</button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+              <tfoot>
+                <tr className="totals-row">
+                  <td><strong>TOTALS</strong></td>
+                  <td><strong>{moduleTotals.totalItems}</strong></td>
+                  <td><strong>{moduleTotals.totalTubes}</strong></td>
+                  <td colSpan={2}></td>
+                  <td><strong>{moduleTotals.totals.DRILTS.toFixed(2)}</strong></td>
+                  <td><strong>{moduleTotals.totals.MATCUT.toFixed(2)}</strong></td>
+                  <td><strong>{moduleTotals.totals.FTUBE.toFixed(2)}</strong></td>
+                  <td><strong>{moduleTotals.totals.PREHEAT.toFixed(2)}</strong></td>
+                  <td className="weld-time"><strong>{moduleTotals.totals.WTUBE.toFixed(2)}</strong></td>
+                  <td><strong>{moduleTotals.totals.EXPTUB.toFixed(2)}</strong></td>
+                  <td><strong>{moduleTotals.totals.NDE.toFixed(2)}</strong></td>
+                  <td></td>
+                  <td className="grand-total"><strong>{moduleTotals.grandTotal.toFixed(2)}</strong></td>
+                  <td></td>
+                </tr>
+              </tfoot>
+            </table>
+          )}
+        </div>
+      )}
+
+      {/* EDITOR TAB */}
+      {activeTab === 'editor' && currentItem && (
+        <div className="editor-grid">
+          <div className="editor-panel">
+            <div className="weld-selector">
+              <select value={selectedItemId || ''} onChange={(e) => setSelectedItemId(e.target.value)}>
+                {items.map(i => (
+                  <option key={i.id} value={i.id}>
+                    {i.tag} ({i.geometry.tubeCount} tubes)
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <section className="section">
+              <h3>🔩 Tubes</h3>
+              <div className="input-row">
+                <div className="input-group">
+                  <label>Tube OD (mm)</label>
+                  <NumberInput value={currentItem.geometry.tubeOD} step={0.01} min={0} onChange={(val) => updateGeometry('tubeOD', val)} />
+                </div>
+                <div className="input-group">
+                  <label>Gauge (BWG)</label>
+                  <select value={currentItem.geometry.gauge} onChange={(e) => updateGeometry('gauge', Number(e.target.value))}>
+                    {!GAUGES.includes(currentItem.geometry.gauge) && (
+                      <option value={currentItem.geometry.gauge}>{currentItem.geometry.gauge} - not in table</option>
+                    )}
+                    {GAUGES.map(g => <option key={g} value={g}>{g} BWG - {getTubeWall(g).toFixed(2)}mm</option>)}
+                  </select>
+                </div>
+              </div>
+              <div className="input-row">
+                <div className="input-group">
+                  <label>Tube Count</label>
+                  <NumberInput value={currentItem.geometry.tubeCount} min={0} onChange={(val) => updateGeometry('tubeCount', val)} />
+                </div>
+                <div className="input-group">
+                  <label>Pitch (mm)</label>
+                  <NumberInput value={currentItem.geometry.pitch} step={0.01} min={0} onChange={(val) => updateGeometry('pitch', val)} />
+                </div>
+              </div>
+              <div className="input-row">
+                <div className="input-group">
+                  <label>Layout</label>
+                  <select value={currentItem.geometry.layout} onChange={(e) => updateGeometry('layout', e.target.value as TubeLayout)}>
+                    {LAYOUTS.map(l => <option key={l} value={l}>{TUBE_LAYOUT_LABELS[l]}</option>)}
+                  </select>
+                </div>
+                <div className="input-group">
+                  <label>Tubesheet Thk (mm)</label>
+                  <NumberInput value={currentItem.geometry.tubesheetThickness} min={0} onChange={(val) => updateGeometry('tubesheetThickness', val)} />
+                </div>
+              </div>
+              <div className="input-group">
+                <label>Standard OD</label>
+                <select value="" onChange={(e) => e.target.value && updateGeometry('tubeOD', Number(e.target.value))}>
+                  <option value="">Pick a standard tube OD…</option>
+                  {TUBE_ODS.map(od => <option key={od} value={od}>{od}mm ({(od / 25.4).toFixed(3).replace(/\.?0+$/, '')}")</option>)}
+                </select>
+              </div>
+            </section>
+
+            <section className="section">
+              <h3>🔥 Tube Joint</h3>
+              <div className="input-row">
+                <div className="input-group">
+                  <label>Weld Type</label>
+                  <select value={currentItem.joint.weldType} onChange={(e) => updateJoint('weldType', e.target.value as TubeWeldType)}>
+                    {WELD_TYPES.map(t => <option key={t} value={t}>{TUBE_WELD_TYPE_LABELS[t]}</option>)}
+                  </select>
+                </div>
+                <div className="input-group">
+                  <label>Passes</label>
+                  <NumberInput value={currentItem.joint.passes} min={1} onChange={(val) => updateJoint('passes', val)} />
+                </div>
+              </div>
+              <div className="input-row">
+                <div className="input-group">
+                  <label>Leg Size (mm)</label>
+                  <NumberInput value={currentItem.joint.legSize} step={0.1} min={0} onChange={(val) => updateJoint('legSize', val)} />
+                </div>
+                <div className="input-group">
+                  <label className="checkbox-label">
+                    <input type="checkbox" checked={currentItem.joint.expanded} onChange={(e) => updateJoint('expanded', e.target.checked)} />
+                    Expanded
+                  </label>
+                </div>
+              </div>
+              {currentItem.results.warnings.map((warning, i) => (
+                <p key={i} className="tubesheets-warning">⚠ {warning}</p>
+              ))}
+            </section>
+
+            <section className="section">
+              <h3>🔥 Preheat</h3>
+              <PreheatPanel value={currentItem.preheat} result={currentItem.preheatResult} onChange={setPreheat} />
+            </section>
+
+            <section className="section">
+              <h3>⚙️ Shop Rates</h3>
+              <div className="input-row">
+                <div className="input-group">
+                  <label>Orbital Speed (mm/min)</label>
+                  <NumberInput value={currentItem.rates.orbitalSpeed} min={0} onChange={(val) => updateRate('orbitalSpeed', val)} />
+                </div>
+                <div className="input-group">
+                  <label>Index (min/tube)</label>
+                  <NumberInput value={currentItem.rates.indexMinutes} step={0.25} min={0} onChange={(val) => updateRate('indexMinutes', val)} />
+                </div>
+              </div>
+              <div className="input-row">
+                <div className="input-group">
+                  <label>Expand Feed (mm/min)</label>
+                  <NumberInput value={currentItem.rates.expansionRate} min={0} onChange={(val) => updateRate('expansionRate', val)} />
+                </div>
+                <div className="input-group">
+                  <label>Expand Set (min/tube)</label>
+                  <NumberInput value={currentItem.rates.expansionSetupMinutes} step={0.25} min={0} onChange={(val) => updateRate('expansionSetupMinutes', val)} />
+                </div>
+              </div>
+              <div className="input-row">
+                <div className="input-group">
+                  <label>Drill Feed (mm/min)</label>
+                  <NumberInput value={currentItem.rates.drillRate} min={0} onChange={(val) => updateRate('drillRate', val)} />
+                </div>
+                <div className="input-group">
+                  <label>Drill Set (min/hole)</label>
+                  <NumberInput value={currentItem.rates.drillSetupMinutes} step={0.25} min={0} onChange={(val) => updateRate('drillSetupMinutes', val)} />
+                </div>
+              </div>
+              <div className="input-row">
+                <div className="input-group">
+                  <label>DPI (min/tube)</label>
+                  <NumberInput value={currentItem.rates.dpiMinutes} step={0.25} min={0} onChange={(val) => updateRate('dpiMinutes', val)} />
+                </div>
+                <div className="input-group">
+                  <label>DPI Coverage (%)</label>
+                  <NumberInput value={currentItem.ndeResult ? (currentItem.ndeResult.exams.find(e => e.method === 'DPI')?.coverage ?? 0) : currentItem.dpiCoverage} min={0} max={100} disabled={!!currentItem.ndeResult} onChange={(val) => updateItem(currentItem.id, { dpiCoverage: val })} />
+                </div>
+              </div>
+            </section>
+          </div>
+
+          <div className="editor-panel center">
+            <TubeLayoutDiagram
+              tubeOD={currentItem.geometry.tubeOD}
+              pitch={currentItem.geometry.pitch}
+              layout={currentItem.geometry.layout}
+            />
+            <p className="diagram-caption">
+              {TUBE_LAYOUT_LABELS[currentItem.geometry.layout]} • Bundle Ø{currentItem.results.bundleDiameter.toFixed(0)}mm
+            </p>
+          </div>
+
+          <div className="editor-panel">
+            <div className="result-card">
+              <h3>TOTAL TIME</h3>
+              <div className="value">
+                {Object.values(currentItem.activityCodes).reduce((s, v) => s + v, 0).toFixed(1)}
+              </div>
+              <div className="unit">hours/tubesheet</div>
+            </div>
+
+            <div className="results-summary">
+              <div className="result-row">
+                <span>Tube Wall</span>
+                <span>{currentItem.results.tubeWall.toFixed(2)} mm</span>
+              </div>
+              <div className="result-row">
+                <span>Weld / Tube</span>
+                <span>{currentItem.results.weldLength.toFixed(0)} mm</span>
+              </div>
+              <div className="result-row">
+                <span>Weld Min / Tube</span>
+                <span>{currentItem.results.perTube.weldMinutes.toFixed(2)}</span>
+              </div>
+              <div className="result-row">
+                <span>Expand Min / Tube</span>
+                <span>{currentItem.results.perTube.expandMinutes.toFixed(2)}</span>
+              </div>
+              <div className="result-row">
+                <span>Drill Min / Hole</span>
+                <span>{currentItem.results.perTube.drillMinutes.toFixed(2)}</span>
+              </div>
+              <div className="result-row highlight">
+                <span>Weld Time</span>
+                <span>{currentItem.results.times.weldTime.toFixed(2)} hrs</span>
+              </div>
+            </div>
+
+            <section className="section">
+              <h3>⏱️ Activity Times</h3>
+              <div className="activity-list">
+                <div className="act-row">
+                  <label>Mark Out</label>
+                  <NumberInput step={0.25} value={currentItem.activityTimes.layout} onChange={(v) => updateActivity('layout', v)} />
+                </div>
+                <div className="act-row calc">
+                  <label>Drill</label>
+                  <span>{currentItem.results.times.drillTime.toFixed(2)}h</span>
+                </div>
+                <div className="act-row">
+                  <label>Clean Tube Ends</label>
+                  <NumberInput step={0.25} value={currentItem.activityTimes.cleanTubeEnds} onChange={(v) => updateActivity('cleanTubeEnds', v)} />
+                </div>
+                <div className="act-row">
+                  <label>Load Bundle</label>
+                  <NumberInput step={0.25} value={currentItem.activityTimes.loadBundle} onChange={(v) => updateActivity('loadBundle', v)} />
+                </div>
+                <div className="act-row">
+                  <label>Pre-heat</label>
+                  <NumberInput step={0.25} value={currentItem.activityTimes.preheat} disabled={!!currentItem.preheatResult} onChange={(v) => updateActivity('preheat', v)} />
+                </div>
+                <div className="act-row">
+                  <label>Orbital Setup</label>
+                  <NumberInput step={0.25} value={currentItem.activityTimes.setup} onChange={(v) => updateActivity('setup', v)} />
+                </div>
+                <div className="act-row calc">
+                  <label>Weld</label>
+                  <span>{currentItem.results.times.weldTime.toFixed(2)}h</span>
+                </div>
+                <div className="act-row calc">
+                  <label>Expand</label>
+                  <span>{currentItem.results.times.expandTime.toFixed(2)}h</span>
+                </div>
+                <div className="act-row calc">
+                  <label>NDE</label>
+                  <span>{currentItem.activityTimes.nde.toFixed(2)}h</span>
+                </div>
+              </div>
+            </section>
+
+            <section className="section">
+              <h3>Activity Codes</h3>
+              <div className="codes-grid">
+                {Object.entries(currentItem.activityCodes).map(([code, hours]) => (
+                  <div key={code} className="code-box"><span className="code">{code}</span><span>{hours.toFixed(2)}h</span></div>
+                ))}
+              </div>
+            </section>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
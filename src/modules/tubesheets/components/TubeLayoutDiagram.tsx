@@ -0,0 +1,79 @@
+import type { TubeLayout } from '../types';
+
+interface TubeLayoutDiagramProps {
+  tubeOD: number;
+  pitch: number;
+  layout: TubeLayout;
+}
+
+// Pattern drawn upright, then turned for the rotated layouts
+const LAYOUT_ROTATION: Record<TubeLayout, number> = {
+  triangular: 0,
+  rotatedTriangular: 90,
+  square: 0,
+  rotatedSquare: 45,
+};
+
+/**
+ * A patch of the tube pattern on the tubesheet face - tube holes at the
+ * pitch, with the pitch and ligament dimensioned between two neighbours.
+ */
+export function TubeLayoutDiagram({ tubeOD, pitch, layout }: TubeLayoutDiagramProps) {
+  const viewBoxSize = 400;
+  const centre = viewBoxSize / 2;
+  const patchRadius = 150;
+
+  const triangular = layout === 'triangular' || layout === 'rotatedTriangular';
+  const rowSpacing = triangular ? pitch * Math.sqrt(3) / 2 : pitch;
+
+  // Fit about five tubes across the patch
+  const scale = patchRadius / Math.max(2.5 * pitch, tubeOD);
+  const p = pitch * scale;
+  const r = (tubeOD / 2) * scale;
+  const rowStep = rowSpacing * scale;
+
+  const holes: { x: number; y: number }[] = [];
+  const rows = Math.ceil(patchRadius / rowStep) + 1;
+  const cols = Math.ceil(patchRadius / p) + 1;
+  for (let row = -rows; row <= rows; row++) {
+    const shift = triangular && row % 2 !== 0 ? p / 2 : 0;
+    for (let col = -cols; col <= cols; col++) {
+      const x = col * p + shift;
+      const y = row * rowStep;
+      if (Math.hypot(x, y) + r <= patchRadius) holes.push({ x, y });
+    }
+  }
+
+  const ligament = pitch - tubeOD;
+
+  return (
+    <svg viewBox={`0 0 ${viewBoxSize} ${viewBoxSize}`} className="weld-diagram">
+      {/* Tubesheet face */}
+      <circle cx={centre} cy={centre} r={patchRadius + 12} fill="#adb5bd" stroke="#495057" strokeWidth="1.5" />
+
+      <g transform={`translate(${centre} ${centre}) rotate(${LAYOUT_ROTATION[layout]})`}>
+        {holes.map((h, i) => (
+          <g key={i}>
+            <circle cx={h.x} cy={h.y} r={r} fill="#f8f9fa" stroke="#343a40" strokeWidth="1" />
+            {/* Tube end weld */}
+            <circle cx={h.x} cy={h.y} r={r} fill="none" stroke="#ff6b6b" strokeWidth="2" />
+          </g>
+        ))}
+
+        {/* Pitch between the centre tube and its neighbour */}
+        <line x1={0} y1={0} x2={p} y2={0} stroke="#1971c2" strokeWidth="1.5" />
+        <circle cx={0} cy={0} r={2} fill="#1971c2" />
+        <circle cx={p} cy={0} r={2} fill="#1971c2" />
+      </g>
+
+      <text x={centre} y={22} textAnchor="middle" fontSize="12" fill="#333" fontWeight="600">
+        Pitch {pitch.toFixed(2)}mm • Ligament {ligament.toFixed(2)}mm
+      </text>
+      {ligament <= 0 && (
+        <text x={centre} y={viewBoxSize - 8} textAnchor="middle" fontSize="11" fill="#c92a2a">
+          Tubes overlap at this pitch
+        </text>
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateTubesheet,
+  applyTubesheetNde,
+  calculateTubesheetActivityCodes,
+  getBundleDiameter,
+} from './engine';
+import {
+  DEFAULT_TUBESHEET_GEOMETRY,
+  DEFAULT_TUBE_JOINT,
+  DEFAULT_TUBESHEET_RATES,
+  DEFAULT_TUBESHEET_ACTIVITY_TIMES,
+} from './types';
+import type { TubesheetItem, TubeJoint, TubesheetGeometry } from './types';
+import { getNdeCoverage } from '../offer/types';
+import { DEFAULT_SETTINGS } from '../../shared/settings/defaults';
+
+const tubesheet = (geometry: Partial<TubesheetGeometry> = {}, joint: Partial<TubeJoint> = {}): TubesheetItem => ({
+  id: 't1',
+  tag: 'TS1',
+  quantity: 1,
+  dpiCoverage: 100,
+  geometry: { ...DEFAULT_TUBESHEET_GEOMETRY, tubeCount: 100, tubesheetThickness: 43, ...geometry },
+  joint: { ...DEFAULT_TUBE_JOINT, ...joint },
+  rates: { ...DEFAULT_TUBESHEET_RATES },
+  activityTimes: { ...DEFAULT_TUBESHEET_ACTIVITY_TIMES },
+});
+
+describe('Tubesheets', () => {
+  it('welds, expands and drills every tube', () => {
+    const results = calculateTubesheet(tubesheet());
+    const arc = (Math.PI * 19.05) / 80;
+
+    expect(results.tubeWall).toBe(1.65);
+    expect(results.perTube.weldMinutes).toBeCloseTo(arc + 1.5, 6);
+    // Expanded to 3mm short of the shell side face
+    expect(results.perTube.expandMinutes).toBeCloseTo(40 / 60 + 1, 6);
+    expect(results.perTube.drillMinutes).toBeCloseTo(43 / 40 + 1, 6);
+    expect(results.times.weldTime).toBeCloseTo(((arc + 1.5) * 100) / 60, 6);
+    expect(results.deposits.GTAW!.arcTime).toBeCloseTo((arc * 100) / 60, 6);
+    expect(results.warnings).toEqual([]);
+  });
+
+  it('skips expansion for welded-only tubes and doubles the arc for two passes', () => {
+    const one = calculateTubesheet(tubesheet({}, { weldType: 'strength', expanded: false, legSize: 2 }));
+    const two = calculateTubesheet(tubesheet({}, { weldType: 'strength', expanded: false, legSize: 2, passes: 2 }));
+
+    expect(one.times.expandTime).toBe(0);
+    expect(two.times.arcTime).toBeCloseTo(one.times.arcTime * 2, 6);
+    expect(two.times.weldTime - one.times.weldTime).toBeCloseTo(one.times.arcTime, 6);
+  });
+
+  it('warns on tight pitch, thin strength welds and unexpanded seal welds', () => {
+    expect(calculateTubesheet(tubesheet({ pitch: 22 })).warnings[0]).toContain('TEMA');
+    expect(calculateTubesheet(tubesheet({}, { weldType: 'strength', legSize: 1 })).warnings[0]).toContain('Strength weld');
+    expect(calculateTubesheet(tubesheet({}, { expanded: false })).warnings[0]).toContain('expanding');
+    expect(calculateTubesheet(tubesheet({ gauge: 21 })).tubeWall).toBe(0);
+  });
+
+  it('packs triangular patterns tighter than square', () => {
+    const triangular = getBundleDiameter({ ...DEFAULT_TUBESHEET_GEOMETRY, layout: 'triangular' });
+    const square = getBundleDiameter({ ...DEFAULT_TUBESHEET_GEOMETRY, layout: 'rotatedSquare' });
+    expect(triangular).toBeLessThan(square);
+    expect(getBundleDiameter({ ...DEFAULT_TUBESHEET_GEOMETRY, tubeCount: 0 })).toBe(0);
+  });
+
+  it('prices DPI per tube from the offer coverage or the item', () => {
+    const item = tubesheet();
+    const results = calculateTubesheet(item);
+    const settings = { ...DEFAULT_SETTINGS, nde: { ...DEFAULT_SETTINGS.nde, calculate: true } };
+    const coverage = getNdeCoverage({
+      visualExamination: { description: '', coverage: 0 },
+      tubeWeldsDPI: { description: '', coverage: 50 },
+    });
+
+    const offer = applyTubesheetNde(item, item.activityTimes, results, coverage, settings);
+    expect(offer.nde!.exams).toMatchObject([{ category: 'tubeWelds', method: 'DPI', coverage: 50 }]);
+    expect(offer.activityTimes.nde).toBeCloseTo((50 * 2) / 60 + settings.nde.setupHours, 6);
+
+    // Visual examination runs along the welds as for every other category
+    const visual = applyTubesheetNde(item, item.activityTimes, results, getNdeCoverage(), settings);
+    expect(visual.nde!.exams.map(e => e.method)).toEqual(['VT']);
+    expect(visual.nde!.exams[0].length).toBeCloseTo(results.weldLength * 100, 6);
+
+    const own = applyTubesheetNde({ ...item, dpiCoverage: 10 }, item.activityTimes, results, null, settings);
+    expect(own.nde).toBeNull();
+    expect(own.activityTimes.nde).toBeCloseTo((10 * 2) / 60, 6);
+
+    const codes = calculateTubesheetActivityCodes(offer.activityTimes, results);
+    expect(codes.DRILTS).toBeCloseTo(2 + results.times.drillTime, 6);
+    expect(codes.WTUBE).toBeCloseTo(1 + results.times.weldTime, 6);
+    expect(codes.EXPTUB).toBe(results.times.expandTime);
+    expect(codes.NDE).toBe(offer.activityTimes.nde);
+  });
+});
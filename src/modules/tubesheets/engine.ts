@@ -0,0 +1,204 @@
+import type { NdeExam, SharedSettings, WeldProcess } from '../../shared/types';
+import type {
+  TubesheetItem,
+  TubesheetGeometry,
+  TubesheetResults,
+  TubesheetActivityTimes,
+  TubesheetActivityCodes,
+  TubeLayout,
+} from './types';
+import { getTubeWall } from './tubeData';
+import { calculatePreheat, getPreheatHours } from '../../engine/preheat';
+import type { AppliedPreheat } from '../../engine/preheat';
+import { calculateNde } from '../../engine/nde';
+import type { AppliedNde, NdeCoverage } from '../../engine/nde';
+
+// Orbital heads run GTAW
+const TUBE_PROCESS: Exclude<WeldProcess, 'Skip'> = 'GTAW';
+
+// TEMA - tubes are expanded to within 3mm of the shell side face
+const EXPANSION_STOP = 3; // mm
+
+// TEMA minimum pitch as a multiple of the tube OD - imperial pitches are
+// entered rounded to 0.01mm, so 15/16" on a 3/4" tube reads 23.81
+const MIN_PITCH_RATIO = 1.25;
+const PITCH_TOLERANCE = 0.01; // mm
+
+// Tubesheet area per tube as a multiple of pitch² - triangular patterns pack tighter
+const PITCH_AREA: Record<TubeLayout, number> = {
+  triangular: Math.sqrt(3) / 2,
+  rotatedTriangular: Math.sqrt(3) / 2,
+  square: 1,
+  rotatedSquare: 1,
+};
+
+/**
+ * Outer tube limit for the tube count - the tube field area as a circle,
+ * plus one tube OD
+ */
+export function getBundleDiameter(geometry: TubesheetGeometry): number {
+  const { tubeCount, pitch, layout, tubeOD } = geometry;
+  if (tubeCount <= 0) return 0;
+  const area = tubeCount * pitch ** 2 * PITCH_AREA[layout];
+  return Math.sqrt((4 * area) / Math.PI) + tubeOD;
+}
+
+/**
+ * Main calculation function for a tubesheet
+ *
+ * - Weld: every tube is welded round its OD by the orbital head, one travel
+ *   round per pass, plus an index to move and set the head. Orbital welding
+ *   is mechanised, so no operator factor applies.
+ * - Expansion: the roller feeds along the tubesheet thickness less the TEMA stop
+ * - Drilling: one hole per tube through the tubesheet, plus handling per hole
+ */
+export function calculateTubesheet(item: TubesheetItem): TubesheetResults {
+  const { geometry, joint, rates } = item;
+  const { tubeOD, gauge, tubeCount, pitch, tubesheetThickness } = geometry;
+
+  const tubeWall = getTubeWall(gauge);
+  const weldLength = Math.PI * tubeOD;
+
+  const arcMinutes = rates.orbitalSpeed > 0 ? (joint.passes * weldLength) / rates.orbitalSpeed : 0;
+  const weldMinutes = arcMinutes + rates.indexMinutes;
+
+  const expandLength = Math.max(0, tubesheetThickness - EXPANSION_STOP);
+  const expandMinutes = joint.expanded && rates.expansionRate > 0
+    ? expandLength / rates.expansionRate + rates.expansionSetupMinutes
+    : 0;
+
+  const drillMinutes = (rates.drillRate > 0 ? tubesheetThickness / rates.drillRate : 0) + rates.drillSetupMinutes;
+
+  const arcTime = (arcMinutes * tubeCount) / 60;
+  const ligament = pitch - tubeOD;
+
+  const warnings: string[] = [];
+  if (tubeWall === 0) {
+    warnings.push(`BWG ${gauge} is not in the tube table - no tube wall`);
+  }
+  if (pitch < MIN_PITCH_RATIO * tubeOD - PITCH_TOLERANCE) {
+    warnings.push(`Pitch ${pitch}mm is under ${MIN_PITCH_RATIO} × OD - below the TEMA minimum`);
+  }
+  if (joint.weldType === 'strength' && joint.legSize < tubeWall) {
+    warnings.push(`Strength weld leg ${joint.legSize}mm is under the ${tubeWall}mm tube wall`);
+  }
+  if (joint.weldType === 'seal' && !joint.expanded) {
+    warnings.push('Seal welded tubes need expanding to carry the load');
+  }
+
+  return {
+    tubeWall,
+    weldLength,
+    ligament,
+    bundleDiameter: getBundleDiameter(geometry),
+    perTube: {
+      weldMinutes,
+      expandMinutes,
+      drillMinutes,
+    },
+    times: {
+      arcTime,
+      weldTime: (weldMinutes * tubeCount) / 60,
+      expandTime: (expandMinutes * tubeCount) / 60,
+      drillTime: (drillMinutes * tubeCount) / 60,
+    },
+    warnings,
+    deposits: {
+      [TUBE_PROCESS]: {
+        volume: (joint.legSize ** 2 / 2) * weldLength * tubeCount,
+        arcTime,
+      },
+    },
+  };
+}
+
+/**
+ * Calculated preheat across the tubesheet face - governed by the tubesheet
+ * thickness, held through the tube welds
+ */
+export function applyTubesheetPreheat(
+  item: TubesheetItem,
+  results: TubesheetResults,
+  settings: SharedSettings
+): AppliedPreheat<TubesheetActivityTimes> {
+  if (!item.preheat?.calculate) return { activityTimes: item.activityTimes, preheat: null };
+
+  const preheat = calculatePreheat(
+    item.preheat,
+    item.geometry.tubesheetThickness,
+    results.weldLength * item.geometry.tubeCount,
+    settings.preheat
+  );
+  return {
+    activityTimes: {
+      ...item.activityTimes,
+      preheat: getPreheatHours(preheat, results.times.weldTime),
+    },
+    preheat,
+  };
+}
+
+/**
+ * DPI of the tube welds is counted per tube - each tube end is cleaned,
+ * sprayed and read on its own. Calculated NDE takes the offer's tube weld
+ * coverage: DPI per tube, any other method by weld length. Otherwise DPI
+ * hours come from the item's own coverage and no exams are planned.
+ */
+export function applyTubesheetNde(
+  item: TubesheetItem,
+  activityTimes: TubesheetActivityTimes,
+  results: TubesheetResults,
+  coverage: NdeCoverage | null,
+  settings: SharedSettings
+): AppliedNde<TubesheetActivityTimes> {
+  const dpiHours = (pct: number) => (item.geometry.tubeCount * (pct / 100) * item.rates.dpiMinutes) / 60;
+
+  if (!settings.nde.calculate || !coverage) {
+    return { activityTimes: { ...activityTimes, nde: dpiHours(item.dpiCoverage) }, nde: null };
+  }
+
+  const { DPI = 0, ...byLength } = coverage.tubeWelds;
+  const weldLength = results.weldLength * item.geometry.tubeCount;
+  const { exams, hours } = calculateNde(
+    [{ category: 'tubeWelds', length: weldLength }],
+    { ...coverage, tubeWelds: byLength },
+    settings.nde
+  );
+
+  const dpi = dpiHours(DPI);
+  const dpiExams: NdeExam[] = dpi > 0
+    ? [{ category: 'tubeWelds', method: 'DPI', coverage: DPI, length: weldLength * (DPI / 100), shots: 0, hours: dpi }]
+    : [];
+  const nde = {
+    exams: [...exams, ...dpiExams],
+    hours: hours + dpi + (dpiExams.length > 0 ? settings.nde.setupHours : 0),
+  };
+  return { activityTimes: { ...activityTimes, nde: nde.hours }, nde };
+}
+
+/**
+ * Calculate activity codes from activity times and tube results
+ *
+ * Activity flow:
+ * 1. Mark out and drill the tubesheet - DRILTS
+ * 2. Clean tube ends and holes - MATCUT
+ * 3. Load the bundle - FTUBE
+ * 4. Pre-heat - PREHEAT
+ * 5. Set up the orbital head and weld every tube - WTUBE
+ * 6. Expand - EXPTUB
+ * 7. DPI - NDE
+ */
+export function calculateTubesheetActivityCodes(
+  activityTimes: TubesheetActivityTimes,
+  results: TubesheetResults
+): TubesheetActivityCodes {
+  return {
+    DRILTS: activityTimes.layout + results.times.drillTime,
+    MATCUT: activityTimes.cleanTubeEnds,
+    FTUBE: activityTimes.loadBundle,
+    PREHEAT: activityTimes.preheat,
+    WTUBE: activityTimes.setup + results.times.weldTime,
+    EXPTUB: results.times.expandTime,
+    NDE: activityTimes.nde,
+  };
+}
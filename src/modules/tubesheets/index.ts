@@ -0,0 +1,3 @@
+export { TubesheetsModule } from './TubesheetsModule';
+export * from './types';
+export * from './engine';
@@ -0,0 +1,33 @@
+/**
+ * Heat exchanger tube wall thickness by Birmingham Wire Gauge
+ */
+export const BWG_WALL: Record<number, number> = {
+  10: 3.40,
+  11: 3.05,
+  12: 2.77,
+  13: 2.41,
+  14: 2.11,
+  15: 1.83,
+  16: 1.65,
+  17: 1.47,
+  18: 1.24,
+  19: 1.07,
+  20: 0.89,
+  22: 0.71,
+};
+
+/**
+ * Standard exchanger tube ODs (mm) - 1/2" to 1 1/2"
+ */
+export const TUBE_ODS = [12.7, 15.88, 19.05, 25.4, 31.75, 38.1];
+
+export function getAllGauges(): number[] {
+  return Object.keys(BWG_WALL).map(Number);
+}
+
+/**
+ * Tube wall for a gauge - 0 for a gauge not in the table
+ */
+export function getTubeWall(gauge: number): number {
+  return BWG_WALL[gauge] ?? 0;
+}
@@ -0,0 +1,164 @@
+import type { DepositByProcess, PreheatInput } from '../../shared/types';
+
+/**
+ * Tubesheets (Tube-to-Tubesheet Welds) Types
+ *
+ * A heat exchanger tubesheet is drilled for the tube pattern, the tube bundle
+ * is loaded and every tube end is welded to the tubesheet with an orbital GTAW
+ * head. Seal welds only close the joint - the tubes are expanded to carry the
+ * load. Strength welds carry the load and may be lightly expanded as well.
+ * Each item is one tubesheet; quantity is the number of identical tubesheets.
+ */
+
+// Tube pattern - the angle of the pitch line to the flow
+export type TubeLayout = 'triangular' | 'rotatedTriangular' | 'square' | 'rotatedSquare';
+
+export type TubeWeldType = 'seal' | 'strength';
+
+export interface TubesheetGeometry {
+  tubeOD: number;              // mm
+  gauge: number;               // BWG - tube wall from tubeData
+  tubeCount: number;           // Tubes through this tubesheet
+  pitch: number;               // mm - tube centre to centre
+  layout: TubeLayout;
+  tubesheetThickness: number;  // mm
+}
+
+// Weld and expansion per tube
+export interface TubeJoint {
+  weldType: TubeWeldType;
+  expanded: boolean;           // Roller expanded into the tubesheet
+  passes: number;              // Orbital passes round the tube
+  legSize: number;             // mm - fillet leg at the tube end
+}
+
+/**
+ * Shop rates per tube and per hole - the times that scale with the tube count
+ */
+export interface TubesheetRates {
+  orbitalSpeed: number;          // mm/min - orbital GTAW travel round the tube
+  indexMinutes: number;          // min per tube - move and set the orbital head
+  expansionRate: number;         // mm/min - roller feed along the tube
+  expansionSetupMinutes: number; // min per tube - insert and withdraw the expander
+  drillRate: number;             // mm/min - feed through the tubesheet
+  drillSetupMinutes: number;     // min per hole - position, ream and deburr
+  dpiMinutes: number;            // min per tube weld - clean, penetrant, developer, inspect
+}
+
+export interface TubesheetActivityTimes {
+  layout: number;          // Mark out the tube pattern - DRILTS
+  cleanTubeEnds: number;   // Degrease tube ends and holes - MATCUT
+  loadBundle: number;      // Load the tube bundle and set tube projection - FTUBE
+  setup: number;           // Set up the orbital welder - WTUBE
+  preheat: number;         // Pre-heat - PREHEAT
+  nde: number;             // DPI of the tube welds - NDE (calculated)
+}
+
+export interface TubesheetItem {
+  id: string;
+  tag: string;                 // e.g., "TS1"
+  quantity: number;            // Number of identical tubesheets
+  preheat?: PreheatInput;      // Calculated preheat - hand-entered hours when absent
+  dpiCoverage: number;         // % of tube welds examined when NDE is hand-entered
+
+  geometry: TubesheetGeometry;
+  joint: TubeJoint;
+  rates: TubesheetRates;
+
+  // Activity times (hours)
+  activityTimes: TubesheetActivityTimes;
+
+  // Calculated results
+  results?: TubesheetResults;
+  activityCodes?: TubesheetActivityCodes;
+}
+
+export interface TubesheetResults {
+  tubeWall: number;            // mm - from the BWG gauge
+  weldLength: number;          // mm - round one tube
+  ligament: number;            // mm - metal between holes
+  bundleDiameter: number;      // mm - outer tube limit for the tube count and pitch
+
+  // Per tube (minutes)
+  perTube: {
+    weldMinutes: number;       // Arc plus index
+    expandMinutes: number;
+    drillMinutes: number;
+  };
+
+  // Per tubesheet (hours)
+  times: {
+    arcTime: number;
+    weldTime: number;
+    expandTime: number;
+    drillTime: number;
+  };
+
+  warnings: string[];
+
+  // Weld metal by process (consumables)
+  deposits: DepositByProcess;
+}
+
+export interface TubesheetActivityCodes {
+  DRILTS: number;     // Mark out + drill tubesheet
+  MATCUT: number;     // Clean tube ends and holes
+  FTUBE: number;      // Load bundle
+  PREHEAT: number;    // Pre-heat
+  WTUBE: number;      // Orbital setup + tube welds
+  EXPTUB: number;     // Tube expansion
+  NDE: number;        // DPI
+}
+
+// Module data stored in project
+export interface TubesheetsModuleData {
+  items: TubesheetItem[];
+}
+
+export const TUBE_LAYOUT_LABELS: Record<TubeLayout, string> = {
+  triangular: 'Triangular 30°',
+  rotatedTriangular: 'Rotated Triangular 60°',
+  square: 'Square 90°',
+  rotatedSquare: 'Rotated Square 45°',
+};
+
+export const TUBE_WELD_TYPE_LABELS: Record<TubeWeldType, string> = {
+  seal: 'Seal weld',
+  strength: 'Strength weld',
+};
+
+// Default values
+export const DEFAULT_TUBESHEET_GEOMETRY: TubesheetGeometry = {
+  tubeOD: 19.05,
+  gauge: 16,
+  tubeCount: 200,
+  pitch: 23.81,
+  layout: 'triangular',
+  tubesheetThickness: 50,
+};
+
+export const DEFAULT_TUBE_JOINT: TubeJoint = {
+  weldType: 'seal',
+  expanded: true,
+  passes: 1,
+  legSize: 1.5,
+};
+
+export const DEFAULT_TUBESHEET_RATES: TubesheetRates = {
+  orbitalSpeed: 80,
+  indexMinutes: 1.5,
+  expansionRate: 60,
+  expansionSetupMinutes: 1.0,
+  drillRate: 40,
+  drillSetupMinutes: 1.0,
+  dpiMinutes: 2.0,
+};
+
+export const DEFAULT_TUBESHEET_ACTIVITY_TIMES: TubesheetActivityTimes = {
+  layout: 2.0,         // Mark out pattern
+  cleanTubeEnds: 2.0,  // Degrease
+  loadBundle: 4.0,     // Load bundle
+  setup: 1.0,          // Orbital setup
+  preheat: 0,          // Pre-heat
+  nde: 0,              // Calculated
+};
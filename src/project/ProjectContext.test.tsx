@@ -0,0 +1,67 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { ProjectProvider, useProject } from './ProjectContext';
+
+const wrapper = ({ children }: { children: ReactNode }) => <ProjectProvider>{children}</ProjectProvider>;
+
+async function renderProject() {
+  const hook = renderHook(useProject, { wrapper });
+  // jsdom has no IndexedDB - wait for the project list to give up
+  await waitFor(() => expect(hook.result.current.storageWarning).not.toBeNull());
+  return hook.result;
+}
+
+const welds = (tag: string) => ({ welds: [{ id: tag, tag }] });
+
+describe('ProjectContext history', () => {
+  afterEach(() => localStorage.clear());
+
+  it('records generated long and circ welds as one named change', async () => {
+    const result = await renderProject();
+
+    act(() => result.current.setModulesData({ longwelds: welds('LW1'), circwelds: welds('CW1') }, 'Generated welds'));
+
+    expect(result.current.history.past).toHaveLength(1);
+    expect(result.current.history.past[0]).toMatchObject({ scope: 'Generated welds', label: 'Generated welds: 2 changes' });
+
+    act(() => result.current.undo());
+    expect(result.current.getModuleData('longwelds')).toBeUndefined();
+    expect(result.current.getModuleData('circwelds')).toBeUndefined();
+
+    act(() => result.current.redo());
+    expect(result.current.getModuleData('longwelds')).toEqual(welds('LW1'));
+    expect(result.current.getModuleData('circwelds')).toEqual(welds('CW1'));
+  });
+
+  it('undoes only the part each change recorded', async () => {
+    const result = await renderProject();
+
+    act(() => result.current.updateJobNumber('J1234'));
+    const first = result.current.currentProject!.equipment[0].id;
+    act(() => result.current.addEquipment());
+    const second = result.current.currentEquipment!.id;
+
+    // A first fill and a selection are not recorded
+    act(() => result.current.selectEquipment(first));
+    act(() => result.current.setModuleData('nozzles', { nozzles: [{ id: 'n1', tag: 'N1' }] }));
+    act(() => result.current.setModuleData('nozzles', { nozzles: [{ id: 'n1', tag: 'N2' }] }));
+    act(() => result.current.selectEquipment(second));
+    expect(result.current.history.past.map(e => e.scope)).toEqual(['Job number', 'Equipment', 'Nozzles']);
+
+    // The tag edit goes back on its own item; the selection stays
+    act(() => result.current.undo());
+    expect(result.current.currentProject!.activeEquipmentId).toBe(second);
+    expect(result.current.currentProject!.equipment[0].modules.nozzles).toEqual({ nozzles: [{ id: 'n1', tag: 'N1' }] });
+
+    // The added item goes - the first fill on the other one stays
+    act(() => result.current.undo());
+    expect(result.current.currentProject!.equipment.map(e => e.id)).toEqual([first]);
+    expect(result.current.currentProject!.activeEquipmentId).toBe(first);
+    expect(result.current.getModuleData('nozzles')).toEqual({ nozzles: [{ id: 'n1', tag: 'N1' }] });
+
+    act(() => result.current.undo());
+    expect(result.current.currentProject!.jobNumber).toBe('');
+    expect(result.current.getModuleData('nozzles')).toEqual({ nozzles: [{ id: 'n1', tag: 'N1' }] });
+  });
+});
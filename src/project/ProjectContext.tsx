@@ -1,10 +1,35 @@
-import { createContext, useContext, useState, useCallback, useEffect, type ReactNode } from 'react';
-import type { VesselProject, ModuleId, ProjectState } from './types';
+import { createContext, useContext, useState, useCallback, useEffect, useRef, type ReactNode } from 'react';
+import type { VesselProject, VesselDefinition, ModuleId, ProjectState, ProjectEquipment, ProjectSummary } from './types';
+import { JOB_MODULES, MODULES } from './types';
 import type { SharedSettings, ModuleSummary } from '../shared/types';
 import { DEFAULT_SETTINGS } from '../shared/settings';
-import { getProjects, saveProject, deleteProject, loadSettings, saveSettings, createEmptyProject } from './storage';
+import { applyVesselDefinition, summarizeBoundModules } from '../engine/vessel';
+import { getNdeCoverage } from '../modules/offer/types';
+import type { OfferData } from '../modules/offer/types';
+import { getPipeJointSettings } from '../modules/pipejoints/settings';
+import {
+  listProjects,
+  getProject,
+  saveProject,
+  deleteProject,
+  loadSettings,
+  saveSettings,
+  createEmptyProject,
+  createEquipment,
+  createRevision,
+  describeStorageError,
+  checkStorageUsage,
+  checkLocalProjects,
+} from './storage';
+import { createHistory, findDifferences, recordChange, selectPart, travel, type History, type ProjectPart } from './history';
+
+// Equipment fields edited from the equipment list
+export type EquipmentDetails = Pick<ProjectEquipment, 'tag' | 'name' | 'quantity'>;
 
 interface ProjectContextValue extends ProjectState {
+  // Equipment item the modules are editing
+  currentEquipment: ProjectEquipment | null;
+
   // Project actions
   newProject: () => void;
   loadProject: (id: string) => void;
@@ -16,157 +41,378 @@ interface ProjectContextValue extends ProjectState {
   updateJobNumber: (value: string) => void;
   updateVesselName: (value: string) => void;
   updateDescription: (value: string) => void;
+  updateVessel: (vessel: VesselDefinition) => void;
+
+  // Equipment items
+  addEquipment: () => void;
+  selectEquipment: (id: string) => void;
+  updateEquipment: (id: string, details: Partial<EquipmentDetails>) => void;
+  removeEquipment: (id: string) => void;
+
+  // Revisions - taking one saves the project with it
+  addRevision: (reason: string) => void;
   
   // Module data
   getModuleData: <T>(moduleId: ModuleId) => T | undefined;
   setModuleData: <T>(moduleId: ModuleId, data: T) => void;
+  setModulesData: (data: Partial<Record<ModuleId, unknown>>, scope: string) => void;
   updateModuleSummary: (moduleId: ModuleId, summary: ModuleSummary) => void;
   
   // Settings
   updateSettings: (settings: SharedSettings) => void;
   saveCurrentSettings: () => void;
+
+  // Undo / redo - module data, project header fields and settings
+  history: History;
+  historyVersion: number;      // Bumped on undo/redo - modules holding a local copy reload
+  undo: () => void;
+  redo: () => void;
+  travelHistory: (steps: number) => void;
   
   // Navigation
   setActiveModule: (moduleId: ModuleId) => void;
   
   // Refresh projects list
   refreshProjects: () => void;
+
+  // Failed or nearly full storage - shown until dismissed
+  storageWarning: string | null;
+  dismissStorageWarning: () => void;
 }
 
 const ProjectContext = createContext<ProjectContextValue | null>(null);
 
+// A change made by an action, named once the new state has rendered
+interface PendingChange {
+  scope: string;
+  part: ProjectPart;
+}
+
+// Equipment added, removed, renamed or requantified - compared by tag, name and quantity
+const EQUIPMENT_CHANGE: PendingChange = { scope: 'Equipment', part: { kind: 'equipment' } };
+
+function getActiveEquipment(project: VesselProject | null): ProjectEquipment | null {
+  if (!project) return null;
+  return project.equipment.find(e => e.id === project.activeEquipmentId) ?? project.equipment[0] ?? null;
+}
+
+// Replace the active equipment item with an updated copy
+function withActiveEquipment(project: VesselProject, update: (equipment: ProjectEquipment) => ProjectEquipment): VesselProject {
+  const active = getActiveEquipment(project);
+  if (!active) return project;
+  return { ...project, equipment: project.equipment.map(e => e.id === active.id ? update(e) : e) };
+}
+
 export function ProjectProvider({ children }: { children: ReactNode }) {
   const [currentProject, setCurrentProject] = useState<VesselProject | null>(null);
-  const [savedProjects, setSavedProjects] = useState<VesselProject[]>([]);
+  const [savedProjects, setSavedProjects] = useState<ProjectSummary[]>([]);
   const [settings, setSettings] = useState<SharedSettings>(DEFAULT_SETTINGS);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [activeModule, setActiveModule] = useState<ModuleId>('nozzles');
+  const [history, setHistory] = useState<History>(createHistory);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [storageWarning, setStorageWarning] = useState<string | null>(null);
+
+  // Actions mark what they changed; the effects below record it against the
+  // state last rendered. Summaries, selection and undo itself mark nothing.
+  const pendingChange = useRef<PendingChange | null>(null);
+  const pendingSettings = useRef(false);
+  const recordedProject = useRef<VesselProject | null>(null);
+  const recordedSettings = useRef<SharedSettings>(settings);
+
+  // The project as last rendered - actions work out what they change from it,
+  // so the state updaters stay plain transforms
+  const renderedProject = useRef(currentProject);
+  renderedProject.current = currentProject;
+
+  useEffect(() => {
+    const before = recordedProject.current;
+    const pending = pendingChange.current;
+    recordedProject.current = currentProject;
+    pendingChange.current = null;
+    if (!pending || !before || !currentProject || before === currentProject) return;
+    const differences = findDifferences(selectPart(before, pending.part), selectPart(currentProject, pending.part));
+    setHistory(h => recordChange(h, { target: 'project', before, after: currentProject, part: pending.part }, pending.scope, differences));
+  }, [currentProject]);
+
+  useEffect(() => {
+    const before = recordedSettings.current;
+    const pending = pendingSettings.current;
+    recordedSettings.current = settings;
+    pendingSettings.current = false;
+    if (!pending || before === settings) return;
+    setHistory(h => recordChange(h, { target: 'settings', before, after: settings }, 'Settings', findDifferences(before, settings)));
+  }, [settings]);
+
+  const refreshProjects = useCallback(async () => {
+    try {
+      setSavedProjects(await listProjects());
+    } catch (err) {
+      setStorageWarning(describeStorageError(err, 'load the saved projects'));
+    }
+  }, []);
 
   // Load saved data on mount
   useEffect(() => {
-    setSavedProjects(getProjects());
+    refreshProjects();
+    // Old projects that could not be moved would otherwise just go missing - a
+    // failed open is already reported by the project list
+    checkLocalProjects().then(warning => { if (warning) setStorageWarning(warning); }, () => {});
     const savedSettings = loadSettings();
     if (savedSettings) {
       setSettings(savedSettings);
     }
     // Start with a new empty project
     setCurrentProject(createEmptyProject());
-  }, []);
+  }, [refreshProjects]);
 
-  const refreshProjects = useCallback(() => {
-    setSavedProjects(getProjects());
-  }, []);
+  // After a write - warn before the browser runs out of room
+  const afterWrite = useCallback(async () => {
+    await refreshProjects();
+    setStorageWarning(await checkStorageUsage());
+  }, [refreshProjects]);
 
   const newProject = useCallback(() => {
     setCurrentProject(createEmptyProject());
     setHasUnsavedChanges(false);
+    setHistory(createHistory());
   }, []);
 
-  const loadProject = useCallback((id: string) => {
-    const project = savedProjects.find(p => p.id === id);
-    if (project) {
-      setCurrentProject({ ...project });
-      setHasUnsavedChanges(false);
+  // Only the listing is held - the project itself is read when opened
+  const loadProject = useCallback(async (id: string) => {
+    try {
+      const project = await getProject(id);
+      if (project) {
+        setCurrentProject(project);
+        setHasUnsavedChanges(false);
+        setHistory(createHistory());
+      }
+    } catch (err) {
+      setStorageWarning(describeStorageError(err, 'open the project'));
     }
-  }, [savedProjects]);
+  }, []);
 
-  const save = useCallback(() => {
-    if (currentProject) {
-      const saved = saveProject(currentProject);
-      setCurrentProject(saved);
-      setSavedProjects(getProjects());
+  // Edits made while the write is in flight stay - only the timestamps come back
+  const save = useCallback(async () => {
+    if (!currentProject) return;
+    try {
+      const saved = await saveProject(currentProject);
+      setCurrentProject(prev => prev?.id === saved.id ? { ...prev, createdAt: saved.createdAt, modifiedAt: saved.modifiedAt } : prev);
       setHasUnsavedChanges(false);
+      await afterWrite();
+    } catch (err) {
+      setStorageWarning(describeStorageError(err, 'save the project'));
     }
-  }, [currentProject]);
+  }, [currentProject, afterWrite]);
+
+  const removeProject = useCallback(async (id: string) => {
+    try {
+      await deleteProject(id);
+      await afterWrite();
+      // If we deleted the current project, create a new one
+      if (currentProject?.id === id) {
+        newProject();
+      }
+    } catch (err) {
+      setStorageWarning(describeStorageError(err, 'delete the project'));
+    }
+  }, [currentProject, newProject, afterWrite]);
 
   const deleteCurrentProject = useCallback(() => {
     if (currentProject && confirm('Delete this project permanently?')) {
-      deleteProject(currentProject.id);
-      setSavedProjects(getProjects());
-      newProject();
+      removeProject(currentProject.id);
     }
-  }, [currentProject, newProject]);
+  }, [currentProject, removeProject]);
 
   const deleteProjectById = useCallback((id: string) => {
-    deleteProject(id);
-    setSavedProjects(getProjects());
-    // If we deleted the current project, create a new one
-    if (currentProject?.id === id) {
-      newProject();
-    }
-  }, [currentProject, newProject]);
+    removeProject(id);
+  }, [removeProject]);
+
+  const dismissStorageWarning = useCallback(() => setStorageWarning(null), []);
 
   const updateJobNumber = useCallback((value: string) => {
+    const project = renderedProject.current;
+    if (!project || project.jobNumber === value) return;
+    setHasUnsavedChanges(true);
+    pendingChange.current = { scope: 'Job number', part: { kind: 'header', field: 'jobNumber' } };
+    setCurrentProject(prev => prev && { ...prev, jobNumber: value });
+  }, []);
+
+  const updateVesselName = useCallback((value: string) => {
+    const project = renderedProject.current;
+    if (!project || project.vesselName === value) return;
+    setHasUnsavedChanges(true);
+    pendingChange.current = { scope: 'Job description', part: { kind: 'header', field: 'vesselName' } };
+    setCurrentProject(prev => prev && { ...prev, vesselName: value });
+  }, []);
+
+  const updateDescription = useCallback((value: string) => {
+    const project = renderedProject.current;
+    if (!project || project.description === value) return;
+    setHasUnsavedChanges(true);
+    pendingChange.current = { scope: 'Description', part: { kind: 'header', field: 'description' } };
+    setCurrentProject(prev => prev && { ...prev, description: value });
+  }, []);
+
+  const currentEquipment = getActiveEquipment(currentProject);
+
+  // Bound nozzles and welds follow the vessel
+  const updateVessel = useCallback((vessel: VesselDefinition) => {
+    const project = renderedProject.current;
+    if (!project || JSON.stringify(getActiveEquipment(project)?.vessel) === JSON.stringify(vessel)) return;
+    setHasUnsavedChanges(true);
+    pendingChange.current = { scope: 'Vessel', part: { kind: 'vessel', equipmentId: project.activeEquipmentId } };
+    // Bound items change with the vessel - their summaries are redone now, not when each module next opens
+    const pipeJointSettings = getPipeJointSettings();
     setCurrentProject(prev => {
-      if (!prev || prev.jobNumber === value) return prev;
-      setHasUnsavedChanges(true);
-      return { ...prev, jobNumber: value };
+      if (!prev) return prev;
+      const ndeCoverage = getNdeCoverage((prev.modules.offer as OfferData | undefined)?.nde);
+      return withActiveEquipment(prev, e => {
+        const modules = applyVesselDefinition(e.modules, vessel);
+        const summaries = summarizeBoundModules(modules, e.summaries, settings, ndeCoverage, pipeJointSettings);
+        return { ...e, vessel, modules, summaries };
+      });
     });
+  }, [settings]);
+
+  const addEquipment = useCallback(() => {
+    const project = renderedProject.current;
+    if (!project) return;
+    setHasUnsavedChanges(true);
+    pendingChange.current = EQUIPMENT_CHANGE;
+    const equipment = createEquipment(`V${project.equipment.length + 1}`);
+    setCurrentProject(prev => prev && { ...prev, equipment: [...prev.equipment, equipment], activeEquipmentId: equipment.id });
   }, []);
 
-  const updateVesselName = useCallback((value: string) => {
+  const selectEquipment = useCallback((id: string) => {
     setCurrentProject(prev => {
-      if (!prev || prev.vesselName === value) return prev;
-      setHasUnsavedChanges(true);
-      return { ...prev, vesselName: value };
+      if (!prev || prev.activeEquipmentId === id) return prev;
+      return { ...prev, activeEquipmentId: id };
     });
   }, []);
 
-  const updateDescription = useCallback((value: string) => {
+  const updateEquipment = useCallback((id: string, details: Partial<EquipmentDetails>) => {
+    if (!renderedProject.current) return;
+    setHasUnsavedChanges(true);
+    pendingChange.current = EQUIPMENT_CHANGE;
+    setCurrentProject(prev => prev && { ...prev, equipment: prev.equipment.map(e => e.id === id ? { ...e, ...details } : e) });
+  }, []);
+
+  // The last equipment item stays - a job always has one
+  const removeEquipment = useCallback((id: string) => {
+    const project = renderedProject.current;
+    if (!project || project.equipment.length <= 1) return;
+    setHasUnsavedChanges(true);
+    pendingChange.current = EQUIPMENT_CHANGE;
     setCurrentProject(prev => {
-      if (!prev || prev.description === value) return prev;
-      setHasUnsavedChanges(true);
-      return { ...prev, description: value };
+      if (!prev || prev.equipment.length <= 1) return prev;
+      const equipment = prev.equipment.filter(e => e.id !== id);
+      const activeEquipmentId = prev.activeEquipmentId === id ? equipment[0].id : prev.activeEquipmentId;
+      return { ...prev, equipment, activeEquipmentId };
     });
   }, []);
 
+  const addRevision = useCallback(async (reason: string) => {
+    if (!currentProject) return;
+    const revisions = [...currentProject.revisions, createRevision(currentProject, reason)];
+    try {
+      const saved = await saveProject({ ...currentProject, revisions });
+      setCurrentProject(prev => prev?.id === saved.id ? { ...prev, revisions, createdAt: saved.createdAt, modifiedAt: saved.modifiedAt } : prev);
+      setHasUnsavedChanges(false);
+      await afterWrite();
+    } catch (err) {
+      setStorageWarning(describeStorageError(err, 'save the revision'));
+    }
+  }, [currentProject, afterWrite]);
+
+  // Job modules read the project, the rest the active equipment item
   const getModuleData = useCallback(<T,>(moduleId: ModuleId): T | undefined => {
-    return currentProject?.modules[moduleId] as T | undefined;
+    const modules = JOB_MODULES.includes(moduleId) ? currentProject?.modules : getActiveEquipment(currentProject)?.modules;
+    return modules?.[moduleId] as T | undefined;
   }, [currentProject]);
 
   const setModuleData = useCallback(<T,>(moduleId: ModuleId, data: T) => {
+    const project = renderedProject.current;
+    if (!project) return;
+    const isJobModule = JOB_MODULES.includes(moduleId);
+
+    // Check if data actually changed to avoid false "unsaved" flags
+    const currentData = isJobModule ? project.modules[moduleId] : getActiveEquipment(project)?.modules[moduleId];
+    if (JSON.stringify(data) === JSON.stringify(currentData)) {
+      return; // No change, don't update state or mark unsaved
+    }
+
+    // Data has changed - mark as unsaved
+    setHasUnsavedChanges(true);
+
+    // A module filling in its data for the first time is not an edit to undo
+    if (currentData !== undefined) {
+      pendingChange.current = {
+        scope: MODULES.find(m => m.id === moduleId)?.name ?? moduleId,
+        part: { kind: 'modules', moduleIds: [moduleId], equipmentId: isJobModule ? null : project.activeEquipmentId },
+      };
+    }
+
     setCurrentProject(prev => {
       if (!prev) return prev;
-      
-      // Check if data actually changed to avoid false "unsaved" flags
-      const currentData = prev.modules[moduleId];
-      const dataString = JSON.stringify(data);
-      const currentString = JSON.stringify(currentData);
-      
-      if (dataString === currentString) {
-        return prev; // No change, don't update state or mark unsaved
+      if (isJobModule) {
+        return { ...prev, modules: { ...prev.modules, [moduleId]: data } };
       }
-      
-      // Data has changed - mark as unsaved
-      setHasUnsavedChanges(true);
-      
-      return {
-        ...prev,
-        modules: { ...prev.modules, [moduleId]: data },
-      };
+      return withActiveEquipment(prev, e => ({ ...e, modules: { ...e.modules, [moduleId]: data } }));
     });
   }, []);
 
+  // Several of the equipment item's modules changed as one edit, e.g. welds generated from the vessel
+  const setModulesData = useCallback((data: Partial<Record<ModuleId, unknown>>, scope: string) => {
+    const equipment = getActiveEquipment(renderedProject.current);
+    if (!equipment) return;
+    const moduleIds = Object.keys(data) as ModuleId[];
+    if (moduleIds.every(id => JSON.stringify(data[id]) === JSON.stringify(equipment.modules[id]))) return;
+    setHasUnsavedChanges(true);
+    pendingChange.current = { scope, part: { kind: 'modules', moduleIds, equipmentId: equipment.id } };
+    setCurrentProject(prev => prev && withActiveEquipment(prev, e => ({ ...e, modules: { ...e.modules, ...data } })));
+  }, []);
+
   const updateModuleSummary = useCallback((moduleId: ModuleId, summary: ModuleSummary) => {
     setCurrentProject(prev => {
       if (!prev) return prev;
-      return {
-        ...prev,
-        summaries: { ...prev.summaries, [moduleId]: summary },
-      };
+      return withActiveEquipment(prev, e => ({ ...e, summaries: { ...e.summaries, [moduleId]: summary } }));
     });
   }, []);
 
   const updateSettings = useCallback((newSettings: SharedSettings) => {
+    pendingSettings.current = true;
     setSettings(newSettings);
   }, []);
 
+  // Settings stay in localStorage - small, but the quota is shared
   const saveCurrentSettings = useCallback(() => {
-    saveSettings(settings);
+    try {
+      saveSettings(settings);
+    } catch (err) {
+      setStorageWarning(describeStorageError(err, 'save the settings'));
+    }
   }, [settings]);
 
+  // Each entry puts back only its own part - revisions, the selected item and first fills stay
+  const travelHistory = useCallback((steps: number) => {
+    const { history: next, project, settings: restored } = travel(history, steps, renderedProject.current);
+    if (next === history) return;
+    if (project) {
+      setCurrentProject(project);
+      setHasUnsavedChanges(true);
+    }
+    if (restored) setSettings(restored);
+    setHistory(next);
+    setHistoryVersion(v => v + 1);
+  }, [history]);
+
+  const undo = useCallback(() => travelHistory(-1), [travelHistory]);
+  const redo = useCallback(() => travelHistory(1), [travelHistory]);
+
   const value: ProjectContextValue = {
     currentProject,
+    currentEquipment,
     savedProjects,
     settings,
     hasUnsavedChanges,
@@ -179,13 +425,27 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
     updateJobNumber,
     updateVesselName,
     updateDescription,
+    updateVessel,
+    addEquipment,
+    selectEquipment,
+    updateEquipment,
+    removeEquipment,
+    addRevision,
     getModuleData,
     setModuleData,
+    setModulesData,
     updateModuleSummary,
     updateSettings,
     saveCurrentSettings,
+    history,
+    historyVersion,
+    undo,
+    redo,
+    travelHistory,
     setActiveModule,
     refreshProjects,
+    storageWarning,
+    dismissStorageWarning,
   };
 
   return (
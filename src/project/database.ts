@@ -0,0 +1,78 @@
+/**
+ * IndexedDB access for saved projects
+ *
+ * One record per project in `projects`, and a small listing record per
+ * project in `summaries` so the project list never reads whole jobs.
+ */
+
+const DB_NAME = 'vessel-estimator';
+const DB_VERSION = 1;
+
+export const PROJECTS_STORE = 'projects';
+export const SUMMARIES_STORE = 'summaries';
+
+let opening: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open the database, creating the stores on first use. The connection is
+ * shared; a failed open is retried on the next call.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!opening) {
+    opening = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('this browser does not support IndexedDB'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(SUMMARIES_STORE)) db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('the database is open in another tab with an older version'));
+    });
+    opening.catch(() => { opening = null; });
+  }
+  return opening;
+}
+
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Every record in a store
+ */
+export async function readAll<T>(storeName: string): Promise<T[]> {
+  const db = await openDatabase();
+  return toPromise(db.transaction(storeName, 'readonly').objectStore(storeName).getAll() as IDBRequest<T[]>);
+}
+
+/**
+ * One record by key, or undefined
+ */
+export async function readOne<T>(storeName: string, key: string): Promise<T | undefined> {
+  const db = await openDatabase();
+  return toPromise(db.transaction(storeName, 'readonly').objectStore(storeName).get(key) as IDBRequest<T | undefined>);
+}
+
+/**
+ * Write across stores in one transaction - resolves once it has committed,
+ * rejects with the transaction's error (QuotaExceededError when full)
+ */
+export async function write(storeNames: string[], run: (transaction: IDBTransaction) => void): Promise<void> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeNames, 'readwrite');
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('the write was aborted'));
+    run(transaction);
+  });
+}
@@ -1,6 +1,7 @@
 import type { VesselProject } from './types';
 import type { SharedSettings } from '../shared/types';
-import { getProjects, saveProject, saveSettings } from './storage';
+import { getAllProjects, listProjects, saveProject, saveSettings } from './storage';
+import { migrateSettings } from '../shared/settings';
 
 /**
  * Full export format including all projects and settings
@@ -15,8 +16,8 @@ export interface ExportData {
 /**
  * Export all data to JSON file
  */
-export function exportAllToJSON(settings: SharedSettings): void {
-  const projects = getProjects();
+export async function exportAllToJSON(settings: SharedSettings): Promise<void> {
+  const projects = await getAllProjects();
   
   const data: ExportData = {
     version: '1.0',
@@ -67,7 +68,7 @@ export async function importFromJSON(file: File): Promise<{
           // Full backup
           resolve({
             projects: data.projects,
-            settings: data.settings,
+            settings: data.settings ? migrateSettings(data.settings) : undefined,
             message: `Imported ${data.projects.length} project(s)`,
           });
         } else if (data.project) {
@@ -92,11 +93,11 @@ export async function importFromJSON(file: File): Promise<{
 /**
  * Merge imported projects with existing (avoids duplicates by ID)
  */
-export function mergeImportedProjects(
+export async function mergeImportedProjects(
   imported: VesselProject[],
   importSettings?: SharedSettings
-): { projectsAdded: number; projectsUpdated: number } {
-  const existing = getProjects();
+): Promise<{ projectsAdded: number; projectsUpdated: number }> {
+  const existing = await listProjects();
   const existingIds = new Set(existing.map(p => p.id));
   
   let added = 0;
@@ -105,11 +106,11 @@ export function mergeImportedProjects(
   for (const project of imported) {
     if (existingIds.has(project.id)) {
       // Update existing
-      saveProject(project);
+      await saveProject(project);
       updated++;
     } else {
       // Add new
-      saveProject(project);
+      await saveProject(project);
       added++;
     }
   }
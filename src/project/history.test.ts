@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { createHistory, describeChange, findDifferences, recordChange, travel, MAX_HISTORY } from './history';
+import type { History, ProjectPart } from './history';
+import { createEmptyProject } from './storage';
+import type { VesselProject } from './types';
+import { DEFAULT_SETTINGS } from '../shared/settings/defaults';
+
+const nozzles = (thickness: number, extra: object[] = []) => ({
+  nozzles: [
+    { id: 'n1', tag: 'N1', shellThickness: 20, results: { hours: 1 } },
+    { id: 'n3', tag: 'N3', shellThickness: thickness, results: { hours: thickness } },
+    ...extra,
+  ],
+});
+
+const NOZZLES: ProjectPart = { kind: 'modules', moduleIds: ['nozzles'], equipmentId: null };
+
+// A project per nozzle thickness, recorded as a Nozzles edit
+const edit = (history: History, from: VesselProject, to: VesselProject, at: number) =>
+  recordChange(history, { target: 'project', before: from, after: to, part: NOZZLES }, 'Nozzles', findDifferences(from.modules.nozzles, to.modules.nozzles), at);
+
+const project = (data: object): VesselProject => ({ ...createEmptyProject(), modules: { nozzles: data } });
+
+describe('History', () => {
+  it('names a change from the value that moved', () => {
+    const differences = findDifferences(nozzles(25), nozzles(32));
+    expect(differences).toEqual([{ owner: 'N3', path: ['nozzles', 'shellThickness'], from: 25, to: 32 }]);
+    expect(describeChange('Nozzles', differences)).toBe('N3 shell thickness 25 → 32');
+
+    const added = findDifferences(nozzles(25), nozzles(25, [{ id: 'n4', tag: 'N4' }]));
+    expect(describeChange('Nozzles', added)).toBe('Nozzles: added N4');
+    expect(describeChange('Settings', findDifferences({ labourRates: { WLONG: 95 } }, { labourRates: { WLONG: 100 } })))
+      .toBe('Settings WLONG 95 → 100');
+    expect(describeChange('Job number', findDifferences('', 'J1234'))).toBe('Job number — → J1234');
+  });
+
+  it('folds keystrokes into one field into one entry', () => {
+    const p25 = project(nozzles(25));
+    const p3 = project(nozzles(3));
+    const p32 = project(nozzles(32));
+
+    let history = edit(createHistory(), p25, p3, 0);
+    history = edit(history, p3, p32, 500);
+    expect(history.past).toHaveLength(1);
+    expect(history.past[0]).toMatchObject({ label: 'N3 shell thickness 25 → 32', before: p25, after: p32 });
+
+    // Typed back to where it started
+    expect(edit(history, p32, p25, 1000).past).toHaveLength(0);
+    // A later edit is a change of its own
+    expect(edit(history, p32, project(nozzles(40)), 5000).past).toHaveLength(2);
+  });
+
+  it('undoes and redoes several steps at once', () => {
+    const states = [25, 30, 35, 40].map(t => project(nozzles(t)));
+    let history = createHistory();
+    for (let i = 1; i < states.length; i++) history = edit(history, states[i - 1], states[i], i * 10000);
+
+    const back = travel(history, -2, states[3]);
+    expect(back.project!.modules).toEqual(states[1].modules);
+    expect(back.settings).toBeUndefined();
+    expect(back.history.past).toHaveLength(1);
+    expect(back.history.future.map(e => e.label)).toEqual(['N3 shell thickness 30 → 35', 'N3 shell thickness 35 → 40']);
+
+    const forward = travel(back.history, 1, back.project!);
+    expect(forward.project!.modules).toEqual(states[2].modules);
+    expect(travel(createHistory(), -1, states[3]).project).toBeUndefined();
+
+    // A new change drops whatever was undone
+    expect(edit(back.history, states[1], states[3], 50000).future).toEqual([]);
+  });
+
+  it('restores settings and keeps only the latest changes', () => {
+    const raised = { ...DEFAULT_SETTINGS, labourRates: { ...DEFAULT_SETTINGS.labourRates, WLONG: 999 } };
+    const history = recordChange(createHistory(), { target: 'settings', before: DEFAULT_SETTINGS, after: raised }, 'Settings',
+      findDifferences(DEFAULT_SETTINGS, raised));
+    expect(travel(history, -1, null).settings).toBe(DEFAULT_SETTINGS);
+
+    let long = createHistory();
+    for (let i = 0; i < MAX_HISTORY + 5; i++) {
+      long = edit(long, project(nozzles(i)), project(nozzles(i + 1)), i * 10000);
+    }
+    expect(long.past).toHaveLength(MAX_HISTORY);
+    expect(long.past[0].label).toBe('N3 shell thickness 5 → 6');
+  });
+});
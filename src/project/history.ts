@@ -0,0 +1,287 @@
+import type { VesselProject, ProjectEquipment, ModuleId } from './types';
+import type { SharedSettings } from '../shared/types';
+import { generateId } from './storage';
+
+/**
+ * Undo / Redo History
+ *
+ * Each entry holds the state before and after one change to the project or
+ * the settings, and names it from the values that moved ("N3 shell thickness
+ * 25 → 32"). Keystrokes into the same field within a moment of each other
+ * fold into one entry; the oldest entries fall off past MAX_HISTORY.
+ *
+ * A project entry also names the part it changed, and undo puts back only
+ * that part - the equipment item selected, a module's first fill and other
+ * unrecorded changes stay as they are.
+ */
+
+export const MAX_HISTORY = 50;
+
+// Edits to the same field closer together than this are one change
+const COALESCE_MS = 1500;
+
+// Calculated or bookkeeping fields - they move with a change, never are one
+const IGNORED_FIELDS = ['results', 'activityCodes', 'summaries', 'modifiedAt', 'activeEquipmentId', 'revisions'];
+
+/**
+ * One value that moved - from/to undefined when an item was added/removed
+ */
+export interface Difference {
+  owner: string | null;        // Tag of the nearest item holding the value
+  path: string[];
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * The part of a project one change covers
+ */
+export type ProjectPart =
+  | { kind: 'header'; field: 'jobNumber' | 'vesselName' | 'description' }
+  | { kind: 'equipment' }                                               // The list - tags, names, quantities
+  | { kind: 'vessel'; equipmentId: string }                             // With the module items bound to it
+  | { kind: 'modules'; moduleIds: ModuleId[]; equipmentId: string | null };  // null - job modules
+
+export type HistoryChange =
+  | { target: 'project'; before: VesselProject; after: VesselProject; part: ProjectPart }
+  | { target: 'settings'; before: SharedSettings; after: SharedSettings };
+
+export type HistoryEntry = HistoryChange & {
+  id: string;
+  scope: string;               // Module or area changed, e.g. "Nozzles"
+  differences: Difference[];
+  label: string;
+  at: number;
+};
+
+export interface History {
+  past: HistoryEntry[];        // Oldest first - the last is undone next
+  future: HistoryEntry[];      // Nearest first - the first is redone next
+}
+
+export function createHistory(): History {
+  return { past: [], future: [] };
+}
+
+interface Identified {
+  id: string;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isIdentified = (value: unknown): value is Identified =>
+  isObject(value) && typeof value.id === 'string';
+
+function getOwner(value: unknown): string | null {
+  if (!isObject(value)) return null;
+  const owner = value.tag || value.name || value.number;
+  return typeof owner === 'string' && owner ? owner : null;
+}
+
+/**
+ * Every value that differs between two states. Lists of items with IDs are
+ * matched by ID, so an insert reads as one added item rather than a shift.
+ */
+export function findDifferences(before: unknown, after: unknown, owner: string | null = null, path: string[] = []): Difference[] {
+  if (before === after) return [];
+
+  if (Array.isArray(before) && Array.isArray(after) && [...before, ...after].every(isIdentified)) {
+    const kept = after.flatMap(item => {
+      const previous = before.find(b => b.id === item.id);
+      if (!previous) return [{ owner: getOwner(item), path, from: undefined, to: item }];
+      return findDifferences(previous, item, getOwner(item) ?? owner, path);
+    });
+    const removed = before
+      .filter(item => !after.some(a => a.id === item.id))
+      .map(item => ({ owner: getOwner(item), path, from: item, to: undefined }));
+    return [...kept, ...removed];
+  }
+
+  if ((isObject(before) && isObject(after)) || (Array.isArray(before) && Array.isArray(after))) {
+    const a = before as Record<string, unknown>;
+    const b = after as Record<string, unknown>;
+    const nextOwner = getOwner(after) ?? owner;
+    return [...new Set([...Object.keys(a), ...Object.keys(b)])]
+      .filter(key => !IGNORED_FIELDS.includes(key))
+      .flatMap(key => findDifferences(a[key], b[key], nextOwner, [...path, key]));
+  }
+
+  return JSON.stringify(before) === JSON.stringify(after) ? [] : [{ owner, path, from: before, to: after }];
+}
+
+// Modules holding items bound to the vessel - a vessel change rewrites them
+const VESSEL_BOUND_MODULES: ModuleId[] = ['longwelds', 'circwelds', 'nozzles'];
+
+const findEquipment = (project: VesselProject, id: string) => project.equipment.find(e => e.id === id);
+
+function withEquipment(project: VesselProject, id: string, update: (equipment: ProjectEquipment) => ProjectEquipment): VesselProject {
+  return { ...project, equipment: project.equipment.map(e => (e.id === id ? update(e) : e)) };
+}
+
+/**
+ * The values a part covers, for finding what a change moved
+ */
+export function selectPart(project: VesselProject, part: ProjectPart): unknown {
+  switch (part.kind) {
+    case 'header':
+      return project[part.field];
+    case 'equipment':
+      return project.equipment.map(({ id, tag, name, quantity }) => ({ id, tag, name, quantity }));
+    case 'vessel':
+      return findEquipment(project, part.equipmentId)?.vessel;
+    case 'modules': {
+      const modules = part.equipmentId === null ? project.modules : findEquipment(project, part.equipmentId)?.modules;
+      const [moduleId] = part.moduleIds;
+      return part.moduleIds.length === 1
+        ? modules?.[moduleId]
+        : Object.fromEntries(part.moduleIds.map(id => [id, modules?.[id]]));
+    }
+  }
+}
+
+/**
+ * Copy one part from a recorded state into the project, leaving the rest.
+ * Module data brings its summary along, so totals match without the module open.
+ */
+export function restorePart(project: VesselProject, source: VesselProject, part: ProjectPart): VesselProject {
+  switch (part.kind) {
+    case 'header':
+      return { ...project, [part.field]: source[part.field] };
+
+    case 'equipment': {
+      // Items still here keep their modules - only the list and details go back
+      const equipment = source.equipment.map(item => {
+        const kept = findEquipment(project, item.id);
+        return kept ? { ...kept, tag: item.tag, name: item.name, quantity: item.quantity } : item;
+      });
+      const activeEquipmentId = equipment.some(e => e.id === project.activeEquipmentId)
+        ? project.activeEquipmentId
+        : source.activeEquipmentId;
+      return { ...project, equipment, activeEquipmentId };
+    }
+
+    case 'vessel': {
+      const from = findEquipment(source, part.equipmentId);
+      if (!from) return project;
+      // Bound modules the vessel change did not create are left as they are
+      const bound = VESSEL_BOUND_MODULES.filter(id => from.modules[id] !== undefined);
+      return withEquipment(project, part.equipmentId, e => ({
+        ...e,
+        vessel: from.vessel,
+        modules: { ...e.modules, ...Object.fromEntries(bound.map(id => [id, from.modules[id]])) },
+        summaries: { ...e.summaries, ...Object.fromEntries(bound.map(id => [id, from.summaries[id]])) },
+      }));
+    }
+
+    case 'modules': {
+      const data = (modules: VesselProject['modules']) => Object.fromEntries(part.moduleIds.map(id => [id, modules[id]]));
+      if (part.equipmentId === null) {
+        return { ...project, modules: { ...project.modules, ...data(source.modules) } };
+      }
+      const from = findEquipment(source, part.equipmentId);
+      if (!from) return project;
+      return withEquipment(project, part.equipmentId, e => ({
+        ...e,
+        modules: { ...e.modules, ...data(from.modules) },
+        summaries: { ...e.summaries, ...Object.fromEntries(part.moduleIds.map(id => [id, from.summaries[id]])) },
+      }));
+    }
+  }
+}
+
+// "shellThickness" → "shell thickness"; codes such as WLONG stay as they are
+function toWords(key: string): string {
+  return key
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .split(' ')
+    .map(word => /^[A-Z][a-z]/.test(word) ? word.toLowerCase() : word)
+    .join(' ');
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'number') return String(Math.round(value * 1000) / 1000);
+  if (typeof value === 'boolean') return value ? 'on' : 'off';
+  if (typeof value === 'string') return value;
+  return '…';
+}
+
+const isItemChange = (d: Difference) => (d.from === undefined && isIdentified(d.to)) || (d.to === undefined && isIdentified(d.from));
+
+/**
+ * Name a change for the history list
+ */
+export function describeChange(scope: string, differences: Difference[]): string {
+  if (differences.length === 1) {
+    const [d] = differences;
+    if (isItemChange(d)) return `${scope}: ${d.to === undefined ? 'removed' : 'added'} ${d.owner ?? 'item'}`;
+    const field = [...d.path].reverse().find(key => !/^\d+$/.test(key));
+    const name = [d.owner ?? scope, field && toWords(field)].filter(Boolean).join(' ');
+    return `${name} ${formatValue(d.from)} → ${formatValue(d.to)}`;
+  }
+  const owners = new Set(differences.map(d => d.owner));
+  const [owner] = owners;
+  return `${owners.size === 1 && owner ? owner : scope}: ${differences.length} changes`;
+}
+
+// Same single field as the last entry, typed a moment later
+function continues(entry: HistoryEntry, change: HistoryChange, scope: string, differences: Difference[], at: number): boolean {
+  if (entry.target !== change.target || entry.scope !== scope || at - entry.at > COALESCE_MS) return false;
+  if (entry.target === 'project' && change.target === 'project' && JSON.stringify(entry.part) !== JSON.stringify(change.part)) return false;
+  if (entry.differences.length !== 1 || differences.length !== 1) return false;
+  const [last] = entry.differences;
+  const [next] = differences;
+  return !isItemChange(last) && !isItemChange(next) && last.owner === next.owner && last.path.join('.') === next.path.join('.');
+}
+
+/**
+ * Add a change to the history - clears the redo list. The differences are
+ * those of the part changed (a module's data, the vessel) for the label.
+ */
+export function recordChange(history: History, change: HistoryChange, scope: string, differences: Difference[], at = Date.now()): History {
+  const { past } = history;
+  const last = past[past.length - 1];
+  if (differences.length === 0) return history;
+
+  if (last && continues(last, change, scope, differences, at)) {
+    const merged = [{ ...differences[0], from: last.differences[0].from }];
+    const rest = past.slice(0, -1);
+    // Typed back to where it started - nothing left to undo
+    if (JSON.stringify(merged[0].from) === JSON.stringify(merged[0].to)) return { past: rest, future: [] };
+    const entry = { ...last, after: change.after, differences: merged, label: describeChange(scope, merged), at } as HistoryEntry;
+    return { past: [...rest, entry], future: [] };
+  }
+
+  const entry = { ...change, id: generateId(), scope, differences, label: describeChange(scope, differences), at } as HistoryEntry;
+  return { past: [...past, entry].slice(-MAX_HISTORY), future: [] };
+}
+
+/**
+ * Step back (negative) or forward through the history. Returns the states to
+ * restore - the project with each entry's part put back as it was before
+ * (undo) or after (redo), and the settings of the last settings entry.
+ */
+export function travel(history: History, steps: number, project: VesselProject | null): {
+  history: History;
+  project?: VesselProject;
+  settings?: SharedSettings;
+} {
+  let result: { history: History; project?: VesselProject; settings?: SharedSettings } = { history };
+  for (let i = 0; i < Math.abs(steps); i++) {
+    const { past, future } = result.history;
+    const entry = steps < 0 ? past[past.length - 1] : future[0];
+    if (!entry) break;
+    const next: History = steps < 0
+      ? { past: past.slice(0, -1), future: [entry, ...future] }
+      : { past: [...past, entry], future: future.slice(1) };
+    if (entry.target === 'project') {
+      const current = result.project ?? project;
+      const state = steps < 0 ? entry.before : entry.after;
+      result = { ...result, history: next, project: current ? restorePart(current, state, entry.part) : undefined };
+    } else {
+      result = { ...result, history: next, settings: steps < 0 ? entry.before : entry.after };
+    }
+  }
+  return result;
+}
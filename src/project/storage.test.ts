@@ -0,0 +1,103 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  createEmptyProject,
+  createRevision,
+  describeStorageError,
+  listProjects,
+  migrateProject,
+  nextRevisionLabel,
+  toProjectSummary,
+} from './storage';
+import type { ProjectRevision, VesselProject } from './types';
+
+describe('Storage', () => {
+  afterEach(() => {
+    localStorage.clear();
+    vi.unstubAllGlobals();
+  });
+
+  it('lists a project by its header, equipment and latest revision', () => {
+    const project = { ...createEmptyProject(), jobNumber: 'J1234', vesselName: 'Reboiler' };
+    expect(toProjectSummary(project)).toEqual({
+      id: project.id,
+      jobNumber: 'J1234',
+      vesselName: 'Reboiler',
+      modifiedAt: project.modifiedAt,
+      equipmentCount: 1,
+      revision: '',
+    });
+
+    const rev0 = createRevision(project, 'Tender');
+    const revised = { ...project, revisions: [rev0, createRevision({ ...project, revisions: [rev0] }, 'Rates')] };
+    expect(toProjectSummary(revised).revision).toBe('A');
+  });
+
+  it('labels revisions 0, then A to Z, then AA', () => {
+    const revisions = (count: number) => Array.from({ length: count }) as ProjectRevision[];
+    expect(nextRevisionLabel([])).toBe('0');
+    expect(nextRevisionLabel(revisions(1))).toBe('A');
+    expect(nextRevisionLabel(revisions(26))).toBe('Z');
+    expect(nextRevisionLabel(revisions(27))).toBe('AA');
+    expect(nextRevisionLabel(revisions(53))).toBe('BA');
+  });
+
+  it('keeps a revision apart from later edits', () => {
+    const project = createEmptyProject();
+    const revision = createRevision(project, 'First issue');
+    expect(revision).toMatchObject({ label: '0', reason: 'First issue' });
+    expect(revision.snapshot).not.toHaveProperty('revisions');
+
+    const tag = project.equipment[0].tag;
+    project.equipment[0].tag = 'D2';
+    expect(revision.snapshot.equipment[0].tag).toBe(tag);
+
+    const legacy = { ...project } as Partial<VesselProject>;
+    delete legacy.revisions;
+    expect(migrateProject(legacy as VesselProject).revisions).toEqual([]);
+  });
+
+  it('says plainly when storage is full', () => {
+    const full = new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+    expect(describeStorageError(full, 'save the project')).toBe(
+      'Could not save the project - browser storage is full. Export a backup and delete old projects to free space.'
+    );
+    expect(describeStorageError(new Error('disk error'), 'open the project')).toBe('Could not open the project: disk error');
+  });
+
+  it('keeps localStorage projects when they cannot be moved', async () => {
+    // jsdom has no IndexedDB - the move fails and nothing is lost
+    localStorage.setItem('vessel-estimator-projects', JSON.stringify([createEmptyProject()]));
+    await expect(listProjects()).rejects.toThrow('IndexedDB');
+    expect(localStorage.getItem('vessel-estimator-projects')).not.toBeNull();
+  });
+
+  it('moves localStorage projects into IndexedDB and frees the key', async () => {
+    const project = { ...createEmptyProject(), jobNumber: 'J1234', vesselName: 'Reboiler' };
+    const legacy = { ...project } as Partial<VesselProject>;
+    delete legacy.revisions;
+    localStorage.setItem('vessel-estimator-projects', JSON.stringify([legacy]));
+
+    // A fresh database and a fresh module, so the one-off move runs against it
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.resetModules();
+    const storage = await import('./storage');
+
+    expect(await storage.listProjects()).toEqual([toProjectSummary(project)]);
+    expect(await storage.getProject(project.id)).toEqual(project);
+    expect(localStorage.getItem('vessel-estimator-projects')).toBeNull();
+  });
+
+  it('warns when the localStorage projects cannot be read', async () => {
+    localStorage.setItem('vessel-estimator-projects', '[{"id": "p1", "jobNumber": ');
+
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.resetModules();
+    const storage = await import('./storage');
+
+    // The list still opens, without the old projects - and says why
+    expect(await storage.listProjects()).toEqual([]);
+    expect(await storage.checkLocalProjects()).toMatch(/^Could not read the projects saved by an earlier version - they are not listed: /);
+    expect(localStorage.getItem('vessel-estimator-projects')).not.toBeNull();
+  });
+});
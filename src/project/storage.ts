@@ -1,6 +1,10 @@
-import type { VesselProject } from './types';
-import type { SharedSettings } from '../shared/types';
+import type { VesselProject, VesselDefinition, ProjectEquipment, ProjectRevision, ProjectSummary, ModuleId } from './types';
+import { DEFAULT_VESSEL, JOB_MODULES, MODULES } from './types';
+import type { SharedSettings, ModuleSummary } from '../shared/types';
+import { migrateSettings } from '../shared/settings';
+import { PROJECTS_STORE, SUMMARIES_STORE, readAll, readOne, write } from './database';
 
+// Projects were kept here before IndexedDB - moved across on first open
 const PROJECTS_KEY = 'vessel-estimator-projects';
 const SETTINGS_KEY = 'vessel-estimator-settings';
 
@@ -12,55 +16,180 @@ export function generateId(): string {
 }
 
 /**
- * Get all saved projects
+ * Bring a saved equipment item up to date
+ *
+ * Shell layouts used to hold the vessel ID, tan-tan length and courses -
+ * these now live on the vessel definition.
  */
-export function getProjects(): VesselProject[] {
+export function migrateEquipment(equipment: ProjectEquipment): ProjectEquipment {
+  const layout = (equipment.modules.shell as { layout?: Partial<VesselDefinition> } | undefined)?.layout;
+  if (equipment.vessel || !layout?.courses) return equipment;
+  const { insideDiameter, tanTanLength, courses } = { ...DEFAULT_VESSEL, ...layout };
+  return { ...equipment, vessel: { ...DEFAULT_VESSEL, insideDiameter, tanTanLength, courses } };
+}
+
+// Single-vessel projects saved before equipment items
+type SingleVesselProject = Omit<VesselProject, 'equipment' | 'activeEquipmentId' | 'revisions'> & {
+  vessel?: VesselDefinition;
+  summaries?: Record<ModuleId, ModuleSummary | null>;
+};
+
+/**
+ * Bring a saved project up to date
+ *
+ * A single-vessel project becomes a job with one equipment item holding its
+ * vessel, module data and summaries. The offer stays with the job.
+ */
+export function migrateProject(project: VesselProject | SingleVesselProject): VesselProject {
+  if ('equipment' in project && project.equipment) {
+    return { ...project, equipment: project.equipment.map(migrateEquipment), revisions: project.revisions ?? [] };
+  }
+  const { vessel, summaries, modules, ...job } = project as SingleVesselProject;
+  const jobModules = Object.fromEntries(JOB_MODULES.filter(id => id in modules).map(id => [id, modules[id]]));
+  const equipmentModules = Object.fromEntries(Object.entries(modules).filter(([id]) => !JOB_MODULES.includes(id as ModuleId)));
+  const equipment = migrateEquipment({
+    ...createEquipment('V1', job.vesselName),
+    vessel,
+    modules: equipmentModules,
+    summaries: { ...createEmptySummaries(), ...summaries },
+  });
+  return { ...job, equipment: [equipment], activeEquipmentId: equipment.id, modules: jobModules, revisions: [] };
+}
+
+/**
+ * Listing record for a project
+ */
+export function toProjectSummary(project: VesselProject): ProjectSummary {
+  return {
+    id: project.id,
+    jobNumber: project.jobNumber,
+    vesselName: project.vesselName,
+    modifiedAt: project.modifiedAt,
+    equipmentCount: project.equipment.length,
+    revision: project.revisions[project.revisions.length - 1]?.label ?? '',
+  };
+}
+
+/**
+ * Message for a failed storage operation - a full disk says so plainly
+ */
+export function describeStorageError(error: unknown, action: string): string {
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    return `Could not ${action} - browser storage is full. Export a backup and delete old projects to free space.`;
+  }
+  const reason = error instanceof Error ? error.message : String(error);
+  return `Could not ${action}: ${reason}`;
+}
+
+// Warn once saved data takes this share of what the browser allows
+const STORAGE_WARNING_RATIO = 0.9;
+
+/**
+ * Warning when browser storage is nearly full, or null
+ */
+export async function checkStorageUsage(): Promise<string | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  if (!quota || usage / quota < STORAGE_WARNING_RATIO) return null;
+  return `Browser storage is ${Math.round((usage / quota) * 100)}% full. Export a backup and delete old projects before it runs out.`;
+}
+
+/**
+ * Move projects saved in localStorage into IndexedDB, then free the key.
+ * A blob that cannot be read is left where it is, and the reason returned.
+ */
+async function migrateLocalProjects(): Promise<string | null> {
+  const data = localStorage.getItem(PROJECTS_KEY);
+  if (!data) return null;
+  let projects: VesselProject[];
   try {
-    const data = localStorage.getItem(PROJECTS_KEY);
-    return data ? JSON.parse(data) : [];
-  } catch {
-    return [];
+    projects = (JSON.parse(data) as VesselProject[]).map(migrateProject);
+  } catch (err) {
+    return describeStorageError(err, 'read the projects saved by an earlier version - they are not listed');
+  }
+  await write([PROJECTS_STORE, SUMMARIES_STORE], transaction => {
+    projects.forEach(project => {
+      transaction.objectStore(PROJECTS_STORE).put(project);
+      transaction.objectStore(SUMMARIES_STORE).put(toProjectSummary(project));
+    });
+  });
+  localStorage.removeItem(PROJECTS_KEY);
+  return null;
+}
+
+let migrating: Promise<string | null> | null = null;
+
+// Every read and write waits for the one-off move out of localStorage
+function ready(): Promise<string | null> {
+  if (!migrating) {
+    migrating = migrateLocalProjects();
+    migrating.catch(() => { migrating = null; });
   }
+  return migrating;
+}
+
+/**
+ * Warning when projects saved in localStorage could not be moved, or null
+ */
+export async function checkLocalProjects(): Promise<string | null> {
+  return ready();
+}
+
+/**
+ * List saved projects - listing records only, newest first
+ */
+export async function listProjects(): Promise<ProjectSummary[]> {
+  await ready();
+  const summaries = await readAll<ProjectSummary>(SUMMARIES_STORE);
+  return summaries.sort((a, b) => b.modifiedAt.localeCompare(a.modifiedAt));
 }
 
 /**
  * Get a single project by ID
  */
-export function getProject(id: string): VesselProject | null {
-  const projects = getProjects();
-  return projects.find(p => p.id === id) || null;
+export async function getProject(id: string): Promise<VesselProject | null> {
+  await ready();
+  const project = await readOne<VesselProject>(PROJECTS_STORE, id);
+  return project ? migrateProject(project) : null;
+}
+
+/**
+ * Get every saved project in full - for backups
+ */
+export async function getAllProjects(): Promise<VesselProject[]> {
+  await ready();
+  const projects = await readAll<VesselProject>(PROJECTS_STORE);
+  return projects.map(migrateProject);
 }
 
 /**
  * Save a project (creates new or updates existing)
  */
-export function saveProject(project: VesselProject): VesselProject {
-  const projects = getProjects();
+export async function saveProject(project: VesselProject): Promise<VesselProject> {
+  await ready();
   const now = new Date().toISOString();
-  
-  const index = projects.findIndex(p => p.id === project.id);
-  const updated: VesselProject = {
+  const updated = migrateProject({
     ...project,
     modifiedAt: now,
     createdAt: project.createdAt || now,
-  };
-  
-  if (index >= 0) {
-    projects[index] = updated;
-  } else {
-    projects.push(updated);
-  }
-  
-  localStorage.setItem(PROJECTS_KEY, JSON.stringify(projects));
+  });
+
+  await write([PROJECTS_STORE, SUMMARIES_STORE], transaction => {
+    transaction.objectStore(PROJECTS_STORE).put(updated);
+    transaction.objectStore(SUMMARIES_STORE).put(toProjectSummary(updated));
+  });
   return updated;
 }
 
 /**
  * Delete a project
  */
-export function deleteProject(id: string): void {
-  const projects = getProjects().filter(p => p.id !== id);
-  localStorage.setItem(PROJECTS_KEY, JSON.stringify(projects));
+export async function deleteProject(id: string): Promise<void> {
+  await ready();
+  await write([PROJECTS_STORE, SUMMARIES_STORE], transaction => {
+    transaction.objectStore(PROJECTS_STORE).delete(id);
+    transaction.objectStore(SUMMARIES_STORE).delete(id);
+  });
 }
 
 /**
@@ -76,17 +205,39 @@ export function saveSettings(settings: SharedSettings): void {
 export function loadSettings(): SharedSettings | null {
   try {
     const data = localStorage.getItem(SETTINGS_KEY);
-    return data ? JSON.parse(data) : null;
+    return data ? migrateSettings(JSON.parse(data)) : null;
   } catch {
     return null;
   }
 }
 
+/**
+ * Empty summaries for every module
+ */
+export function createEmptySummaries(): Record<ModuleId, ModuleSummary | null> {
+  return Object.fromEntries(MODULES.map(mod => [mod.id, null])) as Record<ModuleId, ModuleSummary | null>;
+}
+
+/**
+ * Create a new empty equipment item
+ */
+export function createEquipment(tag: string, name = ''): ProjectEquipment {
+  return {
+    id: generateId(),
+    tag,
+    name,
+    quantity: 1,
+    modules: {},
+    summaries: createEmptySummaries(),
+  };
+}
+
 /**
  * Create a new empty project
  */
 export function createEmptyProject(): VesselProject {
   const now = new Date().toISOString();
+  const equipment = createEquipment('V1');
   return {
     id: generateId(),
     jobNumber: '',
@@ -94,17 +245,37 @@ export function createEmptyProject(): VesselProject {
     description: '',
     createdAt: now,
     modifiedAt: now,
+    equipment: [equipment],
+    activeEquipmentId: equipment.id,
     modules: {},
-    summaries: {
-      nozzles: null,
-      longwelds: null,
-      circwelds: null,
-      pipejoints: null,
-      internals: null,
-      externals: null,
-      offer: null,
-    },
+    revisions: [],
   };
 }
 
+/**
+ * Label for the next revision - Rev 0 first, then A to Z, AA, AB, ...
+ */
+export function nextRevisionLabel(revisions: ProjectRevision[]): string {
+  const count = revisions.length;
+  if (count === 0) return '0';
+  let label = '';
+  for (let n = count; n > 0; n = Math.floor((n - 1) / 26)) {
+    label = String.fromCharCode(65 + ((n - 1) % 26)) + label;
+  }
+  return label;
+}
 
+/**
+ * Take a revision of the project as it stands now
+ */
+export function createRevision(project: VesselProject, reason: string): ProjectRevision {
+  const { revisions, ...snapshot } = project;
+  return {
+    id: generateId(),
+    label: nextRevisionLabel(revisions),
+    reason,
+    createdAt: new Date().toISOString(),
+    // Deep copy - later edits to the project must not reach the revision
+    snapshot: JSON.parse(JSON.stringify(snapshot)),
+  };
+}
@@ -1,9 +1,10 @@
 import type { SharedSettings, ModuleSummary } from '../shared/types';
+import type { HeadType } from '../modules/heads/types';
 
 /**
  * Module identifiers
  */
-export type ModuleId = 'nozzles' | 'longwelds' | 'circwelds' | 'pipejoints' | 'internals' | 'externals' | 'offer';
+export type ModuleId = 'nozzles' | 'shell' | 'longwelds' | 'circwelds' | 'heads' | 'pipejoints' | 'internals' | 'externals' | 'tubesheets' | 'pwht' | 'pressuretest' | 'coatings' | 'offer';
 
 /**
  * Module metadata
@@ -19,38 +20,169 @@ export interface ModuleInfo {
  */
 export const MODULES: ModuleInfo[] = [
   { id: 'nozzles', name: 'Nozzles', description: 'Nozzle-to-shell welds' },
+  { id: 'shell', name: 'Vessel', description: 'Vessel definition, shell courses and plate nesting' },
   { id: 'longwelds', name: 'Long Welds', description: 'Longitudinal seam welds' },
   { id: 'circwelds', name: 'Circ Welds', description: 'Circumferential welds' },
+  { id: 'heads', name: 'Heads', description: 'Dished ends and head-to-shell welds' },
   { id: 'pipejoints', name: 'Pipe Joints', description: 'Pipe butt weld joints' },
   { id: 'internals', name: 'Internals', description: 'Internal attachments' },
   { id: 'externals', name: 'Externals', description: 'External attachments' },
+  { id: 'tubesheets', name: 'Tubesheets', description: 'Tube-to-tubesheet welds' },
+  { id: 'pwht', name: 'PWHT', description: 'Post-weld heat treatment' },
+  { id: 'pressuretest', name: 'Pressure Test', description: 'Hydrostatic or pneumatic test' },
+  { id: 'coatings', name: 'Coatings', description: 'Blast and paint' },
   { id: 'offer', name: 'Offer Sheet', description: 'Generate scope of works' },
 ];
 
 /**
- * Vessel project - contains all module data
+ * Vessel definition - one shell ID, course thicknesses and heads shared by
+ * every module. Nozzles, long welds and circ welds bound to a course take its
+ * thickness (and the ID) unless the item overrides them.
+ */
+export interface VesselCourse {
+  id: string;
+  tag: string;                 // e.g. "C1"
+  width: number;               // mm - course width along the shell axis
+  thickness: number;           // mm - nominal plate
+  material: string;
+  plateLength: number;         // mm - stock plate length, rolled around the shell
+  plateWidth: number;          // mm - stock plate width
+}
+
+export interface VesselHead {
+  id: string;
+  tag: string;
+  headType: HeadType;
+  thickness: number;           // mm - after forming
+  straightFlange: number;      // mm
+}
+
+export interface VesselDefinition {
+  insideDiameter: number;      // mm
+  tanTanLength: number;        // mm
+  designPressure: number;      // kPa g
+  designTemperature: number;   // °C
+  material: string;
+  corrosionAllowance: number;  // mm
+  courses: VesselCourse[];
+  heads: VesselHead[];
+}
+
+// Values an item keeps as entered instead of taking them from its course
+export interface VesselOverrides {
+  thickness?: boolean;
+  diameter?: boolean;
+}
+
+export const DEFAULT_VESSEL: VesselDefinition = {
+  insideDiameter: 2000,
+  tanTanLength: 6000,
+  designPressure: 1000,
+  designTemperature: 100,
+  material: 'AS1548-PT460NR',
+  corrosionAllowance: 3,
+  courses: [],
+  heads: [],
+};
+
+export const DEFAULT_VESSEL_COURSE: Omit<VesselCourse, 'id' | 'tag'> = {
+  width: 2000,
+  thickness: 20,
+  material: 'AS1548-PT460NR',
+  plateLength: 9000,
+  plateWidth: 2500,
+};
+
+// Module data kept once for the whole job rather than per equipment item
+export const JOB_MODULES: ModuleId[] = ['offer'];
+
+/**
+ * Module data - each module stores its own data structure
+ */
+export interface ProjectModules {
+  nozzles?: unknown;      // NozzleItem[]
+  shell?: unknown;        // ShellLayoutInput - courses live on the vessel
+  longwelds?: unknown;    // LongWeldItem[]
+  circwelds?: unknown;    // CircWeldItem[]
+  heads?: unknown;        // HeadItem[]
+  pipejoints?: unknown;   // PipeJointItem[]
+  internals?: unknown;    // InternalItem[]
+  externals?: unknown;    // ExternalItem[]
+  tubesheets?: unknown;   // TubesheetItem[]
+  pwht?: unknown;         // PwhtInput
+  pressuretest?: unknown; // PressureTestInput
+  coatings?: unknown;     // CoatingsInput
+  offer?: unknown;        // OfferData - job level
+}
+
+/**
+ * One vessel or equipment item in the job - a reboiler, a drum, a filter.
+ * Each has its own vessel definition, module data and summaries; the
+ * quantity builds that many identical units to the one estimate.
+ */
+export interface ProjectEquipment {
+  id: string;
+  tag: string;                 // e.g. "V-101"
+  name: string;                // e.g. "Reboiler"
+  quantity: number;            // Identical units
+
+  // Shell and heads shared by the modules
+  vessel?: VesselDefinition;
+
+  // Module data for this item - job modules live on the project
+  modules: ProjectModules;
+
+  // Cached summaries for quick display, per unit
+  summaries: Record<ModuleId, ModuleSummary | null>;
+}
+
+/**
+ * Vessel project - the job, holding its equipment items
  */
 export interface VesselProject {
   id: string;
   jobNumber: string;
-  vesselName: string;
+  vesselName: string;          // Job description
   description: string;
   createdAt: string;
   modifiedAt: string;
-  
-  // Module data - each module stores its own data structure
-  modules: {
-    nozzles?: unknown;      // NozzleItem[]
-    longwelds?: unknown;    // LongWeldItem[]
-    circwelds?: unknown;    // CircWeldItem[]
-    pipejoints?: unknown;   // PipeJointItem[]
-    internals?: unknown;    // InternalItem[]
-    externals?: unknown;    // ExternalItem[]
-    offer?: unknown;        // OfferData
-  };
-  
-  // Cached summaries for quick display
-  summaries: Record<ModuleId, ModuleSummary | null>;
+
+  equipment: ProjectEquipment[];
+  activeEquipmentId: string;   // Equipment item the modules are editing
+
+  // Job module data (JOB_MODULES) - the rest lives on each equipment item
+  modules: ProjectModules;
+
+  // Issued revisions, oldest first
+  revisions: ProjectRevision[];
+}
+
+// The project as it stood when a revision was taken
+export type ProjectSnapshot = Omit<VesselProject, 'revisions'>;
+
+/**
+ * Estimate revision - an immutable copy of the project (Rev 0, Rev A, ...)
+ * with the reason it was raised. The offer can be issued from any of them.
+ */
+export interface ProjectRevision {
+  id: string;
+  label: string;               // "0", "A", "B", ...
+  reason: string;
+  createdAt: string;
+  snapshot: ProjectSnapshot;
+}
+
+/**
+ * Saved project listing - kept apart from the project so the list of saved
+ * jobs loads without reading every job
+ */
+export interface ProjectSummary {
+  id: string;
+  jobNumber: string;
+  vesselName: string;
+  modifiedAt: string;
+  equipmentCount: number;
+  revision: string;            // Latest revision label - empty before Rev 0
 }
 
 /**
@@ -58,7 +190,7 @@ export interface VesselProject {
  */
 export interface ProjectState {
   currentProject: VesselProject | null;
-  savedProjects: VesselProject[];
+  savedProjects: ProjectSummary[];
   settings: SharedSettings;
   hasUnsavedChanges: boolean;
   activeModule: ModuleId;
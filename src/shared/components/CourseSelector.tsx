@@ -0,0 +1,59 @@
+import type { VesselCourse, VesselOverrides } from '../../project/types';
+
+export interface CourseBinding {
+  courseId?: string;
+  overrides?: VesselOverrides;
+}
+
+interface CourseSelectorProps {
+  value: CourseBinding;
+  courses: VesselCourse[];
+  diameter?: boolean;          // Item also takes the vessel ID
+  onChange: (binding: CourseBinding) => void;
+}
+
+/**
+ * Vessel course picker for a weld item - a bound item takes its shell
+ * thickness (and ID) from the vessel unless overridden.
+ */
+export function CourseSelector({ value, courses, diameter, onChange }: CourseSelectorProps) {
+  const course = courses.find(c => c.id === value.courseId);
+  const overrides = value.overrides ?? {};
+
+  const setOverride = (field: keyof VesselOverrides, checked: boolean) => {
+    onChange({ ...value, overrides: { ...overrides, [field]: checked || undefined } });
+  };
+
+  return (
+    <div className="wps-selector course-selector">
+      <select
+        value={value.courseId ?? ''}
+        onChange={(e) => onChange({ ...value, courseId: e.target.value || undefined })}
+      >
+        <option value="">Not bound - own shell</option>
+        {value.courseId && !course && <option value={value.courseId}>Removed course</option>}
+        {courses.map(c => (
+          <option key={c.id} value={c.id}>{c.tag} - {c.thickness}mm × {c.width}mm</option>
+        ))}
+      </select>
+      {course && (
+        <>
+          <label className="checkbox-label">
+            <input type="checkbox" checked={!!overrides.thickness} onChange={(e) => setOverride('thickness', e.target.checked)} />
+            Override thickness
+          </label>
+          {diameter && (
+            <label className="checkbox-label">
+              <input type="checkbox" checked={!!overrides.diameter} onChange={(e) => setOverride('diameter', e.target.checked)} />
+              Override diameter
+            </label>
+          )}
+          <p className="wps-note">Shell comes from {course.tag} on the Vessel tab.</p>
+        </>
+      )}
+      {value.courseId && !course && (
+        <p className="wps-warning">⚠ The course has been removed from the vessel - the item keeps its last shell</p>
+      )}
+    </div>
+  );
+}
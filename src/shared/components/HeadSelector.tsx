@@ -0,0 +1,57 @@
+import type { VesselHead, VesselOverrides } from '../../project/types';
+import { HEAD_TYPE_LABELS } from '../../modules/heads/types';
+
+export interface HeadBinding {
+  headId?: string;
+  overrides?: VesselOverrides;
+}
+
+interface HeadSelectorProps {
+  value: HeadBinding;
+  heads: VesselHead[];
+  onChange: (binding: HeadBinding) => void;
+}
+
+/**
+ * Vessel head picker for an item set into a head - a bound item takes the
+ * head type and thickness, and the vessel ID, unless overridden.
+ */
+export function HeadSelector({ value, heads, onChange }: HeadSelectorProps) {
+  const head = heads.find(h => h.id === value.headId);
+  const overrides = value.overrides ?? {};
+
+  const setOverride = (field: keyof VesselOverrides, checked: boolean) => {
+    onChange({ ...value, overrides: { ...overrides, [field]: checked || undefined } });
+  };
+
+  return (
+    <div className="wps-selector course-selector">
+      <select
+        value={value.headId ?? ''}
+        onChange={(e) => onChange({ ...value, headId: e.target.value || undefined })}
+      >
+        <option value="">Not bound - own head</option>
+        {value.headId && !head && <option value={value.headId}>Removed head</option>}
+        {heads.map(h => (
+          <option key={h.id} value={h.id}>{h.tag} - {HEAD_TYPE_LABELS[h.headType]} {h.thickness}mm</option>
+        ))}
+      </select>
+      {head && (
+        <>
+          <label className="checkbox-label">
+            <input type="checkbox" checked={!!overrides.thickness} onChange={(e) => setOverride('thickness', e.target.checked)} />
+            Override thickness
+          </label>
+          <label className="checkbox-label">
+            <input type="checkbox" checked={!!overrides.diameter} onChange={(e) => setOverride('diameter', e.target.checked)} />
+            Override diameter
+          </label>
+          <p className="wps-note">Head comes from {head.tag} on the Vessel tab.</p>
+        </>
+      )}
+      {value.headId && !head && (
+        <p className="wps-warning">⚠ The head has been removed from the vessel - the item keeps its last head</p>
+      )}
+    </div>
+  );
+}
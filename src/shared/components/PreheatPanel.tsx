@@ -0,0 +1,71 @@
+import type { PNumber, PreheatInput, PreheatMethod } from '../types';
+import { DEFAULT_PREHEAT_INPUT } from '../settings/defaults';
+import { P_NUMBER_GROUPS, PREHEAT_METHOD_LABELS } from '../../engine/preheat';
+import type { PreheatResult } from '../../engine/preheat';
+import { NumberInput } from './NumberInput';
+
+interface PreheatPanelProps {
+  value?: PreheatInput;
+  result: PreheatResult | null;
+  onChange: (preheat: PreheatInput) => void;
+}
+
+/**
+ * Preheat inputs for a weld item - when calculated, shows the temperature and
+ * how the heating hours were derived.
+ */
+export function PreheatPanel({ value, result, onChange }: PreheatPanelProps) {
+  const input = value ?? DEFAULT_PREHEAT_INPUT;
+  const update = (updates: Partial<PreheatInput>) => onChange({ ...input, ...updates });
+
+  return (
+    <div className="preheat-panel">
+      <label className="checkbox-label">
+        <input
+          type="checkbox"
+          checked={input.calculate}
+          onChange={(e) => update({ calculate: e.target.checked })}
+        />
+        Calculate preheat hours
+      </label>
+
+      {input.calculate && (
+        <>
+          <div className="input-row">
+            <div className="input-group">
+              <label>Material</label>
+              <select value={input.pNumber} onChange={(e) => update({ pNumber: e.target.value as PNumber })}>
+                {(Object.keys(P_NUMBER_GROUPS) as PNumber[]).map(p => (
+                  <option key={p} value={p}>{P_NUMBER_GROUPS[p].label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="input-group">
+              <label>CE (IIW)</label>
+              <NumberInput value={input.carbonEquivalent} step={0.01} min={0} onChange={(v) => update({ carbonEquivalent: v })} />
+            </div>
+          </div>
+          <div className="input-group">
+            <label>Method</label>
+            <select value={input.method} onChange={(e) => update({ method: e.target.value as PreheatMethod })}>
+              {(Object.keys(PREHEAT_METHOD_LABELS) as PreheatMethod[]).map(m => (
+                <option key={m} value={m}>{PREHEAT_METHOD_LABELS[m]}</option>
+              ))}
+            </select>
+          </div>
+        </>
+      )}
+
+      {result && (
+        <div className="preheat-derivation">
+          <div className="preheat-temp">
+            {result.required ? `Preheat ${result.temperature}°C` : 'No preheat required'}
+          </div>
+          <ul>
+            {result.derivation.map((step, i) => <li key={i}>{step}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { useState } from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ThicknessBandTable } from './ThicknessBandTable';
+import { resolveBand } from '../../engine/bands';
+import type { ThicknessBand } from '../types';
+
+interface Speed {
+  speed: number;
+}
+
+const BANDS: ThicknessBand<Speed>[] = [
+  { id: 'thin', upTo: 20, values: { speed: 200 } },
+  { id: 'medium', upTo: 40, values: { speed: 180 } },
+  { id: 'thick', upTo: null, values: { speed: 160 } },
+];
+
+function renderTable() {
+  const saved: { bands: ThicknessBand<Speed>[] } = { bands: BANDS };
+  function Harness() {
+    const [bands, setBands] = useState(BANDS);
+    return (
+      <ThicknessBandTable
+        bands={bands}
+        columns={[{ key: 'speed', label: 'Speed', step: 5 }]}
+        onChange={next => { saved.bands = next; setBands(next); }}
+      />
+    );
+  }
+  render(<Harness />);
+  return saved;
+}
+
+// Up to edge and value inputs, row by row
+const inputs = () => screen.getAllByRole('spinbutton') as HTMLInputElement[];
+
+describe('ThicknessBandTable', () => {
+  it('keeps the edited band in its row while a multi-digit edge is typed', () => {
+    const saved = renderTable();
+    const edge = inputs()[2]; // medium band edge
+
+    fireEvent.focus(edge);
+    fireEvent.change(edge, { target: { value: '3' } });
+    fireEvent.change(edge, { target: { value: '35' } });
+
+    // The same input still holds the medium band
+    expect(inputs()[2]).toBe(edge);
+    expect(edge.value).toBe('35');
+    expect(saved.bands.find(b => b.id === 'medium')).toMatchObject({ upTo: 35, values: { speed: 180 } });
+    expect(saved.bands.find(b => b.id === 'thin')).toMatchObject({ upTo: 20, values: { speed: 200 } });
+    expect(resolveBand(30, saved.bands)).toEqual({ speed: 180 });
+
+    fireEvent.blur(edge);
+    expect(inputs().map(input => input.value)).toEqual(['20', '200', '35', '180', '160']);
+  });
+
+  it('reorders rows once the table loses focus', () => {
+    const saved = renderTable();
+    const edge = inputs()[0]; // thin band edge
+
+    fireEvent.focus(edge);
+    fireEvent.change(edge, { target: { value: '50' } });
+    expect(inputs()[0]).toBe(edge);
+
+    fireEvent.blur(edge);
+    expect(inputs().map(input => input.value)).toEqual(['40', '180', '50', '200', '160']);
+    expect(resolveBand(45, saved.bands)).toEqual({ speed: 200 });
+    expect(screen.getByText('40-50mm')).toBeInTheDocument();
+  });
+});
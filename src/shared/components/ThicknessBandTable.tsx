@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import type { ThicknessBand } from '../types';
+import { NumberInput } from './NumberInput';
+import { sortBands, formatBandLabel, addBand, removeBand } from '../../engine/bands';
+
+interface BandColumn<T> {
+  key: keyof T & string;
+  label: React.ReactNode;
+  step: number;
+}
+
+interface ThicknessBandTableProps<T extends object> {
+  bands: ThicknessBand<T>[];
+  columns: BandColumn<T>[];
+  onChange: (bands: ThicknessBand<T>[]) => void;
+}
+
+/**
+ * Editable table of thickness bands - one row per band with its upper edge
+ * and values. Bands can be added (splitting the thickest) or removed.
+ *
+ * Rows are shown thinnest first, but hold their places while the table has
+ * focus - an edge being typed over would otherwise jump rows mid-number.
+ * Lookups sort the bands themselves, so the stored order does not matter.
+ */
+export function ThicknessBandTable<T extends object>({ bands, columns, onChange }: ThicknessBandTableProps<T>) {
+  const [heldOrder, setHeldOrder] = useState<string[] | null>(null);
+  const sorted = sortBands(bands);
+  const rows = heldOrder
+    ? [...bands].sort((a, b) => rank(heldOrder, a.id) - rank(heldOrder, b.id))
+    : sorted;
+  const gridTemplateColumns = `72px 56px repeat(${columns.length}, minmax(44px, 1fr)) 24px`;
+
+  const updateBand = (id: string, change: Partial<ThicknessBand<T>>) => {
+    onChange(bands.map(band => (band.id === id ? { ...band, ...change } : band)));
+  };
+
+  const updateValue = (band: ThicknessBand<T>, key: keyof T, value: number) => {
+    updateBand(band.id, { values: { ...band.values, [key]: value } });
+  };
+
+  const holdOrder = () => {
+    if (!heldOrder) setHeldOrder(rows.map(band => band.id));
+  };
+
+  const releaseOrder = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setHeldOrder(null);
+  };
+
+  return (
+    <div className="settings-table" onFocus={holdOrder} onBlur={releaseOrder}>
+      <div className="table-header" style={{ gridTemplateColumns }}>
+        <span>Thickness</span>
+        <span>Up to</span>
+        {columns.map(col => <span key={col.key}>{col.label}</span>)}
+        <span></span>
+      </div>
+      {rows.map(band => (
+        <div key={band.id} className="table-row" style={{ gridTemplateColumns }}>
+          <span>{formatBandLabel(sorted, sorted.indexOf(band))}</span>
+          {band.upTo === null ? (
+            <span className="band-open">—</span>
+          ) : (
+            <NumberInput value={band.upTo} min={0} step={1} onChange={(v) => updateBand(band.id, { upTo: v })} />
+          )}
+          {columns.map(col => (
+            <NumberInput
+              key={col.key}
+              value={band.values[col.key] as number}
+              step={col.step}
+              onChange={(v) => updateValue(band, col.key, v)}
+            />
+          ))}
+          <button
+            className="band-remove"
+            onClick={() => onChange(removeBand(sorted, sorted.indexOf(band)))}
+            disabled={sorted.length <= 1}
+            title="Remove band"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <button className="btn-add-band" onClick={() => onChange(addBand(sorted))}>
+        + Add Band
+      </button>
+    </div>
+  );
+}
+
+// Place of a band in the held order - bands added since go last
+function rank(order: string[], id: string): number {
+  const index = order.indexOf(id);
+  return index < 0 ? order.length : index;
+}
@@ -0,0 +1,40 @@
+import type { WeldProcedure } from '../types';
+import { findProcedure, formatProcedureRange, isInProcedureRange } from '../../engine/procedures';
+
+interface WpsSelectorProps {
+  value?: string;
+  procedures: WeldProcedure[];
+  thickness: number;
+  onChange: (wpsNumber: string | undefined) => void;
+}
+
+/**
+ * WPS picker for a weld item - warns when the item thickness is outside the
+ * WPS range or the referenced number is no longer in the library.
+ */
+export function WpsSelector({ value, procedures, thickness, onChange }: WpsSelectorProps) {
+  const procedure = findProcedure(procedures, value);
+
+  return (
+    <div className="wps-selector">
+      <select value={value ?? ''} onChange={(e) => onChange(e.target.value || undefined)}>
+        <option value="">Manual - no WPS</option>
+        {value && !procedure && <option value={value}>{value} (not in library)</option>}
+        {procedures.map(wps => (
+          <option key={wps.id} value={wps.number}>
+            {wps.number} - {wps.description} ({formatProcedureRange(wps)})
+          </option>
+        ))}
+      </select>
+      {procedure && (
+        <p className="wps-note">Joint prep and processes come from {procedure.number} (Settings → Weld Procedures).</p>
+      )}
+      {procedure && !isInProcedureRange(procedure, thickness) && (
+        <p className="wps-warning">⚠ {thickness}mm is outside the {procedure.number} range of {formatProcedureRange(procedure)}</p>
+      )}
+      {value && !procedure && (
+        <p className="wps-warning">⚠ {value} is not in the WPS library - the item's own prep is used</p>
+      )}
+    </div>
+  );
+}
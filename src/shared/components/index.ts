@@ -1,5 +1,6 @@
 export { NumberInput } from './NumberInput';
-
-
-
-
+export { ThicknessBandTable } from './ThicknessBandTable';
+export { WpsSelector } from './WpsSelector';
+export { PreheatPanel } from './PreheatPanel';
+export { CourseSelector } from './CourseSelector';
+export { HeadSelector } from './HeadSelector';
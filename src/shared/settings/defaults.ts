@@ -1,4 +1,4 @@
-import type { BeadSizes, TravelSpeedsByThickness, OperatorFactorsByThickness, SharedSettings } from '../types';
+import type { BeadSizes, TravelSpeedsByThickness, OperatorFactorsByThickness, LabourRates, ConsumableSettings, WeldProcedure, PreheatSettings, PreheatInput, PwhtSettings, NdeSettings, PressureTestSettings, CoatingSettings, SharedSettings } from '../types';
 
 export const DEFAULT_BEAD_SIZES: BeadSizes = {
   GTAW: { h: 2.5, w: 6 },
@@ -8,25 +8,198 @@ export const DEFAULT_BEAD_SIZES: BeadSizes = {
   SAW: { h: 4, w: 12 },
 };
 
-export const DEFAULT_TRAVEL_SPEEDS: TravelSpeedsByThickness = {
-  thin: { GTAW: 80, SMAW: 120, FCAW: 200, GMAW: 250, SAW: 400 },
-  medium: { GTAW: 70, SMAW: 100, FCAW: 180, GMAW: 220, SAW: 350 },
-  thick: { GTAW: 60, SMAW: 90, FCAW: 160, GMAW: 200, SAW: 300 },
+export const DEFAULT_TRAVEL_SPEEDS: TravelSpeedsByThickness = [
+  { id: 'speeds-1', upTo: 20, values: { GTAW: 80, SMAW: 120, FCAW: 200, GMAW: 250, SAW: 400 } },
+  { id: 'speeds-2', upTo: 40, values: { GTAW: 70, SMAW: 100, FCAW: 180, GMAW: 220, SAW: 350 } },
+  { id: 'speeds-3', upTo: null, values: { GTAW: 60, SMAW: 90, FCAW: 160, GMAW: 200, SAW: 300 } },
+];
+
+export const DEFAULT_OPERATOR_FACTORS: OperatorFactorsByThickness = [
+  { id: 'factors-1', upTo: 12, values: { inside: 1.3, outside: 1.2 } },
+  { id: 'factors-2', upTo: 18, values: { inside: 1.4, outside: 1.3 } },
+  { id: 'factors-3', upTo: 25, values: { inside: 1.5, outside: 1.4 } },
+  { id: 'factors-4', upTo: 35, values: { inside: 1.6, outside: 1.5 } },
+  { id: 'factors-5', upTo: 50, values: { inside: 1.7, outside: 1.6 } },
+  { id: 'factors-6', upTo: null, values: { inside: 1.8, outside: 1.7 } },
+];
+
+export const DEFAULT_LABOUR_RATES: LabourRates = {
+  defaultRate: 95,
+  rates: {
+    // Cutting and handling
+    MATCUT: 85, CUTNOZZ: 85, CUTPAD: 85, CRANE: 85, ROLL: 95, FORMHD: 95, FORMPAD: 95,
+    // Fitting
+    FNOZZ: 95, FLON: 95, FCIRC: 95, FHEAD: 95, FINT: 95, FEXT: 95, FPIPE: 95, FTUBE: 95,
+    // Welding
+    WNOZZ: 110, WPAD: 110, WELON: 110, SUBLON: 105, MANLON: 110, WECIRC: 110, SUBCIRC: 105, MANCIR: 110,
+    WHEAD: 110, WSEG: 110, WINT: 110, WEXT: 110, WPIPE: 115, WDAVIT: 110, WTUBE: 115,
+    // Machining, drilling, expanding and bolting
+    MACHMW: 125, BOLTMW: 95, DRILTS: 110, EXPTUB: 95,
+    // Preparation and inspection
+    PREHEAT: 90, BACGRI: 90, BACMIL: 95, NDE: 120,
+    // Heat treatment and testing
+    PWHT: 95, TEST: 90,
+    // Surface protection
+    BLAST: 85, PAINT: 85,
+  },
+  overheadPct: 15,
+  marginPct: 10,
+};
+
+export const DEFAULT_CONSUMABLES: ConsumableSettings = {
+  density: 7.85,
+  processes: {
+    GTAW: { filler: 'ER70S-2', efficiency: 95, fluxRatio: 0, gas: 'Argon', gasFlow: 12 },
+    SMAW: { filler: 'E7018', efficiency: 60, fluxRatio: 0, gas: '', gasFlow: 0 },
+    FCAW: { filler: 'E71T-1C', efficiency: 85, fluxRatio: 0, gas: 'Ar/CO2 75/25', gasFlow: 18 },
+    GMAW: { filler: 'ER70S-6', efficiency: 92, fluxRatio: 0, gas: 'Ar/CO2 82/18', gasFlow: 15 },
+    SAW: { filler: 'EM12K', efficiency: 99, fluxRatio: 1.0, gas: '', gasFlow: 0 },
+  },
+};
+
+// Starter WPS library - plate seams, set-in nozzles and pipe butts
+export const DEFAULT_WELD_PROCEDURES: WeldProcedure[] = [
+  {
+    id: 'wps-001',
+    number: 'WPS-001',
+    description: 'Plate butt, double vee - GTAW root, SMAW fill, SAW',
+    minThickness: 10,
+    maxThickness: null,
+    doubleSided: true,
+    bevelAngle: 30,
+    outsideBevelAngle: 30,
+    rootGap: 3,
+    rootFace: 2,
+    splitRatio: 60,
+    layers: [
+      { process: 'GTAW', minWidth: 0 },
+      { process: 'SMAW', minWidth: 8 },
+      { process: 'SAW', minWidth: 15 },
+    ],
+    backProcess: 'SAW',
+    filletProcess: 'SMAW',
+    beadSizes: {},
+    travelSpeeds: {},
+  },
+  {
+    id: 'wps-002',
+    number: 'WPS-002',
+    description: 'Set-in nozzle, double bevel - GTAW root, SMAW / FCAW fill',
+    minThickness: 6,
+    maxThickness: null,
+    doubleSided: true,
+    bevelAngle: 35,
+    outsideBevelAngle: 15,
+    rootGap: 3,
+    rootFace: 2,
+    splitRatio: 70,
+    layers: [
+      { process: 'GTAW', minWidth: 0 },
+      { process: 'SMAW', minWidth: 6 },
+      { process: 'FCAW', minWidth: 20 },
+    ],
+    backProcess: 'FCAW',
+    filletProcess: 'FCAW',
+    beadSizes: {},
+    travelSpeeds: {},
+  },
+  {
+    id: 'wps-003',
+    number: 'WPS-003',
+    description: 'Pipe butt, single vee - GTAW root, SMAW fill and cap',
+    minThickness: 0,
+    maxThickness: 25,
+    doubleSided: false,
+    bevelAngle: 30,
+    outsideBevelAngle: 30,
+    rootGap: 3,
+    rootFace: 1.5,
+    splitRatio: 100,
+    layers: [
+      { process: 'GTAW', minWidth: 0 },
+      { process: 'SMAW', minWidth: 6 },
+    ],
+    backProcess: 'SMAW',
+    filletProcess: 'SMAW',
+    beadSizes: {},
+    travelSpeeds: {},
+  },
+];
+
+export const DEFAULT_PREHEAT: PreheatSettings = {
+  ambient: 15,
+  specificHeat: 0.49,
+  bandWidth: 75,
+  methods: {
+    torch: { power: 30, efficiency: 25, setupHours: 0.25, interpassPct: 10 },
+    induction: { power: 25, efficiency: 75, setupHours: 0.75, interpassPct: 0 },
+  },
+};
+
+export const DEFAULT_PREHEAT_INPUT: PreheatInput = {
+  calculate: false,
+  pNumber: 'P1',
+  carbonEquivalent: 0.4,
+  method: 'torch',
+};
+
+export const DEFAULT_PWHT: PwhtSettings = {
+  controlTemperature: 425,
+  freeHeatingRate: 200,
+  attendancePct: 10,
+  electricityRate: 0.3,
+  methods: {
+    furnace: { power: 400, soakLoadPct: 40, setupHours: 4 },
+    localBand: { power: 6, soakLoadPct: 50, setupHours: 3 },
+  },
+};
+
+export const DEFAULT_NDE: NdeSettings = {
+  calculate: false,
+  rates: { VT: 20, UT: 6, MPI: 10, DPI: 6 },
+  rtFilmLength: 300,
+  rtShotHours: 0.5,
+  setupHours: 0.25,
+};
+
+export const DEFAULT_PRESSURE_TEST: PressureTestSettings = {
+  fillRate: 200,
+  pumpRate: 10,
+  compressorRate: 1000,
+  drainRate: 400,
+  holdMinutes: 30,
+  dryHoursPerM3: 0.25,
+  setupHours: 2,
+  flangeHours: 0.5,
+  attendancePct: 25,
+  gasketCost: 15,
+  waterCost: 3,
 };
 
-export const DEFAULT_OPERATOR_FACTORS: OperatorFactorsByThickness = {
-  range1: { inside: 1.3, outside: 1.2 },
-  range2: { inside: 1.4, outside: 1.3 },
-  range3: { inside: 1.5, outside: 1.4 },
-  range4: { inside: 1.6, outside: 1.5 },
-  range5: { inside: 1.7, outside: 1.6 },
-  range6: { inside: 1.8, outside: 1.7 },
+export const DEFAULT_COATINGS: CoatingSettings = {
+  blastRate: 10,
+  paintRate: 25,
+  coatSetupHours: 0.5,
+  internalFactor: 150,
+  mediaKgPerM2: 30,
+  mediaCost: 600,
+  volumeSolids: 60,
+  lossPct: 30,
+  paintCost: 40,
 };
 
 export const DEFAULT_SETTINGS: SharedSettings = {
   beadSizes: DEFAULT_BEAD_SIZES,
   travelSpeeds: DEFAULT_TRAVEL_SPEEDS,
   operatorFactors: DEFAULT_OPERATOR_FACTORS,
+  labourRates: DEFAULT_LABOUR_RATES,
+  consumables: DEFAULT_CONSUMABLES,
+  weldProcedures: DEFAULT_WELD_PROCEDURES,
+  preheat: DEFAULT_PREHEAT,
+  pwht: DEFAULT_PWHT,
+  nde: DEFAULT_NDE,
+  pressureTest: DEFAULT_PRESSURE_TEST,
+  coatings: DEFAULT_COATINGS,
 };
 
 
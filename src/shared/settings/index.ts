@@ -1,5 +1,2 @@
 export * from './defaults';
-
-
-
-
+export * from './migrate';
@@ -0,0 +1,142 @@
+import type { ConsumableSettings, LabourRates, PreheatSettings, PwhtSettings, NdeSettings, SharedSettings, ThicknessBand, WeldProcedure } from '../types';
+import { DEFAULT_SETTINGS } from './defaults';
+import { withBandIds } from '../../engine/bands';
+
+// Band edges of the old fixed-key settings (thin/medium/thick, range1-range6)
+const LEGACY_SPEED_BANDS = [['thin', 20], ['medium', 40], ['thick', null]] as const;
+const LEGACY_FACTOR_BANDS = [
+  ['range1', 12], ['range2', 18], ['range3', 25], ['range4', 35], ['range5', 50], ['range6', null],
+] as const;
+
+/**
+ * Convert a keyed thickness table to bands, or keep it if it is already banded
+ */
+function toBands<T>(
+  stored: unknown,
+  legacyKeys: readonly (readonly [string, number | null])[],
+  defaults: ThicknessBand<T>[]
+): ThicknessBand<T>[] {
+  if (Array.isArray(stored)) {
+    return stored.length > 0 ? withBandIds(stored) : defaults;
+  }
+  if (!stored || typeof stored !== 'object') {
+    return defaults;
+  }
+
+  const keyed = stored as Record<string, T>;
+  const bands = legacyKeys
+    .filter(([key]) => keyed[key])
+    .map(([key, upTo]) => ({ id: key, upTo, values: keyed[key] }));
+  return bands.length > 0 ? bands : defaults;
+}
+
+/**
+ * Merge stored labour rates over the defaults so new activity codes pick up a rate
+ */
+function migrateLabourRates(stored: unknown): LabourRates {
+  const defaults = DEFAULT_SETTINGS.labourRates;
+  const data = (stored && typeof stored === 'object' ? stored : {}) as Partial<LabourRates>;
+  return {
+    ...defaults,
+    ...data,
+    rates: { ...defaults.rates, ...data.rates },
+  };
+}
+
+/**
+ * Merge stored consumables over the defaults, process by process
+ */
+function migrateConsumables(stored: unknown): ConsumableSettings {
+  const defaults = DEFAULT_SETTINGS.consumables;
+  const data = (stored && typeof stored === 'object' ? stored : {}) as Partial<ConsumableSettings>;
+  const processes = { ...defaults.processes };
+  (Object.keys(processes) as (keyof ConsumableSettings['processes'])[]).forEach(proc => {
+    processes[proc] = { ...processes[proc], ...data.processes?.[proc] };
+  });
+  return { ...defaults, ...data, processes };
+}
+
+/**
+ * Keep a stored WPS library, filling fields added since it was saved
+ */
+function migrateWeldProcedures(stored: unknown): WeldProcedure[] {
+  if (!Array.isArray(stored)) return DEFAULT_SETTINGS.weldProcedures;
+  const [template] = DEFAULT_SETTINGS.weldProcedures;
+  return (stored as Partial<WeldProcedure>[]).map(wps => ({
+    ...template,
+    ...wps,
+    beadSizes: { ...wps.beadSizes },
+    travelSpeeds: { ...wps.travelSpeeds },
+  }));
+}
+
+/**
+ * Merge stored preheat settings over the defaults, method by method
+ */
+function migratePreheat(stored: unknown): PreheatSettings {
+  const defaults = DEFAULT_SETTINGS.preheat;
+  const data = (stored && typeof stored === 'object' ? stored : {}) as Partial<PreheatSettings>;
+  return {
+    ...defaults,
+    ...data,
+    methods: {
+      torch: { ...defaults.methods.torch, ...data.methods?.torch },
+      induction: { ...defaults.methods.induction, ...data.methods?.induction },
+    },
+  };
+}
+
+/**
+ * Merge stored PWHT settings over the defaults, method by method
+ */
+function migratePwht(stored: unknown): PwhtSettings {
+  const defaults = DEFAULT_SETTINGS.pwht;
+  const data = (stored && typeof stored === 'object' ? stored : {}) as Partial<PwhtSettings>;
+  return {
+    ...defaults,
+    ...data,
+    methods: {
+      furnace: { ...defaults.methods.furnace, ...data.methods?.furnace },
+      localBand: { ...defaults.methods.localBand, ...data.methods?.localBand },
+    },
+  };
+}
+
+/**
+ * Merge stored NDE settings over the defaults, rate by rate
+ */
+function migrateNde(stored: unknown): NdeSettings {
+  const defaults = DEFAULT_SETTINGS.nde;
+  const data = (stored && typeof stored === 'object' ? stored : {}) as Partial<NdeSettings>;
+  return {
+    ...defaults,
+    ...data,
+    rates: { ...defaults.rates, ...data.rates },
+  };
+}
+
+/**
+ * Bring stored settings up to the current shape
+ *
+ * Older saves keep travel speeds and operator factors under fixed keys; those
+ * become bands with the original edges. Missing sections take the defaults.
+ */
+export function migrateSettings(stored: unknown): SharedSettings {
+  const data = (stored && typeof stored === 'object' ? stored : {}) as Partial<Record<keyof SharedSettings, unknown>>;
+
+  return {
+    ...DEFAULT_SETTINGS,
+    ...(data as Partial<SharedSettings>),
+    beadSizes: { ...DEFAULT_SETTINGS.beadSizes, ...(data.beadSizes as Partial<SharedSettings['beadSizes']>) },
+    travelSpeeds: toBands(data.travelSpeeds, LEGACY_SPEED_BANDS, DEFAULT_SETTINGS.travelSpeeds),
+    operatorFactors: toBands(data.operatorFactors, LEGACY_FACTOR_BANDS, DEFAULT_SETTINGS.operatorFactors),
+    labourRates: migrateLabourRates(data.labourRates),
+    consumables: migrateConsumables(data.consumables),
+    weldProcedures: migrateWeldProcedures(data.weldProcedures),
+    preheat: migratePreheat(data.preheat),
+    pwht: migratePwht(data.pwht),
+    nde: migrateNde(data.nde),
+    pressureTest: { ...DEFAULT_SETTINGS.pressureTest, ...(data.pressureTest as Partial<SharedSettings['pressureTest']>) },
+    coatings: { ...DEFAULT_SETTINGS.coatings, ...(data.coatings as Partial<SharedSettings['coatings']>) },
+  };
+}
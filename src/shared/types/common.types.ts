@@ -31,35 +31,64 @@ export interface TravelSpeeds {
   SAW: number;
 }
 
-export interface TravelSpeedsByThickness {
-  thin: TravelSpeeds;   // < 20mm
-  medium: TravelSpeeds; // 20-40mm
-  thick: TravelSpeeds;  // > 40mm
-}
-
 // Operator factors
 export interface OperatorFactors {
   inside: number;
   outside: number;
 }
 
-export interface OperatorFactorsByThickness {
-  range1: OperatorFactors; // < 12mm
-  range2: OperatorFactors; // 12-18mm
-  range3: OperatorFactors; // 18-25mm
-  range4: OperatorFactors; // 25-35mm
-  range5: OperatorFactors; // 35-50mm
-  range6: OperatorFactors; // > 50mm
+/**
+ * Thickness band - applies from the previous band's upTo (inclusive)
+ * up to its own upTo (exclusive). The last band is open-ended (upTo = null).
+ */
+export interface ThicknessBand<T> {
+  id: string;
+  upTo: number | null; // mm
+  values: T;
 }
 
+export type TravelSpeedsByThickness = ThicknessBand<TravelSpeeds>[];
+export type OperatorFactorsByThickness = ThicknessBand<OperatorFactors>[];
+
 // Activity codes - used across all modules
 export type ActivityCode = 
   | 'CUTNOZZ' | 'FNOZZ' | 'WNOZZ'           // Nozzle specific
+  | 'CUTPAD' | 'FORMPAD' | 'WPAD'           // Nozzle reinforcing pads
+  | 'WDAVIT' | 'MACHMW' | 'BOLTMW'          // Manways
   | 'WLONG' | 'FLONG'                        // Long weld specific
   | 'WCIRC' | 'FCIRC'                        // Circ weld specific
+  | 'WHEAD' | 'FHEAD' | 'WSEG' | 'FORMHD'    // Heads
   | 'WINT' | 'FINT'                          // Internals
   | 'WEXT' | 'FEXT'                          // Externals
-  | 'PREHEAT' | 'BACGRI' | 'MATCUT' | 'NDE'; // Shared
+  | 'DRILTS' | 'FTUBE' | 'WTUBE' | 'EXPTUB'  // Tubesheets
+  | 'PREHEAT' | 'BACGRI' | 'MATCUT' | 'NDE'  // Shared
+  | 'PWHT'                                   // Heat treatment
+  | 'TEST'                                   // Pressure test
+  | 'BLAST' | 'PAINT';                       // Surface protection
+
+// Weld metal deposited by one process
+export interface ProcessDeposit {
+  volume: number;   // mm³
+  arcTime: number;  // hours - arc-on time, drives shielding gas use
+}
+
+export type DepositByProcess = Partial<Record<Exclude<WeldProcess, 'Skip'>, ProcessDeposit>>;
+
+// NDE - inspection method and the joint categories the offer sets coverage for
+export type NdeMethod = 'VT' | 'RT' | 'UT' | 'MPI' | 'DPI';
+export type NdeCategory =
+  | 'longWelds' | 'circWelds' | 'nozzleShell' | 'nozzleFlange'
+  | 'liftingAttachments' | 'externalAttachments' | 'internalAttachments' | 'tubeWelds';
+
+// One method on one joint category
+export interface NdeExam {
+  category: NdeCategory;
+  method: NdeMethod;
+  coverage: number;     // % of the weld length examined
+  length: number;       // mm examined
+  shots: number;        // RT exposures, 0 for the other methods
+  hours: number;
+}
 
 // Module summary for roll-up
 export interface ModuleSummary {
@@ -68,6 +97,141 @@ export interface ModuleSummary {
   itemCount: number;
   totalHours: number;
   activityBreakdown: Record<string, number>;
+  deposits?: DepositByProcess;  // Weld metal by process, all items × quantity
+  directCost?: number;          // $ - costs outside labour, e.g. PWHT energy
+  nde?: NdeExam[];              // Planned NDE by category and method, all items × quantity
+  groups?: { label: string; hours: number }[];  // Hours split within the module, e.g. shell and head nozzles
+  itemCodes?: Record<string, Record<string, number>>;  // Activity codes for one of each item, by item id
+}
+
+// Labour rates - hourly rate per activity code, codes without a rate use defaultRate
+export interface LabourRates {
+  defaultRate: number;                // $/hr
+  rates: Record<string, number>;      // $/hr by activity code
+  overheadPct: number;                // % on labour
+  marginPct: number;                  // % on labour + overhead
+}
+
+// Consumables per process
+export interface ProcessConsumable {
+  filler: string;        // Filler classification, e.g. "E7018"
+  efficiency: number;    // % deposition efficiency - deposited / consumed
+  fluxRatio: number;     // kg flux per kg wire (SAW)
+  gas: string;           // Shielding gas, blank for none
+  gasFlow: number;       // L/min
+}
+
+export interface ConsumableSettings {
+  density: number;       // g/cm³ - deposited weld metal
+  processes: Record<Exclude<WeldProcess, 'Skip'>, ProcessConsumable>;
+}
+
+// Weld procedure specification (WPS) - joint prep and process sequence items can reference by number
+export interface WeldProcedure {
+  id: string;
+  number: string;              // e.g. "WPS-001"
+  description: string;
+  minThickness: number;        // mm - qualified range
+  maxThickness: number | null; // mm - null for no upper limit
+
+  // Joint prep
+  doubleSided: boolean;        // Double vee / double bevel
+  bevelAngle: number;          // degrees - 1st side
+  outsideBevelAngle: number;   // degrees - 2nd side on double-sided joints
+  rootGap: number;             // mm
+  rootFace: number;            // mm (land)
+  splitRatio: number;          // % - welded from the 1st side on double-sided joints
+
+  // Process sequence
+  layers: { process: Exclude<WeldProcess, 'Skip'>; minWidth: number }[];  // 1st side, root first
+  backProcess: Exclude<WeldProcess, 'Skip'>;    // 2nd side / back weld
+  filletProcess: Exclude<WeldProcess, 'Skip'>;  // Fillets and cover fillets
+
+  // Overrides of the shared settings, missing processes use the shared values
+  beadSizes: Partial<BeadSizes>;
+  travelSpeeds: Partial<TravelSpeeds>;  // mm/min, applies at every thickness
+}
+
+// Preheat - base material group (ASME P-number) and heating method
+export type PNumber = 'P1' | 'P3' | 'P4' | 'P5A' | 'P8';
+export type PreheatMethod = 'torch' | 'induction';
+
+// Preheat input on a weld item - manual items keep their hand-entered preheat hours
+export interface PreheatInput {
+  calculate: boolean;
+  pNumber: PNumber;
+  carbonEquivalent: number;    // CE (IIW)
+  method: PreheatMethod;
+}
+
+export interface PreheatMethodSettings {
+  power: number;               // kW - heat source output
+  efficiency: number;          // % - heat that reaches the plate
+  setupHours: number;          // Set up torches / lay mats and thermocouples
+  interpassPct: number;        // % of weld time spent holding interpass temperature
+}
+
+export interface PreheatSettings {
+  ambient: number;             // °C - shop temperature
+  specificHeat: number;        // kJ/kg·K
+  bandWidth: number;           // mm - minimum heated band each side of the weld
+  methods: Record<PreheatMethod, PreheatMethodSettings>;
+}
+
+// Post-weld heat treatment - whole vessel in a furnace, or local bands around the circ seams
+export type PwhtMethod = 'furnace' | 'localBand';
+
+export interface PwhtMethodSettings {
+  power: number;               // kW for the furnace, kW per metre of band for local heaters
+  soakLoadPct: number;         // % of power drawn holding soak temperature
+  setupHours: number;          // Per cycle for the furnace, per band for local heaters
+}
+
+export interface PwhtSettings {
+  controlTemperature: number;  // °C - heating and cooling rates are limited above this
+  freeHeatingRate: number;     // °C/h - heating below the control temperature
+  attendancePct: number;       // % of cycle time charged to monitor the chart recorder
+  electricityRate: number;     // $/kWh
+  methods: Record<PwhtMethod, PwhtMethodSettings>;
+}
+
+// NDE rates - calculated NDE replaces the hand-entered NDE time on every weld item
+export interface NdeSettings {
+  calculate: boolean;          // NDE hours from weld length × offer coverage
+  rates: Record<Exclude<NdeMethod, 'RT'>, number>;  // m/h of weld examined
+  rtFilmLength: number;        // mm of weld per RT exposure
+  rtShotHours: number;         // hours per exposure - set up, shoot and develop
+  setupHours: number;          // Per item for each method used
+}
+
+// Pressure test - hydrostatic with water, or pneumatic with air
+export type PressureTestMethod = 'hydro' | 'pneumatic';
+
+export interface PressureTestSettings {
+  fillRate: number;            // L/min - water supply
+  pumpRate: number;            // L/min - test pump displacement
+  compressorRate: number;      // L/min of free air - pneumatic tests
+  drainRate: number;           // L/min
+  holdMinutes: number;         // Hold at test pressure for inspection
+  dryHoursPerM3: number;       // Hours to dry out per m³ of volume
+  setupHours: number;          // Rig pump, gauges and chart recorder
+  flangeHours: number;         // Fit and remove one blind flange
+  attendancePct: number;       // % of fill, drain and dry time charged
+  gasketCost: number;          // $ per test gasket
+  waterCost: number;           // $/m³
+}
+
+// Coatings - abrasive blasting and spray painting
+export interface CoatingSettings {
+  blastRate: number;           // m²/h
+  paintRate: number;           // m²/h per coat
+  coatSetupHours: number;      // Mix, set up and clean down per coat
+  internalFactor: number;      // % of the external hours for internal surfaces
+  mediaKgPerM2: number;        // Blast media used per m²
+  mediaCost: number;           // $/t
+  volumeSolids: number;        // % - paint volume solids
+  lossPct: number;             // % - overspray and mixing loss
+  paintCost: number;           // $/L
 }
 
 // Shared settings
@@ -75,6 +239,14 @@ export interface SharedSettings {
   beadSizes: BeadSizes;
   travelSpeeds: TravelSpeedsByThickness;
   operatorFactors: OperatorFactorsByThickness;
+  labourRates: LabourRates;
+  consumables: ConsumableSettings;
+  weldProcedures: WeldProcedure[];
+  preheat: PreheatSettings;
+  pwht: PwhtSettings;
+  nde: NdeSettings;
+  pressureTest: PressureTestSettings;
+  coatings: CoatingSettings;
 }
 
 